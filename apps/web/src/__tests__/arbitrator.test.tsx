@@ -0,0 +1,62 @@
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { ArbitratorCaseView } from '@/components/disputes/ArbitratorCaseView';
+import { toDisputeView } from '@/lib/disputeWorkspace';
+import { daysAgo, disputeContext, disputeFixture, pinClock } from './fixtures/disputes';
+
+const dispute = toDisputeView(disputeFixture({
+  status: 'IN_ARBITRATION',
+  arbitrator: 'arbitrator-1',
+  evidence: [
+    { filename: 'brief.pdf', uploadedBy: 'client-1' },
+    { filename: 'mockups.fig', uploadedBy: 'freelancer-1' },
+  ],
+  phaseStartedAt: daysAgo(1),
+}), disputeContext);
+
+const props = {
+  dispute,
+  assignment: 'arbitration' as const,
+  conflicts: [],
+  notes: [],
+  disputedAmount: 100000,
+  analysis: null,
+  onBack: jest.fn(),
+  onAnalyze: jest.fn(),
+  onAddNote: jest.fn(),
+  onDecide: jest.fn().mockResolvedValue(undefined),
+  onReviewAppeal: jest.fn(),
+};
+
+describe('arbitrator case file', () => {
+  pinClock();
+
+  it("should show both parties' evidence and issue a balanced decision", async () => {
+    render(<ArbitratorCaseView {...props} />);
+
+    expect(within(screen.getByText("Client's Evidence").parentElement!).getByText('brief.pdf')).toBeInTheDocument();
+    expect(within(screen.getByText("Freelancer's Evidence").parentElement!).getByText('mockups.fig')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('To freelancer'), { target: { value: '600' } });
+    fireEvent.change(screen.getByLabelText('To client'), { target: { value: '300' } });
+    fireEvent.change(screen.getByLabelText('Rationale'), { target: { value: 'Most of the milestone was delivered' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Issue Decision' }));
+    expect(await screen.findByText(/must add up to the disputed amount \(\$1,000\.00\)/)).toBeInTheDocument();
+    expect(props.onDecide).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText('To client'), { target: { value: '400' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Issue Decision' }));
+    await waitFor(() => expect(props.onDecide).toHaveBeenCalledWith(
+      expect.objectContaining({ decision: 'PARTIAL_SPLIT', freelancerAmount: 60000, clientAmount: 40000 }),
+      false
+    ));
+  });
+
+  it('should block the decision when the neutral has a conflict of interest', () => {
+    const conflicts = [{ projectId: 'proj-2', projectTitle: 'Logo', party: 'client' as const, reason: 'You worked with the client on Logo' }];
+    render(<ArbitratorCaseView {...props} conflicts={conflicts} />);
+
+    expect(screen.getByText('Conflict of interest')).toBeInTheDocument();
+    expect(screen.getByText('You worked with the client on Logo')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Issue Decision' })).not.toBeInTheDocument();
+  });
+});
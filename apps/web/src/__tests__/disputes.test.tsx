@@ -0,0 +1,160 @@
+import { act, render, screen, within } from '@testing-library/react';
+import { DisputeCaseView } from '@/components/disputes/DisputeCaseView';
+import { DisputeListPanel } from '@/components/disputes/DisputeListPanel';
+import { EscalationSuggestion } from '@/components/disputes/EscalationSuggestion';
+import { DisputeView, toDisputeView } from '@/lib/disputeWorkspace';
+import { Dispute } from '@/types';
+import { daysAgo, disputeContext, disputeFixture, now, pinClock } from './fixtures/disputes';
+
+// The picker loads project records from the API; its own behaviour is covered elsewhere
+jest.mock('@/components/disputes/EvidenceBundlePicker', () => ({
+  EvidenceBundlePicker: () => <div>Evidence bundle picker</div>,
+}));
+
+const view = (overrides: Partial<Dispute> = {}): DisputeView => toDisputeView(disputeFixture({
+  mediator: 'Dana Mediator',
+  evidence: [{ filename: 'brief.pdf', uploadedBy: 'client-1' }],
+  disputeFee: { clientFee: 2500, freelancerFee: 1500, totalAmount: 4000, status: 'PENDING', disputeAmount: 100000 },
+  createdAt: daysAgo(5),
+  phaseStartedAt: daysAgo(1),
+  ...overrides,
+}), disputeContext);
+
+const handlers = {
+  onBack: jest.fn(),
+  onTransition: jest.fn(),
+  onPayFee: jest.fn(),
+  onSubmitEvidence: jest.fn(),
+  onBundleSubmitted: jest.fn(),
+  onAppeal: jest.fn(),
+  onRateMediator: jest.fn(),
+};
+
+const heading = (name: string) => screen.queryByText(name, { selector: 'h3' });
+
+describe('dispute workspace', () => {
+  pinClock();
+
+  it('should show the client their own fee share and evidence', () => {
+    render(<DisputeCaseView dispute={view({ status: 'PENDING_FEE' })} role="client" {...handlers} />);
+
+    expect(screen.getByRole('button', { name: /Pay Dispute Fee - \$25\.00/ })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Withdraw dispute' })).toBeInTheDocument();
+    expect(within(screen.getByText('Your Evidence').parentElement!).getByText('brief.pdf')).toBeInTheDocument();
+    expect(screen.getByText('No evidence submitted by the freelancer')).toBeInTheDocument();
+    expect(heading('Appeal')).not.toBeInTheDocument();
+  });
+
+  it('should show the freelancer their side of the same dispute', () => {
+    render(<DisputeCaseView dispute={view({ status: 'PENDING_FEE' })} role="freelancer" {...handlers} />);
+
+    expect(screen.getByRole('button', { name: /Pay Dispute Fee - \$15\.00/ })).toBeInTheDocument();
+    expect(screen.getByText('You have not submitted any evidence')).toBeInTheDocument();
+    expect(within(screen.getByText("Client's Evidence").parentElement!).getByText('brief.pdf')).toBeInTheDocument();
+  });
+
+  it('should offer mediation actions and evidence submission while in mediation', () => {
+    render(<DisputeCaseView dispute={view()} role="freelancer" {...handlers} />);
+
+    expect(screen.getByRole('button', { name: /Join Mediation Session/ })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Escalate to arbitration' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Submit Evidence/ })).toBeInTheDocument();
+    expect(screen.getByText('Evidence bundle picker')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /Pay Dispute Fee/ })).not.toBeInTheDocument();
+  });
+
+  it('should let either party appeal a resolution but only the client rate the neutral', () => {
+    const resolved = view({
+      status: 'RESOLVED',
+      resolution: {
+        decision: 'Release 70% to the freelancer',
+        amountToFreelancer: 70000,
+        amountToClient: 30000,
+        decisionReason: 'Partially delivered',
+        decidedBy: 'arbitrator-1',
+        decidedAt: daysAgo(2),
+      },
+    });
+
+    const { unmount } = render(<DisputeCaseView dispute={resolved} role="client" {...handlers} />);
+    expect(screen.getByRole('button', { name: /Submit Appeal/ })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Rate 5 out of 5' })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /Submit Evidence/ })).not.toBeInTheDocument();
+    unmount();
+
+    render(<DisputeCaseView dispute={resolved} role="freelancer" {...handlers} />);
+    expect(screen.getByRole('button', { name: /Submit Appeal/ })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Rate 5 out of 5' })).not.toBeInTheDocument();
+  });
+
+  it('should show the original and appealed outcomes side by side', () => {
+    const original = {
+      decision: 'Release 70% to the freelancer',
+      amountToFreelancer: 70000,
+      amountToClient: 30000,
+      decisionReason: 'Partially delivered',
+      decidedBy: 'arbitrator-1',
+      decidedAt: daysAgo(5),
+    };
+    const revised = view({
+      status: 'RESOLVED',
+      resolution: { ...original, decision: 'Release 50% to the freelancer', amountToFreelancer: 50000, amountToClient: 50000 },
+      appeals: [{
+        id: 'appeal-disp-1-1',
+        appellant: 'client',
+        appellantId: 'client-1',
+        reason: 'The brief was signed off',
+        fee: { amount: 5000, currency: 'USD', paid: true },
+        reviewerId: 'arbitrator-2',
+        status: 'APPROVED',
+        outcome: 'REVISED',
+        submittedAt: daysAgo(4),
+        reviewedAt: daysAgo(1),
+        originalResolution: original,
+        revisedResolution: { ...original, decision: 'Release 50% to the freelancer', amountToFreelancer: 50000, amountToClient: 50000 },
+      }],
+    });
+
+    render(<DisputeCaseView dispute={revised} role="freelancer" {...handlers} />);
+    expect(screen.getByText('Resolution revised')).toBeInTheDocument();
+    const row = screen.getByText('To freelancer').closest('tr')!;
+    expect(within(row).getByText('$700.00')).toBeInTheDocument();
+    expect(within(row).getByText('$500.00')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /Submit Appeal/ })).not.toBeInTheDocument();
+  });
+
+  it('should only let roles that can open disputes create one', () => {
+    const listProps = {
+      disputes: [view()],
+      allDisputes: [view()],
+      searchTerm: '',
+      statusFilter: 'all' as const,
+      currentView: 'grid' as const,
+      onSearchChange: jest.fn(),
+      onStatusChange: jest.fn(),
+      onToggleView: jest.fn(),
+      onSelect: jest.fn(),
+    };
+
+    const { unmount } = render(<DisputeListPanel {...listProps} onCreate={jest.fn()} />);
+    expect(screen.getByRole('button', { name: /Create Dispute/ })).toBeInTheDocument();
+    expect(screen.getByText('Mockups do not match the brief', { selector: 'h3' })).toBeInTheDocument();
+    unmount();
+
+    render(<DisputeListPanel {...listProps} />);
+    expect(screen.queryByRole('button', { name: /Create Dispute/ })).not.toBeInTheDocument();
+  });
+
+  it('should surface an escalation suggestion once the SLA threshold passes', () => {
+    // Arbitration turns at risk after 75% of its 7 days; this one gets there in 30 seconds
+    const startedAt = new Date(now.getTime() - 5.25 * 24 * 60 * 60 * 1000 + 30 * 1000);
+    const dispute = disputeFixture({ status: 'IN_ARBITRATION', updatedAt: startedAt, phaseStartedAt: startedAt });
+    render(<EscalationSuggestion disputeId="disp-1" dispute={dispute} />);
+    expect(screen.queryByText(/Arbitration SLA/)).not.toBeInTheDocument();
+
+    act(() => {
+      jest.advanceTimersByTime(30 * 1000);
+    });
+    expect(screen.getByText(/Arbitration SLA at risk .*: remind the arbitrator/)).toBeInTheDocument();
+  });
+});
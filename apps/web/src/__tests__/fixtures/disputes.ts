@@ -0,0 +1,38 @@
+import { Dispute } from '@/types';
+
+// Shared records for the dispute and arbitration suites. Relative dates hang off a
+// fixed clock so phase deadlines and SLA levels do not move with the day the
+// suites run; rendered components read the same clock through pinClock().
+
+export const now = new Date('2024-03-10T12:00:00Z');
+
+export const daysAgo = (days: number): Date => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+export const disputeContext = {
+  projects: [{ id: 'proj-1', title: 'Website Redesign', clientId: 'client-1', freelancerId: 'freelancer-1' }],
+  milestones: [{ id: 'ms-1', title: 'Design mockups', amount: 100000, currency: 'USD' }],
+};
+
+// The client disputing the first milestone; suites override the phase and parties they exercise
+export const disputeFixture = (overrides: Partial<Dispute> = {}): Dispute => ({
+  id: 'disp-1',
+  project: 'proj-1',
+  milestone: 'ms-1',
+  raisedBy: 'client-1',
+  reason: 'Mockups do not match the brief',
+  status: 'IN_MEDIATION',
+  phaseStartedAt: daysAgo(1),
+  createdAt: daysAgo(10),
+  updatedAt: daysAgo(1),
+  ...overrides,
+});
+
+// Components read Date.now(), so pin it (and their timers) to the fixture clock
+export const pinClock = () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+  });
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+};
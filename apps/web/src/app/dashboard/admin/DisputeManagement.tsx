@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import {
@@ -11,7 +12,8 @@ import {
   TableHeader,
   TableRow
 } from '@/components/ui/table';
-import { Search, Eye, MessageSquare, Gavel, Filter } from 'lucide-react';
+import { Search, Eye, MessageSquare, Gavel, Filter, Calculator, Timer } from 'lucide-react';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -19,20 +21,75 @@ import {
   DropdownMenuLabel,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { useAdminDisputes } from '@/lib/api';
+import { useAdminDisputes, useTransitionDispute } from '@/lib/api';
+import { availableTransitions, DisputeActor, DisputeTransition, normalizeDisputeStatus } from '@/lib/disputeLifecycle';
+import { splitAmountsOf } from '@/lib/disputeSettlement';
+import {
+  DEFAULT_DISPUTE_SLA,
+  DISPUTE_SLA_PHASES,
+  DISPUTE_SLA_PHASE_LABELS,
+  DisputeSlaPolicy,
+  disputeSla,
+  disputeSlaPolicy,
+  sortByBreachRisk,
+} from '@/lib/disputeSla';
+import { SettlementCalculator } from '@/components/disputes/SettlementCalculator';
+import { DisputeSlaBadge } from '@/components/disputes/DisputeSlaBadge';
+import { EscalationSuggestion } from '@/components/disputes/EscalationSuggestion';
+
+// Admins step in for the mediator and arbitrator and can trigger system transitions by hand
+const ADMIN_ACTORS: DisputeActor[] = ['mediator', 'arbitrator', 'system'];
+
+// Transitions that need a decision or reason are made from the case view, not the table
+const quickTransitions = (dispute: any): DisputeTransition[] =>
+  availableTransitions(dispute, ADMIN_ACTORS).filter(transition => !transition.requires?.length);
+
+const SLA_POLICY_KEY = 'disputeSlaPolicy';
+
+// SLA windows are set per browser by the ops team; a broken saved value falls back to the defaults
+const loadSlaPolicy = (): DisputeSlaPolicy => {
+  if (typeof window === 'undefined') {
+    return DEFAULT_DISPUTE_SLA;
+  }
+  try {
+    const saved = localStorage.getItem(SLA_POLICY_KEY);
+    return saved ? disputeSlaPolicy(JSON.parse(saved)) : DEFAULT_DISPUTE_SLA;
+  } catch {
+    return DEFAULT_DISPUTE_SLA;
+  }
+};
 
 export function DisputeManagement() {
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState('all');
   const [currentPage, setCurrentPage] = useState(1);
+  const [settlementDispute, setSettlementDispute] = useState<any>(null);
+  const [slaPolicy, setSlaPolicy] = useState<DisputeSlaPolicy>(loadSlaPolicy);
+  const [slaDraft, setSlaDraft] = useState<DisputeSlaPolicy | null>(null);
+  const [slaError, setSlaError] = useState<string | null>(null);
+
+  const transitionDispute = useTransitionDispute();
 
   const { data: disputesData, isLoading, error } = useAdminDisputes({
     page: currentPage,
     limit: 10,
     status: filterStatus !== 'all' ? filterStatus.toUpperCase().replace('-', '_') : undefined,
-    search: searchTerm
+    search: searchTerm,
+    sort: 'breach_risk',
   });
 
+  const handleSaveSlaPolicy = () => {
+    if (!slaDraft) return;
+    try {
+      const policy = disputeSlaPolicy(slaDraft);
+      localStorage.setItem(SLA_POLICY_KEY, JSON.stringify(policy));
+      setSlaPolicy(policy);
+      setSlaDraft(null);
+    } catch (err: any) {
+      setSlaError(err.message);
+    }
+  };
+
   if (isLoading) {
     return (
       <Card>
@@ -68,7 +125,8 @@ export function DisputeManagement() {
     );
   }
 
-  const disputes = disputesData?.items || [];
+  // The server ranks the queue with the default SLAs; re-rank the page with ours
+  const disputes = sortByBreachRisk(disputesData?.items || [], slaPolicy);
 
   return (
     <Card>
@@ -118,9 +176,24 @@ export function DisputeManagement() {
               }}>Resolved</DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
+          <Button
+            variant="outline"
+            onClick={() => {
+              setSlaError(null);
+              setSlaDraft(slaPolicy);
+            }}
+          >
+            <Timer className="h-4 w-4 mr-2" />
+            SLA settings
+          </Button>
         </div>
       </CardHeader>
       <CardContent>
+        {transitionDispute.error && (
+          <div className="text-sm text-destructive mb-2">
+            {(transitionDispute.error as Error).message}
+          </div>
+        )}
         <div className="overflow-x-auto">
           <Table>
             <TableHeader>
@@ -131,58 +204,109 @@ export function DisputeManagement() {
                 <TableHead>Status</TableHead>
                 <TableHead>Reason</TableHead>
                 <TableHead>Phase</TableHead>
+                <TableHead>SLA</TableHead>
                 <TableHead>Date</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {disputes.length > 0 ? (
-                disputes.map((dispute: any) => (
-                  <TableRow key={dispute.id}>
-                    <TableCell className="font-mono text-sm">
-                      {dispute.id?.substring(0, 8)}
-                    </TableCell>
-                    <TableCell>
-                      {dispute.project?.title || dispute.project?.id?.substring(0, 8)}
-                    </TableCell>
-                    <TableCell>
-                      {dispute.milestone?.title || dispute.milestone?.id?.substring(0, 8)}
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant={
-                        dispute.status === 'RESOLVED' ? 'default' :
-                        dispute.status === 'IN_MEDIATION' ? 'secondary' :
-                        dispute.status === 'IN_ARBITRATION' ? 'destructive' :
-                        'outline'
-                      }>
-                        {dispute.status.replace('_', ' ')}
-                      </Badge>
-                    </TableCell>
-                    <TableCell className="max-w-xs truncate">
-                      {dispute.reason?.substring(0, 30)}...
-                    </TableCell>
-                    <TableCell>
-                      {dispute.resolutionPhase || 'N/A'}
-                    </TableCell>
-                    <TableCell>
-                      {new Date(dispute.createdAt).toLocaleDateString()}
-                    </TableCell>
-                    <TableCell className="text-right">
-                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0 mr-1">
-                        <Eye className="h-4 w-4" />
-                      </Button>
-                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0 mr-1">
-                        <MessageSquare className="h-4 w-4" />
-                      </Button>
-                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                        <Gavel className="h-4 w-4" />
-                      </Button>
-                    </TableCell>
-                  </TableRow>
-                ))
+                disputes.map((dispute: any) => {
+                  const status = normalizeDisputeStatus(dispute.status);
+                  const transitions = quickTransitions(dispute);
+                  const sla = disputeSla(dispute, slaPolicy);
+                  return (
+                    <TableRow key={dispute.id}>
+                      <TableCell className="font-mono text-sm">
+                        {dispute.id?.substring(0, 8)}
+                      </TableCell>
+                      <TableCell>
+                        {dispute.project?.title || dispute.project?.id?.substring(0, 8)}
+                      </TableCell>
+                      <TableCell>
+                        {dispute.milestone?.title || dispute.milestone?.id?.substring(0, 8)}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={
+                          status === 'RESOLVED' ? 'default' :
+                          status === 'IN_MEDIATION' ? 'secondary' :
+                          status === 'IN_ARBITRATION' ? 'destructive' :
+                          'outline'
+                        }>
+                          {status.replace('_', ' ')}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="max-w-xs truncate">
+                        {dispute.reason?.substring(0, 30)}...
+                      </TableCell>
+                      <TableCell>
+                        {dispute.resolutionPhase || 'N/A'}
+                      </TableCell>
+                      <TableCell className="space-y-1">
+                        {sla ? <DisputeSlaBadge dispute={dispute} policy={slaPolicy} /> : 'N/A'}
+                        {sla && (
+                          <EscalationSuggestion
+                            disputeId={dispute.id}
+                            dispute={dispute}
+                            policy={slaPolicy}
+                            disabled={transitionDispute.isPending}
+                            onApply={(action, actor) => transitionDispute.mutate({ disputeId: dispute.id, action, actor })}
+                          />
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {new Date(dispute.createdAt).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0 mr-1">
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0 mr-1">
+                          <MessageSquare className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 mr-1"
+                          disabled={typeof dispute.milestone?.amount !== 'number'}
+                          onClick={() => setSettlementDispute(dispute)}
+                        >
+                          <Calculator className="h-4 w-4" />
+                        </Button>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0"
+                              disabled={transitions.length === 0 || transitionDispute.isPending}
+                            >
+                              <Gavel className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuLabel>Move dispute</DropdownMenuLabel>
+                            {transitions.map(transition => (
+                              <DropdownMenuItem
+                                key={`${transition.action}-${transition.actors.join('-')}`}
+                                onClick={() => transitionDispute.mutate({
+                                  disputeId: dispute.id,
+                                  action: transition.action,
+                                  actor: ADMIN_ACTORS.find(actor => transition.actors.includes(actor)) as DisputeActor,
+                                })}
+                              >
+                                {transition.label}
+                              </DropdownMenuItem>
+                            ))}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
               ) : (
                 <TableRow>
-                  <TableCell colSpan={8} className="text-center text-muted-foreground">
+                  <TableCell colSpan={9} className="text-center text-muted-foreground">
                     No disputes found
                   </TableCell>
                 </TableRow>
@@ -191,6 +315,75 @@ export function DisputeManagement() {
           </Table>
         </div>
 
+        {/* Settlement preview */}
+        <Dialog open={!!settlementDispute} onOpenChange={(open) => !open && setSettlementDispute(null)}>
+          <DialogContent className="sm:max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>
+                Settlement for {settlementDispute?.milestone?.title || settlementDispute?.id?.substring(0, 8)}
+              </DialogTitle>
+            </DialogHeader>
+            {settlementDispute && (
+              <SettlementCalculator
+                milestoneAmount={settlementDispute.milestone.amount}
+                currency={settlementDispute.milestone.currency || settlementDispute.project?.currency}
+                releasedAmount={settlementDispute.milestone.releasedAmount}
+                disputeFee={settlementDispute.disputeFee}
+                proposal={splitAmountsOf(settlementDispute.resolution)}
+                recommendation={splitAmountsOf(settlementDispute.aiAnalysis?.recommendedResolution)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        {/* SLA settings */}
+        <Dialog open={!!slaDraft} onOpenChange={(open) => !open && setSlaDraft(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Dispute SLAs</DialogTitle>
+            </DialogHeader>
+            {slaDraft && (
+              <div className="space-y-3">
+                {DISPUTE_SLA_PHASES.map(phase => (
+                  <div key={phase} className="flex items-center justify-between gap-4">
+                    <Label htmlFor={`sla-${phase}`}>{DISPUTE_SLA_PHASE_LABELS[phase]} (days)</Label>
+                    <Input
+                      id={`sla-${phase}`}
+                      type="number"
+                      min={1}
+                      className="w-24"
+                      value={slaDraft.phaseDays[phase]}
+                      onChange={(e) => setSlaDraft({
+                        ...slaDraft,
+                        phaseDays: { ...slaDraft.phaseDays, [phase]: Number(e.target.value) },
+                      })}
+                    />
+                  </div>
+                ))}
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="sla-at-risk">At risk after (% of window)</Label>
+                  <Input
+                    id="sla-at-risk"
+                    type="number"
+                    min={1}
+                    max={99}
+                    className="w-24"
+                    value={Math.round(slaDraft.atRiskRatio * 100)}
+                    onChange={(e) => setSlaDraft({ ...slaDraft, atRiskRatio: Number(e.target.value) / 100 })}
+                  />
+                </div>
+                {slaError && <p className="text-sm text-destructive">{slaError}</p>}
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setSlaDraft(DEFAULT_DISPUTE_SLA)}>
+                Reset to defaults
+              </Button>
+              <Button onClick={handleSaveSlaPolicy}>Save</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         {/* Pagination */}
         {disputesData?.pagination && disputesData.pagination.total > 0 && (
           <div className="flex items-center justify-between mt-4">
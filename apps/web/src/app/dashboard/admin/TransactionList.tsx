@@ -20,6 +20,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { useAdminTransactions } from '@/lib/api';
+import { Transaction } from '@/types';
 
 export function TransactionList() {
   const [searchTerm, setSearchTerm] = useState('');
@@ -68,9 +69,8 @@ export function TransactionList() {
     );
   }
 
-  const transactions = (transactionsData && typeof transactionsData === 'object' && 'items' in transactionsData)
-    ? (transactionsData.items as any[])
-    : (Array.isArray(transactionsData) ? transactionsData : []);
+  const transactions = transactionsData?.items ?? [];
+  const totalPages = transactionsData?.limit ? Math.ceil(transactionsData.total / transactionsData.limit) : 1;
 
   return (
     <Card>
@@ -107,17 +107,17 @@ export function TransactionList() {
                 setCurrentPage(1);
               }}>Deposits</DropdownMenuItem>
               <DropdownMenuItem onClick={() => {
-                setFilterType('MILESTONE_RELEASE');
+                setFilterType('RELEASE');
                 setCurrentPage(1);
               }}>Milestone Releases</DropdownMenuItem>
               <DropdownMenuItem onClick={() => {
-                setFilterType('DISPUTE_PAYMENT');
+                setFilterType('DISPUTE_SETTLEMENT');
                 setCurrentPage(1);
-              }}>Dispute Payments</DropdownMenuItem>
+              }}>Dispute Settlements</DropdownMenuItem>
               <DropdownMenuItem onClick={() => {
-                setFilterType('DISPUTE_REFUND');
+                setFilterType('REFUND');
                 setCurrentPage(1);
-              }}>Dispute Refunds</DropdownMenuItem>
+              }}>Refunds</DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
@@ -138,19 +138,19 @@ export function TransactionList() {
             </TableHeader>
             <TableBody>
               {transactions.length > 0 ? (
-                transactions.map((transaction: any) => (
+                transactions.map((transaction: Transaction) => (
                   <TableRow key={transaction.id}>
                     <TableCell className="font-mono text-sm">
-                      {transaction.providerTransactionId || transaction.id.substring(0, 8)}
+                      {transaction.stripeIntentId || transaction.cryptoTxHash || transaction.id.substring(0, 8)}
                     </TableCell>
                     <TableCell>
                       <Badge variant={
                         transaction.type === 'DEPOSIT' ? 'secondary' :
-                        transaction.type === 'MILESTONE_RELEASE' ? 'default' :
-                        transaction.type === 'DISPUTE_PAYMENT' || transaction.type === 'DISPUTE_REFUND' ? 'destructive' :
+                        transaction.type === 'RELEASE' ? 'default' :
+                        transaction.type === 'DISPUTE_SETTLEMENT' || transaction.type === 'REFUND' ? 'destructive' :
                         'outline'
                       }>
-                        {transaction.type.replace('_', ' ')}
+                        {transaction.type.replace(/_/g, ' ')}
                       </Badge>
                     </TableCell>
                     <TableCell className="font-medium">
@@ -193,27 +193,25 @@ export function TransactionList() {
         </div>
 
         {/* Pagination */}
-        {transactionsData && typeof transactionsData === 'object' && 'pagination' in transactionsData &&
-          transactionsData.pagination &&
-          (transactionsData.pagination as any).total > 0 && (
+        {transactionsData && transactionsData.total > 0 && (
           <div className="flex items-center justify-between mt-4">
             <div className="text-sm text-muted-foreground">
-              Showing {(((transactionsData.pagination as any).page - 1) * (transactionsData.pagination as any).limit) + 1} to {Math.min((transactionsData.pagination as any).page * (transactionsData.pagination as any).limit, (transactionsData.pagination as any).total)} of {(transactionsData.pagination as any).total} transactions
+              Showing {((transactionsData.page - 1) * transactionsData.limit) + 1} to {Math.min(transactionsData.page * transactionsData.limit, transactionsData.total)} of {transactionsData.total} transactions
             </div>
             <div className="flex gap-2">
               <Button
                 variant="outline"
                 size="sm"
                 onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
-                disabled={(transactionsData.pagination as any).page <= 1}
+                disabled={transactionsData.page <= 1}
               >
                 Previous
               </Button>
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setCurrentPage(prev => Math.min(prev + 1, (transactionsData.pagination as any).totalPages))}
-                disabled={(transactionsData.pagination as any).page >= (transactionsData.pagination as any).totalPages}
+                onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
+                disabled={transactionsData.page >= totalPages}
               >
                 Next
               </Button>
@@ -37,11 +37,13 @@ export function UserList() {
   });
 
   useEffect(() => {
-    if (usersData && typeof usersData === 'object' && 'items' in usersData && Array.isArray((usersData as any).items)) {
-      setFilteredUsers((usersData as any).items);
+    if (usersData) {
+      setFilteredUsers(usersData.items);
     }
   }, [usersData]);
 
+  const totalPages = usersData?.limit ? Math.ceil(usersData.total / usersData.limit) : 1;
+
   const handleUpdateStatus = async (userId: string, newStatus: string) => {
     try {
       // Use the store method which now uses the API
@@ -105,7 +107,7 @@ export function UserList() {
             />
           </div>
           <div className="text-sm text-muted-foreground">
-            {(usersData && typeof usersData === 'object' && 'pagination' in usersData && usersData.pagination) ? (usersData.pagination as any).total : 0} users
+            {usersData?.total ?? 0} users
           </div>
         </div>
       </CardHeader>
@@ -204,27 +206,25 @@ export function UserList() {
         </div>
 
         {/* Pagination - for simplicity, I'll add basic pagination if needed */}
-        {usersData && typeof usersData === 'object' && 'pagination' in usersData &&
-          usersData.pagination &&
-          (usersData.pagination as any).total > 0 && (
+        {usersData && usersData.total > 0 && (
           <div className="flex items-center justify-between mt-4">
             <div className="text-sm text-muted-foreground">
-              Showing {(((usersData.pagination as any).page - 1) * (usersData.pagination as any).limit) + 1} to {Math.min((usersData.pagination as any).page * (usersData.pagination as any).limit, (usersData.pagination as any).total)} of {(usersData.pagination as any).total} users
+              Showing {((usersData.page - 1) * usersData.limit) + 1} to {Math.min(usersData.page * usersData.limit, usersData.total)} of {usersData.total} users
             </div>
             <div className="flex gap-2">
               <Button
                 variant="outline"
                 size="sm"
                 onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
-                disabled={(usersData.pagination as any).page <= 1}
+                disabled={usersData.page <= 1}
               >
                 Previous
               </Button>
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setCurrentPage(prev => Math.min(prev + 1, (usersData.pagination as any).totalPages))}
-                disabled={(usersData.pagination as any).page >= (usersData.pagination as any).totalPages}
+                onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
+                disabled={usersData.page >= totalPages}
               >
                 Next
               </Button>
@@ -0,0 +1,25 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import { useAuthStore } from '@/lib/store';
+import { Breadcrumb } from '@/components/ui/breadcrumb';
+import { ArbitratorCaseFile } from '@/components/disputes/ArbitratorCaseFile';
+
+export default function ArbitratorCasePage() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuthStore();
+  const userId = user?._id || (user as { id?: string } | null)?.id || '';
+
+  return (
+    <div className="space-y-6 p-4">
+      <Breadcrumb
+        pages={[
+          { name: 'Dashboard', href: '/dashboard' },
+          { name: 'Arbitrator', href: '/dashboard/arbitrator' },
+          { name: 'Case File', current: true }
+        ]}
+      />
+      {userId && <ArbitratorCaseFile disputeId={id} arbitratorId={userId} />}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import { useAuthStore } from '@/lib/store';
+import { useDisputeStore } from '@/lib/store/disputeStore';
+import { Breadcrumb } from '@/components/ui/breadcrumb';
+import { ArbitratorCaseQueue } from '@/components/disputes/ArbitratorCaseQueue';
+import { arbitratorCaseQueue } from '@/lib/arbitratorWorkspace';
+import { useDisputeContext } from '@/lib/api';
+
+export default function ArbitratorDashboardPage() {
+  const { user } = useAuthStore();
+  const { disputes, loading, error, fetchAssignedDisputes } = useDisputeStore();
+  const userId = user?._id || (user as { id?: string } | null)?.id || '';
+
+  const { data: context } = useDisputeContext(disputes, userId);
+
+  useEffect(() => {
+    if (userId) {
+      fetchAssignedDisputes(userId);
+    }
+  }, [userId, fetchAssignedDisputes]);
+
+  const cases = useMemo(() => arbitratorCaseQueue(disputes, userId), [disputes, userId]);
+
+  return (
+    <div className="space-y-6 p-4">
+      <Breadcrumb
+        pages={[
+          { name: 'Dashboard', href: '/dashboard' },
+          { name: 'Arbitrator', current: true }
+        ]}
+      />
+      <div>
+        <h1 className="text-2xl font-bold">Assigned Cases</h1>
+        <p className="text-muted-foreground">Disputes waiting on your mediation, decision or appeal review</p>
+      </div>
+      {error && <p className="text-red-500">{error}</p>}
+      {loading && cases.length === 0 ? (
+        <p className="text-muted-foreground">Loading cases...</p>
+      ) : (
+        <ArbitratorCaseQueue cases={cases} context={context} />
+      )}
+    </div>
+  );
+}
@@ -26,33 +26,10 @@ import {
 import { useProjects } from '@/hooks/api/useProjects';
 import { useNotifications } from '@/hooks/api/useNotifications';
 import { projectService } from '@/lib/api';
+import { useMessagingStore } from '@/lib/store';
+import { Project } from '@/types';
 
 // Define types for our data
-type ProjectStatus = 'DRAFT' | 'PENDING_ACCEPTANCE' | 'AWAITING_DEPOSIT' | 'ACTIVE' | 'COMPLETED' | 'CANCELLED' | 'DISPUTED';
-
-interface Project {
-  id: string;
-  title: string;
-  description: string;
-  category: string;
-  totalBudget: number;
-  totalBudgetInUsd?: number; // Amount converted to USD for standardization
-  deadline: Date;
-  status: ProjectStatus;
-  clientId: string;
-  freelancerId?: string;
-  createdAt: Date;
-  updatedAt: Date;
-  progress: number;
-  pendingReviews: number;
-  messages: number;
-  escrowBalance: number;
-  escrowBalanceInUsd?: number; // Amount converted to USD for standardization
-  currency: string; // Currency of the escrow account
-  exchangeRate?: number; // Exchange rate used for conversion
-  exchangeRateTimestamp?: Date; // When the exchange rate was applied
-}
-
 interface Milestone {
   id: string;
   projectId: string;
@@ -95,13 +72,27 @@ export default function ClientDashboardPage() {
   // Load dashboard data using API hooks
   const { data: userProjects, isLoading: projectsLoading } = useProjects(user?._id || '', {}, { page: 1, limit: 10 });
   const { data: userNotificationsData, isLoading: notificationsLoading } = useNotifications(user?._id || '');
+  const { conversations, fetchConversations } = useMessagingStore();
+
+  useEffect(() => {
+    if (user?._id) {
+      fetchConversations(user._id);
+    }
+  }, [user?._id, fetchConversations]);
+
+  const unreadMessages = (projectId: string) =>
+    conversations
+      .filter(conversation => conversation.projectId === projectId)
+      .reduce((total, conversation) => total + conversation.unreadCount, 0);
 
   useEffect(() => {
     if (isAuthenticated && user?.role && user.role !== 'client') {
       // Redirect to appropriate dashboard based on role
       if (user.role === 'freelancer') {
         router.replace('/dashboard/freelancer');
-      } else if (user.role === 'admin' || user.role === 'arbitrator') {
+      } else if (user.role === 'arbitrator') {
+        router.replace('/dashboard/arbitrator');
+      } else if (user.role === 'admin') {
         router.replace('/dashboard/admin');
       }
     }
@@ -194,7 +185,9 @@ export default function ClientDashboardPage() {
       // Redirect to appropriate dashboard based on role
       if (user.role === 'freelancer') {
         router.replace('/dashboard/freelancer');
-      } else if (user.role === 'admin' || user.role === 'arbitrator') {
+      } else if (user.role === 'arbitrator') {
+        router.replace('/dashboard/arbitrator');
+      } else if (user.role === 'admin') {
         router.replace('/dashboard/admin');
       }
     }
@@ -220,7 +213,7 @@ export default function ClientDashboardPage() {
   // Calculate dashboard metrics
   const activeProjects = projects.filter(p => p.status === 'ACTIVE').length;
   const pendingActions = milestones.filter(m => m.status === 'SUBMITTED' || m.status === 'REVISION_REQUESTED').length;
-  const totalEscrowBalance = projects.reduce((sum, p) => sum + (p.escrowBalanceInUsd || p.escrowBalance), 0);
+  const totalEscrowBalance = projects.reduce((sum, p) => sum + (p.escrowBalanceInUsd ?? p.escrowBalance ?? 0), 0);
   const unreadNotifications = notifications.filter(n => !n.isRead).length;
 
   return (
@@ -342,26 +335,26 @@ export default function ClientDashboardPage() {
                         <div className="flex items-center gap-1">
                           <DollarSign className="h-3 w-3" />
                           <span>
-                            {project.escrowBalance.toLocaleString()} {project.currency || 'USD'} /
+                            {(project.escrowBalance ?? 0).toLocaleString()} {project.currency || 'USD'} /
                             {project.totalBudget.toLocaleString()} {project.currency || 'USD'}
                           </span>
                         </div>
                         <div className="flex items-center gap-1">
                           <MessageCircle className="h-3 w-3" />
-                          <span>{project.messages} messages</span>
+                          <span>{unreadMessages(project.id)} messages</span>
                         </div>
                         <div className="flex items-center gap-1">
                           <CheckCircle className="h-3 w-3" />
-                          <span>{project.pendingReviews} pending</span>
+                          <span>{project.pendingReviews ?? 0} pending</span>
                         </div>
                       </div>
                       {project.status === 'ACTIVE' && (
                         <div className="mt-2">
                           <div className="flex justify-between text-xs mb-1">
                             <span>Progress</span>
-                            <span>{project.progress}%</span>
+                            <span>{project.progress ?? 0}%</span>
                           </div>
-                          <Progress value={project.progress} className="h-1.5" />
+                          <Progress value={project.progress ?? 0} className="h-1.5" />
                         </div>
                       )}
                     </div>
@@ -508,13 +501,13 @@ export default function ClientDashboardPage() {
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
-              {projects.filter(p => p.messages > 0).slice(0, 3).map(project => (
+              {projects.filter(p => unreadMessages(p.id) > 0).slice(0, 3).map(project => (
                 <div key={project.id} className="flex items-center justify-between p-2 rounded-sm hover:bg-accent/30 transition-colors">
                   <div className="flex-1 min-w-0">
                     <p className="font-medium truncate text-sm">{project.title}</p>
                     <div className="flex items-center gap-2 text-xs text-muted-foreground">
                       <MessageCircle className="h-3 w-3" />
-                      <span>{project.messages} new</span>
+                      <span>{unreadMessages(project.id)} new</span>
                     </div>
                   </div>
                   <Button
@@ -527,7 +520,7 @@ export default function ClientDashboardPage() {
                   </Button>
                 </div>
               ))}
-              {projects.filter(p => p.messages > 0).length === 0 && (
+              {projects.filter(p => unreadMessages(p.id) > 0).length === 0 && (
                 <p className="text-sm text-muted-foreground text-center py-2">No new messages</p>
               )}
             </div>
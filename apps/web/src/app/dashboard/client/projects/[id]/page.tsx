@@ -27,6 +27,8 @@ import { useProjectStore } from '@/lib/store/projectStore';
 import { ProjectSharing } from '@/components/projects/ProjectSharing';
 import { FundingStatusCard } from '@/components/projects/FundingStatusCard';
 import { MilestoneTracker } from '@/components/projects/MilestoneTracker';
+import { ProjectActivityPanel } from '@/components/projects/ProjectActivityPanel';
+import { ChangeProposalsPanel } from '@/components/projects/ChangeProposalsPanel';
 import { ProjectCancellationService } from '@/lib/services/projectCancellationService';
 
 // Mock data for project details
@@ -399,6 +401,10 @@ export default function ClientProjectPage() {
     );
   }
 
+  // Store milestones for the project if loaded, otherwise the ones on the project record
+  const storeMilestones = milestones.filter((m: any) => m.projectId === (project._id || project.id));
+  const projectMilestones = storeMilestones.length > 0 ? storeMilestones : project.milestones || [];
+
   const handleEditMilestone = (milestone: any) => {
     setCurrentMilestone(milestone);
     setProposedChanges({
@@ -769,6 +775,30 @@ export default function ClientProjectPage() {
               </div>
             </CardContent>
           </Card>
+
+          {/* Change Proposals */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Edit3 className="h-5 w-5 text-muted-foreground" />
+                <CardTitle>Change Proposals</CardTitle>
+              </div>
+              <CardDescription>Milestone changes proposed by you or the freelancer</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChangeProposalsPanel
+                projectId={project._id || project.id}
+                party="client"
+                userId={user?._id || ''}
+                milestones={projectMilestones}
+                escrowBalance={project.escrowBalance ?? project.fundedAmount ?? 0}
+                currency={project.currency || 'USD'}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Activity */}
+          <ProjectActivityPanel projectId={project._id || project.id} />
         </div>
 
         {/* Sidebar - Freelancer Info and Project Details */}
@@ -1,32 +1,33 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { Fragment, useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { EscrowLedgerDetails } from '@/components/payments/EscrowLedgerDetails';
 import { useAuthStore } from '@/lib/store/authStore';
 import { usePaymentStore } from '@/lib/store/paymentStore';
-import { Transaction } from '@/types';
+import { useProjectStore } from '@/lib/store/projectStore';
+import { buildEscrowLedgers, ProjectLedger } from '@/lib/escrowLedger';
+import { formatMinor } from '@/lib/utils';
 
-// Define types for project funding summary
-interface ProjectFundingSummary {
-  projectId: string;
-  projectName: string;
-  totalDeposited: number;
-  totalDepositedInUsd?: number; // Amount converted to USD for standardization
-  totalReleased: number;
-  totalReleasedInUsd?: number; // Amount converted to USD for standardization
-  totalFees: number;
-  totalFeesInUsd?: number; // Amount converted to USD for standardization
-  currentBalance: number;
-  currentBalanceInUsd?: number; // Amount converted to USD for standardization
-  currency: string; // Currency of the project
-  exchangeRate?: number; // Exchange rate used for conversion
-  exchangeRateTimestamp?: Date; // When the exchange rate was applied
+const balanceTone = (ledger: ProjectLedger) =>
+  ledger.totals.held.isPositive() ? 'text-green-600' : ledger.totals.held.isNegative() ? 'text-red-600' : 'text-foreground';
+
+function ReconciliationBadge({ ledger }: { ledger: ProjectLedger }) {
+  const warnings = ledger.issues.filter(issue => issue.severity === 'warning').length;
+  const className = !ledger.reconciled
+    ? 'bg-red-100 text-red-800'
+    : warnings > 0 ? 'bg-amber-100 text-amber-800' : 'bg-green-100 text-green-800';
+  const label = !ledger.reconciled ? 'Mismatch' : warnings > 0 ? 'Check notes' : 'Reconciled';
+
+  return <span className={`px-2 py-1 rounded-full text-xs ${className}`}>{label}</span>;
 }
 
 export default function EscrowPage() {
   const { user } = useAuthStore();
-  const { transactions, fetchTransactions } = usePaymentStore();
-  const [projectFundingList, setProjectFundingList] = useState<ProjectFundingSummary[]>([]);
+  const { transactions, escrowAccounts, fetchTransactions, fetchEscrowAccount } = usePaymentStore();
+  const { projects } = useProjectStore();
+  const [expandedProjectId, setExpandedProjectId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -38,70 +39,33 @@ export default function EscrowPage() {
     }
   }, [user?._id, user?.role, fetchTransactions]);
 
-  // Calculate project-specific funding summary when transactions update
+  // Load the escrow account of every project with transactions so the ledger can be checked against it
+  const projectIds = useMemo(
+    () => Array.from(new Set(transactions.map(transaction => transaction.projectId).filter(Boolean))),
+    [transactions]
+  );
   useEffect(() => {
-    if (transactions && transactions.length > 0) {
-      const projectFundingSummary = transactions.reduce((acc, transaction) => {
-        if (transaction.projectId) {
-          if (!acc[transaction.projectId]) {
-            acc[transaction.projectId] = {
-              projectId: transaction.projectId,
-              projectName: transaction.description || 'Unknown Project',
-              totalDeposited: 0,
-              totalDepositedInUsd: 0,
-              totalReleased: 0,
-              totalReleasedInUsd: 0,
-              totalFees: 0,
-              totalFeesInUsd: 0,
-              currentBalance: 0,
-              currentBalanceInUsd: 0,
-              currency: transaction.currency || 'USD',
-              exchangeRate: transaction.exchangeRate,
-              exchangeRateTimestamp: transaction.exchangeRateTimestamp ? new Date(transaction.exchangeRateTimestamp) : undefined
-            };
-          }
+    const loaded = usePaymentStore.getState().escrowAccounts;
+    projectIds
+      .filter(projectId => !loaded[projectId])
+      .forEach(projectId => {
+        fetchEscrowAccount(projectId).catch((error) => {
+          console.warn(`Could not load escrow account for ${projectId}:`, error);
+        });
+      });
+  }, [projectIds, fetchEscrowAccount]);
 
-          const project = acc[transaction.projectId];
+  const ledgers = useMemo(() => buildEscrowLedgers(transactions, escrowAccounts), [transactions, escrowAccounts]);
+  const projectName = (projectId: string) => projects.find(project => project.id === projectId)?.title || projectId;
 
-          if (transaction.type === 'DEPOSIT') {
-            project.totalDeposited += transaction.amount;
-            project.currentBalance += transaction.amount;
-            if (transaction.amountInUsd) {
-              project.totalDepositedInUsd = (project.totalDepositedInUsd || 0) + transaction.amountInUsd;
-              project.currentBalanceInUsd = (project.currentBalanceInUsd || 0) + transaction.amountInUsd;
-            }
-          } else if (transaction.type === 'MILESTONE_RELEASE') {
-            project.totalReleased += transaction.amount;
-            project.currentBalance -= transaction.amount;
-            if (transaction.amountInUsd) {
-              project.totalReleasedInUsd = (project.totalReleasedInUsd || 0) + transaction.amountInUsd;
-              project.currentBalanceInUsd = (project.currentBalanceInUsd || 0) - transaction.amountInUsd;
-            }
-          } else if (transaction.type === 'FEE' || transaction.type === 'DISPUTE_PAYMENT' || transaction.type === 'DISPUTE_REFUND') {
-            project.totalFees += transaction.amount;
-            project.currentBalance -= transaction.amount;
-            if (transaction.amountInUsd) {
-              project.totalFeesInUsd = (project.totalFeesInUsd || 0) + transaction.amountInUsd;
-              project.currentBalanceInUsd = (project.currentBalanceInUsd || 0) - transaction.amountInUsd;
-            }
-          } else if (transaction.type === 'REFUND' || transaction.type === 'WITHDRAWAL') {
-            project.currentBalance -= transaction.amount;
-            if (transaction.amountInUsd) {
-              project.currentBalanceInUsd = (project.currentBalanceInUsd || 0) - transaction.amountInUsd;
-            }
-          }
-        }
-        return acc;
-      }, {} as Record<string, ProjectFundingSummary>);
-
-      setProjectFundingList(Object.values(projectFundingSummary));
-    }
-  }, [transactions]);
+  // Totals across currencies use the USD amounts booked on each transaction
+  const totalHeld = ledgers.reduce((sum, ledger) => sum + ledger.totalsInUsd.held, 0);
+  const totalDeposited = ledgers.reduce((sum, ledger) => sum + ledger.totalsInUsd.deposited, 0);
+  const totalReleased = ledgers.reduce((sum, ledger) => sum + ledger.totalsInUsd.released, 0);
+  const mismatched = ledgers.filter(ledger => !ledger.reconciled).length;
 
-  // Calculate totals using USD equivalent when available
-  const totalHeld = projectFundingList.reduce((sum, project) => sum + (project.currentBalanceInUsd || project.currentBalance), 0);
-  const totalDeposited = projectFundingList.reduce((sum, project) => sum + (project.totalDepositedInUsd || project.totalDeposited), 0);
-  const totalReleased = projectFundingList.reduce((sum, project) => sum + (project.totalReleasedInUsd || project.totalReleased), 0);
+  const toggleDetails = (projectId: string) =>
+    setExpandedProjectId(current => (current === projectId ? null : projectId));
 
   if (loading) {
     return (
@@ -132,18 +96,18 @@ export default function EscrowPage() {
       </div>
 
       {/* Financial Overview Cards */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card className="group hover:shadow-sm transition-shadow">
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground flex items-center justify-between">
               <span>Current Balance</span>
-              <span className="text-green-600 font-bold text-lg">{totalHeld.toLocaleString()} USD</span>
+              <span className="text-green-600 font-bold text-lg">{formatMinor(totalHeld)}</span>
             </CardTitle>
           </CardHeader>
           <CardContent>
             <div className="text-sm text-foreground">Securely held in escrow</div>
             <p className="text-xs text-muted-foreground mt-1">
-              {projectFundingList.length} project{projectFundingList.length !== 1 ? 's' : ''}
+              {ledgers.length} project{ledgers.length !== 1 ? 's' : ''}
             </p>
           </CardContent>
         </Card>
@@ -152,7 +116,7 @@ export default function EscrowPage() {
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground flex items-center justify-between">
               <span>Deposited</span>
-              <span className="text-foreground font-bold text-lg">{totalDeposited.toLocaleString()} USD</span>
+              <span className="text-foreground font-bold text-lg">{formatMinor(totalDeposited)}</span>
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -165,7 +129,7 @@ export default function EscrowPage() {
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground flex items-center justify-between">
               <span>Released</span>
-              <span className="text-foreground font-bold text-lg">{totalReleased.toLocaleString()} USD</span>
+              <span className="text-foreground font-bold text-lg">{formatMinor(totalReleased)}</span>
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -173,6 +137,21 @@ export default function EscrowPage() {
             <p className="text-xs text-muted-foreground mt-1">Milestone payments</p>
           </CardContent>
         </Card>
+
+        <Card className="group hover:shadow-sm transition-shadow">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground flex items-center justify-between">
+              <span>Reconciliation</span>
+              <span className={`font-bold text-lg ${mismatched > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {mismatched > 0 ? `${mismatched} mismatch${mismatched !== 1 ? 'es' : ''}` : 'OK'}
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-sm text-foreground">Ledger vs escrow accounts</div>
+            <p className="text-xs text-muted-foreground mt-1">Open a project for the full ledger</p>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Project Funding Breakdown */}
@@ -184,58 +163,62 @@ export default function EscrowPage() {
           </div>
         </CardHeader>
         <CardContent>
-          {projectFundingList.length > 0 ? (
+          {ledgers.length > 0 ? (
             <div className="rounded-lg border overflow-hidden">
               <div className="hidden md:table w-full">
                 <table className="w-full">
                   <thead className="bg-muted/50">
                     <tr>
                       <th className="text-left text-sm font-medium p-3">Project</th>
-                      <th className="text-right text-sm font-medium p-3">Deposited (USD)</th>
-                      <th className="text-right text-sm font-medium p-3">Released (USD)</th>
-                      <th className="text-right text-sm font-medium p-3">Fees (USD)</th>
-                      <th className="text-right text-sm font-medium p-3">Balance (USD)</th>
+                      <th className="text-right text-sm font-medium p-3">Deposited</th>
+                      <th className="text-right text-sm font-medium p-3">Released</th>
+                      <th className="text-right text-sm font-medium p-3">Fees</th>
+                      <th className="text-right text-sm font-medium p-3">Held</th>
                       <th className="text-right text-sm font-medium p-3">Status</th>
+                      <th className="p-3"></th>
                     </tr>
                   </thead>
                   <tbody>
-                    {projectFundingList.map((project) => (
-                      <tr key={project.projectId} className="border-t hover:bg-muted/30 transition-colors">
-                        <td className="p-3">
-                          <div className="font-medium truncate max-w-[150px]">{project.projectName}</div>
-                        </td>
-                        <td className="p-3 text-right">{(project.totalDepositedInUsd || project.totalDeposited).toLocaleString()} USD</td>
-                        <td className="p-3 text-right">{(project.totalReleasedInUsd || project.totalReleased).toLocaleString()} USD</td>
-                        <td className="p-3 text-right">{(project.totalFeesInUsd || project.totalFees).toLocaleString()} USD</td>
-                        <td className={`p-3 text-right font-medium ${project.currentBalance > 0 ? 'text-green-600' : project.currentBalance < 0 ? 'text-red-600' : 'text-foreground'}`}>
-                          {(project.currentBalanceInUsd || project.currentBalance).toLocaleString()} USD
-                        </td>
-                        <td className="p-3 text-right">
-                          <span className={`px-2 py-1 rounded-full text-xs ${
-                            project.currentBalance > 0 ? 'bg-green-100 text-green-800' :
-                            project.currentBalance < 0 ? 'bg-red-100 text-red-800' :
-                            'bg-gray-100 text-gray-800'
-                          }`}>
-                            {project.currentBalance > 0 ? 'Active' : project.currentBalance < 0 ? 'Overdrawn' : 'Settled'}
-                          </span>
-                        </td>
-                      </tr>
+                    {ledgers.map((ledger) => (
+                      <Fragment key={ledger.projectId}>
+                        <tr className="border-t hover:bg-muted/30 transition-colors">
+                          <td className="p-3">
+                            <div className="font-medium truncate max-w-[150px]">{projectName(ledger.projectId)}</div>
+                          </td>
+                          <td className="p-3 text-right">{ledger.totals.deposited.format()}</td>
+                          <td className="p-3 text-right">{ledger.totals.released.format()}</td>
+                          <td className="p-3 text-right">{ledger.totals.fees.format()}</td>
+                          <td className={`p-3 text-right font-medium ${balanceTone(ledger)}`}>
+                            {ledger.totals.held.format()}
+                          </td>
+                          <td className="p-3 text-right">
+                            <ReconciliationBadge ledger={ledger} />
+                          </td>
+                          <td className="p-3 text-right">
+                            <Button variant="ghost" size="sm" onClick={() => toggleDetails(ledger.projectId)}>
+                              {expandedProjectId === ledger.projectId ? 'Hide' : 'Details'}
+                            </Button>
+                          </td>
+                        </tr>
+                        {expandedProjectId === ledger.projectId && (
+                          <tr className="border-t">
+                            <td colSpan={7}>
+                              <EscrowLedgerDetails ledger={ledger} />
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
                     ))}
                     <tr className="border-t font-medium bg-muted/30">
-                      <td className="p-3">Total</td>
-                      <td className="p-3 text-right">
-                        {projectFundingList.reduce((sum, p) => sum + (p.totalDepositedInUsd || p.totalDeposited), 0).toLocaleString()} USD
-                      </td>
-                      <td className="p-3 text-right">
-                        {projectFundingList.reduce((sum, p) => sum + (p.totalReleasedInUsd || p.totalReleased), 0).toLocaleString()} USD
-                      </td>
-                      <td className="p-3 text-right">
-                        {projectFundingList.reduce((sum, p) => sum + (p.totalFeesInUsd || p.totalFees), 0).toLocaleString()} USD
-                      </td>
+                      <td className="p-3">Total (USD)</td>
+                      <td className="p-3 text-right">{formatMinor(totalDeposited)}</td>
+                      <td className="p-3 text-right">{formatMinor(totalReleased)}</td>
                       <td className="p-3 text-right">
-                        {projectFundingList.reduce((sum, p) => sum + (p.currentBalanceInUsd || p.currentBalance), 0).toLocaleString()} USD
+                        {formatMinor(ledgers.reduce((sum, ledger) => sum + ledger.totalsInUsd.fees, 0))}
                       </td>
+                      <td className="p-3 text-right">{formatMinor(totalHeld)}</td>
                       <td className="p-3 text-right"></td>
+                      <td className="p-3"></td>
                     </tr>
                   </tbody>
                 </table>
@@ -243,32 +226,30 @@ export default function EscrowPage() {
 
               {/* Mobile-friendly card view */}
               <div className="md:hidden space-y-3">
-                {projectFundingList.map((project) => (
-                  <div key={project.projectId} className="border rounded-lg p-3">
+                {ledgers.map((ledger) => (
+                  <div key={ledger.projectId} className="border rounded-lg p-3">
                     <div className="flex justify-between items-start">
                       <div className="flex-1 min-w-0">
-                        <div className="font-medium truncate">{project.projectName}</div>
+                        <div className="font-medium truncate">{projectName(ledger.projectId)}</div>
                       </div>
-                      <span className={`px-2 py-1 rounded-full text-xs ${
-                        project.currentBalance > 0 ? 'bg-green-100 text-green-800' :
-                        project.currentBalance < 0 ? 'bg-red-100 text-red-800' :
-                        'bg-gray-100 text-gray-800'
-                      }`}>
-                        {project.currentBalance > 0 ? 'Active' : project.currentBalance < 0 ? 'Overdrawn' : 'Settled'}
-                      </span>
+                      <ReconciliationBadge ledger={ledger} />
                     </div>
                     <div className="grid grid-cols-2 gap-2 mt-2 text-sm">
-                      <div className="text-muted-foreground">Deposited (USD)</div>
-                      <div className="text-right">{(project.totalDepositedInUsd || project.totalDeposited).toLocaleString()} USD</div>
-                      <div className="text-muted-foreground">Released (USD)</div>
-                      <div className="text-right">{(project.totalReleasedInUsd || project.totalReleased).toLocaleString()} USD</div>
-                      <div className="text-muted-foreground">Fees (USD)</div>
-                      <div className="text-right">{(project.totalFeesInUsd || project.totalFees).toLocaleString()} USD</div>
-                      <div className="text-muted-foreground font-medium">Balance (USD)</div>
-                      <div className={`text-right font-medium ${project.currentBalance > 0 ? 'text-green-600' : project.currentBalance < 0 ? 'text-red-600' : 'text-foreground'}`}>
-                        {(project.currentBalanceInUsd || project.currentBalance).toLocaleString()} USD
+                      <div className="text-muted-foreground">Deposited</div>
+                      <div className="text-right">{ledger.totals.deposited.format()}</div>
+                      <div className="text-muted-foreground">Released</div>
+                      <div className="text-right">{ledger.totals.released.format()}</div>
+                      <div className="text-muted-foreground">Fees</div>
+                      <div className="text-right">{ledger.totals.fees.format()}</div>
+                      <div className="text-muted-foreground font-medium">Held</div>
+                      <div className={`text-right font-medium ${balanceTone(ledger)}`}>
+                        {ledger.totals.held.format()}
                       </div>
                     </div>
+                    <Button variant="ghost" size="sm" className="w-full mt-2" onClick={() => toggleDetails(ledger.projectId)}>
+                      {expandedProjectId === ledger.projectId ? 'Hide ledger' : 'Show ledger'}
+                    </Button>
+                    {expandedProjectId === ledger.projectId && <EscrowLedgerDetails ledger={ledger} />}
                   </div>
                 ))}
               </div>
@@ -77,8 +77,6 @@ export default function FreelancerMilestonesPage() {
         return 'border-blue-500 text-blue-600';
       case 'SUBMITTED':
         return 'border-yellow-500 text-yellow-600';
-      case 'AWAITING_PAYMENT':
-        return 'border-orange-500 text-orange-600';
       case 'APPROVED':
         return 'border-green-500 text-green-600';
       default:
@@ -119,7 +117,7 @@ export default function FreelancerMilestonesPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {milestones.filter(m => m.status === 'SUBMITTED' || m.status === 'AWAITING_PAYMENT' || m.status === 'APPROVED').length}
+              {milestones.filter(m => m.status === 'SUBMITTED' || m.status === 'APPROVED').length}
             </div>
             <p className="text-xs text-muted-foreground">Ready for review</p>
           </CardContent>
@@ -146,7 +144,7 @@ export default function FreelancerMilestonesPage() {
           <CardContent>
             <div className="text-2xl font-bold">
               {milestones
-                .filter(m => m.status === 'AWAITING_PAYMENT' || m.status === 'SUBMITTED')
+                .filter(m => m.status === 'SUBMITTED')
                 .reduce((sum, milestone) => sum + (milestone.amount || 0), 0)} USD
             </div>
             <p className="text-xs text-muted-foreground">Expected payment</p>
@@ -193,7 +191,7 @@ export default function FreelancerMilestonesPage() {
                     size="sm"
                     onClick={(e) => {
                       e.stopPropagation();
-                      handleViewMilestone((milestone as any)._id || (milestone as any).id || milestone._id);
+                      handleViewMilestone((milestone as any)._id || (milestone as any).id);
                     }}
                   >
                     <Edit className="h-4 w-4 mr-1" />
@@ -266,7 +264,7 @@ export default function FreelancerMilestonesPage() {
                     {(((milestone as any).status || milestone.status) === 'IN_PROGRESS' || ((milestone as any).status || milestone.status) === 'PENDING') && (
                       <Button
                         size="sm"
-                        onClick={() => handleViewMilestone((milestone as any)._id || (milestone as any).id || milestone._id)}
+                        onClick={() => handleViewMilestone((milestone as any)._id || (milestone as any).id)}
                       >
                         <Edit className="h-4 w-4 mr-1" />
                         Submit
@@ -12,6 +12,23 @@ import { useProjects } from '@/hooks/api/useProjects';
 import { useUserBalance } from '@/hooks/api/useUserBalance';
 import { useTransactions } from '@/hooks/api/useTransactions';
 import { useNotifications } from '@/hooks/api/useNotifications';
+import { differenceInCalendarDays } from 'date-fns';
+import { Project } from '@/types';
+
+const STATUS_BADGES: Partial<Record<Project['status'], 'default' | 'secondary' | 'destructive'>> = {
+  ACTIVE: 'default',
+  PENDING_ACCEPTANCE: 'secondary',
+  AWAITING_DEPOSIT: 'destructive',
+};
+
+const statusLabel = (status: Project['status']) =>
+  status.charAt(0) + status.slice(1).toLowerCase().replace(/_/g, ' ');
+
+// The first milestone still open, in delivery order
+const currentMilestone = (project: Project) =>
+  [...(project.milestones || [])]
+    .sort((a, b) => a.order - b.order)
+    .find(milestone => milestone.status !== 'APPROVED');
 
 export default function FreelancerDashboardPage() {
   const router = useRouter();
@@ -28,7 +45,9 @@ export default function FreelancerDashboardPage() {
       // Redirect to appropriate dashboard based on role
       if (user.role === 'client') {
         router.replace('/dashboard/client');
-      } else if (user.role === 'admin' || user.role === 'arbitrator') {
+      } else if (user.role === 'arbitrator') {
+        router.replace('/dashboard/arbitrator');
+      } else if (user.role === 'admin') {
         router.replace('/dashboard/admin');
       }
     }
@@ -69,7 +88,7 @@ export default function FreelancerDashboardPage() {
   const freelancerStats = {
     totalEarnedThisMonth: userBalance?.availableBalanceInUsd || userBalance?.availableBalance || 0,
     pendingInvoices: userTransactions?.filter?.(t => t.status === 'PENDING').length || 0,
-    completedMilestones: userTransactions?.filter?.(t => t.type === 'MILESTONE_RELEASE' && t.status === 'COMPLETED').length || 0,
+    completedMilestones: userTransactions?.filter?.(t => t.type === 'RELEASE' && t.status === 'COMPLETED').length || 0,
     unreadClientMessages: userNotifications?.filter(n => !n.read).length || 5
   };
 
@@ -82,7 +101,7 @@ export default function FreelancerDashboardPage() {
 
   // Get pending payments (from transactions)
   const pendingPayments = userTransactions?.filter?.(transaction =>
-    transaction.status === 'PENDING' && transaction.type === 'MILESTONE_RELEASE'
+    transaction.status === 'PENDING' && transaction.type === 'RELEASE'
   ) || [];
 
   // Calculate withdrawable balance
@@ -188,24 +207,18 @@ export default function FreelancerDashboardPage() {
                     <div className="flex-1 min-w-0">
                       <h3 className="font-medium text-foreground truncate">{project.title}</h3>
                       <div className="flex items-center gap-2 mt-1">
-                        <Badge
-                          variant={
-                            project.status === 'In Progress' ? 'default' :
-                            project.status === 'Client reviewing' ? 'secondary' :
-                            project.status === 'Waiting for payment' ? 'destructive' :
-                            'outline'
-                          }
-                          className="text-xs"
-                        >
-                          {project.status}
+                        <Badge variant={STATUS_BADGES[project.status] || 'outline'} className="text-xs">
+                          {statusLabel(project.status)}
                         </Badge>
-                        <span className="text-xs text-muted-foreground">Client: {project.client}</span>
+                        <span className="text-xs text-muted-foreground">{project.progress ?? 0}% complete</span>
                       </div>
-                      <p className="text-sm text-muted-foreground mt-1 truncate">Milestone: {project.currentMilestone}</p>
+                      <p className="text-sm text-muted-foreground mt-1 truncate">
+                        Milestone: {currentMilestone(project)?.title || 'None open'}
+                      </p>
                       <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
                         <div className="flex items-center gap-1">
                           <Calendar className="h-3 w-3" />
-                          <span>{project.daysRemaining} days left</span>
+                          <span>{Math.max(0, differenceInCalendarDays(new Date(project.deadline), new Date()))} days left</span>
                         </div>
                       </div>
                     </div>
@@ -309,19 +322,11 @@ export default function FreelancerDashboardPage() {
                 <div key={project.id} className="p-3 border rounded-sm hover:bg-accent/30 transition-colors">
                   <div className="flex items-center justify-between">
                     <div className="flex-1 min-w-0">
-                      <h3 className="text-sm font-medium truncate">{project.currentMilestone}</h3>
+                      <h3 className="text-sm font-medium truncate">{currentMilestone(project)?.title || 'No open milestone'}</h3>
                       <p className="text-xs text-muted-foreground truncate">{project.title}</p>
                     </div>
-                    <Badge
-                      variant={
-                        project.status === 'In Progress' ? 'default' :
-                        project.status === 'Client reviewing' ? 'secondary' :
-                        project.status === 'Waiting for payment' ? 'destructive' :
-                        'outline'
-                      }
-                      className="text-xs"
-                    >
-                      {project.status}
+                    <Badge variant={STATUS_BADGES[project.status] || 'outline'} className="text-xs">
+                      {statusLabel(project.status)}
                     </Badge>
                   </div>
                 </div>
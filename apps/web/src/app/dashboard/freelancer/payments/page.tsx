@@ -21,6 +21,7 @@ import {
 } from 'lucide-react';
 import { useAuthStore } from '@/lib/store';
 import EnhancedModal from '@/components/common/EnhancedModal';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { currencyService } from '@/lib/services/currencyService';
 
 import { useUserBalance, useTransactions, useProjects } from '@/lib/api';
@@ -97,25 +98,19 @@ export default function FreelancerPaymentsPage() {
     }, 3000);
   };
 
-  // Helper function to convert amount to user's preferred currency
-  const convertToUserCurrency = (amount: number, fromCurrency: string = 'USD'): number => {
-    if (fromCurrency === userPreferredCurrency) {
-      return amount;
-    }
-
-    // Convert using the currency service
-    return currencyService.convertCurrency({
-      fromCurrency,
-      toCurrency: userPreferredCurrency,
-      amount
-    });
-  };
-
   // Helper function to format currency with proper symbol
   const formatCurrency = (amount: number, currency: string = userPreferredCurrency): string => {
     return currencyService.formatCurrency(amount, currency);
   };
 
+  // Shows an amount in the user's preferred currency. Without a rate for either
+  // side it stays in its own currency instead of breaking the page
+  const formatInUserCurrency = (amount: number, fromCurrency: string = 'USD'): string => {
+    const display = currencyService.convertForDisplay({ fromCurrency, toCurrency: userPreferredCurrency, amount });
+    return formatCurrency(display.amount, display.currency);
+  };
+  const preferredRateMissing = !currencyService.isCurrencySupported(userPreferredCurrency);
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed':
@@ -143,6 +138,15 @@ export default function FreelancerPaymentsPage() {
         </p>
       </div>
 
+      {preferredRateMissing && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            No exchange rate is available for {userPreferredCurrency}, so amounts are shown in their original currency.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Earnings Dashboard */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card>
@@ -151,7 +155,7 @@ export default function FreelancerPaymentsPage() {
             <DollarSign className="h-5 w-5 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{formatCurrency(convertToUserCurrency(totalEarnings / 100), userPreferredCurrency)}</div>
+            <div className="text-2xl font-bold">{formatInUserCurrency(totalEarnings / 100)}</div>
             <p className="text-xs text-muted-foreground">All time earnings</p>
           </CardContent>
         </Card>
@@ -162,7 +166,7 @@ export default function FreelancerPaymentsPage() {
             <Wallet className="h-5 w-5 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-green-600">{formatCurrency(convertToUserCurrency(availableForWithdrawal / 100), userPreferredCurrency)}</div>
+            <div className="text-2xl font-bold text-green-600">{formatInUserCurrency(availableForWithdrawal / 100)}</div>
             <p className="text-xs text-muted-foreground">Ready for withdrawal</p>
           </CardContent>
         </Card>
@@ -173,7 +177,7 @@ export default function FreelancerPaymentsPage() {
             <TrendingUp className="h-5 w-5 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{formatCurrency(convertToUserCurrency(upcomingPayments / 100), userPreferredCurrency)}</div>
+            <div className="text-2xl font-bold">{formatInUserCurrency(upcomingPayments / 100)}</div>
             <p className="text-xs text-muted-foreground">Expected in next 30 days</p>
           </CardContent>
         </Card>
@@ -217,16 +221,21 @@ export default function FreelancerPaymentsPage() {
                     .filter(t => t.status === 'PENDING')
                     .reduce((sum, t) => sum + t.amount, 0);
 
-                  const progress = project.budget > 0
-                    ? Math.round((totalPaid / project.budget) * 100)
+                  const progress = project.totalBudget > 0
+                    ? Math.round((totalPaid / project.totalBudget) * 100)
                     : 0;
 
+                  // Milestones are invoiced when submitted, so the next invoice is due with the next open one
+                  const nextMilestone = (project.milestones || [])
+                    .filter(milestone => milestone.status === 'PENDING' || milestone.status === 'IN_PROGRESS')
+                    .sort((a, b) => new Date(a.deadline).getTime() - new Date(b.deadline).getTime())[0];
+
                   return (
                     <div key={project.id} className="border rounded-lg p-4">
                       <div className="flex justify-between items-start">
                         <div>
                           <h3 className="font-medium">{project.title}</h3>
-                          <p className="text-sm text-muted-foreground">Total: {formatCurrency(convertToUserCurrency(project.budget / 100), userPreferredCurrency)}</p>
+                          <p className="text-sm text-muted-foreground">Total: {formatInUserCurrency(project.totalBudget / 100)}</p>
                         </div>
                         <Button variant="outline" size="sm" onClick={() => router.push(`/dashboard/freelancer/projects/${project.id}`)}>
                           View Details
@@ -236,7 +245,7 @@ export default function FreelancerPaymentsPage() {
                       <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-3 pt-3 border-t">
                         <div>
                           <p className="text-xs text-muted-foreground">Earned So Far</p>
-                          <p className="font-medium">{formatCurrency(convertToUserCurrency(totalPaid / 100), userPreferredCurrency)}</p>
+                          <p className="font-medium">{formatInUserCurrency(totalPaid / 100)}</p>
                         </div>
                         <div>
                           <p className="text-xs text-muted-foreground">Paid Milestones</p>
@@ -249,7 +258,7 @@ export default function FreelancerPaymentsPage() {
                         <div>
                           <p className="text-xs text-muted-foreground">Next Invoice</p>
                           <p className="font-medium">
-                            {project.nextInvoiceDate || '-'}
+                            {nextMilestone ? new Date(nextMilestone.deadline).toLocaleDateString() : '-'}
                           </p>
                         </div>
                       </div>
@@ -308,7 +317,7 @@ export default function FreelancerPaymentsPage() {
                       </div>
                     </div>
                     <div className="text-right">
-                      <p className="font-medium">+{formatCurrency(convertToUserCurrency(transaction.amount / 100), userPreferredCurrency)}</p>
+                      <p className="font-medium">+{formatInUserCurrency(transaction.amount / 100)}</p>
                       <Badge
                         className={`text-xs mt-1 ${getStatusColor(transaction.status.toLowerCase())}`}
                       >
@@ -350,7 +359,7 @@ export default function FreelancerPaymentsPage() {
                     />
                   </div>
                   <p className="text-xs text-muted-foreground mt-1">
-                    Available: {formatCurrency(convertToUserCurrency(availableForWithdrawal / 100), userPreferredCurrency)}
+                    Available: {formatInUserCurrency(availableForWithdrawal / 100)}
                   </p>
                 </div>
 
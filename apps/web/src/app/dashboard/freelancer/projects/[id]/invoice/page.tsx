@@ -10,8 +10,9 @@ import { Label } from '@/components/ui/label';
 import { Breadcrumb } from '@/components/ui/breadcrumb';
 import { useAuthStore } from '@/lib/store/authStore';
 import { useProjectStore } from '@/lib/store/projectStore';
-import { invoiceService } from '@/lib/services/invoiceService';
+import { invoiceService, calculateInvoiceTotals, INVOICE_TAX_PERCENT } from '@/lib/services/invoiceService';
 import { InvoiceData, CreateInvoiceData, InvoiceItem } from '@/lib/services/invoiceService';
+import { Money } from '@/lib/money';
 import { DollarSign, Calendar, FileText, Plus, Trash2 } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -69,8 +70,8 @@ export default function SubmitInvoicePage() {
         // Update form data with project information
         setFormData({
           projectName: project.title,
-          clientName: project.clientName || project.client?.name || 'Client',
-          clientEmail: project.clientEmail || project.client?.email || 'client@example.com',
+          clientName: 'Client',
+          clientEmail: 'client@example.com',
           invoiceNumber: `INV-${Date.now().toString().slice(-6)}`,
         });
       } else {
@@ -117,9 +118,7 @@ export default function SubmitInvoicePage() {
     }));
   };
 
-  const calculateTotal = () => {
-    return invoiceData.items.reduce((total, item) => total + (item.quantity * item.rate), 0);
-  };
+  const totals = calculateInvoiceTotals(invoiceData.items);
 
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
@@ -195,7 +194,7 @@ export default function SubmitInvoicePage() {
           { name: 'Dashboard', href: '/dashboard' },
           { name: 'Freelancer', href: '/dashboard/freelancer' },
           { name: 'Projects', href: '/dashboard/freelancer/projects' },
-          { name: invoiceData.projectName, href: `/dashboard/freelancer/projects/${projectId}` },
+          { name: formData.projectName, href: `/dashboard/freelancer/projects/${projectId}` },
           { name: 'Submit Invoice', current: true }
         ]}
       />
@@ -203,7 +202,7 @@ export default function SubmitInvoicePage() {
       <div>
         <h1 className="text-2xl font-bold">Submit Invoice</h1>
         <p className="text-muted-foreground">
-          Create and submit an invoice for project: {invoiceData.projectName}
+          Create and submit an invoice for project: {formData.projectName}
         </p>
       </div>
 
@@ -323,8 +322,8 @@ export default function SubmitInvoicePage() {
                       type="number"
                       min="0"
                       step="0.01"
-                      value={item.rate}
-                      onChange={(e) => updateItem(index, 'rate', Number(e.target.value))}
+                      value={Money.fromMinor(item.rate).toMajor()}
+                      onChange={(e) => updateItem(index, 'rate', Money.fromMajor(e.target.value || 0).amount)}
                     />
                   </div>
 
@@ -350,15 +349,15 @@ export default function SubmitInvoicePage() {
               <div className="w-64 space-y-2">
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Subtotal:</span>
-                  <span>${invoiceData.items.reduce((sum, item) => sum + (item.quantity * item.rate), 0).toFixed(2)}</span>
+                  <span>{totals.subtotal.format()}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-muted-foreground">Tax (0%):</span>
-                  <span>$0.00</span>
+                  <span className="text-muted-foreground">Tax ({INVOICE_TAX_PERCENT}%):</span>
+                  <span>{totals.tax.format()}</span>
                 </div>
                 <div className="flex justify-between text-lg font-semibold pt-2 border-t">
                   <span>Total:</span>
-                  <span>${invoiceData.items.reduce((sum, item) => sum + (item.quantity * item.rate), 0).toFixed(2)}</span>
+                  <span>{totals.total.format()}</span>
                 </div>
               </div>
             </div>
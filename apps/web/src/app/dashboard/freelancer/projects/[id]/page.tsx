@@ -28,7 +28,10 @@ import { useMessagingStore } from '@/lib/store';
 import { ProjectSharing } from '@/components/projects/ProjectSharing';
 import { FundingStatusCard } from '@/components/projects/FundingStatusCard';
 import { MilestoneTracker } from '@/components/projects/MilestoneTracker';
-import { projectService } from '@/lib/api/projectService'; // Import for change proposal functionality
+import { ProjectActivityPanel } from '@/components/projects/ProjectActivityPanel';
+import { ChangeProposalsPanel } from '@/components/projects/ChangeProposalsPanel';
+import { milestoneRules } from '@/lib/milestoneWorkflow';
+import { projectService } from '@/lib/api/projectService';
 import { ProjectCancellationService } from '@/lib/services/projectCancellationService';
 import { invoiceService } from '@/lib/services/invoiceService';
 import { toast } from 'sonner';
@@ -322,7 +325,7 @@ export default function FreelancerProjectPage() {
   const { id } = useParams();
   const router = useRouter();
   const { user, isAuthenticated, initializeAuth, loading } = useAuthStore();
-  const { projects, milestones, changeProposals, initializeDemoData, fetchChangeProposals, fetchProject } = useProjectStore();
+  const { projects, milestones, changeProposals, initializeDemoData, fetchChangeProposals, createChangeProposal, fetchProject } = useProjectStore();
   const [project, setProject] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
   const [showEditModal, setShowEditModal] = useState<boolean>(false);
@@ -443,7 +446,7 @@ export default function FreelancerProjectPage() {
       const proposalData = {
         projectId: project.id,
         milestoneId: currentMilestone.id,
-        proposer: 'freelancer', // Since the freelancer is proposing the change
+        proposer: 'freelancer' as const, // Since the freelancer is proposing the change
         originalValues: {
           title: currentMilestone.title,
           description: currentMilestone.description,
@@ -460,10 +463,7 @@ export default function FreelancerProjectPage() {
       };
 
       // Create the change proposal using the store
-      await projectService.createChangeProposal(proposalData);
-
-      // Refetch change proposals to update the UI
-      await fetchChangeProposals(project.id);
+      await createChangeProposal(proposalData);
 
       // Show success feedback
       alert(`Changes proposed for milestone "${currentMilestone.title}" successfully!
@@ -652,6 +652,7 @@ The client will be notified and can approve or reject these changes.`);
             onEditMilestone={handleEditMilestone}
             onSubmitMilestone={handleSubmitMilestone}
             currentUserRole="freelancer"
+            rules={milestoneRules(project)}
             onViewDeliverables={(milestoneId) => {
               // In a real app, this would open deliverables viewer
               const milestone = displayMilestones.find(m => m.id === milestoneId);
@@ -706,80 +707,19 @@ The client will be notified and can approve or reject these changes.`);
               <CardDescription>Proposed changes to milestones and their status</CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="space-y-4">
-                {displayMilestones.map((milestone: any) => {
-                  // Find any change proposals for this specific milestone
-                  const milestoneProposals = changeProposals.filter((proposal: any) =>
-                    proposal.milestoneId === milestone.id && proposal.projectId === project.id
-                  );
-
-                  return milestoneProposals.length > 0 ? (
-                    milestoneProposals.map((proposal: any) => (
-                      <div key={proposal.id} className="border rounded-lg p-4 bg-muted/20">
-                        <div className="flex justify-between items-start">
-                          <div>
-                            <h4 className="font-medium">Change to "{milestone.title}"</h4>
-                            <p className="text-sm text-muted-foreground mt-1">{proposal.reason}</p>
-                          </div>
-                          <Badge
-                            variant={
-                              proposal.status === 'APPROVED' ? 'secondary' :
-                              proposal.status === 'REJECTED' ? 'destructive' :
-                              'default'
-                            }
-                          >
-                            {proposal.status}
-                          </Badge>
-                        </div>
-
-                        <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
-                          <div className="space-y-1">
-                            <p className="font-medium">Original</p>
-                            {proposal.originalValues.title && (
-                              <p><span className="text-muted-foreground">Title:</span> {proposal.originalValues.title}</p>
-                            )}
-                            {proposal.originalValues.amount && (
-                              <p><span className="text-muted-foreground">Amount:</span> {proposal.originalValues.amount} {project?.currency || 'USD'}</p>
-                            )}
-                            {proposal.originalValues.deadline && (
-                              <p><span className="text-muted-foreground">Deadline:</span> {new Date(proposal.originalValues.deadline).toLocaleDateString()}</p>
-                            )}
-                          </div>
-
-                          <div className="space-y-1">
-                            <p className="font-medium">Proposed</p>
-                            {proposal.proposedValues.title && (
-                              <p><span className="text-muted-foreground">Title:</span> {proposal.proposedValues.title}</p>
-                            )}
-                            {proposal.proposedValues.amount && (
-                              <p><span className="text-muted-foreground">Amount:</span> {proposal.proposedValues.amount} {project?.currency || 'USD'}</p>
-                            )}
-                            {proposal.proposedValues.deadline && (
-                              <p><span className="text-muted-foreground">Deadline:</span> {new Date(proposal.proposedValues.deadline).toLocaleDateString()}</p>
-                            )}
-                          </div>
-                        </div>
-
-                        <div className="mt-3 pt-3 border-t text-xs text-muted-foreground">
-                          <p>Proposed by: {proposal.proposer} on {new Date(proposal.createdAt).toLocaleDateString()}</p>
-                          {proposal.status === 'PENDING' && proposal.proposer === 'freelancer' && (
-                            <p className="text-xs text-blue-600 mt-1">Waiting for client approval</p>
-                          )}
-                          {proposal.status === 'PENDING' && proposal.proposer === 'client' && (
-                            <p className="text-xs text-blue-600 mt-1">Waiting for your review</p>
-                          )}
-                        </div>
-                      </div>
-                    ))
-                  ) : (
-                    <div key={milestone.id} className="text-center py-4 text-muted-foreground">
-                      No change proposals for milestone "{milestone.title}"
-                    </div>
-                  );
-                })}
-              </div>
+              <ChangeProposalsPanel
+                projectId={project.id}
+                party="freelancer"
+                userId={user?._id || ''}
+                milestones={displayMilestones}
+                escrowBalance={project.escrowBalance ?? project.fundedAmount ?? 0}
+                currency={project.currency || 'USD'}
+              />
             </CardContent>
           </Card>
+
+          {/* Activity */}
+          <ProjectActivityPanel projectId={project._id || project.id} />
         </div>
 
         {/* Sidebar */}
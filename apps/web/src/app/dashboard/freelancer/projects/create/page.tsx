@@ -11,15 +11,19 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { MilestoneForm } from '@/components/projects/MilestoneForm';
+import { MilestoneAllocationEditor } from '@/components/projects/MilestoneAllocationEditor';
 import { useProjectStore } from '@/lib/store/projectStore';
 import { Project, Milestone } from '@/types';
+import type { CreateProjectData } from '@/lib/api/projectService';
+import { Money } from '@/lib/money';
+import { addToAllocation, validateAllocation } from '@/lib/milestoneAllocation';
 import { Check, X, Plus, ArrowLeft, ArrowRight, DollarSign, Clock, Calendar, FileText, DollarIcon } from 'lucide-react';
 
 interface ProjectFormData {
   title: string;
   description: string;
   category: string;
-  totalBudget: number;
+  totalBudget: number; // in cents
   deadline: Date;
   autoApprovalPeriod: number;
   maxRevisionsPerMilestone: number;
@@ -44,6 +48,20 @@ export default function FreelancerCreateProjectPage() {
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<string>('');
   const { createProject, loading } = useProjectStore();
 
+  // Budget arithmetic stays in cents so milestone splits add up exactly
+  const budget = Money.fromMinor(projectData.totalBudget);
+  const milestoneTotal = Money.sum(milestones.map(m => Money.fromMinor(m.amount)), budget.currency);
+  const remainingBudget = budget.subtract(milestoneTotal);
+
+  const setMilestoneAmounts = (amounts: number[]) =>
+    setMilestones(current => current.map((m, i) => ({ ...m, amount: amounts[i] ?? m.amount })));
+
+  // New milestones take unallocated budget first; any overflow comes out of the others
+  const addMilestone = (milestone: Milestone) => {
+    const amounts = addToAllocation(budget, milestones.map(m => Money.fromMinor(m.amount)), Money.fromMinor(milestone.amount));
+    setMilestones([...milestones, milestone].map((m, i) => ({ ...m, amount: amounts[i].amount })));
+  };
+
   // Initialize auth when component mounts
   useEffect(() => {
     initializeAuth();
@@ -119,8 +137,8 @@ export default function FreelancerCreateProjectPage() {
               <Input
                 id="budget"
                 type="number"
-                value={projectData.totalBudget || ''}
-                onChange={(e) => setProjectData({...projectData, totalBudget: parseFloat(e.target.value) || 0})}
+                value={projectData.totalBudget ? budget.toMajor() : ''}
+                onChange={(e) => setProjectData({...projectData, totalBudget: Money.fromMajor(parseFloat(e.target.value) || 0).amount})}
                 placeholder="0.00"
                 className="pl-10"
               />
@@ -213,7 +231,7 @@ export default function FreelancerCreateProjectPage() {
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
                   <div>
-                    <span className="text-muted-foreground">Amount:</span> ${milestone.amount}
+                    <span className="text-muted-foreground">Amount:</span> {Money.fromMinor(milestone.amount).format()}
                   </div>
                   <div>
                     <span className="text-muted-foreground">Deadline:</span> {milestone.deadline.toLocaleDateString()}
@@ -226,22 +244,29 @@ export default function FreelancerCreateProjectPage() {
             ))}
           </div>
 
+          <MilestoneAllocationEditor
+            budget={budget}
+            milestones={milestones}
+            onChange={setMilestoneAmounts}
+          />
+
           <MilestoneForm
-            onAddMilestone={(milestone) => setMilestones([...milestones, milestone])}
+            onAddMilestone={addMilestone}
             projectStartDate={new Date()}
             projectEndDate={projectData.deadline}
-            remainingBudget={projectData.totalBudget - milestones.reduce((sum, m) => sum + m.amount, 0)}
+            totalBudget={budget.amount}
+            remainingBudget={remainingBudget.amount}
           />
 
           {milestones.length > 0 && (
             <div className="mt-4 p-3 bg-muted rounded-md">
               <div className="flex justify-between font-medium">
                 <span>Remaining Budget:</span>
-                <span>${(projectData.totalBudget - milestones.reduce((sum, m) => sum + m.amount, 0)).toFixed(2)}</span>
+                <span>{remainingBudget.format()}</span>
               </div>
-              {projectData.totalBudget - milestones.reduce((sum, m) => sum + m.amount, 0) !== 0 && (
+              {!remainingBudget.isZero() && (
                 <p className="text-xs text-red-600 mt-1">
-                  Milestone amounts must sum to total budget (${projectData.totalBudget.toFixed(2)})
+                  Milestone amounts must sum to total budget ({budget.format()})
                 </p>
               )}
             </div>
@@ -253,9 +278,8 @@ export default function FreelancerCreateProjectPage() {
 
   // Step 3: Funding Confirmation
   const FundingStep = () => {
-    const totalMilestoneAmount = milestones.reduce((sum, m) => sum + m.amount, 0);
-    const platformFee = totalMilestoneAmount * 0.05; // 5% platform fee
-    const totalAmount = totalMilestoneAmount + platformFee;
+    const platformFee = milestoneTotal.percentage(5); // 5% platform fee
+    const totalAmount = milestoneTotal.add(platformFee);
 
     return (
       <Card>
@@ -313,7 +337,7 @@ export default function FreelancerCreateProjectPage() {
                           <div className="text-sm text-muted-foreground">{milestone.description}</div>
                         </div>
                         <div className="text-right">
-                          <div className="font-medium">${milestone.amount.toFixed(2)}</div>
+                          <div className="font-medium">{Money.fromMinor(milestone.amount).format()}</div>
                           <div className="text-sm text-muted-foreground">
                             {milestone.deadline.toLocaleDateString()}
                           </div>
@@ -335,15 +359,15 @@ export default function FreelancerCreateProjectPage() {
                   <div className="space-y-3">
                     <div className="flex justify-between">
                       <span>Subtotal:</span>
-                      <span>${totalMilestoneAmount.toFixed(2)}</span>
+                      <span>{milestoneTotal.format()}</span>
                     </div>
                     <div className="flex justify-between">
                       <span>Platform Fee (5%):</span>
-                      <span>${platformFee.toFixed(2)}</span>
+                      <span>{platformFee.format()}</span>
                     </div>
                     <div className="border-t pt-2 flex justify-between font-bold">
                       <span>Total Amount:</span>
-                      <span>${totalAmount.toFixed(2)}</span>
+                      <span>{totalAmount.format()}</span>
                     </div>
 
                     <div className="mt-4">
@@ -362,7 +386,7 @@ export default function FreelancerCreateProjectPage() {
 
                     <Button
                       className="w-full mt-4"
-                      disabled={!selectedPaymentMethod || totalMilestoneAmount !== projectData.totalBudget}
+                      disabled={!selectedPaymentMethod || !milestoneTotal.equals(budget)}
                     >
                       <DollarSign className="h-4 w-4 mr-2" />
                       Confirm Funding
@@ -401,7 +425,7 @@ export default function FreelancerCreateProjectPage() {
                 </div>
                 <div>
                   <p className="text-sm text-muted-foreground">Total Budget</p>
-                  <p className="font-medium">${projectData.totalBudget.toFixed(2)}</p>
+                  <p className="font-medium">{budget.format()}</p>
                 </div>
                 <div>
                   <p className="text-sm text-muted-foreground">Deadline</p>
@@ -432,7 +456,7 @@ export default function FreelancerCreateProjectPage() {
                       <p className="text-sm text-muted-foreground">{milestone.description}</p>
                     </div>
                     <div className="text-right">
-                      <p className="font-medium">${milestone.amount.toFixed(2)}</p>
+                      <p className="font-medium">{Money.fromMinor(milestone.amount).format()}</p>
                       <p className="text-sm text-muted-foreground">
                         Due: {milestone.deadline.toLocaleDateString()}
                       </p>
@@ -479,14 +503,14 @@ export default function FreelancerCreateProjectPage() {
   );
 
   const handleSubmit = async () => {
-    if (milestones.reduce((sum, m) => sum + m.amount, 0) !== projectData.totalBudget) {
-      alert('Milestone amounts must sum to total budget');
+    if (allocationProblem) {
+      alert(allocationProblem);
       return;
     }
 
     try {
       // Prepare project data for submission
-      const projectToCreate: Omit<Project, 'id' | 'clientId' | 'createdAt' | 'updatedAt' | 'milestones'> & { milestones: any[] } = {
+      const projectToCreate: CreateProjectData = {
         title: projectData.title,
         description: projectData.description,
         category: projectData.category,
@@ -494,19 +518,16 @@ export default function FreelancerCreateProjectPage() {
         timeline: `Until ${projectData.deadline.toLocaleDateString()}`,
         deadline: projectData.deadline,
         status: 'PENDING_ACCEPTANCE', // Start with pending acceptance
-        freelancerId: user?.id, // Freelancer is creating this project
+        freelancerId: user?._id, // Freelancer is creating this project
         clientEmail: projectData.clientEmail, // Store client email to invite them
-        escrowAmount: projectData.totalBudget * 1.05, // Including platform fee
-        escrowStatus: 'NOT_DEPOSITED', // Will be updated after funding
-        platformFee: projectData.totalBudget * 0.05,
-        paymentProcessingFee: 0,
         autoApprovalPeriod: projectData.autoApprovalPeriod,
         maxRevisionsPerMilestone: projectData.maxRevisionsPerMilestone,
         milestones: milestones.map(m => ({
-          ...m,
-          deadline: m.deadline.toISOString(),
-          createdAt: m.createdAt.toISOString(),
-          updatedAt: m.updatedAt.toISOString(),
+          title: m.title,
+          description: m.description,
+          amount: m.amount,
+          deadline: m.deadline,
+          acceptanceCriteria: m.acceptanceCriteria,
         })),
       };
 
@@ -534,9 +555,8 @@ export default function FreelancerCreateProjectPage() {
     }
   };
 
-  // Calculate if milestone amounts match the budget (for validation)
-  const milestoneSum = milestones.reduce((sum, m) => sum + m.amount, 0);
-  const budgetValid = milestoneSum === projectData.totalBudget && projectData.totalBudget > 0;
+  // Milestone amounts must split the budget exactly (same check projectStore runs before creating)
+  const allocationProblem = validateAllocation(budget, milestones.map(m => Money.fromMinor(m.amount)));
 
   // Navigation functions
   const nextStep = () => {
@@ -550,8 +570,8 @@ export default function FreelancerCreateProjectPage() {
         alert('Please add at least one milestone');
         return;
       }
-      if (!budgetValid) {
-        alert('Milestone amounts must sum to total budget');
+      if (allocationProblem) {
+        alert(allocationProblem);
         return;
       }
     } else if (currentStep === 3) {
@@ -618,7 +638,8 @@ export default function FreelancerCreateProjectPage() {
 
       {/* Step content */}
       {currentStep === 1 && <ProjectDetailsStep />}
-      {currentStep === 2 && <MilestonesStep />}
+      {/* Called directly so the allocation inputs keep their state and focus between renders */}
+      {currentStep === 2 && MilestonesStep()}
       {currentStep === 3 && <FundingStep />}
       {currentStep === 4 && <ReviewStep />}
 
@@ -1,8 +1,7 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import {
   Send,
@@ -15,9 +14,14 @@ import {
   Users,
   Phone,
   Video,
-  Search
+  Search,
+  WifiOff,
+  MessageSquare,
+  SmilePlus
 } from 'lucide-react';
 import { useMessagingStore, useAuthStore } from '@/lib/store';
+import type { PresenceEntry } from '@/lib/store/messagingStore';
+import type { ConnectionState } from '@/lib/socket/socketService';
 import { Message } from '@/types';
 import { formatDistanceToNow } from 'date-fns';
 import {
@@ -26,75 +30,131 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  MESSAGE_REACTIONS,
+  canModifyMessage,
+  hasReacted,
+  isDeleted,
+  repliesTo,
+  replySummaries,
+  topLevelMessages,
+} from '@/lib/messageThreads';
+import { VirtualMessageList } from './VirtualMessageList';
+import { MessageThreadPanel } from './MessageThreadPanel';
 
 interface EnhancedMessageThreadProps {
   projectId: string;
   participantIds: string[];
+  participantNames?: Record<string, string>;
+  // Message to scroll to and highlight, e.g. from a notification or evidence link
+  focusMessageId?: string;
 }
 
-export function EnhancedMessageThread({ projectId, participantIds }: EnhancedMessageThreadProps) {
+const CONNECTION_LABELS: Record<ConnectionState, string> = {
+  connected: 'Live',
+  reconnecting: 'Reconnecting...',
+  offline: 'Offline',
+};
+
+const presenceLabel = (entry?: PresenceEntry) => {
+  if (entry?.online) {
+    return 'Online';
+  }
+  return entry?.lastSeenAt
+    ? `Last seen ${formatDistanceToNow(new Date(entry.lastSeenAt), { addSuffix: true })}`
+    : 'Offline';
+};
+
+export function EnhancedMessageThread({ projectId, participantIds, participantNames = {}, focusMessageId }: EnhancedMessageThreadProps) {
   const { user } = useAuthStore();
   const {
     messages,
+    messagePaging,
     currentConversation,
     typingUsers,
     unreadMessages,
+    connectionState,
+    presence,
     sendMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
     fetchMessages,
+    fetchOlderMessages,
+    loadMessagesThrough,
     startTyping,
-    stopTyping
+    stopTyping,
+    joinProjectRoom,
+    leaveProjectRoom
   } = useMessagingStore();
 
   const [messageText, setMessageText] = useState('');
-  const [currentPage, setCurrentPage] = useState(1);
-  const [hasMoreMessages, setHasMoreMessages] = useState(true);
-  const [isLoadingMore, setIsLoadingMore] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-  const messagesStartRef = useRef<HTMLDivElement>(null);
+  const [focusMissing, setFocusMissing] = useState(false);
+  const [threadRootId, setThreadRootId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // Fetch messages when component mounts or projectId changes
   useEffect(() => {
-    if (projectId) {
-      // Reset pagination when changing projects
-      setCurrentPage(1);
-      setHasMoreMessages(true);
+    if (projectId && !focusMessageId) {
       fetchMessages(projectId);
     }
-  }, [projectId, fetchMessages]);
+  }, [projectId, focusMessageId, fetchMessages]);
 
-  // Load more messages when needed
-  const loadMoreMessages = async () => {
-    if (isLoadingMore || !hasMoreMessages) return;
+  // A linked message may be far back in the history; load everything back to it
+  useEffect(() => {
+    if (!projectId || !focusMessageId) return;
+    setFocusMissing(false);
+    loadMessagesThrough(projectId, focusMessageId)
+      .then(found => setFocusMissing(!found))
+      .catch(err => console.error('Error loading linked message:', err));
+  }, [projectId, focusMessageId, loadMessagesThrough]);
 
-    setIsLoadingMore(true);
-    try {
-      const nextPage = currentPage + 1;
-      // For now, we'll just fetch all messages again since the current store implementation
-      // doesn't support pagination, so we'll simulate it by fetching all messages
-      await fetchMessages(projectId);
-
-      // For true pagination support, we would need to modify the fetchMessages function in the store
-      // to accept page and limit parameters
-
-      // For now, just set hasMoreMessages to false as mock data is limited
-      setHasMoreMessages(false);
-      setCurrentPage(nextPage);
-    } catch (err) {
-      console.error('Error loading more messages:', err);
-    } finally {
-      setIsLoadingMore(false);
-    }
+  // Stay in the project room while the thread is open; it is re-joined after reconnects
+  useEffect(() => {
+    if (!projectId) return;
+    joinProjectRoom(projectId);
+    return () => leaveProjectRoom(projectId);
+  }, [projectId, joinProjectRoom, leaveProjectRoom]);
+
+  const otherParticipants = participantIds.filter(id => id !== user?._id);
+  const projectPresence = presence[projectId] || {};
+
+  const paging = messagePaging[projectId];
+
+  const loadOlderMessages = () => {
+    fetchOlderMessages(projectId).catch(err => console.error('Error loading older messages:', err));
   };
 
-  // Get messages for the current project
-  const projectMessages = messages[projectId] || [];
+  // Replies are shown in the thread panel, not the main list
+  const projectMessages = useMemo(() => messages[projectId] || [], [messages, projectId]);
+  const listMessages = useMemo(() => topLevelMessages(projectMessages), [projectMessages]);
+  const summaries = useMemo(() => replySummaries(projectMessages), [projectMessages]);
+  const threadRoot = threadRootId ? projectMessages.find(m => m.id === threadRootId) : undefined;
 
-  // Scroll to bottom when messages for this project change
   useEffect(() => {
-    scrollToBottom();
-  }, [projectMessages.length, projectId]); // Only depend on the length and projectId to avoid unnecessary scrolls
+    setThreadRootId(null);
+    setEditing(null);
+  }, [projectId]);
+
+  // A link to a reply opens its thread and scrolls the main list to the message replied to
+  const linkedMessage = focusMessageId ? projectMessages.find(m => m.id === focusMessageId) : undefined;
+  const listFocusId = linkedMessage?.parentId || focusMessageId;
+  useEffect(() => {
+    if (linkedMessage?.parentId) {
+      setThreadRootId(linkedMessage.parentId);
+    }
+  }, [linkedMessage?.parentId]);
 
   // Handle typing indicator
   useEffect(() => {
@@ -126,10 +186,6 @@ export function EnhancedMessageThread({ projectId, participantIds }: EnhancedMes
     };
   }, [messageText, projectId, startTyping, stopTyping, user?._id]);
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  };
-
   const handleSendMessage = async () => {
     if (!messageText.trim()) return;
 
@@ -140,12 +196,47 @@ export function EnhancedMessageThread({ projectId, participantIds }: EnhancedMes
         type: 'TEXT'
       });
       setMessageText('');
-      stopTyping(projectId); // Stop typing when message is sent
+      stopTyping(projectId, user?._id || 'unknown-user'); // Stop typing when message is sent
     } catch (error) {
       console.error('Error sending message:', error);
     }
   };
 
+  const handleSendReply = async (content: string) => {
+    if (!threadRootId) return;
+    await sendMessage({
+      projectId,
+      content,
+      type: 'TEXT',
+      parentId: threadRootId
+    });
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing?.text.trim()) return;
+    try {
+      await editMessage(editing.id, editing.text);
+      setEditing(null);
+    } catch (error) {
+      console.error('Error editing message:', error);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDeleteId) return;
+    try {
+      await deleteMessage(pendingDeleteId);
+    } catch (error) {
+      console.error('Error deleting message:', error);
+    } finally {
+      setPendingDeleteId(null);
+    }
+  };
+
+  const handleToggleReaction = (message: Message, emoji: string) => {
+    toggleReaction(projectId, message.id, emoji).catch(error => console.error('Error updating reaction:', error));
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -153,20 +244,24 @@ export function EnhancedMessageThread({ projectId, participantIds }: EnhancedMes
     }
   };
 
-  const renderMessage = (message: Message) => {
+  const renderMessage = (message: Message, inThread = false) => {
     const isCurrentUser = message.senderId === user?._id;
-    
+    const deleted = isDeleted(message);
+    const isEditing = editing?.id === message.id;
+    const canModify = canModifyMessage(message, user?._id);
+    const summary = inThread ? undefined : summaries[message.id];
+    const senderName = participantNames[message.senderId] || message.senderRole;
+
     return (
       <div 
-        key={message._id} 
+        key={message.id} 
         className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'} mb-4`}
       >
         <div className={`flex max-w-[80%] ${isCurrentUser ? 'flex-row-reverse' : 'flex-row'} items-end gap-2`}>
           {!isCurrentUser && (
             <Avatar className="h-8 w-8">
               <AvatarFallback>
-                {message.sender.firstName?.[0]}
-                {message.sender.lastName?.[0]}
+                {senderName.split(' ').map(part => part[0]).join('').slice(0, 2).toUpperCase()}
               </AvatarFallback>
             </Avatar>
           )}
@@ -174,7 +269,7 @@ export function EnhancedMessageThread({ projectId, participantIds }: EnhancedMes
           <div className={`flex flex-col ${isCurrentUser ? 'items-end' : 'items-start'}`}>
             {!isCurrentUser && (
               <span className="text-xs text-muted-foreground mb-1">
-                {message.sender.firstName} {message.sender.lastName}
+                {senderName}
               </span>
             )}
             
@@ -185,14 +280,74 @@ export function EnhancedMessageThread({ projectId, participantIds }: EnhancedMes
                   : 'bg-secondary text-secondary-foreground rounded-bl-md'
               }`}
             >
-              <p className="whitespace-pre-wrap">{message.content}</p>
+              {deleted ? (
+                <p className="italic opacity-70">This message was deleted</p>
+              ) : isEditing ? (
+                <div className="flex flex-col gap-2">
+                  <Input
+                    value={editing.text}
+                    onChange={(e) => setEditing({ id: message.id, text: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        handleSaveEdit();
+                      } else if (e.key === 'Escape') {
+                        setEditing(null);
+                      }
+                    }}
+                    className="text-foreground"
+                    autoFocus
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>Cancel</Button>
+                    <Button size="sm" variant="secondary" onClick={handleSaveEdit} disabled={!editing.text.trim()}>Save</Button>
+                  </div>
+                </div>
+              ) : (
+                <p className="whitespace-pre-wrap">{message.content}</p>
+              )}
             </div>
-            
+
+            {!deleted && message.reactions && message.reactions.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {message.reactions.map(reaction => {
+                  const reacted = Boolean(user?._id) && hasReacted(message, reaction.emoji, user._id);
+                  return (
+                    <button
+                      key={reaction.emoji}
+                      type="button"
+                      onClick={() => handleToggleReaction(message, reaction.emoji)}
+                      aria-pressed={reacted}
+                      className={`rounded-full border px-2 text-xs ${reacted ? 'border-primary bg-primary/10' : 'border-border'}`}
+                    >
+                      {reaction.emoji} {reaction.userIds.length}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
             <div className="flex items-center gap-1 mt-1">
               <span className="text-xs text-muted-foreground">
                 {formatDistanceToNow(new Date(message.sentAt), { addSuffix: true })}
               </span>
-              
+
+              {message.editedAt && !deleted && (
+                <details className="text-xs text-muted-foreground">
+                  <summary className="cursor-pointer">(edited)</summary>
+                  <ul className="mt-1 space-y-1">
+                    {(message.editHistory || []).map((version, index) => (
+                      <li key={index}>
+                        <span className="font-medium">
+                          {formatDistanceToNow(new Date(version.editedAt), { addSuffix: true })}:
+                        </span>{' '}
+                        {version.content}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+
               {isCurrentUser && (
                 <div className="flex items-center gap-0.5">
                   {message.status === 'DELIVERED' && (
@@ -203,7 +358,59 @@ export function EnhancedMessageThread({ projectId, participantIds }: EnhancedMes
                   )}
                 </div>
               )}
+
+              {!deleted && !isEditing && (
+                <>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-6 w-6" aria-label="Add reaction">
+                        <SmilePlus className="h-3 w-3" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align={isCurrentUser ? 'end' : 'start'} className="flex gap-1 p-1">
+                      {MESSAGE_REACTIONS.map(emoji => (
+                        <DropdownMenuItem key={emoji} className="px-2" onSelect={() => handleToggleReaction(message, emoji)}>
+                          {emoji}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  {(!inThread || canModify) && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-6 w-6" aria-label="Message actions">
+                          <MoreVertical className="h-3 w-3" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align={isCurrentUser ? 'end' : 'start'}>
+                        {!inThread && (
+                          <DropdownMenuItem onSelect={() => setThreadRootId(message.id)}>Reply in thread</DropdownMenuItem>
+                        )}
+                        {canModify && (
+                          <>
+                            <DropdownMenuItem onSelect={() => setEditing({ id: message.id, text: message.content })}>Edit</DropdownMenuItem>
+                            <DropdownMenuItem onSelect={() => setPendingDeleteId(message.id)} className="text-destructive">Delete</DropdownMenuItem>
+                          </>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                </>
+              )}
             </div>
+
+            {summary && (
+              <button
+                type="button"
+                onClick={() => setThreadRootId(message.id)}
+                className="mt-1 flex items-center gap-1 text-xs text-primary hover:underline"
+              >
+                <MessageSquare className="h-3 w-3" />
+                {summary.count === 1 ? '1 reply' : `${summary.count} replies`}
+                {' · last '}
+                {formatDistanceToNow(summary.lastReplyAt, { addSuffix: true })}
+              </button>
+            )}
           </div>
           
           {isCurrentUser && (
@@ -230,8 +437,21 @@ export function EnhancedMessageThread({ projectId, participantIds }: EnhancedMes
           <div>
             <h3 className="font-semibold">Project Discussion</h3>
             <p className="text-sm text-muted-foreground">
-              {participantIds.length} participants • Active
+              {participantIds.length} participants • {CONNECTION_LABELS[connectionState]}
             </p>
+            {otherParticipants.length > 0 && (
+              <ul className="flex flex-wrap gap-x-3 text-xs text-muted-foreground" aria-label="Participants">
+                {otherParticipants.map(id => (
+                  <li key={id} className="flex items-center gap-1">
+                    <span
+                      className={`h-2 w-2 rounded-full ${projectPresence[id]?.online ? 'bg-green-500' : 'bg-muted-foreground/40'}`}
+                      aria-hidden="true"
+                    />
+                    {participantNames[id] || 'Participant'} · {presenceLabel(projectPresence[id])}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         </div>
         
@@ -260,51 +480,55 @@ export function EnhancedMessageThread({ projectId, participantIds }: EnhancedMes
         </div>
       </div>
 
-      {/* Messages Area */}
-      <div className="flex-1 overflow-hidden p-4">
-        <ScrollArea className="h-full w-full pr-4">
-          <div className="space-y-4">
-            {/* Load more button at the top for older messages */}
-            {hasMoreMessages && (
-              <div className="flex justify-center">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={loadMoreMessages}
-                  disabled={isLoadingMore}
-                  className="mb-4"
-                >
-                  {isLoadingMore ? (
-                    <>
-                      <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent"></div>
-                      Loading...
-                    </>
-                  ) : (
-                    'Load More Messages'
-                  )}
-                </Button>
-              </div>
-            )}
+      {connectionState !== 'connected' && (
+        <div role="status" className="flex items-center gap-2 border-b bg-muted/40 px-4 py-2 text-sm text-muted-foreground">
+          <WifiOff className="h-4 w-4" />
+          {connectionState === 'reconnecting'
+            ? 'Connection lost. Reconnecting; anything sent in the meantime will appear once we are back.'
+            : 'You are offline. New messages and status changes will not appear until the connection returns.'}
+        </div>
+      )}
 
-            {/* Messages container - reverse order to show newer messages at the bottom */}
-            <div ref={messagesStartRef}>
-              {projectMessages.length > 0 ? (
-                [...projectMessages].reverse().map(renderMessage) // Reverse to show newest at bottom
-              ) : (
-                <div className="flex flex-col items-center justify-center h-full text-center py-12">
-                  <div className="p-3 rounded-full bg-secondary mb-4">
-                    <Paperclip className="h-6 w-6 text-muted-foreground" />
-                  </div>
-                  <h4 className="text-lg font-medium mb-2">No messages yet</h4>
-                  <p className="text-muted-foreground max-w-md">
-                    Start a conversation with your project partner. All messages are securely stored and encrypted.
-                  </p>
+      {focusMissing && (
+        <div role="status" className="border-b px-4 py-2 text-sm text-muted-foreground">
+          The linked message is no longer in this conversation.
+        </div>
+      )}
+
+      {/* Messages Area */}
+      <div className="flex flex-1 overflow-hidden">
+        <div className="flex-1 overflow-hidden p-4">
+          <VirtualMessageList
+            key={projectId}
+            messages={listMessages}
+            renderMessage={renderMessage}
+            hasMore={paging?.hasMore ?? false}
+            loadingOlder={paging?.loadingOlder ?? false}
+            onLoadOlder={loadOlderMessages}
+            focusMessageId={listFocusId}
+            emptyState={
+              <div className="flex flex-col items-center justify-center h-full text-center py-12">
+                <div className="p-3 rounded-full bg-secondary mb-4">
+                  <Paperclip className="h-6 w-6 text-muted-foreground" />
                 </div>
-              )}
-            </div>
-            <div ref={messagesEndRef} />
-          </div>
-        </ScrollArea>
+                <h4 className="text-lg font-medium mb-2">No messages yet</h4>
+                <p className="text-muted-foreground max-w-md">
+                  Start a conversation with your project partner. All messages are securely stored and encrypted.
+                </p>
+              </div>
+            }
+          />
+        </div>
+        {threadRoot && (
+          <MessageThreadPanel
+            key={threadRoot.id}
+            root={threadRoot}
+            replies={repliesTo(projectMessages, threadRoot.id)}
+            renderMessage={(message) => renderMessage(message, true)}
+            onSendReply={handleSendReply}
+            onClose={() => setThreadRootId(null)}
+          />
+        )}
       </div>
 
       {/* Typing Indicator */}
@@ -318,6 +542,21 @@ export function EnhancedMessageThread({ projectId, participantIds }: EnhancedMes
         </div>
       )}
 
+      <Dialog open={pendingDeleteId !== null} onOpenChange={(open) => !open && setPendingDeleteId(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete message?</DialogTitle>
+            <DialogDescription>
+              Everyone in the project will see that a message was deleted. Replies to it stay in the thread.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingDeleteId(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={handleConfirmDelete}>Delete</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Input Area */}
       <div className="border-t p-4">
         <div className="flex items-end gap-2">
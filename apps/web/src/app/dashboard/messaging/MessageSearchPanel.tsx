@@ -0,0 +1,170 @@
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Paperclip, Search } from 'lucide-react';
+import { format } from 'date-fns';
+import { useMessagingStore } from '@/lib/store';
+import { HighlightSegment, MessageSearchQuery, highlight, snippet } from '@/lib/messageSearch';
+
+interface SearchOption {
+  id: string;
+  name: string;
+}
+
+interface MessageSearchPanelProps {
+  userId: string;
+  projects: SearchOption[];
+  senders: SearchOption[];
+  onOpenMessage: (projectId: string, messageId: string) => void;
+}
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300;
+
+const Highlighted = ({ segments }: { segments: HighlightSegment[] }) => (
+  <>
+    {segments.map((segment, index) => segment.match ? (
+      <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-800">{segment.text}</mark>
+    ) : (
+      <Fragment key={index}>{segment.text}</Fragment>
+    ))}
+  </>
+);
+
+export function MessageSearchPanel({ userId, projects, senders, onOpenMessage }: MessageSearchPanelProps) {
+  const { messageSearch, searchMessages, clearMessageSearch } = useMessagingStore();
+  const [text, setText] = useState('');
+  const [projectId, setProjectId] = useState('');
+  const [senderId, setSenderId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [attachmentsOnly, setAttachmentsOnly] = useState(false);
+
+  const query = useMemo<MessageSearchQuery>(() => ({
+    text,
+    projectId: projectId || undefined,
+    senderId: senderId || undefined,
+    // Dates from the pickers are whole local days
+    from: from ? new Date(`${from}T00:00:00`) : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+    hasAttachment: attachmentsOnly || undefined,
+  }), [text, projectId, senderId, from, to, attachmentsOnly]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      searchMessages(userId, query).catch(err => console.error('Error searching messages:', err));
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [userId, query, searchMessages]);
+
+  useEffect(() => () => clearMessageSearch(), [clearMessageSearch]);
+
+  const senderName = (id: string) => senders.find(sender => sender.id === id)?.name || id;
+  const searchedFor = messageSearch.query?.text || '';
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="space-y-2 border-b border-border p-3">
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 transform text-muted-foreground" />
+          <Input
+            placeholder="Search messages, files and projects..."
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            className="pl-8"
+            autoFocus
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <select
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+            className="rounded-md border px-2 py-1"
+            aria-label="Project"
+          >
+            <option value="">All projects</option>
+            {projects.map(project => (
+              <option key={project.id} value={project.id}>{project.name}</option>
+            ))}
+          </select>
+          <select
+            value={senderId}
+            onChange={(e) => setSenderId(e.target.value)}
+            className="rounded-md border px-2 py-1"
+            aria-label="Sender"
+          >
+            <option value="">Anyone</option>
+            {senders.map(sender => (
+              <option key={sender.id} value={sender.id}>{sender.name}</option>
+            ))}
+          </select>
+          <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} aria-label="From date" />
+          <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} aria-label="To date" />
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="search-attachments-only"
+            checked={attachmentsOnly}
+            onCheckedChange={(checked) => setAttachmentsOnly(checked === true)}
+          />
+          <Label htmlFor="search-attachments-only" className="text-sm font-normal">Only messages with attachments</Label>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto" aria-busy={messageSearch.loading}>
+        {!searchedFor.trim() ? (
+          <p className="p-6 text-center text-sm text-muted-foreground">
+            Search the text of every message, attached file names and project names.
+          </p>
+        ) : messageSearch.hits.length === 0 ? (
+          <p className="p-6 text-center text-sm text-muted-foreground">
+            {messageSearch.loading ? 'Searching...' : `No messages match "${searchedFor}".`}
+          </p>
+        ) : (
+          <>
+            <p className="px-3 pt-3 text-xs text-muted-foreground">
+              {messageSearch.total === 1 ? '1 result' : `${messageSearch.total} results`}
+              {messageSearch.total > messageSearch.hits.length && `, showing the best ${messageSearch.hits.length}`}
+            </p>
+            <ul>
+              {messageSearch.hits.map(({ message, projectName, matchedIn }) => (
+                <li key={message.id} className="border-b border-border">
+                  <button
+                    type="button"
+                    onClick={() => onOpenMessage(message.projectId, message.id)}
+                    className="w-full p-3 text-left transition-colors hover:bg-muted"
+                  >
+                    <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                      <span className="truncate">
+                        {matchedIn.includes('project')
+                          ? <Highlighted segments={highlight(projectName, searchedFor)} />
+                          : projectName}
+                        {' · '}
+                        {senderName(message.senderId)}
+                      </span>
+                      <span className="shrink-0">{format(new Date(message.sentAt), 'MMM d, yyyy')}</span>
+                    </div>
+                    <p className="mt-1 text-sm text-foreground">
+                      <Highlighted segments={snippet(message.content, searchedFor)} />
+                    </p>
+                    {matchedIn.includes('attachment') && (
+                      <ul className="mt-1 space-y-0.5">
+                        {(message.attachments || []).map(attachment => (
+                          <li key={attachment.id} className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <Paperclip className="h-3 w-3" />
+                            <Highlighted segments={highlight(attachment.fileName, searchedFor)} />
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { ReactNode, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ChevronLeft, ChevronRight, MessageSquare, Send, X } from 'lucide-react';
+import { Message } from '@/types';
+import { isDeleted } from '@/lib/messageThreads';
+
+interface MessageThreadPanelProps {
+  root: Message;
+  replies: Message[];
+  renderMessage: (message: Message) => ReactNode;
+  onSendReply: (content: string) => Promise<void>;
+  onClose: () => void;
+}
+
+// Side panel for the replies to one message; collapses to a strip so the main
+// conversation can use the full width without losing the thread
+export function MessageThreadPanel({ root, replies, renderMessage, onSendReply, onClose }: MessageThreadPanelProps) {
+  const [collapsed, setCollapsed] = useState(false);
+  const [replyText, setReplyText] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const handleSend = async () => {
+    if (!replyText.trim()) return;
+    setSending(true);
+    try {
+      await onSendReply(replyText);
+      setReplyText('');
+    } catch (error) {
+      console.error('Error sending reply:', error);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (collapsed) {
+    return (
+      <aside className="flex w-12 flex-col items-center gap-2 border-l py-4" aria-label="Thread">
+        <Button variant="ghost" size="icon" onClick={() => setCollapsed(false)} aria-label="Expand thread">
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <MessageSquare className="h-4 w-4 text-muted-foreground" />
+        <span className="text-xs text-muted-foreground">{replies.length}</span>
+      </aside>
+    );
+  }
+
+  return (
+    <aside className="flex w-80 flex-col border-l" aria-label="Thread">
+      <div className="flex items-center justify-between border-b p-3">
+        <div>
+          <h4 className="font-semibold">Thread</h4>
+          <p className="text-xs text-muted-foreground">
+            {replies.length === 1 ? '1 reply' : `${replies.length} replies`}
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" onClick={() => setCollapsed(true)} aria-label="Collapse thread">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close thread">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3">
+        <div className="border-b pb-2 mb-3">{renderMessage(root)}</div>
+        {replies.length > 0 ? (
+          replies.map(reply => <div key={reply.id}>{renderMessage(reply)}</div>)
+        ) : (
+          <p className="text-sm text-muted-foreground">No replies yet.</p>
+        )}
+      </div>
+
+      {!isDeleted(root) && (
+        <div className="flex items-center gap-2 border-t p-3">
+          <Input
+            value={replyText}
+            onChange={(e) => setReplyText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleSend();
+              }
+            }}
+            placeholder="Reply in thread..."
+          />
+          <Button onClick={handleSend} disabled={sending || !replyText.trim()} className="h-10 w-10 p-0" aria-label="Send reply">
+            <Send className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,192 @@
+import { ReactNode, UIEvent, useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Message } from '@/types';
+import { computeVirtualWindow, rowOffsets } from '@/lib/virtualWindow';
+
+interface VirtualMessageListProps {
+  messages: Message[]; // oldest first
+  renderMessage: (message: Message) => ReactNode;
+  hasMore: boolean;
+  loadingOlder: boolean;
+  onLoadOlder: () => void;
+  focusMessageId?: string;
+  emptyState?: ReactNode;
+}
+
+const ESTIMATED_ROW_HEIGHT = 88;
+// Older history starts loading this far from the top
+const LOAD_OLDER_THRESHOLD = 300;
+const BOTTOM_THRESHOLD = 40;
+const HIGHLIGHT_MS = 3000;
+
+// The row at the top of the viewport and how far into it the user has scrolled.
+// Restored after every change above it, so prepending older messages or measuring
+// rows that only had an estimated height never moves what the user is reading.
+interface ScrollAnchor {
+  id: string;
+  delta: number;
+}
+
+export function VirtualMessageList({
+  messages,
+  renderMessage,
+  hasMore,
+  loadingOlder,
+  onLoadOlder,
+  focusMessageId,
+  emptyState,
+}: VirtualMessageListProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rowRefs = useRef(new Map<string, HTMLDivElement>());
+  const heights = useRef(new Map<string, number>());
+  const anchorRef = useRef<ScrollAnchor | null>(null);
+  const atBottomRef = useRef(true);
+  const focusedRef = useRef<string | undefined>(undefined);
+  const [measured, setMeasured] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+
+  const offsets = useMemo(
+    () => rowOffsets(messages.length, index => heights.current.get(messages[index].id) ?? ESTIMATED_ROW_HEIGHT),
+    // `measured` changes whenever a row height does
+    [messages, measured]
+  );
+  const { start, end, offsetTop, totalHeight } = computeVirtualWindow(
+    { count: messages.length, heightOf: () => ESTIMATED_ROW_HEIGHT, scrollTop, viewportHeight },
+    offsets
+  );
+
+  const anchorAt = useCallback((top: number): ScrollAnchor | null => {
+    const index = computeVirtualWindow(
+      { count: messages.length, heightOf: () => ESTIMATED_ROW_HEIGHT, scrollTop: top, viewportHeight: 1, overscan: 0 },
+      offsets
+    ).start;
+    return messages[index] ? { id: messages[index].id, delta: top - offsets[index] } : null;
+  }, [messages, offsets]);
+
+  const scrollTo = (top: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    container.scrollTop = top;
+    setScrollTop(container.scrollTop);
+  };
+
+  // The scroll container only exists once there is something to show
+  const hasRows = messages.length > 0;
+  useEffect(() => {
+    const updateViewport = () => setViewportHeight(containerRef.current?.clientHeight || 0);
+    updateViewport();
+    window.addEventListener('resize', updateViewport);
+    return () => window.removeEventListener('resize', updateViewport);
+  }, [hasRows]);
+
+  // Record the heights of the rows just rendered
+  useLayoutEffect(() => {
+    let changed = false;
+    rowRefs.current.forEach((element, id) => {
+      const height = element.offsetHeight;
+      if (height > 0 && heights.current.get(id) !== height) {
+        heights.current.set(id, height);
+        changed = true;
+      }
+    });
+    if (changed) {
+      setMeasured(count => count + 1);
+    }
+  });
+
+  // Keep the reader's place whenever the rows above it change
+  useLayoutEffect(() => {
+    if (atBottomRef.current) {
+      scrollTo(totalHeight);
+      return;
+    }
+    const anchor = anchorRef.current;
+    const index = anchor ? messages.findIndex(message => message.id === anchor.id) : -1;
+    if (anchor && index >= 0) {
+      const target = offsets[index] + anchor.delta;
+      if (Math.abs((containerRef.current?.scrollTop ?? target) - target) > 1) {
+        scrollTo(target);
+      }
+    }
+  }, [offsets]);
+
+  // Bring a linked message into the middle of the viewport once it is loaded
+  useLayoutEffect(() => {
+    if (!focusMessageId || focusedRef.current === focusMessageId) return;
+    const index = messages.findIndex(message => message.id === focusMessageId);
+    if (index < 0) return;
+
+    focusedRef.current = focusMessageId;
+    const rowHeight = offsets[index + 1] - offsets[index];
+    const top = Math.max(0, offsets[index] - (viewportHeight - rowHeight) / 2);
+    atBottomRef.current = false;
+    anchorRef.current = { id: focusMessageId, delta: top - offsets[index] };
+    scrollTo(top);
+    setHighlightedId(focusMessageId);
+  }, [focusMessageId, messages, offsets, viewportHeight]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timeout = setTimeout(() => setHighlightedId(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
+
+  const handleScroll = (event: UIEvent<HTMLDivElement>) => {
+    const container = event.currentTarget;
+    const top = container.scrollTop;
+    setScrollTop(top);
+    atBottomRef.current = container.scrollHeight - top - container.clientHeight <= BOTTOM_THRESHOLD;
+    anchorRef.current = anchorAt(top);
+    if (top <= LOAD_OLDER_THRESHOLD && hasMore && !loadingOlder) {
+      onLoadOlder();
+    }
+  };
+
+  if (!hasRows) {
+    return <>{emptyState}</>;
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      {hasMore && (
+        <div className="flex justify-center pb-2">
+          <Button variant="outline" size="sm" onClick={onLoadOlder} disabled={loadingOlder}>
+            {loadingOlder ? 'Loading...' : 'Load older messages'}
+          </Button>
+        </div>
+      )}
+      <div
+        ref={containerRef}
+        onScroll={handleScroll}
+        className="flex-1 overflow-y-auto pr-4"
+        role="log"
+        aria-busy={loadingOlder}
+      >
+        <div className="relative" style={{ height: totalHeight }}>
+          <div className="absolute inset-x-0 top-0" style={{ transform: `translateY(${offsetTop}px)` }}>
+            {messages.slice(start, end).map(message => (
+              <div
+                key={message.id}
+                id={`message-${message.id}`}
+                ref={element => {
+                  if (element) {
+                    rowRefs.current.set(message.id, element);
+                  } else {
+                    rowRefs.current.delete(message.id);
+                  }
+                }}
+                className={`flow-root rounded-md transition-colors ${
+                  highlightedId === message.id ? 'bg-yellow-100 dark:bg-yellow-900/30' : ''
+                }`}
+              >
+                {renderMessage(message)}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
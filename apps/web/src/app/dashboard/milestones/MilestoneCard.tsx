@@ -4,14 +4,17 @@ import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Calendar, Clock, FileText, AlertCircle, CheckCircle, FileDown, Send } from 'lucide-react';
 import { Milestone } from '@/types';
-import { formatCurrency, formatDate } from '@/lib/utils';
+import { formatMinor, formatDate } from '@/lib/utils';
+import { AutoApprovalCountdown } from '@/components/milestones/AutoApprovalCountdown';
+import { DEFAULT_MILESTONE_RULES, MilestoneRules, canPerformMilestoneAction } from '@/lib/milestoneWorkflow';
 
 interface MilestoneCardProps {
   milestone: Milestone;
   userRole: 'client' | 'freelancer';
+  rules?: MilestoneRules;
 }
 
-export function MilestoneCard({ milestone, userRole }: MilestoneCardProps) {
+export function MilestoneCard({ milestone, userRole, rules = DEFAULT_MILESTONE_RULES }: MilestoneCardProps) {
   const statusColors: Record<string, string> = {
     PENDING: 'bg-gray-500',
     IN_PROGRESS: 'bg-blue-500',
@@ -32,16 +35,16 @@ export function MilestoneCard({ milestone, userRole }: MilestoneCardProps) {
 
   const canTakeAction = () => {
     if (userRole === 'freelancer') {
-      return milestone.status === 'PENDING' || milestone.status === 'REVISION_REQUESTED';
-    } else if (userRole === 'client') {
-      return milestone.status === 'SUBMITTED';
+      return canPerformMilestoneAction(milestone, 'START', userRole, rules)
+        || canPerformMilestoneAction(milestone, 'SUBMIT', userRole, rules);
     }
-    return false;
+    return canPerformMilestoneAction(milestone, 'APPROVE', userRole, rules);
   };
 
   const getActionLabel = () => {
     if (userRole === 'freelancer') {
       if (milestone.status === 'PENDING') return 'Start Work';
+      if (milestone.status === 'IN_PROGRESS') return 'Submit for Review';
       if (milestone.status === 'REVISION_REQUESTED') return 'Revise & Resubmit';
     } else if (userRole === 'client') {
       if (milestone.status === 'SUBMITTED') return 'Review & Approve';
@@ -52,7 +55,7 @@ export function MilestoneCard({ milestone, userRole }: MilestoneCardProps) {
   const handleAction = () => {
     // Navigate to the specific milestone page or action modal
     // Implementation would depend on specific action needed
-    console.log('Handle action for milestone:', milestone._id);
+    console.log('Handle action for milestone:', milestone.id);
   };
 
   return (
@@ -65,13 +68,14 @@ export function MilestoneCard({ milestone, userRole }: MilestoneCardProps) {
               <Badge className={`${statusColors[milestone.status]} text-white`} variant="secondary">
                 {statusLabels[milestone.status]}
               </Badge>
+              <AutoApprovalCountdown milestone={milestone} rules={rules} />
             </div>
             <CardDescription className="truncate">
               {milestone.description}
             </CardDescription>
           </div>
           <div className="text-right whitespace-nowrap">
-            <div className="text-lg font-semibold">{formatCurrency(milestone.amount)}</div>
+            <div className="text-lg font-semibold">{formatMinor(milestone.amount)}</div>
             <div className="text-sm text-muted-foreground">
               Due: {formatDate(milestone.deadline)}
             </div>
@@ -105,7 +109,7 @@ export function MilestoneCard({ milestone, userRole }: MilestoneCardProps) {
               {milestone.deliverables.map((deliverable, idx) => (
                 <Badge key={idx} variant="secondary" className="cursor-pointer">
                   <FileDown className="h-3 w-3 mr-1" />
-                  {deliverable.filename || `Deliverable ${idx + 1}`}
+                  {deliverable.fileName || `Deliverable ${idx + 1}`}
                 </Badge>
               ))}
             </div>
@@ -8,20 +8,24 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { MilestoneCard } from './MilestoneCard';
-import { useMilestoneStore } from '@/lib/store/projectStore';
+import { useMilestoneStore, useProjectStore } from '@/lib/store/projectStore';
 import { useAuthStore } from '@/lib/store';
+import { milestoneRules } from '@/lib/milestoneWorkflow';
+import { Milestone } from '@/types';
 
 export default function MilestonesPage() {
   const router = useRouter();
   const { user } = useAuthStore();
   const { milestones, getMilestonesByProject } = useMilestoneStore();
+  const { projects, fetchProjects } = useProjectStore();
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('all');
 
   useEffect(() => {
     const fetchMilestones = async () => {
       try {
-        await getMilestonesByProject('all'); // Fetch all milestones for user
+        // Projects carry the revision limit and auto-approval period each card enforces
+        await Promise.all([getMilestonesByProject('all'), fetchProjects(user._id)]); // Fetch all milestones for user
       } catch (error) {
         console.error('Error fetching milestones:', error);
       } finally {
@@ -32,7 +36,10 @@ export default function MilestonesPage() {
     if (user) {
       fetchMilestones();
     }
-  }, [user, getMilestonesByProject]);
+  }, [user, getMilestonesByProject, fetchProjects]);
+
+  const rulesFor = (milestone: Milestone) =>
+    milestoneRules(projects.find(project => project.id === milestone.projectId));
 
   const getMilestoneStats = () => {
     const allMilestones = milestones;
@@ -157,9 +164,10 @@ export default function MilestonesPage() {
           ) : (
             filteredMilestones.map(milestone => (
               <MilestoneCard 
-                key={milestone._id} 
+                key={milestone.id} 
                 milestone={milestone} 
                 userRole={user?.role as 'client' | 'freelancer'} 
+                rules={rulesFor(milestone)}
               />
             ))
           )}
@@ -175,9 +183,10 @@ export default function MilestonesPage() {
           ) : (
             filteredMilestones.map(milestone => (
               <MilestoneCard 
-                key={milestone._id} 
+                key={milestone.id} 
                 milestone={milestone} 
                 userRole={user?.role as 'client' | 'freelancer'} 
+                rules={rulesFor(milestone)}
               />
             ))
           )}
@@ -193,9 +202,10 @@ export default function MilestonesPage() {
           ) : (
             filteredMilestones.map(milestone => (
               <MilestoneCard 
-                key={milestone._id} 
+                key={milestone.id} 
                 milestone={milestone} 
                 userRole={user?.role as 'client' | 'freelancer'} 
+                rules={rulesFor(milestone)}
               />
             ))
           )}
@@ -211,9 +221,10 @@ export default function MilestonesPage() {
           ) : (
             filteredMilestones.map(milestone => (
               <MilestoneCard 
-                key={milestone._id} 
+                key={milestone.id} 
                 milestone={milestone} 
                 userRole={user?.role as 'client' | 'freelancer'} 
+                rules={rulesFor(milestone)}
               />
             ))
           )}
@@ -229,9 +240,10 @@ export default function MilestonesPage() {
           ) : (
             filteredMilestones.map(milestone => (
               <MilestoneCard 
-                key={milestone._id} 
+                key={milestone.id} 
                 milestone={milestone} 
                 userRole={user?.role as 'client' | 'freelancer'} 
+                rules={rulesFor(milestone)}
               />
             ))
           )}
@@ -247,9 +259,10 @@ export default function MilestonesPage() {
           ) : (
             filteredMilestones.map(milestone => (
               <MilestoneCard 
-                key={milestone._id} 
+                key={milestone.id} 
                 milestone={milestone} 
                 userRole={user?.role as 'client' | 'freelancer'} 
+                rules={rulesFor(milestone)}
               />
             ))
           )}
@@ -265,9 +278,10 @@ export default function MilestonesPage() {
           ) : (
             filteredMilestones.map(milestone => (
               <MilestoneCard 
-                key={milestone._id} 
+                key={milestone.id} 
                 milestone={milestone} 
                 userRole={user?.role as 'client' | 'freelancer'} 
+                rules={rulesFor(milestone)}
               />
             ))
           )}
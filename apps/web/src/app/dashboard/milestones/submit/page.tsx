@@ -5,13 +5,11 @@ import { useRouter } from 'next/navigation';
 import { useAuthStore } from '@/lib/store/authStore';
 import MilestoneSubmissionForm from '@/components/milestones/MilestoneSubmissionForm';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { useProjectStore } from '@/lib/store/projectStore'; // Assuming we have a project store
 import { Milestone } from '@/types/project';
 
 export default function SubmitMilestonePage() {
   const router = useRouter();
   const { user } = useAuthStore();
-  const { getMilestoneById } = useProjectStore(); // Assuming this store method exists
   const [milestone, setMilestone] = useState<Milestone | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -33,10 +31,12 @@ export default function SubmitMilestonePage() {
       projectId: '1',
       title: 'Homepage Design',
       description: 'Design the main homepage with responsive layout',
-      amount: 500,
-      deadline: '2023-12-15',
+      amount: 50000,
+      currency: 'USD',
+      deadline: new Date('2023-12-15'),
       acceptanceCriteria: 'Design matches approved mockups and is responsive on all devices',
-      status: 'in_progress',
+      status: 'IN_PROGRESS',
+      order: 1,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -30,6 +30,7 @@ import {
 } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import { Notification } from '@/types';
+import { messageLink } from '@/lib/messageHistory';
 
 export default function NotificationsPage() {
   const router = useRouter();
@@ -156,7 +157,9 @@ export default function NotificationsPage() {
           router.push(`/dashboard/freelancer/projects/${notification.relatedEntityId}`);
         }
       } else if (notification.relatedEntity === 'message') {
-        router.push(`/dashboard/messages`);
+        // Message notifications carry the project so the thread can jump to the message
+        const projectId = notification.data?.projectId;
+        router.push(projectId ? messageLink(projectId, notification.relatedEntityId) : `/dashboard/messages`);
       }
     }
   };
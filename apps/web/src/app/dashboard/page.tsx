@@ -37,8 +37,10 @@ export default function DashboardRedirect() {
         case 'freelancer':
           router.push('/dashboard/freelancer');
           break;
-        case 'admin':
         case 'arbitrator':
+          router.push('/dashboard/arbitrator');
+          break;
+        case 'admin':
           // For other roles, could redirect to admin dashboard
           router.push('/dashboard/admin');
           break;
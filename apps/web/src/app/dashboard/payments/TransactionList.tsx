@@ -1,6 +1,6 @@
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { formatCurrency, formatDate } from '@/lib/utils';
+import { formatMinor, formatDate } from '@/lib/utils';
 import { Transaction } from '@/types';
 import {
   CreditCard,
@@ -68,7 +68,7 @@ export function TransactionList({ transactions }: TransactionListProps) {
       ) : (
         transactions.map(transaction => (
           <Card
-            key={transaction._id}
+            key={transaction.id}
             className="hover:bg-muted/50 transition-colors cursor-pointer"
             onClick={() => handleTransactionClick(transaction)}
           >
@@ -89,7 +89,7 @@ export function TransactionList({ transactions }: TransactionListProps) {
 
               <div className="flex items-center gap-4">
                 <div className={`font-medium ${transaction.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>
-                  {transaction.amount < 0 ? '-' : '+'}{formatCurrency(Math.abs(transaction.amount))} {transaction.currency || 'USD'}
+                  {transaction.amount < 0 ? '-' : '+'}{formatMinor(Math.abs(transaction.amount))} {transaction.currency || 'USD'}
                 </div>
 
                 <Badge className={`${statusColors[transaction.status as keyof typeof statusColors]} text-white`}>
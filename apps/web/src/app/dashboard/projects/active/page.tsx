@@ -18,6 +18,7 @@ import {
 import { Project } from '@/types/project'; // Assuming this type exists
 
 import { useProjects } from '@/lib/api';
+import { isOverdue, projectPriority } from '@/lib/projectPriority';
 
 export default function ActiveProjectsPage() {
   const { data: projectsResponse, isLoading } = useProjects('', { status: 'ACTIVE' }, { page: 1, limit: 10 });
@@ -30,9 +31,7 @@ export default function ActiveProjectsPage() {
   }, [projectsResponse]);
 
   // Calculate overdue projects from actual project data
-  const overdueProjects = projects.filter(project =>
-    new Date(project.dueDate) < new Date() && project.progress < 100
-  );
+  const overdueProjects = projects.filter(project => isOverdue(project));
 
   // For tasks due this week, we would need to get from the API in the real application
   // For now, we'll calculate based on project milestones
@@ -136,8 +135,8 @@ export default function ActiveProjectsPage() {
                 // Get upcoming milestones for each project - this would come from actual API
                 const upcomingMilestones = project.milestones?.filter(milestone =>
                   milestone.status === 'PENDING' &&
-                  new Date(milestone.dueDate) >= new Date() &&
-                  new Date(milestone.dueDate) <= new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+                  new Date(milestone.deadline) >= new Date() &&
+                  new Date(milestone.deadline) <= new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
                 );
 
                 return upcomingMilestones?.map((milestone) => (
@@ -149,7 +148,7 @@ export default function ActiveProjectsPage() {
                       </div>
                     </div>
                     <div className="text-sm text-muted-foreground">
-                      Due: {new Date(milestone.dueDate).toLocaleDateString()}
+                      Due: {new Date(milestone.deadline).toLocaleDateString()}
                     </div>
                   </div>
                 ));
@@ -196,7 +195,7 @@ export default function ActiveProjectsPage() {
                     <td className="py-3 px-4">
                       <div className="flex items-center gap-2">
                         <User className="h-4 w-4 text-muted-foreground" />
-                        {project.owner}
+                        {project.clientId}
                       </div>
                     </td>
                     <td className="py-3 px-4">
@@ -204,18 +203,18 @@ export default function ActiveProjectsPage() {
                         <div className="w-24 bg-gray-200 rounded-full h-2">
                           <div
                             className="h-2 rounded-full bg-blue-500"
-                            style={{ width: `${project.progress}%` }}
+                            style={{ width: `${project.progress ?? 0}%` }}
                           ></div>
                         </div>
-                        <span className="text-sm">{project.progress}%</span>
+                        <span className="text-sm">{project.progress ?? 0}%</span>
                       </div>
                     </td>
                     <td className="py-3 px-4">
                       <div className="flex items-center gap-1">
                         <Clock className="h-4 w-4 text-muted-foreground" />
-                        {new Date(project.dueDate).toLocaleDateString()}
+                        {new Date(project.deadline).toLocaleDateString()}
                       </div>
-                      {new Date(project.dueDate) < new Date() && project.progress < 100 && (
+                      {isOverdue(project) && (
                         <Badge variant="destructive" className="mt-1">Overdue</Badge>
                       )}
                     </td>
@@ -224,8 +223,8 @@ export default function ActiveProjectsPage() {
                     </td>
                     <td className="py-3 px-4">
                       <div className="flex items-center gap-1">
-                        <Flag className={`h-4 w-4 ${getPriorityColor(project.priority)}`} />
-                        <span className="capitalize">{project.priority}</span>
+                        <Flag className={`h-4 w-4 ${getPriorityColor(projectPriority(project))}`} />
+                        <span className="capitalize">{projectPriority(project)}</span>
                       </div>
                     </td>
                     <td className="py-3 px-4">
@@ -14,10 +14,11 @@ import {
   Download
 } from 'lucide-react';
 import { useProjects } from '@/lib/api';
+import { Project } from '@/types';
 
 export default function ArchivedProjectsPage() {
   const { data: projectsResponse, isLoading } = useProjects('', { status: 'ARCHIVED' }, { page: 1, limit: 10 });
-  const [projects, setProjects] = useState([]);
+  const [projects, setProjects] = useState<Project[]>([]);
 
   useEffect(() => {
     if (projectsResponse?.items) {
@@ -162,7 +163,7 @@ export default function ArchivedProjectsPage() {
                     <td className="py-3 px-4">
                       <div className="flex items-center gap-2">
                         <User className="h-4 w-4 text-muted-foreground" />
-                        {project.owner}
+                        {project.clientId}
                       </div>
                     </td>
                     <td className="py-3 px-4">
@@ -176,8 +177,8 @@ export default function ArchivedProjectsPage() {
                         {project.status}
                       </Badge>
                     </td>
-                    <td className="py-3 px-4">{project.owner}</td>
-                    <td className="py-3 px-4">${(project.budget / 100).toLocaleString()}</td>
+                    <td className="py-3 px-4">{project.clientId}</td>
+                    <td className="py-3 px-4">${(project.totalBudget / 100).toLocaleString()}</td>
                     <td className="py-3 px-4">
                       <div className="flex flex-wrap gap-2">
                         <Button
@@ -12,7 +12,8 @@ import { Badge } from '@/components/ui/badge';
 import { MilestoneForm } from './MilestoneForm';
 import { CurrencySelector } from '@/components/common/CurrencySelector';
 import { useProjectStore } from '@/lib/store/projectStore';
-import { Project } from '@/types';
+import type { CreateProjectData } from '@/lib/api/projectService';
+import { Money } from '@/lib/money';
 import { Plus, Sparkles } from 'lucide-react';
 import { useAuthStore } from '@/lib/store';
 
@@ -52,6 +53,9 @@ export default function CreateProjectPage() {
     }
   }, [user, router]);
 
+  // Form amounts are major-unit strings; the API takes minor units
+  const toMoney = (value: string) => Money.fromMajor(Number(value) || 0, formData.currency);
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
@@ -120,7 +124,7 @@ export default function CreateProjectPage() {
       const convertedMilestones = aiSuggestions.milestones.map((ms: any) => ({
         title: ms.title,
         description: ms.description,
-        amount: (ms.amount / 100).toString(), // Convert units back to standard format
+        amount: Money.fromMinor(Math.round(ms.amount), formData.currency).toDecimalString(),
         deadline: ms.deadline,
         acceptanceCriteria: ms.acceptanceCriteria
       }));
@@ -173,7 +177,6 @@ export default function CreateProjectPage() {
       return false;
     }
 
-    let totalAmount = 0;
     for (let i = 0; i < formData.milestones.length; i++) {
       const milestone = formData.milestones[i];
       if (!milestone.title.trim()) {
@@ -192,7 +195,7 @@ export default function CreateProjectPage() {
         setError(`Milestone ${i + 1} deadline is required`);
         return false;
       }
-      if (Number(milestone.amount) < 50) {
+      if (toMoney(milestone.amount).lessThan(toMoney('50'))) {
         setError(`Milestone ${i + 1} amount must be at least 50 ${formData.currency}`);
         return false;
       }
@@ -200,11 +203,12 @@ export default function CreateProjectPage() {
         setError(`Milestone ${i + 1} deadline cannot exceed project deadline`);
         return false;
       }
-      totalAmount += Number(milestone.amount);
     }
 
-    if (Math.abs(totalAmount - Number(formData.budget)) > 0.01) {
-      setError(`Milestone amounts (${totalAmount.toFixed(2)} ${formData.currency}) must equal project budget (${formData.budget} ${formData.currency})`);
+    const totalAmount = Money.sum(formData.milestones.map(m => toMoney(m.amount)), formData.currency);
+    const budget = toMoney(formData.budget);
+    if (!totalAmount.equals(budget)) {
+      setError(`Milestone amounts (${totalAmount.format()}) must equal project budget (${budget.format()})`);
       return false;
     }
 
@@ -220,26 +224,28 @@ export default function CreateProjectPage() {
       setError('');
       
       // Convert form data to API format
-      const projectData: Partial<Project> = {
+      const deadline = new Date(formData.deadline);
+      const projectData: CreateProjectData = {
         title: formData.title,
         description: formData.description,
         category: formData.category,
-        budget: Number(formData.budget) * 100, // Convert to cents for USD, or appropriate units for other currencies
-        deadline: new Date(formData.deadline).toISOString(),
-        currency: formData.currency, // Add currency to project
+        totalBudget: toMoney(formData.budget).amount,
+        currency: formData.currency,
+        timeline: `Until ${deadline.toLocaleDateString()}`,
+        deadline,
         milestones: formData.milestones.map(m => ({
           title: m.title,
           description: m.description,
-          amount: Number(m.amount) * 100, // Convert to cents for USD or appropriate units for other currencies
-          deadline: new Date(m.deadline).toISOString(),
+          amount: toMoney(m.amount).amount,
+          deadline: new Date(m.deadline),
           acceptanceCriteria: m.acceptanceCriteria,
-          currency: formData.currency // Add currency to milestone as well
+          currency: formData.currency
         })),
-        autoApproveDays: Number(formData.autoApproveDays)
+        autoApprovalPeriod: Number(formData.autoApproveDays)
       };
       
       const createdProject = await createProject(projectData);
-      router.push(`/dashboard/projects/${createdProject._id}`);
+      router.push(`/dashboard/projects/${createdProject.id}`);
     } catch (err: any) {
       setError(err.message || 'Failed to create project');
     } finally {
@@ -247,9 +253,8 @@ export default function CreateProjectPage() {
     }
   };
 
-  const totalMilestoneAmount = formData.milestones.reduce(
-    (sum, ms) => sum + (Number(ms.amount) || 0), 0
-  );
+  const totalMilestoneAmount = Money.sum(formData.milestones.map(ms => toMoney(ms.amount)), formData.currency);
+  const budgetAmount = toMoney(formData.budget);
 
   return (
     <div className="w-full p-2">
@@ -413,13 +418,13 @@ export default function CreateProjectPage() {
               <div className="border-t pt-4">
                 <div className="flex justify-between font-medium">
                   <span>Total Milestone Amount:</span>
-                  <span>{totalMilestoneAmount.toFixed(2)} {formData.currency}</span>
+                  <span>{totalMilestoneAmount.format()}</span>
                 </div>
                 <div className="flex justify-between">
                   <span>Project Budget:</span>
-                  <span>{Number(formData.budget).toFixed(2)} {formData.currency}</span>
+                  <span>{budgetAmount.format()}</span>
                 </div>
-                {Math.abs(totalMilestoneAmount - Number(formData.budget)) > 0.01 && (
+                {!totalMilestoneAmount.equals(budgetAmount) && (
                   <div className="text-destructive text-sm mt-1">
                     Milestone amounts must equal project budget
                   </div>
@@ -448,7 +453,7 @@ export default function CreateProjectPage() {
                   </Button>
                   <Button 
                     onClick={handleCreateProject}
-                    disabled={loading || Math.abs(totalMilestoneAmount - Number(formData.budget)) > 0.01}
+                    disabled={loading || !totalMilestoneAmount.equals(budgetAmount)}
                   >
                     {loading ? 'Creating...' : 'Create Project'}
                   </Button>
@@ -469,7 +474,7 @@ export default function CreateProjectPage() {
                     <ul className="list-disc pl-5 space-y-1">
                       {aiSuggestions.milestones.map((ms: any, idx: number) => (
                         <li key={idx}>
-                          <span className="font-medium">{ms.title}</span> - ${ms.amount / 100} ({ms.percentage}%)
+                          <span className="font-medium">{ms.title}</span> - {Money.fromMinorOrZero(Math.round(ms.amount), formData.currency).format()} ({ms.percentage}%)
                         </li>
                       ))}
                     </ul>
@@ -511,7 +516,7 @@ export default function CreateProjectPage() {
                   <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
                     <div><span className="font-medium">Title:</span> {formData.title}</div>
                     <div><span className="font-medium">Category:</span> {formData.category}</div>
-                    <div><span className="font-medium">Budget:</span> ${Number(formData.budget).toFixed(2)}</div>
+                    <div><span className="font-medium">Budget:</span> {budgetAmount.format()}</div>
                     <div><span className="font-medium">Deadline:</span> {formData.deadline}</div>
                   </div>
                 </div>
@@ -522,7 +527,7 @@ export default function CreateProjectPage() {
                     {formData.milestones.map((milestone, idx) => (
                       <div key={idx} className="border p-3 rounded-md text-sm">
                         <div className="font-medium">{milestone.title}</div>
-                        <div>Amount: ${Number(milestone.amount).toFixed(2)}</div>
+                        <div>Amount: {toMoney(milestone.amount).format()}</div>
                         <div>Deadline: {milestone.deadline}</div>
                         <div className="mt-1 text-muted-foreground">{milestone.description}</div>
                       </div>
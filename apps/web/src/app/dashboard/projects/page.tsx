@@ -25,8 +25,23 @@ import {
 } from 'lucide-react';
 import { Project } from '@/types/project'; // Assuming this type exists
 import { useProjects } from '@/lib/api';
+import { projectPriority } from '@/lib/projectPriority';
 
 const statusOptions = ['all', 'active', 'pending', 'completed', 'archived'];
+
+// Groups the project statuses into the filter options above
+const projectStatusGroup = (status: Project['status']) => {
+  switch (status) {
+    case 'PENDING_ACCEPTANCE':
+    case 'AWAITING_DEPOSIT':
+    case 'DRAFT':
+      return 'pending';
+    case 'CANCELLED':
+      return 'archived';
+    default:
+      return status.toLowerCase();
+  }
+};
 const priorityOptions = ['all', 'low', 'medium', 'high'];
 
 export default function AllProjectsPage() {
@@ -45,16 +60,17 @@ export default function AllProjectsPage() {
   const [sortOption, setSortOption] = useState('updatedAt');
 
   // Extract unique owner names from projects
-  const ownerOptions = ['all', ...Array.from(new Set(projects.map(p => p.owner)))];
+  const ownerOptions = ['all', ...Array.from(new Set(projects.map(p => p.clientId)))];
 
   // Filter projects based on search term and filters
   const filteredProjects = projects.filter(project => {
     const matchesSearch = project.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
                           project.description.toLowerCase().includes(searchTerm.toLowerCase());
 
-    const matchesStatus = statusFilter === 'all' || project.status === statusFilter;
-    const matchesPriority = priorityFilter === 'all' || project.priority === priorityFilter;
-    const matchesOwner = ownerFilter === 'all' || project.owner === ownerFilter;
+    // 'pending' covers both acceptance and deposit
+    const matchesStatus = statusFilter === 'all' || projectStatusGroup(project.status) === statusFilter;
+    const matchesPriority = priorityFilter === 'all' || projectPriority(project) === priorityFilter;
+    const matchesOwner = ownerFilter === 'all' || project.clientId === ownerFilter;
 
     return matchesSearch && matchesStatus && matchesPriority && matchesOwner;
   });
@@ -65,9 +81,9 @@ export default function AllProjectsPage() {
       case 'title':
         return a.title.localeCompare(b.title);
       case 'startDate':
-        return new Date(a.startDate).getTime() - new Date(b.startDate).getTime();
+        return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
       case 'dueDate':
-        return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+        return new Date(a.deadline).getTime() - new Date(b.deadline).getTime();
       case 'updatedAt':
       default:
         return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
@@ -232,35 +248,35 @@ export default function AllProjectsPage() {
                     <td className="py-3 px-4">
                       <div className="flex items-center gap-2">
                         <User className="h-4 w-4 text-muted-foreground" />
-                        {project.owner}
+                        {project.clientId}
                       </div>
                     </td>
                     <td className="py-3 px-4">
-                      <Badge className={getStatusColor(project.status)}>
-                        {project.status.charAt(0).toUpperCase() + project.status.slice(1)}
+                      <Badge className={getStatusColor(projectStatusGroup(project.status))}>
+                        {project.status.charAt(0) + project.status.slice(1).toLowerCase().replace(/_/g, ' ')}
                       </Badge>
                     </td>
                     <td className="py-3 px-4">
                       <div className="flex items-center gap-2">
                         <div className="w-24 bg-gray-200 rounded-full h-2">
                           <div
-                            className={`h-2 rounded-full ${project.status === 'completed' ? 'bg-green-500' : 'bg-blue-500'}`}
-                            style={{ width: `${project.progress}%` }}
+                            className={`h-2 rounded-full ${project.status === 'COMPLETED' ? 'bg-green-500' : 'bg-blue-500'}`}
+                            style={{ width: `${project.progress ?? 0}%` }}
                           ></div>
                         </div>
-                        <span className="text-sm">{project.progress}%</span>
+                        <span className="text-sm">{project.progress ?? 0}%</span>
                       </div>
                     </td>
                     <td className="py-3 px-4">
                       <div className="flex items-center gap-1">
                         <Calendar className="h-4 w-4 text-muted-foreground" />
-                        {new Date(project.startDate).toLocaleDateString()}
+                        {new Date(project.createdAt).toLocaleDateString()}
                       </div>
                     </td>
                     <td className="py-3 px-4">
                       <div className="flex items-center gap-1">
                         <Clock className="h-4 w-4 text-muted-foreground" />
-                        {new Date(project.dueDate).toLocaleDateString()}
+                        {new Date(project.deadline).toLocaleDateString()}
                       </div>
                     </td>
                     <td className="py-3 px-4">
@@ -268,8 +284,8 @@ export default function AllProjectsPage() {
                     </td>
                     <td className="py-3 px-4">
                       <div className="flex items-center gap-1">
-                        <Flag className={`h-4 w-4 ${getPriorityColor(project.priority)}`} />
-                        <span className="capitalize">{project.priority}</span>
+                        <Flag className={`h-4 w-4 ${getPriorityColor(projectPriority(project))}`} />
+                        <span className="capitalize">{projectPriority(project)}</span>
                       </div>
                     </td>
                   </tr>
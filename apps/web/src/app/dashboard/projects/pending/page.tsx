@@ -28,12 +28,12 @@ export default function PendingAgreementsPage() {
       const pendingAgreements = projectsResponse.items.map(project => ({
         id: project.id,
         projectName: project.title,
-        client: project.client?.name || project.owner || 'Unknown Client',
+        client: project.clientId || 'Unknown Client',
         agreementType: 'Contract',
         submissionDate: new Date(project.createdAt),
         approvalDeadline: new Date(project.updatedAt), // This might need to come from a different field
         lastFollowUp: new Date(project.updatedAt), // Last updated time
-        statusNotes: `Awaiting ${project.client?.name} Approval`,
+        statusNotes: 'Awaiting Client Approval',
         status: project.status.toLowerCase() === 'pending' ? 'pending' : project.status.toLowerCase(),
         documentLink: '#'
       }));
@@ -0,0 +1,70 @@
+'use client';
+
+import { useEffect } from 'react';
+import { CloudOff, RefreshCw, AlertTriangle, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useOutboxStore } from '@/lib/store/outboxStore';
+
+// Floating summary of offline changes: what is still queued, and what the server refused on replay
+export function OutboxStatus() {
+  const { entries, isOnline, syncing, initialize, sync, dismiss } = useOutboxStore();
+
+  useEffect(() => {
+    initialize().catch((error) => console.warn('Could not start the offline outbox:', error));
+  }, [initialize]);
+
+  const pending = entries.filter((entry) => entry.status === 'pending');
+  const rejected = entries.filter((entry) => entry.status !== 'pending');
+
+  if (isOnline && pending.length === 0 && rejected.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 w-80 space-y-2" aria-live="polite">
+      {(pending.length > 0 || !isOnline) && (
+        <div className="flex items-center justify-between rounded-md border border-warning/30 bg-background p-3 text-sm shadow-md">
+          <div className="flex items-center gap-2">
+            <CloudOff className="h-4 w-4 text-warning" />
+            <span>
+              {isOnline ? 'Syncing' : 'Offline'}
+              {pending.length > 0 && ` · ${pending.length} change${pending.length === 1 ? '' : 's'} waiting to sync`}
+            </span>
+          </div>
+          {isOnline && pending.length > 0 && (
+            <Button variant="ghost" size="icon" onClick={() => sync()} disabled={syncing}>
+              <RefreshCw className={`h-4 w-4 ${syncing ? 'animate-spin' : ''}`} />
+              <span className="sr-only">Retry now</span>
+            </Button>
+          )}
+        </div>
+      )}
+
+      {rejected.map((entry) => (
+        <div
+          key={entry.id}
+          role="alert"
+          className="flex items-start justify-between gap-2 rounded-md border border-danger/30 bg-background p-3 text-sm shadow-md"
+        >
+          <div className="flex items-start gap-2">
+            <AlertTriangle className="mt-0.5 h-4 w-4 text-danger" />
+            <div>
+              <p className="font-medium">
+                {entry.status === 'conflict' ? 'Conflict' : 'Not saved'}: {entry.label}
+              </p>
+              <p className="text-muted-foreground">
+                {entry.status === 'conflict'
+                  ? 'Someone else changed this while you were offline. Your change was not applied.'
+                  : entry.error}
+              </p>
+            </div>
+          </div>
+          <Button variant="ghost" size="icon" onClick={() => dismiss(entry.id)}>
+            <X className="h-4 w-4" />
+            <span className="sr-only">Dismiss</span>
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
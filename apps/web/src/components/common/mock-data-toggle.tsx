@@ -19,13 +19,16 @@ import {
   enableMockData, 
   disableMockData 
 } from '@/config/mock-config';
+import { mockDb, resetMockData } from '@/lib/mock-data';
 
 export function MockDataToggle() {
   const [mockEnabled, setMockEnabled] = useState(false);
+  const [persistEnabled, setPersistEnabled] = useState(false);
   const { theme, setTheme } = useTheme();
   
   useEffect(() => {
     setMockEnabled(isMockDataEnabled());
+    setPersistEnabled(mockDb.isPersistent());
   }, []);
 
   const toggleMockData = () => {
@@ -38,6 +41,16 @@ export function MockDataToggle() {
     }
   };
 
+  const togglePersistence = (enabled: boolean) => {
+    mockDb.setPersistent(enabled);
+    setPersistEnabled(enabled);
+  };
+
+  const resetDemoData = () => {
+    resetMockData();
+    window.location.reload();
+  };
+
   return (
     <Dialog>
       <DialogTrigger asChild>
@@ -69,6 +82,38 @@ export function MockDataToggle() {
               onCheckedChange={toggleMockData}
             />
           </div>
+
+          {mockEnabled && (
+            <>
+              <div className="flex items-center justify-between space-x-2">
+                <div className="space-y-0.5">
+                  <Label htmlFor="mock-persist" className="text-base">
+                    Keep Mock Changes
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    Save created and updated mock records across page reloads
+                  </p>
+                </div>
+                <Switch
+                  id="mock-persist"
+                  checked={persistEnabled}
+                  onCheckedChange={togglePersistence}
+                />
+              </div>
+
+              <div className="flex items-center justify-between space-x-2">
+                <div className="space-y-0.5">
+                  <Label className="text-base">Demo Data</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Discard all changes and restore the sample data
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" onClick={resetDemoData}>
+                  Reset
+                </Button>
+              </div>
+            </>
+          )}
           
           <div className="flex items-center justify-between space-x-2">
             <Label htmlFor="theme" className="text-base">
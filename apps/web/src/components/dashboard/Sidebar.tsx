@@ -16,6 +16,7 @@ import {
   ChevronDown,
   ChevronRight,
   Menu,
+  Scale,
   X
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -167,6 +168,21 @@ const getNavGroups = (role: 'client' | 'freelancer' | 'admin' | 'arbitrator' | n
     );
   }
 
+  if (role === 'arbitrator') {
+    navGroups.push(
+      {
+        title: 'Arbitration',
+        icon: Scale,
+        items: [
+          {
+            title: 'Case Queue',
+            href: '/dashboard/arbitrator',
+          },
+        ],
+      }
+    );
+  }
+
   navGroups.push(
     {
       title: 'Disputes',
@@ -323,6 +339,7 @@ export function Sidebar() {
       Support: false,
     },
     arbitrator: {
+      Arbitration: true,
       Projects: false,
       Milestones: false,
       Disputes: true,
@@ -400,6 +417,7 @@ export function Sidebar() {
                   user.role === 'client' ? 'bg-primary/20 text-primary' :
                   user.role === 'freelancer' ? 'bg-success/20 text-success' :
                   user.role === 'admin' ? 'bg-warning/20 text-warning' :
+                  user.role === 'arbitrator' ? 'bg-accent text-accent-foreground' :
                   'bg-gray-200 text-foreground'
                 }`}>
                   {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
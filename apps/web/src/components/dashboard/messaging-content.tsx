@@ -1,6 +1,7 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -35,71 +36,49 @@ import {
 import { useMessagingStore } from '@/lib/store';
 // Import the enhanced message thread component
 import { EnhancedMessageThread } from '@/app/dashboard/messaging/EnhancedMessageThread';
+import { MessageSearchPanel } from '@/app/dashboard/messaging/MessageSearchPanel';
+import { messageLink } from '@/lib/messageHistory';
+import { Conversation } from '@/types';
 
-// Define types for messaging data
-type MessageType = 'TEXT' | 'FILE' | 'IMAGE' | 'VOICE' | 'SYSTEM';
-type MessageStatus = 'SENT' | 'DELIVERED' | 'READ';
-
-interface User {
+// The store keeps participant ids; this view works with participant details
+interface Participant {
   id: string;
   name: string;
-  avatar?: string;
-  role: 'client' | 'freelancer';
-  isOnline?: boolean;
-}
-
-interface Message {
-  id: string;
-  conversationId: string;
-  sender: User;
-  content: string;
-  type: MessageType;
-  timestamp: Date;
-  status: MessageStatus;
-  replyTo?: string;
-  fileUrl?: string;
-  fileName?: string;
-  imageUrl?: string;
-  isEdited?: boolean;
+  role?: string;
 }
 
-interface Conversation {
-  id: string;
-  projectId: string;
+type ConversationView = Omit<Conversation, 'participants' | 'projectName'> & {
   projectName: string;
-  participants: User[];
-  lastMessage?: Message;
-  lastMessageAt?: Date;
-  unreadCount: number;
-  isPinned: boolean;
-  isFlagged: boolean;
-  isMuted: boolean;
-  createdAt: Date;
-  updatedAt: Date;
-}
+  participants: Participant[];
+};
 
 interface MessagingContentProps {
   userType: 'client' | 'freelancer';
 }
 
 export function MessagingContent({ userType }: MessagingContentProps) {
-  const { conversations, messages: allMessages, sendMessage, fetchConversations, fetchMessages, loading, error, clearError, initializeSocket } = useMessagingStore();
-  const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [newMessage, setNewMessage] = useState('');
-  const [filteredConversations, setFilteredConversations] = useState<Conversation[]>([]);
+  const { conversations: storeConversations, sendMessage, fetchConversations, initializeSocket } = useMessagingStore();
+  const conversations = useMemo<ConversationView[]>(() => storeConversations.map(conv => ({
+    ...conv,
+    projectName: conv.projectName || `Project ${conv.projectId}`,
+    participants: conv.participants.map(id => {
+      const details = conv.participantDetails?.find(participant => participant.id === id);
+      return { id, name: details?.name || id, role: details?.role };
+    }),
+  })), [storeConversations]);
+  const [selectedConversation, setSelectedConversation] = useState<ConversationView | null>(null);
+  const [filteredConversations, setFilteredConversations] = useState<ConversationView[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
-  const [showEmojiPicker, setShowEmojiPicker] = useState(false);
-  const [filePreviews, setFilePreviews] = useState<{file: File, url: string}[]>([]);
-  const [isTyping, setIsTyping] = useState(false);
   const [showNewMessageModal, setShowNewMessageModal] = useState(false);
   const [newMessageRecipient, setNewMessageRecipient] = useState('');
   const [newMessageContent, setNewMessageContent] = useState('');
-  const [currentPage, setCurrentPage] = useState(1);
-  const [hasMoreMessages, setHasMoreMessages] = useState(true);
-  const [isLoadingMore, setIsLoadingMore] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-  const messagesStartRef = useRef<HTMLDivElement>(null);
+  const [currentUserId, setCurrentUserId] = useState('user-1');
+  const [showMessageSearch, setShowMessageSearch] = useState(false);
+  // Deep links (notifications, dispute evidence, search results) name a project and a message in it
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const linkedProjectId = searchParams?.get('project') || undefined;
+  const linkedMessageId = searchParams?.get('message') || undefined;
 
   // Load conversations from store and initialize socket
   useEffect(() => {
@@ -149,6 +128,8 @@ export function MessagingContent({ userType }: MessagingContentProps) {
           }
         }
 
+        setCurrentUserId(userId);
+
         // Initialize socket connection
         initializeSocket(token || 'mock-token', userId);
 
@@ -167,6 +148,15 @@ export function MessagingContent({ userType }: MessagingContentProps) {
     };
   }, [fetchConversations, initializeSocket]);
 
+  // Open the linked project's conversation once conversations have loaded
+  useEffect(() => {
+    if (!linkedProjectId) return;
+    const linked = conversations.find(conv => conv.projectId === linkedProjectId);
+    if (linked) {
+      setSelectedConversation(current => current?.projectId === linkedProjectId ? current : linked);
+    }
+  }, [linkedProjectId, conversations]);
+
   // Update filtered conversations when conversations change
   useEffect(() => {
     setFilteredConversations(conversations);
@@ -194,276 +184,36 @@ export function MessagingContent({ userType }: MessagingContentProps) {
     setNewMessageContent('');
   };
 
-  // Handle sending the new message
-  const handleSendNewMessage = () => {
+  // Conversations are per project, so a new message goes to a project shared with the recipient
+  const handleSendNewMessage = async () => {
     if (!newMessageRecipient || !newMessageContent.trim()) {
       alert('Please fill in all required fields');
       return;
     }
 
-    // Find the recipient user
-    const recipientUser = conversations
-      .flatMap(conv => conv.participants)
-      .find(user => user.name.toLowerCase().includes(newMessageRecipient.toLowerCase()));
-
-    if (!recipientUser) {
-      alert('Recipient not found');
-      return;
-    }
-
-    // Create a new conversation if one doesn't exist
-    let conversation = conversations.find(conv =>
-      conv.participants.some(p => p.id === recipientUser.id)
+    const conversation = conversations.find(conv =>
+      conv.participants.some(participant => participant.id === newMessageRecipient)
     );
-
     if (!conversation) {
-      const newConv: Conversation = {
-        id: `conv-${Date.now()}`,
-        projectId: 'new',
-        projectName: 'General',
-        participants: [
-          { id: 'client-1', name: 'Alex Johnson', role: 'client', isOnline: true },
-          recipientUser
-        ],
-        lastMessage: {
-          id: `msg-${Date.now()}`,
-          conversationId: `conv-${Date.now()}`,
-          sender: { id: 'client-1', name: 'Alex Johnson', role: 'client', isOnline: true },
-          content: newMessageContent,
-          type: 'TEXT',
-          timestamp: new Date(),
-          status: 'SENT'
-        },
-        lastMessageAt: new Date(),
-        unreadCount: 0,
-        isPinned: false,
-        isFlagged: false,
-        isMuted: false,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-
-      setConversations(prev => [newConv, ...prev]);
-      setFilteredConversations(prev => [newConv, ...prev]);
-    } else {
-      // Update existing conversation
-      const updatedConversation = {
-        ...conversation,
-        lastMessage: {
-          id: `msg-${Date.now()}`,
-          conversationId: conversation.id,
-          sender: { id: 'client-1', name: 'Alex Johnson', role: 'client', isOnline: true },
-          content: newMessageContent,
-          type: 'TEXT',
-          timestamp: new Date(),
-          status: 'SENT'
-        },
-        lastMessageAt: new Date(),
-        updatedAt: new Date()
-      };
-
-      setConversations(prev =>
-        prev.map(conv => conv.id === conversation.id ? updatedConversation : conv)
-      );
-      setFilteredConversations(prev =>
-        prev.map(conv => conv.id === conversation.id ? updatedConversation : conv)
-      );
-    }
-
-    setShowNewMessageModal(false);
-    setNewMessageRecipient('');
-    setNewMessageContent('');
-  };
-
-  // Handle file selection
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      const files = Array.from(e.target.files);
-
-      // Validate files before adding
-      const validFiles = files.filter(file => {
-        // Check file size (max 10MB)
-        if (file.size > 10 * 1024 * 1024) {
-          alert(`File ${file.name} exceeds 10MB limit`);
-          return false;
-        }
-
-        // Check file type
-        const allowedTypes = ['image/jpeg', 'image/png', 'image/gif', 'application/pdf', 'text/plain', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
-        if (!allowedTypes.includes(file.type)) {
-          alert(`File type ${file.type} not allowed`);
-          return false;
-        }
-
-        return true;
-      });
-
-      if (validFiles.length === 0) return;
-
-      // Create previews for image files
-      const newPreviews = await Promise.all(validFiles.map(async file => {
-        let url = '';
-        if (file.type.startsWith('image/')) {
-          url = URL.createObjectURL(file);
-        }
-        return { file, url };
-      }));
-
-      setFilePreviews(prev => [...prev, ...newPreviews]);
-    }
-  };
-
-  // Handle emoji selection
-  const handleEmojiSelect = (emoji: string) => {
-    setNewMessage(prev => prev + emoji);
-    setShowEmojiPicker(false);
-  };
-
-  // Handle adding files to message
-  const handleAddFile = () => {
-    const input = document.createElement('input');
-    input.type = 'file';
-    input.onchange = (e: any) => handleFileChange(e);
-    input.click();
-  };
-
-  // Handle conversation selection
-  const handleSelectConversation = (conversation: Conversation) => {
-    setSelectedConversation(conversation);
-  };
-
-
-  // Load messages when conversation is selected
-  useEffect(() => {
-    if (selectedConversation) {
-      const loadMessages = async () => {
-        try {
-          // Reset pagination when changing conversations
-          setCurrentPage(1);
-          setHasMoreMessages(true);
-
-          await fetchMessages(selectedConversation.projectId);
-        } catch (err) {
-          console.error('Error fetching messages:', err);
-        }
-      };
-
-      loadMessages();
-    } else {
-      setMessages([]);
-      setCurrentPage(1);
-      setHasMoreMessages(true);
-    }
-  }, [selectedConversation?.projectId, fetchMessages]);
-
-  // Sync messages from store when they change for the selected conversation
-  useEffect(() => {
-    if (selectedConversation?.projectId) {
-      const conversationMessages = allMessages[selectedConversation.projectId] || [];
-      setMessages(conversationMessages);
-    }
-  }, [selectedConversation?.projectId, allMessages]);
-
-  // Load more messages when scrolling up
-  const loadMoreMessages = async () => {
-    if (isLoadingMore || !hasMoreMessages || !selectedConversation) return;
-
-    setIsLoadingMore(true);
-    try {
-      const nextPage = currentPage + 1;
-      // We need to modify the fetchMessages to support pagination
-      // For now, we'll just fetch all messages again since the current store implementation
-      // doesn't support pagination, so we'll simulate it by fetching all messages
-      await fetchMessages(selectedConversation.projectId);
-
-      // Get messages for the selected conversation from the store
-      const conversationMessages = allMessages[selectedConversation.projectId] || [];
-
-      // For true pagination, we would check if we have more messages to load
-      // For now, we'll just say we've reached the end since the mock data is limited
-      setHasMoreMessages(false);
-      setMessages(conversationMessages);
-      setCurrentPage(nextPage);
-    } catch (err) {
-      console.error('Error loading more messages:', err);
-    } finally {
-      setIsLoadingMore(false);
-    }
-  };
-
-  // Handle sending a message in chat (with file support)
-  const handleSendMessage = async () => {
-    if (newMessage.trim() === '' && filePreviews.length === 0) return;
-
-    if (!selectedConversation) {
-      alert('Please select a conversation first');
+      alert('You can only message people you share a project with');
       return;
     }
 
-    setIsTyping(false);
-
     try {
-      let attachments = [];
-
-      // Upload files if any
-      if (filePreviews.length > 0) {
-        // If we have multiple files, we might want to upload them first
-        // For now, we'll just pass them directly to the messaging service
-        // which should handle the upload internally
-        attachments = filePreviews.map(fp => fp.file);
-      }
-
-      // Prepare the message data
-      const messageData = {
-        projectId: selectedConversation.projectId,
-        content: newMessage,
-        type: filePreviews.length > 0 ?
-          (filePreviews[0].file.type.startsWith('image/') ? 'IMAGE' : 'FILE') :
-          'TEXT',
-        attachments: attachments,
-      };
-
-      // Use the store's sendMessage function
-      await sendMessage(messageData);
-
-      // Clear the input fields
-      setNewMessage('');
-      setFilePreviews([]);
-
-      // Refetch messages to update the UI
-      await fetchMessages(selectedConversation.projectId);
+      await sendMessage({ projectId: conversation.projectId, content: newMessageContent, type: 'TEXT' });
+      setSelectedConversation(conversation);
+      setShowNewMessageModal(false);
+      setNewMessageRecipient('');
+      setNewMessageContent('');
     } catch (error) {
       console.error('Error sending message:', error);
       alert('Failed to send message. Please try again.');
     }
   };
 
-  // Handle key press for sending message
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
-      e.preventDefault();
-      handleSendMessage();
-    }
-  };
-
-  // Scroll to bottom of messages
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
-
-  // Handle bulk actions
-  const handleBulkDelete = (conversationId: string) => {
-    setConversations(prev => prev.filter(conv => conv.id !== conversationId));
-    if (selectedConversation?.id === conversationId) {
-      setSelectedConversation(null);
-      setMessages([]);
-    }
-  };
-
-  const handleBulkArchive = (conversationId: string) => {
-    setConversations(prev => prev.map(conv =>
-      conv.id === conversationId ? { ...conv, isPinned: false } : conv
-    ));
+  // Handle conversation selection
+  const handleSelectConversation = (conversation: ConversationView) => {
+    setSelectedConversation(conversation);
   };
 
   // Format date for display
@@ -487,21 +237,32 @@ export function MessagingContent({ userType }: MessagingContentProps) {
     return msgDate.toLocaleDateString([], { month: 'short', day: 'numeric' });
   };
 
+  // Filter options for message search, drawn from the user's conversations
+  const searchProjects = conversations.map(conv => ({ id: conv.projectId, name: conv.projectName }));
+  const searchSenders = conversations
+    .flatMap(conv => conv.participants)
+    .filter((participant, index, all) => all.findIndex(other => other.id === participant.id) === index)
+    .map(participant => ({ id: participant.id, name: participant.name }));
+
+  const handleOpenSearchResult = (projectId: string, messageId: string) => {
+    router.push(messageLink(projectId, messageId));
+  };
+
   // Determine which view to render
   let chatAreaView;
   if (selectedConversation) {
-    // Extract participant IDs - handle both string[] and User[] formats
-    const participantIds = selectedConversation.participants.length > 0
-      ? typeof selectedConversation.participants[0] === 'string'
-        ? selectedConversation.participants as string[]
-        : (selectedConversation.participants as User[]).map(p => p.id)
-      : [];
-    
+    const participantIds = selectedConversation.participants.map(participant => participant.id);
+    const participantNames = Object.fromEntries(
+      selectedConversation.participants.map(participant => [participant.id, participant.name])
+    );
+
     // Render the enhanced message thread component for project conversations
     chatAreaView = (
       <EnhancedMessageThread
         projectId={selectedConversation.projectId}
         participantIds={participantIds}
+        participantNames={participantNames}
+        focusMessageId={selectedConversation.projectId === linkedProjectId ? linkedMessageId : undefined}
       />
     );
   } else {
@@ -540,10 +301,33 @@ export function MessagingContent({ userType }: MessagingContentProps) {
           {/* Header */}
           <div className="p-4 border-b border-border flex items-center justify-between">
             <h2 className="text-lg font-semibold text-foreground">Messages</h2>
-            <Button variant="ghost" size="sm" onClick={handleCreateNewMessage}>
-              <Plus className="h-4 w-4" />
-            </Button>
+            <div className="flex items-center gap-1">
+              <Button
+                variant={showMessageSearch ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setShowMessageSearch(current => !current)}
+                aria-pressed={showMessageSearch}
+                aria-label="Search messages"
+              >
+                <Search className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleCreateNewMessage}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+        {showMessageSearch ? (
+          <div className="flex-1 overflow-hidden">
+            <MessageSearchPanel
+              userId={currentUserId}
+              projects={searchProjects}
+              senders={searchSenders}
+              onOpenMessage={handleOpenSearchResult}
+            />
           </div>
+        ) : (
+        <>
 
         {/* Search */}
         <div className="p-3 border-b border-border">
@@ -562,48 +346,10 @@ export function MessagingContent({ userType }: MessagingContentProps) {
         <div className="flex-1 overflow-y-auto">
           {filteredConversations.length > 0 ? (
             filteredConversations.map(conversation => {
-              // Get the other participant in the conversation
-              const currentUserId = userType === 'client' ? 'user-1' : 'user-2';
-              
-              // Handle both string[] and User[] formats for participants
-              let otherParticipantId: string | undefined;
-              let otherParticipant: User | undefined;
-              
-              if (conversation.participants.length > 0) {
-                const firstParticipant = conversation.participants[0];
-                // Check if participants is an array of User objects or strings
-                if (typeof firstParticipant === 'string') {
-                  // participants is string[]
-                  otherParticipantId = conversation.participants.find((id: string) => id !== currentUserId) as string || conversation.participants[0] as string;
-                } else {
-                  // participants is User[]
-                  otherParticipant = conversation.participants.find((p: User) => p.id !== currentUserId) as User || conversation.participants[0] as User;
-                  otherParticipantId = otherParticipant?.id;
-                }
-              }
-
-              // For mock data purposes, we'll map user IDs to names
-              const participantNames: Record<string, string> = {
-                'user-1': 'John Client',
-                'user-2': 'Jane Freelancer'
-              };
-
-              // Get the name - prefer User object name, then mapped name, then ID, then fallback
-              let otherParticipantName: string;
-              if (otherParticipant && 'name' in otherParticipant) {
-                otherParticipantName = otherParticipant.name;
-              } else if (otherParticipantId && participantNames[otherParticipantId]) {
-                otherParticipantName = participantNames[otherParticipantId];
-              } else if (otherParticipantId) {
-                otherParticipantName = otherParticipantId;
-              } else {
-                otherParticipantName = 'Unknown';
-              }
-              
-              // Ensure it's a string and get first character safely
-              const displayInitial = typeof otherParticipantName === 'string' && otherParticipantName.length > 0 
-                ? otherParticipantName.charAt(0).toUpperCase() 
-                : '?';
+              const otherParticipant = conversation.participants.find(participant => participant.id !== currentUserId)
+                || conversation.participants[0];
+              const otherParticipantName = otherParticipant?.name || 'Unknown';
+              const displayInitial = otherParticipantName.charAt(0).toUpperCase();
 
               return (
                 <div
@@ -662,6 +408,8 @@ export function MessagingContent({ userType }: MessagingContentProps) {
             </div>
           )}
         </div>
+        </>
+        )}
       </div>
 
       {/* Main Chat Area */}
@@ -689,10 +437,10 @@ export function MessagingContent({ userType }: MessagingContentProps) {
                   .filter((user, index, self) =>
                     index === self.findIndex(u => u.id === user.id) // Remove duplicates
                   )
-                  .filter(user => user.id !== 'client-1') // Exclude current user
+                  .filter(user => user.id !== currentUserId) // Exclude current user
                   .map(user => (
-                    <option key={`user-${user.id}`} value={user.name}>
-                      {user.name} ({user.role})
+                    <option key={`user-${user.id}`} value={user.id}>
+                      {user.name}{user.role ? ` (${user.role})` : ''}
                     </option>
                   ))}
               </select>
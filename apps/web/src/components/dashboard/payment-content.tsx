@@ -35,6 +35,7 @@ import {
   Lock
 } from 'lucide-react';
 import { walletService } from '@/lib/services/walletService';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { currencyService } from '@/lib/services/currencyService';
 
 // Define types for payment data
@@ -113,25 +114,19 @@ export function PaymentContent({ userType }: PaymentContentProps) {
   // Determine user's preferred currency (default to USD if not set)
   const userPreferredCurrency = userCurrency;
 
-  // Helper function to convert amount to user's preferred currency
-  const convertToUserCurrency = (amount: number, fromCurrency: string = 'USD'): number => {
-    if (fromCurrency === userPreferredCurrency) {
-      return amount;
-    }
-
-    // Convert using the currency service
-    return currencyService.convertCurrency({
-      fromCurrency,
-      toCurrency: userPreferredCurrency,
-      amount
-    });
-  };
-
   // Helper function to format currency with proper symbol
   const formatCurrency = (amount: number, currency: string = userPreferredCurrency): string => {
     return currencyService.formatCurrency(amount, currency);
   };
 
+  // Shows an amount in the user's preferred currency. Without a rate for either
+  // side it stays in its own currency instead of breaking the page
+  const formatInUserCurrency = (amount: number, fromCurrency: string = 'USD'): string => {
+    const display = currencyService.convertForDisplay({ fromCurrency, toCurrency: userPreferredCurrency, amount });
+    return formatCurrency(display.amount, display.currency);
+  };
+  const preferredRateMissing = !currencyService.isCurrencySupported(userPreferredCurrency);
+
   // Load wallet data when component mounts or when user object changes (which includes currency preference)
   useEffect(() => {
     loadWalletData();
@@ -502,6 +497,15 @@ export function PaymentContent({ userType }: PaymentContentProps) {
         </div>
       </div>
 
+      {preferredRateMissing && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            No exchange rate is available for {userPreferredCurrency}, so amounts are shown in their original currency.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Stats Overview */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card>
@@ -517,7 +521,7 @@ export function PaymentContent({ userType }: PaymentContentProps) {
             ) : (
               <div className="text-2xl font-bold text-green-600">
                 {walletBalance ?
-                  formatCurrency(convertToUserCurrency(walletBalance.availableBalance / 100, walletBalance.currency || 'USD'), userPreferredCurrency)
+                  formatInUserCurrency(walletBalance.availableBalance / 100, walletBalance.currency || 'USD')
                 : '0.00'}
               </div>
             )}
@@ -538,7 +542,7 @@ export function PaymentContent({ userType }: PaymentContentProps) {
             ) : (
               <div className="text-2xl font-bold text-blue-600">
                 {walletBalance ?
-                  formatCurrency(convertToUserCurrency(walletBalance.totalBalance / 100, walletBalance.currency || 'USD'), userPreferredCurrency)
+                  formatInUserCurrency(walletBalance.totalBalance / 100, walletBalance.currency || 'USD')
                 : '0.00'}
               </div>
             )}
@@ -559,7 +563,7 @@ export function PaymentContent({ userType }: PaymentContentProps) {
             ) : (
               <div className="text-2xl font-bold text-orange-600">
                 {walletBalance ?
-                  formatCurrency(convertToUserCurrency(walletBalance.lockedBalance / 100, walletBalance.currency || 'USD'), userPreferredCurrency)
+                  formatInUserCurrency(walletBalance.lockedBalance / 100, walletBalance.currency || 'USD')
                 : '0.00'}
               </div>
             )}
@@ -696,7 +700,7 @@ export function PaymentContent({ userType }: PaymentContentProps) {
                             </td>
                             <td className="p-3">{transaction.projectName || 'N/A'}</td>
                             <td className="p-3 font-medium">
-                              {formatCurrency(convertToUserCurrency(transaction.amount, transaction.currency || 'USD'), userPreferredCurrency)}
+                              {formatInUserCurrency(transaction.amount, transaction.currency || 'USD')}
                             </td>
                             <td className="p-3">{transaction.date.toLocaleDateString()}</td>
                             <td className="p-3">
@@ -943,8 +947,6 @@ export function PaymentContent({ userType }: PaymentContentProps) {
               <CardContent>
                 <div className="space-y-3">
                   {Object.entries(walletBalance.cryptoBalances).map(([currency, balance]) => {
-                    // Convert crypto balance to user's preferred currency
-                    const convertedValue = convertToUserCurrency(balance, currency);
                     return (
                       <div key={currency} className="flex justify-between">
                         <div>
@@ -952,7 +954,7 @@ export function PaymentContent({ userType }: PaymentContentProps) {
                           <div className="text-xs text-muted-foreground">{balance} {currency}</div>
                         </div>
                         <div className="text-right">
-                          <span className="font-medium">{formatCurrency(convertedValue, userPreferredCurrency)}</span>
+                          <span className="font-medium">{formatInUserCurrency(balance, currency)}</span>
                           <div className="text-xs text-muted-foreground">converted</div>
                         </div>
                       </div>
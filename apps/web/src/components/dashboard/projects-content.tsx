@@ -109,6 +109,14 @@ export function ProjectsContent({ userType }: ProjectsContentProps) {
     ];
 
     // Mock projects data
+    const mockProjectDefaults = {
+      timeline: '',
+      currency: 'USD',
+      platformFee: 0,
+      paymentProcessingFee: 0,
+      autoApprovalPeriod: 7,
+      maxRevisionsPerMilestone: 2
+    };
     const mockProjects: ProjectWithDetails[] = [
       {
         id: '1',
@@ -118,15 +126,16 @@ export function ProjectsContent({ userType }: ProjectsContentProps) {
         totalBudget: 5000,
         deadline: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
         status: 'ACTIVE',
+        ...mockProjectDefaults,
         clientId: 'client-1',
         freelancerId: 'freelancer-1',
         createdAt: new Date(Date.now() - 45 * 24 * 60 * 60 * 1000), // 45 days ago
         updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000), // 5 days ago
         milestones: [
-          { id: 'm1', title: 'Design Phase', description: 'Create wireframes and mockups', amount: 1000, status: 'COMPLETED', dueDate: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000), createdAt: new Date(Date.now() - 20 * 24 * 60 * 60 * 1000), updatedAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000) },
-          { id: 'm2', title: 'Frontend Development', description: 'Implement UI components', amount: 2000, status: 'SUBMITTED', dueDate: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), createdAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000), updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000) },
-          { id: 'm3', title: 'Backend Development', description: 'API development and database setup', amount: 1500, status: 'IN_PROGRESS', dueDate: new Date(Date.now() + 8 * 24 * 60 * 60 * 1000), createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000), updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000) },
-          { id: 'm4', title: 'Payment Integration', description: 'Stripe payment system', amount: 500, status: 'PENDING', dueDate: new Date(Date.now() + 15 * 24 * 60 * 60 * 1000), createdAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000), updatedAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000) }
+          { id: 'm1', projectId: '1', order: 1, title: 'Design Phase', description: 'Create wireframes and mockups', amount: 1000, status: 'APPROVED', acceptanceCriteria: '', deadline: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000), createdAt: new Date(Date.now() - 20 * 24 * 60 * 60 * 1000), updatedAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000) },
+          { id: 'm2', projectId: '1', order: 2, title: 'Frontend Development', description: 'Implement UI components', amount: 2000, status: 'SUBMITTED', acceptanceCriteria: '', deadline: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), createdAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000), updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000) },
+          { id: 'm3', projectId: '1', order: 3, title: 'Backend Development', description: 'API development and database setup', amount: 1500, status: 'IN_PROGRESS', acceptanceCriteria: '', deadline: new Date(Date.now() + 8 * 24 * 60 * 60 * 1000), createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000), updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000) },
+          { id: 'm4', projectId: '1', order: 4, title: 'Payment Integration', description: 'Stripe payment system', amount: 500, status: 'PENDING', acceptanceCriteria: '', deadline: new Date(Date.now() + 15 * 24 * 60 * 60 * 1000), createdAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000), updatedAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000) }
         ],
         freelancer: mockFreelancers[0],
         progress: 60,
@@ -144,12 +153,13 @@ export function ProjectsContent({ userType }: ProjectsContentProps) {
         totalBudget: 7500,
         deadline: new Date(Date.now() + 60 * 24 * 60 * 60 * 1000), // 60 days from now
         status: 'PENDING_ACCEPTANCE',
+        ...mockProjectDefaults,
         clientId: 'client-2',
         freelancerId: undefined,
         createdAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000), // 10 days ago
         updatedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), // 2 days ago
         milestones: [
-          { id: 'm5', title: 'Project Planning', description: 'Requirements gathering and planning', amount: 1500, status: 'COMPLETED', dueDate: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), createdAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000), updatedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000) }
+          { id: 'm5', projectId: '2', order: 1, title: 'Project Planning', description: 'Requirements gathering and planning', amount: 1500, status: 'APPROVED', acceptanceCriteria: '', deadline: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), createdAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000), updatedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000) }
         ],
         progress: 0,
         pendingReviews: 0,
@@ -166,6 +176,7 @@ export function ProjectsContent({ userType }: ProjectsContentProps) {
         totalBudget: 3000,
         deadline: new Date(Date.now() + 45 * 24 * 60 * 60 * 1000), // 45 days from now
         status: 'DRAFT',
+        ...mockProjectDefaults,
         clientId: 'client-3',
         createdAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), // 2 days ago
         updatedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), // 2 days ago
@@ -185,14 +196,15 @@ export function ProjectsContent({ userType }: ProjectsContentProps) {
         totalBudget: 2000,
         deadline: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000), // 5 days ago (overdue)
         status: 'COMPLETED',
+        ...mockProjectDefaults,
         clientId: 'client-4',
         freelancerId: 'freelancer-2',
         createdAt: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000), // 90 days ago
         updatedAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000), // 10 days ago
         milestones: [
-          { id: 'm6', title: 'Content Audit', description: 'Catalog existing content', amount: 500, status: 'COMPLETED', dueDate: new Date(Date.now() - 80 * 24 * 60 * 60 * 1000), createdAt: new Date(Date.now() - 85 * 24 * 60 * 60 * 1000), updatedAt: new Date(Date.now() - 79 * 24 * 60 * 60 * 1000) },
-          { id: 'm7', title: 'Migration Process', description: 'Migrate content to new platform', amount: 1000, status: 'COMPLETED', dueDate: new Date(Date.now() - 40 * 24 * 60 * 60 * 1000), createdAt: new Date(Date.now() - 75 * 24 * 60 * 60 * 1000), updatedAt: new Date(Date.now() - 39 * 24 * 60 * 60 * 1000) },
-          { id: 'm8', title: 'Review & Testing', description: 'Review migrated content and test functionality', amount: 500, status: 'COMPLETED', dueDate: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000), createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), updatedAt: new Date(Date.now() - 9 * 24 * 60 * 60 * 1000) }
+          { id: 'm6', projectId: '4', order: 1, title: 'Content Audit', description: 'Catalog existing content', amount: 500, status: 'APPROVED', acceptanceCriteria: '', deadline: new Date(Date.now() - 80 * 24 * 60 * 60 * 1000), createdAt: new Date(Date.now() - 85 * 24 * 60 * 60 * 1000), updatedAt: new Date(Date.now() - 79 * 24 * 60 * 60 * 1000) },
+          { id: 'm7', projectId: '4', order: 2, title: 'Migration Process', description: 'Migrate content to new platform', amount: 1000, status: 'APPROVED', acceptanceCriteria: '', deadline: new Date(Date.now() - 40 * 24 * 60 * 60 * 1000), createdAt: new Date(Date.now() - 75 * 24 * 60 * 60 * 1000), updatedAt: new Date(Date.now() - 39 * 24 * 60 * 60 * 1000) },
+          { id: 'm8', projectId: '4', order: 3, title: 'Review & Testing', description: 'Review migrated content and test functionality', amount: 500, status: 'APPROVED', acceptanceCriteria: '', deadline: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000), createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), updatedAt: new Date(Date.now() - 9 * 24 * 60 * 60 * 1000) }
         ],
         freelancer: mockFreelancers[1],
         progress: 100,
@@ -256,7 +268,15 @@ export function ProjectsContent({ userType }: ProjectsContentProps) {
     try {
       const duplicatedProject = await projectService.duplicateProject(projectId);
       // Refresh the projects list to include the new duplicated project
-      const updatedProjects = [...projects, duplicatedProject];
+      const updatedProjects = [...projects, {
+        ...duplicatedProject,
+        progress: 0,
+        pendingReviews: 0,
+        lastActivity: new Date(duplicatedProject.createdAt),
+        budgetSpent: 0,
+        milestonesCompleted: 0,
+        totalMilestones: duplicatedProject.milestones?.length ?? 0
+      }];
       setProjects(updatedProjects);
       setFilteredProjects(updatedProjects);
       // Show success message
@@ -277,12 +297,12 @@ export function ProjectsContent({ userType }: ProjectsContentProps) {
       const archivedProject = await projectService.archiveProject(projectId);
       // Update the project status in the local state
       const updatedProjects = projects.map(project =>
-        project.id === projectId ? { ...project, status: 'ARCHIVED' } : project
+        project.id === projectId ? { ...project, status: 'ARCHIVED' as const } : project
       );
       setProjects(updatedProjects);
       // Also update filtered projects
       const updatedFilteredProjects = filteredProjects.map(project =>
-        project.id === projectId ? { ...project, status: 'ARCHIVED' } : project
+        project.id === projectId ? { ...project, status: 'ARCHIVED' as const } : project
       );
       setFilteredProjects(updatedFilteredProjects);
       // Show success message
@@ -0,0 +1,73 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Sparkles } from 'lucide-react';
+import type { DisputeAnalysisResponse } from '@/lib/api/aiService';
+import { formatMinor } from '@/lib/utils';
+
+interface AiAnalysisPanelProps {
+  analysis: DisputeAnalysisResponse | null;
+  loading: boolean;
+  error?: string | null;
+  currency?: string;
+  onAnalyze: () => void;
+  // Prefills the decision form with the recommendation
+  onUseRecommendation?: (analysis: DisputeAnalysisResponse) => void;
+}
+
+export function AiAnalysisPanel({ analysis, loading, error, currency = 'USD', onAnalyze, onUseRecommendation }: AiAnalysisPanelProps) {
+  const amount = (value: number) => formatMinor(value, currency);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5" />
+          AI Analysis
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {analysis ? (
+          <div className="space-y-3 text-sm">
+            <div className="flex items-center gap-2">
+              <span className="text-muted-foreground">Confidence</span>
+              <Badge variant="outline">{analysis.confidenceLevel}%</Badge>
+            </div>
+            <div>
+              <h4 className="font-medium mb-1">Key issues</h4>
+              <ul className="list-disc pl-5 space-y-1">
+                {analysis.keyIssues.map(issue => <li key={issue}>{issue}</li>)}
+              </ul>
+            </div>
+            <div>
+              <h4 className="font-medium mb-1">Recommendation</h4>
+              <p>
+                {analysis.recommendedResolution.decision.replace(/_/g, ' ')}:{' '}
+                {amount(analysis.recommendedResolution.amountToFreelancer)} to the freelancer,{' '}
+                {amount(analysis.recommendedResolution.amountToClient)} to the client
+              </p>
+              <p className="text-muted-foreground mt-1">{analysis.reasoning}</p>
+            </div>
+            {onUseRecommendation && (
+              <Button size="sm" variant="outline" onClick={() => onUseRecommendation(analysis)}>
+                Use as draft decision
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Summarise both parties&apos; evidence against the agreement and get a recommended split.
+            </p>
+            <Button size="sm" onClick={onAnalyze} disabled={loading}>
+              {loading ? 'Analysing...' : 'Run analysis'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
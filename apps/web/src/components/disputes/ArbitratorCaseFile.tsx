@@ -0,0 +1,163 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Dispute, DisputeCaseNote, Project } from '@/types';
+import { messagingService } from '@/lib/api/messagingService';
+import { disputeContextService } from '@/lib/api/disputeContextService';
+import { useAIStore } from '@/lib/store/aiStore';
+import { useDisputeStore } from '@/lib/store/disputeStore';
+import { Money } from '@/lib/money';
+import {
+  DecisionDraft,
+  assignmentOf,
+  conflictsOfInterest,
+  draftResolution,
+  toDisputeDecision,
+} from '@/lib/arbitratorWorkspace';
+import { DisputeViewContext, toDisputeView } from '@/lib/disputeWorkspace';
+import { ArbitratorCaseView } from '@/components/disputes/ArbitratorCaseView';
+
+interface ArbitratorCaseFileProps {
+  disputeId: string;
+  arbitratorId: string;
+}
+
+// Loads a case for the neutral and carries out their decisions
+export function ArbitratorCaseFile({ disputeId, arbitratorId }: ArbitratorCaseFileProps) {
+  const router = useRouter();
+  const { transitionDispute } = useDisputeStore();
+  const { disputeAnalysis, disputeAnalysisLoading, disputeAnalysisError, analyzeDispute, clearDisputeAnalysis } = useAIStore();
+  const [dispute, setDispute] = useState<Dispute | null>(null);
+  const [context, setContext] = useState<DisputeViewContext>({});
+  const [history, setHistory] = useState<Project[]>([]);
+  const [notes, setNotes] = useState<DisputeCaseNote[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const [loaded, caseNotes] = await Promise.all([
+        messagingService.getDisputeById(disputeId),
+        messagingService.getDisputeNotes(disputeId, arbitratorId),
+      ]);
+      // Amounts come from the disputed milestone and its payments; conflicts from
+      // everything the neutral and both parties have worked on
+      const caseContext = await disputeContextService.getDisputeContext([loaded], arbitratorId);
+      const parties = toDisputeView(loaded, caseContext);
+      setHistory(await disputeContextService.getProjectHistory([arbitratorId, parties.clientId, parties.freelancerId]));
+      setContext(caseContext);
+      setDispute(loaded);
+      setNotes(caseNotes);
+    } catch (err) {
+      console.error('Error loading case:', err);
+      setError('Failed to load the case');
+    }
+  }, [disputeId, arbitratorId]);
+
+  useEffect(() => {
+    clearDisputeAnalysis();
+    load();
+  }, [load, clearDisputeAnalysis]);
+
+  if (error) {
+    return <p className="text-red-500">{error}</p>;
+  }
+  if (!dispute) {
+    return <p className="text-muted-foreground">Loading case...</p>;
+  }
+
+  const view = toDisputeView(dispute, context);
+  const assignment = assignmentOf(dispute, arbitratorId);
+  const project = context.projects?.find(candidate => candidate.id === view.projectId);
+  const conflicts = conflictsOfInterest(
+    arbitratorId,
+    { id: view.projectId, title: view.projectName, clientId: view.clientId, freelancerId: view.freelancerId || project?.freelancerId || null },
+    history
+  );
+  const appeal = dispute.appeals?.[dispute.appeals.length - 1];
+  // On appeal the revised split divides the original award, otherwise the milestone
+  const disputedAmount = assignment === 'appeal_review' && appeal
+    ? appeal.originalResolution.amountToClient + appeal.originalResolution.amountToFreelancer
+    : view.milestoneAmount ?? 0;
+  const currency = view.currency || 'USD';
+
+  const run = async (label: string, action: () => Promise<Dispute>) => {
+    setBusy(true);
+    try {
+      setDispute(await action());
+    } catch (err) {
+      console.error(`Error trying to ${label}:`, err);
+      alert(`Failed to ${label}. ${err instanceof Error ? err.message : ''}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAnalyze = () => {
+    analyzeDispute({
+      projectAgreement: typeof dispute.project === 'object' ? dispute.project.description : view.projectName,
+      disputeDescription: view.description,
+      evidence: dispute.evidence,
+    }).catch(err => console.error('Error analysing dispute:', err));
+  };
+
+  const handleAddNote = async (body: string) => {
+    const note = await messagingService.addDisputeNote(disputeId, arbitratorId, body);
+    setNotes(current => [...current, note]);
+  };
+
+  const handleDecide = async (draft: DecisionDraft, aiRecommended: boolean) => {
+    const resolution = draftResolution(
+      disputeId,
+      draft,
+      { id: arbitratorId, role: assignment === 'mediation' ? 'mediator' : 'arbitrator' },
+      Money.fromMinor(disputedAmount, currency)
+    );
+    const decision = toDisputeDecision(resolution, aiRecommended);
+
+    if (assignment === 'appeal_review') {
+      const { decidedBy, decidedAt, ...revisedResolution } = decision;
+      return run('revise the decision', () => messagingService.reviewDisputeAppeal(disputeId, {
+        reviewerId: arbitratorId,
+        decision: 'APPROVED',
+        outcome: 'REVISE',
+        revisedResolution,
+        decisionReason: decision.decisionReason,
+      }));
+    }
+    if (assignment === 'mediation') {
+      return run('record the settlement', () => transitionDispute(disputeId, 'SETTLE', 'mediator', { resolution: decision }));
+    }
+    return run('issue the decision', () =>
+      transitionDispute(disputeId, 'DECIDE', 'arbitrator', { evidenceWindowClosed: true, resolution: decision })
+    );
+  };
+
+  const handleReviewAppeal = (outcome: 'UPHOLD' | 'REOPEN', reason: string) =>
+    run(outcome === 'UPHOLD' ? 'uphold the resolution' : 'reopen the case', () => messagingService.reviewDisputeAppeal(disputeId, {
+      reviewerId: arbitratorId,
+      decision: outcome === 'UPHOLD' ? 'REJECTED' : 'APPROVED',
+      outcome: outcome === 'REOPEN' ? 'REOPEN' : undefined,
+      decisionReason: reason,
+    }));
+
+  return (
+    <ArbitratorCaseView
+      dispute={view}
+      assignment={assignment}
+      conflicts={conflicts}
+      notes={notes}
+      disputedAmount={disputedAmount}
+      analysis={disputeAnalysis}
+      analysisLoading={disputeAnalysisLoading}
+      analysisError={disputeAnalysisError}
+      busy={busy}
+      onBack={() => router.push('/dashboard/arbitrator')}
+      onAnalyze={handleAnalyze}
+      onAddNote={handleAddNote}
+      onDecide={handleDecide}
+      onReviewAppeal={handleReviewAppeal}
+    />
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Gavel } from 'lucide-react';
+import { DisputeSlaBadge } from '@/components/disputes/DisputeSlaBadge';
+import { DisputeStatusBadge } from '@/components/disputes/DisputeStatusBadge';
+import { ARBITRATOR_ASSIGNMENT_LABELS, ArbitratorCase } from '@/lib/arbitratorWorkspace';
+import { DisputeViewContext, toDisputeView } from '@/lib/disputeWorkspace';
+
+interface ArbitratorCaseQueueProps {
+  cases: ArbitratorCase[];
+  context?: DisputeViewContext;
+}
+
+// The neutral's assigned cases, most urgent first
+export function ArbitratorCaseQueue({ cases, context }: ArbitratorCaseQueueProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gavel className="h-5 w-5" />
+          Case Queue
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {cases.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No cases are waiting for you.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-muted-foreground">
+              <tr>
+                <th className="text-left font-normal py-2">Case</th>
+                <th className="text-left font-normal py-2">Assignment</th>
+                <th className="text-left font-normal py-2">Status</th>
+                <th className="text-left font-normal py-2">SLA</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {cases.map(({ dispute, assignment }) => {
+                const view = toDisputeView(dispute, context);
+                return (
+                  <tr key={view.id} className="border-t">
+                    <td className="py-2">
+                      <div className="font-medium">{view.title}</div>
+                      <div className="text-muted-foreground">{view.projectName}</div>
+                    </td>
+                    <td className="py-2">
+                      <Badge variant="outline">{ARBITRATOR_ASSIGNMENT_LABELS[assignment]}</Badge>
+                    </td>
+                    <td className="py-2"><DisputeStatusBadge status={view.status} /></td>
+                    <td className="py-2"><DisputeSlaBadge dispute={dispute} /></td>
+                    <td className="py-2 text-right">
+                      <Button size="sm" variant="outline" asChild>
+                        <Link href={`/dashboard/arbitrator/cases/${view.id}`}>Open case</Link>
+                      </Button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
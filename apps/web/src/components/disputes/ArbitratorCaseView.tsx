@@ -0,0 +1,188 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertTriangle, ArrowLeft, FileText } from 'lucide-react';
+import { DisputeCaseNote } from '@/types';
+import type { DisputeAnalysisResponse } from '@/lib/api/aiService';
+import { Money } from '@/lib/money';
+import { formatMinor } from '@/lib/utils';
+import {
+  ARBITRATOR_ASSIGNMENT_LABELS,
+  ArbitratorAssignment,
+  ConflictOfInterest,
+  DecisionDraft,
+  draftFromAnalysis,
+} from '@/lib/arbitratorWorkspace';
+import { DisputeView, evidenceByParty } from '@/lib/disputeWorkspace';
+import { AiAnalysisPanel } from '@/components/disputes/AiAnalysisPanel';
+import { CaseNotesPanel } from '@/components/disputes/CaseNotesPanel';
+import { DecisionDraftForm } from '@/components/disputes/DecisionDraftForm';
+import { DisputeAppealPanel } from '@/components/disputes/DisputeAppealPanel';
+import { DisputeStatusBadge } from '@/components/disputes/DisputeStatusBadge';
+import { DisputeTimelinePanel } from '@/components/disputes/DisputeTimelinePanel';
+import { EvidenceColumn } from '@/components/disputes/DisputeEvidencePanel';
+import { EvidenceBundleList } from '@/components/disputes/EvidenceBundleList';
+
+export interface ArbitratorCaseViewProps {
+  dispute: DisputeView;
+  // Null when the case is not (or no longer) waiting on this neutral
+  assignment: ArbitratorAssignment | null;
+  conflicts: ConflictOfInterest[];
+  notes: DisputeCaseNote[];
+  // What the decision divides: the milestone, or the original award on appeal
+  disputedAmount: number;
+  analysis: DisputeAnalysisResponse | null;
+  analysisLoading?: boolean;
+  analysisError?: string | null;
+  busy?: boolean;
+  onBack: () => void;
+  onAnalyze: () => void;
+  onAddNote: (body: string) => Promise<void>;
+  onDecide: (draft: DecisionDraft, aiRecommended: boolean) => Promise<void>;
+  onReviewAppeal: (outcome: 'UPHOLD' | 'REOPEN', reason: string) => Promise<void>;
+}
+
+// One case as the assigned mediator or arbitrator works it
+export function ArbitratorCaseView({
+  dispute,
+  assignment,
+  conflicts,
+  notes,
+  disputedAmount,
+  analysis,
+  analysisLoading = false,
+  analysisError,
+  busy = false,
+  onBack,
+  onAnalyze,
+  onAddNote,
+  onDecide,
+  onReviewAppeal,
+}: ArbitratorCaseViewProps) {
+  const [aiDraft, setAiDraft] = useState<DecisionDraft | null>(null);
+  const [appealReason, setAppealReason] = useState('');
+  const currency = dispute.currency || 'USD';
+  const byParty = evidenceByParty(dispute);
+  const conflicted = conflicts.length > 0;
+
+  const applyRecommendation = (recommendation: DisputeAnalysisResponse) =>
+    setAiDraft(draftFromAnalysis(recommendation, Money.fromMinor(disputedAmount, currency)));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              {dispute.title}
+            </CardTitle>
+            <Button variant="outline" size="sm" onClick={onBack}>
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back to queue
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <DisputeStatusBadge status={dispute.status} />
+            {assignment && <Badge variant="outline">{ARBITRATOR_ASSIGNMENT_LABELS[assignment]}</Badge>}
+          </div>
+          <p>{dispute.description}</p>
+          <p className="text-muted-foreground">
+            {dispute.projectName}
+            {dispute.milestoneTitle && ` · ${dispute.milestoneTitle}`}
+            {dispute.milestoneAmount !== undefined && ` · ${formatMinor(dispute.milestoneAmount, currency)}`}
+          </p>
+        </CardContent>
+      </Card>
+
+      {conflicted && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Conflict of interest</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-5">
+              {conflicts.map(conflict => <li key={`${conflict.projectId}-${conflict.party}`}>{conflict.reason}</li>)}
+            </ul>
+            <p className="mt-2">You cannot decide this case. Ask an administrator to reassign it.</p>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Evidence
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <EvidenceColumn title="Client's Evidence" items={byParty.client} emptyText="No evidence submitted by the client" />
+            <EvidenceColumn title="Freelancer's Evidence" items={byParty.freelancer} emptyText="No evidence submitted by the freelancer" />
+          </div>
+          {byParty.other.length > 0 && <EvidenceColumn title="Other Evidence" items={byParty.other} emptyText="" />}
+          {dispute.evidenceBundles.length > 0 && <EvidenceBundleList bundles={dispute.evidenceBundles} />}
+        </CardContent>
+      </Card>
+
+      <AiAnalysisPanel
+        analysis={analysis}
+        loading={analysisLoading}
+        error={analysisError}
+        currency={currency}
+        onAnalyze={onAnalyze}
+        onUseRecommendation={assignment && !conflicted ? applyRecommendation : undefined}
+      />
+
+      <DisputeTimelinePanel events={dispute.timeline} />
+
+      {dispute.appeal && <DisputeAppealPanel dispute={dispute} canAppeal={false} onAppeal={async () => undefined} />}
+
+      <CaseNotesPanel notes={notes} onAdd={onAddNote} />
+
+      {assignment === 'appeal_review' && !conflicted && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Appeal Review</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Textarea
+              aria-label="Review reason"
+              placeholder="Reason for upholding or reopening..."
+              value={appealReason}
+              onChange={(e) => setAppealReason(e.target.value)}
+            />
+            <div className="flex gap-2">
+              <Button variant="outline" disabled={busy || !appealReason.trim()} onClick={() => onReviewAppeal('UPHOLD', appealReason)}>
+                Uphold resolution
+              </Button>
+              <Button variant="outline" disabled={busy || !appealReason.trim()} onClick={() => onReviewAppeal('REOPEN', appealReason)}>
+                Reopen in arbitration
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">Or revise the outcome below; the revised split must divide the original award.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {assignment && !conflicted && (
+        <DecisionDraftForm
+          key={aiDraft ? `ai-${aiDraft.freelancerAmount}-${aiDraft.clientAmount}` : 'manual'}
+          amount={disputedAmount}
+          currency={currency}
+          initialDraft={aiDraft || undefined}
+          title={assignment === 'appeal_review' ? 'Revised Decision' : assignment === 'mediation' ? 'Mediated Settlement' : 'Draft Decision'}
+          submitLabel={assignment === 'appeal_review' ? 'Apply Revised Decision' : assignment === 'mediation' ? 'Record Settlement' : 'Issue Decision'}
+          onSubmit={draft => onDecide(draft, !!aiDraft)}
+        />
+      )}
+    </div>
+  );
+}
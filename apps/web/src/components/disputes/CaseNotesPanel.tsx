@@ -0,0 +1,64 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Lock } from 'lucide-react';
+import { DisputeCaseNote } from '@/types';
+
+interface CaseNotesPanelProps {
+  notes: DisputeCaseNote[];
+  onAdd: (body: string) => Promise<void>;
+}
+
+// Working notes only the neutral sees
+export function CaseNotesPanel({ notes, onAdd }: CaseNotesPanelProps) {
+  const [body, setBody] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleAdd = async () => {
+    setSaving(true);
+    try {
+      await onAdd(body);
+      setBody('');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          Private Notes
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground">Notes are never shared with the parties.</p>
+        {notes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No notes yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {notes.map(note => (
+              <li key={note.id} className="p-3 border rounded-lg text-sm">
+                <p className="whitespace-pre-wrap">{note.body}</p>
+                <p className="text-xs text-muted-foreground mt-1">{new Date(note.createdAt).toLocaleString()}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+        <Textarea
+          aria-label="New note"
+          placeholder="Add a note to the case file..."
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+        />
+        <Button size="sm" onClick={handleAdd} disabled={saving || !body.trim()}>
+          Add Note
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DisputeCategory, DisputeView } from '@/lib/disputeWorkspace';
+
+export interface NewDisputeInput {
+  title: string;
+  description: string;
+  type: DisputeCategory;
+  projectId: string;
+  milestoneId: string;
+}
+
+interface CreateDisputeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Projects and milestones to offer, taken from the viewer's existing disputes
+  disputes: DisputeView[];
+  onCreate: (input: NewDisputeInput) => Promise<void>;
+}
+
+const EMPTY_DISPUTE: NewDisputeInput = { title: '', description: '', type: 'MILESTONE', projectId: '', milestoneId: '' };
+
+const unique = <T,>(items: T[], key: (item: T) => string) =>
+  items.filter((item, index) => items.findIndex(other => key(other) === key(item)) === index);
+
+export function CreateDisputeDialog({ open, onOpenChange, disputes, onCreate }: CreateDisputeDialogProps) {
+  const [form, setForm] = useState<NewDisputeInput>(EMPTY_DISPUTE);
+  const [error, setError] = useState<string | null>(null);
+
+  const projects = unique(disputes.filter(dispute => dispute.projectId), dispute => dispute.projectId);
+  const milestones = unique(
+    disputes.filter(dispute => dispute.projectId === form.projectId && dispute.milestoneId),
+    dispute => dispute.milestoneId as string
+  );
+
+  const update = (field: keyof NewDisputeInput, value: string) => setForm(prev => ({ ...prev, [field]: value }));
+
+  const handleCreate = async () => {
+    if (!form.title || !form.description || !form.projectId) {
+      setError('Please fill in all required fields');
+      return;
+    }
+    setError(null);
+    await onCreate(form);
+    setForm(EMPTY_DISPUTE);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Create New Dispute</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div>
+            <label className="text-sm font-medium mb-1 block">Project</label>
+            <select
+              value={form.projectId}
+              onChange={(e) => update('projectId', e.target.value)}
+              className="w-full border rounded-md px-3 py-2 bg-background"
+            >
+              <option value="">Select a project</option>
+              {projects.map(dispute => (
+                <option key={dispute.projectId} value={dispute.projectId}>{dispute.projectName}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-1 block">Milestone (Optional)</label>
+            <select
+              value={form.milestoneId}
+              onChange={(e) => update('milestoneId', e.target.value)}
+              className="w-full border rounded-md px-3 py-2 bg-background"
+            >
+              <option value="">Select a milestone (optional)</option>
+              {milestones.map(dispute => (
+                <option key={dispute.milestoneId} value={dispute.milestoneId}>{dispute.milestoneTitle}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-1 block">Dispute Type</label>
+            <select
+              value={form.type}
+              onChange={(e) => update('type', e.target.value)}
+              className="w-full border rounded-md px-3 py-2 bg-background"
+            >
+              <option value="MILESTONE">Milestone</option>
+              <option value="CONTRACT">Contract</option>
+              <option value="PAYMENT">Payment</option>
+              <option value="QUALITY">Quality</option>
+              <option value="TIMELINE">Timeline</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-1 block">Title</label>
+            <Input value={form.title} onChange={(e) => update('title', e.target.value)} placeholder="Dispute title" />
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-1 block">Description</label>
+            <Textarea
+              value={form.description}
+              onChange={(e) => update('description', e.target.value)}
+              placeholder="Describe the dispute"
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate}>
+            Create Dispute
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Gavel } from 'lucide-react';
+import { Money } from '@/lib/money';
+import {
+  DecisionDraft,
+  RESOLUTION_DECISION_LABELS,
+  ResolutionDecision,
+  validateDecisionDraft,
+} from '@/lib/arbitratorWorkspace';
+
+interface DecisionDraftFormProps {
+  // What the decision divides, in minor units
+  amount: number;
+  currency?: string;
+  initialDraft?: DecisionDraft;
+  title?: string;
+  submitLabel?: string;
+  onSubmit: (draft: DecisionDraft) => Promise<void>;
+}
+
+const EMPTY_DRAFT: DecisionDraft = {
+  decision: 'PARTIAL_SPLIT',
+  clientAmount: 0,
+  freelancerAmount: 0,
+  rationale: '',
+  decisionNotes: '',
+};
+
+const toMajor = (amount: number, currency: string) => Money.fromMinorOrZero(amount, currency).toDecimalString();
+
+// Amounts are typed in major units and checked against the disputed amount before submitting
+export function DecisionDraftForm({
+  amount,
+  currency = 'USD',
+  initialDraft = EMPTY_DRAFT,
+  title = 'Draft Decision',
+  submitLabel = 'Issue Decision',
+  onSubmit,
+}: DecisionDraftFormProps) {
+  const [decision, setDecision] = useState<ResolutionDecision>(initialDraft.decision);
+  const [clientAmount, setClientAmount] = useState(toMajor(initialDraft.clientAmount, currency));
+  const [freelancerAmount, setFreelancerAmount] = useState(toMajor(initialDraft.freelancerAmount, currency));
+  const [rationale, setRationale] = useState(initialDraft.rationale);
+  const [decisionNotes, setDecisionNotes] = useState(initialDraft.decisionNotes);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const disputed = Money.fromMinorOrZero(amount, currency);
+
+  const handleSubmit = async () => {
+    const toMinor = (value: string) => Money.fromMajor(value || '0', currency).amount;
+    const draft: DecisionDraft = {
+      decision,
+      clientAmount: toMinor(clientAmount),
+      freelancerAmount: toMinor(freelancerAmount),
+      rationale,
+      decisionNotes,
+    };
+    const problem = validateDecisionDraft(draft, disputed);
+    setError(problem);
+    if (problem) {
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await onSubmit(draft);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit the decision');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gavel className="h-5 w-5" />
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">Disputed amount: {disputed.format()}</p>
+        <div className="space-y-1">
+          <Label htmlFor="decision-outcome">Outcome</Label>
+          <select
+            id="decision-outcome"
+            value={decision}
+            onChange={(e) => setDecision(e.target.value as ResolutionDecision)}
+            className="w-full border rounded-md px-3 py-2 bg-background"
+          >
+            {(Object.keys(RESOLUTION_DECISION_LABELS) as ResolutionDecision[]).map(option => (
+              <option key={option} value={option}>{RESOLUTION_DECISION_LABELS[option]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="decision-freelancer-amount">To freelancer</Label>
+            <Input
+              id="decision-freelancer-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={freelancerAmount}
+              onChange={(e) => setFreelancerAmount(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="decision-client-amount">To client</Label>
+            <Input
+              id="decision-client-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={clientAmount}
+              onChange={(e) => setClientAmount(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="decision-rationale">Rationale</Label>
+          <Textarea
+            id="decision-rationale"
+            placeholder="Explain the decision to both parties..."
+            value={rationale}
+            onChange={(e) => setRationale(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="decision-notes">Decision notes</Label>
+          <Textarea
+            id="decision-notes"
+            placeholder="Conditions, follow-up or payout instructions..."
+            value={decisionNotes}
+            onChange={(e) => setDecisionNotes(e.target.value)}
+          />
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <Button onClick={handleSubmit} disabled={submitting}>
+          {submitLabel}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertTriangle } from 'lucide-react';
+import { formatMinor } from '@/lib/utils';
+import { DisputeView } from '@/lib/disputeWorkspace';
+
+interface DisputeAppealPanelProps {
+  dispute: DisputeView;
+  canAppeal: boolean;
+  onAppeal: (reason: string, files: File[]) => Promise<void>;
+}
+
+const APPEAL_STATUS_LABELS = {
+  PENDING_REVIEW: 'Under review',
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+};
+
+const APPEAL_OUTCOME_LABELS = {
+  UPHELD: 'Original resolution upheld',
+  REOPENED: 'Case reopened for arbitration',
+  REVISED: 'Resolution revised',
+};
+
+export function DisputeAppealPanel({ dispute, canAppeal, onAppeal }: DisputeAppealPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { appeal, appealWindow } = dispute;
+  const fee = appealWindow && formatMinor(appealWindow.fee, dispute.currency || 'USD');
+
+  const handleSubmit = async () => {
+    if (reason.trim().length < 10) {
+      setError('Please provide a reason for your appeal (at least 10 characters)');
+      return;
+    }
+    setError(null);
+    setSubmitting(true);
+    try {
+      await onAppeal(reason, files);
+      setReason('');
+      setFiles([]);
+      setOpen(false);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5" />
+          Appeal
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {appeal ? (
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <span className="text-muted-foreground">Submitted {appeal.submittedAt.toLocaleDateString()}</span>
+              <Badge variant={appeal.status === 'APPROVED' ? 'success' : appeal.status === 'REJECTED' ? 'destructive' : 'secondary'}>
+                {APPEAL_STATUS_LABELS[appeal.status]}
+              </Badge>
+            </div>
+            <p className="text-sm">{appeal.reason}</p>
+            {appeal.outcome && <p className="text-sm font-medium">{APPEAL_OUTCOME_LABELS[appeal.outcome]}</p>}
+            {appeal.decision && <p className="text-sm text-muted-foreground">Decision: {appeal.decision}</p>}
+            <table className="w-full text-sm">
+              <thead className="text-muted-foreground">
+                <tr>
+                  <th className="text-left font-normal py-1"></th>
+                  <th className="text-left font-normal py-1">Original</th>
+                  <th className="text-left font-normal py-1">After appeal</th>
+                </tr>
+              </thead>
+              <tbody>
+                {appeal.outcomes.map(row => (
+                  <tr key={row.label} className="border-t">
+                    <td className="py-1 text-muted-foreground">{row.label}</td>
+                    <td className="py-1">{row.original}</td>
+                    <td className={`py-1 ${row.changed ? 'font-medium text-blue-600' : ''}`}>{row.appealed || 'Pending review'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : dispute.status === 'ESCALATED' ? (
+          <p className="text-sm text-muted-foreground">The resolution has been appealed and is awaiting review.</p>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            You can submit an appeal if you disagree with the resolution.
+            Appeals must include new evidence or reasoning.
+          </p>
+        )}
+
+        {canAppeal && !appeal && appealWindow && (
+          <p className="text-sm text-muted-foreground">
+            Appeals close on {appealWindow.closesAt.toLocaleDateString()}. The appeal fee is {fee}.
+          </p>
+        )}
+
+        {canAppeal && !appeal && (
+          <Button variant="secondary" onClick={() => setOpen(true)}>
+            <AlertTriangle className="h-4 w-4 mr-2" />
+            Submit Appeal
+          </Button>
+        )}
+
+        <Dialog open={open} onOpenChange={setOpen}>
+          <DialogContent className="sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Submit Appeal</DialogTitle>
+            </DialogHeader>
+            <div className="py-4 space-y-4">
+              <Textarea
+                placeholder="Explain why you believe the resolution was incorrect..."
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className="w-full"
+              />
+              {fee && <p className="text-sm text-muted-foreground">Submitting charges the {fee} appeal fee.</p>}
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  type="file"
+                  multiple
+                  onChange={(e) => setFiles(e.target.files ? Array.from(e.target.files) : [])}
+                  className="flex-1"
+                />
+                <Button onClick={handleSubmit} disabled={submitting}>
+                  <AlertTriangle className="h-4 w-4 mr-2" />
+                  Submit Appeal
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { DisputeEvidenceBundle } from '@/types';
+import { DisputeAppealPanel } from '@/components/disputes/DisputeAppealPanel';
+import { DisputeDetailPanel } from '@/components/disputes/DisputeDetailPanel';
+import { DisputeEvidencePanel } from '@/components/disputes/DisputeEvidencePanel';
+import { DisputeFeePanel } from '@/components/disputes/DisputeFeePanel';
+import { DisputeResolutionPanel } from '@/components/disputes/DisputeResolutionPanel';
+import { DisputeSettlementPanel } from '@/components/disputes/DisputeSettlementPanel';
+import { DisputeTimelinePanel } from '@/components/disputes/DisputeTimelinePanel';
+import { DisputeAction } from '@/lib/disputeLifecycle';
+import { DisputeView, DisputeWorkspaceRole, disputeWorkspaceLayout } from '@/lib/disputeWorkspace';
+
+export interface DisputeCaseViewProps {
+  dispute: DisputeView;
+  role: DisputeWorkspaceRole;
+  busy?: boolean;
+  now?: Date;
+  onBack: () => void;
+  onTransition: (action: DisputeAction) => void;
+  onPayFee: () => Promise<void>;
+  onSubmitEvidence: (description: string, files: File[]) => Promise<void>;
+  onBundleSubmitted: (bundle: DisputeEvidenceBundle) => void;
+  onAppeal: (reason: string, files: File[]) => Promise<void>;
+  onRateMediator?: (rating: number) => void;
+}
+
+// One dispute as the given party sees it; the layout decides which panels show
+export function DisputeCaseView({
+  dispute,
+  role,
+  busy = false,
+  now,
+  onBack,
+  onTransition,
+  onPayFee,
+  onSubmitEvidence,
+  onBundleSubmitted,
+  onAppeal,
+  onRateMediator,
+}: DisputeCaseViewProps) {
+  const { panels, actions } = disputeWorkspaceLayout(dispute, role, now);
+
+  return (
+    <div className="space-y-6">
+      {panels.map(panel => {
+        switch (panel) {
+          case 'detail':
+            return (
+              <DisputeDetailPanel
+                key={panel}
+                dispute={dispute}
+                actions={actions.detail}
+                busy={busy}
+                onTransition={onTransition}
+                onBack={onBack}
+              />
+            );
+          case 'fee':
+            return <DisputeFeePanel key={panel} dispute={dispute} role={role} canPay={actions.fee.length > 0} onPay={onPayFee} />;
+          case 'evidence':
+            return (
+              <DisputeEvidencePanel
+                key={panel}
+                dispute={dispute}
+                role={role}
+                canSubmit={actions.evidence.length > 0}
+                onSubmitEvidence={onSubmitEvidence}
+                onBundleSubmitted={onBundleSubmitted}
+              />
+            );
+          case 'timeline':
+            return <DisputeTimelinePanel key={panel} events={dispute.timeline} />;
+          case 'settlement':
+            return <DisputeSettlementPanel key={panel} dispute={dispute} />;
+          case 'resolution':
+            return <DisputeResolutionPanel key={panel} dispute={dispute} role={role} onRateMediator={onRateMediator} />;
+          case 'appeal':
+            return <DisputeAppealPanel key={panel} dispute={dispute} canAppeal={actions.appeal.length > 0} onAppeal={onAppeal} />;
+        }
+      })}
+    </div>
+  );
+}
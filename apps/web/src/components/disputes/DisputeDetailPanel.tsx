@@ -0,0 +1,138 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { MessageCircle, Star, User } from 'lucide-react';
+import { DisputeSlaBadge } from '@/components/disputes/DisputeSlaBadge';
+import { DisputeStatusBadge } from '@/components/disputes/DisputeStatusBadge';
+import { DisputeAction, DisputeTransition } from '@/lib/disputeLifecycle';
+import { DisputeView } from '@/lib/disputeWorkspace';
+
+interface DisputeDetailPanelProps {
+  dispute: DisputeView;
+  // Lifecycle actions that need no more input than a click
+  actions: DisputeTransition[];
+  busy?: boolean;
+  onTransition: (action: DisputeAction) => void;
+  onBack: () => void;
+}
+
+const ACTION_VARIANTS: Partial<Record<DisputeAction, 'default' | 'outline' | 'destructive'>> = {
+  WITHDRAW: 'destructive',
+  ESCALATE_TO_ARBITRATION: 'outline',
+};
+
+export function DisputeDetailPanel({ dispute, actions, busy = false, onTransition, onBack }: DisputeDetailPanelProps) {
+  const joinMediation = actions.find(transition => transition.action === 'JOIN_MEDIATION');
+  // Joining sits on the mediator card once a mediator is assigned
+  const otherActions = actions.filter(transition => !(dispute.mediatorAssigned && transition === joinMediation));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <CardTitle>{dispute.title}</CardTitle>
+            <DisputeStatusBadge status={dispute.status} />
+          </div>
+          <p className="text-muted-foreground mt-1">{dispute.description}</p>
+        </div>
+
+        <Button variant="outline" onClick={onBack}>
+          Back to List
+        </Button>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Dispute Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Project:</span>
+                <span>{dispute.projectName}</span>
+              </div>
+              {dispute.milestoneTitle && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Milestone:</span>
+                  <span>{dispute.milestoneTitle}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Type:</span>
+                <Badge variant="outline">{dispute.type}</Badge>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Submitted:</span>
+                <span>{dispute.submittedDate.toLocaleDateString()}</span>
+              </div>
+              {dispute.deadline && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Deadline:</span>
+                  <span className="flex items-center gap-2 text-amber-600 dark:text-amber-400">
+                    {dispute.deadline.toLocaleDateString()}
+                    <DisputeSlaBadge dispute={dispute} />
+                  </span>
+                </div>
+              )}
+              {dispute.resolutionDate && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Resolved:</span>
+                  <span>{dispute.resolutionDate.toLocaleDateString()}</span>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {dispute.mediatorAssigned && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Mediator</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center">
+                    <User className="h-5 w-5" />
+                  </div>
+                  <div>
+                    <div className="font-medium">{dispute.mediatorAssigned}</div>
+                    {dispute.mediatorRating && (
+                      <div className="flex items-center gap-1">
+                        <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+                        <span>{dispute.mediatorRating}/5</span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+                {joinMediation && (
+                  <Button className="w-full" disabled={busy} onClick={() => onTransition('JOIN_MEDIATION')}>
+                    <MessageCircle className="h-4 w-4 mr-2" />
+                    Join Mediation Session
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        {otherActions.length > 0 && (
+          <div className="flex flex-wrap gap-3">
+            {otherActions.map(transition => (
+              <Button
+                key={transition.action}
+                variant={ACTION_VARIANTS[transition.action] || 'default'}
+                disabled={busy}
+                onClick={() => onTransition(transition.action)}
+              >
+                {transition.label}
+              </Button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { FileText, Upload } from 'lucide-react';
+import { DisputeEvidenceBundle } from '@/types';
+import { EvidenceBundleList } from '@/components/disputes/EvidenceBundleList';
+import { EvidenceBundlePicker } from '@/components/disputes/EvidenceBundlePicker';
+import { DisputeEvidenceItem, DisputeView, DisputeWorkspaceRole, evidenceByParty } from '@/lib/disputeWorkspace';
+
+interface DisputeEvidencePanelProps {
+  dispute: DisputeView;
+  role: DisputeWorkspaceRole;
+  // False once the evidence window has closed for this phase
+  canSubmit: boolean;
+  onSubmitEvidence: (description: string, files: File[]) => Promise<void>;
+  onBundleSubmitted: (bundle: DisputeEvidenceBundle) => void;
+}
+
+const PARTY_LABELS: Record<DisputeWorkspaceRole, string> = { client: 'Client', freelancer: 'Freelancer' };
+
+export function EvidenceColumn({ title, items, emptyText }: { title: string; items: DisputeEvidenceItem[]; emptyText: string }) {
+  return (
+    <div>
+      <h4 className="font-medium mb-2">{title}</h4>
+      <div className="p-3 border rounded-lg space-y-2">
+        {items.length > 0 ? items.map((item, index) => (
+          <div key={`${item.filename}-${index}`} className="flex justify-between items-center">
+            <span className="text-sm truncate">{item.filename}</span>
+            {item.url && (
+              <Button size="sm" variant="outline" asChild>
+                <a href={item.url} target="_blank" rel="noopener noreferrer">
+                  <FileText className="h-4 w-4 mr-1" />
+                  View
+                </a>
+              </Button>
+            )}
+          </div>
+        )) : (
+          <p className="text-sm text-muted-foreground">{emptyText}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function DisputeEvidencePanel({ dispute, role, canSubmit, onSubmitEvidence, onBundleSubmitted }: DisputeEvidencePanelProps) {
+  const [description, setDescription] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const byParty = evidenceByParty(dispute);
+  const counterparty: DisputeWorkspaceRole = role === 'client' ? 'freelancer' : 'client';
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      await onSubmitEvidence(description, files);
+      setDescription('');
+      setFiles([]);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Evidence
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <EvidenceColumn title="Your Evidence" items={byParty[role]} emptyText="You have not submitted any evidence" />
+          <EvidenceColumn
+            title={`${PARTY_LABELS[counterparty]}'s Evidence`}
+            items={byParty[counterparty]}
+            emptyText={`No evidence submitted by the ${counterparty}`}
+          />
+        </div>
+
+        {byParty.other.length > 0 && (
+          <EvidenceColumn title="Other Evidence" items={byParty.other} emptyText="" />
+        )}
+
+        {dispute.evidenceBundles.length > 0 && (
+          <div>
+            <h4 className="font-medium mb-2">Evidence Bundles</h4>
+            <EvidenceBundleList bundles={dispute.evidenceBundles} projectId={dispute.projectId} />
+          </div>
+        )}
+
+        {canSubmit && dispute.projectId && (
+          <div>
+            <h4 className="font-medium mb-2">Package Project Records</h4>
+            <p className="text-sm text-muted-foreground mb-2">
+              Select messages, deliverables, activity and change proposals to submit as one indexed bundle.
+            </p>
+            <EvidenceBundlePicker
+              disputeId={dispute.id}
+              projectId={dispute.projectId}
+              actor={role}
+              onSubmitted={onBundleSubmitted}
+            />
+          </div>
+        )}
+
+        {canSubmit && (
+          <div>
+            <h4 className="font-medium mb-2">Submit Your Evidence</h4>
+            <div className="space-y-2">
+              <Textarea
+                placeholder="Describe your evidence or concerns..."
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="w-full"
+              />
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  type="file"
+                  multiple
+                  onChange={(e) => setFiles(e.target.files ? Array.from(e.target.files) : [])}
+                  className="flex-1"
+                />
+                <Button onClick={handleSubmit} disabled={submitting || (!description.trim() && files.length === 0)}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Submit Evidence
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DollarSign } from 'lucide-react';
+import { DisputeView, DisputeWorkspaceRole } from '@/lib/disputeWorkspace';
+
+interface DisputeFeePanelProps {
+  dispute: DisputeView;
+  role: DisputeWorkspaceRole;
+  canPay: boolean;
+  onPay: () => Promise<void>;
+}
+
+const dollars = (amount = 0) => `$${(amount / 100).toFixed(2)}`;
+
+export function DisputeFeePanel({ dispute, role, canPay, onPay }: DisputeFeePanelProps) {
+  const [open, setOpen] = useState(false);
+  const [paying, setPaying] = useState(false);
+  const fee = dispute.disputeFee;
+
+  const parties: { role: DisputeWorkspaceRole; label: string; amount?: number; paid?: boolean }[] = [
+    { role: 'client', label: 'Client', amount: fee?.clientFee, paid: fee?.clientFeePaid },
+    { role: 'freelancer', label: 'Freelancer', amount: fee?.freelancerFee, paid: fee?.freelancerFeePaid },
+  ];
+  const ownShare = role === 'client' ? fee?.clientFee : fee?.freelancerFee;
+
+  const handlePay = async () => {
+    setPaying(true);
+    try {
+      await onPay();
+      setOpen(false);
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DollarSign className="h-5 w-5" />
+          Dispute Fee
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {fee ? (
+          <>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Total fee:</span>
+              <span className="font-medium">{dollars(fee.totalAmount)}</span>
+            </div>
+            {parties.map(party => (
+              <div key={party.role} className="flex justify-between items-center">
+                <span className="text-muted-foreground">{party.role === role ? 'Your portion' : `${party.label}'s portion`}:</span>
+                <span className="flex items-center gap-2">
+                  {dollars(party.amount)}
+                  <Badge variant={party.paid ? 'success' : 'outline'}>{party.paid ? 'Paid' : 'Unpaid'}</Badge>
+                </span>
+              </div>
+            ))}
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            The dispute is on hold until the dispute fee is paid.
+          </p>
+        )}
+
+        {canPay && (
+          <Button onClick={() => setOpen(true)}>
+            <DollarSign className="h-4 w-4 mr-2" />
+            Pay Dispute Fee{ownShare !== undefined && ` - ${dollars(ownShare)}`}
+          </Button>
+        )}
+
+        <Dialog open={open} onOpenChange={setOpen}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Pay Dispute Fee</DialogTitle>
+            </DialogHeader>
+            <div className="py-4 space-y-4">
+              <p>
+                This dispute requires a fee{fee && ` of ${dollars(fee.totalAmount)}`} to proceed.
+                Both client and freelancer must pay their portion.
+              </p>
+              <div className="flex justify-between">
+                <span>Your portion:</span>
+                <span className="font-medium">{dollars(ownShare)}</span>
+              </div>
+              <Button onClick={handlePay} disabled={paying} className="w-full">
+                <DollarSign className="h-4 w-4 mr-2" />
+                Pay Fee
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,314 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Activity,
+  AlertTriangle,
+  Calendar,
+  CheckCircle,
+  ChevronRight,
+  DollarSign,
+  Eye,
+  FileText,
+  Search,
+  TrendingUp,
+  Users,
+} from 'lucide-react';
+import { ViewToggle } from '@/components/common/ViewToggle';
+import { DisputeSlaBadge } from '@/components/disputes/DisputeSlaBadge';
+import { DisputeStatusBadge } from '@/components/disputes/DisputeStatusBadge';
+import { DisputeStatus } from '@/lib/disputeLifecycle';
+import { DISPUTE_STATUS_LABELS, DisputeView, disputeCounts } from '@/lib/disputeWorkspace';
+
+interface DisputeListPanelProps {
+  disputes: DisputeView[];
+  // Before filtering; the stats cover every dispute the viewer is part of
+  allDisputes: DisputeView[];
+  searchTerm: string;
+  statusFilter: DisputeStatus | 'all';
+  currentView: 'grid' | 'list';
+  onSearchChange: (term: string) => void;
+  onStatusChange: (status: DisputeStatus | 'all') => void;
+  onToggleView: (view: 'grid' | 'list') => void;
+  onSelect: (dispute: DisputeView) => void;
+  // Omit for roles that cannot open disputes
+  onCreate?: () => void;
+}
+
+const STATUS_COLORS: Record<DisputeStatus, string> = {
+  PENDING_FEE: 'bg-red-500',
+  PENDING_REVIEW: 'bg-blue-500',
+  SELF_RESOLUTION: 'bg-gray-500',
+  IN_MEDIATION: 'bg-yellow-500',
+  IN_ARBITRATION: 'bg-orange-500',
+  AWAITING_OUTCOME: 'bg-purple-500',
+  RESOLVED: 'bg-green-500',
+  ESCALATED: 'bg-orange-700',
+};
+
+const daysAgo = (date: Date) => Math.floor((Date.now() - date.getTime()) / (1000 * 60 * 60 * 24));
+
+export function DisputeListPanel({
+  disputes,
+  allDisputes,
+  searchTerm,
+  statusFilter,
+  currentView,
+  onSearchChange,
+  onStatusChange,
+  onToggleView,
+  onSelect,
+  onCreate,
+}: DisputeListPanelProps) {
+  const counts = disputeCounts(allDisputes);
+
+  const emptyState = (
+    <div className="col-span-full text-center py-8">
+      <AlertTriangle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+      <h3 className="text-lg font-medium mb-2">No disputes found</h3>
+      <p className="text-muted-foreground">
+        {searchTerm || statusFilter !== 'all'
+          ? 'Try adjusting your search or filter to find what you\'re looking for.'
+          : 'You don\'t have any active disputes at the moment.'}
+      </p>
+    </div>
+  );
+
+  return (
+    <>
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Open Disputes</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{counts.open}</div>
+            <p className="text-xs text-muted-foreground">Currently active</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Resolved</CardTitle>
+            <CheckCircle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{counts.resolved}</div>
+            <p className="text-xs text-muted-foreground">Successfully resolved</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Pending Mediation</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{counts.inMediation}</div>
+            <p className="text-xs text-muted-foreground">In mediation process</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Dispute Dashboard */}
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5" />
+            Dispute Dashboard
+          </CardTitle>
+
+          <div className="flex flex-wrap gap-2 w-full sm:w-auto">
+            <div className="relative flex-1 min-w-[200px]">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search disputes..."
+                value={searchTerm}
+                onChange={(e) => onSearchChange(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+
+            <select
+              aria-label="Filter by status"
+              value={statusFilter}
+              onChange={(e) => onStatusChange(e.target.value as DisputeStatus | 'all')}
+              className="border rounded-md px-3 py-2 bg-background"
+            >
+              <option value="all">All Status</option>
+              {(Object.keys(DISPUTE_STATUS_LABELS) as DisputeStatus[]).map(status => (
+                <option key={status} value={status}>{DISPUTE_STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+
+            <ViewToggle currentView={currentView} onToggle={onToggleView} />
+
+            {onCreate && (
+              <Button onClick={onCreate}>
+                <AlertTriangle className="h-4 w-4 mr-2" />
+                Create Dispute
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          {currentView === 'grid' ? (
+            <div className="grid grid-cols-1 gap-6">
+              {disputes.length > 0 ? disputes.map(dispute => (
+                <Card
+                  key={dispute.id}
+                  className="hover:shadow-md transition-shadow cursor-pointer"
+                  onClick={() => onSelect(dispute)}
+                >
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center gap-2">
+                      <CardTitle className="text-lg">{dispute.title}</CardTitle>
+                      <DisputeStatusBadge status={dispute.status} />
+                      <DisputeSlaBadge dispute={dispute} />
+                    </div>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {dispute.projectName}
+                      {dispute.milestoneTitle && `: ${dispute.milestoneTitle}`}
+                    </p>
+                  </CardHeader>
+
+                  <CardContent className="space-y-4">
+                    <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                      <div className="flex items-center gap-2">
+                        <FileText className="h-4 w-4" />
+                        <span className="capitalize">{dispute.type.toLowerCase()}</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Calendar className="h-4 w-4" />
+                        <span>{dispute.submittedDate.toLocaleDateString()}</span>
+                      </div>
+                      {dispute.disputeFee && (
+                        <div className="flex items-center gap-2">
+                          <DollarSign className="h-4 w-4" />
+                          <span>
+                            Fee: ${(dispute.disputeFee.totalAmount / 100).toFixed(2)}
+                            {dispute.status === 'PENDING_FEE' && ' (Pending)'}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+
+                    <p className="text-sm text-muted-foreground line-clamp-2">{dispute.description}</p>
+
+                    {dispute.status === 'IN_MEDIATION' && dispute.mediatorAssigned && (
+                      <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                        <p className="text-sm font-medium mb-1">Mediator</p>
+                        <p className="text-sm text-muted-foreground">{dispute.mediatorAssigned}</p>
+                      </div>
+                    )}
+
+                    {dispute.status === 'RESOLVED' && dispute.arbitratorDecision && (
+                      <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+                        <p className="text-sm font-medium mb-1">Resolution</p>
+                        <p className="text-sm text-muted-foreground">{dispute.arbitratorDecision}</p>
+                      </div>
+                    )}
+
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onSelect(dispute);
+                      }}
+                    >
+                      <Eye className="h-4 w-4 mr-1" />
+                      View Details
+                    </Button>
+                  </CardContent>
+                </Card>
+              )) : emptyState}
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {disputes.length > 0 ? disputes.map(dispute => (
+                <Card
+                  key={dispute.id}
+                  className="border border-border hover:shadow-lg transition-all duration-300 overflow-hidden group hover:-translate-y-0.5 cursor-pointer"
+                  onClick={() => onSelect(dispute)}
+                >
+                  <div className="flex">
+                    <div className={`w-1 ${STATUS_COLORS[dispute.status]}`}></div>
+                    <div className="flex-1 p-5">
+                      <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-4">
+                        <div className="flex-1 min-w-0">
+                          <div className="flex flex-wrap items-center gap-2 mb-1">
+                            <CardTitle className="text-lg font-bold truncate max-w-[300px] group-hover:text-primary transition-colors">
+                              {dispute.title}
+                            </CardTitle>
+                            <DisputeStatusBadge status={dispute.status} />
+                          </div>
+
+                          <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground mb-3">
+                            <div className="flex items-center gap-1">
+                              <FileText className="h-4 w-4" />
+                              <span className="truncate max-w-[200px]">
+                                {dispute.projectName}
+                                {dispute.milestoneTitle && `: ${dispute.milestoneTitle}`}
+                              </span>
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <TrendingUp className="h-4 w-4" />
+                              <span className="font-medium">{dispute.type}</span>
+                            </div>
+                          </div>
+
+                          <p className="text-base text-foreground mb-4">
+                            {dispute.description.length > 150
+                              ? `${dispute.description.substring(0, 150)}...`
+                              : dispute.description || 'No description provided'}
+                          </p>
+
+                          <div className="border-t pt-4 flex flex-wrap items-center justify-between gap-4 text-xs text-muted-foreground">
+                            <div className="flex flex-wrap gap-4">
+                              <div className="flex items-center gap-1">
+                                <Calendar className="h-3 w-3" />
+                                <span>Created: {dispute.submittedDate.toLocaleDateString()}</span>
+                              </div>
+                              {dispute.resolutionDate && (
+                                <div className="flex items-center gap-1">
+                                  <CheckCircle className="h-3 w-3" />
+                                  <span>Resolved: {dispute.resolutionDate.toLocaleDateString()}</span>
+                                </div>
+                              )}
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <Activity className="h-3 w-3" />
+                              <span>{DISPUTE_STATUS_LABELS[dispute.status]}</span>
+                            </div>
+                            <DisputeSlaBadge dispute={dispute} />
+                          </div>
+                        </div>
+
+                        <div className="flex flex-col items-end gap-3 min-w-[180px]">
+                          <div className="text-right">
+                            <div className="text-xl font-bold text-foreground">{dispute.milestoneTitle || 'Dispute'}</div>
+                            <div className="text-xs text-muted-foreground">
+                              Submitted {daysAgo(dispute.submittedDate)} days ago
+                            </div>
+                          </div>
+                          <Button variant="outline" size="sm" className="w-full flex items-center justify-between">
+                            <span>View Details</span>
+                            <ChevronRight className="h-4 w-4 ml-1 transition-transform group-hover:translate-x-0.5" />
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                </Card>
+              )) : emptyState}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
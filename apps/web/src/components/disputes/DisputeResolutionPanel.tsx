@@ -0,0 +1,48 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CheckCircle, Star } from 'lucide-react';
+import { DisputeView, DisputeWorkspaceRole } from '@/lib/disputeWorkspace';
+
+interface DisputeResolutionPanelProps {
+  dispute: DisputeView;
+  role: DisputeWorkspaceRole;
+  onRateMediator?: (rating: number) => void;
+}
+
+export function DisputeResolutionPanel({ dispute, role, onRateMediator }: DisputeResolutionPanelProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CheckCircle className="h-5 w-5" />
+          Arbitrator Decision
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
+          <p className="font-medium text-green-800 dark:text-green-200">{dispute.arbitratorDecision}</p>
+        </div>
+
+        {/* Clients rate the neutral who handled their case */}
+        {role === 'client' && onRateMediator && dispute.mediatorRating === undefined && (
+          <div className="mt-4">
+            <h4 className="font-medium mb-2">Rate Mediator/Arbitrator</h4>
+            <div className="flex gap-1">
+              {[1, 2, 3, 4, 5].map(star => (
+                <button
+                  key={`star-${star}`}
+                  aria-label={`Rate ${star} out of 5`}
+                  onClick={() => onRateMediator(star)}
+                  className="text-gray-300 hover:text-yellow-400 focus:outline-none"
+                >
+                  <Star className="h-6 w-6" />
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
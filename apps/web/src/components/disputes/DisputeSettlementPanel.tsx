@@ -0,0 +1,41 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { DollarSign } from 'lucide-react';
+import { SettlementCalculator } from '@/components/disputes/SettlementCalculator';
+import { DisputeView } from '@/lib/disputeWorkspace';
+
+// Settlement preview while the dispute is open, the decided split once resolved
+export function DisputeSettlementPanel({ dispute }: { dispute: DisputeView }) {
+  if (dispute.milestoneAmount === undefined) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DollarSign className="h-5 w-5" />
+          {dispute.resolutionSplit ? 'Settlement' : 'Settlement Preview'}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!dispute.resolutionSplit && (
+          <p className="text-sm text-muted-foreground mb-4">
+            See what each side would receive for a given split, after platform and dispute fees.
+          </p>
+        )}
+        <SettlementCalculator
+          key={dispute.id}
+          milestoneAmount={dispute.milestoneAmount}
+          currency={dispute.currency}
+          releasedAmount={Math.min(dispute.releasedAmount || 0, dispute.milestoneAmount)}
+          disputeFee={dispute.disputeFee}
+          proposal={dispute.resolutionSplit}
+          recommendation={dispute.recommendedSplit}
+          readOnly={!!dispute.resolutionSplit}
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { AlarmClock } from 'lucide-react';
+import { DisputeLifecycleState } from '@/lib/disputeLifecycle';
+import {
+  DEFAULT_DISPUTE_SLA,
+  DISPUTE_SLA_PHASE_LABELS,
+  DisputeSlaLevel,
+  DisputeSlaPolicy,
+  disputeSla,
+  formatSlaRemaining,
+} from '@/lib/disputeSla';
+
+interface DisputeSlaBadgeProps {
+  dispute: DisputeLifecycleState;
+  policy?: DisputeSlaPolicy;
+  className?: string;
+}
+
+const LEVEL_STYLES: Record<DisputeSlaLevel, string> = {
+  on_track: 'text-green-600 border-green-600',
+  at_risk: 'text-yellow-700 border-yellow-500',
+  breached: 'text-destructive border-destructive',
+};
+
+// Countdown to the end of the current phase's SLA; ticks once a minute
+export function DisputeSlaBadge({ dispute, policy = DEFAULT_DISPUTE_SLA, className = '' }: DisputeSlaBadgeProps) {
+  const [now, setNow] = useState(() => new Date());
+  const sla = disputeSla(dispute, policy, now);
+
+  useEffect(() => {
+    if (!sla) {
+      return;
+    }
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, [sla?.deadline.getTime()]);
+
+  if (!sla) {
+    return null;
+  }
+
+  return (
+    <Badge
+      variant="outline"
+      className={`text-xs flex items-center gap-1 w-fit ${LEVEL_STYLES[sla.level]} ${className}`}
+      title={`${DISPUTE_SLA_PHASE_LABELS[sla.phase]} due ${sla.deadline.toLocaleString()}`}
+    >
+      <AlarmClock className="h-3 w-3" />
+      {formatSlaRemaining(sla)}
+    </Badge>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, CheckCircle, Clock, DollarSign, Search, Shield, User, Users } from 'lucide-react';
+import { DisputeStatus } from '@/lib/disputeLifecycle';
+import { DISPUTE_STATUS_LABELS } from '@/lib/disputeWorkspace';
+
+type BadgeVariant = 'default' | 'secondary' | 'destructive' | 'outline' | 'success';
+
+const STATUS_STYLES: Record<DisputeStatus, { variant: BadgeVariant; icon: typeof Clock }> = {
+  PENDING_FEE: { variant: 'destructive', icon: DollarSign },
+  PENDING_REVIEW: { variant: 'secondary', icon: Search },
+  SELF_RESOLUTION: { variant: 'secondary', icon: User },
+  IN_MEDIATION: { variant: 'outline', icon: Users },
+  IN_ARBITRATION: { variant: 'default', icon: Shield },
+  AWAITING_OUTCOME: { variant: 'secondary', icon: Clock },
+  RESOLVED: { variant: 'success', icon: CheckCircle },
+  ESCALATED: { variant: 'default', icon: AlertTriangle },
+};
+
+export function DisputeStatusBadge({ status }: { status: DisputeStatus }) {
+  const { variant, icon: Icon } = STATUS_STYLES[status];
+  return (
+    <Badge variant={variant}>
+      <Icon className="h-4 w-4" />
+      <span className="ml-1">{DISPUTE_STATUS_LABELS[status]}</span>
+    </Badge>
+  );
+}
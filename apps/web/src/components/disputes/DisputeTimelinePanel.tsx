@@ -0,0 +1,53 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Clock, FileText } from 'lucide-react';
+import { DisputeEvent } from '@/lib/disputeWorkspace';
+
+export function DisputeTimelinePanel({ events }: { events: DisputeEvent[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Dispute Timeline
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {events.length > 0 ? events.map(event => (
+            <div key={event.id} className="flex gap-4">
+              <div className="flex flex-col items-center">
+                <div className="w-2 h-2 rounded-full bg-primary mt-1.5"></div>
+                <div className="h-full w-px bg-muted ml-0.5"></div>
+              </div>
+              <div className="pb-4 flex-1">
+                <div className="flex justify-between">
+                  <div>
+                    <span className="font-medium capitalize">{event.actor.toLowerCase()}</span>
+                    <span className="text-muted-foreground ml-2">{event.action}</span>
+                  </div>
+                  <span className="text-sm text-muted-foreground">{event.timestamp.toLocaleDateString()}</span>
+                </div>
+                <p className="text-sm text-muted-foreground mt-1">{event.details}</p>
+                {event.evidenceUrl && (
+                  <Button size="sm" variant="outline" className="mt-2" asChild>
+                    <a href={event.evidenceUrl} target="_blank" rel="noopener noreferrer">
+                      <FileText className="h-4 w-4 mr-2" />
+                      View Evidence
+                    </a>
+                  </Button>
+                )}
+              </div>
+            </div>
+          )) : (
+            <div className="text-center py-4 text-muted-foreground">
+              No timeline events available for this dispute.
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useAuthStore } from '@/lib/store/authStore';
+import { useDisputeStore } from '@/lib/store/disputeStore';
+import { messagingService } from '@/lib/api/messagingService';
+import { useDisputeContext } from '@/lib/api';
+import { Dispute, DisputeEvidenceBundle } from '@/types';
+import { useViewToggle } from '@/hooks/useViewToggle';
+import { CreateDisputeDialog, NewDisputeInput } from '@/components/disputes/CreateDisputeDialog';
+import { DisputeCaseView } from '@/components/disputes/DisputeCaseView';
+import { DisputeListPanel } from '@/components/disputes/DisputeListPanel';
+import { DisputeAction, DisputeStatus } from '@/lib/disputeLifecycle';
+import {
+  DISPUTE_WORKSPACE_ROLES,
+  DisputeView,
+  DisputeWorkspaceRole,
+  filterDisputeViews,
+  toDisputeView,
+} from '@/lib/disputeWorkspace';
+
+interface DisputeWorkspaceProps {
+  userType: DisputeWorkspaceRole;
+}
+
+// The dispute list and case view shared by the client and freelancer dashboards
+export function DisputeWorkspace({ userType }: DisputeWorkspaceProps) {
+  const { user } = useAuthStore();
+  const { disputes, loading, error, fetchDisputes, createDispute, transitionDispute } = useDisputeStore();
+  const [selected, setSelected] = useState<DisputeView | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<DisputeStatus | 'all'>('all');
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const { currentView, toggleView } = useViewToggle({
+    storageKey: `${userType}-disputes-view`
+  });
+  const roleConfig = DISPUTE_WORKSPACE_ROLES[userType];
+  // API users carry _id; the mock users only id
+  const userId = user?._id || (user as { id?: string } | null)?.id || '';
+
+  const disputeList = useMemo(() => (Array.isArray(disputes) ? disputes : []), [disputes]);
+  // Live mode loads the disputed projects' milestones and payments; fixtures only in mock mode
+  const { data: context } = useDisputeContext(disputeList, userId);
+  const toView = (dispute: Dispute) => toDisputeView(dispute, context);
+
+  useEffect(() => {
+    if (userId) {
+      fetchDisputes(userId).catch(err => console.error('Error fetching disputes:', err));
+    }
+  }, [userId, fetchDisputes]);
+
+  const views = useMemo(
+    () => disputeList.map(dispute => toDisputeView(dispute, context)),
+    [disputeList, context]
+  );
+  const filtered = filterDisputeViews(views, { search: searchTerm, status: statusFilter });
+
+  const handleSelect = async (dispute: DisputeView) => {
+    try {
+      setSelected(toView(await messagingService.getDisputeById(dispute.id)));
+    } catch (err) {
+      console.error('Error fetching dispute details:', err);
+      setSelected(dispute);
+    }
+  };
+
+  const handleCreate = async (input: NewDisputeInput) => {
+    try {
+      await createDispute(input.milestoneId, {
+        title: input.title,
+        description: input.description,
+        type: input.type,
+        projectId: input.projectId,
+        claimantId: userId,
+      });
+      setShowCreateModal(false);
+    } catch (err) {
+      console.error('Error creating dispute:', err);
+      alert('Failed to create dispute. Please try again.');
+    }
+  };
+
+  // Runs an action against the open dispute and shows the dispute it returns
+  const runAction = async (label: string, action: (dispute: DisputeView) => Promise<DisputeView>) => {
+    if (!selected) {
+      return;
+    }
+    setBusy(true);
+    try {
+      setSelected(await action(selected));
+    } catch (err) {
+      console.error(`Error trying to ${label}:`, err);
+      alert(`Failed to ${label}. Please try again.`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleTransition = (action: DisputeAction) =>
+    runAction(action.toLowerCase().replace(/_/g, ' '), async dispute =>
+      toView(await transitionDispute(dispute.id, action, userType))
+    );
+
+  const handlePayFee = () =>
+    runAction('pay the dispute fee', async dispute =>
+      toView(await transitionDispute(dispute.id, 'PAY_FEE', userType, { feePaid: true }))
+    );
+
+  const handleSubmitEvidence = (description: string, files: File[]) =>
+    runAction('submit evidence', async dispute => {
+      await messagingService.submitDisputeEvidence(dispute.id, { description, files });
+      return toView(await messagingService.getDisputeById(dispute.id));
+    });
+
+  const handleBundleSubmitted = (bundle: DisputeEvidenceBundle) => {
+    setSelected(current => current && { ...current, evidenceBundles: [...current.evidenceBundles, bundle] });
+  };
+
+  const handleAppeal = (reason: string, files: File[]) =>
+    runAction('submit the appeal', async dispute =>
+      toView(await messagingService.submitDisputeAppeal(dispute.id, { reason, evidence: files }, userType))
+    );
+
+  const handleRateMediator = (rating: number) => {
+    setSelected(current => current && { ...current, mediatorRating: rating });
+  };
+
+  if (loading && views.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-[calc(100vh-200px)]">
+        <p className="text-muted-foreground">Loading disputes...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="flex items-center justify-center py-4">
+          <p className="text-red-500">Error loading disputes: {error}</p>
+        </div>
+      )}
+
+      {selected ? (
+        <DisputeCaseView
+          dispute={selected}
+          role={userType}
+          busy={busy}
+          onBack={() => setSelected(null)}
+          onTransition={handleTransition}
+          onPayFee={handlePayFee}
+          onSubmitEvidence={handleSubmitEvidence}
+          onBundleSubmitted={handleBundleSubmitted}
+          onAppeal={handleAppeal}
+          onRateMediator={handleRateMediator}
+        />
+      ) : (
+        <DisputeListPanel
+          disputes={filtered}
+          allDisputes={views}
+          searchTerm={searchTerm}
+          statusFilter={statusFilter}
+          currentView={currentView}
+          onSearchChange={setSearchTerm}
+          onStatusChange={setStatusFilter}
+          onToggleView={toggleView}
+          onSelect={handleSelect}
+          onCreate={roleConfig.canCreate ? () => setShowCreateModal(true) : undefined}
+        />
+      )}
+
+      {roleConfig.canCreate && (
+        <CreateDisputeDialog
+          open={showCreateModal}
+          onOpenChange={setShowCreateModal}
+          disputes={views}
+          onCreate={handleCreate}
+        />
+      )}
+    </div>
+  );
+}
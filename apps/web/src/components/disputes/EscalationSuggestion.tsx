@@ -0,0 +1,72 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, BellRing } from 'lucide-react';
+import { DisputeAction, DisputeActor, DisputeLifecycleState } from '@/lib/disputeLifecycle';
+import {
+  DEFAULT_DISPUTE_SLA,
+  DisputeSlaPolicy,
+  disputeSla,
+  evaluateDisputeEscalation,
+  msUntilNextSlaLevel,
+} from '@/lib/disputeSla';
+
+interface EscalationSuggestionProps {
+  disputeId: string;
+  dispute: DisputeLifecycleState;
+  policy?: DisputeSlaPolicy;
+  disabled?: boolean;
+  // Omit to show the suggestion without letting the viewer apply it
+  onApply?: (action: DisputeAction, actor: DisputeActor) => void;
+}
+
+const TICK_MS = 60 * 1000;
+
+// Offers the transition a lapsing SLA calls for. Evaluated locally so a queue of
+// disputes costs no requests; re-checked each minute and right at the next level
+// change, and only applying the suggestion goes to the server
+export function EscalationSuggestion({
+  disputeId,
+  dispute,
+  policy = DEFAULT_DISPUTE_SLA,
+  disabled = false,
+  onApply,
+}: EscalationSuggestionProps) {
+  const [now, setNow] = useState(() => new Date());
+  const sla = disputeSla(dispute, policy, now);
+  const untilNextLevel = sla ? msUntilNextSlaLevel(sla, policy) : null;
+
+  useEffect(() => {
+    if (!sla) {
+      return;
+    }
+    const delay = untilNextLevel === null ? TICK_MS : Math.min(Math.max(untilNextLevel, 0), TICK_MS);
+    const timer = setTimeout(() => setNow(new Date()), delay);
+    return () => clearTimeout(timer);
+  }, [now, sla?.deadline.getTime(), untilNextLevel]);
+
+  const evaluation = evaluateDisputeEscalation(disputeId, dispute, policy, now);
+  if (!evaluation.level || evaluation.level === 'on_track') {
+    return null;
+  }
+
+  const Icon = evaluation.shouldEscalate ? AlertTriangle : BellRing;
+  return (
+    <div className={`flex items-center gap-2 text-xs ${evaluation.shouldEscalate ? 'text-destructive' : 'text-yellow-700'}`}>
+      <Icon className="h-3 w-3 shrink-0" />
+      <span>{evaluation.reason}</span>
+      {onApply && evaluation.suggestedAction && evaluation.suggestedActor && (
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-6 px-2 text-xs"
+          disabled={disabled}
+          onClick={() => onApply(evaluation.suggestedAction as DisputeAction, evaluation.suggestedActor as DisputeActor)}
+        >
+          {evaluation.suggestedLabel}
+        </Button>
+      )}
+    </div>
+  );
+}
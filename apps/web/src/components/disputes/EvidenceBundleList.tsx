@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { MessageSquare, Package, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { DisputeEvidenceBundle } from '@/types';
+import { EvidenceBundleVerification, verifyEvidenceBundle } from '@/lib/evidenceBundle';
+import { messageLink } from '@/lib/messageHistory';
+
+interface EvidenceBundleListProps {
+  bundles: DisputeEvidenceBundle[];
+  // When set, chat message items link back to the message in the project thread
+  projectId?: string;
+}
+
+// Submitted bundles with their generated index; hashes are re-checked on demand
+export function EvidenceBundleList({ bundles, projectId }: EvidenceBundleListProps) {
+  const [results, setResults] = useState<Record<string, EvidenceBundleVerification | string>>({});
+
+  const handleVerify = async (bundle: DisputeEvidenceBundle) => {
+    try {
+      const result = await verifyEvidenceBundle(bundle);
+      setResults(current => ({ ...current, [bundle.id]: result }));
+    } catch (err: any) {
+      setResults(current => ({ ...current, [bundle.id]: err.message || 'Could not verify bundle' }));
+    }
+  };
+
+  if (bundles.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      {bundles.map(bundle => {
+        const result = results[bundle.id];
+        const messageItems = projectId
+          ? bundle.items.filter(item => item.metadata?.source?.kind === 'message' && item.metadata.source.sourceId)
+          : [];
+        return (
+          <details key={bundle.id} className="border rounded-lg p-3">
+            <summary className="flex items-center justify-between gap-2 cursor-pointer">
+              <span className="flex items-center gap-2 text-sm font-medium">
+                <Package className="h-4 w-4" />
+                {bundle.description || bundle.id}
+              </span>
+              <span className="flex items-center gap-2">
+                <Badge variant="secondary" className="text-xs">{bundle.items.length} items</Badge>
+                <span className="text-xs text-muted-foreground">{new Date(bundle.createdAt).toLocaleString()}</span>
+              </span>
+            </summary>
+            <pre className="mt-3 text-xs whitespace-pre-wrap break-all">{bundle.index}</pre>
+            {projectId && messageItems.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {messageItems.map(item => (
+                  <li key={item.id}>
+                    <Link
+                      href={messageLink(projectId, item.metadata?.source.sourceId)}
+                      className="flex items-center gap-1 text-xs text-primary hover:underline"
+                    >
+                      <MessageSquare className="h-3 w-3" />
+                      {item.metadata?.ref}: open message in conversation
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="mt-2 flex items-center gap-2">
+              <Button size="sm" variant="outline" onClick={() => handleVerify(bundle)}>
+                Verify hashes
+              </Button>
+              {typeof result === 'string' && <span className="text-xs text-destructive">{result}</span>}
+              {result && typeof result !== 'string' && (result.valid ? (
+                <span className="flex items-center gap-1 text-xs text-green-600">
+                  <ShieldCheck className="h-4 w-4" />
+                  Unchanged since submission
+                </span>
+              ) : (
+                <span className="flex items-center gap-1 text-xs text-destructive">
+                  <ShieldAlert className="h-4 w-4" />
+                  {result.tampered.length > 0 ? `Modified items: ${result.tampered.join(', ')}` : 'Bundle header was modified'}
+                </span>
+              ))}
+            </div>
+          </details>
+        );
+      })}
+    </div>
+  );
+}
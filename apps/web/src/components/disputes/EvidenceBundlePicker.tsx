@@ -0,0 +1,192 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { FileText, MessageCircle, Activity, GitCompare, Package, Shield } from 'lucide-react';
+import { DisputeEvidenceBundle } from '@/types';
+import { useAuthStore } from '@/lib/store/authStore';
+import { useDisputeStore } from '@/lib/store/disputeStore';
+import { useMessagingStore } from '@/lib/store/messagingStore';
+import { useProjectStore } from '@/lib/store/projectStore';
+import {
+  EvidenceCandidate,
+  EvidenceSourceKind,
+  buildEvidenceBundle,
+  evidenceCandidates,
+} from '@/lib/evidenceBundle';
+
+interface EvidenceBundlePickerProps {
+  disputeId: string;
+  projectId: string;
+  actor: 'client' | 'freelancer';
+  onSubmitted?: (bundle: DisputeEvidenceBundle) => void;
+}
+
+const SOURCE_TABS: { kind: EvidenceSourceKind; label: string; icon: typeof FileText }[] = [
+  { kind: 'message', label: 'Messages', icon: MessageCircle },
+  { kind: 'deliverable', label: 'Deliverables', icon: FileText },
+  { kind: 'activity', label: 'Activity', icon: Activity },
+  { kind: 'change_proposal', label: 'Change proposals', icon: GitCompare },
+];
+
+// Lets a party pick messages, deliverables, activity and change proposals from the
+// project and submit them as one indexed, hash-stamped evidence bundle
+export function EvidenceBundlePicker({ disputeId, projectId, actor, onSubmitted }: EvidenceBundlePickerProps) {
+  const { user } = useAuthStore();
+  const { submitEvidenceBundle } = useDisputeStore();
+  const { messages, fetchMessages } = useMessagingStore();
+  const { milestones, activities, changeProposals, fetchMilestones, fetchActivities, fetchChangeProposals } = useProjectStore();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [description, setDescription] = useState('');
+  const [preview, setPreview] = useState<DisputeEvidenceBundle | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Each source loads on its own so one failing endpoint does not hide the rest
+    [fetchMessages, fetchMilestones, fetchActivities, fetchChangeProposals].forEach(load =>
+      load(projectId).catch(err => console.error('Error loading evidence sources:', err))
+    );
+  }, [projectId, fetchMessages, fetchMilestones, fetchActivities, fetchChangeProposals]);
+
+  const candidates = useMemo(() => {
+    const projectMilestones = milestones.filter(milestone => milestone.projectId === projectId);
+    return evidenceCandidates({
+      messages: messages[projectId] || [],
+      deliverables: projectMilestones.flatMap(milestone => milestone.deliverables || []),
+      activities: activities.filter(activity => activity.projectId === projectId),
+      changeProposals: changeProposals.filter(proposal => proposal.projectId === projectId),
+      milestoneTitles: Object.fromEntries(projectMilestones.map(milestone => [milestone.id, milestone.title])),
+    });
+  }, [messages, milestones, activities, changeProposals, projectId]);
+
+  const toggle = (key: string) => {
+    setPreview(null);
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handlePreview = async () => {
+    setError(null);
+    try {
+      setPreview(await buildEvidenceBundle({
+        disputeId,
+        submittedBy: user?._id || actor,
+        description,
+        items: candidates.filter(candidate => selected.has(candidate.key)),
+      }));
+    } catch (err: any) {
+      setError(err.message || 'Failed to build evidence bundle');
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!preview) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      await submitEvidenceBundle(disputeId, preview, actor);
+      onSubmitted?.(preview);
+      setSelected(new Set());
+      setDescription('');
+      setPreview(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to submit evidence bundle');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderCandidate = (candidate: EvidenceCandidate) => (
+    <label
+      key={candidate.key}
+      className="flex items-start gap-3 p-3 border rounded-lg cursor-pointer hover:bg-muted/50"
+    >
+      <Checkbox
+        checked={selected.has(candidate.key)}
+        onCheckedChange={() => toggle(candidate.key)}
+        className="mt-1"
+      />
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-medium truncate">{candidate.title}</span>
+          <span className="text-xs text-muted-foreground whitespace-nowrap">
+            {new Date(candidate.occurredAt).toLocaleString()}
+          </span>
+        </div>
+        <p className="text-sm text-muted-foreground line-clamp-2">{candidate.summary}</p>
+      </div>
+    </label>
+  );
+
+  return (
+    <div className="space-y-4">
+      <Tabs defaultValue="message">
+        <TabsList className="flex flex-wrap h-auto">
+          {SOURCE_TABS.map(({ kind, label, icon: Icon }) => (
+            <TabsTrigger key={kind} value={kind} className="flex items-center gap-1">
+              <Icon className="h-4 w-4" />
+              {label}
+              <Badge variant="secondary" className="ml-1 text-xs">
+                {candidates.filter(candidate => candidate.kind === kind && selected.has(candidate.key)).length}
+                /{candidates.filter(candidate => candidate.kind === kind).length}
+              </Badge>
+            </TabsTrigger>
+          ))}
+        </TabsList>
+        {SOURCE_TABS.map(({ kind, label }) => {
+          const items = candidates.filter(candidate => candidate.kind === kind);
+          return (
+            <TabsContent key={kind} value={kind} className="space-y-2 max-h-72 overflow-y-auto">
+              {items.length > 0 ? items.map(renderCandidate) : (
+                <p className="text-sm text-muted-foreground py-4 text-center">No {label.toLowerCase()} found for this project</p>
+              )}
+            </TabsContent>
+          );
+        })}
+      </Tabs>
+
+      <Textarea
+        placeholder="Explain what this evidence shows..."
+        value={description}
+        onChange={(e) => {
+          setDescription(e.target.value);
+          setPreview(null);
+        }}
+      />
+
+      {preview && (
+        <div className="p-3 border rounded-lg bg-muted/30 space-y-2">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Shield className="h-4 w-4" />
+            Bundle index
+          </div>
+          <pre className="text-xs whitespace-pre-wrap break-all">{preview.index}</pre>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={handlePreview} disabled={selected.size === 0}>
+          <Package className="h-4 w-4 mr-2" />
+          Build bundle ({selected.size})
+        </Button>
+        <Button onClick={handleSubmit} disabled={!preview || submitting}>
+          {submitting ? 'Submitting...' : 'Submit bundle'}
+        </Button>
+      </div>
+    </div>
+  );
+}
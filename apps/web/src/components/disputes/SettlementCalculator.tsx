@@ -0,0 +1,168 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Bot } from 'lucide-react';
+import { Money } from '@/lib/money';
+import { formatMinor } from '@/lib/utils';
+import {
+  PartySettlement,
+  SettlementSplit,
+  SplitAmounts,
+  calculateSettlement,
+  splitByPercentage,
+  splitFromAmounts,
+} from '@/lib/disputeSettlement';
+
+interface SettlementCalculatorProps {
+  milestoneAmount: number; // minor units
+  currency?: string;
+  releasedAmount?: number;
+  disputeFee?: {
+    clientFee: number;
+    freelancerFee: number;
+    clientFeePaid?: boolean;
+    freelancerFeePaid?: boolean;
+  };
+  // The split to start from, e.g. the decided resolution
+  proposal?: SplitAmounts;
+  recommendation?: SplitAmounts; // AI recommended split
+  readOnly?: boolean;
+  onSplitChange?: (split: SettlementSplit) => void;
+}
+
+const percentOf = (part: Money, total: Money) => (total.isZero() ? 50 : Math.round((part.amount / total.amount) * 100));
+
+// Itemised payout and refund preview for a proposed dispute split
+export function SettlementCalculator({
+  milestoneAmount,
+  currency = 'USD',
+  releasedAmount = 0,
+  disputeFee,
+  proposal,
+  recommendation,
+  readOnly = false,
+  onSplitChange,
+}: SettlementCalculatorProps) {
+  const total = Money.fromMinorOrZero(milestoneAmount, currency);
+  const [split, setSplit] = useState<SettlementSplit>(() =>
+    proposal ? splitFromAmounts(total, proposal) : splitByPercentage(total, 50)
+  );
+
+  const updateSplit = (next: SettlementSplit) => {
+    setSplit(next);
+    onSplitChange?.(next);
+  };
+
+  const result = useMemo(() => {
+    try {
+      return {
+        breakdown: calculateSettlement({
+          milestoneAmount: total,
+          releasedAmount: Money.fromMinor(releasedAmount, currency),
+          split,
+          disputeFee: disputeFee && {
+            clientFee: Money.fromMinor(disputeFee.clientFee, currency),
+            freelancerFee: Money.fromMinor(disputeFee.freelancerFee, currency),
+            clientFeePaid: disputeFee.clientFeePaid,
+            freelancerFeePaid: disputeFee.freelancerFeePaid,
+          },
+        }),
+        error: null,
+      };
+    } catch (err: any) {
+      return { breakdown: null, error: err.message as string };
+    }
+  }, [milestoneAmount, currency, releasedAmount, disputeFee, split]);
+
+  const freelancerPercent = percentOf(split.freelancerAmount, total);
+
+  const renderParty = (title: string, party: PartySettlement) => (
+    <div className="border rounded-lg p-3 space-y-2">
+      <div className="flex justify-between text-sm">
+        <span className="font-medium">{title}</span>
+        <span className="text-muted-foreground">Awarded {party.awarded.format()}</span>
+      </div>
+      {party.lines.length > 0 ? party.lines.map(entry => (
+        <div key={entry.label} className="flex justify-between text-sm">
+          <span className="text-muted-foreground">{entry.label}</span>
+          <span className={entry.amount.isNegative() ? 'text-destructive' : ''}>{entry.amount.format()}</span>
+        </div>
+      )) : (
+        <p className="text-sm text-muted-foreground">Nothing to pay out</p>
+      )}
+      <div className="flex justify-between text-sm font-medium border-t pt-2">
+        <span>{party.net.isNegative() ? 'Owes' : 'Receives'}</span>
+        <span>{(party.net.isNegative() ? party.net.negate() : party.net).format()}</span>
+      </div>
+      {party.disputeFeeForfeited.isPositive() && (
+        <p className="text-xs text-muted-foreground">
+          Dispute fee kept by the platform: {party.disputeFeeForfeited.format()}
+        </p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {!readOnly && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="settlement-split">
+              Freelancer {freelancerPercent}% / Client {100 - freelancerPercent}%
+            </Label>
+            {recommendation && (
+              <Button size="sm" variant="outline" onClick={() => updateSplit(splitFromAmounts(total, recommendation))}>
+                <Bot className="h-4 w-4 mr-2" />
+                Use AI recommendation
+              </Button>
+            )}
+          </div>
+          <Input
+            id="settlement-split"
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={freelancerPercent}
+            onChange={(e) => updateSplit(splitByPercentage(total, Number(e.target.value)))}
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2 text-sm">
+        <div>
+          <p className="text-muted-foreground">Milestone</p>
+          <p className="font-medium">{formatMinor(milestoneAmount, currency)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Already released</p>
+          <p className="font-medium">{formatMinor(releasedAmount, currency)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Held in escrow</p>
+          <p className="font-medium">{result.breakdown?.heldAmount.format() ?? '-'}</p>
+        </div>
+      </div>
+
+      {result.error && <p className="text-sm text-destructive">{result.error}</p>}
+
+      {result.breakdown && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {renderParty('Client', result.breakdown.client)}
+            {renderParty('Freelancer', result.breakdown.freelancer)}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Escrow releases {result.breakdown.escrow.releasedToFreelancer.format()} to the freelancer and
+            refunds {result.breakdown.escrow.refundedToClient.format()} to the client. Platform fees:
+            {' '}{result.breakdown.platform.platformFees.format()}, dispute fees retained:
+            {' '}{result.breakdown.platform.disputeFees.format()}.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Clock } from 'lucide-react';
+import {
+  DEFAULT_MILESTONE_RULES,
+  MilestoneRules,
+  WorkflowMilestone,
+  autoApprovalCountdown,
+  formatCountdown,
+} from '@/lib/milestoneWorkflow';
+
+interface AutoApprovalCountdownProps {
+  milestone: WorkflowMilestone;
+  rules?: MilestoneRules;
+  className?: string;
+}
+
+// Ticks once a minute while a submitted milestone waits for the client's review
+export function AutoApprovalCountdown({
+  milestone,
+  rules = DEFAULT_MILESTONE_RULES,
+  className = '',
+}: AutoApprovalCountdownProps) {
+  const [now, setNow] = useState(() => new Date());
+  const countdown = autoApprovalCountdown(milestone, rules, now);
+
+  useEffect(() => {
+    if (!countdown || countdown.expired) {
+      return;
+    }
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, [countdown?.expired, countdown?.deadline.getTime()]);
+
+  if (!countdown) {
+    return null;
+  }
+
+  return (
+    <Badge
+      variant="outline"
+      className={`text-xs flex items-center gap-1 ${countdown.expired ? 'text-green-600 border-green-600' : 'text-yellow-700 border-yellow-500'} ${className}`}
+      title={`Auto-approves on ${countdown.deadline.toLocaleString()}`}
+    >
+      <Clock className="h-3 w-3" />
+      {countdown.expired ? 'Auto-approving' : `Auto-approves in ${formatCountdown(countdown.remainingMs)}`}
+    </Badge>
+  );
+}
@@ -2,8 +2,10 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { formatCurrency, formatDate } from '@/lib/utils';
+import { formatMinor, formatDate } from '@/lib/utils';
 import { Milestone } from '@/types';
+import { AutoApprovalCountdown } from '@/components/milestones/AutoApprovalCountdown';
+import { DEFAULT_MILESTONE_RULES, MilestoneRules, canPerformMilestoneAction, revisionsRemaining } from '@/lib/milestoneWorkflow';
 import { 
   CalendarIcon, 
   CheckCircleIcon, 
@@ -24,6 +26,7 @@ interface MilestoneCardProps {
   onView?: (milestoneId: string) => void;
   isClient?: boolean; // Whether the current user is a client
   isFreelancer?: boolean; // Whether the current user is a freelancer
+  rules?: MilestoneRules; // The project's revision limit and auto-approval period
 }
 
 export default function MilestoneCard({
@@ -35,7 +38,10 @@ export default function MilestoneCard({
   onView,
   isClient = false,
   isFreelancer = false,
+  rules = DEFAULT_MILESTONE_RULES,
 }: MilestoneCardProps) {
+  const revisionsLeft = revisionsRemaining(milestone, rules);
+
   // Determine status badge variant based on milestone status
   const getStatusVariant = () => {
     switch (milestone.status) {
@@ -92,9 +98,12 @@ export default function MilestoneCard({
               Due: {format(milestone.deadline, 'MMM d, yyyy')}
             </CardDescription>
           </div>
-          <Badge variant={getStatusVariant()}>
-            {formatStatus(milestone.status)}
-          </Badge>
+          <div className="flex flex-col items-end gap-1">
+            <Badge variant={getStatusVariant()}>
+              {formatStatus(milestone.status)}
+            </Badge>
+            <AutoApprovalCountdown milestone={milestone} rules={rules} />
+          </div>
         </div>
       </CardHeader>
       
@@ -106,7 +115,7 @@ export default function MilestoneCard({
         <div className="flex items-center gap-4 text-sm text-muted-foreground mb-3">
           <div className="flex items-center gap-1">
             <FileTextIcon className="h-4 w-4" />
-            <span>{formatCurrency(milestone.amount)}</span>
+            <span>{formatMinor(milestone.amount)}</span>
           </div>
           <div className="flex items-center gap-1">
             <CalendarIcon className="h-4 w-4" />
@@ -143,7 +152,7 @@ export default function MilestoneCard({
           </Button>
         )}
         
-        {isClient && milestone.status === 'SUBMITTED' && (
+        {isClient && canPerformMilestoneAction(milestone, 'APPROVE', 'client', rules) && (
           <>
             {onApprove && (
               <Button size="sm" onClick={() => onApprove(milestone.id)}>
@@ -151,12 +160,17 @@ export default function MilestoneCard({
                 Approve
               </Button>
             )}
-            {onRequestRevision && (
+            {onRequestRevision && revisionsLeft > 0 && (
               <Button variant="outline" size="sm" onClick={() => onRequestRevision(milestone.id)}>
                 <MessageCircleIcon className="h-4 w-4 mr-2" />
-                Request Revision
+                Request Revision ({revisionsLeft} left)
               </Button>
             )}
+            {onRequestRevision && revisionsLeft === 0 && (
+              <p className="w-full text-xs text-muted-foreground">
+                All {rules.maxRevisionsPerMilestone} revisions have been used. Raise a dispute if the work still falls short.
+              </p>
+            )}
             {onDispute && (
               <Button variant="destructive" size="sm" onClick={() => onDispute(milestone.id)}>
                 <ClockIcon className="h-4 w-4 mr-2" />
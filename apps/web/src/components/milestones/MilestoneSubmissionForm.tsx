@@ -10,6 +10,7 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatMinor, formatDate } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
 import { FormError } from '@/components/ui/form-error';
 import { Upload, FileText, CheckCircle, Clock, AlertCircle } from 'lucide-react';
@@ -110,18 +111,18 @@ const MilestoneSubmissionForm = ({ milestone, onSubmit }: MilestoneSubmissionFor
             </div>
             <Badge
               variant={
-                milestone.status === 'submitted' ? 'default' :
-                milestone.status === 'revision_requested' ? 'destructive' :
-                milestone.status === 'approved' ? 'secondary' :
+                milestone.status === 'SUBMITTED' ? 'default' :
+                milestone.status === 'REVISION_REQUESTED' ? 'destructive' :
+                milestone.status === 'APPROVED' ? 'secondary' :
                 'outline'
               }
               className="capitalize"
             >
-              {milestone.status === 'submitted' ? <CheckCircle className="mr-1 h-3 w-3" /> :
-               milestone.status === 'revision_requested' ? <AlertCircle className="mr-1 h-3 w-3" /> :
-               milestone.status === 'approved' ? <CheckCircle className="mr-1 h-3 w-3" /> :
+              {milestone.status === 'SUBMITTED' ? <CheckCircle className="mr-1 h-3 w-3" /> :
+               milestone.status === 'REVISION_REQUESTED' ? <AlertCircle className="mr-1 h-3 w-3" /> :
+               milestone.status === 'APPROVED' ? <CheckCircle className="mr-1 h-3 w-3" /> :
                <Clock className="mr-1 h-3 w-3" />}
-              {milestone.status.replace('_', ' ')}
+              {milestone.status.replace('_', ' ').toLowerCase()}
             </Badge>
           </div>
         </CardHeader>
@@ -132,8 +133,8 @@ const MilestoneSubmissionForm = ({ milestone, onSubmit }: MilestoneSubmissionFor
               <h3 className="font-medium mb-2">Milestone Details</h3>
               <p className="text-sm text-muted-foreground mb-2">{milestone.description}</p>
               <div className="text-sm">
-                <p><span className="font-medium">Amount:</span> ${milestone.amount}</p>
-                <p><span className="font-medium">Deadline:</span> {milestone.deadline || 'Not specified'}</p>
+                <p><span className="font-medium">Amount:</span> {formatMinor(milestone.amount, milestone.currency)}</p>
+                <p><span className="font-medium">Deadline:</span> {milestone.deadline ? formatDate(milestone.deadline) : 'Not specified'}</p>
               </div>
 
               {milestone.acceptanceCriteria && (
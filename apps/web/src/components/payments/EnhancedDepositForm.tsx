@@ -24,7 +24,8 @@ import {
 } from 'lucide-react';
 import { CurrencySelector } from './CurrencySelector';
 import { PaymentMethodSelector } from './PaymentMethodSelector';
-import { currencyService, SUPPORTED_CURRENCIES } from '@/lib/services/currencyService';
+import { currencyService } from '@/lib/services/currencyService';
+import { Money } from '@/lib/money';
 import { walletService, ConnectedWallet } from '@/lib/services/walletService';
 import { paymentSchemas } from '@/lib/validation';
 
@@ -61,6 +62,8 @@ export function EnhancedDepositForm({
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const requiredDeposit = Money.fromMinorOrZero(projectBudget, 'USD');
+
   const {
     register,
     handleSubmit,
@@ -71,7 +74,7 @@ export function EnhancedDepositForm({
   } = useForm({
     resolver: zodResolver(paymentSchemas.enhancedDeposit()),
     defaultValues: {
-      amount: projectBudget / 100, // Convert from cents
+      amount: requiredDeposit.toMajor(),
       currency: 'USD',
       paymentMethodId: null
     }
@@ -122,14 +125,14 @@ export function EnhancedDepositForm({
 
   // Initialize form values
   useEffect(() => {
-    setValue('amount', projectBudget / 100);
+    setValue('amount', Money.fromMinor(projectBudget, 'USD').toMajor());
   }, [projectBudget, setValue]);
 
   // Update converted amount when currency or amount changes
   useEffect(() => {
     if (watchedAmount > 0) {
       try {
-        const converted = currencyService.convert(watchedAmount, watchedCurrency, 'USD');
+        const converted = currencyService.convertCurrency({ fromCurrency: watchedCurrency, toCurrency: 'USD', amount: watchedAmount });
         setConvertedAmount(converted);
       } catch (err) {
         setError('Failed to convert currency');
@@ -214,8 +217,7 @@ export function EnhancedDepositForm({
     }
   };
 
-  const selectedCurrencyInfo = SUPPORTED_CURRENCIES.find(c => c.code === selectedCurrency);
-  const selectedMethodObj = availableMethods.find(m => m.id === selectedMethod);
+  const selectedMethodObj = availableMethods.find(m => m.id === watchedPaymentMethodId);
   const progressValue = depositStep === 'amount' ? 25 : depositStep === 'method' ? 50 : depositStep === 'review' ? 75 : depositStep === 'processing' ? 90 : 100;
 
   return (
@@ -256,7 +258,7 @@ export function EnhancedDepositForm({
             <div className="p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
               <div className="text-sm text-blue-700 dark:text-blue-300">
                 <div className="font-medium">Project: {projectTitle}</div>
-                <div>Required deposit: {currencyService.formatAmount(projectBudget / 100, 'USD')}</div>
+                <div>Required deposit: {requiredDeposit.format()}</div>
               </div>
             </div>
 
@@ -292,7 +294,7 @@ export function EnhancedDepositForm({
               <div className="flex justify-between items-center mb-2">
                 <span className="text-sm text-muted-foreground">Amount</span>
                 <span className="font-medium">
-                  {currencyService.formatAmount(watchedAmount, watchedCurrency)}
+                  {Money.fromMajor(watchedAmount, watchedCurrency).format()}
                 </span>
               </div>
 
@@ -300,7 +302,7 @@ export function EnhancedDepositForm({
                 <div className="flex justify-between items-center mb-2">
                   <span className="text-sm text-muted-foreground">Equivalent in USD</span>
                   <span className="font-medium">
-                    {currencyService.formatAmount(convertedAmount, 'USD')}
+                    {Money.fromMajor(convertedAmount, 'USD').format()}
                   </span>
                 </div>
               )}
@@ -0,0 +1,131 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { ProjectLedger, LedgerAccount, LedgerEntryKind } from '@/lib/escrowLedger';
+import { Money } from '@/lib/money';
+import { formatMinor } from '@/lib/utils';
+
+const kindLabels: Record<LedgerEntryKind, string> = {
+  deposit: 'Deposit',
+  hold: 'Pending hold',
+  release: 'Release',
+  fee: 'Fee',
+  refund: 'Refund',
+  dispute_settlement: 'Dispute settlement',
+  dispute_reversal: 'Settlement reversal',
+};
+
+const accountLabels: Record<LedgerAccount, string> = {
+  client: 'Client',
+  escrow: 'Escrow',
+  freelancer: 'Freelancer',
+  platform: 'Platform',
+  clearing: 'Clearing',
+};
+
+interface EscrowLedgerDetailsProps {
+  ledger: ProjectLedger;
+}
+
+export function EscrowLedgerDetails({ ledger }: EscrowLedgerDetailsProps) {
+  const { totals, escrowAccount } = ledger;
+  const reported = (amount: number | undefined) => formatMinor(amount, ledger.currency);
+
+  const comparison = [
+    { label: 'Deposited', ledger: totals.deposited, reported: escrowAccount?.totalAmount },
+    { label: 'Released', ledger: totals.released, reported: escrowAccount?.releasedAmount },
+    { label: 'Fees', ledger: totals.fees, reported: escrowAccount?.platformFee },
+    { label: 'Held', ledger: totals.held, reported: escrowAccount?.heldAmount },
+  ];
+
+  return (
+    <div className="space-y-4 p-3 bg-muted/20 text-sm">
+      {ledger.issues.length > 0 && (
+        <ul className="space-y-1">
+          {ledger.issues.map((issue, index) => (
+            <li key={`${issue.code}-${index}`} className="flex items-start gap-2">
+              <Badge variant={issue.severity === 'error' ? 'destructive' : 'outline'} className="text-xs shrink-0">
+                {issue.severity === 'error' ? 'Mismatch' : 'Note'}
+              </Badge>
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <h4 className="font-medium mb-2">Ledger vs escrow account</h4>
+          <table className="w-full">
+            <thead className="text-muted-foreground">
+              <tr>
+                <th className="text-left font-normal py-1"></th>
+                <th className="text-right font-normal py-1">Ledger</th>
+                <th className="text-right font-normal py-1">Reported</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.map(row => {
+                const matches = !Number.isFinite(row.reported) || row.ledger.equals(Money.fromMinor(Math.round(row.reported!), ledger.currency));
+                return (
+                  <tr key={row.label} className="border-t">
+                    <td className="py-1">{row.label}</td>
+                    <td className="py-1 text-right">{row.ledger.format()}</td>
+                    <td className={`py-1 text-right ${matches ? '' : 'text-red-600 font-medium'}`}>{reported(row.reported)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <h4 className="font-medium mb-2">Account balances</h4>
+          <div className="grid grid-cols-2 gap-1">
+            {(Object.keys(accountLabels) as LedgerAccount[]).map(account => (
+              <div key={account} className="contents">
+                <span className="text-muted-foreground">{accountLabels[account]}</span>
+                <span className="text-right">{ledger.balances[account].format()}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="font-medium mb-2">Entries</h4>
+        {ledger.entries.length > 0 ? (
+          <table className="w-full">
+            <thead className="text-muted-foreground">
+              <tr>
+                <th className="text-left font-normal py-1">Date</th>
+                <th className="text-left font-normal py-1">Entry</th>
+                <th className="text-left font-normal py-1">Debit / Credit</th>
+                <th className="text-right font-normal py-1">Amount</th>
+                <th className="text-right font-normal py-1">Escrow balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ledger.entries.map(entry => (
+                <tr key={entry.id} className="border-t">
+                  <td className="py-1">{entry.postedAt.toLocaleDateString()}</td>
+                  <td className="py-1">
+                    <div>{kindLabels[entry.kind]}</div>
+                    {entry.description && <div className="text-xs text-muted-foreground">{entry.description}</div>}
+                  </td>
+                  <td className="py-1">{accountLabels[entry.debit]} / {accountLabels[entry.credit]}</td>
+                  <td className="py-1 text-right">{entry.amount.format()}</td>
+                  <td className={`py-1 text-right ${entry.escrowBalanceAfter?.isNegative() ? 'text-red-600' : ''}`}>
+                    {entry.escrowBalanceAfter?.format() ?? '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-muted-foreground">No escrow movements recorded for this project.</p>
+        )}
+      </div>
+    </div>
+  );
+}
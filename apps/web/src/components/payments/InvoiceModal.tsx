@@ -1,6 +1,6 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
-import { formatCurrency, formatDate } from '@/lib/utils';
+import { formatMinor, formatDate } from '@/lib/utils';
 import { Invoice } from '@/types';
 import {
   CreditCard,
@@ -67,15 +67,15 @@ export function InvoiceModal({ invoice, open, onOpenChange }: InvoiceModalProps)
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div className="p-4 bg-muted rounded-lg">
               <div className="text-sm text-muted-foreground">Gross Amount</div>
-              <div className="text-xl font-bold">{formatCurrency(invoice.grossAmount)} {invoice.currency}</div>
+              <div className="text-xl font-bold">{formatMinor(invoice.grossAmount)} {invoice.currency}</div>
             </div>
             <div className="p-4 bg-muted rounded-lg">
               <div className="text-sm text-muted-foreground">Platform Fee</div>
-              <div className="text-xl font-bold">{formatCurrency(invoice.platformFee)} {invoice.currency}</div>
+              <div className="text-xl font-bold">{formatMinor(invoice.platformFee)} {invoice.currency}</div>
             </div>
             <div className="p-4 bg-muted rounded-lg">
               <div className="text-sm text-muted-foreground">Net Amount</div>
-              <div className="text-xl font-bold">{formatCurrency(invoice.netAmount)} {invoice.currency}</div>
+              <div className="text-xl font-bold">{formatMinor(invoice.netAmount)} {invoice.currency}</div>
             </div>
           </div>
 
@@ -227,8 +227,8 @@ export function InvoiceModal({ invoice, open, onOpenChange }: InvoiceModalProps)
                     <tr key={index} className="border-t hover:bg-muted/30">
                       <td className="p-3">{item.description}</td>
                       <td className="p-3 text-right">{item.quantity}</td>
-                      <td className="p-3 text-right">{formatCurrency(item.unitPrice)} {invoice.currency}</td>
-                      <td className="p-3 text-right font-medium">{formatCurrency(item.total)} {invoice.currency}</td>
+                      <td className="p-3 text-right">{formatMinor(item.unitPrice)} {invoice.currency}</td>
+                      <td className="p-3 text-right font-medium">{formatMinor(item.total)} {invoice.currency}</td>
                     </tr>
                   ))}
                 </tbody>
@@ -1,6 +1,6 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
-import { formatCurrency, formatDate } from '@/lib/utils';
+import { formatMinor, formatDate } from '@/lib/utils';
 import { Transaction } from '@/types';
 import {
   CreditCard,
@@ -82,7 +82,7 @@ export function TransactionModal({ transaction, open, onOpenChange }: Transactio
             <div>
               <div className="text-sm text-muted-foreground">Amount</div>
               <div className={`text-2xl font-bold ${transaction.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>
-                {transaction.amount < 0 ? '-' : '+'}{formatCurrency(Math.abs(transaction.amount))} {transaction.currency || 'USD'}
+                {transaction.amount < 0 ? '-' : '+'}{formatMinor(Math.abs(transaction.amount))} {transaction.currency || 'USD'}
               </div>
             </div>
             <Badge className={`${statusColors[transaction.status as keyof typeof statusColors]} text-white`}>
@@ -125,16 +125,16 @@ export function TransactionModal({ transaction, open, onOpenChange }: Transactio
                 <User className="h-5 w-5 text-muted-foreground mt-0.5" />
                 <div>
                   <div className="text-sm text-muted-foreground">Project</div>
-                  <div className="font-medium">#{transaction.projectId || transaction._id}</div>
+                  <div className="font-medium">#{transaction.projectId || transaction.id}</div>
                 </div>
               </div>
 
-              {(transaction.milestoneId || transaction.milestone) && (
+              {transaction.milestoneId && (
                 <div className="flex items-start gap-3">
                   <FileText className="h-5 w-5 text-muted-foreground mt-0.5" />
                   <div>
                     <div className="text-sm text-muted-foreground">Milestone</div>
-                    <div className="font-medium">#{transaction.milestoneId || transaction.milestone}</div>
+                    <div className="font-medium">#{transaction.milestoneId}</div>
                   </div>
                 </div>
               )}
@@ -153,12 +153,12 @@ export function TransactionModal({ transaction, open, onOpenChange }: Transactio
           <div className="space-y-3">
             <h3 className="font-semibold text-lg">Payment Details</h3>
             
-            {(transaction.paymentMethodId || transaction.providerTransactionId) && (
+            {transaction.paymentMethodId && (
               <div className="flex items-start gap-3">
                 <CreditCard className="h-5 w-5 text-muted-foreground mt-0.5" />
                 <div>
                   <div className="text-sm text-muted-foreground">Payment Method ID</div>
-                  <div className="font-medium">{transaction.paymentMethodId || transaction.providerTransactionId}</div>
+                  <div className="font-medium">{transaction.paymentMethodId}</div>
                 </div>
               </div>
             )}
@@ -221,15 +221,15 @@ export function TransactionModal({ transaction, open, onOpenChange }: Transactio
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div className="p-3 bg-muted rounded-lg">
                   <div className="text-sm text-muted-foreground">Platform Fee</div>
-                  <div className="font-medium">{formatCurrency(transaction.fees.platform)}</div>
+                  <div className="font-medium">{formatMinor(transaction.fees.platform)}</div>
                 </div>
                 <div className="p-3 bg-muted rounded-lg">
                   <div className="text-sm text-muted-foreground">Payment Processor Fee</div>
-                  <div className="font-medium">{formatCurrency(transaction.fees.paymentProcessor)}</div>
+                  <div className="font-medium">{formatMinor(transaction.fees.paymentProcessor)}</div>
                 </div>
                 <div className="p-3 bg-muted rounded-lg">
                   <div className="text-sm text-muted-foreground">Total Fees</div>
-                  <div className="font-medium">{formatCurrency(transaction.fees.total)}</div>
+                  <div className="font-medium">{formatMinor(transaction.fees.total)}</div>
                 </div>
               </div>
             </div>
@@ -256,7 +256,7 @@ export function TransactionModal({ transaction, open, onOpenChange }: Transactio
                 </div>
                 <div className="p-3 bg-muted rounded-lg">
                   <div className="text-sm text-muted-foreground">Exchange Rate Timestamp</div>
-                  <div className="font-medium">{formatDate(transaction.exchangeRateTimestamp instanceof Date ? transaction.exchangeRateTimestamp : new Date(transaction.createdAt))}</div>
+                  <div className="font-medium">{formatDate(transaction.exchangeRateTimestamp || transaction.createdAt)}</div>
                 </div>
               </div>
             </div>
@@ -0,0 +1,229 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  AlertTriangle,
+  Ban,
+  CheckCircle,
+  Download,
+  FilePlus,
+  Flag,
+  History,
+  LucideIcon,
+  Mail,
+  MessageCircle,
+  Play,
+  RotateCcw,
+  Scale,
+  Send,
+  ThumbsDown,
+  UserCheck,
+  Wallet,
+} from 'lucide-react';
+import { Milestone, ProjectActivity } from '@/types';
+import {
+  ACTIVITY_ACTIONS,
+  ACTIVITY_ACTION_LABELS,
+  ActivityAction,
+  ActivityActorRole,
+  ActivityFilters,
+  activityLabel,
+  describeActivity,
+  filterActivities,
+  groupActivitiesByMilestone,
+  sortActivities,
+} from '@/lib/projectActivity';
+
+const ACTIVITY_ICONS: Record<ActivityAction, LucideIcon> = {
+  PROJECT_CREATED: FilePlus,
+  PROJECT_INVITED: Mail,
+  PROJECT_ACCEPTED: UserCheck,
+  PROJECT_DECLINED: ThumbsDown,
+  FUNDS_DEPOSITED: Wallet,
+  MILESTONE_STARTED: Play,
+  MILESTONE_SUBMITTED: Send,
+  MILESTONE_APPROVED: CheckCircle,
+  MILESTONE_REVISION_REQUESTED: RotateCcw,
+  MILESTONE_DISPUTED: AlertTriangle,
+  PAYMENT_RELEASED: Wallet,
+  MESSAGE_SENT: MessageCircle,
+  DISPUTE_RAISED: AlertTriangle,
+  DISPUTE_RESOLVED: Scale,
+  PROJECT_COMPLETED: Flag,
+  PROJECT_CANCELLED: Ban,
+};
+
+interface ActivityTimelineProps {
+  activities: ProjectActivity[];
+  milestones?: Pick<Milestone, 'id' | 'title' | 'order'>[];
+  hasMore?: boolean;
+  loading?: boolean;
+  onLoadMore?: () => void;
+  // Receives the current filters so the export can cover pages not loaded yet
+  onExport?: (format: 'csv' | 'json', filters: ActivityFilters) => void;
+}
+
+function ActivityEntry({ activity }: { activity: ProjectActivity }) {
+  const Icon = ACTIVITY_ICONS[activity.action] || History;
+  return (
+    <li className="flex gap-3 py-2">
+      <Icon className="h-4 w-4 mt-1 shrink-0 text-muted-foreground" />
+      <div className="flex-1 min-w-0">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium text-sm">{activityLabel(activity)}</span>
+          <Badge variant="outline" className="capitalize">{activity.actorRole}</Badge>
+        </div>
+        <p className="text-sm">{describeActivity(activity)}</p>
+        <p className="text-xs text-muted-foreground">{new Date(activity.createdAt).toLocaleString()}</p>
+      </div>
+    </li>
+  );
+}
+
+// Filterable project history; loads older pages as the end of the list scrolls into view
+export function ActivityTimeline({
+  activities,
+  milestones = [],
+  hasMore = false,
+  loading = false,
+  onLoadMore,
+  onExport,
+}: ActivityTimelineProps) {
+  const [actorRole, setActorRole] = useState<ActivityActorRole | 'all'>('all');
+  const [action, setAction] = useState<ActivityAction | 'all'>('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [grouped, setGrouped] = useState(false);
+  const sentinel = useRef<HTMLDivElement>(null);
+
+  const filters = useMemo<ActivityFilters>(() => ({
+    actorRole,
+    actions: action === 'all' ? [] : [action],
+    // Date inputs are whole days in the viewer's timezone
+    from: from ? new Date(`${from}T00:00:00`) : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+  }), [actorRole, action, from, to]);
+
+  const visible = useMemo(() => sortActivities(filterActivities(activities, filters)), [activities, filters]);
+
+  const groups = useMemo(
+    () => (grouped ? groupActivitiesByMilestone(visible, milestones) : []),
+    [grouped, visible, milestones]
+  );
+
+  useEffect(() => {
+    const node = sentinel.current;
+    if (!node || !hasMore || !onLoadMore || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting) && !loading) {
+        onLoadMore();
+      }
+    });
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [hasMore, loading, onLoadMore]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Activity
+          </CardTitle>
+          {onExport && (
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => onExport('csv', filters)}>
+                <Download className="h-4 w-4 mr-1" />
+                Export CSV
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => onExport('json', filters)}>
+                <Download className="h-4 w-4 mr-1" />
+                Export JSON
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="activity-actor">Actor</Label>
+            <select
+              id="activity-actor"
+              value={actorRole}
+              onChange={(e) => setActorRole(e.target.value as ActivityActorRole | 'all')}
+              className="w-full border rounded-md px-3 py-2 bg-background text-sm"
+            >
+              <option value="all">Everyone</option>
+              <option value="client">Client</option>
+              <option value="freelancer">Freelancer</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="activity-action">Action</Label>
+            <select
+              id="activity-action"
+              value={action}
+              onChange={(e) => setAction(e.target.value as ActivityAction | 'all')}
+              className="w-full border rounded-md px-3 py-2 bg-background text-sm"
+            >
+              <option value="all">All actions</option>
+              {ACTIVITY_ACTIONS.map(option => (
+                <option key={option} value={option}>{ACTIVITY_ACTION_LABELS[option]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="activity-from">From</Label>
+            <Input id="activity-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="activity-to">To</Label>
+            <Input id="activity-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <label className="flex items-center gap-2 text-sm pb-2">
+            <input type="checkbox" checked={grouped} onChange={(e) => setGrouped(e.target.checked)} />
+            Group by milestone
+          </label>
+        </div>
+
+        {visible.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{loading ? 'Loading activity...' : 'No activity matches these filters.'}</p>
+        ) : grouped ? (
+          <div className="space-y-4">
+            {groups.map(group => (
+              <section key={group.key}>
+                <h4 className="text-sm font-semibold border-b pb-1">
+                  {group.title} <span className="text-muted-foreground font-normal">({group.activities.length})</span>
+                </h4>
+                <ul className="divide-y">
+                  {group.activities.map(activity => <ActivityEntry key={activity.id} activity={activity} />)}
+                </ul>
+              </section>
+            ))}
+          </div>
+        ) : (
+          <ul className="divide-y">
+            {visible.map(activity => <ActivityEntry key={activity.id} activity={activity} />)}
+          </ul>
+        )}
+
+        {hasMore && (
+          <div ref={sentinel} className="flex justify-center">
+            <Button variant="ghost" size="sm" onClick={onLoadMore} disabled={loading}>
+              {loading ? 'Loading...' : 'Load older activity'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
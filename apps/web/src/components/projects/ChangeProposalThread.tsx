@@ -0,0 +1,253 @@
+'use client';
+
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ChangeProposal, Milestone } from '@/types';
+import { Money } from '@/lib/money';
+import {
+  CounterProposalInput,
+  FieldDiff,
+  ProposalParty,
+  awaitingResponseFrom,
+  diffProposal,
+  proposalImpact,
+} from '@/lib/changeProposal';
+
+interface ChangeProposalThreadProps {
+  // One negotiation, oldest proposal first
+  thread: ChangeProposal[];
+  milestoneTitle: string;
+  party: ProposalParty;
+  milestones: Pick<Milestone, 'id' | 'amount' | 'status'>[];
+  escrowBalance: number;
+  currency?: string;
+  busy?: boolean;
+  onApprove: (proposal: ChangeProposal, notes: string) => Promise<void>;
+  onReject: (proposal: ChangeProposal, notes: string) => Promise<void>;
+  onCounter: (proposal: ChangeProposal, counter: CounterProposalInput) => Promise<void>;
+}
+
+const STATUS_VARIANTS: Record<ChangeProposal['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  PENDING: 'default',
+  APPROVED: 'secondary',
+  REJECTED: 'destructive',
+  CANCELLED: 'outline',
+  COUNTERED: 'outline',
+};
+
+const signed = (value: Money) => `${value.isNegative() ? '-' : '+'}${(value.isNegative() ? value.negate() : value).format()}`;
+
+function DiffValue({ diff }: { diff: FieldDiff }) {
+  if (!diff.words) {
+    return <span>{diff.after}</span>;
+  }
+  return (
+    <span className="whitespace-pre-wrap">
+      {diff.words.map((word, index) =>
+        word.type === 'added' ? (
+          <ins key={index} className="bg-green-100 dark:bg-green-950/40 no-underline">{word.text}</ins>
+        ) : word.type === 'removed' ? (
+          <del key={index} className="bg-red-100 dark:bg-red-950/40">{word.text}</del>
+        ) : (
+          <span key={index}>{word.text}</span>
+        )
+      )}
+    </span>
+  );
+}
+
+function DiffTable({ diffs, currency }: { diffs: FieldDiff[]; currency: string }) {
+  if (diffs.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes to the milestone.</p>;
+  }
+  return (
+    <table className="w-full text-sm">
+      <thead className="text-muted-foreground">
+        <tr>
+          <th className="text-left font-normal py-1 w-28">Field</th>
+          <th className="text-left font-normal py-1">Current</th>
+          <th className="text-left font-normal py-1">Proposed</th>
+        </tr>
+      </thead>
+      <tbody>
+        {diffs.map(diff => (
+          <tr key={diff.field} className="border-t align-top">
+            <td className="py-1">{diff.label}</td>
+            <td className="py-1 text-muted-foreground">{diff.field === 'description' ? '' : diff.before}</td>
+            <td className="py-1">
+              <DiffValue diff={diff} />
+              {diff.field === 'amount' && diff.delta !== undefined && (
+                <span className="ml-2 text-xs text-muted-foreground">({signed(Money.fromMinorOrZero(diff.delta, currency))})</span>
+              )}
+              {diff.field === 'deadline' && diff.delta !== undefined && (
+                <span className="ml-2 text-xs text-muted-foreground">({diff.delta >= 0 ? '+' : ''}{diff.delta} days)</span>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+const toInputDate = (value?: Date | string) => (value ? new Date(value).toISOString().slice(0, 10) : '');
+
+// A milestone change negotiation: every proposal and counter-proposal with its
+// diff, the budget and escrow impact of the open one, and the replies available
+export function ChangeProposalThread({
+  thread,
+  milestoneTitle,
+  party,
+  milestones,
+  escrowBalance,
+  currency = 'USD',
+  busy = false,
+  onApprove,
+  onReject,
+  onCounter,
+}: ChangeProposalThreadProps) {
+  const latest = thread[thread.length - 1];
+  const [notes, setNotes] = useState('');
+  const [countering, setCountering] = useState(false);
+  const [amount, setAmount] = useState(
+    latest.proposedValues.amount !== undefined ? Money.fromMinor(latest.proposedValues.amount, currency).toDecimalString() : ''
+  );
+  const [deadline, setDeadline] = useState(toInputDate(latest.proposedValues.deadline));
+  const [description, setDescription] = useState(latest.proposedValues.description || '');
+  const [error, setError] = useState<string | null>(null);
+  const canRespond = awaitingResponseFrom(latest, party);
+  const impact = latest.status === 'PENDING' ? proposalImpact(latest, milestones, escrowBalance, currency) : null;
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+      setCountering(false);
+      setNotes('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleCounter = () => run(() => onCounter(latest, {
+    proposer: party,
+    reason: notes,
+    proposedValues: {
+      ...(amount && { amount: Money.fromMajor(amount, currency).amount }),
+      ...(deadline && { deadline: new Date(`${deadline}T00:00:00Z`) }),
+      ...(description && { description }),
+    },
+  }));
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div className="flex justify-between items-start gap-2">
+        <h4 className="font-medium">Change to &quot;{milestoneTitle}&quot;</h4>
+        <Badge variant={STATUS_VARIANTS[latest.status]}>{latest.status}</Badge>
+      </div>
+
+      <ol className="space-y-4">
+        {thread.map((proposal, index) => (
+          <li key={proposal.id} className={index < thread.length - 1 ? 'opacity-70' : ''}>
+            <p className="text-xs text-muted-foreground mb-1">
+              {index === 0 ? 'Proposed' : 'Countered'} by the {proposal.proposer} on {new Date(proposal.createdAt).toLocaleDateString()}
+              {index < thread.length - 1 && ` · ${proposal.status.toLowerCase()}`}
+            </p>
+            {proposal.reason && <p className="text-sm mb-2">{proposal.reason}</p>}
+            <DiffTable diffs={diffProposal(proposal, currency)} currency={currency} />
+          </li>
+        ))}
+      </ol>
+
+      {latest.status !== 'PENDING' && latest.resolutionNotes && (
+        <p className="text-sm text-muted-foreground">Note: {latest.resolutionNotes}</p>
+      )}
+
+      {impact && (
+        <div className="rounded-md bg-muted/40 p-3 text-sm space-y-1">
+          <p className="font-medium">If approved</p>
+          <p>
+            Project budget: {impact.budgetBefore.format()} → {impact.budgetAfter.format()}
+            {!impact.amountDelta.isZero() && ` (${signed(impact.amountDelta)})`}
+          </p>
+          <p>
+            {impact.escrowTopUp.isZero()
+              ? `Escrow (${impact.escrowBalance.format()}) covers the remaining milestones`
+              : `The client needs to top up escrow by ${impact.escrowTopUp.format()}`}
+          </p>
+          {impact.deadlineShiftDays !== 0 && (
+            <p>Deadline moves {Math.abs(impact.deadlineShiftDays)} days {impact.deadlineShiftDays > 0 ? 'later' : 'earlier'}</p>
+          )}
+        </div>
+      )}
+
+      {latest.status === 'PENDING' && !canRespond && (
+        <p className="text-xs text-blue-600">Waiting for the {latest.proposer === 'client' ? 'freelancer' : 'client'} to respond</p>
+      )}
+
+      {canRespond && (
+        <div className="space-y-3 border-t pt-3">
+          {countering && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor={`counter-amount-${latest.id}`}>Amount</Label>
+                <Input
+                  id={`counter-amount-${latest.id}`}
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`counter-deadline-${latest.id}`}>Deadline</Label>
+                <Input
+                  id={`counter-deadline-${latest.id}`}
+                  type="date"
+                  value={deadline}
+                  onChange={(e) => setDeadline(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1 md:col-span-2">
+                <Label htmlFor={`counter-description-${latest.id}`}>Description</Label>
+                <Textarea
+                  id={`counter-description-${latest.id}`}
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+          <Textarea
+            aria-label="Response note"
+            placeholder={countering ? 'Why are you proposing these terms?' : 'Add a note (optional)'}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <div className="flex flex-wrap gap-2">
+            {countering ? (
+              <>
+                <Button size="sm" onClick={handleCounter} disabled={busy || !notes.trim()}>Send counter-proposal</Button>
+                <Button size="sm" variant="ghost" onClick={() => setCountering(false)} disabled={busy}>Cancel</Button>
+              </>
+            ) : (
+              <>
+                <Button size="sm" onClick={() => run(() => onApprove(latest, notes))} disabled={busy}>Approve</Button>
+                <Button size="sm" variant="outline" onClick={() => setCountering(true)} disabled={busy}>Counter</Button>
+                <Button size="sm" variant="outline" className="text-red-600" onClick={() => run(() => onReject(latest, notes))} disabled={busy}>
+                  Reject
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useMemo } from 'react';
+import { ChangeProposal, Milestone } from '@/types';
+import { useProjectStore } from '@/lib/store/projectStore';
+import { CounterProposalInput, ProposalParty, proposalThreads } from '@/lib/changeProposal';
+import { ChangeProposalThread } from '@/components/projects/ChangeProposalThread';
+
+interface ChangeProposalsPanelProps {
+  projectId: string;
+  party: ProposalParty;
+  userId: string;
+  milestones: Pick<Milestone, 'id' | 'title' | 'amount' | 'status'>[];
+  escrowBalance: number;
+  currency?: string;
+}
+
+export function ChangeProposalsPanel({ projectId, party, userId, milestones, escrowBalance, currency = 'USD' }: ChangeProposalsPanelProps) {
+  const { changeProposals, loading, approveChangeProposal, rejectChangeProposal, counterChangeProposal } = useProjectStore();
+
+  const threads = useMemo(
+    () => proposalThreads(changeProposals.filter(proposal => proposal.projectId === projectId)),
+    [changeProposals, projectId]
+  );
+
+  if (threads.length === 0) {
+    return <p className="text-center py-4 text-muted-foreground">No change proposals for this project</p>;
+  }
+
+  const titleOf = (milestoneId: string) => milestones.find(milestone => milestone.id === milestoneId)?.title || 'Milestone';
+
+  return (
+    <div className="space-y-4">
+      {threads.map(thread => (
+        <ChangeProposalThread
+          // Keyed by the open proposal so the reply form resets after a counter
+          key={thread[thread.length - 1].id}
+          thread={thread}
+          milestoneTitle={titleOf(thread[0].milestoneId)}
+          party={party}
+          milestones={milestones}
+          escrowBalance={escrowBalance}
+          currency={currency}
+          busy={loading}
+          onApprove={async (proposal: ChangeProposal, notes: string) => {
+            await approveChangeProposal(proposal.id, party, userId, notes || undefined);
+          }}
+          onReject={async (proposal: ChangeProposal, notes: string) => {
+            await rejectChangeProposal(proposal.id, party, userId, notes || undefined);
+          }}
+          onCounter={async (proposal: ChangeProposal, counter: CounterProposalInput) => {
+            await counterChangeProposal(proposal.id, counter);
+          }}
+        />
+      ))}
+    </div>
+  );
+}
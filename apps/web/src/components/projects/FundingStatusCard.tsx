@@ -4,12 +4,18 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { DollarSign, Wallet, Lock, CheckCircle, Clock, AlertCircle } from 'lucide-react';
 import { Project } from '@/types';
+import { formatMinor } from '@/lib/utils';
 
 interface FundingStatusProps {
   project: Project;
 }
 
 export function FundingStatusCard({ project }: FundingStatusProps) {
+  const currency = project.currency || 'USD';
+  // escrowAmount is everything deposited; escrowBalance is what is still held after
+  // releases, refunds and fees, which is what the escrow page shows
+  const inEscrow = project.escrowBalance ?? project.escrowAmount ?? 0;
+
   // Calculate funding percentage
   const fundingPercentage = project.totalBudget && project.totalBudget > 0 
     ? Math.round((project.escrowAmount! / project.totalBudget) * 100)
@@ -56,14 +62,14 @@ export function FundingStatusCard({ project }: FundingStatusProps) {
                 <DollarSign className="h-4 w-4" />
                 Total Budget
               </p>
-              <p className="text-2xl font-bold text-blue-900 dark:text-blue-100">{project.totalBudget?.toLocaleString()} {project.currency || 'USD'}</p>
+              <p className="text-2xl font-bold text-blue-900 dark:text-blue-100">{formatMinor(project.totalBudget, currency)}</p>
             </div>
             <div className="bg-green-50 dark:bg-green-950/20 p-4 rounded-lg">
               <p className="text-sm text-green-600 dark:text-green-400 font-medium flex items-center gap-1">
                 <Lock className="h-4 w-4" />
                 In Escrow
               </p>
-              <p className="text-2xl font-bold text-green-900 dark:text-green-100">{project.escrowAmount?.toLocaleString()} {project.currency || 'USD'}</p>
+              <p className="text-2xl font-bold text-green-900 dark:text-green-100">{formatMinor(inEscrow, currency)}</p>
             </div>
             <div className="bg-purple-50 dark:bg-purple-950/20 p-4 rounded-lg">
               <p className="text-sm text-purple-600 dark:text-purple-400 font-medium">Funded</p>
@@ -123,11 +129,11 @@ export function FundingStatusCard({ project }: FundingStatusProps) {
           <div className="grid grid-cols-2 gap-4 pt-2">
             <div>
               <p className="text-sm text-muted-foreground">Platform Fee</p>
-              <p className="font-medium">{project.platformFee?.toLocaleString()} {project.currency || 'USD'}</p>
+              <p className="font-medium">{formatMinor(project.platformFee, currency)}</p>
             </div>
             <div>
               <p className="text-sm text-muted-foreground">Payment Processing</p>
-              <p className="font-medium">{project.paymentProcessingFee?.toLocaleString()} {project.currency || 'USD'}</p>
+              <p className="font-medium">{formatMinor(project.paymentProcessingFee, currency)}</p>
             </div>
           </div>
         </div>
@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Money } from '@/lib/money';
+import {
+  AllocationMode,
+  allocateBudget,
+  allocationPercentages,
+  reflowAllocation,
+} from '@/lib/milestoneAllocation';
+
+type EditorMode = 'amount' | AllocationMode;
+
+const MODES: { value: EditorMode; label: string }[] = [
+  { value: 'amount', label: 'Amounts' },
+  { value: 'percentage', label: 'Percentages' },
+  { value: 'weight', label: 'Weights' },
+  { value: 'equal', label: 'Equal split' },
+];
+
+interface MilestoneAllocationEditorProps {
+  budget: Money;
+  milestones: { id: string; title: string; amount: number }[]; // amounts in minor units
+  onChange: (amounts: number[]) => void;
+}
+
+export function MilestoneAllocationEditor({ budget, milestones, onChange }: MilestoneAllocationEditorProps) {
+  const [mode, setMode] = useState<EditorMode>('amount');
+  const [weights, setWeights] = useState<Record<string, number>>({});
+
+  const amounts = milestones.map(milestone => Money.fromMinorOrZero(milestone.amount, budget.currency));
+  const percentages = allocationPercentages(budget, amounts);
+  const weightOf = (id: string) => weights[id] ?? 1;
+
+  const apply = (allocation: Money[]) => onChange(allocation.map(amount => amount.amount));
+
+  const reflow = (index: number, amount: Money) => apply(reflowAllocation(budget, amounts, index, amount));
+
+  const applyWeights = (nextWeights: Record<string, number>) => {
+    const values = milestones.map(milestone => nextWeights[milestone.id] ?? 1);
+    if (values.some(value => value > 0)) {
+      apply(allocateBudget(budget, { mode: 'weight', weights: values }));
+    }
+  };
+
+  // Equal and weighted splits follow the milestone list and the budget as they change
+  const milestoneIds = milestones.map(milestone => milestone.id).join(',');
+  useEffect(() => {
+    if (milestones.length === 0 || !budget.isPositive()) {
+      return;
+    }
+    if (mode === 'equal') {
+      apply(allocateBudget(budget, { mode: 'equal', count: milestones.length }));
+    } else if (mode === 'weight') {
+      applyWeights(weights);
+    }
+  }, [mode, milestoneIds, budget.amount]);
+
+  if (milestones.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3 p-3 border rounded-md">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Label>Budget allocation</Label>
+        <div className="flex gap-1">
+          {MODES.map(option => (
+            <Button
+              key={option.value}
+              type="button"
+              size="sm"
+              variant={mode === option.value ? 'default' : 'outline'}
+              onClick={() => setMode(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {milestones.map((milestone, index) => (
+        <div key={milestone.id} className="grid grid-cols-[1fr_8rem_7rem] items-center gap-3 text-sm">
+          <span className="truncate">{index + 1}. {milestone.title}</span>
+
+          {mode === 'amount' && (
+            <Input
+              type="number"
+              min="0"
+              aria-label={`Amount for ${milestone.title}`}
+              value={amounts[index].toMajor()}
+              onChange={(e) => reflow(index, Money.fromMajor(parseFloat(e.target.value) || 0, budget.currency))}
+            />
+          )}
+          {mode === 'percentage' && (
+            <Input
+              type="number"
+              min="0"
+              max="100"
+              aria-label={`Percentage for ${milestone.title}`}
+              value={percentages[index]}
+              onChange={(e) => reflow(index, budget.percentage(parseFloat(e.target.value) || 0))}
+            />
+          )}
+          {mode === 'weight' && (
+            <Input
+              type="number"
+              min="0"
+              aria-label={`Weight for ${milestone.title}`}
+              value={weightOf(milestone.id)}
+              onChange={(e) => {
+                const nextWeights = { ...weights, [milestone.id]: Math.max(0, parseFloat(e.target.value) || 0) };
+                setWeights(nextWeights);
+                applyWeights(nextWeights);
+              }}
+            />
+          )}
+          {mode === 'equal' && <span className="text-muted-foreground">{percentages[index]}%</span>}
+
+          <span className="text-right font-medium">{amounts[index].format()}</span>
+        </div>
+      ))}
+
+      <p className="text-xs text-muted-foreground">
+        Changing one milestone rebalances the others so the total always matches {budget.format()}.
+      </p>
+    </div>
+  );
+}
@@ -5,15 +5,18 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Milestone } from '@/types';
+import { Money } from '@/lib/money';
 
 interface MilestoneFormProps {
   onAddMilestone: (milestone: Milestone) => void;
   projectStartDate: Date;
   projectEndDate: Date;
-  remainingBudget: number;
+  totalBudget: number; // in cents
+  remainingBudget: number; // in cents
+  currency?: string;
 }
 
-export function MilestoneForm({ onAddMilestone, projectStartDate, projectEndDate, remainingBudget }: MilestoneFormProps) {
+export function MilestoneForm({ onAddMilestone, projectStartDate, projectEndDate, totalBudget, remainingBudget, currency = 'USD' }: MilestoneFormProps) {
   const [formData, setFormData] = useState({
     title: '',
     description: '',
@@ -23,6 +26,8 @@ export function MilestoneForm({ onAddMilestone, projectStartDate, projectEndDate
   });
   
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const budget = Money.fromMinorOrZero(totalBudget, currency);
+  const remaining = Money.fromMinorOrZero(remainingBudget, currency);
   
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -41,12 +46,17 @@ export function MilestoneForm({ onAddMilestone, projectStartDate, projectEndDate
       newErrors.description = 'Description is required';
     }
     
-    if (formData.amount <= 0) {
+    // The input is in major units; the milestone stores minor units. An empty
+    // amount takes whatever budget is still unallocated.
+    const entered = Money.fromMajor(formData.amount, currency);
+    const amount = entered.isZero() && remaining.isPositive() ? remaining : entered;
+
+    if (!amount.isPositive()) {
       newErrors.amount = 'Amount must be greater than 0';
     }
     
-    if (formData.amount > remainingBudget) {
-      newErrors.amount = `Amount exceeds remaining budget of $${remainingBudget}`;
+    if (amount.greaterThan(budget)) {
+      newErrors.amount = `Amount exceeds the project budget of ${budget.format()}`;
     }
     
     if (!formData.acceptanceCriteria.trim()) {
@@ -64,7 +74,7 @@ export function MilestoneForm({ onAddMilestone, projectStartDate, projectEndDate
       projectId: '', // Will be set when project is created
       title: formData.title,
       description: formData.description,
-      amount: formData.amount,
+      amount: amount.amount,
       deadline: new Date(formData.deadline),
       acceptanceCriteria: formData.acceptanceCriteria,
       status: 'PENDING', // Default status
@@ -124,12 +134,13 @@ export function MilestoneForm({ onAddMilestone, projectStartDate, projectEndDate
                 type="number"
                 value={formData.amount || ''}
                 onChange={(e) => setFormData({...formData, amount: parseFloat(e.target.value) || 0})}
-                placeholder="0.00"
+                placeholder={remaining.isPositive() ? remaining.toDecimalString() : '0.00'}
                 min="0"
-                max={remainingBudget}
+                max={budget.toMajor()}
               />
               <p className="text-xs text-muted-foreground mt-1">
-                Remaining budget: ${remainingBudget.toFixed(2)}
+                Remaining budget: {remaining.format()}
+                {formData.amount > remaining.toMajor() && ' (other milestones will be reduced to fit)'}
               </p>
               {errors.amount && <p className="text-sm text-red-500 mt-1">{errors.amount}</p>}
             </div>
@@ -8,6 +8,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, Dialog
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Milestone } from '@/types';
+import { AutoApprovalCountdown } from '@/components/milestones/AutoApprovalCountdown';
+import { DEFAULT_MILESTONE_RULES, MilestoneRules, canPerformMilestoneAction, revisionCount } from '@/lib/milestoneWorkflow';
 
 interface MilestoneTrackerProps {
   milestones: Milestone[];
@@ -17,6 +19,7 @@ interface MilestoneTrackerProps {
   onViewDeliverables?: (milestoneId: string) => void;
   onDiscussMilestone?: (milestoneId: string) => void;
   currentUserRole?: 'client' | 'freelancer';
+  rules?: MilestoneRules;
 }
 
 export function MilestoneTracker({
@@ -26,13 +29,14 @@ export function MilestoneTracker({
   onApproveMilestone,
   onViewDeliverables,
   onDiscussMilestone,
-  currentUserRole = 'freelancer'
+  currentUserRole = 'freelancer',
+  rules = DEFAULT_MILESTONE_RULES
 }: MilestoneTrackerProps) {
   // Sort milestones by order
   const sortedMilestones = [...milestones].sort((a, b) => a.order - b.order);
 
   // Calculate progress
-  const completedMilestones = sortedMilestones.filter(m => m.status === 'APPROVED' || m.status === 'PAID').length;
+  const completedMilestones = sortedMilestones.filter(m => m.status === 'APPROVED').length;
   const totalMilestones = sortedMilestones.length;
   const progressPercentage = totalMilestones > 0 
     ? Math.round((completedMilestones / totalMilestones) * 100) 
@@ -81,9 +85,7 @@ export function MilestoneTracker({
             let statusIcon = null;
             
             switch (milestone.status) {
-              case 'COMPLETED':
               case 'APPROVED':
-              case 'PAID':
                 statusVariant = 'success';
                 statusIcon = <CheckCircle className="h-4 w-4" />;
                 break;
@@ -106,12 +108,12 @@ export function MilestoneTracker({
                 break;
             }
 
-            const isPastDue = new Date(milestone.deadline) < new Date() && !['APPROVED', 'PAID'].includes(milestone.status);
+            const isPastDue = new Date(milestone.deadline) < new Date() && milestone.status !== 'APPROVED';
             
             return (
               <div key={milestone.id} className="border rounded-lg overflow-hidden">
                 <div className={`p-4 border-b ${
-                  milestone.status === 'APPROVED' || milestone.status === 'PAID' ? 'bg-green-50 dark:bg-green-950/20' :
+                  milestone.status === 'APPROVED' ? 'bg-green-50 dark:bg-green-950/20' :
                   milestone.status === 'IN_PROGRESS' ? 'bg-blue-50 dark:bg-blue-950/20' :
                   milestone.status === 'SUBMITTED' ? 'bg-yellow-50 dark:bg-yellow-950/20 border-l-4 border-l-yellow-500' :
                   milestone.status === 'REVISION_REQUESTED' ? 'bg-orange-50 dark:bg-orange-950/20 border-l-4 border-l-orange-500' :
@@ -125,13 +127,19 @@ export function MilestoneTracker({
                         {isPastDue && (
                           <Badge variant="destructive" className="text-xs">PAST DUE</Badge>
                         )}
+                        <AutoApprovalCountdown milestone={milestone} rules={rules} />
                       </div>
                       <p className="text-sm text-muted-foreground mt-1">{milestone.description}</p>
+                      {revisionCount(milestone) > 0 && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Revisions: {revisionCount(milestone)}/{rules.maxRevisionsPerMilestone}
+                        </p>
+                      )}
                     </div>
                     <Badge
                       variant={statusVariant}
                       className={`text-xs flex items-center gap-1 ${
-                        isPastDue && milestone.status !== 'APPROVED' && milestone.status !== 'PAID'
+                        isPastDue
                           ? 'border-destructive text-destructive'
                           : ''
                       }`}
@@ -247,8 +255,7 @@ export function MilestoneTracker({
                     )}
 
                     {onApproveMilestone &&
-                     currentUserRole === 'client' &&
-                     milestone.status === 'SUBMITTED' && (
+                     canPerformMilestoneAction(milestone, 'APPROVE', currentUserRole, rules) && (
                       <Button
                         variant="outline"
                         size="sm"
@@ -261,8 +268,7 @@ export function MilestoneTracker({
                     )}
 
                     {onSubmitMilestone &&
-                     currentUserRole === 'freelancer' &&
-                     milestone.status === 'IN_PROGRESS' && (
+                     canPerformMilestoneAction(milestone, 'SUBMIT', currentUserRole, rules) && (
                       <Button
                         variant="outline"
                         size="sm"
@@ -270,7 +276,7 @@ export function MilestoneTracker({
                         className="text-blue-600 border-blue-600"
                       >
                         <Send className="h-4 w-4 mr-2" />
-                        Submit for Review
+                        {milestone.status === 'REVISION_REQUESTED' ? 'Resubmit' : 'Submit for Review'}
                       </Button>
                     )}
 
@@ -0,0 +1,85 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useProjectStore } from '@/lib/store/projectStore';
+import {
+  ActivityFilters,
+  activitiesToCsv,
+  activitiesToJson,
+  activityExportFilename,
+  filterActivities,
+  sortActivities,
+} from '@/lib/projectActivity';
+import { ActivityTimeline } from '@/components/projects/ActivityTimeline';
+
+interface ProjectActivityPanelProps {
+  projectId: string;
+}
+
+const download = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export function ProjectActivityPanel({ projectId }: ProjectActivityPanelProps) {
+  const { activities, milestones, activitiesHasMore, fetchActivities, fetchMoreActivities } = useProjectStore();
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchActivities(projectId)
+      .catch(err => console.error('Error loading activity:', err))
+      .finally(() => setLoading(false));
+  }, [projectId, fetchActivities]);
+
+  const projectActivities = useMemo(
+    () => activities.filter(activity => activity.projectId === projectId),
+    [activities, projectId]
+  );
+  const projectMilestones = useMemo(
+    () => milestones.filter(milestone => milestone.projectId === projectId),
+    [milestones, projectId]
+  );
+
+  const handleLoadMore = useCallback(() => {
+    setLoading(true);
+    fetchMoreActivities(projectId)
+      .catch(err => console.error('Error loading activity:', err))
+      .finally(() => setLoading(false));
+  }, [projectId, fetchMoreActivities]);
+
+  // Exports cover the whole history, not just the pages scrolled so far
+  const handleExport = async (format: 'csv' | 'json', filters: ActivityFilters) => {
+    setLoading(true);
+    try {
+      while (useProjectStore.getState().activitiesHasMore) {
+        await fetchMoreActivities(projectId);
+      }
+    } catch (err) {
+      console.error('Error loading activity for export:', err);
+      alert('Failed to load the full activity history for export.');
+      return;
+    } finally {
+      setLoading(false);
+    }
+    const all = useProjectStore.getState().activities.filter(activity => activity.projectId === projectId);
+    const exported = sortActivities(filterActivities(all, filters));
+    const content = format === 'csv' ? activitiesToCsv(exported) : activitiesToJson(projectId, exported);
+    download(activityExportFilename(projectId, format), content, format === 'csv' ? 'text/csv' : 'application/json');
+  };
+
+  return (
+    <ActivityTimeline
+      activities={projectActivities}
+      milestones={projectMilestones}
+      hasMore={activitiesHasMore}
+      loading={loading}
+      onLoadMore={handleLoadMore}
+      onExport={handleExport}
+    />
+  );
+}
@@ -2,7 +2,7 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
-import { formatCurrency, formatDate, formatRelativeDate } from '@/lib/utils';
+import { formatMinor, formatDate, formatRelativeDate } from '@/lib/utils';
 import { Project } from '@/types';
 import {
   Calendar as CalendarIcon,
@@ -99,7 +99,7 @@ export default function ProjectCard({
         <div className="grid grid-cols-2 gap-4 text-sm mb-3">
           <div className="flex items-center gap-2 text-muted-foreground">
             <FileText className="h-4 w-4" />
-            <span>{formatCurrency(project.totalBudget)}</span>
+            <span>{formatMinor(project.totalBudget)}</span>
           </div>
           <div className="flex items-center gap-2 text-muted-foreground">
             <CalendarIcon className="h-4 w-4" />
@@ -9,15 +9,20 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { MilestoneForm } from '@/components/projects/MilestoneForm';
+import { MilestoneAllocationEditor } from '@/components/projects/MilestoneAllocationEditor';
 import { useProjectStore } from '@/lib/store/projectStore';
-import { Project, Milestone } from '@/types';
+import { Milestone } from '@/types';
+import type { CreateProjectData } from '@/lib/api/projectService';
+import { Money } from '@/lib/money';
+import { formatMinor } from '@/lib/utils';
+import { addToAllocation, validateAllocation } from '@/lib/milestoneAllocation';
 import { Check, X, Plus, ArrowLeft, ArrowRight, DollarSign, Clock, Calendar, FileText, DollarIcon } from 'lucide-react';
 
 interface ProjectFormData {
   title: string;
   description: string;
   category: string;
-  totalBudget: number;
+  totalBudget: number; // in cents
   deadline: Date;
   autoApprovalPeriod: number;
   maxRevisionsPerMilestone: number;
@@ -38,6 +43,20 @@ export function ProjectCreationFlow() {
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<string>('');
   const { createProject, loading } = useProjectStore();
 
+  // Budget arithmetic stays in cents so milestone splits add up exactly
+  const budget = Money.fromMinorOrZero(projectData.totalBudget);
+  const milestoneTotal = Money.sum(milestones.map(m => Money.fromMinorOrZero(m.amount)), budget.currency);
+  const remainingBudget = budget.subtract(milestoneTotal);
+
+  const setMilestoneAmounts = (amounts: number[]) =>
+    setMilestones(current => current.map((m, i) => ({ ...m, amount: amounts[i] ?? m.amount })));
+
+  // New milestones take unallocated budget first; any overflow comes out of the others
+  const addMilestone = (milestone: Milestone) => {
+    const amounts = addToAllocation(budget, milestones.map(m => Money.fromMinorOrZero(m.amount)), Money.fromMinorOrZero(milestone.amount));
+    setMilestones([...milestones, milestone].map((m, i) => ({ ...m, amount: amounts[i].amount })));
+  };
+
   // Step 1: Project Details
   const ProjectDetailsStep = () => (
     <Card>
@@ -91,8 +110,8 @@ export function ProjectCreationFlow() {
               <Input
                 id="budget"
                 type="number"
-                value={projectData.totalBudget || ''}
-                onChange={(e) => setProjectData({...projectData, totalBudget: parseFloat(e.target.value) || 0})}
+                value={projectData.totalBudget ? budget.toMajor() : ''}
+                onChange={(e) => setProjectData({...projectData, totalBudget: Money.fromMajor(parseFloat(e.target.value) || 0).amount})}
                 placeholder="0.00"
                 className="pl-10"
               />
@@ -171,7 +190,7 @@ export function ProjectCreationFlow() {
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
                   <div>
-                    <span className="text-muted-foreground">Amount:</span> ${milestone.amount}
+                    <span className="text-muted-foreground">Amount:</span> {formatMinor(milestone.amount)}
                   </div>
                   <div>
                     <span className="text-muted-foreground">Deadline:</span> {milestone.deadline.toLocaleDateString()}
@@ -184,22 +203,29 @@ export function ProjectCreationFlow() {
             ))}
           </div>
           
+          <MilestoneAllocationEditor
+            budget={budget}
+            milestones={milestones}
+            onChange={setMilestoneAmounts}
+          />
+
           <MilestoneForm 
-            onAddMilestone={(milestone) => setMilestones([...milestones, milestone])}
+            onAddMilestone={addMilestone}
             projectStartDate={new Date()}
             projectEndDate={projectData.deadline}
-            remainingBudget={projectData.totalBudget - milestones.reduce((sum, m) => sum + m.amount, 0)}
+            totalBudget={budget.amount}
+            remainingBudget={remainingBudget.amount}
           />
           
           {milestones.length > 0 && (
             <div className="mt-4 p-3 bg-muted rounded-md">
               <div className="flex justify-between font-medium">
                 <span>Remaining Budget:</span>
-                <span>${(projectData.totalBudget - milestones.reduce((sum, m) => sum + m.amount, 0)).toFixed(2)}</span>
+                <span>{remainingBudget.format()}</span>
               </div>
-              {projectData.totalBudget - milestones.reduce((sum, m) => sum + m.amount, 0) !== 0 && (
+              {!remainingBudget.isZero() && (
                 <p className="text-xs text-red-600 mt-1">
-                  Milestone amounts must sum to total budget (${projectData.totalBudget.toFixed(2)})
+                  Milestone amounts must sum to total budget ({budget.format()})
                 </p>
               )}
             </div>
@@ -211,9 +237,8 @@ export function ProjectCreationFlow() {
 
   // Step 3: Funding Confirmation
   const FundingStep = () => {
-    const totalMilestoneAmount = milestones.reduce((sum, m) => sum + m.amount, 0);
-    const platformFee = totalMilestoneAmount * 0.05; // 5% platform fee
-    const totalAmount = totalMilestoneAmount + platformFee;
+    const platformFee = milestoneTotal.percentage(5); // 5% platform fee
+    const totalAmount = milestoneTotal.add(platformFee);
     
     return (
       <Card>
@@ -267,7 +292,7 @@ export function ProjectCreationFlow() {
                           <div className="text-sm text-muted-foreground">{milestone.description}</div>
                         </div>
                         <div className="text-right">
-                          <div className="font-medium">${milestone.amount.toFixed(2)}</div>
+                          <div className="font-medium">{formatMinor(milestone.amount)}</div>
                           <div className="text-sm text-muted-foreground">
                             {milestone.deadline.toLocaleDateString()}
                           </div>
@@ -289,15 +314,15 @@ export function ProjectCreationFlow() {
                   <div className="space-y-3">
                     <div className="flex justify-between">
                       <span>Subtotal:</span>
-                      <span>${totalMilestoneAmount.toFixed(2)}</span>
+                      <span>{milestoneTotal.format()}</span>
                     </div>
                     <div className="flex justify-between">
                       <span>Platform Fee (5%):</span>
-                      <span>${platformFee.toFixed(2)}</span>
+                      <span>{platformFee.format()}</span>
                     </div>
                     <div className="border-t pt-2 flex justify-between font-bold">
                       <span>Total Amount:</span>
-                      <span>${totalAmount.toFixed(2)}</span>
+                      <span>{totalAmount.format()}</span>
                     </div>
 
                     <div className="mt-4">
@@ -316,7 +341,7 @@ export function ProjectCreationFlow() {
                     
                     <Button 
                       className="w-full mt-4" 
-                      disabled={!selectedPaymentMethod || totalMilestoneAmount !== projectData.totalBudget}
+                      disabled={!selectedPaymentMethod || !milestoneTotal.equals(budget)}
                     >
                       <DollarSign className="h-4 w-4 mr-2" />
                       Confirm Funding
@@ -355,7 +380,7 @@ export function ProjectCreationFlow() {
                 </div>
                 <div>
                   <p className="text-sm text-muted-foreground">Total Budget</p>
-                  <p className="font-medium">${projectData.totalBudget.toFixed(2)}</p>
+                  <p className="font-medium">{budget.format()}</p>
                 </div>
                 <div>
                   <p className="text-sm text-muted-foreground">Deadline</p>
@@ -382,7 +407,7 @@ export function ProjectCreationFlow() {
                       <p className="text-sm text-muted-foreground">{milestone.description}</p>
                     </div>
                     <div className="text-right">
-                      <p className="font-medium">${milestone.amount.toFixed(2)}</p>
+                      <p className="font-medium">{formatMinor(milestone.amount)}</p>
                       <p className="text-sm text-muted-foreground">
                         Due: {milestone.deadline.toLocaleDateString()}
                       </p>
@@ -429,14 +454,15 @@ export function ProjectCreationFlow() {
   );
 
   const handleSubmit = async () => {
-    if (milestones.reduce((sum, m) => sum + m.amount, 0) !== projectData.totalBudget) {
-      alert('Milestone amounts must sum to total budget');
+    if (allocationProblem) {
+      alert(allocationProblem);
       return;
     }
     
     try {
       // Prepare project data for submission
-      const projectToCreate: Omit<Project, 'id' | 'clientId' | 'createdAt' | 'updatedAt' | 'milestones'> & { milestones: any[] } = {
+      // Fees and escrow are worked out by the backend when the project is created
+      const projectToCreate: CreateProjectData = {
         title: projectData.title,
         description: projectData.description,
         category: projectData.category,
@@ -444,18 +470,14 @@ export function ProjectCreationFlow() {
         timeline: `Until ${projectData.deadline.toLocaleDateString()}`,
         deadline: projectData.deadline,
         status: 'PENDING_ACCEPTANCE', // Start with pending acceptance
-        freelancerId: undefined, // No freelancer assigned yet
-        escrowAmount: projectData.totalBudget * 1.05, // Including platform fee
-        escrowStatus: 'NOT_DEPOSITED', // Will be updated after funding
-        platformFee: projectData.totalBudget * 0.05,
-        paymentProcessingFee: 0,
         autoApprovalPeriod: projectData.autoApprovalPeriod,
         maxRevisionsPerMilestone: projectData.maxRevisionsPerMilestone,
         milestones: milestones.map(m => ({
-          ...m,
-          deadline: m.deadline.toISOString(),
-          createdAt: m.createdAt.toISOString(),
-          updatedAt: m.updatedAt.toISOString(),
+          title: m.title,
+          description: m.description,
+          amount: m.amount,
+          deadline: m.deadline,
+          acceptanceCriteria: m.acceptanceCriteria,
         })),
       };
 
@@ -482,9 +504,8 @@ export function ProjectCreationFlow() {
     }
   };
 
-  // Calculate if milestone amounts match the budget (for validation)
-  const milestoneSum = milestones.reduce((sum, m) => sum + m.amount, 0);
-  const budgetValid = milestoneSum === projectData.totalBudget && projectData.totalBudget > 0;
+  // Milestone amounts must split the budget exactly (same check projectStore runs before creating)
+  const allocationProblem = validateAllocation(budget, milestones.map(m => Money.fromMinorOrZero(m.amount)));
 
   // Navigation functions
   const nextStep = () => {
@@ -498,8 +519,8 @@ export function ProjectCreationFlow() {
         alert('Please add at least one milestone');
         return;
       }
-      if (!budgetValid) {
-        alert('Milestone amounts must sum to total budget');
+      if (allocationProblem) {
+        alert(allocationProblem);
         return;
       }
     } else if (currentStep === 3) {
@@ -559,7 +580,8 @@ export function ProjectCreationFlow() {
 
       {/* Step content */}
       {currentStep === 1 && <ProjectDetailsStep />}
-      {currentStep === 2 && <MilestonesStep />}
+      {/* Called directly so the allocation inputs keep their state and focus between renders */}
+      {currentStep === 2 && MilestonesStep()}
       {currentStep === 3 && <FundingStep />}
       {currentStep === 4 && <ReviewStep />}
 
@@ -23,6 +23,7 @@ export const mockConfig = {
     disputes: true,
     users: true,
     messaging: true, // Added messaging to the features
+    realtime: true, // Simulated live project, milestone and notification updates
   },
 
   // Debug mode for mock data
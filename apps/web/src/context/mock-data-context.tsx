@@ -114,7 +114,7 @@ export const MockDataProvider: React.FC<MockDataProviderProps> = ({ children })
 
   const submitMilestone = async (milestoneId: string): Promise<Milestone> => {
     const updatedMilestones = milestones.map(m => 
-      m.id === milestoneId ? { ...m, status: 'SUBMITTED', updatedAt: new Date() } : m
+      m.id === milestoneId ? { ...m, status: 'SUBMITTED' as const, updatedAt: new Date() } : m
     );
     setMilestones(updatedMilestones);
     return updatedMilestones.find(m => m.id === milestoneId)!;
@@ -122,7 +122,7 @@ export const MockDataProvider: React.FC<MockDataProviderProps> = ({ children })
 
   const approveMilestone = async (milestoneId: string): Promise<Milestone> => {
     const updatedMilestones = milestones.map(m => 
-      m.id === milestoneId ? { ...m, status: 'APPROVED', updatedAt: new Date() } : m
+      m.id === milestoneId ? { ...m, status: 'APPROVED' as const, updatedAt: new Date() } : m
     );
     setMilestones(updatedMilestones);
     return updatedMilestones.find(m => m.id === milestoneId)!;
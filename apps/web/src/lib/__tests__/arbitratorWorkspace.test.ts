@@ -0,0 +1,128 @@
+import { Dispute } from '@/types';
+import { Money } from '../money';
+import {
+  DecisionDraft,
+  arbitratorCaseQueue,
+  assignmentOf,
+  conflictsOfInterest,
+  draftFromAnalysis,
+  draftResolution,
+  toDisputeDecision,
+  validateDecisionDraft,
+} from '../arbitratorWorkspace';
+import { daysAgo, disputeFixture, now } from '@/__tests__/fixtures/disputes';
+
+const dispute = (overrides: Partial<Dispute> = {}): Dispute =>
+  disputeFixture({ status: 'IN_ARBITRATION', arbitrator: 'arbitrator-1', updatedAt: daysAgo(2), ...overrides });
+
+const disputedAmount = Money.fromMinor(100000);
+const draft = (overrides: Partial<DecisionDraft> = {}): DecisionDraft => ({
+  decision: 'PARTIAL_SPLIT',
+  clientAmount: 40000,
+  freelancerAmount: 60000,
+  rationale: 'Most of the milestone was delivered as agreed',
+  decisionNotes: '',
+  ...overrides,
+});
+
+describe('arbitrator workspace', () => {
+  it('should queue only the cases waiting on this neutral', () => {
+    const disputes = [
+      dispute({ id: 'recent', updatedAt: daysAgo(1) }),
+      dispute({ id: 'other-arbitrator', arbitrator: 'arbitrator-2' }),
+      dispute({ id: 'mediation', status: 'IN_MEDIATION', arbitrator: undefined, mediator: 'arbitrator-1', updatedAt: daysAgo(6) }),
+      dispute({ id: 'resolved', status: 'RESOLVED' }),
+    ];
+
+    const queue = arbitratorCaseQueue(disputes, 'arbitrator-1', now);
+
+    expect(queue.map(entry => entry.dispute.id).sort()).toEqual(['mediation', 'recent']);
+    expect(queue.find(entry => entry.dispute.id === 'mediation')?.assignment).toBe('mediation');
+    expect(queue.every(entry => entry.sla)).toBe(true);
+  });
+
+  it('should assign a pending appeal to its reviewer', () => {
+    const appealed = dispute({
+      status: 'ESCALATED',
+      appeals: [{
+        id: 'appeal-1',
+        appellant: 'client',
+        appellantId: 'client-1',
+        reason: 'The brief was ignored',
+        fee: { amount: 5000, currency: 'USD', paid: true },
+        reviewerId: 'arbitrator-2',
+        status: 'PENDING_REVIEW',
+        originalResolution: {
+          decision: 'Split',
+          amountToFreelancer: 70000,
+          amountToClient: 30000,
+          decisionReason: 'Partially delivered',
+          decidedBy: 'arbitrator-1',
+          decidedAt: daysAgo(3),
+        },
+        submittedAt: daysAgo(1),
+      }],
+    });
+
+    expect(assignmentOf(appealed, 'arbitrator-2')).toBe('appeal_review');
+    expect(assignmentOf(appealed, 'arbitrator-1')).toBeNull();
+  });
+
+  it('should flag past projects with either party', () => {
+    const disputed = { id: 'proj-1', title: 'Website', clientId: 'client-1', freelancerId: 'freelancer-1' };
+    const projects = [
+      disputed,
+      { id: 'proj-2', title: 'Logo', clientId: 'arbitrator-1', freelancerId: 'freelancer-1' },
+      { id: 'proj-3', title: 'App', clientId: 'client-9', freelancerId: 'arbitrator-1' },
+      { id: 'proj-4', title: 'Copy', clientId: 'client-1', freelancerId: 'freelancer-7' },
+    ];
+
+    expect(conflictsOfInterest('arbitrator-1', disputed, projects)).toEqual([
+      { projectId: 'proj-2', projectTitle: 'Logo', party: 'freelancer', reason: 'You worked with the freelancer on Logo' },
+    ]);
+    expect(conflictsOfInterest('client-1', disputed, projects)[0].reason).toBe('You are a party to this project');
+    expect(conflictsOfInterest('arbitrator-3', disputed, projects)).toEqual([]);
+  });
+
+  it('should validate a draft against the disputed amount', () => {
+    expect(validateDecisionDraft(draft(), disputedAmount)).toBeNull();
+    expect(validateDecisionDraft(draft({ clientAmount: 30000 }), disputedAmount)).toMatch(/must add up to the disputed amount/);
+    expect(validateDecisionDraft(draft({ rationale: 'Too short' }), disputedAmount)).toMatch(/at least 20 characters/);
+    expect(validateDecisionDraft(draft({ decision: 'CLIENT_FAVOR' }), disputedAmount)).toMatch(/awards the freelancer nothing/);
+    expect(validateDecisionDraft(draft({ decision: 'REVISION_REQUIRED', clientAmount: 0, freelancerAmount: 0 }), disputedAmount)).toBeNull();
+  });
+
+  it('should prefill the draft from the AI recommendation', () => {
+    const analysis = {
+      confidenceLevel: 80,
+      keyIssues: ['Late delivery'],
+      recommendedResolution: { decision: 'partial_payment' as const, amountToFreelancer: 75, amountToClient: 25 },
+      reasoning: 'The deliverable was late but complete',
+      suggestions: [],
+    };
+
+    expect(draftFromAnalysis(analysis, disputedAmount)).toMatchObject({
+      decision: 'PARTIAL_SPLIT',
+      freelancerAmount: 75000,
+      clientAmount: 25000,
+      rationale: 'The deliverable was late but complete',
+    });
+  });
+
+  it('should produce a resolution and record it on the dispute', () => {
+    const resolution = draftResolution('disp-1', draft(), { id: 'arbitrator-1', role: 'arbitrator' }, disputedAmount, now);
+
+    expect(resolution).toMatchObject({ disputeId: 'disp-1', resolvedBy: 'arbitrator-1', resolverRole: 'arbitrator', clientAmount: 40000 });
+    expect(toDisputeDecision(resolution, true)).toEqual({
+      decision: 'Split between the parties',
+      amountToFreelancer: 60000,
+      amountToClient: 40000,
+      decisionReason: 'Most of the milestone was delivered as agreed',
+      decidedBy: 'arbitrator-1',
+      decidedAt: now,
+      aiRecommended: true,
+    });
+    expect(() => draftResolution('disp-1', draft({ freelancerAmount: 1 }), { id: 'arbitrator-1', role: 'arbitrator' }, disputedAmount, now))
+      .toThrow(/must add up/);
+  });
+});
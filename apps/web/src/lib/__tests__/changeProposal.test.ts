@@ -0,0 +1,132 @@
+import { ChangeProposal } from '@/types';
+import {
+  approvalPatch,
+  counterPropose,
+  diffProposal,
+  diffWords,
+  proposalImpact,
+  proposalThreads,
+  resolveProposal,
+  revertPatch,
+} from '../changeProposal';
+
+const proposal = (overrides: Partial<ChangeProposal> = {}): ChangeProposal => ({
+  id: 'proposal-1',
+  projectId: 'proj-1',
+  milestoneId: 'ms-3',
+  proposer: 'freelancer',
+  status: 'PENDING',
+  originalValues: {
+    amount: 150000,
+    deadline: new Date('2024-04-15T00:00:00Z'),
+    description: 'Build the REST API',
+  },
+  proposedValues: {
+    amount: 190000,
+    deadline: new Date('2024-04-29T00:00:00Z'),
+    description: 'Build the REST API and webhooks',
+  },
+  reason: 'Webhooks were added to the scope',
+  createdAt: new Date('2024-03-01T10:00:00Z'),
+  updatedAt: new Date('2024-03-01T10:00:00Z'),
+  ...overrides,
+});
+
+const milestone = {
+  id: 'ms-3',
+  title: 'Backend',
+  description: 'Build the REST API',
+  amount: 150000,
+  deadline: new Date('2024-04-15T00:00:00Z'),
+};
+
+describe('change proposal diffs', () => {
+  it('lists only the changed fields with their deltas', () => {
+    const diffs = diffProposal(proposal({ proposedValues: { amount: 190000, deadline: new Date('2024-04-29T00:00:00Z'), title: undefined } }));
+
+    expect(diffs.map(diff => diff.field)).toEqual(['amount', 'deadline']);
+    expect(diffs[0]).toMatchObject({ before: '$1,500.00', after: '$1,900.00', delta: 40000 });
+    expect(diffs[1]).toMatchObject({ before: '2024-04-15', after: '2024-04-29', delta: 14 });
+  });
+
+  it('diffs descriptions word by word', () => {
+    expect(diffWords('Build the REST API', 'Build the GraphQL API and webhooks')).toEqual([
+      { type: 'same', text: 'Build the ' },
+      { type: 'removed', text: 'REST' },
+      { type: 'added', text: 'GraphQL' },
+      { type: 'same', text: ' API' },
+      { type: 'added', text: ' and webhooks' },
+    ]);
+  });
+});
+
+describe('counter-proposals', () => {
+  it('chains a counter to the proposal it answers', () => {
+    const now = new Date('2024-03-02T09:00:00Z');
+    const { countered, counter } = counterPropose(
+      proposal(),
+      { proposer: 'client', proposedValues: { amount: 175000 }, reason: 'Meet halfway' },
+      now
+    );
+
+    expect(countered.status).toBe('COUNTERED');
+    expect(counter).toMatchObject({ status: 'PENDING', proposer: 'client', parentProposalId: 'proposal-1' });
+    expect(counter.proposedValues.amount).toBe(175000);
+    expect(counter.originalValues).toEqual(proposal().originalValues);
+
+    const threads = proposalThreads([counter, countered, proposal({ id: 'proposal-9', milestoneId: 'ms-1' })], 'ms-3');
+    expect(threads).toHaveLength(1);
+    expect(threads[0].map(item => item.id)).toEqual(['proposal-1', counter.id]);
+  });
+
+  it('refuses replies that are not allowed', () => {
+    const input = { proposer: 'client' as const, proposedValues: { amount: 175000 }, reason: 'Meet halfway' };
+
+    expect(() => counterPropose(proposal({ status: 'APPROVED' }), input)).toThrow(expect.objectContaining({ status: 409 }));
+    expect(() => counterPropose(proposal(), { ...input, proposer: 'freelancer' })).toThrow(expect.objectContaining({ status: 403 }));
+    expect(() => counterPropose(proposal(), { ...input, proposedValues: { amount: 190000 } })).toThrow(expect.objectContaining({ status: 400 }));
+    expect(() => resolveProposal(proposal(), 'APPROVED', 'freelancer', 'user-2')).toThrow(expect.objectContaining({ status: 403 }));
+  });
+});
+
+describe('approval', () => {
+  it('patches the milestone and can put it back', () => {
+    const patch = approvalPatch(proposal(), milestone);
+
+    expect(patch).toEqual({
+      amount: 190000,
+      deadline: new Date('2024-04-29T00:00:00Z'),
+      description: 'Build the REST API and webhooks',
+    });
+    expect(revertPatch(proposal())).toEqual({
+      amount: 150000,
+      deadline: new Date('2024-04-15T00:00:00Z'),
+      description: 'Build the REST API',
+    });
+  });
+
+  it('refuses to approve against a milestone that has changed since', () => {
+    expect(() => approvalPatch(proposal(), { ...milestone, amount: 160000 })).toThrow(
+      expect.objectContaining({ status: 409, details: expect.objectContaining({ fields: ['amount'] }) })
+    );
+  });
+
+  it('works out the budget change and the escrow top-up', () => {
+    const impact = proposalImpact(
+      proposal(),
+      [
+        { id: 'ms-1', amount: 100000, status: 'APPROVED' },
+        { id: 'ms-2', amount: 200000, status: 'IN_PROGRESS' },
+        { id: 'ms-3', amount: 150000, status: 'PENDING' },
+      ],
+      350000
+    );
+
+    expect(impact.amountDelta.amount).toBe(40000);
+    expect(impact.budgetBefore.amount).toBe(450000);
+    expect(impact.budgetAfter.amount).toBe(490000);
+    expect(impact.outstandingAfter.amount).toBe(390000);
+    expect(impact.escrowTopUp.amount).toBe(40000);
+    expect(impact.deadlineShiftDays).toBe(14);
+  });
+});
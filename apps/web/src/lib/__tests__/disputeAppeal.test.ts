@@ -0,0 +1,164 @@
+import { Dispute } from '@/types';
+import { buildProjectLedger, postTransaction } from '../escrowLedger';
+import { Money } from '../money';
+import {
+  appealEligibility,
+  appealFee,
+  appealFeeTransaction,
+  appealOutcomes,
+  assignAppealReviewer,
+  createAppeal,
+  reviewAppeal,
+} from '../disputeAppeal';
+import { daysAgo, disputeFixture, now } from '@/__tests__/fixtures/disputes';
+
+const resolution = {
+  decision: 'Release 70% to the freelancer',
+  amountToFreelancer: 70000,
+  amountToClient: 30000,
+  decisionReason: 'Partially delivered',
+  decidedBy: 'arbitrator-1',
+  decidedAt: daysAgo(3),
+};
+
+const resolved = (overrides: Partial<Dispute> = {}): Dispute => disputeFixture({
+  status: 'RESOLVED',
+  arbitrator: 'arbitrator-1',
+  resolution,
+  createdAt: daysAgo(30),
+  updatedAt: daysAgo(3),
+  ...overrides,
+});
+
+const milestoneAmount = Money.fromMinor(100000);
+const reviewers = [
+  { id: 'arbitrator-1', openCases: 0 },
+  { id: 'arbitrator-2', openCases: 4 },
+  { id: 'arbitrator-3', openCases: 2 },
+];
+const context = { projectId: 'proj-1', milestoneId: 'ms-1', clientId: 'client-1', freelancerId: 'freelancer-1', currency: 'USD' };
+
+const appealed = () => createAppeal(resolved(), {
+  appellant: 'client',
+  appellantId: 'client-1',
+  reason: 'The arbitrator ignored the signed brief',
+  fee: appealFee(milestoneAmount),
+  feePaid: true,
+  reviewerId: assignAppealReviewer(resolved(), reviewers),
+}, now);
+
+describe('dispute appeals', () => {
+  it('should only allow one paid appeal while the resolved window is open', () => {
+    expect(appealFee(milestoneAmount).amount).toBe(5000);
+    expect(appealFee(Money.fromMinor(20000)).amount).toBe(2500);
+
+    expect(appealEligibility(resolved(), 'freelancer', milestoneAmount, now)).toEqual({
+      eligible: true,
+      closesAt: new Date(daysAgo(-11)),
+      fee: Money.fromMinor(5000),
+    });
+    expect(appealEligibility(resolved({ resolution: { ...resolution, decidedAt: daysAgo(15) } }), 'client', milestoneAmount, now))
+      .toMatchObject({ eligible: false, reason: 'The appeal window has closed' });
+    expect(appealEligibility(resolved({ status: 'IN_ARBITRATION' }), 'client', milestoneAmount, now).eligible).toBe(false);
+    expect(appealEligibility({ ...appealed(), status: 'RESOLVED' }, 'client', milestoneAmount, now))
+      .toMatchObject({ eligible: false, reason: 'This dispute has already been appealed' });
+
+    expect(() => createAppeal(resolved(), {
+      appellant: 'client',
+      appellantId: 'client-1',
+      reason: 'Unpaid',
+      fee: Money.fromMinor(5000),
+      feePaid: false,
+      reviewerId: 'arbitrator-3',
+    }, now)).toThrow('The appeal fee must be paid before the appeal is filed');
+  });
+
+  it('should book the appeal fee as a FEE transaction charged to the appellant', () => {
+    const fee = appealFeeTransaction(appealFee(milestoneAmount), 'freelancer-1', { ...context, disputeId: 'disp-1' }, now);
+    expect(fee).toMatchObject({
+      id: 'tx-disp-1-appeal-fee',
+      type: 'FEE',
+      fromUserId: 'freelancer-1',
+      toUserId: 'platform',
+      amount: 5000,
+      referenceId: 'disp-1',
+      status: 'COMPLETED',
+    });
+    // Paid by the party, so escrow is untouched
+    expect(postTransaction(fee, 'client-1')).toMatchObject({ kind: 'fee', debit: 'platform', credit: 'freelancer' });
+    expect(postTransaction({ ...fee, fromUserId: 'client-1' }, 'client-1')).toMatchObject({ credit: 'client' });
+  });
+
+  it('should assign the least busy reviewer who did not decide the case', () => {
+    expect(assignAppealReviewer(resolved(), reviewers)).toBe('arbitrator-3');
+    expect(() => assignAppealReviewer(resolved(), reviewers.slice(0, 1))).toThrow('No reviewer is available');
+
+    const dispute = appealed();
+    expect(dispute.status).toBe('ESCALATED');
+    expect(dispute.appeals).toEqual([expect.objectContaining({
+      appellant: 'client',
+      reviewerId: 'arbitrator-3',
+      status: 'PENDING_REVIEW',
+      fee: { amount: 5000, currency: 'USD', paid: true },
+      originalResolution: resolution,
+    })]);
+    expect(() => reviewAppeal(dispute, { reviewerId: 'arbitrator-1', decision: 'REJECTED', decisionReason: 'No new evidence' }, context, now))
+      .toThrow('Only the assigned reviewer can decide this appeal');
+  });
+
+  it('should uphold a rejected appeal and send an approved one back to arbitration', () => {
+    const rejected = reviewAppeal(appealed(), { reviewerId: 'arbitrator-3', decision: 'REJECTED', decisionReason: 'No new evidence' }, context, now);
+    expect(rejected.dispute).toMatchObject({ status: 'RESOLVED', resolution });
+    expect(rejected.appeal).toMatchObject({ status: 'REJECTED', outcome: 'UPHELD' });
+    expect(rejected.transactions).toEqual([]);
+
+    const reopened = reviewAppeal(appealed(), {
+      reviewerId: 'arbitrator-3',
+      decision: 'APPROVED',
+      outcome: 'REOPEN',
+      decisionReason: 'The brief needs a full hearing',
+    }, context, now);
+    expect(reopened.dispute).toMatchObject({ status: 'IN_ARBITRATION', arbitrator: 'arbitrator-3', resolution: null });
+    expect(appealOutcomes(reopened.appeal)[0]).toEqual({
+      label: 'Decision',
+      original: 'Release 70% to the freelancer',
+      appealed: 'Back in arbitration',
+      changed: false,
+    });
+  });
+
+  it('should apply a revised resolution with compensating escrow transactions', () => {
+    const review = {
+      reviewerId: 'arbitrator-3',
+      decision: 'APPROVED' as const,
+      outcome: 'REVISE' as const,
+      decisionReason: 'The brief was signed off',
+      revisedResolution: { ...resolution, decision: 'Release 50% to the freelancer', amountToFreelancer: 50000, amountToClient: 50000 },
+    };
+    expect(() => reviewAppeal(appealed(), { ...review, revisedResolution: { ...review.revisedResolution, amountToClient: 60000 } }, context, now))
+      .toThrow('The revised amounts must add up to the original award ($1,000.00)');
+
+    const revised = reviewAppeal(appealed(), review, context, now);
+    expect(revised.dispute).toMatchObject({
+      status: 'RESOLVED',
+      resolution: { amountToFreelancer: 50000, decidedBy: 'arbitrator-3', decidedAt: now },
+    });
+    expect(revised.transactions.map(({ type, fromUserId, toUserId, amount }) => ({ type, fromUserId, toUserId, amount }))).toEqual([
+      { type: 'DISPUTE_REVERSAL', fromUserId: 'freelancer-1', toUserId: 'escrow', amount: 20000 },
+      { type: 'DISPUTE_SETTLEMENT', fromUserId: 'escrow', toUserId: 'client-1', amount: 20000 },
+    ]);
+    expect(revised.appeal.compensatingTransactionIds).toEqual(revised.transactions.map(transaction => transaction.id));
+
+    // The compensation leaves escrow where the original settlement did
+    const ledger = buildProjectLedger('proj-1', revised.transactions);
+    expect(ledger.totals.held.amount).toBe(0);
+
+    expect(appealOutcomes(revised.appeal).filter(row => row.changed).map(row => [row.label, row.original, row.appealed])).toEqual([
+      ['Decision', 'Release 70% to the freelancer', 'Release 50% to the freelancer'],
+      ['To freelancer', '$700.00', '$500.00'],
+      ['To client', '$300.00', '$500.00'],
+      ['Decided by', 'arbitrator-1', 'arbitrator-3'],
+      ['Decided on', new Date(daysAgo(3)).toLocaleDateString(), now.toLocaleDateString()],
+    ]);
+  });
+});
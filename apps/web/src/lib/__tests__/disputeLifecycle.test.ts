@@ -0,0 +1,85 @@
+import {
+  applyTransition,
+  availableTransitions,
+  canTransition,
+  disputeDeadline,
+  normalizeDisputeStatus,
+  phaseStartedAt,
+  validateTransition,
+} from '../disputeLifecycle';
+import { daysAgo, disputeFixture, now } from '@/__tests__/fixtures/disputes';
+
+const dispute = (status: string, phaseDaysAgo = 1) => disputeFixture({ status, phaseStartedAt: daysAgo(phaseDaysAgo) });
+
+const actionsFor = (status: string, actor: Parameters<typeof availableTransitions>[1], phaseDaysAgo = 1) =>
+  availableTransitions(dispute(status, phaseDaysAgo), actor, now).map(transition => transition.action);
+
+describe('dispute lifecycle', () => {
+  it('should map legacy status names onto the lifecycle', () => {
+    expect(normalizeDisputeStatus('MEDIATION')).toBe('IN_MEDIATION');
+    expect(normalizeDisputeStatus('open')).toBe('PENDING_REVIEW');
+    expect(normalizeDisputeStatus('ESCALATED')).toBe('ESCALATED');
+    expect(normalizeDisputeStatus('closed')).toBe('RESOLVED');
+    expect(() => normalizeDisputeStatus('ARCHIVED')).toThrow('Unknown dispute status "ARCHIVED"');
+    expect(() => normalizeDisputeStatus(undefined)).toThrow('Unknown dispute status ""');
+  });
+
+  it('should time the phase from when it was entered, not the last update', () => {
+    const mediation = disputeFixture({ status: 'IN_MEDIATION', phaseStartedAt: daysAgo(4), updatedAt: daysAgo(0) });
+    expect(phaseStartedAt(mediation)).toEqual(daysAgo(4));
+    // A dispute still awaiting its fee counts from when it was filed
+    expect(phaseStartedAt(disputeFixture({ status: 'PENDING_FEE', phaseStartedAt: undefined }))).toEqual(daysAgo(10));
+    // Without a recorded entry time a later phase has no deadline
+    expect(disputeDeadline(disputeFixture({ phaseStartedAt: undefined }))).toBeNull();
+  });
+
+  it('should only offer each party the actions legal in the current status', () => {
+    expect(actionsFor('PENDING_FEE', 'client')).toEqual(['PAY_FEE', 'WITHDRAW']);
+    expect(actionsFor('IN_MEDIATION', 'freelancer')).toEqual(['JOIN_MEDIATION', 'SUBMIT_EVIDENCE', 'ESCALATE_TO_ARBITRATION']);
+    expect(actionsFor('IN_MEDIATION', 'mediator')).toEqual(['JOIN_MEDIATION', 'SETTLE', 'ESCALATE_TO_ARBITRATION']);
+    expect(actionsFor('IN_ARBITRATION', 'client')).toEqual(['SUBMIT_EVIDENCE']);
+    expect(actionsFor('AWAITING_OUTCOME', ['mediator', 'arbitrator'])).toEqual([]);
+    expect(canTransition(dispute('RESOLVED'), 'APPEAL', 'freelancer', now)).toBe(true);
+    expect(canTransition(dispute('RESOLVED'), 'APPEAL', 'arbitrator', now)).toBe(false);
+  });
+
+  it('should open and close actions around the phase deadline', () => {
+    // Mediation runs for ten days before the system may escalate it
+    expect(actionsFor('IN_MEDIATION', 'system', 3)).toEqual([]);
+    expect(actionsFor('IN_MEDIATION', 'system', 11)).toEqual(['ESCALATE_TO_ARBITRATION']);
+    // The appeal window counts from the decision, not the last update
+    const resolved = { ...dispute('RESOLVED', 1), resolution: { decidedAt: daysAgo(15) } };
+    expect(canTransition(resolved, 'APPEAL', 'client', now)).toBe(false);
+    expect(validateTransition(resolved, 'APPEAL', 'client', { reason: 'New evidence' }, now))
+      .toBe('The deadline to submit appeal has passed');
+    expect(disputeDeadline(resolved)).toEqual(daysAgo(1));
+  });
+
+  it('should require the payload each transition depends on', () => {
+    expect(validateTransition(dispute('PENDING_FEE'), 'PAY_FEE', 'client', {}, now))
+      .toBe('Pay dispute fee requires fee paid');
+    expect(validateTransition(dispute('IN_ARBITRATION'), 'DECIDE', 'arbitrator', { resolution: {} }, now))
+      .toBe('Issue decision requires evidence window closed');
+    expect(validateTransition(dispute('IN_ARBITRATION'), 'DECIDE', 'arbitrator', { resolution: {}, evidenceWindowClosed: true }, now))
+      .toBeNull();
+  });
+
+  it('should apply legal transitions and reject the rest', () => {
+    const paid = applyTransition(dispute('PENDING_FEE'), 'PAY_FEE', 'freelancer', { feePaid: true }, now);
+    expect(paid).toMatchObject({
+      status: 'PENDING_REVIEW',
+      resolutionPhase: 'REVIEW',
+      phaseStartedAt: now,
+      updatedAt: now,
+    });
+
+    // Joining a session leaves the dispute where it is
+    const mediation = dispute('IN_MEDIATION');
+    expect(applyTransition(mediation, 'JOIN_MEDIATION', 'client', {}, now)).toBe(mediation);
+
+    expect(() => applyTransition(dispute('PENDING_REVIEW'), 'APPEAL', 'client', { reason: 'Unfair' }, now))
+      .toThrow('Cannot appeal a dispute that is pending review');
+    expect(() => applyTransition(dispute('IN_ARBITRATION'), 'DECIDE', 'client', {}, now))
+      .toThrow('The client cannot decide at this stage');
+  });
+});
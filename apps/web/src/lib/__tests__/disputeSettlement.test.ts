@@ -0,0 +1,98 @@
+import { Money } from '../money';
+import {
+  calculateSettlement,
+  splitAmountsOf,
+  splitByPercentage,
+  splitFromAmounts,
+} from '../disputeSettlement';
+
+const usd = (amount: number) => Money.fromMinor(amount, 'USD');
+
+const linesOf = (party: { lines: { label: string; amount: Money }[] }) =>
+  party.lines.map(entry => [entry.label, entry.amount.amount]);
+
+describe('dispute settlement', () => {
+  it('should build a split from a percentage or from resolution amounts', () => {
+    const split = splitByPercentage(usd(100001), 60);
+    expect(split.freelancerAmount.amount + split.clientAmount.amount).toBe(100001);
+    expect(split.freelancerAmount.amount).toBe(60001);
+
+    expect(splitFromAmounts(usd(100000), { amountToClient: 30000, amountToFreelancer: 70000 }).freelancerAmount.amount).toBe(70000);
+    // Amounts based on another total are scaled to the milestone
+    const scaled = splitFromAmounts(usd(150000), { amountToClient: 0, amountToFreelancer: 125000 });
+    expect([scaled.freelancerAmount.amount, scaled.clientAmount.amount]).toEqual([150000, 0]);
+
+    expect(splitAmountsOf('60% freelancer, 40% client')).toBeUndefined();
+    expect(splitAmountsOf({ amountToClient: 100, amountToFreelancer: 200.5 })).toBeUndefined();
+    expect(splitAmountsOf({ decision: 'split', amountToClient: 100, amountToFreelancer: 200 }))
+      .toEqual({ amountToClient: 100, amountToFreelancer: 200 });
+    expect(() => splitByPercentage(usd(100), 120)).toThrow('Freelancer share must be between 0% and 100%, got 120%');
+  });
+
+  it('should itemise a 60/40 split of funds still held in escrow', () => {
+    const breakdown = calculateSettlement({
+      milestoneAmount: usd(100000),
+      split: splitByPercentage(usd(100000), 60),
+      disputeFee: { clientFee: usd(5000), freelancerFee: usd(5000) },
+    });
+
+    expect(linesOf(breakdown.client)).toEqual([
+      ['Refund from escrow', 40000],
+      ['Dispute fee refund', 2000],
+    ]);
+    expect(breakdown.client.net.amount).toBe(42000);
+    expect(breakdown.client.disputeFeeForfeited.amount).toBe(3000);
+
+    expect(linesOf(breakdown.freelancer)).toEqual([
+      ['Release from escrow', 60000],
+      ['Platform fee (3.6%)', -2160],
+      ['Dispute fee refund', 3000],
+    ]);
+    expect(breakdown.freelancer.net.amount).toBe(60840);
+
+    expect(breakdown.escrow.releasedToFreelancer.add(breakdown.escrow.refundedToClient).equals(breakdown.heldAmount)).toBe(true);
+    expect(breakdown.platform.platformFees.amount).toBe(2160);
+    expect(breakdown.platform.disputeFees.amount).toBe(5000);
+  });
+
+  it('should recover funds released beyond the freelancer share', () => {
+    const breakdown = calculateSettlement({
+      milestoneAmount: usd(100000),
+      releasedAmount: usd(80000),
+      split: splitByPercentage(usd(100000), 50),
+      disputeFee: { clientFee: usd(5000), freelancerFee: usd(5000), freelancerFeePaid: false },
+    });
+
+    expect(breakdown.heldAmount.amount).toBe(20000);
+    expect(linesOf(breakdown.client)).toEqual([
+      ['Refund from escrow', 20000],
+      ['Recovered from earlier release', 30000],
+      ['Dispute fee refund', 2500],
+    ]);
+    expect(linesOf(breakdown.freelancer)).toEqual([
+      ['Repayment of earlier release, net of fees', -28920],
+    ]);
+    expect(breakdown.freelancer.net.isNegative()).toBe(true);
+    expect(breakdown.freelancer.disputeFeeForfeited.isZero()).toBe(true);
+    expect(breakdown.escrow.releasedToFreelancer.isZero()).toBe(true);
+    expect(breakdown.platform.platformFees.amount).toBe(-1080);
+    expect(breakdown.platform.disputeFees.amount).toBe(2500);
+  });
+
+  it('should reject splits that cannot be settled', () => {
+    const milestoneAmount = usd(100000);
+    expect(() => calculateSettlement({
+      milestoneAmount,
+      split: { clientAmount: usd(50000), freelancerAmount: usd(40000) },
+    })).toThrow('The split ($900.00) must add up to the milestone amount ($1,000.00)');
+    expect(() => calculateSettlement({
+      milestoneAmount,
+      releasedAmount: usd(120000),
+      split: splitByPercentage(milestoneAmount, 50),
+    })).toThrow('Released funds ($1,200.00) exceed the milestone amount ($1,000.00)');
+    expect(() => calculateSettlement({
+      milestoneAmount,
+      split: { clientAmount: Money.fromMinor(50000, 'EUR'), freelancerAmount: usd(50000) },
+    })).toThrow('Settlement amounts must be in USD, got EUR');
+  });
+});
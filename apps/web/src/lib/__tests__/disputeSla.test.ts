@@ -0,0 +1,99 @@
+import {
+  disputeSla,
+  disputeSlaPolicy,
+  evaluateDisputeEscalation,
+  formatSlaRemaining,
+  msUntilNextSlaLevel,
+  sortByBreachRisk,
+} from '../disputeSla';
+import { daysAgo, disputeFixture, now } from '@/__tests__/fixtures/disputes';
+
+const dispute = (id: string, status: string, phaseDaysAgo: number) =>
+  disputeFixture({ id, status, updatedAt: daysAgo(0), phaseStartedAt: daysAgo(phaseDaysAgo) });
+
+describe('dispute SLAs', () => {
+  it('should rate each phase against its window', () => {
+    const mediation = disputeSla(dispute('d1', 'IN_MEDIATION', 2), undefined, now);
+    expect(mediation).toMatchObject({ phase: 'IN_MEDIATION', level: 'on_track', deadline: new Date(daysAgo(-8)) });
+    expect(formatSlaRemaining(mediation!)).toBe('8d 0h left');
+
+    const arbitration = disputeSla(dispute('d2', 'IN_ARBITRATION', 6), undefined, now);
+    expect(arbitration?.level).toBe('at_risk');
+    expect(formatSlaRemaining(arbitration!)).toBe('1d 0h left');
+
+    const review = disputeSla(dispute('d3', 'PENDING_REVIEW', 3), undefined, now);
+    expect(review?.level).toBe('breached');
+    expect(formatSlaRemaining(review!)).toBe('Overdue by 1d 0h');
+
+    // Updates within a phase do not restart its clock, and without an entry time there is no SLA to rate
+    expect(disputeSla({ status: 'IN_MEDIATION', updatedAt: daysAgo(2) }, undefined, now)).toBeNull();
+    expect(disputeSla(dispute('d4', 'RESOLVED', 1), undefined, now)).toBeNull();
+  });
+
+  it('should know when the level next changes', () => {
+    const day = 24 * 60 * 60 * 1000;
+    expect(msUntilNextSlaLevel(disputeSla(dispute('d1', 'IN_MEDIATION', 2), undefined, now)!)).toBeCloseTo(5.5 * day);
+    expect(msUntilNextSlaLevel(disputeSla(dispute('d2', 'IN_ARBITRATION', 6), undefined, now)!)).toBe(day);
+    expect(msUntilNextSlaLevel(disputeSla(dispute('d3', 'PENDING_REVIEW', 3), undefined, now)!)).toBeNull();
+
+    const policy = disputeSlaPolicy({ atRiskRatio: 0.5 });
+    expect(msUntilNextSlaLevel(disputeSla(dispute('d1', 'IN_MEDIATION', 2), policy, now)!, policy)).toBeCloseTo(3 * day);
+  });
+
+  it('should apply configured windows and reject unusable ones', () => {
+    const policy = disputeSlaPolicy({ phaseDays: { IN_MEDIATION: 2 }, atRiskRatio: 0.5 });
+    expect(policy.phaseDays).toMatchObject({ IN_MEDIATION: 2, IN_ARBITRATION: 7 });
+    expect(disputeSla(dispute('d1', 'IN_MEDIATION', 3), policy, now)?.level).toBe('breached');
+    expect(disputeSla(dispute('d2', 'IN_ARBITRATION', 4), policy, now)?.level).toBe('at_risk');
+
+    expect(() => disputeSlaPolicy({ phaseDays: { IN_ARBITRATION: 0 } })).toThrow('Arbitration SLA must be more than 0 days');
+    expect(() => disputeSlaPolicy({ atRiskRatio: 1.2 })).toThrow('The at-risk threshold must be between 0% and 100% of the window');
+  });
+
+  it('should queue the most overdue disputes first', () => {
+    const queue = sortByBreachRisk([
+      dispute('resolved', 'RESOLVED', 1),
+      dispute('mediation', 'IN_MEDIATION', 2),
+      dispute('arbitration', 'IN_ARBITRATION', 6),
+      dispute('review', 'PENDING_REVIEW', 3),
+      dispute('self-resolution', 'SELF_RESOLUTION', 7),
+    ], undefined, now);
+
+    expect(queue.map(entry => entry.id)).toEqual(['self-resolution', 'review', 'arbitration', 'mediation', 'resolved']);
+  });
+
+  it('should suggest the system transition for a lapsed window, or a reminder', () => {
+    expect(evaluateDisputeEscalation('d1', dispute('d1', 'PENDING_REVIEW', 3), undefined, now)).toMatchObject({
+      shouldEscalate: true,
+      level: 'breached',
+      reason: 'Review SLA breached (overdue by 1d 0h): start self-resolution',
+      suggestedAction: 'START_SELF_RESOLUTION',
+      suggestedActor: 'system',
+    });
+    expect(evaluateDisputeEscalation('d2', dispute('d2', 'IN_MEDIATION', 11), undefined, now).suggestedAction)
+      .toBe('ESCALATE_TO_ARBITRATION');
+
+    const arbitration = evaluateDisputeEscalation('d3', dispute('d3', 'IN_ARBITRATION', 8), undefined, now);
+    expect(arbitration).toMatchObject({
+      shouldEscalate: true,
+      reason: 'Arbitration SLA breached (overdue by 1d 0h): remind the arbitrator to issue a decision',
+    });
+    expect(arbitration.suggestedAction).toBeUndefined();
+
+    expect(evaluateDisputeEscalation('d4', dispute('d4', 'IN_ARBITRATION', 6), undefined, now)).toMatchObject({
+      shouldEscalate: false,
+      level: 'at_risk',
+      reason: 'Arbitration SLA at risk (1d 0h left): remind the arbitrator to issue a decision',
+    });
+
+    // A tighter SLA lapses before the lifecycle lets the system move the dispute on
+    const tight = disputeSlaPolicy({ phaseDays: { IN_MEDIATION: 2 } });
+    const early = evaluateDisputeEscalation('d5', dispute('d5', 'IN_MEDIATION', 3), tight, now);
+    expect(early.shouldEscalate).toBe(true);
+    expect(early.suggestedAction).toBeUndefined();
+    expect(early.reason).toContain('remind the mediator to settle or escalate');
+
+    expect(evaluateDisputeEscalation('d6', dispute('d6', 'RESOLVED', 1), undefined, now))
+      .toEqual({ disputeId: 'd6', shouldEscalate: false, reason: 'No SLA applies in the current phase' });
+  });
+});
@@ -0,0 +1,137 @@
+import { Dispute } from '@/types';
+import {
+  disputeCounts,
+  disputeWorkspaceLayout,
+  evidenceByParty,
+  filterDisputeViews,
+  toDisputeView,
+} from '../disputeWorkspace';
+import { daysAgo, disputeContext, disputeFixture, now } from '@/__tests__/fixtures/disputes';
+
+const context = {
+  ...disputeContext,
+  transactions: [
+    { type: 'RELEASE' as const, status: 'COMPLETED' as const, milestoneId: 'ms-1', amount: 28920, fees: { platform: 1080 } },
+    { type: 'RELEASE' as const, status: 'PENDING' as const, milestoneId: 'ms-1', amount: 50000 },
+  ],
+};
+
+const dispute = (overrides: Partial<Dispute> = {}): Dispute => disputeFixture({
+  raisedBy: 'freelancer-1',
+  reason: 'Mockups were approved but not paid',
+  mediator: 'mediator-1',
+  evidence: [
+    { filename: 'approval.pdf', url: '/evidence/approval.pdf', uploadedBy: 'freelancer-1' },
+    { filename: 'brief.pdf', uploadedBy: 'client-1' },
+    { filename: 'system-log.txt' },
+  ],
+  messages: [
+    { sender: 'client-1', content: 'The colours are off', sentAt: daysAgo(3) },
+    { sender: 'freelancer-1', content: 'They match the brief', sentAt: daysAgo(2) },
+    { sender: 'mediator-1', content: 'Let us review both', sentAt: daysAgo(1) },
+    { sender: 'bot', content: 'Mediation started', sentAt: daysAgo(1) },
+  ],
+  createdAt: daysAgo(5),
+  phaseStartedAt: daysAgo(2),
+  ...overrides,
+});
+
+const actionsOf = (transitions: { action: string }[]) => transitions.map(transition => transition.action);
+
+describe('dispute workspace', () => {
+  it('should map an API dispute to one view model for both parties', () => {
+    const view = toDisputeView(dispute(), context);
+
+    expect(view).toMatchObject({
+      id: 'disp-1',
+      title: 'Mockups were approved but not paid',
+      type: 'MILESTONE',
+      status: 'IN_MEDIATION',
+      projectName: 'Website Redesign',
+      milestoneTitle: 'Design mockups',
+      milestoneAmount: 100000,
+      releasedAmount: 30000,
+      clientId: 'client-1',
+      freelancerId: 'freelancer-1',
+      raisedBy: 'freelancer-1',
+      mediatorAssigned: 'mediator-1',
+      deadline: new Date(daysAgo(-8)),
+    });
+    expect(view.timeline.map(event => event.actor)).toEqual(['CLIENT', 'FREELANCER', 'MEDIATOR', 'SYSTEM']);
+
+    const evidence = evidenceByParty(view);
+    expect(evidence.client.map(item => item.filename)).toEqual(['brief.pdf']);
+    expect(evidence.freelancer.map(item => item.filename)).toEqual(['approval.pdf']);
+    expect(evidence.other.map(item => item.filename)).toEqual(['system-log.txt']);
+
+    // Legacy statuses and unknown projects still render
+    expect(toDisputeView(dispute({ project: 'proj-x', status: 'MEDIATION' }))).toMatchObject({
+      status: 'IN_MEDIATION',
+      projectName: 'proj-x',
+      clientId: 'freelancer-1',
+    });
+  });
+
+  it('should give a client paying the fee the fee panel and withdrawal', () => {
+    const view = toDisputeView(dispute({ status: 'PENDING_FEE', phaseStartedAt: daysAgo(1) }), context);
+    const layout = disputeWorkspaceLayout(view, 'client', now);
+
+    expect(layout.panels).toEqual(['detail', 'fee', 'evidence', 'timeline', 'settlement']);
+    expect(actionsOf(layout.actions.fee)).toEqual(['PAY_FEE']);
+    expect(actionsOf(layout.actions.detail)).toEqual(['WITHDRAW']);
+    expect(layout.actions.evidence).toHaveLength(0);
+
+    // Once the fee window lapses only the system can close the dispute
+    const lapsed = toDisputeView(dispute({ status: 'PENDING_FEE', phaseStartedAt: daysAgo(8) }), context);
+    expect(actionsOf(disputeWorkspaceLayout(lapsed, 'client', now).actions.fee)).toEqual([]);
+  });
+
+  it('should let either party join, escalate and add evidence during mediation', () => {
+    const view = toDisputeView(dispute(), context);
+
+    for (const role of ['client', 'freelancer'] as const) {
+      const layout = disputeWorkspaceLayout(view, role, now);
+      expect(layout.panels).toEqual(['detail', 'evidence', 'timeline', 'settlement']);
+      expect(actionsOf(layout.actions.detail)).toEqual(['JOIN_MEDIATION', 'ESCALATE_TO_ARBITRATION']);
+      expect(actionsOf(layout.actions.evidence)).toEqual(['SUBMIT_EVIDENCE']);
+    }
+  });
+
+  it('should offer the appeal while the resolved window is open', () => {
+    const resolution = {
+      decision: 'Release 70% to the freelancer',
+      amountToFreelancer: 70000,
+      amountToClient: 30000,
+      decisionReason: 'Partially delivered',
+      decidedBy: 'arbitrator-1',
+      decidedAt: daysAgo(3),
+    };
+    const view = toDisputeView(dispute({ status: 'RESOLVED', resolution }), context);
+
+    const freelancer = disputeWorkspaceLayout(view, 'freelancer', now);
+    expect(freelancer.panels).toEqual(['detail', 'evidence', 'timeline', 'settlement', 'resolution', 'appeal']);
+    expect(actionsOf(freelancer.actions.appeal)).toEqual(['APPEAL']);
+    expect(freelancer.actions.evidence).toHaveLength(0);
+    expect(view.resolutionSplit).toEqual({ amountToFreelancer: 70000, amountToClient: 30000 });
+
+    const late = toDisputeView(dispute({ status: 'RESOLVED', resolution: { ...resolution, decidedAt: daysAgo(15) } }), context);
+    expect(disputeWorkspaceLayout(late, 'client', now).panels).not.toContain('appeal');
+
+    const appealed = toDisputeView(dispute({ status: 'ESCALATED', resolution }), context);
+    const underReview = disputeWorkspaceLayout(appealed, 'client', now);
+    expect(underReview.panels).toContain('appeal');
+    expect(underReview.actions.appeal).toHaveLength(0);
+  });
+
+  it('should filter and count the list', () => {
+    const views = [
+      toDisputeView(dispute(), context),
+      toDisputeView(dispute({ id: 'disp-2', reason: 'Late delivery', status: 'RESOLVED' }), context),
+      toDisputeView(dispute({ id: 'disp-3', reason: 'Scope creep', status: 'PENDING_REVIEW' }), context),
+    ];
+
+    expect(filterDisputeViews(views, { search: 'late' }).map(view => view.id)).toEqual(['disp-2']);
+    expect(filterDisputeViews(views, { search: 'website', status: 'IN_MEDIATION' }).map(view => view.id)).toEqual(['disp-1']);
+    expect(disputeCounts(views)).toEqual({ open: 2, resolved: 1, inMediation: 1 });
+  });
+});
@@ -0,0 +1,149 @@
+import { EscrowAccount, Transaction } from '@/types';
+import { buildEscrowLedgers, buildProjectLedger, postTransaction } from '../escrowLedger';
+
+let sequence = 0;
+const tx = (overrides: Partial<Transaction>): Transaction => ({
+  id: `tx-${++sequence}`,
+  projectId: 'proj-1',
+  fromUserId: 'client-1',
+  toUserId: 'freelancer-1',
+  type: 'DEPOSIT',
+  amount: 0,
+  currency: 'USD',
+  status: 'COMPLETED',
+  paymentMethodType: 'card',
+  createdAt: new Date(`2024-01-${String(10 + sequence).padStart(2, '0')}`),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const escrowAccount = (overrides: Partial<EscrowAccount>): EscrowAccount => ({
+  id: 'escrow-proj-1',
+  projectId: 'proj-1',
+  clientId: 'client-1',
+  freelancerId: 'freelancer-1',
+  totalAmount: 0,
+  heldAmount: 0,
+  releasedAmount: 0,
+  currency: 'USD',
+  status: 'HELD',
+  platformFee: 0,
+  paymentProcessingFee: 0,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('escrow ledger', () => {
+  const history = () => [
+    tx({ type: 'DEPOSIT', amount: 100000, amountInUsd: 100000 }),
+    tx({ type: 'RELEASE', amount: 40000, amountInUsd: 40000 }),
+    tx({ type: 'FEE', amount: 1500, amountInUsd: 1500 }),
+    tx({ type: 'REFUND', amount: 8500, toUserId: 'client-1', amountInUsd: 8500 }),
+    tx({ type: 'DISPUTE_SETTLEMENT', amount: 10000, toUserId: 'client-1', amountInUsd: 10000 }),
+    tx({ type: 'WITHDRAWAL', amount: 40000 }),
+    tx({ type: 'DEPOSIT', amount: 25000, status: 'PENDING' }),
+    tx({ type: 'RELEASE', amount: 99999, status: 'FAILED' }),
+  ];
+
+  it('should post each transaction as a balanced double entry', () => {
+    expect(postTransaction(tx({ type: 'DEPOSIT', amount: 500 }))).toMatchObject({ kind: 'deposit', debit: 'escrow', credit: 'client' });
+    expect(postTransaction(tx({ type: 'RELEASE', amount: -500 }))?.amount.amount).toBe(500);
+    expect(postTransaction(tx({ type: 'DEPOSIT', status: 'PENDING' }))).toMatchObject({ kind: 'hold', debit: 'clearing' });
+    expect(postTransaction(tx({ type: 'WITHDRAWAL' }))).toBeNull();
+    expect(postTransaction(tx({ type: 'DISPUTE_SETTLEMENT', toUserId: 'client-1' }), 'client-1')?.debit).toBe('client');
+  });
+
+  it('should rebuild the held balance and reconcile with the escrow account', () => {
+    const ledger = buildProjectLedger('proj-1', history(), escrowAccount({
+      totalAmount: 100000,
+      heldAmount: 40000,
+      releasedAmount: 40000,
+      platformFee: 1500,
+    }));
+
+    expect(ledger.totals.held.amount).toBe(40000);
+    expect(ledger.totals.pending.amount).toBe(25000);
+    expect(ledger.totals.settledToClient.amount).toBe(10000);
+    expect(ledger.balances.client.amount).toBe(-100000 - 25000 + 8500 + 10000);
+    expect(ledger.totalsInUsd.held).toBe(40000);
+    expect(ledger.entries.map(entry => entry.escrowBalanceAfter?.amount)).toEqual([100000, 60000, 58500, 50000, 40000, 40000]);
+    expect(ledger.issues).toEqual([]);
+    expect(ledger.reconciled).toBe(true);
+  });
+
+  it('should flag an escrow account whose held amount disagrees with the ledger', () => {
+    const ledger = buildProjectLedger('proj-1', history(), escrowAccount({
+      totalAmount: 100000,
+      heldAmount: 41500, // fees not deducted
+      releasedAmount: 40000,
+      platformFee: 1500,
+    }));
+
+    expect(ledger.reconciled).toBe(false);
+    expect(ledger.issues).toEqual([
+      expect.objectContaining({
+        code: 'HELD_MISMATCH',
+        message: 'Escrow account reports held funds of $415.00 but the transactions add up to $400.00',
+      }),
+    ]);
+  });
+
+  it('should flag the release that overdraws the escrow', () => {
+    const ledger = buildProjectLedger('proj-1', [
+      tx({ type: 'DEPOSIT', amount: 119000 }),
+      tx({ type: 'RELEASE', amount: 192800, description: 'Payment release for frontend development' }),
+      tx({ type: 'FEE', amount: 5400 }),
+    ]);
+
+    const negative = ledger.issues.filter(issue => issue.code === 'NEGATIVE_BALANCE');
+    expect(negative).toHaveLength(1);
+    expect(negative[0].message).toBe('Payment release for frontend development takes escrow to -$738.00');
+    expect(ledger.reconciled).toBe(false);
+  });
+
+  it('should keep other currencies out of the escrow balance', () => {
+    const ledger = buildProjectLedger('proj-1', [
+      tx({ type: 'DEPOSIT', amount: 50000, amountInUsd: 50000 }),
+      tx({ type: 'DEPOSIT', amount: 100000, currency: 'BTC', amountInUsd: 45000 }),
+      tx({ type: 'ADJUSTMENT', amount: 100 }),
+    ]);
+
+    expect(ledger.currency).toBe('USD');
+    expect(ledger.totals.deposited.amount).toBe(50000);
+    expect(ledger.totalsInUsd.deposited).toBe(95000);
+    expect(ledger.issues.map(issue => issue.code)).toEqual(['MIXED_CURRENCY', 'UNPOSTED']);
+    expect(ledger.reconciled).toBe(true);
+  });
+
+  it('should net a settlement reversed on appeal back through escrow', () => {
+    const ledger = buildProjectLedger('proj-1', [
+      tx({ type: 'DEPOSIT', amount: 100000 }),
+      tx({ type: 'DISPUTE_SETTLEMENT', amount: 70000, fromUserId: 'escrow', toUserId: 'freelancer-1' }),
+      tx({ type: 'DISPUTE_SETTLEMENT', amount: 30000, fromUserId: 'escrow', toUserId: 'client-1' }),
+      tx({ type: 'DISPUTE_REVERSAL', amount: 20000, fromUserId: 'freelancer-1', toUserId: 'escrow' }),
+      tx({ type: 'DISPUTE_SETTLEMENT', amount: 20000, fromUserId: 'escrow', toUserId: 'client-1' }),
+    ], escrowAccount({ totalAmount: 100000, heldAmount: 0 }));
+
+    expect(postTransaction(tx({ type: 'DISPUTE_REVERSAL', fromUserId: 'client-1' }), 'client-1')).toMatchObject({
+      kind: 'dispute_reversal',
+      debit: 'escrow',
+      credit: 'client',
+    });
+    expect(ledger.totals.reversed.amount).toBe(20000);
+    expect(ledger.balances.freelancer.amount).toBe(50000);
+    expect(ledger.balances.client.amount).toBe(-50000);
+    expect(ledger.entries.map(entry => entry.escrowBalanceAfter?.amount)).toEqual([100000, 30000, 0, 20000, 0]);
+    expect(ledger.issues).toEqual([]);
+  });
+
+  it('should build one ledger per project, including accounts without transactions', () => {
+    const ledgers = buildEscrowLedgers(
+      [tx({ projectId: 'proj-1', amount: 100 }), tx({ projectId: 'proj-2', amount: 200 })],
+      { 'proj-3': escrowAccount({ projectId: 'proj-3', heldAmount: 300 }) }
+    );
+
+    expect(ledgers.map(ledger => ledger.projectId)).toEqual(['proj-1', 'proj-2', 'proj-3']);
+    expect(ledgers[2].issues.map(issue => issue.code)).toEqual(['HELD_MISMATCH']);
+  });
+});
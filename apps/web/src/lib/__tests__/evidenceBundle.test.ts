@@ -0,0 +1,166 @@
+import { webcrypto } from 'node:crypto';
+import { TextEncoder } from 'node:util';
+import {
+  buildEvidenceBundle,
+  evidenceCandidates,
+  verifyEvidenceBundle,
+} from '../evidenceBundle';
+
+// jsdom has no SubtleCrypto; hash with Node's implementation instead
+beforeAll(() => {
+  Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+  Object.defineProperty(globalThis, 'TextEncoder', { value: TextEncoder, configurable: true });
+});
+
+const now = new Date('2024-03-20T09:30:00Z');
+
+const sources = {
+  messages: [
+    {
+      id: 'msg-2',
+      projectId: 'proj-1',
+      senderId: 'user-1',
+      senderRole: 'client' as const,
+      content: 'The checkout page still fails on mobile.',
+      type: 'TEXT' as const,
+      status: 'READ' as const,
+      readBy: [],
+      sentAt: new Date('2024-03-18T10:00:00Z'),
+      createdAt: new Date('2024-03-18T10:00:00Z'),
+      updatedAt: new Date('2024-03-18T10:00:00Z'),
+    },
+    {
+      id: 'msg-system',
+      projectId: 'proj-1',
+      senderId: 'system',
+      senderRole: 'client' as const,
+      content: 'Milestone submitted',
+      type: 'NOTIFICATION' as const,
+      status: 'READ' as const,
+      isSystemMessage: true,
+      readBy: [],
+      sentAt: new Date('2024-03-16T10:00:00Z'),
+      createdAt: new Date('2024-03-16T10:00:00Z'),
+      updatedAt: new Date('2024-03-16T10:00:00Z'),
+    },
+  ],
+  deliverables: [
+    {
+      id: 'del-1',
+      milestoneId: 'ms-2',
+      fileName: 'checkout.zip',
+      fileType: 'application/zip',
+      fileSize: 2048,
+      fileUrl: '/files/checkout.zip',
+      isPreviewable: false,
+      uploadedBy: 'user-2',
+      uploadedAt: new Date('2024-03-15T08:00:00Z'),
+      createdAt: new Date('2024-03-15T08:00:00Z'),
+    },
+  ],
+  activities: [
+    {
+      id: 'act-1',
+      projectId: 'proj-1',
+      userId: 'user-1',
+      actorRole: 'client' as const,
+      action: 'MILESTONE_REVISION_REQUESTED' as const,
+      details: { message: 'Mobile layout broken' },
+      createdAt: new Date('2024-03-17T12:00:00Z'),
+    },
+  ],
+  changeProposals: [
+    {
+      id: 'cp-1',
+      projectId: 'proj-1',
+      milestoneId: 'ms-2',
+      proposer: 'freelancer' as const,
+      status: 'REJECTED' as const,
+      originalValues: { amount: 100000 },
+      proposedValues: { amount: 120000 },
+      reason: 'Extra payment providers',
+      createdAt: new Date('2024-03-10T12:00:00Z'),
+      updatedAt: new Date('2024-03-11T12:00:00Z'),
+    },
+  ],
+  milestoneTitles: { 'ms-2': 'Frontend Development' },
+};
+
+describe('evidence bundles', () => {
+  it('should turn every project record into a chronological evidence candidate', () => {
+    const candidates = evidenceCandidates(sources);
+
+    expect(candidates.map(candidate => [candidate.key, candidate.evidenceType])).toEqual([
+      ['change_proposal:cp-1', 'COMMUNICATION_LOG'],
+      ['deliverable:del-1', 'DELIVERABLE'],
+      ['activity:act-1', 'COMMUNICATION_LOG'],
+      ['message:msg-2', 'MESSAGE'],
+    ]);
+    expect(candidates[0]).toMatchObject({
+      title: 'Change proposal for Frontend Development (rejected)',
+      summary: 'amount: 100000 -> 120000. Reason: Extra payment providers',
+    });
+    expect(candidates[1]).toMatchObject({ title: 'checkout.zip', fileUrl: '/files/checkout.zip' });
+    expect(candidates[2]).toMatchObject({ title: 'Milestone revision requested', summary: 'Mobile layout broken' });
+  });
+
+  it('should package the selection with references, hashes and an index', async () => {
+    const [proposal, deliverable, , message] = evidenceCandidates(sources);
+    const bundle = await buildEvidenceBundle({
+      disputeId: 'dispute-1',
+      submittedBy: 'user-1',
+      description: ' Work never met the brief ',
+      items: [message, proposal, deliverable, message],
+    }, now);
+
+    expect(bundle.hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(bundle.id).toBe(`bundle-${bundle.hash.slice(0, 12)}`);
+    expect(bundle.description).toBe('Work never met the brief');
+    expect(bundle.createdAt).toBe(now.toISOString());
+    expect(bundle.items.map(item => [item.metadata?.ref, item.evidenceType])).toEqual([
+      ['E1', 'COMMUNICATION_LOG'],
+      ['E2', 'DELIVERABLE'],
+      ['E3', 'MESSAGE'],
+    ]);
+    expect(bundle.items[1]).toMatchObject({ id: `${bundle.id}-E2`, fileUrl: '/files/checkout.zip', disputeId: 'dispute-1' });
+
+    const index = bundle.index.split('\n');
+    expect(index[0]).toBe('Evidence bundle for dispute dispute-1');
+    expect(index).toContain('Summary: Work never met the brief');
+    expect(index.find(line => line.startsWith('E3.'))).toContain('[2024-03-18 10:00] MESSAGE - Message from client');
+    expect(index[index.length - 1]).toBe(`3 items, SHA-256 ${bundle.hash}`);
+
+    // The same selection always produces the same hash
+    const again = await buildEvidenceBundle({
+      disputeId: 'dispute-1',
+      submittedBy: 'user-1',
+      description: 'Work never met the brief',
+      items: [deliverable, proposal, message],
+    }, now);
+    expect(again.hash).toBe(bundle.hash);
+  });
+
+  it('should detect items changed after submission', async () => {
+    const bundle = await buildEvidenceBundle({
+      disputeId: 'dispute-1',
+      submittedBy: 'user-1',
+      description: 'Chat history',
+      items: evidenceCandidates(sources),
+    }, now);
+    expect(await verifyEvidenceBundle(bundle)).toEqual({ valid: true, tampered: [] });
+
+    const edited = {
+      ...bundle,
+      items: bundle.items.map(item => item.metadata?.ref === 'E4'
+        ? { ...item, metadata: { ...item.metadata, source: { ...item.metadata?.source, summary: 'Looks great!' } } }
+        : item),
+    };
+    expect(await verifyEvidenceBundle(edited)).toEqual({ valid: false, tampered: ['E4'] });
+    expect((await verifyEvidenceBundle({ ...bundle, description: 'Something else' })).valid).toBe(false);
+  });
+
+  it('should refuse an empty bundle', async () => {
+    await expect(buildEvidenceBundle({ disputeId: 'dispute-1', submittedBy: 'user-1', description: '', items: [] }, now))
+      .rejects.toThrow('Select at least one item to include in the evidence bundle');
+  });
+});
@@ -0,0 +1,69 @@
+import { Message } from '@/types';
+import { mergeLatestMessages, mergeMessages, messageLink } from '../messageHistory';
+import { computeVirtualWindow, rowOffsets } from '../virtualWindow';
+
+const message = (id: string, minute: number): Message => ({
+  id,
+  projectId: 'proj-1',
+  senderId: 'user-1',
+  senderRole: 'client',
+  content: `Message ${id}`,
+  type: 'TEXT',
+  status: 'SENT',
+  readBy: [],
+  sentAt: new Date(Date.UTC(2024, 2, 16, 12, minute)),
+  createdAt: new Date(Date.UTC(2024, 2, 16, 12, minute)),
+  updatedAt: new Date(Date.UTC(2024, 2, 16, 12, minute)),
+});
+
+const ids = (messages: Message[]) => messages.map(m => m.id);
+
+describe('message history', () => {
+  it('merges an older page in front without duplicating the overlap', () => {
+    const held = [message('m3', 3), message('m4', 4)];
+    const older = [message('m1', 1), message('m2', 2), message('m3', 3)];
+
+    expect(ids(mergeMessages(held, older))).toEqual(['m1', 'm2', 'm3', 'm4']);
+  });
+
+  it('keeps loaded history only when the newest page reaches back into it', () => {
+    const held = [message('m1', 1), message('m2', 2), message('m3', 3)];
+
+    const overlapping = mergeLatestMessages(held, [message('m3', 3), message('m4', 4)]);
+    expect(overlapping.connected).toBe(true);
+    expect(ids(overlapping.messages)).toEqual(['m1', 'm2', 'm3', 'm4']);
+
+    const gapped = mergeLatestMessages(held, [message('m8', 8), message('m9', 9)]);
+    expect(gapped.connected).toBe(false);
+    expect(ids(gapped.messages)).toEqual(['m8', 'm9']);
+  });
+
+  it('links to a message inside its project thread', () => {
+    expect(messageLink('proj-1', 'msg 7')).toBe('/dashboard/messages?project=proj-1&message=msg+7');
+  });
+});
+
+describe('virtual window', () => {
+  const heights = [40, 80, 40, 120, 40, 40, 60, 40];
+  const heightOf = (index: number) => heights[index];
+
+  it('offsets rows by the heights above them', () => {
+    expect(rowOffsets(4, heightOf)).toEqual([0, 40, 120, 160, 280]);
+  });
+
+  it('renders only the rows around the viewport', () => {
+    const window = computeVirtualWindow({ count: heights.length, heightOf, scrollTop: 130, viewportHeight: 100, overscan: 1 });
+
+    // Rows 2 and 3 are visible; one row of overscan either side
+    expect(window).toEqual({ start: 1, end: 5, offsetTop: 40, totalHeight: 460 });
+  });
+
+  it('clamps a scroll position past either end', () => {
+    expect(computeVirtualWindow({ count: heights.length, heightOf, scrollTop: -50, viewportHeight: 50, overscan: 0 }))
+      .toMatchObject({ start: 0, end: 2 });
+    expect(computeVirtualWindow({ count: heights.length, heightOf, scrollTop: 10000, viewportHeight: 50, overscan: 0 }))
+      .toMatchObject({ start: 7, end: 8 });
+    expect(computeVirtualWindow({ count: 0, heightOf, scrollTop: 0, viewportHeight: 50 }))
+      .toEqual({ start: 0, end: 0, offsetTop: 0, totalHeight: 0 });
+  });
+});
@@ -0,0 +1,91 @@
+import { Message } from '@/types';
+import { buildSearchIndex, highlight, searchIndex, snippet, tokenize } from '../messageSearch';
+
+const at = (day: number) => new Date(Date.UTC(2024, 2, day, 12));
+
+const message = (id: string, day: number, overrides: Partial<Message> = {}): Message => ({
+  id,
+  projectId: 'proj-1',
+  senderId: 'user-1',
+  senderRole: 'client',
+  content: '',
+  type: 'TEXT',
+  status: 'SENT',
+  readBy: [],
+  sentAt: at(day),
+  createdAt: at(day),
+  updatedAt: at(day),
+  ...overrides,
+});
+
+const attachment = (fileName: string) => ({
+  id: fileName,
+  messageId: 'm',
+  fileName,
+  fileType: 'application/pdf',
+  fileSize: 1,
+  fileUrl: `/documents/${fileName}`,
+  isPreviewable: true,
+  uploadedAt: at(1),
+  createdAt: at(1),
+});
+
+const messages = [
+  message('m1', 1, { content: 'The checkout deliverable is ready for review' }),
+  message('m2', 2, { content: 'Invoice attached', senderId: 'user-2', attachments: [attachment('checkout-flow-v2.pdf')] }),
+  message('m3', 3, { content: 'Logo options for the landing page', projectId: 'proj-2' }),
+  message('m4', 4, { content: 'Checkout copy was wrong', deletedAt: at(5) }),
+  message('m5', 6, { content: 'Undelivered items need a refund path' }),
+];
+
+const index = buildSearchIndex(messages, { 'proj-1': 'E-commerce Checkout', 'proj-2': 'Brand Refresh' });
+const ids = (query: Parameters<typeof searchIndex>[1]) => searchIndex(index, query).hits.map(hit => hit.message.id);
+
+describe('message search', () => {
+  it('splits text into lower-case words', () => {
+    expect(tokenize('Checkout-Flow_v2.pdf, ready!')).toEqual(['checkout', 'flow', 'v2', 'pdf', 'ready']);
+  });
+
+  it('ranks content matches above file name and project name matches, and skips tombstones', () => {
+    const { hits, total } = searchIndex(index, { text: 'checkout' });
+
+    expect(hits.map(hit => hit.message.id)).toEqual(['m1', 'm2', 'm5']);
+    expect(hits.map(hit => hit.matchedIn)).toEqual([['content', 'project'], ['attachment', 'project'], ['project']]);
+    expect(total).toBe(3);
+  });
+
+  it('requires every term and matches the last one as a prefix', () => {
+    expect(ids({ text: 'checkout deliv' })).toEqual(['m1']);
+    expect(ids({ text: 'brand logo' })).toEqual(['m3']);
+    expect(ids({ text: 'deliverable refund' })).toEqual([]);
+  });
+
+  it('applies sender, project, date and attachment filters', () => {
+    expect(ids({ text: 'checkout', senderId: 'user-2' })).toEqual(['m2']);
+    expect(ids({ text: 'the', projectId: 'proj-2' })).toEqual(['m3']);
+    expect(ids({ text: 'checkout', from: at(2), to: at(5) })).toEqual(['m2']);
+    expect(ids({ text: 'checkout', hasAttachment: true })).toEqual(['m2']);
+    expect(ids({ text: 'checkout', hasAttachment: false })).toEqual(['m1', 'm5']);
+  });
+
+  it('caps the hits but reports the full total', () => {
+    expect(searchIndex(index, { text: 'checkout', limit: 1 })).toMatchObject({ total: 3, hits: [{ message: { id: 'm1' } }] });
+  });
+
+  it('highlights matches at the start of words only', () => {
+    expect(highlight('Delivered, undelivered', 'deliv')).toEqual([
+      { text: 'Deliv', match: true },
+      { text: 'ered, undelivered', match: false },
+    ]);
+  });
+
+  it('cuts long messages down to the words around the first match', () => {
+    const long = `${'word '.repeat(40)}the checkout total is wrong ${'tail '.repeat(40)}`;
+    const segments = snippet(long, 'checkout', 20);
+
+    expect(segments[0]).toEqual({ text: '…', match: false });
+    expect(segments[segments.length - 1]).toEqual({ text: '…', match: false });
+    expect(segments.find(segment => segment.match)?.text).toBe('checkout');
+    expect(segments[1].text.startsWith('word ')).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+import { Message } from '@/types';
+import {
+  applyMessageUpdate,
+  canModifyMessage,
+  replySummaries,
+  toggleReaction,
+  topLevelMessages,
+  withEdit,
+  withTombstone,
+} from '../messageThreads';
+
+const at = (minute: number) => new Date(Date.UTC(2024, 2, 16, 12, minute));
+
+const message = (id: string, minute: number, overrides: Partial<Message> = {}): Message => ({
+  id,
+  projectId: 'proj-1',
+  senderId: 'user-1',
+  senderRole: 'client',
+  content: `Message ${id}`,
+  type: 'TEXT',
+  status: 'SENT',
+  readBy: [],
+  sentAt: at(minute),
+  createdAt: at(minute),
+  updatedAt: at(minute),
+  ...overrides,
+});
+
+describe('message threads', () => {
+  const history = [
+    message('m1', 1),
+    message('m2', 2),
+    message('r1', 3, { parentId: 'm1', senderId: 'user-2' }),
+    message('r2', 5, { parentId: 'm1' }),
+    message('r3', 4, { parentId: 'm1', senderId: 'user-2' }),
+  ];
+
+  it('keeps replies out of the main list and summarises them per message', () => {
+    expect(topLevelMessages(history).map(m => m.id)).toEqual(['m1', 'm2']);
+    expect(replySummaries(history)).toEqual({
+      m1: { count: 3, lastReplyAt: at(5), participantIds: ['user-2', 'user-1'] },
+    });
+  });
+
+  it('toggles one reaction per user and emoji', () => {
+    const liked = toggleReaction([], '👍', 'user-1');
+    const both = toggleReaction(liked, '👍', 'user-2');
+    expect(both).toEqual([{ emoji: '👍', userIds: ['user-1', 'user-2'] }]);
+    expect(toggleReaction(both, '👍', 'user-1')).toEqual([{ emoji: '👍', userIds: ['user-2'] }]);
+    expect(toggleReaction(liked, '👍', 'user-1')).toEqual([]);
+  });
+
+  it('records every earlier version when a message is edited', () => {
+    const once = withEdit(message('m1', 1, { content: 'First' }), 'Second', 'user-1', at(10));
+    const twice = withEdit(once, 'Third', 'user-1', at(20));
+
+    expect(twice.content).toBe('Third');
+    expect(twice.editedAt).toEqual(at(20));
+    expect(twice.editHistory).toEqual([
+      { content: 'First', editedAt: at(10), editedBy: 'user-1' },
+      { content: 'Second', editedAt: at(20), editedBy: 'user-1' },
+    ]);
+  });
+
+  it('leaves a tombstone without the deleted content', () => {
+    const edited = withEdit(message('m1', 1, { reactions: [{ emoji: '🎉', userIds: ['user-2'] }] }), 'Secret', 'user-1', at(2));
+    const tombstone = withTombstone(edited, 'user-1', at(30));
+
+    expect(tombstone).toMatchObject({ id: 'm1', content: '', editHistory: [], reactions: [], deletedAt: at(30), deletedBy: 'user-1' });
+    expect(canModifyMessage(tombstone, 'user-1')).toBe(false);
+  });
+
+  it('only lets the sender change a message the server has', () => {
+    expect(canModifyMessage(message('m1', 1), 'user-1')).toBe(true);
+    expect(canModifyMessage(message('m1', 1), 'user-2')).toBe(false);
+    expect(canModifyMessage(message('local-abc', 1), 'user-1')).toBe(false);
+  });
+
+  it('ignores an update older than the copy already held', () => {
+    const held = [message('m1', 1, { content: 'Newest', updatedAt: at(20) })];
+
+    expect(applyMessageUpdate(held, message('m1', 1, { content: 'Stale', updatedAt: at(10) }))[0].content).toBe('Newest');
+    expect(applyMessageUpdate(held, message('m1', 1, { content: 'Edited', updatedAt: at(25) }))[0].content).toBe('Edited');
+  });
+});
@@ -0,0 +1,76 @@
+import { Money } from '../money';
+import {
+  addToAllocation,
+  allocateBudget,
+  allocationPercentages,
+  assertValidAllocation,
+  reflowAllocation,
+  validateAllocation,
+} from '../milestoneAllocation';
+
+const usd = (amount: number) => Money.fromMinor(amount, 'USD');
+const amountsOf = (values: Money[]) => values.map(value => value.amount);
+
+describe('milestone allocation', () => {
+  const budget = usd(100000);
+
+  it('should split equally with the remainder on the earliest milestones', () => {
+    expect(amountsOf(allocateBudget(budget, { mode: 'equal', count: 3 }))).toEqual([33334, 33333, 33333]);
+    expect(amountsOf(allocateBudget(usd(1000), { mode: 'equal', count: 6 }))).toEqual([167, 167, 167, 167, 166, 166]);
+  });
+
+  it('should split by percentages that add up to 100', () => {
+    const shares = allocateBudget(usd(99999), { mode: 'percentage', percentages: [33.33, 33.33, 33.34] });
+    expect(Money.sum(shares).amount).toBe(99999);
+    expect(amountsOf(shares)).toEqual([33330, 33330, 33339]);
+
+    expect(() => allocateBudget(budget, { mode: 'percentage', percentages: [50, 40] }))
+      .toThrow('must add up to 100%, got 90%');
+  });
+
+  it('should split by weights', () => {
+    expect(amountsOf(allocateBudget(budget, { mode: 'weight', weights: [2, 1, 1] }))).toEqual([50000, 25000, 25000]);
+  });
+
+  it('should reflow the other milestones in proportion when one changes', () => {
+    const current = [usd(50000), usd(30000), usd(20000)];
+    const reflowed = reflowAllocation(budget, current, 0, usd(60000));
+
+    expect(amountsOf(reflowed)).toEqual([60000, 24000, 16000]);
+    expect(Money.sum(reflowed).equals(budget)).toBe(true);
+  });
+
+  it('should keep locked milestones and clamp the change to what is left', () => {
+    const current = [usd(50000), usd(30000), usd(20000)];
+
+    expect(amountsOf(reflowAllocation(budget, current, 0, usd(40000), [1]))).toEqual([40000, 30000, 30000]);
+    expect(amountsOf(reflowAllocation(budget, current, 0, usd(90000), [1]))).toEqual([70000, 30000, 0]);
+    // A lone unlocked milestone has to take everything that is left
+    expect(amountsOf(reflowAllocation(budget, current, 2, usd(1), [0, 1]))).toEqual([50000, 30000, 20000]);
+  });
+
+  it('should spread equally when the other milestones are all zero', () => {
+    expect(amountsOf(reflowAllocation(budget, [usd(0), usd(0), usd(0)], 1, usd(40001))))
+      .toEqual([30000, 40001, 29999]);
+  });
+
+  it('should only shrink existing milestones when a new one overflows the budget', () => {
+    expect(amountsOf(addToAllocation(budget, [usd(30000)], usd(20000)))).toEqual([30000, 20000]);
+    expect(amountsOf(addToAllocation(budget, [usd(60000), usd(40000)], usd(50000))))
+      .toEqual([30000, 20000, 50000]);
+  });
+
+  it('should report percentages for display', () => {
+    expect(allocationPercentages(budget, [usd(33334), usd(66666)])).toEqual([33.33, 66.67]);
+    expect(allocationPercentages(usd(0), [usd(0)])).toEqual([0]);
+  });
+
+  it('should reject allocations that do not match the budget', () => {
+    expect(validateAllocation(budget, [usd(50000), usd(50000)])).toBeNull();
+    expect(validateAllocation(budget, [])).toBe('At least one milestone is required');
+    expect(validateAllocation(budget, [usd(100000), usd(0)])).toBe('Milestone 2 amount must be greater than 0');
+    expect(validateAllocation(budget, [Money.fromMinor(100000, 'EUR')])).toBe('Milestone amounts must be in USD, got EUR');
+    expect(() => assertValidAllocation(budget, [usd(50000), usd(49999)]))
+      .toThrow('Milestone amounts ($999.99) must sum to the project budget ($1,000.00)');
+  });
+});
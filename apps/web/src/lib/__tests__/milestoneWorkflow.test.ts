@@ -0,0 +1,69 @@
+import {
+  assertMilestoneTransition,
+  autoApprovalCountdown,
+  canPerformMilestoneAction,
+  formatCountdown,
+  milestoneRules,
+  revisionsRemaining,
+  validateMilestoneTransition,
+} from '../milestoneWorkflow';
+import { daysAgo, now } from '@/__tests__/fixtures/disputes';
+
+const dateDaysAgo = (days: number) => new Date(daysAgo(days));
+const rules = { maxRevisionsPerMilestone: 2, autoApprovalPeriod: 5 };
+
+const revisions = (count: number) =>
+  Array.from({ length: count }, (_, index) => ({ notes: `Round ${index + 1}`, requestedAt: dateDaysAgo(10 - index) }));
+
+describe('milestone workflow', () => {
+  it('should fill project rules from defaults and the legacy auto-approve field', () => {
+    expect(milestoneRules(undefined)).toEqual({ maxRevisionsPerMilestone: 3, autoApprovalPeriod: 7 });
+    expect(milestoneRules({ autoApproveDays: 10 })).toEqual({ maxRevisionsPerMilestone: 3, autoApprovalPeriod: 10 });
+    expect(milestoneRules({ maxRevisionsPerMilestone: 1, autoApprovalPeriod: 3, autoApproveDays: 10 }))
+      .toEqual({ maxRevisionsPerMilestone: 1, autoApprovalPeriod: 3 });
+  });
+
+  it('should only allow each party the transitions legal in the current status', () => {
+    expect(canPerformMilestoneAction({ status: 'PENDING' }, 'START', 'freelancer')).toBe(true);
+    expect(canPerformMilestoneAction({ status: 'REVISION_REQUESTED' }, 'SUBMIT', 'freelancer')).toBe(true);
+    expect(validateMilestoneTransition({ status: 'APPROVED' }, 'APPROVE', 'client'))
+      .toBe('Cannot approve a milestone that is approved');
+    expect(validateMilestoneTransition({ status: 'SUBMITTED' }, 'APPROVE', 'freelancer'))
+      .toBe('The freelancer cannot approve this milestone');
+    expect(assertMilestoneTransition({ status: 'SUBMITTED' }, 'DISPUTE', 'freelancer')).toBe('DISPUTED');
+    expect(() => assertMilestoneTransition({ status: 'PENDING' }, 'SUBMIT', 'freelancer'))
+      .toThrow('Cannot submit a milestone that is pending');
+  });
+
+  it('should count revisions from the history and point to a dispute once they run out', () => {
+    const submitted = { status: 'SUBMITTED' as const, submittedAt: dateDaysAgo(1), revisionHistory: revisions(1) };
+    expect(revisionsRemaining(submitted, rules)).toBe(1);
+    expect(canPerformMilestoneAction(submitted, 'REQUEST_REVISION', 'client', rules, now)).toBe(true);
+
+    const exhausted = { ...submitted, revisionHistory: revisions(2) };
+    expect(revisionsRemaining(exhausted, rules)).toBe(0);
+    expect(validateMilestoneTransition(exhausted, 'REQUEST_REVISION', 'client', rules, now))
+      .toBe('All 2 revisions for this milestone have been used; raise a dispute instead');
+    expect(canPerformMilestoneAction(exhausted, 'DISPUTE', 'client', rules, now)).toBe(true);
+  });
+
+  it('should count down from submission and auto-approve once the period ends', () => {
+    const pending = { status: 'SUBMITTED' as const, submittedAt: dateDaysAgo(2) };
+    const countdown = autoApprovalCountdown(pending, rules, now);
+    expect(countdown).toMatchObject({ remainingMs: 3 * 24 * 60 * 60 * 1000, expired: false });
+    expect(validateMilestoneTransition(pending, 'AUTO_APPROVE', 'system', rules, now))
+      .toBe('The auto-approval period has not ended yet');
+
+    const overdue = { status: 'SUBMITTED' as const, submittedAt: dateDaysAgo(6) };
+    expect(autoApprovalCountdown(overdue, rules, now)?.expired).toBe(true);
+    expect(assertMilestoneTransition(overdue, 'AUTO_APPROVE', 'system', rules, now)).toBe('APPROVED');
+
+    expect(autoApprovalCountdown({ status: 'IN_PROGRESS' }, rules, now)).toBeNull();
+  });
+
+  it('should format the remaining time at the coarsest useful unit', () => {
+    expect(formatCountdown((3 * 24 + 4) * 60 * 60 * 1000)).toBe('3d 4h');
+    expect(formatCountdown((5 * 60 + 12) * 60 * 1000)).toBe('5h 12m');
+    expect(formatCountdown(30 * 1000)).toBe('1m');
+  });
+});
@@ -0,0 +1,65 @@
+import { MockDatabase } from '../mock-db';
+
+interface Item {
+  id: string;
+  name: string;
+  createdAt?: Date;
+}
+
+const createDb = () => new MockDatabase<{ items: Item[] }>({
+  seed: () => ({ items: [{ id: 'item-1', name: 'First', createdAt: new Date('2024-01-01T00:00:00.000Z') }] }),
+  storageKey: 'mockDbTest',
+});
+
+describe('MockDatabase', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should keep inserts and updates between reads', () => {
+    const db = createDb();
+
+    db.collections.items.insert({ id: 'item-2', name: 'Second' });
+    db.collections.items.update('item-1', { name: 'Renamed' });
+
+    expect(db.collections.items.all()).toHaveLength(2);
+    expect(db.collections.items.find('item-1')?.name).toBe('Renamed');
+  });
+
+  it('should not mutate the seed data', () => {
+    const seed = [{ id: 'item-1', name: 'First' }];
+    const db = new MockDatabase<{ items: Item[] }>({ seed: () => ({ items: seed }) });
+
+    db.collections.items.update('item-1', { name: 'Changed' });
+
+    expect(seed[0].name).toBe('First');
+  });
+
+  it('should restore the seed data on reset', () => {
+    const db = createDb();
+    const listener = jest.fn();
+    db.subscribe(listener);
+
+    db.collections.items.remove('item-1');
+    db.reset();
+
+    expect(db.collections.items.find('item-1')?.name).toBe('First');
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only persist to localStorage when enabled', () => {
+    const db = createDb();
+    db.collections.items.insert({ id: 'item-2', name: 'Second' });
+    expect(localStorage.getItem('mockDbTest')).toBeNull();
+
+    db.setPersistent(true);
+    db.collections.items.insert({ id: 'item-3', name: 'Third' });
+
+    const restored = createDb();
+    expect(restored.collections.items.all().map(item => item.id)).toEqual(['item-1', 'item-2', 'item-3']);
+    expect(restored.collections.items.find('item-1')?.createdAt).toBeInstanceOf(Date);
+
+    restored.setPersistent(false);
+    expect(createDb().collections.items.all()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,88 @@
+import { Money, getCurrencyExponent } from '../money';
+import { calculateInvoiceTotals } from '../services/invoiceService';
+import { formatMinor } from '../utils';
+
+describe('Money', () => {
+  it('should use currency-aware minor-unit exponents', () => {
+    expect(getCurrencyExponent('JPY')).toBe(0);
+    expect(getCurrencyExponent('usd')).toBe(2);
+    expect(getCurrencyExponent('BTC')).toBe(8);
+
+    expect(Money.fromMajor(1500, 'JPY').amount).toBe(1500);
+    expect(Money.fromMajor('0.00012', 'BTC').amount).toBe(12000);
+    expect(Money.fromMajor('1,250.75', 'USD').amount).toBe(125075);
+  });
+
+  it('should round major amounts without floating-point drift', () => {
+    expect(Money.fromMajor(1.005).amount).toBe(101);
+    expect(Money.fromMajor(19.99).amount).toBe(1999);
+    expect(Money.fromMajor(0.125, 'USD', 'half-even').amount).toBe(12);
+    expect(Money.fromMajor(0.135, 'USD', 'half-even').amount).toBe(14);
+    expect(Money.fromMajor(-2.5, 'JPY').amount).toBe(-3);
+  });
+
+  it('should reject fractional minor units and mixed currencies', () => {
+    expect(() => Money.fromMinor(10.5)).toThrow('integer minor units');
+    expect(() => Money.fromMinor(100, 'USD').add(Money.fromMinor(100, 'EUR'))).toThrow('Cannot combine USD with EUR');
+    expect(Money.fromMinor(100, 'USD').equals(Money.fromMinor(100, 'EUR'))).toBe(false);
+  });
+
+  it('should add, subtract and take percentages', () => {
+    const budget = Money.fromMinor(100000);
+    expect(budget.subtract(Money.fromMinor(33333)).amount).toBe(66667);
+    expect(budget.percentage(5).amount).toBe(5000);
+    expect(Money.fromMinor(333).percentage(10).amount).toBe(33);
+    expect(Money.sum([Money.fromMinor(10), Money.fromMinor(20)]).amount).toBe(30);
+    expect(Money.sum([], 'EUR').equals(Money.zero('EUR'))).toBe(true);
+  });
+
+  it('should split without losing a cent', () => {
+    const parts = Money.fromMinor(100000).split(3);
+    expect(parts.map(part => part.amount)).toEqual([33334, 33333, 33333]);
+    expect(Money.sum(parts).amount).toBe(100000);
+
+    expect(Money.fromMinor(-100).split(3).map(part => part.amount)).toEqual([-34, -33, -33]);
+  });
+
+  it('should allocate by ratio and hand the remainder to the largest fractions', () => {
+    const shares = Money.fromMinor(1000).allocate([1, 1, 1, 0, 3]);
+    expect(shares.map(share => share.amount)).toEqual([167, 167, 166, 0, 500]);
+
+    const weighted = Money.fromMinor(10000).allocate([0.7, 0.2, 0.1]);
+    expect(weighted.map(share => share.amount)).toEqual([7000, 2000, 1000]);
+
+    expect(() => Money.fromMinor(100).allocate([0, 0])).toThrow('must not all be zero');
+    expect(() => Money.fromMinor(100).allocate([1, -1])).toThrow('non-negative');
+  });
+
+  it('should format with the currency exponent', () => {
+    expect(Money.fromMinor(123456).format()).toBe('$1,234.56');
+    expect(Money.fromMinor(1500, 'JPY').format()).toBe('¥1,500');
+    expect(Money.fromMinor(2500000, 'USDT').format()).toBe('2.500000 USDT');
+    expect(Money.fromMinor(-5, 'BTC').toDecimalString()).toBe('-0.00000005');
+    expect(Money.fromJSON(Money.fromMinor(42, 'EUR').toJSON()).toString()).toBe('0.42 EUR');
+  });
+
+  it('should render missing amounts instead of throwing', () => {
+    expect(Money.fromMinorOrZero(undefined, 'EUR').toString()).toBe('0.00 EUR');
+    expect(Money.fromMinorOrZero(NaN).isZero()).toBe(true);
+    expect(Money.fromMinorOrZero(1999.6).amount).toBe(2000);
+
+    expect(formatMinor(123456)).toBe('$1,234.56');
+    expect(formatMinor(undefined)).toBe('—');
+    expect(formatMinor(NaN, 'EUR')).toBe('—');
+  });
+});
+
+describe('calculateInvoiceTotals', () => {
+  it('should total line items in minor units', () => {
+    const totals = calculateInvoiceTotals([
+      { quantity: 3, rate: 3333 },
+      { quantity: 1, rate: 1 },
+    ]);
+
+    expect(totals.subtotal.amount).toBe(10000);
+    expect(totals.tax.amount).toBe(1000);
+    expect(totals.total.amount).toBe(11000);
+  });
+});
@@ -0,0 +1,87 @@
+import { ProjectActivity } from '@/types';
+import {
+  activitiesToCsv,
+  activitiesToJson,
+  describeActivity,
+  filterActivities,
+  groupActivitiesByMilestone,
+  sortActivities,
+} from '../projectActivity';
+
+const activity = (
+  id: string,
+  action: ProjectActivity['action'],
+  createdAt: string,
+  overrides: Partial<ProjectActivity> = {}
+): ProjectActivity => ({
+  id,
+  projectId: 'proj-1',
+  userId: 'user-2',
+  actorRole: 'freelancer',
+  action,
+  details: {},
+  createdAt: new Date(createdAt),
+  ...overrides,
+});
+
+const activities = [
+  activity('act-1', 'FUNDS_DEPOSITED', '2024-01-17T10:00:00Z', { userId: 'user-1', actorRole: 'client', details: { amount: 500000, currency: 'USD' } }),
+  activity('act-2', 'MILESTONE_SUBMITTED', '2024-02-19T11:00:00Z', { details: { milestoneId: 'ms-1', milestoneTitle: 'Planning' } }),
+  activity('act-3', 'MILESTONE_REVISION_REQUESTED', '2024-02-20T09:00:00Z', {
+    userId: 'user-1',
+    actorRole: 'client',
+    details: { milestoneId: 'ms-1', milestoneTitle: 'Planning', revisionNotes: 'Add the "checkout" flow, please' },
+  }),
+  activity('act-4', 'MILESTONE_STARTED', '2024-02-23T08:00:00Z', { details: { milestoneId: 'ms-2', milestoneTitle: 'Frontend' } }),
+];
+
+const milestones = [
+  { id: 'ms-1', title: 'Project Planning', order: 1 },
+  { id: 'ms-2', title: 'Frontend Development', order: 2 },
+];
+
+describe('project activity', () => {
+  it('should describe each action from its details', () => {
+    expect(describeActivity(activities[0])).toBe('Deposited $5,000.00 into escrow');
+    expect(describeActivity(activities[2])).toBe('Asked for changes to Planning: Add the "checkout" flow, please');
+    expect(describeActivity(activity('act-5', 'PROJECT_COMPLETED', '2024-03-01T00:00:00Z'))).toBe('Marked the project as completed');
+  });
+
+  it('should filter by actor, action and date range', () => {
+    const ids = (list: ProjectActivity[]) => list.map(entry => entry.id);
+
+    expect(ids(filterActivities(activities, { actorRole: 'client' }))).toEqual(['act-1', 'act-3']);
+    expect(ids(filterActivities(activities, { actions: ['MILESTONE_SUBMITTED', 'MILESTONE_STARTED'] }))).toEqual(['act-2', 'act-4']);
+    expect(ids(filterActivities(activities, {
+      from: new Date('2024-02-01T00:00:00Z'),
+      to: new Date('2024-02-20T23:59:59Z'),
+    }))).toEqual(['act-2', 'act-3']);
+    expect(ids(sortActivities(activities))).toEqual(['act-4', 'act-3', 'act-2', 'act-1']);
+  });
+
+  it('should group by milestone with project-wide activity first', () => {
+    const groups = groupActivitiesByMilestone(activities, milestones);
+
+    expect(groups.map(group => [group.title, group.activities.map(entry => entry.id)])).toEqual([
+      ['Project', ['act-1']],
+      ['Project Planning', ['act-3', 'act-2']],
+      ['Frontend Development', ['act-4']],
+    ]);
+  });
+
+  it('should export CSV with escaped cells and JSON with the raw details', () => {
+    const csv = activitiesToCsv([activities[2]]).split('\r\n');
+
+    expect(csv[0]).toBe('id,createdAt,action,label,actorRole,userId,milestoneId,summary,details');
+    expect(csv[1]).toContain('act-3,2024-02-20T09:00:00.000Z,MILESTONE_REVISION_REQUESTED,Revision requested,client,user-1,ms-1,');
+    expect(csv[1]).toContain('"Asked for changes to Planning: Add the ""checkout"" flow, please"');
+
+    const injected = activitiesToCsv([{ ...activities[2], userId: '=HYPERLINK("https://evil.example","x")' }]).split('\r\n');
+    expect(injected[1]).toContain(',"\'=HYPERLINK(""https://evil.example"",""x"")",');
+    expect(activitiesToCsv([{ ...activities[2], userId: '-1+2' }])).toContain(`,"'-1+2",`);
+
+    const json = JSON.parse(activitiesToJson('proj-1', activities, new Date('2024-03-01T00:00:00Z')));
+    expect(json).toMatchObject({ projectId: 'proj-1', exportedAt: '2024-03-01T00:00:00.000Z', count: 4 });
+    expect(json.activities[0].details).toEqual({ amount: 500000, currency: 'USD' });
+  });
+});
@@ -0,0 +1,26 @@
+import { isOverdue, projectPriority } from '../projectPriority';
+
+const now = new Date('2024-03-20T09:30:00Z');
+
+const project = (deadline: string, overrides: { status?: 'ACTIVE' | 'COMPLETED'; progress?: number } = {}) => ({
+  deadline: new Date(deadline),
+  status: overrides.status ?? ('ACTIVE' as const),
+  progress: overrides.progress,
+});
+
+describe('project priority', () => {
+  it('should rank open projects by how close the deadline is', () => {
+    expect(projectPriority(project('2024-03-18T00:00:00Z'), now)).toBe('high');
+    expect(projectPriority(project('2024-03-25T00:00:00Z'), now)).toBe('high');
+    expect(projectPriority(project('2024-04-10T00:00:00Z'), now)).toBe('medium');
+    expect(projectPriority(project('2024-06-01T00:00:00Z'), now)).toBe('low');
+  });
+
+  it('should treat finished projects as neither urgent nor overdue', () => {
+    const finished = project('2024-03-01T00:00:00Z', { status: 'COMPLETED' });
+    expect(projectPriority(finished, now)).toBe('low');
+    expect(isOverdue(finished, now)).toBe(false);
+    expect(isOverdue(project('2024-03-01T00:00:00Z', { progress: 100 }), now)).toBe(false);
+    expect(isOverdue(project('2024-03-01T00:00:00Z', { progress: 60 }), now)).toBe(true);
+  });
+});
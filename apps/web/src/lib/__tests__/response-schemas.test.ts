@@ -0,0 +1,216 @@
+import {
+  parseProject,
+  parseProjects,
+  parseMilestones,
+  parseTransactions,
+  parseEscrowAccount,
+  parseBalance,
+  parsePayouts,
+  parseConversations,
+  parseMessages,
+  parseActivities,
+  parseMessagePage,
+  parseMessageSearchResults,
+  parseUser,
+  parseUsers,
+  parseAuthSession,
+  parseKYCVerification,
+  parseNotifications,
+  parseUnreadCount,
+  parseMilestoneSuggestions,
+  parseDeliverableVerification,
+  parseDisputeAnalysis,
+  parseDispute,
+  parseDisputes,
+  parseDisputeResolution,
+  parseInvitations,
+} from '../response-schemas';
+import { FrontendError } from '../utils/errorHandler';
+import { mockRouter } from '../api/mock-routes';
+
+const legacyProject = {
+  _id: 'proj-9',
+  title: 'Brand refresh',
+  description: 'New logo and colours',
+  category: 'Design',
+  budget: 250000,
+  deadline: '2024-06-01T00:00:00.000Z',
+  status: 'ACTIVE',
+  client: { _id: 'user-1', email: 'client@example.com' },
+  freelancer: 'user-2',
+  milestones: ['ms-1', 'ms-2'],
+  progress: { completed: 1, total: 4 },
+  escrow: { status: 'HELD', totalHeld: 200000, totalReleased: 50000, remaining: 150000 },
+  paymentSchedule: { autoApproveDays: 5, platformFeePercent: 3 },
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-02T00:00:00.000Z',
+};
+
+describe('response schemas', () => {
+  it('should normalise the legacy project shape into the domain model', () => {
+    const project = parseProject(legacyProject, 'GET /projects/:id');
+
+    expect(project).toMatchObject({
+      id: 'proj-9',
+      totalBudget: 250000,
+      clientId: 'user-1',
+      freelancerId: 'user-2',
+      progress: 25,
+      escrowAmount: 200000,
+      escrowStatus: 'HELD',
+      autoApprovalPeriod: 5,
+      currency: 'USD',
+    });
+    expect(project.deadline).toEqual(new Date('2024-06-01T00:00:00.000Z'));
+    expect(project).not.toHaveProperty('_id');
+    expect(project).not.toHaveProperty('milestones');
+  });
+
+  it('should accept bare arrays and paginated envelopes', () => {
+    expect(parseProjects([legacyProject], 'GET /projects')).toMatchObject({ total: 1, page: 1, limit: 1 });
+    expect(parseProjects({ items: [legacyProject], total: 12, page: 2, limit: 1 }, 'GET /projects').page).toBe(2);
+  });
+
+  it('should map legacy transaction types', () => {
+    const [transaction] = parseTransactions([{
+      _id: 'tx-1',
+      projectId: 'proj-1',
+      type: 'MILESTONE_RELEASE',
+      amount: 5000,
+      currency: 'EUR',
+      from: 'user-1',
+      to: 'user-2',
+      status: 'COMPLETED',
+      provider: 'stripe',
+      processedAt: null,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    }], 'GET /payments/transactions').items;
+
+    expect(transaction).toMatchObject({ id: 'tx-1', type: 'RELEASE', fromUserId: 'user-1', toUserId: 'user-2' });
+    expect(transaction.processedAt).toBeUndefined();
+  });
+
+  it('should report every invalid field path in a FrontendError', () => {
+    const drifted = { ...legacyProject, budget: '2500.00', deadline: 'soon', status: 'LIVE' };
+
+    let thrown: unknown;
+    try {
+      parseProjects({ items: [legacyProject, drifted], total: 2 }, 'GET /projects');
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toBeInstanceOf(FrontendError);
+    const { details, message } = thrown as FrontendError;
+    expect(details.context).toBe('GET /projects');
+    expect(details.issues.map((issue: { path: string }) => issue.path)).toEqual([
+      'items[1].totalBudget',
+      'items[1].deadline',
+      'items[1].status',
+    ]);
+    expect(message).toContain('items[1].deadline');
+  });
+
+  it('should give users and notifications the `_id` their models read', () => {
+    const user = parseUser({ id: 'user-7', email: 'sam@example.com', role: 'freelancer', status: 'verified', createdAt: '2024-01-01', updatedAt: '2024-01-02' }, 'user');
+    expect(user._id).toBe('user-7');
+    expect(user.emailVerified).toBe(true);
+    expect(user.profile).toEqual({});
+    expect(user.createdAt).toBe(new Date('2024-01-01').toISOString());
+
+    const [notification] = parseNotifications({ items: [{ _id: 'notif-3', userId: 'user-1', type: 'PAYMENT', title: 'Paid', isRead: true, createdAt: '2024-03-01T00:00:00.000Z' }] }, 'notifications');
+    expect(notification).toMatchObject({
+      _id: 'notif-3',
+      read: true,
+      priority: 'NORMAL',
+      sentVia: [],
+      updatedAt: '2024-03-01T00:00:00.000Z',
+    });
+  });
+
+  it('should normalise a legacy dispute into the canonical model', () => {
+    const dispute = parseDispute({
+      _id: 'disp-4',
+      projectId: 'proj-9',
+      milestone: 'ms-2',
+      raisedBy: 'user-1',
+      reason: 'Late delivery',
+      status: 'CLOSED',
+      resolution: { decision: 'PARTIAL_PAYMENT', amountToFreelancer: 60000, amountToClient: 40000, decidedBy: 'arb-1', decidedAt: '2024-03-05T00:00:00.000Z' },
+      messages: [{ sender: 'user-1', content: 'Still waiting', sentAt: '2024-03-01T09:00:00.000Z' }],
+      appeals: [],
+      mediator: null,
+      createdAt: '2024-03-01T00:00:00.000Z',
+      updatedAt: '2024-03-05T00:00:00.000Z',
+    }, 'dispute');
+    expect(dispute).toMatchObject({ id: 'disp-4', project: 'proj-9', status: 'RESOLVED', mediator: undefined });
+    expect(dispute).not.toHaveProperty('_id');
+    expect(dispute.createdAt).toEqual(new Date('2024-03-01T00:00:00.000Z'));
+    expect(dispute.messages?.[0].sentAt).toEqual(new Date('2024-03-01T09:00:00.000Z'));
+    expect(dispute.resolution?.decidedAt).toEqual(new Date('2024-03-05T00:00:00.000Z'));
+
+    const resolution = parseDisputeResolution({ ...dispute.resolution, disputeId: 'disp-4' }, 'resolution');
+    expect(resolution).toMatchObject({ id: 'res-disp-4', decision: 'PARTIAL_SPLIT', clientAmount: 40000, freelancerAmount: 60000, resolvedBy: 'arb-1' });
+
+    expect(() => parseDispute({ ...dispute, createdAt: 'yesterday' }, 'dispute')).toThrow('createdAt');
+    expect(() => parseDispute({ ...dispute, status: 'ARCHIVED' }, 'dispute')).toThrow('Unknown dispute status "ARCHIVED"');
+  });
+
+  it('should flatten a sign-in response into the session', () => {
+    const session = parseAuthSession({
+      user: { id: 'user-1', email: 'client@example.com', firstName: 'John', lastName: 'Client', role: 'client' },
+      accessToken: 'access',
+      refreshToken: 'refresh',
+    }, 'login');
+    expect(session).toMatchObject({ id: 'user-1', token: 'access', refreshToken: 'refresh', verified: false });
+    expect(() => parseAuthSession({ user: { id: 'user-1', email: 'a@b.c', role: 'client' } }, 'login')).toThrow('token');
+  });
+
+  describe('mock backend contract', () => {
+    const cases: [string, string, (data: unknown) => unknown][] = [
+      ['projects', '/projects', data => parseProjects(data, 'projects')],
+      ['project milestones', '/projects/proj-1/milestones', data => parseMilestones(data, 'milestones')],
+      ['project activities', '/projects/proj-1/activities', data => parseActivities(data, 'activities')],
+      ['transactions', '/payments/transactions', data => parseTransactions(data, 'transactions')],
+      ['escrow', '/payments/escrow/proj-1', data => parseEscrowAccount(data, 'escrow')],
+      ['balance', '/payments/balance/user-1', data => parseBalance(data, 'balance')],
+      ['payouts', '/payments/payouts/user-1', data => parsePayouts(data, 'payouts')],
+      ['conversations', '/messaging/conversations/user-1', data => parseConversations(data, 'conversations')],
+      ['messages', '/messaging/messages/proj-1', data => parseMessages(data, 'messages')],
+      ['message page', '/messaging/messages/proj-1?limit=2', data => parseMessagePage(data, 'messages')],
+      ['message search', '/messaging/search/user-1?q=checkout', data => parseMessageSearchResults(data, 'search')],
+      ['current user', '/auth/me', data => parseUser(data, 'me')],
+      ['user', '/users/user-1', data => parseUser(data, 'user')],
+      ['user search', '/users/search', data => parseUsers(data, 'users')],
+      ['kyc', '/users/user-1/kyc', data => parseKYCVerification(data, 'kyc')],
+      ['notifications', '/notifications?userId=user-1', data => parseNotifications(data, 'notifications')],
+      ['unread count', '/notifications/unread-count?userId=user-1', data => parseUnreadCount(data, 'unread')],
+      ['admin users', '/admin/users', data => parseUsers(data, 'admin users')],
+      ['admin projects', '/admin/projects', data => parseProjects(data, 'admin projects')],
+      ['admin transactions', '/admin/transactions', data => parseTransactions(data, 'admin transactions')],
+      ['disputes', '/disputes', data => parseDisputes(data, 'disputes')],
+      ['dispute resolution', '/disputes/disp-003/resolution', data => parseDisputeResolution(data, 'resolution')],
+      ['invitations', '/projects/invitations/freelancer/user-2', data => parseInvitations(data, 'invitations')],
+    ];
+
+    it.each(cases)('should validate %s', async (_name, url, parse) => {
+      const response = await mockRouter.handle('GET', url);
+      expect(() => parse(response?.data)).not.toThrow();
+    });
+
+    const postCases: [string, string, unknown, (data: unknown) => unknown][] = [
+      ['login', '/auth/login', { email: 'freelancer@example.com', password: 'secret' }, data => parseAuthSession(data, 'login')],
+      ['register', '/auth/register', { email: 'new@example.com', firstName: 'New', lastName: 'User', role: 'client' }, data => parseAuthSession(data, 'register')],
+      ['password reset', '/auth/reset-password', { token: 't', newPassword: 'secret' }, data => parseAuthSession(data, 'reset')],
+      ['milestone suggestions', '/ai/milestone-suggestions', { budget: 5000 }, data => parseMilestoneSuggestions(data, 'suggestions')],
+      ['deliverable verification', '/ai/verify-deliverable', {}, data => parseDeliverableVerification(data, 'verification')],
+      ['dispute analysis', '/ai/dispute-analysis', {}, data => parseDisputeAnalysis(data, 'analysis')],
+    ];
+
+    it.each(postCases)('should validate the %s response', async (_name, url, body, parse) => {
+      const response = await mockRouter.handle('POST', url, body);
+      expect(() => parse(response?.data)).not.toThrow();
+    });
+  });
+});
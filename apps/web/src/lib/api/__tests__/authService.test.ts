@@ -8,6 +8,7 @@ jest.mock('../api/client', () => ({
     get: jest.fn(),
     put: jest.fn(),
     delete: jest.fn(),
+    setTokenRefresher: jest.fn(),
   },
 }));
 
@@ -0,0 +1,52 @@
+import { disputeContextService } from '../disputeContextService';
+import { projectService } from '../projectService';
+import { paymentService } from '../paymentService';
+import { Dispute } from '@/types';
+
+jest.mock('@/config/app-config', () => ({ isMockMode: false }));
+jest.mock('../projectService', () => ({
+  projectService: { getProjectById: jest.fn(), getMilestones: jest.fn(), getProjects: jest.fn() },
+}));
+jest.mock('../paymentService', () => ({
+  paymentService: { getTransactions: jest.fn() },
+}));
+
+const project = (id: string, clientId: string, freelancerId: string) => ({ id, title: `Project ${id}`, clientId, freelancerId });
+
+describe('DisputeContextService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should load the disputed projects, milestones and payments from the API', async () => {
+    (projectService.getProjectById as jest.Mock).mockImplementation(async (id: string) => project(id, 'client-9', 'freelancer-9'));
+    (projectService.getMilestones as jest.Mock).mockImplementation(async (id: string) => [{ id: `${id}-ms`, amount: 42000 }]);
+    (paymentService.getTransactions as jest.Mock).mockResolvedValue([{ type: 'RELEASE', amount: 1000 }]);
+    const disputes = [
+      { id: 'd1', project: 'live-1' },
+      { id: 'd2', project: 'live-1' },
+      { id: 'd3', project: { id: 'live-2' } },
+    ] as unknown as Dispute[];
+
+    const context = await disputeContextService.getDisputeContext(disputes, 'user-9');
+
+    expect(context.projects?.map(entry => entry.id)).toEqual(['live-1', 'live-2']);
+    expect(context.milestones?.map(entry => entry.id)).toEqual(['live-1-ms', 'live-2-ms']);
+    expect(paymentService.getTransactions).toHaveBeenCalledWith('user-9', { projectId: 'live-1' });
+    expect(context.transactions).toHaveLength(2);
+  });
+
+  it('should merge the project history of everyone involved', async () => {
+    (projectService.getProjects as jest.Mock).mockImplementation(async (userId: string) => ({
+      items: userId === 'arbitrator-9' ? [project('p1', 'client-9', 'arbitrator-9')] : [project('p1', 'client-9', 'arbitrator-9'), project('p2', 'client-9', 'freelancer-9')],
+      total: 1,
+      page: 1,
+      limit: 100,
+    }));
+
+    const history = await disputeContextService.getProjectHistory(['arbitrator-9', 'client-9', '']);
+
+    expect(projectService.getProjects).toHaveBeenCalledTimes(2);
+    expect(history.map(entry => entry.id)).toEqual(['p1', 'p2']);
+  });
+});
@@ -0,0 +1,192 @@
+import { MockRouter, ok, notFound, normalizePath, parseQuery } from '../mock-router';
+import { mockRouter } from '../mock-routes';
+import { resetMockData } from '../../mock-data';
+
+describe('MockRouter', () => {
+  it('should match nested routes instead of the parent collection', async () => {
+    const router = new MockRouter()
+      .get('/projects', () => ok('list'))
+      .get('/projects/:projectId', ({ params }) => ok(`project ${params.projectId}`))
+      .get('/projects/:projectId/milestones', ({ params }) => ok(`milestones of ${params.projectId}`));
+
+    expect((await router.handle('GET', '/projects'))?.data).toBe('list');
+    expect((await router.handle('GET', '/projects/proj-1'))?.data).toBe('project proj-1');
+    expect((await router.handle('GET', '/projects/proj-1/milestones'))?.data).toBe('milestones of proj-1');
+  });
+
+  it('should prefer static segments over params', async () => {
+    const router = new MockRouter()
+      .get('/projects/:projectId', () => ok('by id'))
+      .get('/projects/search', () => ok('search'));
+
+    expect((await router.handle('GET', '/projects/search?q=logo'))?.data).toBe('search');
+  });
+
+  it('should only match the registered method', async () => {
+    const router = new MockRouter().post('/milestones/:milestoneId/approve', () => ok('approved'));
+
+    expect(await router.handle('GET', '/milestones/ms-1/approve')).toBeNull();
+    expect((await router.handle('POST', '/milestones/ms-1/approve'))?.data).toBe('approved');
+  });
+
+  it('should pass query strings and config params to handlers', async () => {
+    const handler = jest.fn(() => ok(null));
+    const router = new MockRouter().get('/admin/users', handler);
+
+    await router.handle('GET', '/admin/users?page=2', undefined, { params: { role: 'client' } });
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({
+      query: { page: '2', role: 'client' },
+      params: {},
+    }));
+  });
+
+  it('should build an axios-like response with status text', async () => {
+    const router = new MockRouter().get('/milestones/:milestoneId', () => notFound('Milestone not found'));
+    const response = await router.handle('GET', '/milestones/missing');
+
+    expect(response?.status).toBe(404);
+    expect(response?.statusText).toBe('Not Found');
+    expect(response?.data).toEqual({ error: 'Milestone not found' });
+  });
+
+  it('should answer repeated mutations with the same idempotency key only once', async () => {
+    let count = 0;
+    const router = new MockRouter().post('/messages', () => ok(++count));
+    const config = { headers: { 'Idempotency-Key': 'key-1' } };
+
+    expect((await router.handle('POST', '/messages', {}, config))?.data).toBe(1);
+    expect((await router.handle('POST', '/messages', {}, config))?.data).toBe(1);
+    expect((await router.handle('POST', '/messages', {}))?.data).toBe(2);
+  });
+
+  it('should only keep the most recent idempotent answers', async () => {
+    let count = 0;
+    const router = new MockRouter().post('/messages', () => ok(++count));
+    const send = (key: string) => router.handle('POST', '/messages', {}, { headers: { 'Idempotency-Key': key } });
+
+    for (let index = 0; index <= 500; index++) {
+      await send(`key-${index}`);
+    }
+    expect((await send('key-500'))?.data).toBe(501);
+    // The first key was evicted, so it runs again
+    expect((await send('key-0'))?.data).toBe(502);
+  });
+
+  it('should answer a malformed escape with a 400 instead of throwing', async () => {
+    const router = new MockRouter().get('/projects/:projectId', ({ params }) => ok(params.projectId));
+
+    const response = await router.handle('GET', '/projects/%E0');
+    expect(response?.status).toBe(400);
+    expect(response?.data).toEqual({ message: 'Malformed URL: /projects/%E0' });
+    expect((await router.handle('GET', '/projects/a%20b'))?.data).toBe('a b');
+  });
+
+  it('should normalize paths and queries', () => {
+    expect(normalizePath('/api/v1/notifications/?userId=1')).toBe('/notifications');
+    expect(normalizePath('projects//proj-1/')).toBe('/projects/proj-1');
+    expect(parseQuery('/disputes?userId=user-1&status=OPEN')).toEqual({ userId: 'user-1', status: 'OPEN' });
+  });
+});
+
+describe('mock route table', () => {
+  it('should return milestones for a single project', async () => {
+    const response = await mockRouter.handle<any[]>('GET', '/projects/proj-1/milestones');
+
+    expect(response?.status).toBe(200);
+    expect(response?.data.length).toBeGreaterThan(0);
+    expect(response?.data.every((milestone) => milestone.projectId === 'proj-1')).toBe(true);
+  });
+
+  it('should answer AI requests sent as POST', async () => {
+    const response = await mockRouter.handle<any>('POST', '/ai/milestone-suggestions', { budget: 2000 });
+
+    expect(response?.data.suggestedMilestones[0].amount).toBe(400);
+  });
+
+  it('should route prefixed notification requests', async () => {
+    const response = await mockRouter.handle<any>('GET', '/api/v1/notifications?userId=user-1');
+
+    expect(Array.isArray(response?.data.items)).toBe(true);
+  });
+
+  it('should list the admin dispute queue by SLA breach risk', async () => {
+    const response = await mockRouter.handle<any>('GET', '/admin/disputes?sort=breach_risk');
+    const [first] = response!.data.items;
+
+    // The review of disp-001 has been waiting for its full two-day window
+    expect(first.id).toBe('disp-001');
+    expect(first.milestone).toMatchObject({ id: 'ms-1', amount: expect.any(Number) });
+    // Disputes past the SLA phases go to the back of the queue
+    expect(['AWAITING_OUTCOME', 'RESOLVED', 'ESCALATED']).toContain(response!.data.items[response!.data.items.length - 1].status);
+  });
+});
+
+describe('stateful mock backend', () => {
+  afterEach(() => {
+    resetMockData();
+  });
+
+  it('should persist a project through funding and milestone approval', async () => {
+    const project = (await mockRouter.handle<any>('POST', '/projects', {
+      title: 'Logo design',
+      totalBudget: 50000,
+      clientId: 'user-1',
+      freelancerId: 'user-2',
+      milestones: [{ title: 'Concepts', amount: 50000 }],
+    }))!.data;
+
+    expect((await mockRouter.handle<any>('GET', `/projects/${project.id}`))?.data.title).toBe('Logo design');
+
+    const [milestone] = (await mockRouter.handle<any[]>('GET', `/projects/${project.id}/milestones`))!.data;
+    expect(milestone.status).toBe('PENDING');
+
+    await mockRouter.handle('PUT', `/projects/${project.id}`, { status: 'AWAITING_DEPOSIT' });
+    const deposit = (await mockRouter.handle<any>('POST', '/payments/deposit', { projectId: project.id, amount: 50000 }))!.data;
+    expect(deposit.project.heldAmount).toBe(50000);
+    expect((await mockRouter.handle<any>('GET', `/projects/${project.id}`))?.data.status).toBe('ACTIVE');
+
+    // Milestones follow the workflow rules: a pending milestone has to be started before it can be submitted
+    expect((await mockRouter.handle<any>('POST', `/milestones/${milestone.id}/submit`, { submissionNotes: 'Early' }))!.status).toBe(409);
+    await mockRouter.handle('POST', `/milestones/${milestone.id}/start`);
+    await mockRouter.handle('POST', `/milestones/${milestone.id}/submit`, { submissionNotes: 'Done' });
+    const approved = (await mockRouter.handle<any>('POST', `/milestones/${milestone.id}/approve`, {}))!.data;
+    expect(approved.status).toBe('APPROVED');
+
+    const escrow = (await mockRouter.handle<any>('GET', `/payments/escrow/${project.id}`))!.data;
+    expect(escrow.releasedAmount).toBe(50000);
+    expect(escrow.heldAmount).toBe(0);
+
+    const stored = (await mockRouter.handle<any>('GET', `/projects/${project.id}`))!.data;
+    expect(stored.status).toBe('COMPLETED');
+    expect(stored.progress).toBe(100);
+
+    const secondApproval = await mockRouter.handle('POST', `/milestones/${milestone.id}/approve`, {});
+    expect(secondApproval?.status).toBe(409);
+  });
+
+  it('should mark notifications as read', async () => {
+    await mockRouter.handle('PUT', '/api/v1/notifications/read-all', { userId: 'user-1' });
+    const response = await mockRouter.handle<any>('GET', '/api/v1/notifications/unread-count?userId=user-1');
+
+    expect(response?.data.count).toBe(0);
+  });
+
+  it('should only let the sender edit or delete a message', async () => {
+    // Signed out, the mock acts as user-1, who sent msg-1 but not msg-2
+    expect((await mockRouter.handle('PATCH', '/messaging/messages/msg-2', { content: 'Rewritten' }))?.status).toBe(403);
+    expect((await mockRouter.handle('DELETE', '/messaging/messages/msg-2'))?.status).toBe(403);
+
+    const edited = await mockRouter.handle<any>('PATCH', '/messaging/messages/msg-1', { content: 'Rewritten' });
+    expect(edited?.data.content).toBe('Rewritten');
+    expect((await mockRouter.handle('DELETE', '/messaging/messages/msg-1'))?.status).toBe(200);
+  });
+
+  it('should start from the seed data after a reset', async () => {
+    await mockRouter.handle('DELETE', '/projects/proj-1');
+    expect((await mockRouter.handle('GET', '/projects/proj-1'))?.status).toBe(404);
+
+    resetMockData();
+    expect((await mockRouter.handle('GET', '/projects/proj-1'))?.status).toBe(200);
+  });
+});
@@ -0,0 +1,108 @@
+import { InternalAxiosRequestConfig } from 'axios';
+import { apiClient } from '../client';
+
+const adapter = jest.fn((config: InternalAxiosRequestConfig) => new Promise(resolve => {
+  setTimeout(() => resolve({
+    data: { url: config.url, params: config.params },
+    status: 200,
+    statusText: 'OK',
+    headers: {},
+    config,
+  }), 5);
+}));
+
+describe('ApiClient GET coalescing and caching', () => {
+  beforeAll(() => {
+    (apiClient as any).client.defaults.adapter = adapter;
+  });
+
+  beforeEach(() => {
+    adapter.mockClear();
+    apiClient.clearCache();
+  });
+
+  it('should share one network call between identical in-flight GETs', async () => {
+    const [first, second] = await Promise.all([
+      apiClient.get('/projects'),
+      apiClient.get('/projects'),
+    ]);
+
+    expect(adapter).toHaveBeenCalledTimes(1);
+    expect(second).toBe(first);
+  });
+
+  it('should treat different query params as different requests', async () => {
+    await Promise.all([
+      apiClient.get('/projects', { params: { page: 1 } }),
+      apiClient.get('/projects', { params: { page: 2 } }),
+    ]);
+
+    expect(adapter).toHaveBeenCalledTimes(2);
+  });
+
+  it('should let callers opt out of coalescing', async () => {
+    await Promise.all([
+      apiClient.get('/projects'),
+      apiClient.get('/projects', { dedupe: false }),
+    ]);
+
+    expect(adapter).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only cache responses when a TTL is given', async () => {
+    await apiClient.get('/notifications/unread-count', { cacheTTL: 1000 });
+    await apiClient.get('/notifications/unread-count', { cacheTTL: 1000 });
+    await apiClient.get('/projects');
+    await apiClient.get('/projects');
+
+    expect(adapter.mock.calls.map(([config]) => config.url)).toEqual([
+      '/notifications/unread-count',
+      '/projects',
+      '/projects',
+    ]);
+  });
+
+  it('should expire cached responses after the TTL', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    await apiClient.get('/notifications/unread-count', { cacheTTL: 500 });
+
+    now.mockReturnValue(1600);
+    await apiClient.get('/notifications/unread-count', { cacheTTL: 500 });
+
+    expect(adapter).toHaveBeenCalledTimes(2);
+    now.mockRestore();
+  });
+
+  it('should invalidate cached GETs after a mutation to the same resource', async () => {
+    await apiClient.get('/api/v1/notifications/unread-count', { cacheTTL: 60000 });
+    await apiClient.get('/projects/proj-1', { cacheTTL: 60000 });
+
+    await apiClient.put('/api/v1/notifications/read-all', { userId: 'user-1' });
+    await apiClient.get('/api/v1/notifications/unread-count', { cacheTTL: 60000 });
+    await apiClient.get('/projects/proj-1', { cacheTTL: 60000 });
+
+    const gets = adapter.mock.calls.filter(([config]) => config.method === 'get');
+    expect(gets.map(([config]) => config.url)).toEqual([
+      '/api/v1/notifications/unread-count',
+      '/projects/proj-1',
+      '/api/v1/notifications/unread-count',
+    ]);
+  });
+
+  it('should invalidate extra prefixes listed by the mutation', async () => {
+    await apiClient.get('/projects/proj-1', { cacheTTL: 60000 });
+    await apiClient.post('/milestones/ms-1/approve', {}, { invalidates: ['/projects'] });
+    await apiClient.get('/projects/proj-1', { cacheTTL: 60000 });
+
+    expect(adapter.mock.calls.filter(([config]) => config.url === '/projects/proj-1')).toHaveLength(2);
+  });
+
+  it('should not cache a GET that was in flight during a mutation', async () => {
+    const pending = apiClient.get('/projects', { cacheTTL: 60000 });
+    await apiClient.post('/projects', { title: 'New' });
+    await pending;
+    await apiClient.get('/projects', { cacheTTL: 60000 });
+
+    expect(adapter.mock.calls.filter(([config]) => config.method === 'get')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,133 @@
+import { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+import { apiClient } from '../client';
+
+const respond = (config: InternalAxiosRequestConfig, status: number, data: any = {}) => {
+  const response = { data, status, statusText: String(status), headers: {}, config };
+  if (status >= 400) {
+    return Promise.reject(Object.assign(new Error(`Request failed with status code ${status}`), {
+      isAxiosError: true,
+      config,
+      response,
+    }));
+  }
+  return Promise.resolve(response);
+};
+
+// Accepts only the given token; everything else is a 401
+const createAdapter = (validToken: string) => jest.fn<ReturnType<AxiosAdapter>, Parameters<AxiosAdapter>>(
+  (config) => respond(config, config.headers?.Authorization === `Bearer ${validToken}` ? 200 : 401, { url: config.url })
+);
+
+const useAdapter = (adapter: AxiosAdapter) => {
+  (apiClient as any).client.defaults.adapter = adapter;
+};
+
+describe('ApiClient token refresh', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem('access_token', 'expired');
+    localStorage.setItem('refresh_token', 'refresh');
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    apiClient.setTokenRefresher(null);
+    jest.restoreAllMocks();
+  });
+
+  it('should refresh once and replay every request that failed with 401', async () => {
+    const adapter = createAdapter('fresh');
+    useAdapter(adapter);
+
+    const refresher = jest.fn(async () => {
+      localStorage.setItem('access_token', 'fresh');
+      return { accessToken: 'fresh' };
+    });
+    apiClient.setTokenRefresher(refresher);
+
+    const responses = await Promise.all([
+      apiClient.get<any>('/projects'),
+      apiClient.post<any>('/milestones/ms-1/approve', {}),
+      apiClient.put<any>('/milestones/ms-1', { title: 'Draft' }),
+    ]);
+
+    expect(refresher).toHaveBeenCalledTimes(1);
+    expect(responses.map(response => response.data.url)).toEqual([
+      '/projects',
+      '/milestones/ms-1/approve',
+      '/milestones/ms-1',
+    ]);
+    // 3 rejected attempts + 3 replays
+    expect(adapter).toHaveBeenCalledTimes(6);
+  });
+
+  it('should replay a late 401 with the refreshed token instead of refreshing again', async () => {
+    const fresh = createAdapter('fresh');
+    let releaseSlow: () => void = () => undefined;
+    // `/reports` was sent with the old token but its 401 only arrives after the refresh
+    const adapter = jest.fn<ReturnType<AxiosAdapter>, Parameters<AxiosAdapter>>((config) =>
+      config.url === '/reports' && config.headers?.Authorization === 'Bearer expired'
+        ? new Promise<void>(resolve => { releaseSlow = resolve; }).then(() => respond(config, 401))
+        : fresh(config)
+    );
+    useAdapter(adapter);
+
+    const refresher = jest.fn(async () => {
+      localStorage.setItem('access_token', 'fresh');
+      return { accessToken: 'fresh' };
+    });
+    apiClient.setTokenRefresher(refresher);
+
+    const slow = apiClient.get<any>('/reports');
+    await apiClient.get<any>('/projects');
+    releaseSlow();
+
+    await expect(slow).resolves.toMatchObject({ data: { url: '/reports' } });
+    expect(refresher).toHaveBeenCalledTimes(1);
+    expect(localStorage.getItem('access_token')).toBe('fresh');
+  });
+
+  it('should hold requests started while a refresh is in flight', async () => {
+    const adapter = createAdapter('fresh');
+    useAdapter(adapter);
+
+    let finishRefresh: () => void = () => undefined;
+    apiClient.setTokenRefresher(() => new Promise(resolve => {
+      finishRefresh = () => {
+        localStorage.setItem('access_token', 'fresh');
+        resolve({ accessToken: 'fresh' });
+      };
+    }));
+
+    const first = apiClient.get<any>('/projects');
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const second = apiClient.get<any>('/notifications');
+
+    finishRefresh();
+    await Promise.all([first, second]);
+
+    const notificationCalls = adapter.mock.calls.filter(([config]) => config.url === '/notifications');
+    expect(notificationCalls).toHaveLength(1);
+    expect(notificationCalls[0][0].headers?.Authorization).toBe('Bearer fresh');
+  });
+
+  it('should clear the session when the refresh fails', async () => {
+    useAdapter(createAdapter('fresh'));
+    apiClient.setTokenRefresher(() => Promise.reject(new Error('Refresh token expired')));
+
+    await expect(apiClient.get('/projects')).rejects.toMatchObject({ status: 401 });
+    expect(localStorage.getItem('access_token')).toBeNull();
+    expect(localStorage.getItem('refresh_token')).toBeNull();
+  });
+
+  it('should not refresh for rejected login attempts', async () => {
+    useAdapter(createAdapter('fresh'));
+    const refresher = jest.fn();
+    apiClient.setTokenRefresher(refresher);
+
+    await expect(apiClient.post('/auth/login', { email: 'a@b.c', password: 'wrong' })).rejects.toMatchObject({ status: 401 });
+    expect(refresher).not.toHaveBeenCalled();
+    expect(localStorage.getItem('access_token')).toBe('expired');
+    expect(localStorage.getItem('refresh_token')).toBe('refresh');
+  });
+});
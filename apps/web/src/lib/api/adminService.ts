@@ -1,7 +1,16 @@
 import { apiClient } from './client';
+import { parseProject, parseProjects, parseTransactions, parseUser, parseUsers } from '../response-schemas';
+
+// Admin rows carry the project and milestone inline rather than as ids
+export interface AdminDisputeList {
+  items: any[];
+  pagination?: { page: number; limit: number; total: number; totalPages: number };
+}
 
 export const adminService = {
-  // Admin Dashboard endpoints
+  // Admin Dashboard endpoints. The dashboard and analytics aggregates, dispute
+  // rows and status updates are passed through unvalidated; only responses that
+  // map onto a domain model are parsed
   getDashboard: async () => {
     const response = await apiClient.get('/admin/dashboard');
     return response.data;
@@ -10,12 +19,12 @@ export const adminService = {
   // User Management endpoints
   getUsers: async (params: { page?: number; limit?: number; role?: string; status?: string; search?: string } = {}) => {
     const response = await apiClient.get('/admin/users', { params });
-    return response.data;
+    return parseUsers(response.data, 'GET /admin/users');
   },
   
   getUser: async (userId: string) => {
     const response = await apiClient.get(`/admin/users/${userId}`);
-    return response.data;
+    return parseUser(response.data, 'GET /admin/users/:id');
   },
   
   updateUserStatus: async (userId: string, status: string) => {
@@ -26,14 +35,20 @@ export const adminService = {
   // Project Management endpoints
   getProjects: async (params: { page?: number; limit?: number; status?: string; client?: string; freelancer?: string; search?: string } = {}) => {
     const response = await apiClient.get('/admin/projects', { params });
-    return response.data;
+    return parseProjects(response.data, 'GET /admin/projects');
   },
   
   getProject: async (projectId: string) => {
     const response = await apiClient.get(`/admin/projects/${projectId}`);
-    return response.data;
+    return parseProject(response.data, 'GET /admin/projects/:id');
   },
   
+  // Dispute queue; sort=breach_risk puts lapsed and soon-to-lapse SLAs first
+  getDisputes: async (params: { page?: number; limit?: number; status?: string; search?: string; sort?: 'breach_risk' | 'created' } = {}) => {
+    const response = await apiClient.get<AdminDisputeList>('/admin/disputes', { params });
+    return response.data;
+  },
+
   getDispute: async (disputeId: string) => {
     const response = await apiClient.get(`/admin/disputes/${disputeId}`);
     return response.data;
@@ -48,6 +63,6 @@ export const adminService = {
   // Transaction Management endpoints
   getTransactions: async (params: { page?: number; limit?: number; type?: string; status?: string; search?: string } = {}) => {
     const response = await apiClient.get('/admin/transactions', { params });
-    return response.data;
+    return parseTransactions(response.data, 'GET /admin/transactions');
   }
 };
\ No newline at end of file
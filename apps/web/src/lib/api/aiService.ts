@@ -1,4 +1,5 @@
 import { apiClient } from './client';
+import { parseDeliverableVerification, parseDisputeAnalysis, parseMilestoneSuggestions } from '../response-schemas';
 
 interface MilestoneSuggestionRequest {
   projectDescription: string;
@@ -52,22 +53,23 @@ class AIService {
   // Get AI-powered milestone suggestions based on project description
   async getMilestoneSuggestions(data: MilestoneSuggestionRequest): Promise<MilestoneSuggestionResponse> {
     const response = await apiClient.post('/ai/milestone-suggestions', data);
-    return response.data;
+    return parseMilestoneSuggestions(response.data, 'POST /ai/milestone-suggestions');
   }
 
   // Verify if a submitted deliverable meets acceptance criteria
   async verifyDeliverable(data: DeliverableVerificationRequest): Promise<DeliverableVerificationResponse> {
     const response = await apiClient.post('/ai/verify-deliverable', data);
-    return response.data;
+    return parseDeliverableVerification(response.data, 'POST /ai/verify-deliverable');
   }
 
   // Analyze disputes and provide recommendations
   async analyzeDispute(data: DisputeAnalysisRequest): Promise<DisputeAnalysisResponse> {
     const response = await apiClient.post('/ai/dispute-analysis', data);
-    return response.data;
+    return parseDisputeAnalysis(response.data, 'POST /ai/dispute-analysis');
   }
 
-  // Additional AI services that could be implemented
+  // Additional AI services that could be implemented. Their responses are
+  // free-form and returned unvalidated until they get a contract of their own
   async getPricingAdvice(data: { projectDescription: string; category: string; marketData?: any }): Promise<any> {
     const response = await apiClient.post('/ai/pricing-advice', data);
     return response.data;
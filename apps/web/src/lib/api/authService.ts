@@ -1,5 +1,6 @@
-import { UserAuth, User } from '@/types';
+import { UserAuth, AuthTokens, User } from '@/types';
 import { apiClient } from './client';
+import { parseAcknowledgement, parseAuthSession, parseAuthTokens, parseUser } from '../response-schemas';
 import { handleApiError, logError } from '../utils/errorHandler';
 
 export interface LoginCredentials {
@@ -61,18 +62,10 @@ class AuthService {
     for (let attempt = 0; attempt < maxRetries; attempt++) {
       try {
         const response = await apiClient.post('/auth/login', credentials);
-        const { data } = response;
-
-        // Store tokens
-        if (data.accessToken) {
-          localStorage.setItem('access_token', data.accessToken);
-        }
-        if (data.refreshToken) {
-          localStorage.setItem('refresh_token', data.refreshToken);
-        }
+        const session = this.storeSession(parseAuthSession(response.data, 'POST /auth/login'));
 
         this.currentLoginPromise = null;
-        return data;
+        return session;
       } catch (error: any) {
         lastError = error;
 
@@ -104,23 +97,21 @@ class AuthService {
   async register(userData: RegisterData): Promise<UserAuth> {
     try {
       const response = await apiClient.post('/auth/register', userData);
-      const { data } = response;
-
-      // Store tokens
-      if (data.accessToken) {
-        localStorage.setItem('access_token', data.accessToken);
-      }
-      if (data.refreshToken) {
-        localStorage.setItem('refresh_token', data.refreshToken);
-      }
-
-      return data;
+      return this.storeSession(parseAuthSession(response.data, 'POST /auth/register'));
     } catch (error) {
       logError(error, 'AUTH_REGISTER');
       throw error;
     }
   }
 
+  private storeSession(session: UserAuth): UserAuth {
+    localStorage.setItem('access_token', session.token);
+    if (session.refreshToken) {
+      localStorage.setItem('refresh_token', session.refreshToken);
+    }
+    return session;
+  }
+
   async logout(): Promise<void> {
     // Remove tokens
     localStorage.removeItem('access_token');
@@ -142,17 +133,7 @@ class AuthService {
   async resetPassword(data: ResetPasswordData): Promise<UserAuth> {
     try {
       const response = await apiClient.post('/auth/reset-password', data);
-      const { data: result } = response;
-
-      // Store tokens
-      if (result.accessToken) {
-        localStorage.setItem('access_token', result.accessToken);
-      }
-      if (result.refreshToken) {
-        localStorage.setItem('refresh_token', result.refreshToken);
-      }
-
-      return result;
+      return this.storeSession(parseAuthSession(response.data, 'POST /auth/reset-password'));
     } catch (error) {
       logError(error, 'AUTH_RESET_PASSWORD');
       throw error;
@@ -162,7 +143,7 @@ class AuthService {
   async verifyEmail(token: string): Promise<{ success: boolean }> {
     try {
       const response = await apiClient.post('/auth/verify-email', { token });
-      return response.data;
+      return parseAcknowledgement(response.data, 'POST /auth/verify-email');
     } catch (error) {
       logError(error, 'AUTH_VERIFY_EMAIL');
       throw error;
@@ -171,9 +152,9 @@ class AuthService {
 
   // Track the last time refreshToken was called to prevent rapid calls
   private lastRefreshTokenCall = 0;
-  private currentRefreshPromise: Promise<{ accessToken: string; refreshToken: string }> | null = null;
+  private currentRefreshPromise: Promise<AuthTokens> | null = null;
 
-  async refreshToken(): Promise<{ accessToken: string; refreshToken: string }> {
+  async refreshToken(): Promise<AuthTokens> {
     const now = Date.now();
     // Prevent refresh token attempts more than once every 5 seconds
     if (now - this.lastRefreshTokenCall < 5000 && this.currentRefreshPromise) {
@@ -194,24 +175,21 @@ class AuthService {
     return this.currentRefreshPromise;
   }
 
-  private async makeRefreshTokenRequestWithBackoff(refreshToken: string, maxRetries: number): Promise<{ accessToken: string; refreshToken: string }> {
+  private async makeRefreshTokenRequestWithBackoff(refreshToken: string, maxRetries: number): Promise<AuthTokens> {
     let lastError: any;
 
     for (let attempt = 0; attempt < maxRetries; attempt++) {
       try {
-        const response = await apiClient.post('/auth/refresh', { refreshToken });
-        const { data } = response;
+        // Bypass the client's own refresh handling so a failed refresh cannot recurse
+        const response = await apiClient.post('/auth/refresh', { refreshToken }, { skipAuthRefresh: true });
+        const tokens = parseAuthTokens(response.data, 'POST /auth/refresh');
 
         // Update tokens
-        if (data.accessToken) {
-          localStorage.setItem('access_token', data.accessToken);
-        }
-        if (data.refreshToken) {
-          localStorage.setItem('refresh_token', data.refreshToken);
-        }
+        localStorage.setItem('access_token', tokens.accessToken);
+        localStorage.setItem('refresh_token', tokens.refreshToken);
 
         this.currentRefreshPromise = null;
-        return data;
+        return tokens;
       } catch (error: any) {
         lastError = error;
 
@@ -267,7 +245,7 @@ class AuthService {
       try {
         const response = await apiClient.get('/auth/me');
         this.currentGetUserPromise = null;
-        return response.data;
+        return parseUser(response.data, 'GET /auth/me');
       } catch (error: any) {
         lastError = error;
 
@@ -299,7 +277,7 @@ class AuthService {
   async updateProfile(profileData: UpdateProfileData): Promise<User> {
     try {
       const response = await apiClient.put('/auth/profile', profileData);
-      return response.data;
+      return parseUser(response.data, 'PUT /auth/profile');
     } catch (error) {
       logError(error, 'AUTH_UPDATE_PROFILE');
       throw error;
@@ -338,17 +316,7 @@ class AuthService {
       }
 
       const response = await apiClient.post(endpoint, requestData);
-      const { data } = response;
-
-      // Store tokens
-      if (data.accessToken) {
-        localStorage.setItem('access_token', data.accessToken);
-      }
-      if (data.refreshToken) {
-        localStorage.setItem('refresh_token', data.refreshToken);
-      }
-
-      return data;
+      return this.storeSession(parseAuthSession(response.data, `POST ${endpoint}`));
     } catch (error) {
       logError(error, `AUTH_SOCIAL_LOGIN_${provider.toUpperCase()}`);
       throw error;
@@ -356,4 +324,6 @@ class AuthService {
   }
 }
 
-export const authService = new AuthService();
\ No newline at end of file
+export const authService = new AuthService();
+// Let the API client renew expired sessions instead of logging the user out
+apiClient.setTokenRefresher(() => authService.refreshToken());
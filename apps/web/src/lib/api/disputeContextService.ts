@@ -0,0 +1,42 @@
+import { Dispute, Project } from '@/types';
+import { isMockMode } from '@/config/app-config';
+import { getMockMilestones, getMockProjects, getMockTransactions } from '../mock-data';
+import { DisputeViewContext, idOf } from '../disputeWorkspace';
+import { paymentService } from './paymentService';
+import { projectService } from './projectService';
+
+const HISTORY_PAGE = { page: 1, limit: 100 };
+
+const unique = (ids: string[]) => Array.from(new Set(ids.filter(Boolean)));
+
+class DisputeContextService {
+  // The projects, milestones and payments behind a set of disputes, which give
+  // their views the project names, disputed amounts and what was already released
+  async getDisputeContext(disputes: Dispute[], userId: string): Promise<DisputeViewContext> {
+    if (isMockMode) {
+      return { projects: getMockProjects(), milestones: getMockMilestones(), transactions: getMockTransactions() };
+    }
+
+    const projectIds = unique(disputes.map(dispute => idOf(dispute.project)));
+    const [projects, milestones, transactions] = await Promise.all([
+      Promise.all(projectIds.map(projectId => projectService.getProjectById(projectId))),
+      Promise.all(projectIds.map(projectId => projectService.getMilestones(projectId))),
+      Promise.all(projectIds.map(projectId => paymentService.getTransactions(userId, { projectId }))),
+    ]);
+    return { projects, milestones: milestones.flat(), transactions: transactions.flat() };
+  }
+
+  // Every project the given people have worked on, e.g. a neutral and both
+  // parties, so conflicts of interest are checked against their real history
+  async getProjectHistory(userIds: string[]): Promise<Project[]> {
+    if (isMockMode) {
+      return getMockProjects();
+    }
+
+    const pages = await Promise.all(unique(userIds).map(userId => projectService.getProjects(userId, {}, HISTORY_PAGE)));
+    const byId = new Map(pages.flatMap(page => page.items).map(project => [project.id, project]));
+    return Array.from(byId.values());
+  }
+}
+
+export const disputeContextService = new DisputeContextService();
@@ -1,4 +1,5 @@
 import { apiClient } from './client';
+import { parseMultipleUpload, parseUpload } from '../response-schemas';
 
 export interface UploadResponse {
   message: string;
@@ -49,7 +50,7 @@ class FileService {
       },
     });
     
-    return response.data;
+    return parseUpload(response.data, 'POST /files/upload');
   }
 
   async uploadMultipleFiles(files: File[]): Promise<MultipleUploadResponse> {
@@ -65,11 +66,11 @@ class FileService {
       },
     });
     
-    return response.data;
+    return parseMultipleUpload(response.data, 'POST /files/upload-batch');
   }
 
   async downloadFile(filename: string): Promise<Blob> {
-    const response = await apiClient.get(`/files/download/${filename}`, {
+    const response = await apiClient.get<Blob>(`/files/download/${filename}`, {
       responseType: 'blob',
     });
     
@@ -101,7 +102,7 @@ class FileService {
       }
     );
     
-    return response.data;
+    return parseMultipleUpload(response.data, 'POST /files/upload-milestone/:projectId/:milestoneId');
   }
 }
 
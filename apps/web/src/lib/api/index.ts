@@ -12,11 +12,22 @@ import {
   paymentService
 } from './paymentService';
 import {
-  messagingService
+  messagingService,
+  SendMessageData
 } from './messagingService';
 import {
   adminService
 } from './adminService';
+import {
+  notificationService
+} from './notificationService';
+import {
+  fileService
+} from './fileService';
+import { disputeContextService } from './disputeContextService';
+import { DisputeAction, DisputeActor, DisputeTransitionPayload } from '../disputeLifecycle';
+import { idOf } from '../disputeWorkspace';
+import { Dispute } from '@/types';
 
 // Auth hooks
 export const useLogin = () => {
@@ -162,7 +173,7 @@ export const useMessages = (projectId: string, page = 1, limit = 50) => {
 export const useSendMessage = (projectId: string) => {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: messagingService.sendMessage,
+    mutationFn: (data: SendMessageData) => messagingService.sendMessage(data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['messages', projectId] });
     },
@@ -184,6 +195,16 @@ export const useDispute = (disputeId: string) => {
   });
 };
 
+// Keyed by the projects involved, so it only refetches when a dispute on a new project shows up
+export const useDisputeContext = (disputes: Dispute[], userId: string) => {
+  const projectIds = Array.from(new Set(disputes.map(dispute => idOf(dispute.project)))).sort();
+  return useQuery({
+    queryKey: ['dispute-context', userId, projectIds],
+    queryFn: () => disputeContextService.getDisputeContext(disputes, userId),
+    enabled: !!userId,
+  });
+};
+
 // Admin hooks
 export const useAdminDashboard = () => {
   return useQuery({
@@ -227,6 +248,23 @@ export const useAdminDisputes = (params = {}) => {
   });
 };
 
+export const useTransitionDispute = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ disputeId, action, actor, payload }: {
+      disputeId: string;
+      action: DisputeAction;
+      actor: DisputeActor;
+      payload?: DisputeTransitionPayload;
+    }) => messagingService.transitionDispute(disputeId, action, actor, payload),
+    onSuccess: (_, { disputeId }) => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'disputes'] });
+      queryClient.invalidateQueries({ queryKey: ['admin', 'dispute', disputeId] });
+      queryClient.invalidateQueries({ queryKey: ['dispute', disputeId] });
+    },
+  });
+};
+
 export const useAdminDispute = (disputeId: string) => {
   return useQuery({
     queryKey: ['admin', 'dispute', disputeId],
@@ -315,4 +353,6 @@ export { authService } from './authService';
 export { userService } from './userService';
 export { notificationService } from './notificationService';
 export { fileService } from './fileService';
-export { adminService } from './adminService';
\ No newline at end of file
+export { adminService } from './adminService';
+export { realtimeService } from './realtimeService';
+export { disputeContextService } from './disputeContextService';
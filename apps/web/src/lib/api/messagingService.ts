@@ -1,13 +1,43 @@
-import { Message, Conversation, Dispute, DisputeResolution } from '@/types';
+import { Message, MessagePage, MessageSearchResults, Conversation, Dispute, DisputeCaseNote, DisputeEvidenceBundle, DisputeResolution } from '@/types';
 import { apiClient } from './client';
+import {
+  parseConversations,
+  parseDispute,
+  parseDisputeNote,
+  parseDisputeNotes,
+  parseDisputeResolution,
+  parseDisputes,
+  parseMessage,
+  parseMessagePage,
+  parseMessageSearchResults,
+  parseMessages,
+} from '../response-schemas';
 import { mockDisputeService } from '../mock-dispute-service';
 import { isMockMode } from '@/config/app-config';
+import { FrontendError } from '../utils/errorHandler';
+import { idempotencyHeaders } from '../offline/outbox';
+import { DisputeAction, DisputeActor, DisputeTransitionPayload } from '../disputeLifecycle';
+import { AppealReview } from '../disputeAppeal';
+import { MESSAGE_SEARCH_LIMIT, MessageSearchQuery } from '../messageSearch';
+import { DEFAULT_DISPUTE_SLA, DisputeEscalationEvaluation, DisputeSlaPolicy, evaluateDisputeEscalation } from '../disputeSla';
+
+export interface MessagePageOptions {
+  // Cursor from the previous page; omitted for the newest messages
+  before?: string;
+  // Keep going back until this message is included (jump-to-message)
+  through?: string;
+  limit?: number;
+}
+
+export const MESSAGE_PAGE_SIZE = 50;
 
 export interface SendMessageData {
   projectId: string;
   content: string;
   attachments?: File[];
   type?: 'TEXT' | 'FILE';
+  // Top-level message this replies to
+  parentId?: string;
 }
 
 class MessagingService {
@@ -45,8 +75,13 @@ class MessagingService {
     for (let attempt = 0; attempt < maxRetries; attempt++) {
       try {
         const response = await apiClient.get(`/messaging/conversations/${userId}`);
-        return response.data;
+        return parseConversations(response.data, 'GET /messaging/conversations/:userId');
       } catch (error: any) {
+        // A response that fails validation will not pass on a retry either
+        if (error instanceof FrontendError) {
+          throw error;
+        }
+
         lastError = error;
 
         // Check if it's a rate limit error
@@ -84,19 +119,59 @@ class MessagingService {
     }
 
     const response = await apiClient.get(`${url}?${params.toString()}`);
-    return response.data;
+    return parseMessages(response.data, 'GET /messaging/messages');
+  }
+
+  // Backward cursor pagination over a project's history
+  async getMessagePage(projectId: string, options: MessagePageOptions = {}): Promise<MessagePage> {
+    const params = new URLSearchParams({ limit: String(options.limit ?? MESSAGE_PAGE_SIZE) });
+    if (options.before) {
+      params.set('before', options.before);
+    }
+    if (options.through) {
+      params.set('through', options.through);
+    }
+
+    const response = await apiClient.get(`/messaging/messages/${projectId}?${params.toString()}`);
+    return parseMessagePage(response.data, 'GET /messaging/messages/:projectId');
   }
 
-  async sendMessage(messageData: SendMessageData): Promise<Message> {
+  // Searches every conversation the user is part of
+  async searchMessages(userId: string, query: MessageSearchQuery): Promise<MessageSearchResults> {
+    const params = new URLSearchParams({ q: query.text, limit: String(query.limit ?? MESSAGE_SEARCH_LIMIT) });
+    if (query.senderId) {
+      params.set('senderId', query.senderId);
+    }
+    if (query.projectId) {
+      params.set('projectId', query.projectId);
+    }
+    if (query.from) {
+      params.set('from', query.from.toISOString());
+    }
+    if (query.to) {
+      params.set('to', query.to.toISOString());
+    }
+    if (query.hasAttachment !== undefined) {
+      params.set('hasAttachment', String(query.hasAttachment));
+    }
+
+    const response = await apiClient.get(`/messaging/search/${userId}?${params.toString()}`);
+    return parseMessageSearchResults(response.data, 'GET /messaging/search/:userId');
+  }
+
+  async sendMessage(messageData: SendMessageData, idempotencyKey?: string): Promise<Message> {
     // For text-only messages, we can use a regular JSON request which is more efficient for real-time
     if (!messageData.attachments || messageData.attachments.length === 0) {
       const response = await apiClient.post('/messaging/send', {
         projectId: messageData.projectId,
         content: messageData.content,
-        type: messageData.type || 'TEXT'
+        type: messageData.type || 'TEXT',
+        ...(messageData.parentId ? { parentId: messageData.parentId } : {}),
+      }, {
+        headers: idempotencyHeaders(idempotencyKey),
       });
 
-      return response.data;
+      return parseMessage(response.data, 'POST /messaging/send');
     }
 
     // For messages with attachments, use multipart form data
@@ -104,6 +179,9 @@ class MessagingService {
     formData.append('projectId', messageData.projectId);
     formData.append('content', messageData.content);
     formData.append('type', messageData.type || 'TEXT');
+    if (messageData.parentId) {
+      formData.append('parentId', messageData.parentId);
+    }
 
     messageData.attachments?.forEach((file, index) => {
       formData.append(`attachments[${index}]`, file);
@@ -112,10 +190,29 @@ class MessagingService {
     const response = await apiClient.post('/messaging/send', formData, {
       headers: {
         'Content-Type': 'multipart/form-data',
+        ...idempotencyHeaders(idempotencyKey),
       },
     });
 
-    return response.data;
+    return parseMessage(response.data, 'POST /messaging/send');
+  }
+
+  // The server keeps the previous version in the message's edit history
+  async editMessage(messageId: string, content: string): Promise<Message> {
+    const response = await apiClient.patch(`/messaging/messages/${messageId}`, { content });
+    return parseMessage(response.data, 'PATCH /messaging/messages/:messageId');
+  }
+
+  // Returns the tombstone left in place of the message
+  async deleteMessage(messageId: string): Promise<Message> {
+    const response = await apiClient.delete(`/messaging/messages/${messageId}`);
+    return parseMessage(response.data, 'DELETE /messaging/messages/:messageId');
+  }
+
+  // Adds the caller's reaction, or removes it if they already reacted with this emoji
+  async toggleReaction(messageId: string, emoji: string): Promise<Message> {
+    const response = await apiClient.post(`/messaging/messages/${messageId}/reactions`, { emoji });
+    return parseMessage(response.data, 'POST /messaging/messages/:messageId/reactions');
   }
 
   async markMessageAsRead(messageId: string): Promise<void> {
@@ -169,7 +266,7 @@ class MessagingService {
       },
     });
 
-    return response.data;
+    return parseDispute(response.data, 'POST /disputes');
   }
 
   async getDisputeById(disputeId: string): Promise<Dispute> {
@@ -182,7 +279,7 @@ class MessagingService {
     }
 
     const response = await apiClient.get(`/disputes/${disputeId}`);
-    return response.data;
+    return parseDispute(response.data, 'GET /disputes/:id');
   }
 
   async getDisputes(
@@ -206,14 +303,36 @@ class MessagingService {
     }
 
     const response = await apiClient.get(`/disputes?${params.toString()}`);
-    // Handle both paginated response (with items) and direct array response
-    if (response.data && Array.isArray(response.data)) {
-      return response.data;
-    } else if (response.data && response.data.items) {
-      return response.data.items;
-    } else {
-      return [];
+    return parseDisputes(response.data, 'GET /disputes');
+  }
+
+  // Cases assigned to a mediator or arbitrator
+  async getAssignedDisputes(arbitratorId: string): Promise<Dispute[]> {
+    if (isMockMode) {
+      return await mockDisputeService.getAssignedDisputes(arbitratorId);
+    }
+
+    const response = await apiClient.get(`/arbitrators/${arbitratorId}/disputes`);
+    return parseDisputes(response.data, 'GET /arbitrators/:id/disputes');
+  }
+
+  // Private case notes; the server only returns the caller's own
+  async getDisputeNotes(disputeId: string, authorId: string): Promise<DisputeCaseNote[]> {
+    if (isMockMode) {
+      return await mockDisputeService.getCaseNotes(disputeId, authorId);
+    }
+
+    const response = await apiClient.get(`/disputes/${disputeId}/notes`);
+    return parseDisputeNotes(response.data, 'GET /disputes/:id/notes');
+  }
+
+  async addDisputeNote(disputeId: string, authorId: string, body: string): Promise<DisputeCaseNote> {
+    if (isMockMode) {
+      return await mockDisputeService.addCaseNote(disputeId, authorId, body);
     }
+
+    const response = await apiClient.post(`/disputes/${disputeId}/notes`, { body });
+    return parseDisputeNote(response.data, 'POST /disputes/:id/notes');
   }
 
   async getDisputeResolution(disputeId: string): Promise<DisputeResolution> {
@@ -222,11 +341,11 @@ class MessagingService {
       if (!dispute || !dispute.resolution) {
         throw new Error('Dispute resolution not found');
       }
-      return dispute.resolution as DisputeResolution;
+      return parseDisputeResolution({ ...dispute.resolution, disputeId }, 'mock dispute resolution');
     }
 
     const response = await apiClient.get(`/disputes/${disputeId}/resolution`);
-    return response.data;
+    return parseDisputeResolution(response.data, 'GET /disputes/:id/resolution');
   }
 
   async submitDisputeEvidence(
@@ -255,6 +374,16 @@ class MessagingService {
     });
   }
 
+  // Submit a packaged evidence bundle; the server re-checks the hashes on receipt
+  async submitDisputeEvidenceBundle(disputeId: string, bundle: DisputeEvidenceBundle): Promise<Dispute> {
+    if (isMockMode) {
+      return await mockDisputeService.submitEvidenceBundle(disputeId, bundle);
+    }
+
+    const response = await apiClient.post(`/disputes/${disputeId}/evidence/bundles`, bundle);
+    return parseDispute(response.data, 'POST /disputes/:id/evidence/bundles');
+  }
+
   async getDisputeMessages(
     disputeId: string,
     page: number = 1,
@@ -274,6 +403,7 @@ class MessagingService {
         content: msg.content,
         type: 'TEXT',
         status: 'READ',
+        readBy: [],
         sentAt: new Date(msg.sentAt),
         createdAt: new Date(msg.sentAt),
         updatedAt: new Date(msg.sentAt)
@@ -312,6 +442,7 @@ class MessagingService {
         content: messageData.content,
         type: 'TEXT',
         status: 'READ',
+        readBy: [],
         sentAt: new Date(),
         createdAt: new Date(),
         updatedAt: new Date()
@@ -357,17 +488,20 @@ class MessagingService {
     return response.data;
   }
 
-  async evaluateDisputeEscalation(disputeId: string): Promise<any> {
+  // Checks the current phase against its SLA and suggests how to move a lapsed dispute on
+  async evaluateDisputeEscalation(
+    disputeId: string,
+    policy: DisputeSlaPolicy = DEFAULT_DISPUTE_SLA
+  ): Promise<DisputeEscalationEvaluation> {
     if (isMockMode) {
-      // In mock mode, return a mock escalation evaluation
-      return {
-        shouldEscalate: Math.random() > 0.5, // Random decision for mock
-        reason: 'Mock escalation evaluation',
-        disputeId
-      };
+      const dispute = await mockDisputeService.getDisputeById(disputeId);
+      if (!dispute) {
+        throw new Error('Dispute not found');
+      }
+      return evaluateDisputeEscalation(disputeId, dispute, policy);
     }
 
-    const response = await apiClient.post(`/disputes/${disputeId}/evaluate-escalation`);
+    const response = await apiClient.post<DisputeEscalationEvaluation>(`/disputes/${disputeId}/evaluate-escalation`, { policy });
     return response.data;
   }
 
@@ -399,16 +533,32 @@ class MessagingService {
     return response.data;
   }
 
+  // Move a dispute to its next lifecycle status; the server re-checks the transition
+  async transitionDispute(
+    disputeId: string,
+    action: DisputeAction,
+    actor: DisputeActor,
+    payload: DisputeTransitionPayload = {}
+  ): Promise<Dispute> {
+    if (isMockMode) {
+      return await mockDisputeService.transitionDispute(disputeId, action, actor, payload);
+    }
+
+    const response = await apiClient.post(`/disputes/${disputeId}/transitions`, { action, actor, payload });
+    return parseDispute(response.data, 'POST /disputes/:id/transitions');
+  }
+
   // Submit dispute appeal
   async submitDisputeAppeal(
     disputeId: string,
     appealData: {
       reason: string;
       evidence?: File[];
-    }
+    },
+    actor: DisputeActor = 'client'
   ): Promise<Dispute> {
     if (isMockMode) {
-      return await mockDisputeService.submitAppeal(disputeId, appealData);
+      return await mockDisputeService.submitAppeal(disputeId, appealData, actor);
     }
 
     const formData = new FormData();
@@ -424,41 +574,18 @@ class MessagingService {
       },
     });
 
-    return response.data;
+    return parseDispute(response.data, 'POST /disputes/:id/appeal');
   }
 
-  // Review dispute appeal (admin/arbitrator only)
-  async reviewDisputeAppeal(
-    disputeId: string,
-    reviewData: {
-      decision: 'APPROVED' | 'REJECTED';
-      decisionReason: string;
-    }
-  ): Promise<Dispute> {
+  // Review dispute appeal (assigned reviewer only). An approval either reopens
+  // arbitration or applies a revised resolution, with compensating transactions
+  async reviewDisputeAppeal(disputeId: string, reviewData: AppealReview): Promise<Dispute> {
     if (isMockMode) {
-      // In mock mode, we'll update the dispute status based on the review
-      const dispute = await mockDisputeService.getDisputeById(disputeId);
-      if (!dispute) {
-        throw new Error('Dispute not found');
-      }
-
-      return {
-        ...dispute,
-        status: reviewData.decision === 'APPROVED' ? 'PENDING_REVIEW' : 'RESOLVED',
-        resolution: {
-          decision: reviewData.decision,
-          amountToFreelancer: 0,
-          amountToClient: 0,
-          decisionReason: reviewData.decisionReason,
-          decidedBy: 'mock-admin',
-          decidedAt: new Date().toISOString(),
-          aiRecommended: false
-        }
-      } as Dispute;
+      return await mockDisputeService.reviewAppeal(disputeId, reviewData);
     }
 
     const response = await apiClient.post(`/disputes/${disputeId}/appeal/review`, reviewData);
-    return response.data;
+    return parseDispute(response.data, 'POST /disputes/:id/appeal/review');
   }
 }
 
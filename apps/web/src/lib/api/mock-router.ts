@@ -0,0 +1,236 @@
+// Declarative mock router used by ApiClient when mock mode is enabled.
+// Routes are matched on HTTP method + path pattern (e.g. `/projects/:projectId/milestones`),
+// so nested endpoints are no longer swallowed by their parent collection.
+
+import { AxiosRequestConfig, AxiosResponse } from 'axios';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// Extracts `{ projectId: string }` from '/projects/:projectId/milestones'
+export type RouteParams<Path extends string> =
+  Path extends `${string}:${infer Param}/${infer Rest}`
+    ? { [K in Param]: string } & RouteParams<`/${Rest}`>
+    : Path extends `${string}:${infer Param}`
+      ? { [K in Param]: string }
+      : {};
+
+export interface MockRequest<Params = Record<string, string>> {
+  method: HttpMethod;
+  url: string;
+  path: string;
+  params: Params;
+  query: Record<string, string>;
+  data?: any;
+  config?: AxiosRequestConfig;
+}
+
+export interface MockResult {
+  data: any;
+  status?: number;
+  statusText?: string;
+}
+
+export type MockHandler<Params = Record<string, string>> =
+  (request: MockRequest<Params>) => MockResult | Promise<MockResult>;
+
+interface MockRoute {
+  method: HttpMethod;
+  pattern: string;
+  segments: string[];
+  specificity: number;
+  handler: MockHandler<any>;
+}
+
+// Prefixes some services still send that the mock table does not care about
+const IGNORED_PREFIXES = ['/api/v1'];
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  204: 'No Content',
+  400: 'Bad Request',
+  404: 'Not Found',
+  409: 'Conflict',
+};
+
+// Replayed answers kept for idempotent mutations; the oldest are dropped first
+const MAX_IDEMPOTENT_RESULTS = 500;
+
+const splitPath = (path: string): string[] => path.split('/').filter(Boolean);
+
+// A malformed escape such as `%E0` makes decodeURIComponent throw a URIError
+const decodeSegment = (segment: string): string | null => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+};
+
+export const normalizePath = (path: string): string => {
+  let normalized = path.split('?')[0].split('#')[0];
+  for (const prefix of IGNORED_PREFIXES) {
+    if (normalized === prefix || normalized.startsWith(`${prefix}/`)) {
+      normalized = normalized.slice(prefix.length) || '/';
+    }
+  }
+  return `/${splitPath(normalized).join('/')}`;
+};
+
+export const parseQuery = (url: string, config?: AxiosRequestConfig): Record<string, string> => {
+  const query: Record<string, string> = {};
+  const queryIndex = url.indexOf('?');
+  if (queryIndex !== -1) {
+    new URLSearchParams(url.slice(queryIndex + 1)).forEach((value, key) => {
+      query[key] = value;
+    });
+  }
+
+  // Services such as adminService pass filters through `config.params`
+  if (config?.params && typeof config.params === 'object') {
+    Object.entries(config.params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        query[key] = String(value);
+      }
+    });
+  }
+
+  return query;
+};
+
+// Convenience helpers for handlers
+export const ok = (data: any): MockResult => ({ data, status: 200 });
+export const created = (data: any): MockResult => ({ data, status: 201 });
+export const notFound = (message: string): MockResult => ({ data: { error: message }, status: 404 });
+export const badRequest = (message: string): MockResult => ({ data: { message }, status: 400 });
+export const forbidden = (message: string): MockResult => ({ data: { message }, status: 403 });
+
+// Mirrors the API's idempotency contract: a repeated mutation with the same key gets the first answer
+const getIdempotencyKey = (config?: AxiosRequestConfig): string | undefined => {
+  const headers = (config?.headers || {}) as Record<string, any>;
+  return headers['Idempotency-Key'] || headers['idempotency-key'];
+};
+
+export class MockRouter {
+  private routes: MockRoute[] = [];
+  private idempotentResults = new Map<string, MockResult>();
+
+  on<Path extends string>(
+    method: HttpMethod,
+    patterns: Path | Path[],
+    handler: MockHandler<RouteParams<Path>>
+  ): this {
+    const list = Array.isArray(patterns) ? patterns : [patterns];
+    list.forEach((pattern) => {
+      const segments = splitPath(normalizePath(pattern));
+      this.routes.push({
+        method,
+        pattern,
+        segments,
+        // Static segments outrank params, so `/projects/search` beats `/projects/:projectId`
+        specificity: segments.reduce((score, segment) => score + (segment.startsWith(':') ? 1 : 2), 0),
+        handler,
+      });
+    });
+    return this;
+  }
+
+  get<Path extends string>(patterns: Path | Path[], handler: MockHandler<RouteParams<Path>>): this {
+    return this.on('GET', patterns, handler);
+  }
+
+  post<Path extends string>(patterns: Path | Path[], handler: MockHandler<RouteParams<Path>>): this {
+    return this.on('POST', patterns, handler);
+  }
+
+  put<Path extends string>(patterns: Path | Path[], handler: MockHandler<RouteParams<Path>>): this {
+    return this.on('PUT', patterns, handler);
+  }
+
+  patch<Path extends string>(patterns: Path | Path[], handler: MockHandler<RouteParams<Path>>): this {
+    return this.on('PATCH', patterns, handler);
+  }
+
+  delete<Path extends string>(patterns: Path | Path[], handler: MockHandler<RouteParams<Path>>): this {
+    return this.on('DELETE', patterns, handler);
+  }
+
+  // Returns the best matching route and the params it extracted, if any
+  match(method: HttpMethod, url: string): { route: MockRoute; params: Record<string, string> } | null {
+    const segments = splitPath(normalizePath(url));
+    let best: { route: MockRoute; params: Record<string, string> } | null = null;
+
+    for (const route of this.routes) {
+      if (route.method !== method || route.segments.length !== segments.length) {
+        continue;
+      }
+
+      const params: Record<string, string> = {};
+      const matches = route.segments.every((segment, index) => {
+        if (segment.startsWith(':')) {
+          params[segment.slice(1)] = decodeSegment(segments[index]) ?? segments[index];
+          return true;
+        }
+        return segment === segments[index];
+      });
+
+      if (matches && (!best || route.specificity > best.route.specificity)) {
+        best = { route, params };
+      }
+    }
+
+    return best;
+  }
+
+  // Resolves a request against the table; returns null when no route is registered
+  async handle<T>(
+    method: HttpMethod,
+    url: string,
+    data?: any,
+    config?: AxiosRequestConfig
+  ): Promise<AxiosResponse<T> | null> {
+    const matched = this.match(method, url);
+    if (!matched) {
+      return null;
+    }
+    if (splitPath(normalizePath(url)).some(segment => decodeSegment(segment) === null)) {
+      return this.toResponse<T>(badRequest(`Malformed URL: ${url}`), config);
+    }
+
+    const idempotencyKey = method !== 'GET' ? getIdempotencyKey(config) : undefined;
+    const replayKey = idempotencyKey && `${method} ${normalizePath(url)} ${idempotencyKey}`;
+    const result = (replayKey && this.idempotentResults.get(replayKey)) || await matched.route.handler({
+      method,
+      url,
+      path: normalizePath(url),
+      params: matched.params,
+      query: parseQuery(url, config),
+      data,
+      config,
+    });
+    if (replayKey) {
+      this.remember(replayKey, result);
+    }
+    return this.toResponse<T>(result, config);
+  }
+
+  // Re-inserting a replayed key keeps it from being the next one evicted
+  private remember(replayKey: string, result: MockResult) {
+    this.idempotentResults.delete(replayKey);
+    this.idempotentResults.set(replayKey, result);
+    if (this.idempotentResults.size > MAX_IDEMPOTENT_RESULTS) {
+      this.idempotentResults.delete(this.idempotentResults.keys().next().value);
+    }
+  }
+
+  private toResponse<T>(result: MockResult, config?: AxiosRequestConfig): AxiosResponse<T> {
+    const status = result.status ?? 200;
+    return {
+      data: result.data,
+      status,
+      statusText: result.statusText || STATUS_TEXT[status] || 'OK',
+      headers: {},
+      config: config || {},
+    } as AxiosResponse<T>;
+  }
+}
@@ -1,5 +1,6 @@
 import { Notification } from '@/types';
 import { apiClient } from './client';
+import { parseNotification, parseNotifications, parseUnreadCount } from '../response-schemas';
 
 export interface NotificationFilters {
   type?: string;
@@ -8,19 +9,23 @@ export interface NotificationFilters {
   page?: number;
 }
 
+const UNREAD_COUNT_CACHE_TTL = 15000;
+
 class NotificationService {
   async getNotifications(
     userId: string,
     filters?: NotificationFilters
   ): Promise<Notification[]> {
     try {
-      const params = new URLSearchParams({
-        userId,
-        ...(filters || {})
+      const params = new URLSearchParams({ userId });
+      Object.entries(filters || {}).forEach(([key, value]) => {
+        if (value !== undefined) {
+          params.set(key, String(value));
+        }
       });
 
       const response = await apiClient.get(`/api/v1/notifications?${params.toString()}`);
-      return response.data;
+      return parseNotifications(response.data, 'GET /notifications');
     } catch (error) {
       console.error('Error fetching notifications:', error);
       throw error;
@@ -30,7 +35,7 @@ class NotificationService {
   async markAsRead(notificationId: string): Promise<Notification> {
     try {
       const response = await apiClient.put(`/api/v1/notifications/${notificationId}/read`);
-      return response.data;
+      return parseNotification(response.data, 'PUT /notifications/:id/read');
     } catch (error) {
       console.error('Error marking notification as read:', error);
       throw error;
@@ -57,8 +62,11 @@ class NotificationService {
 
   async getUnreadCount(userId: string): Promise<number> {
     try {
-      const response = await apiClient.get(`/api/v1/notifications/unread-count?userId=${userId}`);
-      return response.data.count;
+      // Header and sidebar both poll this; marking notifications read clears the cache
+      const response = await apiClient.get(`/api/v1/notifications/unread-count?userId=${userId}`, {
+        cacheTTL: UNREAD_COUNT_CACHE_TTL
+      });
+      return parseUnreadCount(response.data, 'GET /notifications/unread-count');
     } catch (error) {
       console.error('Error fetching unread notification count:', error);
       throw error;
@@ -1,5 +1,20 @@
-import { EscrowAccount, Transaction, Invoice, Balance, Payout } from '@/types';
+import { EscrowAccount, Transaction, Invoice, Balance, Payout, UserPaymentMethod } from '@/types';
 import { apiClient } from './client';
+import {
+  parseEscrowAccount,
+  parseTransaction,
+  parseTransactions,
+  parseBalance,
+  parsePayout,
+  parsePayouts,
+  parsePayoutEstimate,
+  parseInvoice,
+  parsePaymentMethod,
+  parsePaymentMethods,
+} from '../response-schemas';
+import { FrontendError } from '../utils/errorHandler';
+import { currencyService } from '../services/currencyService';
+import { ApiRateProvider } from '../services/exchangeRateProviders';
 
 export interface DepositFundsData {
   projectId: string;
@@ -23,12 +38,12 @@ export interface CreatePayoutData {
 class PaymentService {
   async getEscrowAccount(projectId: string): Promise<EscrowAccount> {
     const response = await apiClient.get(`/payments/escrow/${projectId}`);
-    return response.data;
+    return parseEscrowAccount(response.data, 'GET /payments/escrow/:projectId');
   }
 
   async depositFunds(depositData: DepositFundsData): Promise<EscrowAccount> {
-    const response = await apiClient.post('/payments/deposit', depositData);
-    return response.data.project; // Return the updated project/escrow account
+    const response = await apiClient.post<{ project: unknown }>('/payments/deposit', depositData);
+    return parseEscrowAccount(response.data.project, 'POST /payments/deposit'); // Return the updated project/escrow account
   }
 
   async getTransactions(
@@ -40,52 +55,61 @@ class PaymentService {
       projectId?: string;
     }
   ): Promise<Transaction[]> {
-    const params = new URLSearchParams({ userId, ...filters });
-    
+    const params = new URLSearchParams({ userId });
+    Object.entries(filters || {}).forEach(([key, value]) => {
+      if (value !== undefined) {
+        params.set(key, value instanceof Date ? value.toISOString() : value);
+      }
+    });
+
     const response = await apiClient.get(`/payments/transactions?${params.toString()}`);
-    return response.data;
+    return parseTransactions(response.data, 'GET /payments/transactions').items;
   }
 
   async getTransactionById(transactionId: string): Promise<Transaction> {
     const response = await apiClient.get(`/payments/transactions/${transactionId}`);
-    return response.data;
+    return parseTransaction(response.data, 'GET /payments/transactions/:id');
   }
 
   async getInvoiceById(invoiceId: string): Promise<Invoice> {
     const response = await apiClient.get(`/payments/invoices/${invoiceId}`);
-    return response.data;
+    return parseInvoice(response.data, 'GET /payments/invoices/:id');
   }
 
   async downloadInvoice(invoiceId: string): Promise<Blob> {
     const response = await apiClient.get(`/payments/invoices/${invoiceId}/download`, {
       responseType: 'blob',
     });
+    // An error page served with a 200 would otherwise be saved as the PDF
+    if (!(response.data instanceof Blob)) {
+      throw new FrontendError('Unexpected response from GET /payments/invoices/:id/download: expected a file', undefined, { invoiceId });
+    }
     return response.data;
   }
 
   async getUserBalance(userId: string): Promise<Balance> {
     const response = await apiClient.get(`/payments/balance/${userId}`);
-    return response.data;
+    return parseBalance(response.data, 'GET /payments/balance/:userId');
   }
 
   async getPayouts(userId: string): Promise<Payout[]> {
     const response = await apiClient.get(`/payments/payouts/${userId}`);
-    return response.data;
+    return parsePayouts(response.data, 'GET /payments/payouts/:userId');
   }
 
   async createPayout(payoutData: CreatePayoutData): Promise<Payout> {
     const response = await apiClient.post('/payments/payouts', payoutData);
-    return response.data;
+    return parsePayout(response.data, 'POST /payments/payouts');
   }
 
   async getPayoutById(payoutId: string): Promise<Payout> {
     const response = await apiClient.get(`/payments/payouts/${payoutId}`);
-    return response.data;
+    return parsePayout(response.data, 'GET /payments/payouts/:id');
   }
 
   async cancelPayout(payoutId: string): Promise<Payout> {
     const response = await apiClient.patch(`/payments/payouts/${payoutId}/cancel`);
-    return response.data;
+    return parsePayout(response.data, 'PATCH /payments/payouts/:id/cancel');
   }
 
   async estimatePayoutFees(
@@ -98,17 +122,17 @@ class PaymentService {
       amount,
       method,
     });
-    return response.data;
+    return parsePayoutEstimate(response.data, 'POST /payments/payouts/estimate');
   }
 
-  async getPaymentMethods(userId: string): Promise<any[]> {
+  async getPaymentMethods(userId: string): Promise<UserPaymentMethod[]> {
     const response = await apiClient.get(`/payments/methods/${userId}`);
-    return response.data;
+    return parsePaymentMethods(response.data, 'GET /payments/methods/:userId');
   }
 
-  async addPaymentMethod(userId: string, paymentMethod: any): Promise<any> {
+  async addPaymentMethod(userId: string, paymentMethod: any): Promise<UserPaymentMethod> {
     const response = await apiClient.post(`/payments/methods/${userId}`, paymentMethod);
-    return response.data;
+    return parsePaymentMethod(response.data, 'POST /payments/methods/:userId');
   }
 
   async removePaymentMethod(userId: string, methodId: string): Promise<void> {
@@ -116,4 +140,9 @@ class PaymentService {
   }
 }
 
-export const paymentService = new PaymentService();
\ No newline at end of file
+export const paymentService = new PaymentService();
+// Exchange rates come from the backend once the API client is available
+currencyService.setProvider(new ApiRateProvider(async (endpoint) => {
+  const response = await apiClient.get(endpoint, { dedupe: true });
+  return response.data;
+}));
@@ -1,11 +1,24 @@
-import { Project, Milestone, ProjectInvitation, ProjectActivity, PaginatedResponse, FilterParams } from '@/types';
+import { Project, Milestone, ProjectInvitation, ProjectActivity, ChangeProposal, PaginatedResponse, FilterParams } from '@/types';
 import { apiClient } from './client';
+import {
+  parseProject,
+  parseProjects,
+  parseMilestone,
+  parseMilestones,
+  parseActivities,
+  parseChangeProposal,
+  parseChangeProposals,
+  parseInvitation,
+  parseInvitations,
+} from '../response-schemas';
+import { idempotencyHeaders } from '../offline/outbox';
 
 export interface CreateProjectData {
   title: string;
   description: string;
   category: string;
   totalBudget: number;
+  currency?: string;
   timeline: string;
   deadline: Date;
   clientId?: string;
@@ -18,6 +31,7 @@ export interface CreateProjectData {
     amount: number;
     deadline: Date;
     acceptanceCriteria: string;
+    currency?: string;
   }[];
   autoApprovalPeriod?: number;
   maxRevisionsPerMilestone?: number;
@@ -57,22 +71,22 @@ class ProjectService {
     });
 
     const response = await apiClient.get(`/projects?${params.toString()}`);
-    return response.data;
+    return parseProjects(response.data, 'GET /projects');
   }
 
   async getProjectById(projectId: string): Promise<Project> {
     const response = await apiClient.get(`/projects/${projectId}`);
-    return response.data;
+    return parseProject(response.data, 'GET /projects/:id');
   }
 
   async createProject(projectData: CreateProjectData): Promise<Project> {
     const response = await apiClient.post('/projects', projectData);
-    return response.data;
+    return parseProject(response.data, 'POST /projects');
   }
 
   async updateProject(projectId: string, projectData: UpdateProjectData): Promise<Project> {
     const response = await apiClient.put(`/projects/${projectId}`, projectData);
-    return response.data;
+    return parseProject(response.data, 'PUT /projects/:id');
   }
 
   async deleteProject(projectId: string): Promise<void> {
@@ -81,12 +95,12 @@ class ProjectService {
 
   async archiveProject(projectId: string): Promise<Project> {
     const response = await apiClient.patch(`/projects/${projectId}/archive`);
-    return response.data;
+    return parseProject(response.data, 'PATCH /projects/:id/archive');
   }
 
   async duplicateProject(projectId: string): Promise<Project> {
     const response = await apiClient.post(`/projects/${projectId}/duplicate`);
-    return response.data;
+    return parseProject(response.data, 'POST /projects/:id/duplicate');
   }
 
   async submitCounterProposals(
@@ -99,7 +113,7 @@ class ProjectService {
     }[]
   ): Promise<Project> {
     const response = await apiClient.post(`/projects/${projectId}/counter-proposals`, { proposals });
-    return response.data;
+    return parseProject(response.data, 'POST /projects/:id/counter-proposals');
   }
 
   async inviteFreelancer(
@@ -107,12 +121,12 @@ class ProjectService {
     email: string
   ): Promise<ProjectInvitation> {
     const response = await apiClient.post(`/projects/${projectId}/invite`, { email });
-    return response.data;
+    return parseInvitation(response.data, 'POST /projects/:id/invite');
   }
 
   async acceptInvitation(token: string): Promise<Project> {
     const response = await apiClient.post('/projects/accept-invitation', { token });
-    return response.data;
+    return parseProject(response.data, 'POST /projects/accept-invitation');
   }
 
   async declineInvitation(token: string): Promise<void> {
@@ -122,17 +136,17 @@ class ProjectService {
   // Milestone operations
   async getMilestones(projectId: string): Promise<Milestone[]> {
     const response = await apiClient.get(`/projects/${projectId}/milestones`);
-    return response.data;
+    return parseMilestones(response.data, 'GET /projects/:id/milestones');
   }
 
   async getMilestoneById(milestoneId: string): Promise<Milestone> {
     const response = await apiClient.get(`/milestones/${milestoneId}`);
-    return response.data;
+    return parseMilestone(response.data, 'GET /milestones/:id');
   }
 
   async createMilestone(milestoneData: CreateMilestoneData): Promise<Milestone> {
     const response = await apiClient.post('/milestones', milestoneData);
-    return response.data;
+    return parseMilestone(response.data, 'POST /milestones');
   }
 
   async updateMilestone(
@@ -140,12 +154,12 @@ class ProjectService {
     milestoneData: Partial<Milestone>
   ): Promise<Milestone> {
     const response = await apiClient.put(`/milestones/${milestoneId}`, milestoneData);
-    return response.data;
+    return parseMilestone(response.data, 'PUT /milestones/:id');
   }
 
   async startMilestone(milestoneId: string): Promise<Milestone> {
     const response = await apiClient.post(`/milestones/${milestoneId}/start`);
-    return response.data;
+    return parseMilestone(response.data, 'POST /milestones/:id/start');
   }
 
   async submitMilestone(
@@ -153,7 +167,8 @@ class ProjectService {
     submissionData: {
       deliverables: File[];
       submissionNotes?: string;
-    }
+    },
+    idempotencyKey?: string
   ): Promise<Milestone> {
     // If there are actual files to upload, use FormData
     if (submissionData.deliverables && submissionData.deliverables.length > 0) {
@@ -170,10 +185,11 @@ class ProjectService {
       const response = await apiClient.post(`/milestones/${milestoneId}/submit`, formData, {
         headers: {
           'Content-Type': 'multipart/form-data',
+          ...idempotencyHeaders(idempotencyKey),
         },
       });
 
-      return response.data;
+      return parseMilestone(response.data, 'POST /milestones/:id/submit');
     } else {
       // If no files, send as JSON
       const response = await apiClient.post(`/milestones/${milestoneId}/submit`, {
@@ -182,16 +198,19 @@ class ProjectService {
       }, {
         headers: {
           'Content-Type': 'application/json',
+          ...idempotencyHeaders(idempotencyKey),
         },
       });
 
-      return response.data;
+      return parseMilestone(response.data, 'POST /milestones/:id/submit');
     }
   }
 
-  async approveMilestone(milestoneId: string, feedback?: string): Promise<Milestone> {
-    const response = await apiClient.post(`/milestones/${milestoneId}/approve`, { feedback });
-    return response.data;
+  async approveMilestone(milestoneId: string, feedback?: string, idempotencyKey?: string): Promise<Milestone> {
+    const response = await apiClient.post(`/milestones/${milestoneId}/approve`, { feedback }, {
+      headers: idempotencyHeaders(idempotencyKey),
+    });
+    return parseMilestone(response.data, 'POST /milestones/:id/approve');
   }
 
   async requestRevision(
@@ -199,7 +218,7 @@ class ProjectService {
     revisionNotes: string
   ): Promise<Milestone> {
     const response = await apiClient.post(`/milestones/${milestoneId}/revision`, { revisionNotes });
-    return response.data;
+    return parseMilestone(response.data, 'POST /milestones/:id/revision');
   }
 
   async disputeMilestone(
@@ -224,7 +243,7 @@ class ProjectService {
       },
     });
     
-    return response.data;
+    return parseMilestone(response.data, 'POST /milestones/:id/dispute');
   }
 
   // Project activities
@@ -238,7 +257,7 @@ class ProjectService {
     });
 
     const response = await apiClient.get(`/projects/${projectId}/activities?${params.toString()}`);
-    return response.data;
+    return parseActivities(response.data, 'GET /projects/:id/activities');
   }
 
   // Project invitations
@@ -246,7 +265,7 @@ class ProjectService {
     freelancerId: string
   ): Promise<ProjectInvitation[]> {
     const response = await apiClient.get(`/projects/invitations/freelancer/${freelancerId}`);
-    return response.data;
+    return parseInvitations(response.data, 'GET /projects/invitations/freelancer/:id');
   }
 
   // Project search and filtering
@@ -261,23 +280,34 @@ class ProjectService {
     });
 
     const response = await apiClient.get(`/projects/search?${params.toString()}`);
-    return response.data;
+    return parseProjects(response.data, 'GET /projects/search');
   }
 
   // Change proposal operations
+  async getChangeProposals(projectId: string): Promise<ChangeProposal[]> {
+    const response = await apiClient.get(`/projects/${projectId}/change-proposals`);
+    return parseChangeProposals(response.data, 'GET /projects/:id/change-proposals');
+  }
+
   async createChangeProposal(
     proposalData: {
       projectId: string;
       milestoneId: string;
+      proposer?: ChangeProposal['proposer'];
       reason: string;
       originalValues: any;
       proposedValues: any;
+      parentProposalId?: string;
     }
-  ): Promise<any> {
+  ): Promise<ChangeProposal> {
     const response = await apiClient.post('/change-proposals', proposalData);
-    return response.data;
+    return parseChangeProposal(response.data, 'POST /change-proposals');
+  }
+
+  async updateChangeProposal(proposalId: string, data: Partial<ChangeProposal>): Promise<ChangeProposal> {
+    const response = await apiClient.put(`/change-proposals/${proposalId}`, data);
+    return parseChangeProposal(response.data, 'PUT /change-proposals/:id');
   }
 }
 
 export const projectService = new ProjectService();
-export { CreateMilestoneData, CreateProjectData, UpdateProjectData };
\ No newline at end of file
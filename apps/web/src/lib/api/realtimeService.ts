@@ -0,0 +1,35 @@
+import { MissedRealtimeEvent, ProjectPresence } from '@/types';
+import { apiClient } from './client';
+import { parseMissedRealtimeEvents, parsePresence } from '../response-schemas';
+
+// Where the socket left off: the last sequence number seen and/or when it was seen
+export interface RealtimeCursor {
+  afterSequence?: number;
+  since?: Date;
+}
+
+class RealtimeService {
+  // Events for the given project rooms (and the user's own channel) sent after the cursor
+  async getMissedEvents(cursor: RealtimeCursor, projectIds: string[]): Promise<MissedRealtimeEvent[]> {
+    const params = new URLSearchParams();
+    if (cursor.afterSequence !== undefined) {
+      params.set('after', cursor.afterSequence.toString());
+    }
+    if (cursor.since) {
+      params.set('since', cursor.since.toISOString());
+    }
+    if (projectIds.length) {
+      params.set('projects', projectIds.join(','));
+    }
+
+    const response = await apiClient.get(`/realtime/events?${params.toString()}`);
+    return parseMissedRealtimeEvents(response.data, 'GET /realtime/events');
+  }
+
+  async getPresence(projectId: string): Promise<ProjectPresence[]> {
+    const response = await apiClient.get(`/projects/${projectId}/presence`);
+    return parsePresence(response.data, 'GET /projects/:projectId/presence');
+  }
+}
+
+export const realtimeService = new RealtimeService();
@@ -1,15 +1,16 @@
 import { User, KYCVerification, PaymentMethod, PaginatedResponse, FilterParams } from '@/types';
 import { apiClient } from './client';
+import { parseKYCVerification, parseUser, parseUsers } from '../response-schemas';
 
 class UserService {
   async getUserById(userId: string): Promise<User> {
     const response = await apiClient.get(`/users/${userId}`);
-    return response.data;
+    return parseUser(response.data, 'GET /users/:id');
   }
 
   async updateUser(userId: string, userData: Partial<User>): Promise<User> {
     const response = await apiClient.put(`/users/${userId}`, userData);
-    return response.data;
+    return parseUser(response.data, 'PUT /users/:id');
   }
 
   async uploadProfilePicture(userId: string, file: File): Promise<User> {
@@ -22,13 +23,13 @@ class UserService {
       },
     });
     
-    return response.data;
+    return parseUser(response.data, 'PUT /users/:id/profile-picture');
   }
 
   // KYC Verification
   async getKYCVerification(userId: string): Promise<KYCVerification> {
     const response = await apiClient.get(`/users/${userId}/kyc`);
-    return response.data;
+    return parseKYCVerification(response.data, 'GET /users/:id/kyc');
   }
 
   async submitKYCVerification(
@@ -61,12 +62,14 @@ class UserService {
       },
     });
     
-    return response.data;
+    return parseKYCVerification(response.data, 'POST /users/:id/kyc');
   }
 
   // Payment Methods
+  // Not validated yet: the backend sends the types/user.ts PaymentMethod while
+  // screens read the one in types/index.ts, and the two have not been reconciled
   async getPaymentMethods(userId: string): Promise<PaymentMethod[]> {
-    const response = await apiClient.get(`/users/${userId}/payment-methods`);
+    const response = await apiClient.get<PaymentMethod[]>(`/users/${userId}/payment-methods`);
     return response.data;
   }
 
@@ -80,7 +83,7 @@ class UserService {
       paypalEmail?: string;
     }
   ): Promise<PaymentMethod> {
-    const response = await apiClient.post(`/users/${userId}/payment-methods`, paymentMethodData);
+    const response = await apiClient.post<PaymentMethod>(`/users/${userId}/payment-methods`, paymentMethodData);
     return response.data;
   }
 
@@ -89,7 +92,7 @@ class UserService {
     paymentMethodId: string,
     paymentMethodData: Partial<PaymentMethod>
   ): Promise<PaymentMethod> {
-    const response = await apiClient.put(
+    const response = await apiClient.put<PaymentMethod>(
       `/users/${userId}/payment-methods/${paymentMethodId}`,
       paymentMethodData
     );
@@ -101,7 +104,7 @@ class UserService {
   }
 
   async setDefaultPaymentMethod(userId: string, paymentMethodId: string): Promise<PaymentMethod> {
-    const response = await apiClient.patch(
+    const response = await apiClient.patch<PaymentMethod>(
       `/users/${userId}/payment-methods/${paymentMethodId}/default`,
       {}
     );
@@ -120,7 +123,7 @@ class UserService {
     });
 
     const response = await apiClient.get(`/users/search?${params.toString()}`);
-    return response.data;
+    return parseUsers(response.data, 'GET /users/search');
   }
 }
 
@@ -0,0 +1,204 @@
+import { Dispute, DisputeDecision, DisputeResolution, Project } from '@/types';
+import type { DisputeAnalysisResponse } from './api/aiService';
+import { Money } from './money';
+import { splitFromAmounts } from './disputeSettlement';
+import { DisputeSla, disputeSla, sortByBreachRisk } from './disputeSla';
+import { normalizeDisputeStatus } from './disputeLifecycle';
+import { FrontendError } from './utils/errorHandler';
+
+// The neutral's side of a dispute: the cases assigned to a mediator or
+// arbitrator, whether they may take a case given past work with either party,
+// and the decision they draft once the evidence is in.
+
+export type ArbitratorAssignment = 'mediation' | 'arbitration' | 'appeal_review';
+
+export const ARBITRATOR_ASSIGNMENT_LABELS: Record<ArbitratorAssignment, string> = {
+  mediation: 'Mediation',
+  arbitration: 'Arbitration',
+  appeal_review: 'Appeal review',
+};
+
+export interface ArbitratorCase {
+  dispute: Dispute;
+  assignment: ArbitratorAssignment;
+  sla: DisputeSla | null;
+}
+
+const idOf = (value: unknown): string => {
+  if (typeof value === 'string') {
+    return value;
+  }
+  const record = value as { _id?: string; id?: string } | null | undefined;
+  return record?._id || record?.id || '';
+};
+
+// What the neutral has to do on the dispute, or null when it is not theirs to act on
+export const assignmentOf = (dispute: Dispute, arbitratorId: string): ArbitratorAssignment | null => {
+  const status = normalizeDisputeStatus(dispute.status);
+  const appeal = dispute.appeals?.[dispute.appeals.length - 1];
+  if (status === 'ESCALATED' && appeal?.status === 'PENDING_REVIEW' && appeal.reviewerId === arbitratorId) {
+    return 'appeal_review';
+  }
+  if (status === 'IN_ARBITRATION' && idOf(dispute.arbitrator) === arbitratorId) {
+    return 'arbitration';
+  }
+  if (status === 'IN_MEDIATION' && idOf(dispute.mediator) === arbitratorId) {
+    return 'mediation';
+  }
+  return null;
+};
+
+// Assigned cases, the ones closest to breaching their SLA first
+export const arbitratorCaseQueue = (disputes: Dispute[], arbitratorId: string, now: Date = new Date()): ArbitratorCase[] =>
+  sortByBreachRisk(disputes.filter(dispute => assignmentOf(dispute, arbitratorId)), undefined, now)
+    .map(dispute => ({
+      dispute,
+      assignment: assignmentOf(dispute, arbitratorId) as ArbitratorAssignment,
+      sla: disputeSla(dispute, undefined, now),
+    }));
+
+export interface ConflictOfInterest {
+  projectId: string;
+  projectTitle: string;
+  party: 'client' | 'freelancer';
+  reason: string;
+}
+
+type ProjectParties = Pick<Project, 'id' | 'title' | 'clientId' | 'freelancerId'>;
+
+// A neutral may not decide a dispute they are part of, or one with someone they
+// have worked with on another project
+export const conflictsOfInterest = (
+  arbitratorId: string,
+  disputed: ProjectParties,
+  projects: ProjectParties[]
+): ConflictOfInterest[] => {
+  const parties = [
+    { party: 'client' as const, id: disputed.clientId },
+    { party: 'freelancer' as const, id: disputed.freelancerId },
+  ].filter(({ id }) => !!id);
+
+  if (parties.some(({ id }) => id === arbitratorId)) {
+    return [{
+      projectId: disputed.id,
+      projectTitle: disputed.title,
+      party: disputed.clientId === arbitratorId ? 'client' : 'freelancer',
+      reason: 'You are a party to this project',
+    }];
+  }
+
+  return projects
+    .filter(project => project.id !== disputed.id)
+    .flatMap(project => {
+      if (project.clientId !== arbitratorId && project.freelancerId !== arbitratorId) {
+        return [];
+      }
+      return parties
+        .filter(({ id }) => id === project.clientId || id === project.freelancerId)
+        .map(({ party }) => ({
+          projectId: project.id,
+          projectTitle: project.title,
+          party,
+          reason: `You worked with the ${party} on ${project.title}`,
+        }));
+    });
+};
+
+export type ResolutionDecision = DisputeResolution['decision'];
+
+export const RESOLUTION_DECISION_LABELS: Record<ResolutionDecision, string> = {
+  CLIENT_FAVOR: 'In favour of the client',
+  FREELANCER_FAVOR: 'In favour of the freelancer',
+  PARTIAL_SPLIT: 'Split between the parties',
+  REVISION_REQUIRED: 'Revision required',
+  CASE_CLOSED: 'Close the case',
+};
+
+export interface DecisionDraft {
+  decision: ResolutionDecision;
+  clientAmount: number; // minor units
+  freelancerAmount: number;
+  rationale: string;
+  decisionNotes: string;
+}
+
+// Starts the form from the AI recommendation, scaled to the disputed amount
+export const draftFromAnalysis = (analysis: DisputeAnalysisResponse, disputedAmount: Money): DecisionDraft => {
+  const decisions: Record<DisputeAnalysisResponse['recommendedResolution']['decision'], ResolutionDecision> = {
+    full_payment: 'FREELANCER_FAVOR',
+    partial_payment: 'PARTIAL_SPLIT',
+    refund: 'CLIENT_FAVOR',
+    revision_needed: 'REVISION_REQUIRED',
+  };
+  const decision = decisions[analysis.recommendedResolution.decision] || 'PARTIAL_SPLIT';
+  const split = decision === 'REVISION_REQUIRED' ? null : splitFromAmounts(disputedAmount, analysis.recommendedResolution);
+  return {
+    decision,
+    clientAmount: split ? split.clientAmount.amount : 0,
+    freelancerAmount: split ? split.freelancerAmount.amount : 0,
+    rationale: analysis.reasoning,
+    decisionNotes: '',
+  };
+};
+
+// Returns the first problem with the draft, or null when it can be issued
+export const validateDecisionDraft = (draft: DecisionDraft, disputedAmount: Money): string | null => {
+  const { clientAmount, freelancerAmount } = draft;
+  if (![clientAmount, freelancerAmount].every(amount => Number.isSafeInteger(amount) && amount >= 0)) {
+    return 'Amounts must be whole, non-negative amounts';
+  }
+  if (draft.rationale.trim().length < 20) {
+    return 'Explain the decision in at least 20 characters';
+  }
+  if (draft.decision === 'REVISION_REQUIRED') {
+    return clientAmount || freelancerAmount ? 'A revision keeps the funds in escrow; both amounts must be 0' : null;
+  }
+  if (clientAmount + freelancerAmount !== disputedAmount.amount) {
+    const total = Money.fromMinor(clientAmount + freelancerAmount, disputedAmount.currency);
+    return `The amounts (${total.format()}) must add up to the disputed amount (${disputedAmount.format()})`;
+  }
+  if (draft.decision === 'CLIENT_FAVOR' && freelancerAmount > 0) {
+    return 'A decision in favour of the client awards the freelancer nothing';
+  }
+  if (draft.decision === 'FREELANCER_FAVOR' && clientAmount > 0) {
+    return 'A decision in favour of the freelancer awards the client nothing';
+  }
+  return null;
+};
+
+export const draftResolution = (
+  disputeId: string,
+  draft: DecisionDraft,
+  resolver: { id: string; role: DisputeResolution['resolverRole'] },
+  disputedAmount: Money,
+  now: Date = new Date()
+): DisputeResolution => {
+  const problem = validateDecisionDraft(draft, disputedAmount);
+  if (problem) {
+    throw new FrontendError(problem, 400, { disputeId, draft });
+  }
+  return {
+    id: `res-${disputeId}-${now.getTime()}`,
+    disputeId,
+    resolvedBy: resolver.id,
+    resolverRole: resolver.role,
+    decision: draft.decision,
+    clientAmount: draft.clientAmount,
+    freelancerAmount: draft.freelancerAmount,
+    decisionNotes: draft.decisionNotes.trim(),
+    rationale: draft.rationale.trim(),
+    decisionDate: now,
+    createdAt: now,
+  };
+};
+
+// The resolution as the dispute record stores it
+export const toDisputeDecision = (resolution: DisputeResolution, aiRecommended: boolean = false): DisputeDecision => ({
+  decision: RESOLUTION_DECISION_LABELS[resolution.decision],
+  amountToFreelancer: resolution.freelancerAmount,
+  amountToClient: resolution.clientAmount,
+  decisionReason: resolution.rationale,
+  decidedBy: resolution.resolvedBy,
+  decidedAt: new Date(resolution.decisionDate),
+  aiRecommended,
+});
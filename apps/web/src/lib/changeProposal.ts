@@ -0,0 +1,273 @@
+import { ChangeProposal, Milestone } from '@/types';
+import { Money } from './money';
+import { FrontendError } from './utils/errorHandler';
+
+// Milestone change proposals: field-level diffs, counter-proposal chains and the
+// effect a change has on the project budget and on the escrow the client has to
+// top up. A counter-proposal replaces the proposal it answers (which becomes
+// COUNTERED) and keeps a parentProposalId link, so a negotiation reads as a chain
+// from the first proposal to the one still open.
+
+export type ChangeField = 'amount' | 'deadline' | 'description' | 'title';
+export type ChangeValues = ChangeProposal['proposedValues'];
+export type ProposalParty = ChangeProposal['proposer'];
+
+export const CHANGE_FIELD_LABELS: Record<ChangeField, string> = {
+  amount: 'Amount',
+  deadline: 'Deadline',
+  description: 'Description',
+  title: 'Title',
+};
+
+const CHANGE_FIELDS: ChangeField[] = ['amount', 'deadline', 'description', 'title'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WordChange {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface FieldDiff {
+  field: ChangeField;
+  label: string;
+  before: string;
+  after: string;
+  // Signed change in minor units (amount) or days (deadline)
+  delta?: number;
+  words?: WordChange[]; // description only
+}
+
+const timeOf = (value: Date | string | undefined) => (value ? new Date(value).getTime() : undefined);
+
+const sameValue = (field: ChangeField, a: unknown, b: unknown) =>
+  field === 'deadline' ? timeOf(a as Date) === timeOf(b as Date) : (a ?? '') === (b ?? '');
+
+// Word-level diff of two texts (longest common subsequence over words and the
+// whitespace between them), merged into runs for display
+export const diffWords = (before: string, after: string): WordChange[] => {
+  const a = before ? before.split(/(\s+)/) : [];
+  const b = after ? after.split(/(\s+)/) : [];
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const changes: WordChange[] = [];
+  const push = (type: WordChange['type'], text: string) => {
+    const last = changes[changes.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      changes.push({ type, text });
+    }
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push('same', a[i++]);
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  return changes;
+};
+
+const formatDate = (value: Date | string | undefined) =>
+  value ? new Date(value).toISOString().slice(0, 10) : '-';
+
+// Only the fields the proposal actually changes
+export const diffProposal = (proposal: Pick<ChangeProposal, 'originalValues' | 'proposedValues'>, currency: string = 'USD'): FieldDiff[] =>
+  CHANGE_FIELDS
+    .filter(field => proposal.proposedValues[field] !== undefined)
+    .filter(field => !sameValue(field, proposal.originalValues[field], proposal.proposedValues[field]))
+    .map(field => {
+      const before = proposal.originalValues[field];
+      const after = proposal.proposedValues[field];
+      const diff: FieldDiff = { field, label: CHANGE_FIELD_LABELS[field], before: '-', after: '-' };
+      if (field === 'amount') {
+        diff.before = before === undefined ? '-' : Money.fromMinor(before as number, currency).format();
+        diff.after = Money.fromMinor(after as number, currency).format();
+        diff.delta = (after as number) - ((before as number) || 0);
+      } else if (field === 'deadline') {
+        diff.before = formatDate(before as Date);
+        diff.after = formatDate(after as Date);
+        diff.delta = before ? Math.round(((timeOf(after as Date) || 0) - (timeOf(before as Date) || 0)) / DAY_MS) : undefined;
+      } else {
+        diff.before = (before as string) || '-';
+        diff.after = after as string;
+        if (field === 'description') {
+          diff.words = diffWords((before as string) || '', after as string);
+        }
+      }
+      return diff;
+    });
+
+// The negotiation a proposal belongs to, oldest first
+export const proposalChain = (proposals: ChangeProposal[], proposalId: string): ChangeProposal[] => {
+  const byId = new Map(proposals.map(proposal => [proposal.id, proposal]));
+  let root = byId.get(proposalId);
+  while (root?.parentProposalId && byId.has(root.parentProposalId)) {
+    root = byId.get(root.parentProposalId);
+  }
+  const chain: ChangeProposal[] = [];
+  let current = root;
+  while (current) {
+    chain.push(current);
+    const currentId: string = current.id;
+    current = proposals.find(proposal => proposal.parentProposalId === currentId);
+  }
+  return chain;
+};
+
+// One chain per negotiation, for a milestone or the whole project, newest first
+export const proposalThreads = (proposals: ChangeProposal[], milestoneId?: string): ChangeProposal[][] =>
+  proposals
+    .filter(proposal => !proposal.parentProposalId && (!milestoneId || proposal.milestoneId === milestoneId))
+    .map(root => proposalChain(proposals, root.id))
+    .sort((a, b) => (timeOf(b[b.length - 1].createdAt) || 0) - (timeOf(a[a.length - 1].createdAt) || 0));
+
+// Whether `party` is the one who has to answer the proposal
+export const awaitingResponseFrom = (proposal: ChangeProposal, party: ProposalParty) =>
+  proposal.status === 'PENDING' && proposal.proposer !== party;
+
+const assertCanRespond = (proposal: ChangeProposal, party: ProposalParty) => {
+  if (proposal.status !== 'PENDING') {
+    throw new FrontendError(`This proposal is already ${proposal.status.toLowerCase()}`, 409, { proposalId: proposal.id });
+  }
+  if (proposal.proposer === party) {
+    throw new FrontendError('You cannot respond to your own proposal', 403, { proposalId: proposal.id });
+  }
+};
+
+export interface CounterProposalInput {
+  proposer: ProposalParty;
+  proposedValues: ChangeValues;
+  reason: string;
+}
+
+// Answers a pending proposal with different terms. Returns the answered proposal
+// (now COUNTERED) and the new pending counter-proposal.
+export const counterPropose = (
+  proposal: ChangeProposal,
+  input: CounterProposalInput,
+  now: Date = new Date()
+): { countered: ChangeProposal; counter: ChangeProposal } => {
+  assertCanRespond(proposal, input.proposer);
+  const proposedValues = { ...proposal.proposedValues, ...input.proposedValues };
+  const changed = CHANGE_FIELDS.some(field => !sameValue(field, proposal.proposedValues[field], proposedValues[field]));
+  if (!changed) {
+    throw new FrontendError('A counter-proposal has to change at least one value', 400, { proposalId: proposal.id });
+  }
+  if (proposedValues.amount !== undefined && !(Number.isSafeInteger(proposedValues.amount) && proposedValues.amount > 0)) {
+    throw new FrontendError('The amount must be a positive whole amount', 400, { amount: proposedValues.amount });
+  }
+
+  return {
+    countered: { ...proposal, status: 'COUNTERED', updatedAt: now, resolvedAt: now, resolutionNotes: input.reason },
+    counter: {
+      id: `proposal-${now.getTime()}`,
+      projectId: proposal.projectId,
+      milestoneId: proposal.milestoneId,
+      proposer: input.proposer,
+      status: 'PENDING',
+      // Always measured against the milestone as it was when the negotiation began
+      originalValues: proposal.originalValues,
+      proposedValues,
+      reason: input.reason,
+      parentProposalId: proposal.id,
+      createdAt: now,
+      updatedAt: now,
+    },
+  };
+};
+
+export const resolveProposal = (
+  proposal: ChangeProposal,
+  decision: 'APPROVED' | 'REJECTED',
+  party: ProposalParty,
+  resolvedBy: string,
+  notes?: string,
+  now: Date = new Date()
+): ChangeProposal => {
+  assertCanRespond(proposal, party);
+  return { ...proposal, status: decision, resolvedAt: now, resolvedBy, resolutionNotes: notes, updatedAt: now };
+};
+
+type MilestoneValues = Pick<Milestone, 'id' | 'title' | 'description' | 'amount' | 'deadline'> & { dueDate?: Date };
+
+const currentValue = (milestone: MilestoneValues, field: ChangeField) =>
+  field === 'deadline' ? milestone.deadline || milestone.dueDate : milestone[field];
+
+// The milestone update an approval applies. Refuses when the milestone has changed
+// since the negotiation began, so an approval never silently overwrites newer values.
+export const approvalPatch = (proposal: ChangeProposal, milestone: MilestoneValues): Partial<Milestone> => {
+  const stale = CHANGE_FIELDS.filter(field =>
+    proposal.originalValues[field] !== undefined && !sameValue(field, proposal.originalValues[field], currentValue(milestone, field))
+  );
+  if (stale.length) {
+    throw new FrontendError(
+      `The milestone has changed since this proposal was made (${stale.map(field => CHANGE_FIELD_LABELS[field].toLowerCase()).join(', ')})`,
+      409,
+      { proposalId: proposal.id, milestoneId: milestone.id, fields: stale }
+    );
+  }
+  return diffProposal(proposal).reduce<Partial<Milestone>>((patch, { field }) => {
+    const value = proposal.proposedValues[field];
+    return { ...patch, [field]: field === 'deadline' ? new Date(value as Date) : value };
+  }, {});
+};
+
+// The update that puts the milestone back, used when an approval has to be undone
+export const revertPatch = (proposal: ChangeProposal): Partial<Milestone> =>
+  diffProposal(proposal).reduce<Partial<Milestone>>((patch, { field }) => {
+    const value = proposal.originalValues[field];
+    return value === undefined ? patch : { ...patch, [field]: field === 'deadline' ? new Date(value as Date) : value };
+  }, {});
+
+export interface ProposalImpact {
+  amountDelta: Money;
+  budgetBefore: Money;
+  budgetAfter: Money;
+  // What is still to be paid out after the change, against what escrow holds
+  outstandingAfter: Money;
+  escrowBalance: Money;
+  escrowTopUp: Money;
+  deadlineShiftDays: number;
+}
+
+const RELEASED_STATUSES: Milestone['status'][] = ['APPROVED'];
+
+export const proposalImpact = (
+  proposal: ChangeProposal,
+  milestones: Pick<Milestone, 'id' | 'amount' | 'status'>[],
+  escrowBalance: number,
+  currency: string = 'USD'
+): ProposalImpact => {
+  const money = (amount: number) => Money.fromMinor(amount, currency);
+  const target = milestones.find(milestone => milestone.id === proposal.milestoneId);
+  const before = target?.amount ?? proposal.originalValues.amount ?? 0;
+  const after = proposal.proposedValues.amount ?? before;
+  const budgetBefore = milestones.reduce((sum, milestone) => sum + milestone.amount, 0);
+  const outstandingAfter = milestones
+    .filter(milestone => !RELEASED_STATUSES.includes(milestone.status))
+    .reduce((sum, milestone) => sum + (milestone.id === proposal.milestoneId ? after : milestone.amount), 0);
+  const start = timeOf(proposal.originalValues.deadline);
+  const end = timeOf(proposal.proposedValues.deadline);
+
+  return {
+    amountDelta: money(after - before),
+    budgetBefore: money(budgetBefore),
+    budgetAfter: money(budgetBefore + after - before),
+    outstandingAfter: money(outstandingAfter),
+    escrowBalance: money(escrowBalance),
+    escrowTopUp: money(Math.max(0, outstandingAfter - escrowBalance)),
+    deadlineShiftDays: start !== undefined && end !== undefined ? Math.round((end - start) / DAY_MS) : 0,
+  };
+};
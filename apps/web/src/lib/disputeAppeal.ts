@@ -0,0 +1,307 @@
+import { Dispute, DisputeAppeal, DisputeDecision, Transaction } from '@/types';
+import { Money } from './money';
+import { applyTransition, canTransition, disputeDeadline, normalizeDisputeStatus } from './disputeLifecycle';
+import { FrontendError } from './utils/errorHandler';
+
+// Appeals against a resolved dispute. Either party can appeal while the resolved
+// phase's window is open, once per dispute, for a fee based on the disputed
+// amount. A reviewer other than the original arbitrator decides it: a rejection
+// upholds the resolution, an approval either sends the case back to arbitration
+// or replaces the resolution, in which case escrow claws back what the original
+// decision overpaid and pays it to the other party.
+
+export interface DisputeAppealPolicy {
+  feePercent: number;
+  minimumFee: number; // minor units
+}
+
+export const DEFAULT_APPEAL_POLICY: DisputeAppealPolicy = {
+  feePercent: 5,
+  minimumFee: 2500,
+};
+
+export const appealFee = (disputedAmount: Money, policy: DisputeAppealPolicy = DEFAULT_APPEAL_POLICY): Money => {
+  const fee = disputedAmount.percentage(policy.feePercent);
+  const minimum = Money.fromMinor(policy.minimumFee, disputedAmount.currency);
+  return fee.lessThan(minimum) ? minimum : fee;
+};
+
+export interface AppealEligibility {
+  eligible: boolean;
+  reason?: string;
+  closesAt?: Date;
+  fee?: Money;
+}
+
+const idOf = (value: unknown): string => {
+  if (typeof value === 'string') {
+    return value;
+  }
+  const record = value as { _id?: string; id?: string } | null | undefined;
+  return record?._id || record?.id || '';
+};
+
+const latestAppeal = (dispute: Pick<Dispute, 'appeals'>) => dispute.appeals?.[dispute.appeals.length - 1];
+
+export const appealEligibility = (
+  dispute: Dispute,
+  actor: DisputeAppeal['appellant'],
+  disputedAmount: Money,
+  now: Date = new Date(),
+  policy: DisputeAppealPolicy = DEFAULT_APPEAL_POLICY
+): AppealEligibility => {
+  if (normalizeDisputeStatus(dispute.status) !== 'RESOLVED') {
+    return { eligible: false, reason: 'Only resolved disputes can be appealed' };
+  }
+  if (!dispute.resolution) {
+    return { eligible: false, reason: 'There is no resolution to appeal' };
+  }
+  if (latestAppeal(dispute)) {
+    return { eligible: false, reason: 'This dispute has already been appealed' };
+  }
+  const closesAt = disputeDeadline(dispute) || undefined;
+  if (!canTransition(dispute, 'APPEAL', actor, now)) {
+    return { eligible: false, reason: 'The appeal window has closed', closesAt };
+  }
+  return { eligible: true, closesAt, fee: appealFee(disputedAmount, policy) };
+};
+
+export interface AppealReviewerCandidate {
+  id: string;
+  openCases: number;
+}
+
+// The least busy reviewer who had no part in the original decision
+export const assignAppealReviewer = (dispute: Dispute, candidates: AppealReviewerCandidate[]): string => {
+  const excluded = [idOf(dispute.arbitrator), dispute.resolution?.decidedBy].filter(Boolean);
+  const eligible = candidates
+    .filter(candidate => !excluded.includes(candidate.id))
+    .sort((a, b) => a.openCases - b.openCases);
+  if (eligible.length === 0) {
+    throw new FrontendError('No reviewer is available who was not involved in the original decision', 409, { excluded });
+  }
+  return eligible[0].id;
+};
+
+export interface AppealSubmission {
+  appellant: DisputeAppeal['appellant'];
+  appellantId: string;
+  reason: string;
+  evidence?: DisputeAppeal['evidence'];
+  fee: Money;
+  feePaid: boolean;
+  // The FEE transaction that charged it
+  feeTransactionId?: string;
+  reviewerId: string;
+}
+
+// Files the appeal and moves the dispute under review
+export const createAppeal = <T extends Dispute>(dispute: T, submission: AppealSubmission, now: Date = new Date()): T => {
+  if (!submission.feePaid) {
+    throw new FrontendError('The appeal fee must be paid before the appeal is filed', 402, { fee: submission.fee.toJSON() });
+  }
+  const next = applyTransition(dispute, 'APPEAL', submission.appellant, { reason: submission.reason }, now);
+  const appeal: DisputeAppeal = {
+    id: `appeal-${idOf(dispute)}-${(dispute.appeals?.length || 0) + 1}`,
+    appellant: submission.appellant,
+    appellantId: submission.appellantId,
+    reason: submission.reason,
+    evidence: submission.evidence,
+    fee: { amount: submission.fee.amount, currency: submission.fee.currency, paid: true },
+    feeTransactionId: submission.feeTransactionId,
+    reviewerId: submission.reviewerId,
+    status: 'PENDING_REVIEW',
+    submittedAt: now,
+    originalResolution: dispute.resolution as DisputeDecision,
+  };
+  return { ...next, appeals: [...(dispute.appeals || []), appeal] };
+};
+
+export interface AppealReview {
+  reviewerId: string;
+  decision: 'APPROVED' | 'REJECTED';
+  // What an approval does; ignored on rejection
+  outcome?: 'REOPEN' | 'REVISE';
+  revisedResolution?: Omit<DisputeDecision, 'decidedBy' | 'decidedAt'>;
+  decisionReason: string;
+}
+
+export interface AppealSettlementContext {
+  projectId: string;
+  milestoneId?: string;
+  clientId: string;
+  freelancerId: string;
+  currency: string;
+}
+
+export interface AppealReviewResult<T extends Dispute> {
+  dispute: T;
+  appeal: DisputeAppeal;
+  transactions: Transaction[];
+}
+
+// Moves the difference between the original and revised awards: escrow takes it
+// back from the party the original decision overpaid and settles it to the other
+// The appeal fee is charged to the appellant and goes to the platform, not through escrow
+export const appealFeeTransaction = (
+  fee: Money,
+  appellantId: string,
+  context: Pick<AppealSettlementContext, 'projectId' | 'milestoneId'> & { disputeId: string },
+  now: Date = new Date()
+): Transaction => ({
+  id: `tx-${context.disputeId}-appeal-fee`,
+  projectId: context.projectId,
+  milestoneId: context.milestoneId,
+  fromUserId: appellantId,
+  toUserId: 'platform',
+  type: 'FEE',
+  amount: fee.amount,
+  currency: fee.currency,
+  status: 'COMPLETED',
+  paymentMethodType: 'card',
+  description: 'Dispute appeal fee',
+  referenceId: context.disputeId,
+  processedAt: now,
+  createdAt: now,
+  updatedAt: now,
+});
+
+export const compensatingTransactions = (
+  original: DisputeDecision,
+  revised: DisputeDecision,
+  context: AppealSettlementContext & { disputeId: string },
+  now: Date = new Date()
+): Transaction[] => {
+  const delta = revised.amountToFreelancer - original.amountToFreelancer;
+  if (delta === 0) {
+    return [];
+  }
+  const [overpaid, underpaid] = delta > 0
+    ? [context.clientId, context.freelancerId]
+    : [context.freelancerId, context.clientId];
+  const base = {
+    projectId: context.projectId,
+    milestoneId: context.milestoneId,
+    amount: Math.abs(delta),
+    currency: context.currency,
+    status: 'COMPLETED' as const,
+    paymentMethodType: 'bank' as const,
+    referenceId: context.disputeId,
+    processedAt: now,
+    createdAt: now,
+    updatedAt: now,
+  };
+  return [
+    {
+      ...base,
+      id: `tx-${context.disputeId}-appeal-reversal`,
+      type: 'DISPUTE_REVERSAL',
+      fromUserId: overpaid,
+      toUserId: 'escrow',
+      description: 'Reversal of the original dispute settlement after appeal',
+    },
+    {
+      ...base,
+      id: `tx-${context.disputeId}-appeal-settlement`,
+      type: 'DISPUTE_SETTLEMENT',
+      fromUserId: 'escrow',
+      toUserId: underpaid,
+      description: 'Revised dispute settlement after appeal',
+    },
+  ];
+};
+
+export const reviewAppeal = <T extends Dispute>(
+  dispute: T,
+  review: AppealReview,
+  context: AppealSettlementContext,
+  now: Date = new Date()
+): AppealReviewResult<T> => {
+  const appeal = latestAppeal(dispute);
+  if (!appeal || appeal.status !== 'PENDING_REVIEW') {
+    throw new FrontendError('There is no pending appeal on this dispute', 409, { status: dispute.status });
+  }
+  if (appeal.reviewerId !== review.reviewerId) {
+    throw new FrontendError('Only the assigned reviewer can decide this appeal', 403, { reviewerId: review.reviewerId });
+  }
+
+  const reviewed: DisputeAppeal = {
+    ...appeal,
+    status: review.decision,
+    reviewedAt: now,
+    decisionReason: review.decisionReason,
+  };
+  const payload = { reason: review.decisionReason };
+  const withAppeal = (next: T, updated: DisputeAppeal): T =>
+    ({ ...next, appeals: [...(dispute.appeals || []).slice(0, -1), updated] });
+
+  if (review.decision === 'REJECTED') {
+    const updated: DisputeAppeal = { ...reviewed, outcome: 'UPHELD' };
+    return {
+      dispute: withAppeal(applyTransition(dispute, 'UPHOLD', 'arbitrator', payload, now), updated),
+      appeal: updated,
+      transactions: [],
+    };
+  }
+
+  if (review.outcome !== 'REVISE') {
+    const updated: DisputeAppeal = { ...reviewed, outcome: 'REOPENED' };
+    // The reviewer takes over the case; a fresh decision replaces the original
+    const reopened = { ...applyTransition(dispute, 'REOPEN', 'arbitrator', payload, now), arbitrator: review.reviewerId, resolution: null };
+    return { dispute: withAppeal(reopened, updated), appeal: updated, transactions: [] };
+  }
+
+  if (!review.revisedResolution) {
+    throw new FrontendError('A revised resolution is required to revise the outcome', 400);
+  }
+  const original = appeal.originalResolution;
+  const revised: DisputeDecision = { ...review.revisedResolution, decidedBy: review.reviewerId, decidedAt: now };
+  const originalTotal = original.amountToFreelancer + original.amountToClient;
+  if (revised.amountToFreelancer < 0 || revised.amountToClient < 0
+    || revised.amountToFreelancer + revised.amountToClient !== originalTotal) {
+    throw new FrontendError(
+      `The revised amounts must add up to the original award (${Money.fromMinor(originalTotal, context.currency).format()})`,
+      400,
+      { revised: review.revisedResolution }
+    );
+  }
+
+  const transactions = compensatingTransactions(original, revised, { ...context, disputeId: idOf(dispute) }, now);
+  const updated: DisputeAppeal = {
+    ...reviewed,
+    outcome: 'REVISED',
+    revisedResolution: revised,
+    compensatingTransactionIds: transactions.map(transaction => transaction.id),
+  };
+  const next = { ...applyTransition(dispute, 'REVISE', 'arbitrator', { ...payload, resolution: revised }, now), resolution: revised };
+  return { dispute: withAppeal(next, updated), appeal: updated, transactions };
+};
+
+export interface AppealOutcomeRow {
+  label: string;
+  original: string;
+  appealed: string;
+  changed: boolean;
+}
+
+// The original and appealed outcomes side by side; the appealed column is empty until reviewed
+export const appealOutcomes = (appeal: DisputeAppeal, currency: string = 'USD'): AppealOutcomeRow[] => {
+  const appealed = appeal.outcome === 'REVISED' ? appeal.revisedResolution
+    : appeal.outcome === 'UPHELD' ? appeal.originalResolution
+    : undefined;
+  const money = (amount?: number) => (amount === undefined ? '' : Money.fromMinor(amount, currency).format());
+  const date = (value?: Date) => (value ? new Date(value).toLocaleDateString() : '');
+  const pending = appeal.outcome === 'REOPENED' ? 'Back in arbitration' : '';
+  const rows: [string, (decision?: DisputeDecision) => string][] = [
+    ['Decision', decision => decision?.decision || ''],
+    ['To freelancer', decision => money(decision?.amountToFreelancer)],
+    ['To client', decision => money(decision?.amountToClient)],
+    ['Decided by', decision => decision?.decidedBy || ''],
+    ['Decided on', decision => date(decision?.decidedAt)],
+  ];
+  return rows.map(([label, valueOf]) => {
+    const original = valueOf(appeal.originalResolution);
+    const value = appealed ? valueOf(appealed) : pending;
+    return { label, original, appealed: value, changed: !!appealed && value !== original };
+  });
+};
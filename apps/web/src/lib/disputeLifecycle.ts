@@ -0,0 +1,260 @@
+import { FrontendError } from './utils/errorHandler';
+
+// The dispute lifecycle as one table of transitions. Each transition lists the
+// statuses it can start from, who may trigger it, the payload it needs and how it
+// relates to the current phase deadline. Stores, services and the dispute screens
+// all ask this module what is legal instead of comparing status strings.
+
+export type DisputeStatus =
+  | 'PENDING_FEE'        // Awaiting dispute fee payment
+  | 'PENDING_REVIEW'     // Awaiting initial review
+  | 'SELF_RESOLUTION'    // Parties attempting self-resolution
+  | 'IN_MEDIATION'       // In mediation phase
+  | 'IN_ARBITRATION'     // In arbitration phase
+  | 'AWAITING_OUTCOME'   // Resolution made, awaiting payment processing
+  | 'RESOLVED'           // Final resolution made and processed
+  | 'ESCALATED';         // Resolution appealed, awaiting review
+
+export type DisputeActor = 'client' | 'freelancer' | 'mediator' | 'arbitrator' | 'system';
+
+export type DisputeAction =
+  | 'PAY_FEE'
+  | 'EXPIRE_FEE'
+  | 'WITHDRAW'
+  | 'START_SELF_RESOLUTION'
+  | 'REQUEST_MEDIATION'
+  | 'JOIN_MEDIATION'
+  | 'SUBMIT_EVIDENCE'
+  | 'SETTLE'
+  | 'ESCALATE_TO_ARBITRATION'
+  | 'DECIDE'
+  | 'COMPLETE_PAYOUT'
+  | 'APPEAL'
+  | 'REOPEN'
+  | 'REVISE'
+  | 'UPHOLD';
+
+export interface DisputeTransitionPayload {
+  feePaid?: boolean;
+  evidenceWindowClosed?: boolean;
+  resolution?: unknown;
+  reason?: string;
+}
+
+export interface DisputeTransition {
+  action: DisputeAction;
+  label: string;
+  from: DisputeStatus[];
+  // Omitted for actions that stay in the current status (joining a session, adding evidence)
+  to?: DisputeStatus;
+  actors: DisputeActor[];
+  requires?: (keyof DisputeTransitionPayload)[];
+  // 'before': only while the phase deadline is running; 'after': only once it has passed
+  deadline?: 'before' | 'after';
+}
+
+// The minimum a dispute needs to be run through the machine; fits both the API
+// Dispute and the dispute screens' view models
+export interface DisputeLifecycleState {
+  status: string;
+  createdAt?: string | Date;
+  updatedAt?: string | Date;
+  phaseStartedAt?: string | Date;
+  submittedDate?: string | Date;
+  resolution?: { decidedAt?: string | Date } | null;
+  resolutionDate?: string | Date;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// How long each phase may run before the system can move it on (or, once
+// resolved, how long the appeal window stays open)
+export const DISPUTE_PHASE_DAYS: Partial<Record<DisputeStatus, number>> = {
+  PENDING_FEE: 7,
+  PENDING_REVIEW: 2,
+  SELF_RESOLUTION: 5,
+  IN_MEDIATION: 10,
+  IN_ARBITRATION: 7,
+  RESOLVED: 14,
+};
+
+export const DISPUTE_PHASES: Record<DisputeStatus, string> = {
+  PENDING_FEE: 'INITIAL',
+  PENDING_REVIEW: 'REVIEW',
+  SELF_RESOLUTION: 'NEGOTIATION',
+  IN_MEDIATION: 'MEDIATION',
+  IN_ARBITRATION: 'ARBITRATION',
+  AWAITING_OUTCOME: 'AWAITING_DECISION',
+  RESOLVED: 'RESOLVED',
+  ESCALATED: 'ESCALATION',
+};
+
+export const DISPUTE_TRANSITIONS: DisputeTransition[] = [
+  { action: 'PAY_FEE', label: 'Pay dispute fee', from: ['PENDING_FEE'], to: 'PENDING_REVIEW', actors: ['client', 'freelancer'], requires: ['feePaid'], deadline: 'before' },
+  { action: 'EXPIRE_FEE', label: 'Close unpaid dispute', from: ['PENDING_FEE'], to: 'RESOLVED', actors: ['system'], deadline: 'after' },
+  { action: 'WITHDRAW', label: 'Withdraw dispute', from: ['PENDING_FEE', 'PENDING_REVIEW', 'SELF_RESOLUTION'], to: 'RESOLVED', actors: ['client', 'freelancer'] },
+  { action: 'START_SELF_RESOLUTION', label: 'Start self-resolution', from: ['PENDING_REVIEW'], to: 'SELF_RESOLUTION', actors: ['mediator', 'system'] },
+  { action: 'REQUEST_MEDIATION', label: 'Request mediation', from: ['SELF_RESOLUTION'], to: 'IN_MEDIATION', actors: ['client', 'freelancer'] },
+  { action: 'REQUEST_MEDIATION', label: 'Move to mediation', from: ['SELF_RESOLUTION'], to: 'IN_MEDIATION', actors: ['system'], deadline: 'after' },
+  { action: 'JOIN_MEDIATION', label: 'Join mediation', from: ['IN_MEDIATION'], actors: ['client', 'freelancer', 'mediator'] },
+  { action: 'SUBMIT_EVIDENCE', label: 'Submit evidence', from: ['PENDING_REVIEW', 'SELF_RESOLUTION', 'IN_MEDIATION', 'IN_ARBITRATION'], actors: ['client', 'freelancer'], deadline: 'before' },
+  { action: 'SETTLE', label: 'Record settlement', from: ['SELF_RESOLUTION'], to: 'AWAITING_OUTCOME', actors: ['client', 'freelancer'], requires: ['resolution'] },
+  { action: 'SETTLE', label: 'Record mediated settlement', from: ['IN_MEDIATION'], to: 'AWAITING_OUTCOME', actors: ['mediator'], requires: ['resolution'] },
+  { action: 'ESCALATE_TO_ARBITRATION', label: 'Escalate to arbitration', from: ['IN_MEDIATION'], to: 'IN_ARBITRATION', actors: ['client', 'freelancer', 'mediator'] },
+  { action: 'ESCALATE_TO_ARBITRATION', label: 'Escalate to arbitration', from: ['IN_MEDIATION'], to: 'IN_ARBITRATION', actors: ['system'], deadline: 'after' },
+  { action: 'DECIDE', label: 'Issue decision', from: ['IN_ARBITRATION'], to: 'AWAITING_OUTCOME', actors: ['arbitrator'], requires: ['evidenceWindowClosed', 'resolution'] },
+  { action: 'COMPLETE_PAYOUT', label: 'Complete payout', from: ['AWAITING_OUTCOME'], to: 'RESOLVED', actors: ['system'] },
+  { action: 'APPEAL', label: 'Submit appeal', from: ['RESOLVED'], to: 'ESCALATED', actors: ['client', 'freelancer'], requires: ['reason'], deadline: 'before' },
+  { action: 'REOPEN', label: 'Reopen in arbitration', from: ['ESCALATED'], to: 'IN_ARBITRATION', actors: ['arbitrator'], requires: ['reason'] },
+  { action: 'REVISE', label: 'Apply revised resolution', from: ['ESCALATED'], to: 'RESOLVED', actors: ['arbitrator'], requires: ['reason', 'resolution'] },
+  { action: 'UPHOLD', label: 'Uphold resolution', from: ['ESCALATED'], to: 'RESOLVED', actors: ['arbitrator'], requires: ['reason'] },
+];
+
+// Older screens and the communication types still use the short status names
+const LEGACY_STATUSES: Record<string, DisputeStatus> = {
+  PENDING: 'PENDING_FEE',
+  OPEN: 'PENDING_REVIEW',
+  IN_REVIEW: 'PENDING_REVIEW',
+  AUTOMATED_REVIEW: 'PENDING_REVIEW',
+  MEDIATION: 'IN_MEDIATION',
+  ARBITRATION: 'IN_ARBITRATION',
+  CLOSED: 'RESOLVED',
+};
+
+export const isDisputeStatus = (status: string): status is DisputeStatus => status in DISPUTE_PHASES;
+
+export const isKnownDisputeStatus = (status: string): boolean => {
+  const key = status.toUpperCase();
+  return isDisputeStatus(key) || key in LEGACY_STATUSES;
+};
+
+// Throws on anything else so an unexpected status is not shown as a fresh dispute
+export const normalizeDisputeStatus = (status: string | undefined): DisputeStatus => {
+  const key = (status || '').toUpperCase();
+  if (isDisputeStatus(key)) {
+    return key;
+  }
+  if (isKnownDisputeStatus(key)) {
+    return LEGACY_STATUSES[key];
+  }
+  throw new FrontendError(`Unknown dispute status "${status ?? ''}"`, 422, { status });
+};
+
+const toDate = (value: string | Date | undefined) => (value ? new Date(value) : undefined);
+
+// The current phase started when the last transition recorded phaseStartedAt.
+// Resolved disputes count from the decision, and a dispute still in its first
+// phase from when it was filed; otherwise there is no deadline to run
+export const phaseStartedAt = (dispute: DisputeLifecycleState): Date | null => {
+  const status = normalizeDisputeStatus(dispute.status);
+  return (status === 'RESOLVED' && (toDate(dispute.resolution?.decidedAt) || toDate(dispute.resolutionDate)))
+    || toDate(dispute.phaseStartedAt)
+    || (status === 'PENDING_FEE' && (toDate(dispute.submittedDate) || toDate(dispute.createdAt)))
+    || null;
+};
+
+export const disputeDeadline = (
+  dispute: DisputeLifecycleState,
+  phaseDays: Partial<Record<DisputeStatus, number>> = DISPUTE_PHASE_DAYS
+): Date | null => {
+  const days = phaseDays[normalizeDisputeStatus(dispute.status)];
+  const startedAt = phaseStartedAt(dispute);
+  if (days === undefined || !startedAt) {
+    return null;
+  }
+  return new Date(startedAt.getTime() + days * DAY);
+};
+
+const actorsOf = (actor: DisputeActor | DisputeActor[]) => (Array.isArray(actor) ? actor : [actor]);
+
+const meetsDeadline = (transition: DisputeTransition, deadline: Date | null, now: Date) => {
+  if (!transition.deadline || !deadline) {
+    return true;
+  }
+  return transition.deadline === 'before' ? now < deadline : now >= deadline;
+};
+
+// Transitions the actor could start right now; payload requirements are checked on submit
+export const availableTransitions = (
+  dispute: DisputeLifecycleState,
+  actor: DisputeActor | DisputeActor[],
+  now: Date = new Date()
+): DisputeTransition[] => {
+  const status = normalizeDisputeStatus(dispute.status);
+  const actors = actorsOf(actor);
+  const deadline = disputeDeadline(dispute);
+  return DISPUTE_TRANSITIONS.filter(transition =>
+    transition.from.includes(status)
+    && transition.actors.some(allowed => actors.includes(allowed))
+    && meetsDeadline(transition, deadline, now)
+  );
+};
+
+export const canTransition = (
+  dispute: DisputeLifecycleState,
+  action: DisputeAction,
+  actor: DisputeActor | DisputeActor[],
+  now: Date = new Date()
+): boolean => availableTransitions(dispute, actor, now).some(transition => transition.action === action);
+
+// Returns why the transition is not allowed, or null when it can be applied
+export const validateTransition = (
+  dispute: DisputeLifecycleState,
+  action: DisputeAction,
+  actor: DisputeActor,
+  payload: DisputeTransitionPayload = {},
+  now: Date = new Date()
+): string | null => {
+  const status = normalizeDisputeStatus(dispute.status);
+  const fromStatus = DISPUTE_TRANSITIONS.filter(transition => transition.action === action && transition.from.includes(status));
+  if (fromStatus.length === 0) {
+    return `Cannot ${action.toLowerCase().replace(/_/g, ' ')} a dispute that is ${status.toLowerCase().replace(/_/g, ' ')}`;
+  }
+
+  const byActor = fromStatus.filter(transition => transition.actors.includes(actor));
+  if (byActor.length === 0) {
+    return `The ${actor} cannot ${action.toLowerCase().replace(/_/g, ' ')} at this stage`;
+  }
+
+  const transition = byActor.find(candidate => meetsDeadline(candidate, disputeDeadline(dispute), now));
+  if (!transition) {
+    return byActor[0].deadline === 'before'
+      ? `The deadline to ${byActor[0].label.toLowerCase()} has passed`
+      : `${byActor[0].label} is only possible once the phase deadline has passed`;
+  }
+
+  const missing = (transition.requires || []).find(key => !payload[key]);
+  if (missing) {
+    return `${transition.label} requires ${missing.replace(/[A-Z]/g, letter => ` ${letter.toLowerCase()}`)}`;
+  }
+  return null;
+};
+
+// Applies a transition and returns the dispute with its new status and phase
+export const applyTransition = <T extends DisputeLifecycleState>(
+  dispute: T,
+  action: DisputeAction,
+  actor: DisputeActor,
+  payload: DisputeTransitionPayload = {},
+  now: Date = new Date()
+): T => {
+  const problem = validateTransition(dispute, action, actor, payload, now);
+  if (problem) {
+    throw new FrontendError(problem, 409, { status: dispute.status, action, actor });
+  }
+
+  const status = normalizeDisputeStatus(dispute.status);
+  const transition = DISPUTE_TRANSITIONS.find(candidate =>
+    candidate.action === action && candidate.from.includes(status) && candidate.actors.includes(actor)
+  ) as DisputeTransition;
+  if (!transition.to) {
+    return dispute;
+  }
+  return {
+    ...dispute,
+    status: transition.to,
+    resolutionPhase: DISPUTE_PHASES[transition.to],
+    phaseStartedAt: now,
+    updatedAt: now,
+  };
+};
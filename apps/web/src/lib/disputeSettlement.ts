@@ -0,0 +1,219 @@
+import { Money } from './money';
+import { FrontendError } from './utils/errorHandler';
+
+// Works out what each party actually receives when a dispute over one milestone
+// is settled with a given split. The split divides the milestone amount; escrow
+// pays out what it still holds, anything the freelancer was already paid beyond
+// their share is recovered, the freelancer's platform fee comes off new releases
+// and each party's dispute fee is refunded in proportion to the share they won.
+
+// The client's fee is charged on deposit and not refunded; the freelancer's comes off each release
+export const PLATFORM_FEE_PERCENT = {
+  client: 1.9,
+  freelancer: 3.6,
+};
+
+export interface SettlementSplit {
+  clientAmount: Money;
+  freelancerAmount: Money;
+}
+
+export interface SettlementInput {
+  milestoneAmount: Money;
+  // Already released to the freelancer for this milestone, before fees
+  releasedAmount?: Money;
+  split: SettlementSplit;
+  disputeFee?: {
+    clientFee: Money;
+    freelancerFee: Money;
+    // Unpaid fees have nothing to refund; fees count as paid unless flagged otherwise
+    clientFeePaid?: boolean;
+    freelancerFeePaid?: boolean;
+  };
+  freelancerFeePercent?: number;
+}
+
+export type SettlementLineKind = 'escrow' | 'recovery' | 'platform_fee' | 'dispute_fee';
+
+export interface SettlementLine {
+  kind: SettlementLineKind;
+  label: string;
+  amount: Money; // positive: paid to the party, negative: paid by the party
+}
+
+export interface PartySettlement {
+  awarded: Money;
+  lines: SettlementLine[];
+  net: Money;
+  disputeFeeForfeited: Money;
+}
+
+export interface SettlementBreakdown {
+  currency: string;
+  milestoneAmount: Money;
+  releasedAmount: Money;
+  heldAmount: Money;
+  client: PartySettlement;
+  freelancer: PartySettlement;
+  escrow: {
+    releasedToFreelancer: Money;
+    refundedToClient: Money;
+  };
+  platform: {
+    platformFees: Money;
+    disputeFees: Money;
+  };
+}
+
+// Splits the milestone by the share that goes to the freelancer, e.g. a 60/40 AI recommendation
+export const splitByPercentage = (milestoneAmount: Money, freelancerPercent: number): SettlementSplit => {
+  if (freelancerPercent < 0 || freelancerPercent > 100) {
+    throw new FrontendError(`Freelancer share must be between 0% and 100%, got ${freelancerPercent}%`);
+  }
+  const [freelancerAmount, clientAmount] = milestoneAmount.allocate([freelancerPercent, 100 - freelancerPercent]);
+  return { clientAmount, freelancerAmount };
+};
+
+export interface SplitAmounts {
+  amountToClient: number;
+  amountToFreelancer: number;
+}
+
+// Picks the amounts out of a resolution or AI recommendation; older records only carry a label
+export const splitAmountsOf = (value: unknown): SplitAmounts | undefined => {
+  const candidate = value as Partial<SplitAmounts> | null | undefined;
+  return candidate && typeof candidate === 'object'
+    && Number.isSafeInteger(candidate.amountToClient) && Number.isSafeInteger(candidate.amountToFreelancer)
+    ? { amountToClient: candidate.amountToClient as number, amountToFreelancer: candidate.amountToFreelancer as number }
+    : undefined;
+};
+
+// Resolutions and AI recommendations give absolute amounts that may be based on a
+// different total; they are kept as they are when they add up, otherwise scaled
+export const splitFromAmounts = (
+  milestoneAmount: Money,
+  amounts: SplitAmounts
+): SettlementSplit => {
+  const total = amounts.amountToClient + amounts.amountToFreelancer;
+  if (total === milestoneAmount.amount) {
+    return {
+      clientAmount: Money.fromMinor(amounts.amountToClient, milestoneAmount.currency),
+      freelancerAmount: Money.fromMinor(amounts.amountToFreelancer, milestoneAmount.currency),
+    };
+  }
+  if (total <= 0) {
+    return splitByPercentage(milestoneAmount, 50);
+  }
+  const [freelancerAmount, clientAmount] = milestoneAmount.allocate([amounts.amountToFreelancer, amounts.amountToClient]);
+  return { clientAmount, freelancerAmount };
+};
+
+// Returns the first problem with a proposed split, or null when it can be settled
+export const validateSettlement = (input: SettlementInput): string | null => {
+  const { milestoneAmount, split } = input;
+  const released = input.releasedAmount ?? Money.zero(milestoneAmount.currency);
+  const amounts = [split.clientAmount, split.freelancerAmount, released];
+  const foreign = amounts.find(amount => amount.currency !== milestoneAmount.currency);
+  if (foreign) {
+    return `Settlement amounts must be in ${milestoneAmount.currency}, got ${foreign.currency}`;
+  }
+  if (amounts.some(amount => amount.isNegative())) {
+    return 'Settlement amounts cannot be negative';
+  }
+  if (released.greaterThan(milestoneAmount)) {
+    return `Released funds (${released.format()}) exceed the milestone amount (${milestoneAmount.format()})`;
+  }
+  const total = split.clientAmount.add(split.freelancerAmount);
+  if (!total.equals(milestoneAmount)) {
+    return `The split (${total.format()}) must add up to the milestone amount (${milestoneAmount.format()})`;
+  }
+  return null;
+};
+
+const line = (kind: SettlementLineKind, label: string, amount: Money): SettlementLine => ({ kind, label, amount });
+
+const withoutZeroLines = (lines: SettlementLine[]) => lines.filter(entry => !entry.amount.isZero());
+
+// A party gets back the part of their dispute fee matching the share they won
+const disputeFeeRefund = (fee: Money, paid: boolean, share: Money, total: Money) => {
+  if (!paid || fee.isZero()) {
+    return Money.zero(fee.currency);
+  }
+  return total.isZero() ? fee : fee.allocate([share.amount, total.amount - share.amount])[0];
+};
+
+export const calculateSettlement = (input: SettlementInput): SettlementBreakdown => {
+  const problem = validateSettlement(input);
+  if (problem) {
+    throw new FrontendError(problem, undefined, {
+      milestoneAmount: input.milestoneAmount.toJSON(),
+      clientAmount: input.split.clientAmount.toJSON(),
+      freelancerAmount: input.split.freelancerAmount.toJSON(),
+    });
+  }
+
+  const { milestoneAmount, split } = input;
+  const currency = milestoneAmount.currency;
+  const zero = Money.zero(currency);
+  const feePercent = input.freelancerFeePercent ?? PLATFORM_FEE_PERCENT.freelancer;
+  const released = input.releasedAmount ?? zero;
+  const held = milestoneAmount.subtract(released);
+
+  // Escrow covers whatever of the freelancer's share has not been paid yet; the
+  // client gets the rest, plus anything paid out beyond the freelancer's share
+  const releaseFromEscrow = split.freelancerAmount.greaterThan(released) ? split.freelancerAmount.subtract(released) : zero;
+  const refundFromEscrow = held.subtract(releaseFromEscrow);
+  const recovered = released.greaterThan(split.freelancerAmount) ? released.subtract(split.freelancerAmount) : zero;
+
+  // The fee already taken on recovered funds goes back to the freelancer's side
+  const releaseFee = releaseFromEscrow.percentage(feePercent);
+  const recoveredFee = recovered.percentage(feePercent);
+
+  const fees = input.disputeFee;
+  const clientFee = fees?.clientFee ?? zero;
+  const freelancerFee = fees?.freelancerFee ?? zero;
+  const clientFeeRefund = disputeFeeRefund(clientFee, fees?.clientFeePaid ?? true, split.clientAmount, milestoneAmount);
+  const freelancerFeeRefund = disputeFeeRefund(freelancerFee, fees?.freelancerFeePaid ?? true, split.freelancerAmount, milestoneAmount);
+  const clientFeeForfeited = (fees?.clientFeePaid ?? true) ? clientFee.subtract(clientFeeRefund) : zero;
+  const freelancerFeeForfeited = (fees?.freelancerFeePaid ?? true) ? freelancerFee.subtract(freelancerFeeRefund) : zero;
+
+  const clientLines = withoutZeroLines([
+    line('escrow', 'Refund from escrow', refundFromEscrow),
+    line('recovery', 'Recovered from earlier release', recovered),
+    line('dispute_fee', 'Dispute fee refund', clientFeeRefund),
+  ]);
+  const freelancerLines = withoutZeroLines([
+    line('escrow', 'Release from escrow', releaseFromEscrow),
+    line('platform_fee', `Platform fee (${feePercent}%)`, releaseFee.negate()),
+    line('recovery', 'Repayment of earlier release, net of fees', recovered.subtract(recoveredFee).negate()),
+    line('dispute_fee', 'Dispute fee refund', freelancerFeeRefund),
+  ]);
+  const sumLines = (lines: SettlementLine[]) => Money.sum(lines.map(entry => entry.amount), currency);
+
+  return {
+    currency,
+    milestoneAmount,
+    releasedAmount: released,
+    heldAmount: held,
+    client: {
+      awarded: split.clientAmount,
+      lines: clientLines,
+      net: sumLines(clientLines),
+      disputeFeeForfeited: clientFeeForfeited,
+    },
+    freelancer: {
+      awarded: split.freelancerAmount,
+      lines: freelancerLines,
+      net: sumLines(freelancerLines),
+      disputeFeeForfeited: freelancerFeeForfeited,
+    },
+    escrow: {
+      releasedToFreelancer: releaseFromEscrow,
+      refundedToClient: refundFromEscrow,
+    },
+    platform: {
+      platformFees: releaseFee.subtract(recoveredFee),
+      disputeFees: clientFeeForfeited.add(freelancerFeeForfeited),
+    },
+  };
+};
@@ -0,0 +1,210 @@
+import {
+  DISPUTE_PHASE_DAYS,
+  DISPUTE_TRANSITIONS,
+  DisputeAction,
+  DisputeActor,
+  DisputeLifecycleState,
+  DisputeStatus,
+  canTransition,
+  disputeDeadline,
+  normalizeDisputeStatus,
+  phaseStartedAt,
+} from './disputeLifecycle';
+import { formatCountdown } from './milestoneWorkflow';
+import { FrontendError } from './utils/errorHandler';
+
+// Service levels for the phases where someone has to act: each phase gets a
+// window, a dispute is at risk once most of it has gone and breached once it has
+// run out. A breach suggests the system transition that moves the dispute on, or
+// a reminder where only a person can (an arbitrator's decision).
+
+export type DisputeSlaPhase = 'PENDING_FEE' | 'PENDING_REVIEW' | 'SELF_RESOLUTION' | 'IN_MEDIATION' | 'IN_ARBITRATION';
+
+export const DISPUTE_SLA_PHASES: DisputeSlaPhase[] = [
+  'PENDING_FEE',
+  'PENDING_REVIEW',
+  'SELF_RESOLUTION',
+  'IN_MEDIATION',
+  'IN_ARBITRATION',
+];
+
+export const DISPUTE_SLA_PHASE_LABELS: Record<DisputeSlaPhase, string> = {
+  PENDING_FEE: 'Fee payment',
+  PENDING_REVIEW: 'Review',
+  SELF_RESOLUTION: 'Self-resolution',
+  IN_MEDIATION: 'Mediation',
+  IN_ARBITRATION: 'Arbitration',
+};
+
+export interface DisputeSlaPolicy {
+  phaseDays: Record<DisputeSlaPhase, number>;
+  // Share of the window after which a dispute is flagged as at risk
+  atRiskRatio: number;
+}
+
+export type DisputeSlaOverrides = {
+  phaseDays?: Partial<Record<DisputeSlaPhase, number>>;
+  atRiskRatio?: number;
+};
+
+// Defaults to the lifecycle's phase deadlines so SLAs and system transitions agree
+export const DEFAULT_DISPUTE_SLA: DisputeSlaPolicy = {
+  phaseDays: DISPUTE_SLA_PHASES.reduce(
+    (days, phase) => ({ ...days, [phase]: DISPUTE_PHASE_DAYS[phase] as number }),
+    {} as Record<DisputeSlaPhase, number>
+  ),
+  atRiskRatio: 0.75,
+};
+
+export const disputeSlaPolicy = (overrides: DisputeSlaOverrides = {}): DisputeSlaPolicy => {
+  const policy: DisputeSlaPolicy = {
+    phaseDays: { ...DEFAULT_DISPUTE_SLA.phaseDays, ...overrides.phaseDays },
+    atRiskRatio: overrides.atRiskRatio ?? DEFAULT_DISPUTE_SLA.atRiskRatio,
+  };
+  const invalid = DISPUTE_SLA_PHASES.find(phase => !(policy.phaseDays[phase] > 0));
+  if (invalid) {
+    throw new FrontendError(`${DISPUTE_SLA_PHASE_LABELS[invalid]} SLA must be more than 0 days`, undefined, overrides);
+  }
+  if (!(policy.atRiskRatio > 0 && policy.atRiskRatio < 1)) {
+    throw new FrontendError('The at-risk threshold must be between 0% and 100% of the window', undefined, overrides);
+  }
+  return policy;
+};
+
+const isSlaPhase = (status: DisputeStatus): status is DisputeSlaPhase =>
+  (DISPUTE_SLA_PHASES as DisputeStatus[]).includes(status);
+
+export type DisputeSlaLevel = 'on_track' | 'at_risk' | 'breached';
+
+export interface DisputeSla {
+  phase: DisputeSlaPhase;
+  startedAt: Date;
+  deadline: Date;
+  remainingMs: number; // negative once breached
+  elapsedRatio: number;
+  level: DisputeSlaLevel;
+}
+
+// Null for phases without an SLA (awaiting payout, resolved, under appeal) or
+// when the phase entry time was never recorded
+export const disputeSla = (
+  dispute: DisputeLifecycleState,
+  policy: DisputeSlaPolicy = DEFAULT_DISPUTE_SLA,
+  now: Date = new Date()
+): DisputeSla | null => {
+  const phase = normalizeDisputeStatus(dispute.status);
+  const startedAt = phaseStartedAt(dispute);
+  const deadline = disputeDeadline(dispute, policy.phaseDays);
+  if (!isSlaPhase(phase) || !startedAt || !deadline) {
+    return null;
+  }
+  const windowMs = deadline.getTime() - startedAt.getTime();
+  const remainingMs = deadline.getTime() - now.getTime();
+  const elapsedRatio = (now.getTime() - startedAt.getTime()) / windowMs;
+  const level: DisputeSlaLevel = remainingMs <= 0 ? 'breached' : elapsedRatio >= policy.atRiskRatio ? 'at_risk' : 'on_track';
+  return { phase, startedAt, deadline, remainingMs, elapsedRatio, level };
+};
+
+// Time until the level next changes: the at-risk threshold while on track, the
+// deadline while at risk, null once breached
+export const msUntilNextSlaLevel = (
+  sla: DisputeSla,
+  policy: DisputeSlaPolicy = DEFAULT_DISPUTE_SLA
+): number | null => {
+  if (sla.level === 'breached') {
+    return null;
+  }
+  if (sla.level === 'at_risk') {
+    return sla.remainingMs;
+  }
+  const windowMs = sla.deadline.getTime() - sla.startedAt.getTime();
+  return (policy.atRiskRatio - sla.elapsedRatio) * windowMs;
+};
+
+export const formatSlaRemaining = (sla: DisputeSla): string =>
+  sla.remainingMs > 0 ? `${formatCountdown(sla.remainingMs)} left` : `Overdue by ${formatCountdown(-sla.remainingMs)}`;
+
+const LEVEL_RANK: Record<DisputeSlaLevel, number> = { breached: 0, at_risk: 1, on_track: 2 };
+
+// Breached first (longest overdue on top), then the closest deadlines; disputes
+// without an SLA go last
+export const compareByBreachRisk = (a: DisputeSla | null, b: DisputeSla | null): number => {
+  if (!a || !b) {
+    return (a ? 0 : 1) - (b ? 0 : 1);
+  }
+  return LEVEL_RANK[a.level] - LEVEL_RANK[b.level] || a.remainingMs - b.remainingMs;
+};
+
+export const sortByBreachRisk = <T extends DisputeLifecycleState>(
+  disputes: T[],
+  policy: DisputeSlaPolicy = DEFAULT_DISPUTE_SLA,
+  now: Date = new Date()
+): T[] => disputes
+  .map(dispute => ({ dispute, sla: disputeSla(dispute, policy, now) }))
+  .sort((a, b) => compareByBreachRisk(a.sla, b.sla))
+  .map(({ dispute }) => dispute);
+
+export interface DisputeEscalationEvaluation {
+  disputeId: string;
+  shouldEscalate: boolean;
+  level?: DisputeSlaLevel;
+  deadline?: string;
+  reason: string;
+  // The system transition to apply; absent when only a reminder can be sent
+  suggestedAction?: DisputeAction;
+  suggestedActor?: DisputeActor;
+  suggestedLabel?: string;
+}
+
+// Who gets chased when nothing can move the dispute on automatically
+const REMINDER_TARGETS: Record<DisputeSlaPhase, string> = {
+  PENDING_FEE: 'the parties to pay the dispute fee',
+  PENDING_REVIEW: 'the review team to pick up the dispute',
+  SELF_RESOLUTION: 'the parties to settle or request mediation',
+  IN_MEDIATION: 'the mediator to settle or escalate',
+  IN_ARBITRATION: 'the arbitrator to issue a decision',
+};
+
+export const evaluateDisputeEscalation = (
+  disputeId: string,
+  dispute: DisputeLifecycleState,
+  policy: DisputeSlaPolicy = DEFAULT_DISPUTE_SLA,
+  now: Date = new Date()
+): DisputeEscalationEvaluation => {
+  const sla = disputeSla(dispute, policy, now);
+  if (!sla) {
+    return { disputeId, shouldEscalate: false, reason: 'No SLA applies in the current phase' };
+  }
+
+  const phaseLabel = DISPUTE_SLA_PHASE_LABELS[sla.phase];
+  const base = { disputeId, level: sla.level, deadline: sla.deadline.toISOString() };
+  if (sla.level === 'on_track') {
+    return { ...base, shouldEscalate: false, reason: `${phaseLabel} SLA on track, ${formatSlaRemaining(sla).toLowerCase()}` };
+  }
+  if (sla.level === 'at_risk') {
+    return {
+      ...base,
+      shouldEscalate: false,
+      reason: `${phaseLabel} SLA at risk (${formatSlaRemaining(sla).toLowerCase()}): remind ${REMINDER_TARGETS[sla.phase]}`,
+    };
+  }
+
+  // Only suggest what the lifecycle will actually accept right now
+  const transition = DISPUTE_TRANSITIONS.find(candidate =>
+    candidate.from.includes(sla.phase)
+    && candidate.actors.includes('system')
+    && canTransition(dispute, candidate.action, 'system', now)
+  );
+  const overdue = formatSlaRemaining(sla).toLowerCase();
+  if (!transition) {
+    return { ...base, shouldEscalate: true, reason: `${phaseLabel} SLA breached (${overdue}): remind ${REMINDER_TARGETS[sla.phase]}` };
+  }
+  return {
+    ...base,
+    shouldEscalate: true,
+    reason: `${phaseLabel} SLA breached (${overdue}): ${transition.label.toLowerCase()}`,
+    suggestedAction: transition.action,
+    suggestedActor: 'system',
+    suggestedLabel: transition.label,
+  };
+};
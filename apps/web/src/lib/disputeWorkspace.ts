@@ -0,0 +1,322 @@
+import { Dispute, DisputeAppeal, DisputeEvidenceBundle, DisputeFeeDetails, Milestone, Project, Transaction } from '@/types';
+import { AppealOutcomeRow, appealFee, appealOutcomes } from './disputeAppeal';
+import { SplitAmounts, splitAmountsOf } from './disputeSettlement';
+import { Money } from './money';
+import { disputeSla } from './disputeSla';
+import {
+  DisputeStatus,
+  DisputeTransition,
+  availableTransitions,
+  disputeDeadline,
+  normalizeDisputeStatus,
+} from './disputeLifecycle';
+
+// View model and layout rules for the party-facing dispute workspace. Both the
+// client and the freelancer dashboards render the same panels; which of them
+// show, and which lifecycle actions they offer, depends on the viewer's role and
+// on where the dispute is in its lifecycle.
+
+export type DisputeWorkspaceRole = 'client' | 'freelancer';
+
+export type DisputeCategory = 'MILESTONE' | 'CONTRACT' | 'PAYMENT' | 'QUALITY' | 'TIMELINE';
+
+export type DisputeParty = 'CLIENT' | 'FREELANCER' | 'SYSTEM' | 'MEDIATOR' | 'ARBITRATOR';
+
+export interface DisputeEvent {
+  id: string;
+  timestamp: Date;
+  actor: DisputeParty;
+  action: string;
+  details: string;
+  evidenceUrl?: string;
+}
+
+export interface DisputeEvidenceItem {
+  filename: string;
+  url?: string;
+  type?: string;
+  uploadedBy?: string;
+  party?: DisputeWorkspaceRole;
+}
+
+export interface DisputeAppealDetails {
+  id: string;
+  reason: string;
+  evidence: { filename: string; url?: string }[];
+  submittedBy: string;
+  submittedAt: Date;
+  status: 'PENDING_REVIEW' | 'APPROVED' | 'REJECTED';
+  outcome?: DisputeAppeal['outcome'];
+  fee?: DisputeAppeal['fee'];
+  reviewer?: string;
+  reviewedAt?: Date;
+  decision?: string;
+  // The original and appealed outcomes side by side
+  outcomes: AppealOutcomeRow[];
+}
+
+export interface DisputeView {
+  id: string;
+  title: string;
+  description: string;
+  type: DisputeCategory;
+  status: DisputeStatus;
+  projectId: string;
+  projectName: string;
+  milestoneId?: string;
+  milestoneTitle?: string;
+  milestoneAmount?: number;
+  releasedAmount?: number;
+  currency?: string;
+  resolutionSplit?: SplitAmounts;
+  recommendedSplit?: SplitAmounts;
+  clientId: string;
+  freelancerId: string;
+  raisedBy: string;
+  submittedDate: Date;
+  updatedAt?: Date;
+  phaseStartedAt?: Date;
+  deadline?: Date; // end of the current phase's SLA
+  resolutionDate?: Date;
+  evidence: DisputeEvidenceItem[];
+  evidenceBundles: DisputeEvidenceBundle[];
+  mediatorAssigned?: string;
+  mediatorRating?: number;
+  arbitratorDecision?: string;
+  timeline: DisputeEvent[];
+  disputeFee?: DisputeFeeDetails;
+  appeal?: DisputeAppealDetails;
+  // While a resolution can still be appealed: when the window closes and what it costs
+  appealWindow?: { closesAt: Date; fee: number };
+}
+
+// Records the mapping falls back to when the API returns bare ids
+export interface DisputeViewContext {
+  projects?: Pick<Project, 'id' | 'title' | 'clientId' | 'freelancerId'>[];
+  milestones?: Pick<Milestone, 'id' | 'title' | 'amount' | 'currency'>[];
+  transactions?: (Pick<Transaction, 'type' | 'status' | 'milestoneId' | 'amount'> & { fees?: { platform?: number } })[];
+}
+
+export const idOf = (value: unknown): string => {
+  if (typeof value === 'string') {
+    return value;
+  }
+  const record = value as { _id?: string; id?: string } | null | undefined;
+  return record?._id || record?.id || '';
+};
+
+const nameOf = (value: unknown, fallback: string): string => {
+  if (typeof value === 'string') {
+    return value;
+  }
+  const person = value as { name?: string; firstName?: string; lastName?: string } | null;
+  return person?.name || [person?.firstName, person?.lastName].filter(Boolean).join(' ') || fallback;
+};
+
+const CATEGORIES: DisputeCategory[] = ['MILESTONE', 'CONTRACT', 'PAYMENT', 'QUALITY', 'TIMELINE'];
+
+// Maps an API dispute to the workspace view model
+export const toDisputeView = (dispute: Dispute, context: DisputeViewContext = {}): DisputeView => {
+  const projectId = idOf(dispute.project);
+  const project = typeof dispute.project === 'object' && dispute.project
+    ? dispute.project
+    : context.projects?.find(candidate => candidate.id === projectId);
+  const milestoneId = idOf(dispute.milestone) || undefined;
+  const milestone = typeof dispute.milestone === 'object' && dispute.milestone
+    ? dispute.milestone
+    : context.milestones?.find(candidate => candidate.id === milestoneId);
+
+  const raisedBy = idOf(dispute.raisedBy);
+  const clientId = project?.clientId || raisedBy;
+  const freelancerId = project?.freelancerId || '';
+  const mediatorId = idOf(dispute.mediator);
+  const arbitratorId = idOf(dispute.arbitrator);
+
+  const partyOf = (userId: string): DisputeWorkspaceRole | undefined => {
+    if (!userId) {
+      return undefined;
+    }
+    return userId === clientId ? 'client' : userId === freelancerId ? 'freelancer' : undefined;
+  };
+  const actorOf = (sender: unknown): DisputeParty => {
+    const senderId = idOf(sender);
+    const party = partyOf(senderId);
+    if (party) {
+      return party === 'client' ? 'CLIENT' : 'FREELANCER';
+    }
+    if (senderId && senderId === mediatorId) {
+      return 'MEDIATOR';
+    }
+    return senderId && senderId === arbitratorId ? 'ARBITRATOR' : 'SYSTEM';
+  };
+
+  const category = (dispute.type || '').toUpperCase() as DisputeCategory;
+  const evidence = dispute.evidence || [];
+  const status = normalizeDisputeStatus(dispute.status);
+  const appeal = dispute.appeals?.[dispute.appeals.length - 1];
+  const currency = milestone?.currency || appeal?.fee.currency || 'USD';
+  // The milestone under dispute, or what the resolution divided when it is unknown
+  const disputedAmount = milestone?.amount
+    ?? (dispute.resolution?.amountToClient || 0) + (dispute.resolution?.amountToFreelancer || 0);
+  const appealClosesAt = status === 'RESOLVED' && dispute.resolution && !appeal ? disputeDeadline(dispute) : null;
+
+  return {
+    id: dispute.id || 'unknown',
+    title: dispute.title || dispute.reason || 'Untitled Dispute',
+    description: dispute.description || dispute.reason || '',
+    type: CATEGORIES.includes(category) ? category : 'MILESTONE',
+    status,
+    projectId,
+    projectName: project?.title || projectId || 'Unknown Project',
+    milestoneId,
+    milestoneTitle: milestone?.title || milestoneId,
+    milestoneAmount: milestone?.amount,
+    releasedAmount: (context.transactions || [])
+      .filter(tx => tx.type === 'RELEASE' && tx.status === 'COMPLETED' && milestone && tx.milestoneId === milestone.id)
+      // Release transactions record the net payout; add the fee back for the gross amount
+      .reduce((sum, tx) => sum + tx.amount + (tx.fees?.platform || 0), 0),
+    currency: milestone?.currency,
+    resolutionSplit: splitAmountsOf(dispute.resolution),
+    recommendedSplit: splitAmountsOf(dispute.aiAnalysis?.recommendedResolution),
+    clientId,
+    freelancerId,
+    raisedBy,
+    submittedDate: dispute.createdAt ? new Date(dispute.createdAt) : new Date(),
+    updatedAt: dispute.updatedAt ? new Date(dispute.updatedAt) : undefined,
+    phaseStartedAt: dispute.phaseStartedAt ? new Date(dispute.phaseStartedAt) : undefined,
+    deadline: disputeSla(dispute)?.deadline,
+    resolutionDate: dispute.resolution?.decidedAt ? new Date(dispute.resolution.decidedAt) : undefined,
+    evidence: evidence.map((item, index) => ({
+      filename: item.filename || `Evidence ${index + 1}`,
+      url: item.url,
+      type: item.type,
+      uploadedBy: item.uploadedBy,
+      party: item.uploadedBy ? partyOf(item.uploadedBy) : undefined,
+    })),
+    evidenceBundles: dispute.evidenceBundles || [],
+    mediatorAssigned: dispute.mediator ? nameOf(dispute.mediator, 'Mediator') : undefined,
+    arbitratorDecision: dispute.resolution?.decision,
+    timeline: (dispute.messages || []).map((message, index) => ({
+      id: `msg-${index}`,
+      timestamp: message.sentAt ? new Date(message.sentAt) : new Date(),
+      actor: actorOf(message.sender),
+      action: 'Message sent',
+      details: message.content,
+    })),
+    disputeFee: dispute.disputeFee,
+    appeal: appeal && {
+      id: appeal.id,
+      reason: appeal.reason,
+      evidence: (appeal.evidence || []).map((item, index) => ({ filename: item.filename || `Evidence ${index + 1}`, url: item.url })),
+      submittedBy: appeal.appellantId,
+      submittedAt: new Date(appeal.submittedAt),
+      status: appeal.status,
+      outcome: appeal.outcome,
+      fee: appeal.fee,
+      reviewer: appeal.reviewerId,
+      reviewedAt: appeal.reviewedAt ? new Date(appeal.reviewedAt) : undefined,
+      decision: appeal.decisionReason,
+      outcomes: appealOutcomes(appeal, currency),
+    },
+    appealWindow: appealClosesAt ? {
+      closesAt: appealClosesAt,
+      fee: appealFee(Money.fromMinor(disputedAmount, currency)).amount,
+    } : undefined,
+  };
+};
+
+export const DISPUTE_STATUS_LABELS: Record<DisputeStatus, string> = {
+  PENDING_FEE: 'Fee Pending',
+  PENDING_REVIEW: 'In Review',
+  SELF_RESOLUTION: 'Self-Resolution',
+  IN_MEDIATION: 'In Mediation',
+  IN_ARBITRATION: 'In Arbitration',
+  AWAITING_OUTCOME: 'Awaiting Payout',
+  RESOLVED: 'Resolved',
+  ESCALATED: 'Under Appeal',
+};
+
+export interface DisputeWorkspaceRoleConfig {
+  label: string;
+  description: string;
+  canCreate: boolean;
+}
+
+export const DISPUTE_WORKSPACE_ROLES: Record<DisputeWorkspaceRole, DisputeWorkspaceRoleConfig> = {
+  client: { label: 'Client', description: 'Manage and resolve disputes with freelancers', canCreate: true },
+  freelancer: { label: 'Freelancer', description: 'Manage and respond to disputes from clients', canCreate: false },
+};
+
+export interface DisputeFilters {
+  search?: string;
+  status?: DisputeStatus | 'all';
+}
+
+export const filterDisputeViews = (views: DisputeView[], { search = '', status = 'all' }: DisputeFilters): DisputeView[] => {
+  const term = search.trim().toLowerCase();
+  return views.filter(view =>
+    (status === 'all' || view.status === status)
+    && (!term || [view.title, view.description, view.projectName].some(text => text.toLowerCase().includes(term)))
+  );
+};
+
+export const disputeCounts = (views: DisputeView[]) => ({
+  open: views.filter(view => view.status !== 'RESOLVED').length,
+  resolved: views.filter(view => view.status === 'RESOLVED').length,
+  inMediation: views.filter(view => view.status === 'IN_MEDIATION').length,
+});
+
+export type DisputePanelId = 'detail' | 'fee' | 'evidence' | 'timeline' | 'settlement' | 'resolution' | 'appeal';
+
+export const DISPUTE_PANEL_ORDER: DisputePanelId[] = ['detail', 'fee', 'evidence', 'timeline', 'settlement', 'resolution', 'appeal'];
+
+export interface DisputeWorkspaceLayout {
+  panels: DisputePanelId[];
+  // Lifecycle actions the viewer can take right now, by the panel that offers them
+  actions: Record<DisputePanelId, DisputeTransition[]>;
+}
+
+// Panels that collect the payload their action needs; everything else is a
+// plain button on the detail panel
+const PANEL_ACTIONS: Partial<Record<DisputeTransition['action'], DisputePanelId>> = {
+  PAY_FEE: 'fee',
+  SUBMIT_EVIDENCE: 'evidence',
+  APPEAL: 'appeal',
+};
+
+export const disputeWorkspaceLayout = (
+  view: DisputeView,
+  role: DisputeWorkspaceRole,
+  now: Date = new Date()
+): DisputeWorkspaceLayout => {
+  const actions = Object.fromEntries(DISPUTE_PANEL_ORDER.map(panel => [panel, []])) as unknown as DisputeWorkspaceLayout['actions'];
+  for (const transition of availableTransitions(view, role, now)) {
+    const panel = PANEL_ACTIONS[transition.action];
+    if (panel) {
+      actions[panel].push(transition);
+    } else if (!transition.requires?.length) {
+      actions.detail.push(transition);
+    }
+  }
+
+  const visible: Record<DisputePanelId, boolean> = {
+    detail: true,
+    fee: view.status === 'PENDING_FEE' || !!view.disputeFee,
+    evidence: true,
+    timeline: true,
+    settlement: view.milestoneAmount !== undefined,
+    resolution: !!view.arbitratorDecision,
+    appeal: !!view.appeal || view.status === 'ESCALATED',
+  };
+
+  return {
+    panels: DISPUTE_PANEL_ORDER.filter(panel => visible[panel] || actions[panel].length > 0),
+    actions,
+  };
+};
+
+export const evidenceByParty = (view: DisputeView) => ({
+  client: view.evidence.filter(item => item.party === 'client'),
+  freelancer: view.evidence.filter(item => item.party === 'freelancer'),
+  other: view.evidence.filter(item => !item.party),
+});
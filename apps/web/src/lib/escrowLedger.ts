@@ -0,0 +1,287 @@
+import { EscrowAccount, Transaction } from '@/types';
+import { Money } from './money';
+
+// Double-entry view of a project's escrow, rebuilt from its transactions. Each
+// posting debits the account that receives value and credits the one it came
+// from, so every account balance is (debits - credits) and the balances across
+// all accounts always net to zero. The escrow account balance is the held amount.
+
+export type LedgerAccount = 'client' | 'escrow' | 'freelancer' | 'platform' | 'clearing';
+
+export type LedgerEntryKind = 'deposit' | 'hold' | 'release' | 'fee' | 'refund' | 'dispute_settlement' | 'dispute_reversal';
+
+export interface LedgerEntry {
+  id: string;
+  transactionId: string;
+  projectId: string;
+  milestoneId?: string;
+  kind: LedgerEntryKind;
+  debit: LedgerAccount;
+  credit: LedgerAccount;
+  amount: Money;
+  amountInUsd?: number;
+  description?: string;
+  postedAt: Date;
+  // Escrow balance right after this entry (entries in the escrow currency only)
+  escrowBalanceAfter?: Money;
+}
+
+export type ReconciliationIssueCode =
+  | 'NEGATIVE_BALANCE'
+  | 'HELD_MISMATCH'
+  | 'DEPOSIT_MISMATCH'
+  | 'RELEASE_MISMATCH'
+  | 'FEE_MISMATCH'
+  | 'MIXED_CURRENCY'
+  | 'UNPOSTED';
+
+export interface ReconciliationIssue {
+  code: ReconciliationIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+  entryId?: string;
+  expected?: Money;
+  actual?: Money;
+}
+
+export interface LedgerTotals {
+  deposited: Money;
+  released: Money;
+  refunded: Money;
+  fees: Money;
+  settledToFreelancer: Money;
+  settledToClient: Money;
+  // Settlement payouts taken back into escrow after an appeal changed the outcome
+  reversed: Money;
+  held: Money;
+  pending: Money;
+}
+
+export interface ProjectLedger {
+  projectId: string;
+  currency: string;
+  entries: LedgerEntry[];
+  balances: Record<LedgerAccount, Money>;
+  totals: LedgerTotals;
+  // USD equivalents as booked on each transaction, across every currency
+  totalsInUsd: { deposited: number; released: number; fees: number; held: number };
+  escrowAccount?: EscrowAccount;
+  issues: ReconciliationIssue[];
+  reconciled: boolean;
+}
+
+const ACCOUNTS: LedgerAccount[] = ['client', 'escrow', 'freelancer', 'platform', 'clearing'];
+
+const postingRules: Record<LedgerEntryKind, { debit: LedgerAccount; credit: LedgerAccount }> = {
+  hold: { debit: 'clearing', credit: 'client' },
+  deposit: { debit: 'escrow', credit: 'client' },
+  release: { debit: 'freelancer', credit: 'escrow' },
+  fee: { debit: 'platform', credit: 'escrow' },
+  refund: { debit: 'client', credit: 'escrow' },
+  dispute_settlement: { debit: 'freelancer', credit: 'escrow' },
+  dispute_reversal: { debit: 'escrow', credit: 'freelancer' },
+};
+
+const postedAt = (transaction: Transaction) => new Date(transaction.processedAt || transaction.createdAt);
+
+// Maps a transaction onto its ledger entry. Failed and pending transactions have
+// not moved money yet, except a pending deposit, which is recorded as a hold on the
+// client's funds in clearing. WITHDRAWALs pay out of the freelancer's balance rather
+// than escrow; `fees` breakdowns on deposits and releases are already netted into
+// their amounts, so only FEE transactions post fees.
+const kindOf = (transaction: Transaction): LedgerEntryKind | null => {
+  if (transaction.status === 'PENDING') {
+    return transaction.type === 'DEPOSIT' ? 'hold' : null;
+  }
+  if (transaction.status !== 'COMPLETED') {
+    return null;
+  }
+
+  switch (transaction.type) {
+    case 'DEPOSIT':
+      return 'deposit';
+    case 'RELEASE':
+      return 'release';
+    case 'FEE':
+      return 'fee';
+    case 'REFUND':
+      return 'refund';
+    case 'DISPUTE_SETTLEMENT':
+      return 'dispute_settlement';
+    case 'DISPUTE_REVERSAL':
+      return 'dispute_reversal';
+    default:
+      return null;
+  }
+};
+
+export const postTransaction = (transaction: Transaction, clientId?: string): LedgerEntry | null => {
+  const kind = kindOf(transaction);
+  if (!kind) {
+    return null;
+  }
+
+  const rule = postingRules[kind];
+  // Settlements go to whichever party the dispute was resolved for, and reversals
+  // come back from whichever party had been paid
+  const debit = kind === 'dispute_settlement' && clientId && transaction.toUserId === clientId ? 'client' : rule.debit;
+  const fromParty = clientId && transaction.fromUserId === clientId ? 'client' : 'freelancer';
+  // Fees paid straight to the platform (appeal fees) come from the party, not escrow
+  const credit = (kind === 'dispute_reversal' && fromParty === 'client')
+    || (kind === 'fee' && transaction.toUserId === 'platform') ? fromParty : rule.credit;
+
+  return {
+    id: `${transaction.id}:${kind}`,
+    transactionId: transaction.id,
+    projectId: transaction.projectId,
+    milestoneId: transaction.milestoneId,
+    kind,
+    debit,
+    credit,
+    // Outflows are sometimes sent as negative amounts; direction comes from the posting rule
+    amount: Money.fromMinor(Math.abs(Math.round(transaction.amount)), transaction.currency || 'USD'),
+    amountInUsd: transaction.amountInUsd !== undefined ? Math.abs(transaction.amountInUsd) : undefined,
+    description: transaction.description,
+    postedAt: postedAt(transaction),
+  };
+};
+
+const sumEntries = (entries: LedgerEntry[], currency: string, predicate: (entry: LedgerEntry) => boolean) =>
+  Money.sum(entries.filter(entry => entry.amount.currency === currency && predicate(entry)).map(entry => entry.amount), currency);
+
+const sumUsd = (entries: LedgerEntry[], predicate: (entry: LedgerEntry) => boolean) =>
+  entries.filter(predicate).reduce((sum, entry) => sum + (entry.amountInUsd ?? 0), 0);
+
+const compareToAccount = (
+  issues: ReconciliationIssue[],
+  code: ReconciliationIssueCode,
+  severity: ReconciliationIssue['severity'],
+  label: string,
+  actual: Money,
+  reported: number | undefined
+) => {
+  if (reported === undefined) {
+    return;
+  }
+  const expected = Money.fromMinor(Math.round(reported), actual.currency);
+  if (!expected.equals(actual)) {
+    issues.push({
+      code,
+      severity,
+      message: `Escrow account reports ${label} of ${expected.format()} but the transactions add up to ${actual.format()}`,
+      expected,
+      actual,
+    });
+  }
+};
+
+export const buildProjectLedger = (
+  projectId: string,
+  transactions: Transaction[],
+  escrowAccount?: EscrowAccount
+): ProjectLedger => {
+  const projectTransactions = transactions
+    .filter(transaction => transaction.projectId === projectId)
+    .sort((a, b) => postedAt(a).getTime() - postedAt(b).getTime());
+
+  // Settlements paid back to whoever funded the escrow count as going to the client
+  const clientId = escrowAccount?.clientId
+    || projectTransactions.find(transaction => transaction.type === 'DEPOSIT')?.fromUserId;
+  const entries = projectTransactions
+    .map(transaction => postTransaction(transaction, clientId))
+    .filter((entry): entry is LedgerEntry => entry !== null);
+
+  const currency = escrowAccount?.currency || entries[0]?.amount.currency || 'USD';
+  const issues: ReconciliationIssue[] = [];
+
+  // Running balances in the escrow currency; entries in other currencies are reported, not mixed in
+  const balances = Object.fromEntries(ACCOUNTS.map(account => [account, Money.zero(currency)])) as Record<LedgerAccount, Money>;
+  entries.forEach(entry => {
+    if (entry.amount.currency !== currency) {
+      return;
+    }
+    const escrowBefore = balances.escrow;
+    balances[entry.debit] = balances[entry.debit].add(entry.amount);
+    balances[entry.credit] = balances[entry.credit].subtract(entry.amount);
+    entry.escrowBalanceAfter = balances.escrow;
+
+    // Reported once, on the entry that overdraws the escrow
+    if (balances.escrow.isNegative() && !escrowBefore.isNegative()) {
+      issues.push({
+        code: 'NEGATIVE_BALANCE',
+        severity: 'error',
+        message: `${entry.description || entry.transactionId} takes escrow to ${balances.escrow.format()}`,
+        entryId: entry.id,
+        actual: balances.escrow,
+      });
+    }
+  });
+
+  const foreignCurrencies = Array.from(new Set(entries.map(entry => entry.amount.currency).filter(code => code !== currency)));
+  if (foreignCurrencies.length > 0) {
+    issues.push({
+      code: 'MIXED_CURRENCY',
+      severity: 'warning',
+      message: `Transactions in ${foreignCurrencies.join(', ')} are left out of the ${currency} balance; see the USD totals`,
+    });
+  }
+  projectTransactions
+    .filter(transaction => transaction.type === 'ADJUSTMENT' && transaction.status === 'COMPLETED')
+    .forEach(transaction => issues.push({
+      code: 'UNPOSTED',
+      severity: 'warning',
+      message: `Adjustment ${transaction.id} is not posted to the ledger and needs a manual review`,
+    }));
+
+  const posted = entries.filter(entry => entry.kind !== 'hold');
+  const totals: LedgerTotals = {
+    deposited: sumEntries(posted, currency, entry => entry.kind === 'deposit'),
+    released: sumEntries(posted, currency, entry => entry.kind === 'release'),
+    refunded: sumEntries(posted, currency, entry => entry.kind === 'refund'),
+    fees: sumEntries(posted, currency, entry => entry.kind === 'fee'),
+    settledToFreelancer: sumEntries(posted, currency, entry => entry.kind === 'dispute_settlement' && entry.debit === 'freelancer'),
+    settledToClient: sumEntries(posted, currency, entry => entry.kind === 'dispute_settlement' && entry.debit === 'client'),
+    reversed: sumEntries(posted, currency, entry => entry.kind === 'dispute_reversal'),
+    held: balances.escrow,
+    pending: balances.clearing,
+  };
+
+  if (escrowAccount) {
+    compareToAccount(issues, 'HELD_MISMATCH', 'error', 'held funds', totals.held, escrowAccount.heldAmount);
+    compareToAccount(issues, 'DEPOSIT_MISMATCH', 'warning', 'deposits', totals.deposited, escrowAccount.totalAmount);
+    compareToAccount(issues, 'RELEASE_MISMATCH', 'warning', 'releases', totals.released, escrowAccount.releasedAmount);
+    compareToAccount(issues, 'FEE_MISMATCH', 'warning', 'platform fees', totals.fees, escrowAccount.platformFee);
+  }
+
+  const outflow = (entry: LedgerEntry) => entry.credit === 'escrow';
+  const totalsInUsd = {
+    deposited: sumUsd(posted, entry => entry.kind === 'deposit'),
+    released: sumUsd(posted, entry => entry.kind === 'release'),
+    fees: sumUsd(posted, entry => entry.kind === 'fee'),
+    held: sumUsd(posted, entry => entry.debit === 'escrow') - sumUsd(posted, outflow),
+  };
+
+  return {
+    projectId,
+    currency,
+    entries,
+    balances,
+    totals,
+    totalsInUsd,
+    escrowAccount,
+    issues,
+    reconciled: !issues.some(issue => issue.severity === 'error'),
+  };
+};
+
+// One ledger per project that has transactions or a known escrow account
+export const buildEscrowLedgers = (
+  transactions: Transaction[],
+  escrowAccounts: Record<string, EscrowAccount> = {}
+): ProjectLedger[] => {
+  const projectIds = Array.from(new Set([
+    ...transactions.map(transaction => transaction.projectId).filter(Boolean),
+    ...Object.keys(escrowAccounts),
+  ]));
+  return projectIds.map(projectId => buildProjectLedger(projectId, transactions, escrowAccounts[projectId]));
+};
@@ -0,0 +1,244 @@
+import {
+  ChangeProposal,
+  Deliverable,
+  DisputeEvidence,
+  DisputeEvidenceBundle,
+  Message,
+  ProjectActivity,
+} from '@/types';
+import { FrontendError } from './utils/errorHandler';
+
+// Turns chat messages, deliverables, project activity and change proposals into
+// evidence a party can pick from, then packages the selection into a bundle:
+// items in chronological order with references (E1, E2, ...), a SHA-256 hash per
+// item, one hash over the whole bundle and a generated index for the mediator.
+
+export type EvidenceSourceKind = 'message' | 'deliverable' | 'activity' | 'change_proposal';
+
+export interface EvidenceCandidate {
+  key: string; // `${kind}:${sourceId}`, stable across refetches
+  kind: EvidenceSourceKind;
+  sourceId: string;
+  evidenceType: DisputeEvidence['evidenceType'];
+  title: string;
+  summary: string;
+  occurredAt: string;
+  author?: string;
+  fileUrl?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface EvidenceSources {
+  messages?: Message[];
+  deliverables?: Deliverable[];
+  activities?: ProjectActivity[];
+  changeProposals?: ChangeProposal[];
+  // Used to name the milestone a deliverable or proposal belongs to
+  milestoneTitles?: Record<string, string>;
+}
+
+export interface EvidenceBundleInput {
+  disputeId: string;
+  submittedBy: string;
+  description: string;
+  items: EvidenceCandidate[];
+}
+
+export interface EvidenceBundleVerification {
+  valid: boolean;
+  // References of items whose content no longer matches their hash
+  tampered: string[];
+}
+
+const readable = (value: string) => {
+  const text = value.toLowerCase().replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+const isoDate = (value: Date | string | undefined) => (value ? new Date(value).toISOString() : new Date(0).toISOString());
+
+const milestoneLabel = (milestoneId: string | undefined, sources: EvidenceSources) =>
+  (milestoneId && sources.milestoneTitles?.[milestoneId]) || milestoneId || 'the project';
+
+const formatValue = (value: unknown) => (value instanceof Date ? value.toISOString().slice(0, 10) : String(value));
+
+export const messageEvidence = (message: Message): EvidenceCandidate => ({
+  key: `message:${message.id}`,
+  kind: 'message',
+  sourceId: message.id,
+  evidenceType: 'MESSAGE',
+  title: `Message from ${message.senderRole}`,
+  summary: message.content,
+  occurredAt: isoDate(message.sentAt || message.createdAt),
+  author: message.senderId,
+  details: message.attachments?.length
+    ? { attachments: message.attachments.map(attachment => attachment.fileName) }
+    : undefined,
+});
+
+export const deliverableEvidence = (deliverable: Deliverable, sources: EvidenceSources = {}): EvidenceCandidate => ({
+  key: `deliverable:${deliverable.id}`,
+  kind: 'deliverable',
+  sourceId: deliverable.id,
+  evidenceType: 'DELIVERABLE',
+  title: deliverable.fileName,
+  summary: `Delivered for ${milestoneLabel(deliverable.milestoneId, sources)} (${deliverable.fileType}, ${Math.ceil(deliverable.fileSize / 1024)} KB)`,
+  occurredAt: isoDate(deliverable.uploadedAt || deliverable.createdAt),
+  author: deliverable.uploadedBy,
+  fileUrl: deliverable.fileUrl,
+  details: { milestoneId: deliverable.milestoneId, fileType: deliverable.fileType, fileSize: deliverable.fileSize },
+});
+
+export const activityEvidence = (activity: ProjectActivity): EvidenceCandidate => {
+  // Older activity records keep their text in a top-level description
+  const description = (activity as ProjectActivity & { description?: string }).description;
+  return {
+    key: `activity:${activity.id}`,
+    kind: 'activity',
+    sourceId: activity.id,
+    evidenceType: 'COMMUNICATION_LOG',
+    title: readable(activity.action),
+    summary: description || activity.details?.description || activity.details?.message || readable(activity.action),
+    occurredAt: isoDate(activity.createdAt),
+    author: activity.userId,
+    details: activity.details,
+  };
+};
+
+export const changeProposalEvidence = (proposal: ChangeProposal, sources: EvidenceSources = {}): EvidenceCandidate => {
+  const changes = Object.keys(proposal.proposedValues || {})
+    .filter(field => proposal.proposedValues[field] !== undefined)
+    .map(field => `${field}: ${formatValue(proposal.originalValues?.[field] ?? '-')} -> ${formatValue(proposal.proposedValues[field])}`);
+  return {
+    key: `change_proposal:${proposal.id}`,
+    kind: 'change_proposal',
+    sourceId: proposal.id,
+    evidenceType: 'COMMUNICATION_LOG',
+    title: `Change proposal for ${milestoneLabel(proposal.milestoneId, sources)} (${proposal.status.toLowerCase()})`,
+    summary: [changes.join('; '), proposal.reason && `Reason: ${proposal.reason}`].filter(Boolean).join('. '),
+    occurredAt: isoDate(proposal.createdAt),
+    author: proposal.proposer,
+    details: { milestoneId: proposal.milestoneId, status: proposal.status, changes },
+  };
+};
+
+const byTimeThenKey = (a: EvidenceCandidate, b: EvidenceCandidate) =>
+  a.occurredAt.localeCompare(b.occurredAt) || a.key.localeCompare(b.key);
+
+// Everything a party could attach, oldest first
+export const evidenceCandidates = (sources: EvidenceSources): EvidenceCandidate[] => [
+  ...(sources.messages || []).filter(message => !message.isSystemMessage && !message.deletedAt).map(messageEvidence),
+  ...(sources.deliverables || []).map(deliverable => deliverableEvidence(deliverable, sources)),
+  ...(sources.activities || []).map(activityEvidence),
+  ...(sources.changeProposals || []).map(proposal => changeProposalEvidence(proposal, sources)),
+].sort(byTimeThenKey);
+
+// JSON with sorted keys, so the same content always hashes the same way
+const canonical = (value: unknown): string => {
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonical).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonical((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const sha256 = async (text: string): Promise<string> => {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new FrontendError('Evidence bundles need the Web Crypto API to compute hashes');
+  }
+  const digest = await subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const bundleHash = (
+  header: Pick<DisputeEvidenceBundle, 'disputeId' | 'submittedBy' | 'description' | 'createdAt'>,
+  items: { ref: string; hash: string }[]
+) => sha256(canonical({ ...header, items }));
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+const buildIndex = (
+  bundle: Pick<DisputeEvidenceBundle, 'disputeId' | 'submittedBy' | 'description' | 'createdAt' | 'hash'>,
+  items: { ref: string; hash: string; candidate: EvidenceCandidate }[]
+) => [
+  `Evidence bundle for dispute ${bundle.disputeId}`,
+  `Submitted by ${bundle.submittedBy} at ${bundle.createdAt}`,
+  ...(bundle.description ? [`Summary: ${bundle.description}`] : []),
+  '',
+  ...items.map(({ ref, hash, candidate }) =>
+    `${ref}. [${candidate.occurredAt.slice(0, 16).replace('T', ' ')}] ${candidate.evidenceType} - ${candidate.title}: ${truncate(candidate.summary, 80)} (sha256 ${hash.slice(0, 12)})`
+  ),
+  '',
+  `${items.length} item${items.length === 1 ? '' : 's'}, SHA-256 ${bundle.hash}`,
+].join('\n');
+
+export const buildEvidenceBundle = async (
+  input: EvidenceBundleInput,
+  now: Date = new Date()
+): Promise<DisputeEvidenceBundle> => {
+  const unique = Array.from(new Map(input.items.map(item => [item.key, item])).values()).sort(byTimeThenKey);
+  if (unique.length === 0) {
+    throw new FrontendError('Select at least one item to include in the evidence bundle', 400);
+  }
+
+  const header = {
+    disputeId: input.disputeId,
+    submittedBy: input.submittedBy,
+    description: input.description.trim(),
+    createdAt: now.toISOString(),
+  };
+  const hashed = await Promise.all(unique.map(async (candidate, position) => ({
+    ref: `E${position + 1}`,
+    hash: await sha256(canonical(candidate)),
+    candidate,
+  })));
+  const hash = await bundleHash(header, hashed.map(({ ref, hash: itemHash }) => ({ ref, hash: itemHash })));
+  const id = `bundle-${hash.slice(0, 12)}`;
+
+  return {
+    id,
+    ...header,
+    algorithm: 'SHA-256',
+    hash,
+    index: buildIndex({ ...header, hash }, hashed),
+    items: hashed.map(({ ref, hash: itemHash, candidate }) => ({
+      id: `${id}-${ref}`,
+      disputeId: input.disputeId,
+      submittedBy: input.submittedBy,
+      submittedAt: now,
+      evidenceType: candidate.evidenceType,
+      description: `${candidate.title}: ${candidate.summary}`,
+      fileUrl: candidate.fileUrl,
+      metadata: { bundleId: id, ref, hash: itemHash, source: candidate },
+      createdAt: now,
+    })),
+  };
+};
+
+// Recomputes every hash from the stored item content
+export const verifyEvidenceBundle = async (bundle: DisputeEvidenceBundle): Promise<EvidenceBundleVerification> => {
+  const checked = await Promise.all(bundle.items.map(async item => ({
+    ref: item.metadata?.ref as string,
+    hash: item.metadata?.hash as string,
+    matches: (await sha256(canonical(item.metadata?.source))) === item.metadata?.hash,
+  })));
+  const header = {
+    disputeId: bundle.disputeId,
+    submittedBy: bundle.submittedBy,
+    description: bundle.description,
+    createdAt: bundle.createdAt,
+  };
+  const hash = await bundleHash(header, checked.map(({ ref, hash }) => ({ ref, hash })));
+  const tampered = checked.filter(item => !item.matches).map(item => item.ref);
+  return { valid: tampered.length === 0 && hash === bundle.hash, tampered };
+};
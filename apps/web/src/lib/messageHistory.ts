@@ -0,0 +1,32 @@
+import { Message } from '@/types';
+
+// A project's message history is held oldest first, one contiguous run from the
+// newest message back to however far the user has scrolled. Pages are merged
+// into it by id, so a page that overlaps what is already held (or a message the
+// socket delivered in the meantime) never shows twice.
+
+const sentAt = (message: Message) => new Date(message.sentAt || message.createdAt).getTime();
+
+export const sortMessages = (messages: Message[]): Message[] =>
+  [...messages].sort((a, b) => sentAt(a) - sentAt(b));
+
+export const mergeMessages = (existing: Message[], incoming: Message[]): Message[] => {
+  const byId = new Map(existing.map(message => [message.id, message]));
+  incoming.forEach(message => byId.set(message.id, message));
+  return sortMessages([...byId.values()]);
+};
+
+// Merges a fresh newest page. Older history already loaded is kept only when the
+// page reaches back into it; otherwise there could be a gap between the two, and
+// the history restarts from the new page.
+export const mergeLatestMessages = (existing: Message[], latest: Message[]): { messages: Message[]; connected: boolean } => {
+  const held = new Set(existing.map(message => message.id));
+  const connected = latest.some(message => held.has(message.id));
+  return connected
+    ? { messages: mergeMessages(existing, latest), connected }
+    : { messages: sortMessages(latest), connected };
+};
+
+// Deep link to a message, used from notifications and dispute evidence
+export const messageLink = (projectId: string, messageId: string) =>
+  `/dashboard/messages?${new URLSearchParams({ project: projectId, message: messageId }).toString()}`;
@@ -0,0 +1,190 @@
+import { Message, MessageSearchField, MessageSearchHit, MessageSearchResults } from '@/types';
+
+// Full-text search over project messages: the message text, attachment file names
+// and the project's name. Every query term has to appear in at least one of them,
+// and the last term also matches as a prefix so results keep up while the user
+// types. The server runs the same search; in mock mode the index is built in the
+// browser from the mock messages.
+
+export interface MessageSearchQuery {
+  text: string;
+  senderId?: string;
+  projectId?: string;
+  from?: Date;
+  to?: Date; // inclusive
+  hasAttachment?: boolean;
+  limit?: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+interface IndexedMessage {
+  message: Message;
+  projectName: string;
+}
+
+export interface MessageSearchIndex {
+  documents: IndexedMessage[];
+  // token -> document position -> fields the token appears in
+  postings: Map<string, Map<number, Set<MessageSearchField>>>;
+}
+
+// Fields matched and score so far for a message the query may still match
+interface Candidate {
+  fields: Set<MessageSearchField>;
+  score: number;
+}
+
+export const MESSAGE_SEARCH_LIMIT = 50;
+
+// A hit in the message text counts for more than one in a file name or project name
+const FIELD_WEIGHTS: Record<MessageSearchField, number> = { content: 3, attachment: 2, project: 1 };
+
+const SEPARATOR = /[\s.,;:!?()[\]{}"'`<>/\\|@#$%^&*+=~_-]/;
+const SEPARATORS = new RegExp(`${SEPARATOR.source}+`);
+
+export const tokenize = (text: string): string[] => text.toLowerCase().split(SEPARATORS).filter(Boolean);
+
+export const hasAttachments = (message: Message) => Boolean(message.attachments?.length);
+
+export const buildSearchIndex = (messages: Message[], projectNames: Record<string, string> = {}): MessageSearchIndex => {
+  const documents: IndexedMessage[] = [];
+  const postings: MessageSearchIndex['postings'] = new Map();
+
+  const post = (text: string, position: number, field: MessageSearchField) => {
+    tokenize(text).forEach(token => {
+      const documentsForToken = postings.get(token) || new Map<number, Set<MessageSearchField>>();
+      const fields = documentsForToken.get(position) || new Set<MessageSearchField>();
+      fields.add(field);
+      documentsForToken.set(position, fields);
+      postings.set(token, documentsForToken);
+    });
+  };
+
+  // Tombstones have no content left to find
+  messages.filter(message => !message.deletedAt).forEach(message => {
+    const position = documents.length;
+    const projectName = projectNames[message.projectId] || '';
+    documents.push({ message, projectName });
+    post(message.content, position, 'content');
+    (message.attachments || []).forEach(attachment => post(attachment.fileName, position, 'attachment'));
+    post(projectName, position, 'project');
+  });
+
+  return { documents, postings };
+};
+
+const matchesFor = (index: MessageSearchIndex, term: string, prefix: boolean) => {
+  if (!prefix) {
+    return index.postings.get(term) || new Map<number, Set<MessageSearchField>>();
+  }
+  const merged = new Map<number, Set<MessageSearchField>>();
+  index.postings.forEach((documents, token) => {
+    if (!token.startsWith(term)) return;
+    documents.forEach((fields, position) => {
+      merged.set(position, new Set([...(merged.get(position) || []), ...fields]));
+    });
+  });
+  return merged;
+};
+
+const passesFilters = ({ message }: IndexedMessage, query: MessageSearchQuery) => {
+  const sentAt = new Date(message.sentAt);
+  return (!query.senderId || message.senderId === query.senderId)
+    && (!query.projectId || message.projectId === query.projectId)
+    && (!query.from || sentAt >= query.from)
+    && (!query.to || sentAt <= query.to)
+    && (query.hasAttachment === undefined || hasAttachments(message) === query.hasAttachment);
+};
+
+export const searchIndex = (index: MessageSearchIndex, query: MessageSearchQuery): MessageSearchResults => {
+  const terms = tokenize(query.text);
+  if (terms.length === 0) {
+    return { hits: [], total: 0 };
+  }
+
+  // position -> candidate, narrowed term by term
+  let candidates: Map<number, Candidate> | undefined;
+  for (const [termIndex, term] of terms.entries()) {
+    const matches = matchesFor(index, term, termIndex === terms.length - 1);
+    const next = new Map<number, Candidate>();
+    matches.forEach((fields, position) => {
+      const previous = candidates ? candidates.get(position) : { fields: new Set<MessageSearchField>(), score: 0 };
+      if (!previous) return;
+      next.set(position, {
+        fields: new Set([...previous.fields, ...fields]),
+        score: previous.score + Math.max(...[...fields].map(field => FIELD_WEIGHTS[field])),
+      });
+    });
+    candidates = next;
+  }
+
+  const hits: MessageSearchHit[] = [...(candidates || new Map<number, Candidate>()).entries()]
+    .filter(([position]) => passesFilters(index.documents[position], query))
+    .map(([position, { fields, score }]) => ({
+      ...index.documents[position],
+      matchedIn: (['content', 'attachment', 'project'] as MessageSearchField[]).filter(field => fields.has(field)),
+      score,
+    }))
+    .sort((a, b) => b.score - a.score || new Date(b.message.sentAt).getTime() - new Date(a.message.sentAt).getTime());
+
+  return { hits: hits.slice(0, query.limit ?? MESSAGE_SEARCH_LIMIT), total: hits.length };
+};
+
+// Splits text into plain and matching runs. A term matches at the start of a word,
+// so "deliv" marks the start of "deliverable" but not "undelivered".
+export const highlight = (text: string, query: string): HighlightSegment[] => {
+  const terms = tokenize(query);
+  const lower = text.toLowerCase();
+  const segments: HighlightSegment[] = [];
+  let plainFrom = 0;
+  let position = 0;
+
+  while (position < text.length) {
+    const atWordStart = position === 0 || SEPARATOR.test(text[position - 1]);
+    const term = atWordStart ? terms.find(candidate => lower.startsWith(candidate, position)) : undefined;
+    if (!term) {
+      position += 1;
+      continue;
+    }
+    if (position > plainFrom) {
+      segments.push({ text: text.slice(plainFrom, position), match: false });
+    }
+    segments.push({ text: text.slice(position, position + term.length), match: true });
+    position += term.length;
+    plainFrom = position;
+  }
+
+  if (plainFrom < text.length) {
+    segments.push({ text: text.slice(plainFrom), match: false });
+  }
+  return segments;
+};
+
+// The part of a long message around its first match, highlighted
+export const snippet = (text: string, query: string, radius = 60): HighlightSegment[] => {
+  const segments = highlight(text, query);
+  const firstMatch = segments.findIndex(segment => segment.match);
+  if (text.length <= radius * 2 || firstMatch < 0) {
+    return segments;
+  }
+
+  const matchStart = segments.slice(0, firstMatch).reduce((length, segment) => length + segment.text.length, 0);
+  // Start the excerpt on a word so it does not open with half of one
+  let start = Math.max(0, matchStart - radius);
+  while (start > 0 && start < matchStart && !SEPARATOR.test(text[start - 1])) {
+    start += 1;
+  }
+  const end = Math.min(text.length, start + radius * 2);
+  const clipped = highlight(text.slice(start, end), query);
+  if (start > 0) {
+    clipped.unshift({ text: '…', match: false });
+  }
+  if (end < text.length) {
+    clipped.push({ text: '…', match: false });
+  }
+  return clipped;
+};
@@ -0,0 +1,86 @@
+import { Message, MessageReaction } from '@/types';
+
+// Replies, edits, deletions and reactions on project messages. Replies are one
+// level deep: a reply's `parentId` is always a top-level message, and replies
+// are held in the same history as everything else so paging and search see them.
+// Edits keep every earlier version; deletion leaves a tombstone so replies and
+// evidence that point at the message still resolve.
+
+export const MESSAGE_REACTIONS = ['👍', '❤️', '😄', '🎉', '👀', '✅'];
+
+export interface ReplySummary {
+  count: number;
+  lastReplyAt: Date;
+  participantIds: string[];
+}
+
+export const isDeleted = (message: Message) => Boolean(message.deletedAt);
+
+export const topLevelMessages = (messages: Message[]): Message[] => messages.filter(message => !message.parentId);
+
+export const repliesTo = (messages: Message[], parentId: string): Message[] =>
+  messages.filter(message => message.parentId === parentId);
+
+export const replySummaries = (messages: Message[]): Record<string, ReplySummary> =>
+  messages.reduce<Record<string, ReplySummary>>((summaries, message) => {
+    if (!message.parentId) {
+      return summaries;
+    }
+    const sentAt = new Date(message.sentAt);
+    const current = summaries[message.parentId];
+    summaries[message.parentId] = {
+      count: (current?.count || 0) + 1,
+      lastReplyAt: current && current.lastReplyAt > sentAt ? current.lastReplyAt : sentAt,
+      participantIds: current?.participantIds.includes(message.senderId)
+        ? current.participantIds
+        : [...(current?.participantIds || []), message.senderId],
+    };
+    return summaries;
+  }, {});
+
+// Only the sender may edit or delete, and only once the server has the message
+export const canModifyMessage = (message: Message, userId?: string) =>
+  Boolean(userId) && message.senderId === userId && !isDeleted(message) && !message.id.startsWith('local-');
+
+export const hasReacted = (message: Message, emoji: string, userId: string) =>
+  Boolean(message.reactions?.some(reaction => reaction.emoji === emoji && reaction.userIds.includes(userId)));
+
+// Adds the user's reaction, or takes it back if they had already reacted with it
+export const toggleReaction = (reactions: MessageReaction[] = [], emoji: string, userId: string): MessageReaction[] => {
+  const existing = reactions.find(reaction => reaction.emoji === emoji);
+  if (!existing) {
+    return [...reactions, { emoji, userIds: [userId] }];
+  }
+  const userIds = existing.userIds.includes(userId)
+    ? existing.userIds.filter(id => id !== userId)
+    : [...existing.userIds, userId];
+  return userIds.length > 0
+    ? reactions.map(reaction => (reaction === existing ? { emoji, userIds } : reaction))
+    : reactions.filter(reaction => reaction !== existing);
+};
+
+export const withEdit = (message: Message, content: string, editorId: string, at: Date = new Date()): Message => ({
+  ...message,
+  content,
+  editedAt: at,
+  editHistory: [...(message.editHistory || []), { content: message.content, editedAt: at, editedBy: editorId }],
+  updatedAt: at,
+});
+
+export const withTombstone = (message: Message, deletedBy: string, at: Date = new Date()): Message => ({
+  ...message,
+  content: '',
+  attachments: [],
+  editHistory: [],
+  reactions: [],
+  deletedAt: at,
+  deletedBy,
+  updatedAt: at,
+});
+
+// Socket broadcasts and REST responses for the same change can arrive in either
+// order; a copy older than the one held never replaces it
+export const applyMessageUpdate = (messages: Message[], updated: Message): Message[] =>
+  messages.map(message =>
+    message.id === updated.id && new Date(updated.updatedAt) >= new Date(message.updatedAt) ? updated : message
+  );
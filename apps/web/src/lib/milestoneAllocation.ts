@@ -0,0 +1,119 @@
+import { Money } from './money';
+import { FrontendError } from './utils/errorHandler';
+
+// Splits a project budget across milestones. Every allocation sums exactly to the
+// budget; leftover minor units follow Money.allocate (largest fractional share
+// first, ties to the earlier milestone), so the same input always gives the same split.
+
+export type AllocationMode = 'equal' | 'percentage' | 'weight';
+
+export type AllocationRequest =
+  | { mode: 'equal'; count: number }
+  | { mode: 'percentage'; percentages: number[] }
+  | { mode: 'weight'; weights: number[] };
+
+// Percentages may drift by rounding in the UI (33.33 + 33.33 + 33.34)
+const PERCENTAGE_TOLERANCE = 0.01;
+
+const sumOf = (values: number[]) => values.reduce((sum, value) => sum + value, 0);
+
+export const allocateBudget = (budget: Money, request: AllocationRequest): Money[] => {
+  switch (request.mode) {
+    case 'equal':
+      return budget.split(request.count);
+    case 'percentage': {
+      const total = sumOf(request.percentages);
+      if (Math.abs(total - 100) > PERCENTAGE_TOLERANCE) {
+        throw new FrontendError(`Milestone percentages must add up to 100%, got ${total}%`, undefined, {
+          percentages: request.percentages,
+        });
+      }
+      return budget.allocate(request.percentages);
+    }
+    case 'weight':
+      return budget.allocate(request.weights);
+  }
+};
+
+// Share of the budget per milestone, rounded to two decimals for display
+export const allocationPercentages = (budget: Money, amounts: Money[]): number[] =>
+  amounts.map(amount => (budget.isZero() ? 0 : Math.round((amount.amount / budget.amount) * 10000) / 100));
+
+// Sets one milestone to `amount` and spreads the rest of the budget over the other
+// unlocked milestones in proportion to their current amounts (equally if they are
+// all zero). The changed amount is clamped to what the locked milestones leave over;
+// with nothing left to absorb the difference it takes the whole remainder.
+export const reflowAllocation = (
+  budget: Money,
+  amounts: Money[],
+  index: number,
+  amount: Money,
+  locked: number[] = []
+): Money[] => {
+  const lockedSet = new Set(locked.filter(lockedIndex => lockedIndex !== index));
+  const free = amounts.map((_, i) => i).filter(i => i !== index && !lockedSet.has(i));
+  const available = budget.subtract(Money.sum(amounts.filter((_, i) => lockedSet.has(i)), budget.currency));
+
+  let changed = amount.isNegative() ? Money.zero(budget.currency) : amount;
+  if (changed.greaterThan(available) || free.length === 0) {
+    changed = available;
+  }
+
+  const result = [...amounts];
+  result[index] = changed;
+
+  const rest = available.subtract(changed);
+  if (free.length > 0) {
+    const weights = free.map(i => amounts[i].amount);
+    const shares = rest.allocate(sumOf(weights) > 0 ? weights : free.map(() => 1));
+    free.forEach((i, position) => {
+      result[i] = shares[position];
+    });
+  }
+  return result;
+};
+
+// Appends a milestone; the others only shrink if the new amount overflows the budget
+export const addToAllocation = (budget: Money, amounts: Money[], amount: Money): Money[] => {
+  const next = [...amounts, amount];
+  if (!Money.sum(next, budget.currency).greaterThan(budget)) {
+    return next;
+  }
+  return reflowAllocation(budget, next, next.length - 1, amount);
+};
+
+// Returns the first problem with an allocation, or null when it can be submitted
+export const validateAllocation = (budget: Money, amounts: Money[]): string | null => {
+  if (!budget.isPositive()) {
+    return 'Project budget must be greater than 0';
+  }
+  if (amounts.length === 0) {
+    return 'At least one milestone is required';
+  }
+
+  const foreign = amounts.find(amount => amount.currency !== budget.currency);
+  if (foreign) {
+    return `Milestone amounts must be in ${budget.currency}, got ${foreign.currency}`;
+  }
+
+  const empty = amounts.findIndex(amount => !amount.isPositive());
+  if (empty >= 0) {
+    return `Milestone ${empty + 1} amount must be greater than 0`;
+  }
+
+  const total = Money.sum(amounts, budget.currency);
+  if (!total.equals(budget)) {
+    return `Milestone amounts (${total.format()}) must sum to the project budget (${budget.format()})`;
+  }
+  return null;
+};
+
+export const assertValidAllocation = (budget: Money, amounts: Money[]): void => {
+  const problem = validateAllocation(budget, amounts);
+  if (problem) {
+    throw new FrontendError(problem, undefined, {
+      budget: budget.toJSON(),
+      amounts: amounts.map(amount => amount.toJSON()),
+    });
+  }
+};
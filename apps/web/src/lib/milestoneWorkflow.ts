@@ -0,0 +1,145 @@
+import { Milestone, MilestoneRevision, Project } from '@/types';
+import { FrontendError } from './utils/errorHandler';
+
+// Milestone status rules shared by the store, the mock API and the milestone
+// screens. Revisions are counted from revisionHistory and capped by the project's
+// maxRevisionsPerMilestone; a submitted milestone approves itself once the
+// project's autoApprovalPeriod has run out.
+
+export type MilestoneStatus = Milestone['status'];
+
+export type MilestoneAction = 'START' | 'SUBMIT' | 'APPROVE' | 'REQUEST_REVISION' | 'DISPUTE' | 'AUTO_APPROVE';
+
+export type MilestoneActor = 'client' | 'freelancer' | 'system';
+
+export interface MilestoneRules {
+  maxRevisionsPerMilestone: number;
+  autoApprovalPeriod: number; // in days
+}
+
+// Same defaults the API applies to projects that leave them unset
+export const DEFAULT_MILESTONE_RULES: MilestoneRules = {
+  maxRevisionsPerMilestone: 3,
+  autoApprovalPeriod: 7,
+};
+
+export type WorkflowMilestone = Pick<Milestone, 'status'> & {
+  submittedAt?: Date | string;
+  revisionHistory?: MilestoneRevision[];
+};
+
+interface MilestoneTransition {
+  action: MilestoneAction;
+  from: MilestoneStatus[];
+  to: MilestoneStatus;
+  actors: MilestoneActor[];
+}
+
+const TRANSITIONS: MilestoneTransition[] = [
+  { action: 'START', from: ['PENDING'], to: 'IN_PROGRESS', actors: ['freelancer'] },
+  { action: 'SUBMIT', from: ['IN_PROGRESS', 'REVISION_REQUESTED'], to: 'SUBMITTED', actors: ['freelancer'] },
+  { action: 'APPROVE', from: ['SUBMITTED'], to: 'APPROVED', actors: ['client'] },
+  { action: 'AUTO_APPROVE', from: ['SUBMITTED'], to: 'APPROVED', actors: ['system'] },
+  { action: 'REQUEST_REVISION', from: ['SUBMITTED'], to: 'REVISION_REQUESTED', actors: ['client'] },
+  { action: 'DISPUTE', from: ['IN_PROGRESS', 'SUBMITTED', 'REVISION_REQUESTED'], to: 'DISPUTED', actors: ['client', 'freelancer'] },
+];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const readable = (value: string) => value.toLowerCase().replace(/_/g, ' ');
+
+// Fills in whatever the project leaves unset (older projects store autoApproveDays)
+export const milestoneRules = (
+  project?: Partial<Pick<Project, 'maxRevisionsPerMilestone' | 'autoApprovalPeriod'>> & { autoApproveDays?: number } | null
+): MilestoneRules => ({
+  maxRevisionsPerMilestone: project?.maxRevisionsPerMilestone ?? DEFAULT_MILESTONE_RULES.maxRevisionsPerMilestone,
+  autoApprovalPeriod: project?.autoApprovalPeriod ?? project?.autoApproveDays ?? DEFAULT_MILESTONE_RULES.autoApprovalPeriod,
+});
+
+export const revisionCount = (milestone: WorkflowMilestone): number => milestone.revisionHistory?.length ?? 0;
+
+export const revisionsRemaining = (milestone: WorkflowMilestone, rules: MilestoneRules): number =>
+  Math.max(rules.maxRevisionsPerMilestone - revisionCount(milestone), 0);
+
+export interface AutoApprovalCountdown {
+  deadline: Date;
+  remainingMs: number;
+  expired: boolean;
+}
+
+// Only submitted milestones count down; the clock starts at submission
+export const autoApprovalCountdown = (
+  milestone: WorkflowMilestone,
+  rules: MilestoneRules,
+  now: Date = new Date()
+): AutoApprovalCountdown | null => {
+  if (milestone.status !== 'SUBMITTED' || !milestone.submittedAt) {
+    return null;
+  }
+  const deadline = new Date(new Date(milestone.submittedAt).getTime() + rules.autoApprovalPeriod * DAY);
+  const remainingMs = Math.max(deadline.getTime() - now.getTime(), 0);
+  return { deadline, remainingMs, expired: remainingMs === 0 };
+};
+
+// "3d 4h", "5h 12m", "12m"; under a minute rounds up so it never reads 0m early
+export const formatCountdown = (remainingMs: number): string => {
+  const totalMinutes = Math.ceil(remainingMs / 60000);
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) {
+    return `${days}d ${hours}h`;
+  }
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m`;
+};
+
+// Returns why the action is not allowed, or null when it can go ahead
+export const validateMilestoneTransition = (
+  milestone: WorkflowMilestone,
+  action: MilestoneAction,
+  actor: MilestoneActor,
+  rules: MilestoneRules = DEFAULT_MILESTONE_RULES,
+  now: Date = new Date()
+): string | null => {
+  const transition = TRANSITIONS.find(candidate => candidate.action === action);
+  if (!transition || !transition.from.includes(milestone.status)) {
+    return `Cannot ${readable(action)} a milestone that is ${readable(milestone.status)}`;
+  }
+  if (!transition.actors.includes(actor)) {
+    return `The ${actor} cannot ${readable(action)} this milestone`;
+  }
+
+  if (action === 'REQUEST_REVISION' && revisionsRemaining(milestone, rules) === 0) {
+    return `All ${rules.maxRevisionsPerMilestone} revisions for this milestone have been used; raise a dispute instead`;
+  }
+  if (action === 'AUTO_APPROVE' && !autoApprovalCountdown(milestone, rules, now)?.expired) {
+    return 'The auto-approval period has not ended yet';
+  }
+  return null;
+};
+
+export const canPerformMilestoneAction = (
+  milestone: WorkflowMilestone,
+  action: MilestoneAction,
+  actor: MilestoneActor,
+  rules: MilestoneRules = DEFAULT_MILESTONE_RULES,
+  now: Date = new Date()
+): boolean => validateMilestoneTransition(milestone, action, actor, rules, now) === null;
+
+// Throws when the action is not allowed and returns the status it leads to
+export const assertMilestoneTransition = (
+  milestone: WorkflowMilestone,
+  action: MilestoneAction,
+  actor: MilestoneActor,
+  rules: MilestoneRules = DEFAULT_MILESTONE_RULES,
+  now: Date = new Date()
+): MilestoneStatus => {
+  const problem = validateMilestoneTransition(milestone, action, actor, rules, now);
+  if (problem) {
+    throw new FrontendError(problem, 409, { status: milestone.status, action, actor });
+  }
+  return (TRANSITIONS.find(transition => transition.action === action) as MilestoneTransition).to;
+};
@@ -196,6 +196,7 @@ export const mockPaymentService = {
       totalAmount: depositData.amount,
       heldAmount: depositData.amount,
       releasedAmount: 0,
+      currency: project.currency,
       status: 'HELD',
       platformFee: Math.round(depositData.amount * 0.019), // 1.9% client fee
       paymentProcessingFee: 0,
@@ -291,6 +292,7 @@ export const mockDisputeService = {
     return {
       ...dispute,
       status: 'RESOLVED',
+      phaseStartedAt: new Date(),
       resolution: {
         ...resolutionData,
         resolvedAt: new Date()
@@ -1,4 +1,6 @@
-import { User, Project, Milestone, Transaction, Invoice, EscrowAccount, Dispute, Notification } from '@/types';
+import { User, Project, Milestone, ProjectActivity, ChangeProposal, Transaction, Invoice, EscrowAccount, Dispute, DisputeCaseNote, Notification } from '@/types';
+import { Conversation, Message, ProjectPresence } from '@/types/communication';
+import { MockDatabase } from './mock-db';
 
 // Mock user data
 export const mockUsers: User[] = [
@@ -121,10 +123,13 @@ export const mockProjects: Project[] = [
     updatedAt: new Date('2024-01-15'),
     progress: 45,
     pendingReviews: 1,
-    messages: 12,
     escrowBalance: 425000, // $4250 in cents
     currency: 'USD',
-    autoApproveDays: 7
+    timeline: '',
+    platformFee: 0,
+    paymentProcessingFee: 0,
+    autoApprovalPeriod: 7,
+    maxRevisionsPerMilestone: 2
   },
   {
     id: 'proj-2',
@@ -135,15 +140,17 @@ export const mockProjects: Project[] = [
     deadline: new Date('2024-05-15'),
     status: 'PENDING_ACCEPTANCE',
     clientId: 'user-1',
-    freelancerId: null,
     createdAt: new Date('2024-01-20'),
     updatedAt: new Date('2024-01-20'),
     progress: 0,
     pendingReviews: 0,
-    messages: 3,
     escrowBalance: 0, // $0 in cents
     currency: 'USD',
-    autoApproveDays: 7
+    timeline: '',
+    platformFee: 0,
+    paymentProcessingFee: 0,
+    autoApprovalPeriod: 7,
+    maxRevisionsPerMilestone: 2
   },
   {
     id: 'proj-3',
@@ -159,10 +166,13 @@ export const mockProjects: Project[] = [
     updatedAt: new Date('2024-01-10'),
     progress: 100,
     pendingReviews: 0,
-    messages: 8,
     escrowBalance: 0, // $0 in cents
     currency: 'USD',
-    autoApproveDays: 7
+    timeline: '',
+    platformFee: 0,
+    paymentProcessingFee: 0,
+    autoApprovalPeriod: 7,
+    maxRevisionsPerMilestone: 2
   },
   {
     id: 'proj-4',
@@ -178,10 +188,13 @@ export const mockProjects: Project[] = [
     updatedAt: new Date('2024-01-25'),
     progress: 0,
     pendingReviews: 0,
-    messages: 5,
     escrowBalance: 0, // $0 in cents
     currency: 'BTC',
-    autoApproveDays: 7
+    timeline: '',
+    platformFee: 0,
+    paymentProcessingFee: 0,
+    autoApprovalPeriod: 7,
+    maxRevisionsPerMilestone: 2
   },
   {
     id: 'proj-5',
@@ -192,15 +205,17 @@ export const mockProjects: Project[] = [
     deadline: new Date('2024-07-20'),
     status: 'DRAFT',
     clientId: 'user-1',
-    freelancerId: null,
     createdAt: new Date('2024-01-30'),
     updatedAt: new Date('2024-01-30'),
     progress: 0,
     pendingReviews: 0,
-    messages: 1,
     escrowBalance: 0, // $0 in cents
     currency: 'USD',
-    autoApproveDays: 7
+    timeline: '',
+    platformFee: 0,
+    paymentProcessingFee: 0,
+    autoApprovalPeriod: 7,
+    maxRevisionsPerMilestone: 2
   }
 ];
 
@@ -209,16 +224,16 @@ export const mockMilestones: Milestone[] = [
   {
     id: 'ms-1',
     projectId: 'proj-1',
+    order: 1,
     title: 'Project Planning & Setup',
     description: 'Define project scope, setup development environment',
     amount: 100000, // $1000 in cents
     status: 'APPROVED',
-    dueDate: new Date('2024-02-15'),
+    deadline: new Date('2024-02-15'),
     createdAt: new Date('2024-01-15'),
     updatedAt: new Date('2024-02-20'),
     acceptanceCriteria: 'Project plan approved, development environment ready',
     currency: 'USD',
-    autoApproveCountdown: 0,
     deliverables: [
       {
         id: 'del-1',
@@ -250,16 +265,16 @@ export const mockMilestones: Milestone[] = [
   {
     id: 'ms-2',
     projectId: 'proj-1',
+    order: 2,
     title: 'Frontend Development',
     description: 'Create responsive frontend with React and TypeScript',
     amount: 200000, // $2000 in cents
     status: 'SUBMITTED',
-    dueDate: new Date('2024-03-15'),
+    deadline: new Date('2024-03-15'),
     createdAt: new Date('2024-02-16'),
     updatedAt: new Date('2024-03-16'),
     acceptanceCriteria: 'All components built and tested, responsive design implemented',
     currency: 'USD',
-    autoApproveCountdown: 5,
     deliverables: [
       {
         id: 'del-3',
@@ -287,53 +302,53 @@ export const mockMilestones: Milestone[] = [
       }
     ],
     submissionNotes: 'All frontend components have been built and tested. Please check the live demo link for review.',
-    submittedAt: new Date('2024-03-16')
+    submittedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000) // 2 days ago, still inside the review period
   },
   {
     id: 'ms-3',
     projectId: 'proj-1',
+    order: 3,
     title: 'Backend API Development',
     description: 'Create REST API for e-commerce functionality',
     amount: 150000, // $1500 in cents
     status: 'IN_PROGRESS',
-    dueDate: new Date('2024-04-15'),
+    deadline: new Date('2024-04-15'),
     createdAt: new Date('2024-03-16'),
     updatedAt: new Date('2024-03-20'),
     acceptanceCriteria: 'API endpoints ready with proper authentication and error handling',
     currency: 'USD',
-    autoApproveCountdown: 0,
     deliverables: [],
     submissionNotes: 'Currently working on API development. Will submit deliverables by deadline.'
   },
   {
     id: 'ms-4',
     projectId: 'proj-1',
+    order: 4,
     title: 'Payment Integration',
     description: 'Integrate secure payment processing',
     amount: 75000, // $750 in cents
     status: 'PENDING',
-    dueDate: new Date('2024-05-15'),
+    deadline: new Date('2024-05-15'),
     createdAt: new Date('2024-04-01'),
     updatedAt: new Date('2024-04-01'),
     acceptanceCriteria: 'Payment processing working with test transactions',
     currency: 'USD',
-    autoApproveCountdown: 0,
     deliverables: [],
     submissionNotes: 'Will begin work after previous milestone is approved.'
   },
   {
     id: 'ms-5',
     projectId: 'proj-3',
+    order: 1,
     title: 'Article Series: Tech Trends 2024',
     description: 'Write 20 articles about upcoming technology trends',
     amount: 200000, // $2000 in cents
-    status: 'COMPLETED',
-    dueDate: new Date('2024-01-10'),
+    status: 'APPROVED',
+    deadline: new Date('2024-01-10'),
     createdAt: new Date('2023-11-10'),
     updatedAt: new Date('2024-01-10'),
     acceptanceCriteria: '20 high-quality articles delivered and approved',
     currency: 'USD',
-    autoApproveCountdown: 0,
     deliverables: [
       {
         id: 'del-5',
@@ -353,6 +368,229 @@ export const mockMilestones: Milestone[] = [
   }
 ];
 
+// Mock project activity, oldest first
+export const mockActivities: ProjectActivity[] = [
+  {
+    id: 'act-1',
+    projectId: 'proj-1',
+    userId: 'user-1',
+    actorRole: 'client',
+    action: 'PROJECT_CREATED',
+    details: { projectName: 'E-commerce Website Development' },
+    createdAt: new Date('2024-01-15T09:00:00Z')
+  },
+  {
+    id: 'act-2',
+    projectId: 'proj-1',
+    userId: 'user-1',
+    actorRole: 'client',
+    action: 'PROJECT_INVITED',
+    details: { email: 'freelancer@example.com' },
+    createdAt: new Date('2024-01-15T09:20:00Z')
+  },
+  {
+    id: 'act-3',
+    projectId: 'proj-1',
+    userId: 'user-2',
+    actorRole: 'freelancer',
+    action: 'PROJECT_ACCEPTED',
+    details: { projectName: 'E-commerce Website Development' },
+    createdAt: new Date('2024-01-16T14:05:00Z')
+  },
+  {
+    id: 'act-4',
+    projectId: 'proj-1',
+    userId: 'user-1',
+    actorRole: 'client',
+    action: 'FUNDS_DEPOSITED',
+    details: { amount: 500000, currency: 'USD' },
+    createdAt: new Date('2024-01-17T10:30:00Z')
+  },
+  {
+    id: 'act-5',
+    projectId: 'proj-1',
+    userId: 'user-2',
+    actorRole: 'freelancer',
+    action: 'MILESTONE_STARTED',
+    details: { milestoneId: 'ms-1', milestoneTitle: 'Project Planning & Setup' },
+    createdAt: new Date('2024-01-18T08:45:00Z')
+  },
+  {
+    id: 'act-6',
+    projectId: 'proj-1',
+    userId: 'user-2',
+    actorRole: 'freelancer',
+    action: 'MESSAGE_SENT',
+    details: { preview: 'Sharing the sitemap draft for feedback' },
+    createdAt: new Date('2024-02-02T16:10:00Z')
+  },
+  {
+    id: 'act-7',
+    projectId: 'proj-1',
+    userId: 'user-2',
+    actorRole: 'freelancer',
+    action: 'MILESTONE_SUBMITTED',
+    details: { milestoneId: 'ms-1', milestoneTitle: 'Project Planning & Setup' },
+    createdAt: new Date('2024-02-19T11:00:00Z')
+  },
+  {
+    id: 'act-8',
+    projectId: 'proj-1',
+    userId: 'user-1',
+    actorRole: 'client',
+    action: 'MILESTONE_REVISION_REQUESTED',
+    details: { milestoneId: 'ms-1', milestoneTitle: 'Project Planning & Setup', revisionNotes: 'Add the payment flow to the architecture diagram' },
+    createdAt: new Date('2024-02-20T09:15:00Z')
+  },
+  {
+    id: 'act-9',
+    projectId: 'proj-1',
+    userId: 'user-2',
+    actorRole: 'freelancer',
+    action: 'MILESTONE_SUBMITTED',
+    details: { milestoneId: 'ms-1', milestoneTitle: 'Project Planning & Setup' },
+    createdAt: new Date('2024-02-21T17:40:00Z')
+  },
+  {
+    id: 'act-10',
+    projectId: 'proj-1',
+    userId: 'user-1',
+    actorRole: 'client',
+    action: 'MILESTONE_APPROVED',
+    details: { milestoneId: 'ms-1', milestoneTitle: 'Project Planning & Setup', feedback: 'Clear and complete' },
+    createdAt: new Date('2024-02-22T10:00:00Z')
+  },
+  {
+    id: 'act-11',
+    projectId: 'proj-1',
+    userId: 'user-1',
+    actorRole: 'client',
+    action: 'PAYMENT_RELEASED',
+    details: { milestoneId: 'ms-1', milestoneTitle: 'Project Planning & Setup', amount: 100000, currency: 'USD' },
+    createdAt: new Date('2024-02-22T10:01:00Z')
+  },
+  {
+    id: 'act-12',
+    projectId: 'proj-1',
+    userId: 'user-2',
+    actorRole: 'freelancer',
+    action: 'MILESTONE_STARTED',
+    details: { milestoneId: 'ms-2', milestoneTitle: 'Frontend Development' },
+    createdAt: new Date('2024-02-23T08:30:00Z')
+  },
+  {
+    id: 'act-13',
+    projectId: 'proj-1',
+    userId: 'user-1',
+    actorRole: 'client',
+    action: 'MESSAGE_SENT',
+    details: { preview: 'Can the product grid show stock levels?' },
+    createdAt: new Date('2024-03-05T13:25:00Z')
+  },
+  {
+    id: 'act-14',
+    projectId: 'proj-1',
+    userId: 'user-2',
+    actorRole: 'freelancer',
+    action: 'MILESTONE_SUBMITTED',
+    details: { milestoneId: 'ms-2', milestoneTitle: 'Frontend Development' },
+    createdAt: new Date('2024-03-15T18:00:00Z')
+  },
+  {
+    id: 'act-15',
+    projectId: 'proj-1',
+    userId: 'user-2',
+    actorRole: 'freelancer',
+    action: 'MILESTONE_STARTED',
+    details: { milestoneId: 'ms-3', milestoneTitle: 'Backend API Development' },
+    createdAt: new Date('2024-03-16T09:00:00Z')
+  },
+  {
+    id: 'act-16',
+    projectId: 'proj-3',
+    userId: 'user-1',
+    actorRole: 'client',
+    action: 'FUNDS_DEPOSITED',
+    details: { amount: 200000, currency: 'USD' },
+    createdAt: new Date('2023-11-10T12:00:00Z')
+  },
+  {
+    id: 'act-17',
+    projectId: 'proj-3',
+    userId: 'user-2',
+    actorRole: 'freelancer',
+    action: 'MILESTONE_SUBMITTED',
+    details: { milestoneId: 'ms-5', milestoneTitle: 'Article Series: Tech Trends 2024' },
+    createdAt: new Date('2024-01-08T15:30:00Z')
+  },
+  {
+    id: 'act-18',
+    projectId: 'proj-3',
+    userId: 'user-1',
+    actorRole: 'client',
+    action: 'MILESTONE_APPROVED',
+    details: { milestoneId: 'ms-5', milestoneTitle: 'Article Series: Tech Trends 2024' },
+    createdAt: new Date('2024-01-10T10:00:00Z')
+  },
+  {
+    id: 'act-19',
+    projectId: 'proj-3',
+    userId: 'user-1',
+    actorRole: 'client',
+    action: 'PROJECT_COMPLETED',
+    details: {},
+    createdAt: new Date('2024-01-10T10:05:00Z')
+  }
+];
+
+// Mock change proposals: the freelancer asked for more time and budget on the
+// API milestone and the client answered with a counter-proposal
+export const mockChangeProposals: ChangeProposal[] = [
+  {
+    id: 'proposal-1',
+    projectId: 'proj-1',
+    milestoneId: 'ms-3',
+    proposer: 'freelancer',
+    status: 'COUNTERED',
+    originalValues: {
+      description: 'Create REST API for e-commerce functionality',
+      deadline: new Date('2024-04-15'),
+      amount: 150000
+    },
+    proposedValues: {
+      description: 'Create REST API for e-commerce functionality, including inventory webhooks',
+      deadline: new Date('2024-04-29'),
+      amount: 190000
+    },
+    reason: 'The inventory system needs webhooks that were not in the original scope',
+    createdAt: new Date('2024-03-20T10:00:00Z'),
+    updatedAt: new Date('2024-03-21T09:00:00Z'),
+    resolvedAt: new Date('2024-03-21T09:00:00Z'),
+    resolutionNotes: 'Happy to add webhooks, but one extra week should be enough'
+  },
+  {
+    id: 'proposal-2',
+    projectId: 'proj-1',
+    milestoneId: 'ms-3',
+    proposer: 'client',
+    status: 'PENDING',
+    originalValues: {
+      description: 'Create REST API for e-commerce functionality',
+      deadline: new Date('2024-04-15'),
+      amount: 150000
+    },
+    proposedValues: {
+      description: 'Create REST API for e-commerce functionality, including inventory webhooks',
+      deadline: new Date('2024-04-22'),
+      amount: 175000
+    },
+    reason: 'Happy to add webhooks, but one extra week should be enough',
+    parentProposalId: 'proposal-1',
+    createdAt: new Date('2024-03-21T09:00:00Z'),
+    updatedAt: new Date('2024-03-21T09:00:00Z')
+  }
+];
+
 // Mock transaction data
 export const mockTransactions: Transaction[] = [
   {
@@ -417,6 +655,7 @@ export const mockTransactions: Transaction[] = [
     currency: 'USD',
     amountInUsd: 5400,
     status: 'COMPLETED',
+    paymentMethodType: 'card',
     description: 'Platform fee from milestone payment',
     referenceId: 'ms-3',
     processedAt: new Date('2024-03-20'),
@@ -656,7 +895,7 @@ export const mockInvoices: Invoice[] = [
     grossAmount: 500000, // $5000 in cents
     platformFee: 9500, // $95 (1.9% client fee)
     netAmount: 475000, // $4750 (after 5% freelancer fee)
-    status: 'PENDING',
+    status: 'ISSUED',
     dueDate: new Date('2024-02-20'),
     issuedDate: new Date('2024-01-28'),
     invoiceNumber: 'INV-004',
@@ -734,6 +973,7 @@ export const mockEscrowAccounts: EscrowAccount[] = [
     totalAmount: 500000, // $5000 in cents
     heldAmount: 325000, // $3250 in cents (after first milestone release)
     releasedAmount: 175000, // $1750 in cents (first two milestones)
+    currency: 'USD',
     status: 'HELD',
     platformFee: 11000, // $110 in cents
     paymentProcessingFee: 5500, // $55 in cents
@@ -748,6 +988,7 @@ export const mockEscrowAccounts: EscrowAccount[] = [
     totalAmount: 200000, // $2000 in cents
     heldAmount: 0, // $0 in cents
     releasedAmount: 200000, // $2000 in cents (completed project)
+    currency: 'USD',
     status: 'RELEASED',
     platformFee: 11000, // $110 in cents
     paymentProcessingFee: 5500, // $55 in cents
@@ -762,6 +1003,7 @@ export const mockEscrowAccounts: EscrowAccount[] = [
     totalAmount: 750000, // $7500 in cents
     heldAmount: 750000, // $7500 in cents (pending deposit)
     releasedAmount: 0, // $0 in cents
+    currency: 'BTC',
     status: 'NOT_DEPOSITED',
     platformFee: 0, // $0 in cents
     paymentProcessingFee: 0, // $0 in cents
@@ -773,7 +1015,7 @@ export const mockEscrowAccounts: EscrowAccount[] = [
 // Mock Dispute data
 export const mockDisputes: Dispute[] = [
   {
-    _id: 'disp-001',
+    id: 'disp-001',
     project: 'proj-1',
     milestone: 'ms-1',
     raisedBy: 'user-1',
@@ -800,6 +1042,7 @@ export const mockDisputes: Dispute[] = [
     ],
     status: 'PENDING_REVIEW',
     resolutionPhase: 'REVIEW',
+    phaseStartedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
     aiAnalysis: {
       confidenceScore: 0.75,
       keyIssues: ['Design specification mismatch', 'Quality concerns'],
@@ -813,20 +1056,20 @@ export const mockDisputes: Dispute[] = [
       {
         sender: 'user-1',
         content: 'The delivered work does not match the design specifications we agreed upon. Please review the attached documents showing the discrepancies.',
-        sentAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString() // 3 days ago
+        sentAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000) // 3 days ago
       },
       {
         sender: 'user-3',
         content: 'I understand your concerns. I will review the specifications and provide a detailed response within 24 hours.',
-        sentAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString() // 2 days ago
+        sentAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000) // 2 days ago
       }
     ],
     disputeFeePaid: true,
-    createdAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString()
+    createdAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000),
+    updatedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000)
   },
   {
-    _id: 'disp-002',
+    id: 'disp-002',
     project: 'proj-2',
     milestone: 'ms-5',
     raisedBy: 'user-2',
@@ -847,6 +1090,7 @@ export const mockDisputes: Dispute[] = [
     ],
     status: 'IN_MEDIATION',
     resolutionPhase: 'MEDIATION',
+    phaseStartedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
     aiAnalysis: {
       confidenceScore: 0.90,
       keyIssues: ['Payment processing delay', 'Completed work verification'],
@@ -860,25 +1104,25 @@ export const mockDisputes: Dispute[] = [
       {
         sender: 'user-2',
         content: 'I completed the milestone and received approval from the client, but the payment has not been processed after 7 days.',
-        sentAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'user-1',
         content: 'I approved the work but there was a system issue that prevented payment processing. Working with support to resolve.',
-        sentAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'user-4',
         content: 'I will mediate this dispute and ensure payment is processed within 48 hours.',
-        sentAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000)
       }
     ],
     disputeFeePaid: true,
-    createdAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString()
+    createdAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000),
+    updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000)
   },
   {
-    _id: 'disp-003',
+    id: 'disp-003',
     project: 'proj-3',
     milestone: 'ms-3',
     raisedBy: 'user-3',
@@ -899,6 +1143,7 @@ export const mockDisputes: Dispute[] = [
     ],
     status: 'RESOLVED',
     resolutionPhase: 'RESOLVED',
+    phaseStartedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
     aiAnalysis: {
       confidenceScore: 0.85,
       keyIssues: ['Scope creep', 'Additional requirements'],
@@ -913,32 +1158,32 @@ export const mockDisputes: Dispute[] = [
       amountToClient: 0,
       decisionReason: 'Original scope completed as agreed, additional work outside contract',
       decidedBy: 'admin-1',
-      decidedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
+      decidedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
       aiRecommended: true
     },
     messages: [
       {
         sender: 'user-3',
         content: 'Client requested multiple features not included in the original contract. This is scope creep.',
-        sentAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'user-5',
         content: 'I believe these features are necessary for the project to function as intended.',
-        sentAt: new Date(Date.now() - 9 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 9 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'admin-1',
         content: 'After review, the original scope was completed. Additional features require a new agreement.',
-        sentAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000)
       }
     ],
     disputeFeePaid: true,
-    createdAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
+    createdAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000),
+    updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000)
   },
   {
-    _id: 'disp-004',
+    id: 'disp-004',
     project: 'proj-4',
     milestone: 'ms-7',
     raisedBy: 'user-6',
@@ -959,6 +1204,7 @@ export const mockDisputes: Dispute[] = [
     ],
     status: 'ESCALATED',
     resolutionPhase: 'ESCALATION',
+    phaseStartedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
     aiAnalysis: {
       confidenceScore: 0.65,
       keyIssues: ['Timeline delays', 'Client responsiveness'],
@@ -972,25 +1218,25 @@ export const mockDisputes: Dispute[] = [
       {
         sender: 'user-6',
         content: 'I need a timeline extension due to delays in receiving required materials from the client.',
-        sentAt: new Date(Date.now() - 4 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 4 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'user-8',
         content: 'I disagree with the timeline extension request. The materials were provided on time.',
-        sentAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'user-7',
         content: 'Escalating to senior arbitrator for final decision.',
-        sentAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000)
       }
     ],
     disputeFeePaid: true,
-    createdAt: new Date(Date.now() - 4 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString()
+    createdAt: new Date(Date.now() - 4 * 24 * 60 * 60 * 1000),
+    updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000)
   },
   {
-    _id: 'disp-005',
+    id: 'disp-005',
     project: 'proj-5',
     milestone: 'ms-9',
     raisedBy: 'user-9',
@@ -1011,6 +1257,7 @@ export const mockDisputes: Dispute[] = [
     ],
     status: 'IN_ARBITRATION',
     resolutionPhase: 'ARBITRATION',
+    phaseStartedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
     aiAnalysis: {
       confidenceScore: 0.80,
       keyIssues: ['Code quality', 'Bugs and errors'],
@@ -1024,25 +1271,25 @@ export const mockDisputes: Dispute[] = [
       {
         sender: 'user-9',
         content: 'The delivered code has multiple bugs and quality issues. Please review the attached bug report.',
-        sentAt: new Date(Date.now() - 6 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 6 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'user-10',
         content: 'I acknowledge the issues and am working on fixes. Will provide updated code within 48 hours.',
-        sentAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'admin-2',
         content: 'Case moved to arbitration for final decision on quality standards.',
-        sentAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000)
       }
     ],
     disputeFeePaid: true,
-    createdAt: new Date(Date.now() - 6 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString()
+    createdAt: new Date(Date.now() - 6 * 24 * 60 * 60 * 1000),
+    updatedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000)
   },
   {
-    _id: 'disp-006',
+    id: 'disp-006',
     project: 'proj-6',
     milestone: 'ms-12',
     raisedBy: 'user-11',
@@ -1063,6 +1310,7 @@ export const mockDisputes: Dispute[] = [
     ],
     status: 'AWAITING_OUTCOME',
     resolutionPhase: 'AWAITING_DECISION',
+    phaseStartedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
     aiAnalysis: {
       confidenceScore: 0.70,
       keyIssues: ['Deliverable completion', 'Payment obligation'],
@@ -1076,25 +1324,25 @@ export const mockDisputes: Dispute[] = [
       {
         sender: 'user-11',
         content: 'I have completed all agreed deliverables. Payment is overdue.',
-        sentAt: new Date(Date.now() - 9 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 9 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'user-12',
         content: 'Some deliverables are incomplete and do not meet our standards.',
-        sentAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'admin-3',
         content: 'Currently reviewing all deliverables and will issue decision within 48 hours.',
-        sentAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000)
       }
     ],
     disputeFeePaid: true,
-    createdAt: new Date(Date.now() - 9 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString()
+    createdAt: new Date(Date.now() - 9 * 24 * 60 * 60 * 1000),
+    updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000)
   },
   {
-    _id: 'disp-007',
+    id: 'disp-007',
     project: 'proj-7',
     milestone: 'ms-4',
     raisedBy: 'user-13',
@@ -1115,6 +1363,7 @@ export const mockDisputes: Dispute[] = [
     ],
     status: 'PENDING_FEE',
     resolutionPhase: 'INITIAL',
+    phaseStartedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
     aiAnalysis: null,
     mediator: null,
     arbitrator: null,
@@ -1123,15 +1372,15 @@ export const mockDisputes: Dispute[] = [
       {
         sender: 'user-13',
         content: 'Freelancer has not responded to messages for 5 days and has not completed the agreed work.',
-        sentAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000)
       }
     ],
     disputeFeePaid: false,
-    createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
+    createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
+    updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000)
   },
   {
-    _id: 'disp-008',
+    id: 'disp-008',
     project: 'proj-8',
     milestone: 'ms-15',
     raisedBy: 'user-14',
@@ -1152,6 +1401,7 @@ export const mockDisputes: Dispute[] = [
     ],
     status: 'SELF_RESOLUTION',
     resolutionPhase: 'NEGOTIATION',
+    phaseStartedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
     aiAnalysis: {
       confidenceScore: 0.60,
       keyIssues: ['Scope changes', 'Project requirements'],
@@ -1165,17 +1415,17 @@ export const mockDisputes: Dispute[] = [
       {
         sender: 'user-14',
         content: 'The project scope has changed significantly from the original agreement. Need to discuss revised terms.',
-        sentAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'user-15',
         content: 'Agreed. Let\'s schedule a call to discuss the new scope and timeline.',
-        sentAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000)
       }
     ],
     disputeFeePaid: true,
-    createdAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString()
+    createdAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
+    updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000)
   }
 ];
 
@@ -1273,15 +1523,17 @@ export const generateMockProject = (overrides?: Partial<Project>): Project => {
     deadline: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
     status: 'DRAFT',
     clientId: 'user-1',
-    freelancerId: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     progress: 0,
     pendingReviews: 0,
-    messages: 0,
     escrowBalance: 0,
     currency: 'USD',
-    autoApproveDays: 7
+    timeline: '',
+    platformFee: 0,
+    paymentProcessingFee: 0,
+    autoApprovalPeriod: 7,
+    maxRevisionsPerMilestone: 2
   };
 
   return { ...baseProject, ...overrides };
@@ -1291,16 +1543,16 @@ export const generateMockMilestone = (overrides?: Partial<Milestone>): Milestone
   const baseMilestone: Milestone = {
     id: `ms-${Date.now()}`,
     projectId: 'proj-1',
+    order: 1,
     title: 'Mock Milestone',
     description: 'This is a mock milestone for testing',
     amount: 100000, // $1000 in cents
     status: 'PENDING',
-    dueDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000), // 14 days from now
+    deadline: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000), // 14 days from now
     createdAt: new Date(),
     updatedAt: new Date(),
     acceptanceCriteria: 'Complete the deliverables as specified',
-    currency: 'USD',
-    autoApproveCountdown: 0
+    currency: 'USD'
   };
 
   return { ...baseMilestone, ...overrides };
@@ -1314,7 +1566,9 @@ export const generateMockTransaction = (overrides?: Partial<Transaction>): Trans
     toUserId: 'user-2',
     type: 'DEPOSIT',
     amount: 100000, // $1000 in cents
+    currency: 'USD',
     status: 'PENDING',
+    paymentMethodType: 'card',
     description: 'Mock transaction',
     createdAt: new Date(),
     updatedAt: new Date(),
@@ -1324,14 +1578,16 @@ export const generateMockTransaction = (overrides?: Partial<Transaction>): Trans
 };
 
 // Getters for mock data
+// Mutable collections read from the mock database so changes made in mock mode show up
 export const getMockUsers = (): User[] => [...mockUsers];
-export const getMockProjects = (): Project[] => [...mockProjects];
-export const getMockMilestones = (): Milestone[] => [...mockMilestones];
-export const getMockTransactions = (): Transaction[] => [...mockTransactions];
+export const getMockProjects = (): Project[] => mockDb.collections.projects.all();
+export const getMockMilestones = (): Milestone[] => mockDb.collections.milestones.all();
+export const getMockActivities = (): ProjectActivity[] => mockDb.collections.activities.all();
+export const getMockTransactions = (): Transaction[] => mockDb.collections.transactions.all();
 export const getMockInvoices = (): Invoice[] => [...mockInvoices];
 export const getMockEscrowAccounts = (): EscrowAccount[] => [...mockEscrowAccounts];
-export const getMockDisputes = (): Dispute[] => [...mockDisputes];
-export const getMockNotifications = (): Notification[] => [...mockNotifications];
+export const getMockDisputes = (): Dispute[] => mockDb.collections.disputes.all();
+export const getMockNotifications = (): Notification[] => mockDb.collections.notifications.all();
 
 // Mock communication data
 export const mockConversations: Conversation[] = [
@@ -1428,8 +1684,21 @@ export const mockMessages: Message[] = [
     senderId: 'user-2',
     senderRole: 'freelancer',
     content: 'Working on the frontend components. Should have a demo ready by next week.',
-    type: 'TEXT',
+    type: 'FILE',
     status: 'READ',
+    attachments: [
+      {
+        id: 'att-1',
+        messageId: 'msg-4',
+        fileName: 'component-library-wireframes.pdf',
+        fileType: 'application/pdf',
+        fileSize: 482133,
+        fileUrl: '/documents/component-library-wireframes.pdf',
+        isPreviewable: true,
+        uploadedAt: new Date('2024-03-05T10:15:00'),
+        createdAt: new Date('2024-03-05T10:15:00'),
+      },
+    ],
     readBy: ['user-1'],
     sentAt: new Date('2024-03-05T10:15:00'),
     createdAt: new Date('2024-03-05T10:15:00'),
@@ -1445,8 +1714,45 @@ export const mockMessages: Message[] = [
     status: 'DELIVERED',
     readBy: ['user-1'],
     sentAt: new Date('2024-03-15T16:20:00'),
+    editedAt: new Date('2024-03-15T16:24:00'),
+    editHistory: [
+      {
+        content: 'Here\'s a quick update: I\'ve completed 70% of the frontend development.',
+        editedAt: new Date('2024-03-15T16:24:00'),
+        editedBy: 'user-2',
+      },
+    ],
+    reactions: [{ emoji: '👍', userIds: ['user-1'] }],
     createdAt: new Date('2024-03-15T16:20:00'),
-    updatedAt: new Date('2024-03-15T16:20:00'),
+    updatedAt: new Date('2024-03-15T16:24:00'),
+  },
+  {
+    id: 'msg-12',
+    projectId: 'proj-1',
+    senderId: 'user-1',
+    senderRole: 'client',
+    content: 'Does that include the checkout pages from the latest deliverable?',
+    type: 'TEXT',
+    status: 'READ',
+    parentId: 'msg-5',
+    readBy: ['user-2'],
+    sentAt: new Date('2024-03-15T17:05:00'),
+    createdAt: new Date('2024-03-15T17:05:00'),
+    updatedAt: new Date('2024-03-15T17:05:00'),
+  },
+  {
+    id: 'msg-13',
+    projectId: 'proj-1',
+    senderId: 'user-2',
+    senderRole: 'freelancer',
+    content: 'Yes, checkout is done. Only the order history screens are left.',
+    type: 'TEXT',
+    status: 'DELIVERED',
+    parentId: 'msg-5',
+    readBy: [],
+    sentAt: new Date('2024-03-15T17:40:00'),
+    createdAt: new Date('2024-03-15T17:40:00'),
+    updatedAt: new Date('2024-03-15T17:40:00'),
   },
   {
     id: 'msg-6',
@@ -1532,6 +1838,34 @@ export const mockMessages: Message[] = [
   }
 ];
 
+// Who was last around on each project; the client is online, the freelancer stepped away
+export const mockPresence: (ProjectPresence & { id: string })[] = [
+  { id: 'proj-1:user-1', projectId: 'proj-1', userId: 'user-1', online: true, lastSeenAt: new Date('2024-03-16T12:00:00') },
+  { id: 'proj-1:user-2', projectId: 'proj-1', userId: 'user-2', online: false, lastSeenAt: new Date('2024-03-16T11:20:00') },
+  { id: 'proj-4:user-1', projectId: 'proj-4', userId: 'user-1', online: true, lastSeenAt: new Date('2024-01-29T10:00:00') },
+  { id: 'proj-4:user-2', projectId: 'proj-4', userId: 'user-2', online: false, lastSeenAt: new Date('2024-01-29T09:15:00') },
+];
+
 // Getters for communication mock data
-export const getMockConversations = (): Conversation[] => [...mockConversations];
-export const getMockMessages = (): Message[] => [...mockMessages];
\ No newline at end of file
+export const getMockConversations = (): Conversation[] => mockDb.collections.conversations.all();
+export const getMockMessages = (): Message[] => mockDb.collections.messages.all();
+
+// Session-scoped mock database seeded from the fixtures above.
+// reset() restores the seed, setPersistent(true) keeps changes across reloads.
+export const mockDb = new MockDatabase({
+  seed: () => ({
+    projects: mockProjects,
+    milestones: mockMilestones,
+    activities: mockActivities,
+    changeProposals: mockChangeProposals,
+    transactions: mockTransactions,
+    disputes: mockDisputes,
+    conversations: mockConversations,
+    messages: mockMessages,
+    notifications: mockNotifications,
+    presence: mockPresence,
+    disputeNotes: [] as DisputeCaseNote[],
+  }),
+});
+
+export const resetMockData = () => mockDb.reset();
\ No newline at end of file
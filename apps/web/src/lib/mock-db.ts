@@ -0,0 +1,228 @@
+// In-memory mock database used in mock mode
+// Holds mutable collections seeded from mock-data.ts so creates and updates
+// survive across requests. State can optionally be persisted to localStorage.
+
+const PERSIST_FLAG_KEY = 'mockDbPersist';
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+// Deep copy that keeps Date instances intact (seed data relies on them)
+const clone = <T>(value: T): T => {
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as any;
+  }
+  if (Array.isArray(value)) {
+    return value.map(clone) as any;
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const copy: Record<string, any> = {};
+    Object.entries(value).forEach(([key, entry]) => {
+      copy[key] = clone(entry);
+    });
+    return copy as T;
+  }
+  return value;
+};
+
+// JSON.parse reviver that turns serialized dates back into Date objects
+const reviveDates = (_key: string, value: any) =>
+  typeof value === 'string' && ISO_DATE_PATTERN.test(value) ? new Date(value) : value;
+
+const hasStorage = () => typeof window !== 'undefined' && typeof localStorage !== 'undefined';
+
+export class MockCollection<T extends Record<string, any>> {
+  private items: T[] = [];
+
+  constructor(
+    private readonly idKey: string,
+    private readonly onChange: () => void
+  ) {}
+
+  all(): T[] {
+    return [...this.items];
+  }
+
+  find(id: string): T | undefined {
+    return this.items.find(item => item[this.idKey] === id);
+  }
+
+  where(predicate: (item: T) => boolean): T[] {
+    return this.items.filter(predicate);
+  }
+
+  insert(item: T): T {
+    this.items = [...this.items, item];
+    this.onChange();
+    return item;
+  }
+
+  update(id: string, patch: Partial<T> | ((item: T) => Partial<T>)): T | undefined {
+    const existing = this.find(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const changes = typeof patch === 'function' ? patch(existing) : patch;
+    const updated = { ...existing, ...changes } as T;
+    this.items = this.items.map(item => (item === existing ? updated : item));
+    this.onChange();
+    return updated;
+  }
+
+  updateWhere(predicate: (item: T) => boolean, patch: Partial<T>): T[] {
+    const updated: T[] = [];
+    this.items = this.items.map(item => {
+      if (!predicate(item)) {
+        return item;
+      }
+      const next = { ...item, ...patch } as T;
+      updated.push(next);
+      return next;
+    });
+    if (updated.length > 0) {
+      this.onChange();
+    }
+    return updated;
+  }
+
+  remove(id: string): boolean {
+    const before = this.items.length;
+    this.items = this.items.filter(item => item[this.idKey] !== id);
+    const removed = this.items.length !== before;
+    if (removed) {
+      this.onChange();
+    }
+    return removed;
+  }
+
+  // Used by reset/seed and when hydrating from storage; does not notify
+  load(items: T[]): void {
+    this.items = clone(items);
+  }
+}
+
+type Collections<S extends Record<string, any[]>> = {
+  [K in keyof S]: MockCollection<S[K][number]>;
+};
+
+export interface MockDatabaseOptions<S extends Record<string, any[]>> {
+  // Produces the initial data set; called on creation and on every reset
+  seed: () => S;
+  // Primary key per collection, defaults to `id`
+  idKeys?: Partial<Record<keyof S, string>>;
+  storageKey?: string;
+}
+
+export class MockDatabase<S extends Record<string, any[]>> {
+  readonly collections: Collections<S>;
+  private listeners = new Set<() => void>();
+  private readonly storageKey: string;
+
+  constructor(private readonly options: MockDatabaseOptions<S>) {
+    this.storageKey = options.storageKey || 'mockDbState';
+
+    const seedData = options.seed();
+    const collections = {} as Collections<S>;
+    (Object.keys(seedData) as (keyof S)[]).forEach((name) => {
+      collections[name] = new MockCollection(
+        (options.idKeys?.[name] as string) || 'id',
+        () => this.handleChange()
+      );
+    });
+    this.collections = collections;
+
+    if (!this.hydrate()) {
+      this.loadData(seedData);
+    }
+  }
+
+  // Restore every collection to the seed data and drop any persisted state
+  reset(): void {
+    this.loadData(this.options.seed());
+    if (hasStorage()) {
+      localStorage.removeItem(this.storageKey);
+    }
+    this.notify();
+  }
+
+  // Replace some or all collections with the given data
+  seed(data: Partial<S>): void {
+    this.loadData(data);
+    this.handleChange();
+  }
+
+  isPersistent(): boolean {
+    return hasStorage() && localStorage.getItem(PERSIST_FLAG_KEY) === 'true';
+  }
+
+  setPersistent(enabled: boolean): void {
+    if (!hasStorage()) {
+      return;
+    }
+    if (enabled) {
+      localStorage.setItem(PERSIST_FLAG_KEY, 'true');
+      this.save();
+    } else {
+      localStorage.removeItem(PERSIST_FLAG_KEY);
+      localStorage.removeItem(this.storageKey);
+    }
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  snapshot(): S {
+    const data = {} as S;
+    (Object.keys(this.collections) as (keyof S)[]).forEach((name) => {
+      data[name] = this.collections[name].all() as S[keyof S];
+    });
+    return data;
+  }
+
+  private loadData(data: Partial<S>): void {
+    (Object.keys(data) as (keyof S)[]).forEach((name) => {
+      this.collections[name]?.load(data[name] || []);
+    });
+  }
+
+  private handleChange(): void {
+    if (this.isPersistent()) {
+      this.save();
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.snapshot()));
+    } catch (error) {
+      console.warn('Could not persist mock database:', error);
+    }
+  }
+
+  private hydrate(): boolean {
+    if (!this.isPersistent()) {
+      return false;
+    }
+
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (!stored) {
+        return false;
+      }
+      // Overlay on the seed so collections added after the state was saved still get data
+      this.loadData({ ...this.options.seed(), ...JSON.parse(stored, reviveDates) });
+      return true;
+    } catch (error) {
+      console.warn('Could not restore mock database, falling back to seed data:', error);
+      return false;
+    }
+  }
+}
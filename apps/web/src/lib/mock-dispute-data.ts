@@ -3,7 +3,7 @@ import { Dispute } from '@/types';
 // Enhanced mock dispute data for the dispute page
 export const mockDisputeData: Dispute[] = [
   {
-    _id: 'disp-001',
+    id: 'disp-001',
     project: 'proj-1',
     milestone: 'ms-1',
     raisedBy: 'user-1',
@@ -30,6 +30,7 @@ export const mockDisputeData: Dispute[] = [
     ],
     status: 'PENDING_REVIEW',
     resolutionPhase: 'REVIEW',
+    phaseStartedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
     aiAnalysis: {
       confidenceScore: 0.75,
       keyIssues: ['Design specification mismatch', 'Quality concerns'],
@@ -43,20 +44,20 @@ export const mockDisputeData: Dispute[] = [
       {
         sender: 'user-1',
         content: 'The delivered work does not match the design specifications we agreed upon. Please review the attached documents showing the discrepancies.',
-        sentAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString() // 3 days ago
+        sentAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000) // 3 days ago
       },
       {
         sender: 'user-3',
         content: 'I understand your concerns. I will review the specifications and provide a detailed response within 24 hours.',
-        sentAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString() // 2 days ago
+        sentAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000) // 2 days ago
       }
     ],
     disputeFeePaid: true,
-    createdAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString()
+    createdAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000),
+    updatedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000)
   },
   {
-    _id: 'disp-002',
+    id: 'disp-002',
     project: 'proj-2',
     milestone: 'ms-5',
     raisedBy: 'user-2',
@@ -77,6 +78,7 @@ export const mockDisputeData: Dispute[] = [
     ],
     status: 'IN_MEDIATION',
     resolutionPhase: 'MEDIATION',
+    phaseStartedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
     aiAnalysis: {
       confidenceScore: 0.90,
       keyIssues: ['Payment processing delay', 'Completed work verification'],
@@ -90,25 +92,25 @@ export const mockDisputeData: Dispute[] = [
       {
         sender: 'user-2',
         content: 'I completed the milestone and received approval from the client, but the payment has not been processed after 7 days.',
-        sentAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'user-1',
         content: 'I approved the work but there was a system issue that prevented payment processing. Working with support to resolve.',
-        sentAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'user-4',
         content: 'I will mediate this dispute and ensure payment is processed within 48 hours.',
-        sentAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000)
       }
     ],
     disputeFeePaid: true,
-    createdAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString()
+    createdAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000),
+    updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000)
   },
   {
-    _id: 'disp-003',
+    id: 'disp-003',
     project: 'proj-3',
     milestone: 'ms-3',
     raisedBy: 'user-3',
@@ -129,6 +131,7 @@ export const mockDisputeData: Dispute[] = [
     ],
     status: 'RESOLVED',
     resolutionPhase: 'RESOLVED',
+    phaseStartedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
     aiAnalysis: {
       confidenceScore: 0.85,
       keyIssues: ['Scope creep', 'Additional requirements'],
@@ -143,32 +146,32 @@ export const mockDisputeData: Dispute[] = [
       amountToClient: 0,
       decisionReason: 'Original scope completed as agreed, additional work outside contract',
       decidedBy: 'admin-1',
-      decidedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
+      decidedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
       aiRecommended: true
     },
     messages: [
       {
         sender: 'user-3',
         content: 'Client requested multiple features not included in the original contract. This is scope creep.',
-        sentAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'user-5',
         content: 'I believe these features are necessary for the project to function as intended.',
-        sentAt: new Date(Date.now() - 9 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 9 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'admin-1',
         content: 'After review, the original scope was completed. Additional features require a new agreement.',
-        sentAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000)
       }
     ],
     disputeFeePaid: true,
-    createdAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
+    createdAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000),
+    updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000)
   },
   {
-    _id: 'disp-004',
+    id: 'disp-004',
     project: 'proj-4',
     milestone: 'ms-7',
     raisedBy: 'user-6',
@@ -189,6 +192,7 @@ export const mockDisputeData: Dispute[] = [
     ],
     status: 'ESCALATED',
     resolutionPhase: 'ESCALATION',
+    phaseStartedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
     aiAnalysis: {
       confidenceScore: 0.65,
       keyIssues: ['Timeline delays', 'Client responsiveness'],
@@ -202,25 +206,25 @@ export const mockDisputeData: Dispute[] = [
       {
         sender: 'user-6',
         content: 'I need a timeline extension due to delays in receiving required materials from the client.',
-        sentAt: new Date(Date.now() - 4 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 4 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'user-8',
         content: 'I disagree with the timeline extension request. The materials were provided on time.',
-        sentAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'user-7',
         content: 'Escalating to senior arbitrator for final decision.',
-        sentAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000)
       }
     ],
     disputeFeePaid: true,
-    createdAt: new Date(Date.now() - 4 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString()
+    createdAt: new Date(Date.now() - 4 * 24 * 60 * 60 * 1000),
+    updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000)
   },
   {
-    _id: 'disp-005',
+    id: 'disp-005',
     project: 'proj-5',
     milestone: 'ms-9',
     raisedBy: 'user-9',
@@ -241,6 +245,7 @@ export const mockDisputeData: Dispute[] = [
     ],
     status: 'IN_ARBITRATION',
     resolutionPhase: 'ARBITRATION',
+    phaseStartedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
     aiAnalysis: {
       confidenceScore: 0.80,
       keyIssues: ['Code quality', 'Bugs and errors'],
@@ -254,25 +259,25 @@ export const mockDisputeData: Dispute[] = [
       {
         sender: 'user-9',
         content: 'The delivered code has multiple bugs and quality issues. Please review the attached bug report.',
-        sentAt: new Date(Date.now() - 6 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 6 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'user-10',
         content: 'I acknowledge the issues and am working on fixes. Will provide updated code within 48 hours.',
-        sentAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'admin-2',
         content: 'Case moved to arbitration for final decision on quality standards.',
-        sentAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000)
       }
     ],
     disputeFeePaid: true,
-    createdAt: new Date(Date.now() - 6 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString()
+    createdAt: new Date(Date.now() - 6 * 24 * 60 * 60 * 1000),
+    updatedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000)
   },
   {
-    _id: 'disp-006',
+    id: 'disp-006',
     project: 'proj-6',
     milestone: 'ms-12',
     raisedBy: 'user-11',
@@ -293,6 +298,7 @@ export const mockDisputeData: Dispute[] = [
     ],
     status: 'AWAITING_OUTCOME',
     resolutionPhase: 'AWAITING_DECISION',
+    phaseStartedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
     aiAnalysis: {
       confidenceScore: 0.70,
       keyIssues: ['Deliverable completion', 'Payment obligation'],
@@ -306,25 +312,25 @@ export const mockDisputeData: Dispute[] = [
       {
         sender: 'user-11',
         content: 'I have completed all agreed deliverables. Payment is overdue.',
-        sentAt: new Date(Date.now() - 9 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 9 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'user-12',
         content: 'Some deliverables are incomplete and do not meet our standards.',
-        sentAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'admin-3',
         content: 'Currently reviewing all deliverables and will issue decision within 48 hours.',
-        sentAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000)
       }
     ],
     disputeFeePaid: true,
-    createdAt: new Date(Date.now() - 9 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString()
+    createdAt: new Date(Date.now() - 9 * 24 * 60 * 60 * 1000),
+    updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000)
   },
   {
-    _id: 'disp-007',
+    id: 'disp-007',
     project: 'proj-7',
     milestone: 'ms-4',
     raisedBy: 'user-13',
@@ -345,6 +351,7 @@ export const mockDisputeData: Dispute[] = [
     ],
     status: 'PENDING_FEE',
     resolutionPhase: 'INITIAL',
+    phaseStartedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
     aiAnalysis: null,
     mediator: null,
     arbitrator: null,
@@ -353,15 +360,15 @@ export const mockDisputeData: Dispute[] = [
       {
         sender: 'user-13',
         content: 'Freelancer has not responded to messages for 5 days and has not completed the agreed work.',
-        sentAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000)
       }
     ],
     disputeFeePaid: false,
-    createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
+    createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
+    updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000)
   },
   {
-    _id: 'disp-008',
+    id: 'disp-008',
     project: 'proj-8',
     milestone: 'ms-15',
     raisedBy: 'user-14',
@@ -382,6 +389,7 @@ export const mockDisputeData: Dispute[] = [
     ],
     status: 'SELF_RESOLUTION',
     resolutionPhase: 'NEGOTIATION',
+    phaseStartedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
     aiAnalysis: {
       confidenceScore: 0.60,
       keyIssues: ['Scope changes', 'Project requirements'],
@@ -395,17 +403,17 @@ export const mockDisputeData: Dispute[] = [
       {
         sender: 'user-14',
         content: 'The project scope has changed significantly from the original agreement. Need to discuss revised terms.',
-        sentAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000)
       },
       {
         sender: 'user-15',
         content: 'Agreed. Let\'s schedule a call to discuss the new scope and timeline.',
-        sentAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString()
+        sentAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000)
       }
     ],
     disputeFeePaid: true,
-    createdAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString()
+    createdAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
+    updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000)
   }
 ];
 
@@ -437,4 +445,4 @@ export const getDisputesByStatus = (status: string): Dispute[] =>
 
 // Export a function to get a single dispute by ID
 export const getMockDisputeById = (id: string): Dispute | undefined => 
-  mockDisputeData.find(dispute => dispute._id === id);
\ No newline at end of file
+  mockDisputeData.find(dispute => dispute.id === id);
\ No newline at end of file
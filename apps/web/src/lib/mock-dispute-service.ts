@@ -1,5 +1,22 @@
-import { Dispute } from '@/types';
-import { getMockDisputes } from './mock-data';
+import { Dispute, DisputeCaseNote, DisputeEvidenceBundle } from '@/types';
+import { getMockDisputes, getMockMilestones, getMockProjects, mockDb } from './mock-data';
+import { applyTransition, DISPUTE_TRANSITIONS, DisputeAction, DisputeActor, DisputeTransitionPayload } from './disputeLifecycle';
+import { assignmentOf } from './arbitratorWorkspace';
+import {
+  AppealReview,
+  AppealReviewerCandidate,
+  AppealSettlementContext,
+  appealEligibility,
+  appealFeeTransaction,
+  assignAppealReviewer,
+  createAppeal,
+  reviewAppeal,
+} from './disputeAppeal';
+import { Money } from './money';
+import { FrontendError } from './utils/errorHandler';
+
+// The arbitrators the mock disputes are assigned to
+const MOCK_ARBITRATORS = ['admin-1', 'admin-2', 'admin-3'];
 
 // Mock dispute service for the dispute page
 export class MockDisputeService {
@@ -24,11 +41,36 @@ export class MockDisputeService {
     return disputes;
   }
 
+  // Cases a mediator or arbitrator has to act on
+  async getAssignedDisputes(arbitratorId: string): Promise<Dispute[]> {
+    return getMockDisputes().filter(dispute => assignmentOf(dispute, arbitratorId));
+  }
+
+  // A neutral's private notes on a case, oldest first
+  async getCaseNotes(disputeId: string, authorId: string): Promise<DisputeCaseNote[]> {
+    return mockDb.collections.disputeNotes
+      .where(note => note.disputeId === disputeId && note.authorId === authorId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async addCaseNote(disputeId: string, authorId: string, body: string): Promise<DisputeCaseNote> {
+    if (!body.trim()) {
+      throw new FrontendError('A note cannot be empty', 400, { disputeId });
+    }
+    return mockDb.collections.disputeNotes.insert({
+      id: `note-${Date.now()}`,
+      disputeId,
+      authorId,
+      body: body.trim(),
+      createdAt: new Date(),
+    });
+  }
+
   // Get a single dispute by ID
   async getDisputeById(disputeId: string): Promise<Dispute | null> {
     // In a real app, this would make an API call
     const disputes = getMockDisputes();
-    const dispute = disputes.find(d => d._id === disputeId);
+    const dispute = disputes.find(d => d.id === disputeId);
     return dispute || null;
   }
 
@@ -37,7 +79,7 @@ export class MockDisputeService {
     // In a real app, this would make an API call
     // For now, create a new dispute with mock data
     const newDispute: Dispute = {
-      _id: `disp-${Date.now()}`,
+      id: `disp-${Date.now()}`,
       project: disputeData.project || 'proj-unknown',
       milestone: disputeData.milestone || 'ms-unknown',
       raisedBy: disputeData.raisedBy || 'user-unknown',
@@ -45,6 +87,7 @@ export class MockDisputeService {
       evidence: disputeData.evidence || [],
       status: 'PENDING_FEE',
       resolutionPhase: 'INITIAL',
+      phaseStartedAt: new Date(),
       aiAnalysis: null,
       mediator: null,
       arbitrator: null,
@@ -53,22 +96,22 @@ export class MockDisputeService {
         {
           sender: disputeData.raisedBy || 'user-unknown',
           content: `Dispute created: ${disputeData.reason || 'New dispute'}`,
-          sentAt: new Date().toISOString()
+          sentAt: new Date()
         }
       ],
       disputeFeePaid: false,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
+      createdAt: new Date(),
+      updatedAt: new Date()
     };
     
-    return newDispute;
+    return mockDb.collections.disputes.insert(newDispute);
   }
 
   // Submit evidence for a dispute
   async submitEvidence(disputeId: string, evidenceData: any): Promise<Dispute> {
     // In a real app, this would make an API call
     const disputes = getMockDisputes();
-    const dispute = disputes.find(d => d._id === disputeId);
+    const dispute = disputes.find(d => d.id === disputeId);
     
     if (!dispute) {
       throw new Error(`Dispute with ID ${disputeId} not found`);
@@ -91,20 +134,56 @@ export class MockDisputeService {
         {
           sender: 'current-user', // This would be the actual user ID
           content: `Submitted evidence: ${evidenceData.description || 'New evidence'}`,
-          sentAt: new Date().toISOString()
+          sentAt: new Date()
         }
       ],
-      updatedAt: new Date().toISOString()
+      updatedAt: new Date()
     };
     
+    mockDb.collections.disputes.update(disputeId, updatedDispute as Dispute);
+    return updatedDispute as Dispute;
+  }
+
+  // Attach a packaged evidence bundle; its items are listed alongside loose files
+  async submitEvidenceBundle(disputeId: string, bundle: DisputeEvidenceBundle): Promise<Dispute> {
+    const dispute = await this.getDisputeById(disputeId);
+    
+    if (!dispute) {
+      throw new Error(`Dispute with ID ${disputeId} not found`);
+    }
+    
+    const updatedDispute: Dispute = {
+      ...dispute,
+      evidence: [
+        ...(dispute.evidence || []),
+        ...bundle.items.map(item => ({
+          filename: `${item.metadata?.ref} ${item.description}`,
+          url: item.fileUrl,
+          type: item.evidenceType,
+          uploadedBy: bundle.submittedBy
+        }))
+      ],
+      evidenceBundles: [...(dispute.evidenceBundles || []), bundle],
+      messages: [
+        ...(dispute.messages || []),
+        {
+          sender: bundle.submittedBy,
+          content: `Submitted evidence bundle ${bundle.id} (${bundle.items.length} items)${bundle.description ? `: ${bundle.description}` : ''}`,
+          sentAt: new Date(bundle.createdAt)
+        }
+      ],
+      updatedAt: new Date()
+    };
+    
+    mockDb.collections.disputes.update(disputeId, updatedDispute);
     return updatedDispute;
   }
 
   // Pay dispute fee
-  async payDisputeFee(disputeId: string): Promise<Dispute> {
+  async payDisputeFee(disputeId: string, actor: DisputeActor = 'client'): Promise<Dispute> {
     // In a real app, this would make an API call
     const disputes = getMockDisputes();
-    const dispute = disputes.find(d => d._id === disputeId);
+    const dispute = disputes.find(d => d.id === disputeId);
     
     if (!dispute) {
       throw new Error(`Dispute with ID ${disputeId} not found`);
@@ -112,48 +191,168 @@ export class MockDisputeService {
     
     // Update dispute status and fee payment status
     const updatedDispute = {
-      ...dispute,
+      ...applyTransition(dispute, 'PAY_FEE', actor, { feePaid: true }),
       disputeFeePaid: true,
-      status: 'PENDING_REVIEW',
       messages: [
         ...(dispute.messages || []),
         {
           sender: 'system',
           content: 'Dispute fee paid successfully. Case moved to review phase.',
-          sentAt: new Date().toISOString()
+          sentAt: new Date()
         }
       ],
-      updatedAt: new Date().toISOString()
     };
     
+    mockDb.collections.disputes.update(disputeId, updatedDispute as Dispute);
+    return updatedDispute as Dispute;
+  }
+
+  // Submit appeal for a dispute; the fee is charged with the submission and the
+  // appeal goes to an arbitrator who did not decide the original case
+  async submitAppeal(
+    disputeId: string,
+    appealData: { reason: string; evidence?: File[]; appellantId?: string },
+    actor: DisputeActor = 'client'
+  ): Promise<Dispute> {
+    const dispute = await this.getDisputeById(disputeId);
+    
+    if (!dispute) {
+      throw new Error(`Dispute with ID ${disputeId} not found`);
+    }
+    if (actor !== 'client' && actor !== 'freelancer') {
+      throw new FrontendError('Only the parties to a dispute can appeal it', 403, { actor });
+    }
+    
+    const eligibility = appealEligibility(dispute, actor, this.disputedAmount(dispute));
+    if (!eligibility.eligible || !eligibility.fee) {
+      throw new FrontendError(eligibility.reason || 'This dispute cannot be appealed', 409, { disputeId });
+    }
+    
+    const appellantId = appealData.appellantId || 'current-user';
+    const feeTransaction = appealFeeTransaction(eligibility.fee, appellantId, { ...this.settlementContext(dispute), disputeId });
+    const appealed = createAppeal(dispute, {
+      appellant: actor,
+      appellantId,
+      reason: appealData.reason,
+      evidence: (appealData.evidence || []).map(file => ({ filename: file.name, type: file.type })),
+      fee: eligibility.fee,
+      feePaid: true,
+      feeTransactionId: feeTransaction.id,
+      reviewerId: assignAppealReviewer(dispute, this.arbitratorWorkloads()),
+    });
+    mockDb.collections.transactions.insert(feeTransaction);
+    const updatedDispute: Dispute = {
+      ...appealed,
+      messages: [
+        ...(dispute.messages || []),
+        {
+          sender: appellantId,
+          content: `Submitted appeal (fee ${eligibility.fee.format()}): ${appealData.reason}`,
+          sentAt: new Date()
+        }
+      ],
+    };
+    
+    mockDb.collections.disputes.update(disputeId, updatedDispute);
     return updatedDispute;
   }
 
-  // Submit appeal for a dispute
-  async submitAppeal(disputeId: string, appealData: any): Promise<Dispute> {
-    // In a real app, this would make an API call
+  // Decide the pending appeal; a revised outcome books the compensating transactions
+  async reviewAppeal(disputeId: string, review: AppealReview): Promise<Dispute> {
+    const dispute = await this.getDisputeById(disputeId);
+    
+    if (!dispute) {
+      throw new Error(`Dispute with ID ${disputeId} not found`);
+    }
+    
+    const result = reviewAppeal(dispute, review, this.settlementContext(dispute));
+    result.transactions.forEach(transaction => mockDb.collections.transactions.insert(transaction));
+    
+    const updatedDispute: Dispute = {
+      ...result.dispute,
+      messages: [
+        ...(dispute.messages || []),
+        {
+          sender: review.reviewerId,
+          content: `Appeal ${result.appeal.outcome?.toLowerCase()}: ${review.decisionReason}`,
+          sentAt: new Date()
+        }
+      ],
+    };
+    
+    mockDb.collections.disputes.update(disputeId, updatedDispute);
+    return updatedDispute;
+  }
+
+  // Who the appeal's money moves between; settling against an unknown party would misbook it
+  private settlementContext(dispute: Dispute): AppealSettlementContext {
+    const projectId = typeof dispute.project === 'string' ? dispute.project : dispute.project.id;
+    const project = getMockProjects().find(candidate => candidate.id === projectId);
+    if (!project?.clientId || !project.freelancerId) {
+      throw new FrontendError('The parties to this dispute could not be resolved', 409, { disputeId: dispute.id, projectId });
+    }
+    return {
+      projectId,
+      milestoneId: typeof dispute.milestone === 'string' ? dispute.milestone : dispute.milestone.id,
+      clientId: project.clientId,
+      freelancerId: project.freelancerId,
+      currency: this.disputedAmount(dispute).currency,
+    };
+  }
+
+  // The milestone under dispute, or what the resolution divided when it is unknown
+  private disputedAmount(dispute: Dispute): Money {
+    const milestoneId = typeof dispute.milestone === 'string' ? dispute.milestone : dispute.milestone.id;
+    const milestone = getMockMilestones().find(candidate => candidate.id === milestoneId);
+    if (milestone) {
+      return Money.fromMinor(milestone.amount, milestone.currency || 'USD');
+    }
+    return Money.fromMinor((dispute.resolution?.amountToClient || 0) + (dispute.resolution?.amountToFreelancer || 0));
+  }
+
+  // Open cases and pending appeal reviews per arbitrator
+  private arbitratorWorkloads(): AppealReviewerCandidate[] {
     const disputes = getMockDisputes();
-    const dispute = disputes.find(d => d._id === disputeId);
+    return MOCK_ARBITRATORS.map(id => ({
+      id,
+      openCases: disputes.filter(dispute =>
+        (dispute.arbitrator === id && dispute.status !== 'RESOLVED')
+        || dispute.appeals?.some(appeal => appeal.reviewerId === id && appeal.status === 'PENDING_REVIEW')
+      ).length,
+    }));
+  }
+
+  // Move a dispute through the lifecycle; illegal transitions throw
+  async transitionDispute(
+    disputeId: string,
+    action: DisputeAction,
+    actor: DisputeActor,
+    payload: DisputeTransitionPayload = {}
+  ): Promise<Dispute> {
+    const dispute = await this.getDisputeById(disputeId);
     
     if (!dispute) {
       throw new Error(`Dispute with ID ${disputeId} not found`);
     }
     
-    // Update dispute with appeal information
-    const updatedDispute = {
-      ...dispute,
-      status: 'ESCALATED',
+    const next = applyTransition(dispute, action, actor, payload);
+    const label = DISPUTE_TRANSITIONS.find(transition => transition.action === action)?.label || action;
+    const updatedDispute: Dispute = {
+      ...next,
+      disputeFeePaid: payload.feePaid || dispute.disputeFeePaid,
+      resolution: (payload.resolution as Dispute['resolution']) || dispute.resolution,
       messages: [
         ...(dispute.messages || []),
         {
-          sender: 'current-user', // This would be the actual user ID
-          content: `Submitted appeal: ${appealData.reason}`,
-          sentAt: new Date().toISOString()
+          sender: 'system',
+          content: `${label} (${actor})${payload.reason ? `: ${payload.reason}` : ''}`,
+          sentAt: new Date()
         }
       ],
-      updatedAt: new Date().toISOString()
+      updatedAt: new Date()
     };
     
+    mockDb.collections.disputes.update(disputeId, updatedDispute);
     return updatedDispute;
   }
 
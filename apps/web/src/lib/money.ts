@@ -0,0 +1,235 @@
+import { FrontendError } from './utils/errorHandler';
+
+// Money value type. Amounts are stored as integer minor units (cents, satoshis,
+// yen) so sums and splits never pick up floating-point drift; conversion to and
+// from major units only happens at the edges (form inputs and display).
+
+// Minor-unit exponents that differ from the default of 2
+export const CURRENCY_EXPONENTS: Record<string, number> = {
+  JPY: 0,
+  KRW: 0,
+  VND: 0,
+  CLP: 0,
+  ISK: 0,
+  BHD: 3,
+  KWD: 3,
+  OMR: 3,
+  JOD: 3,
+  TND: 3,
+  BTC: 8,
+  // ETH natively has 18 decimals, which overflows safe integers; 8 is plenty for escrow amounts
+  ETH: 8,
+  USDT: 6,
+  USDC: 6,
+};
+
+const DEFAULT_EXPONENT = 2;
+
+export type RoundingMode = 'half-up' | 'half-even' | 'down';
+
+export interface MoneyJSON {
+  amount: number;
+  currency: string;
+}
+
+export const getCurrencyExponent = (currency: string): number =>
+  CURRENCY_EXPONENTS[currency.toUpperCase()] ?? DEFAULT_EXPONENT;
+
+// Rounds to an integer; `half-up` rounds halves away from zero
+const round = (value: number, mode: RoundingMode): number => {
+  // Strip representation noise such as 1.005 * 100 = 100.49999999999999
+  const cleaned = Number(value.toPrecision(15));
+  const sign = cleaned < 0 ? -1 : 1;
+  const absolute = Math.abs(cleaned);
+
+  switch (mode) {
+    case 'down':
+      return sign * Math.floor(absolute);
+    case 'half-even': {
+      const floor = Math.floor(absolute);
+      const fraction = absolute - floor;
+      if (fraction === 0.5) {
+        return sign * (floor % 2 === 0 ? floor : floor + 1);
+      }
+      return sign * Math.round(absolute);
+    }
+    default:
+      return sign * Math.round(absolute);
+  }
+};
+
+export class Money {
+  private constructor(
+    readonly amount: number,
+    readonly currency: string
+  ) {}
+
+  static fromMinor(amount: number, currency: string = 'USD'): Money {
+    if (!Number.isSafeInteger(amount)) {
+      throw new FrontendError(`Money amounts must be integer minor units, got ${amount}`, undefined, { amount, currency });
+    }
+    return new Money(amount === 0 ? 0 : amount, currency.toUpperCase());
+  }
+
+  // For arithmetic on amounts read from API records or half-filled forms, which
+  // can be missing or fractional. To display an amount that may be unknown use
+  // formatMinor, which shows "—" rather than a misleading zero
+  static fromMinorOrZero(amount: number | null | undefined, currency: string = 'USD'): Money {
+    return Money.fromMinor(Number.isFinite(amount) ? Math.round(amount as number) : 0, currency);
+  }
+
+  // Parses user input such as 12.5 or "1,250.75" given in major units
+  static fromMajor(value: number | string, currency: string = 'USD', rounding: RoundingMode = 'half-up'): Money {
+    const numeric = typeof value === 'string' ? Number(value.replace(/[,\s]/g, '')) : value;
+    if (!Number.isFinite(numeric)) {
+      throw new FrontendError(`Invalid amount: ${value}`, undefined, { value, currency });
+    }
+    return Money.fromMinor(round(numeric * 10 ** getCurrencyExponent(currency), rounding), currency);
+  }
+
+  static fromJSON(json: MoneyJSON): Money {
+    return Money.fromMinor(json.amount, json.currency);
+  }
+
+  static zero(currency: string = 'USD'): Money {
+    return new Money(0, currency.toUpperCase());
+  }
+
+  static sum(values: Money[], currency: string = values[0]?.currency || 'USD'): Money {
+    return values.reduce((total, value) => total.add(value), Money.zero(currency));
+  }
+
+  get exponent(): number {
+    return getCurrencyExponent(this.currency);
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.fromMinor(this.amount + other.amount, this.currency);
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.fromMinor(this.amount - other.amount, this.currency);
+  }
+
+  multiply(factor: number, rounding: RoundingMode = 'half-up'): Money {
+    return Money.fromMinor(round(this.amount * factor, rounding), this.currency);
+  }
+
+  // e.g. a 5% platform fee: budget.percentage(5)
+  percentage(percent: number, rounding: RoundingMode = 'half-up'): Money {
+    return this.multiply(percent / 100, rounding);
+  }
+
+  // Splits by ratio without losing a minor unit: shares are floored and the
+  // remainder goes one unit at a time to the largest fractional parts (ties to
+  // the earliest share), so the result always sums back to this amount.
+  allocate(ratios: number[]): Money[] {
+    if (ratios.length === 0 || ratios.some(ratio => ratio < 0 || !Number.isFinite(ratio))) {
+      throw new FrontendError('Allocation ratios must be non-negative numbers', undefined, { ratios });
+    }
+    const totalRatio = ratios.reduce((sum, ratio) => sum + ratio, 0);
+    if (totalRatio <= 0) {
+      throw new FrontendError('Allocation ratios must not all be zero', undefined, { ratios });
+    }
+
+    const sign = this.amount < 0 ? -1 : 1;
+    const absolute = Math.abs(this.amount);
+    const exact = ratios.map(ratio => (absolute * ratio) / totalRatio);
+    const shares = exact.map(value => Math.floor(Number(value.toPrecision(15))));
+    let remainder = absolute - shares.reduce((sum, share) => sum + share, 0);
+
+    const order = exact
+      .map((value, index) => ({ index, fraction: value - shares[index] }))
+      .filter(({ index }) => ratios[index] > 0)
+      .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+    for (let i = 0; remainder > 0; i = (i + 1) % order.length, remainder--) {
+      shares[order[i].index] += 1;
+    }
+
+    return shares.map(share => Money.fromMinor(sign * share, this.currency));
+  }
+
+  // Equal parts, with earlier parts absorbing the leftover minor units
+  split(parts: number): Money[] {
+    if (!Number.isInteger(parts) || parts <= 0) {
+      throw new FrontendError(`Cannot split money into ${parts} parts`, undefined, { parts });
+    }
+    return this.allocate(Array.from({ length: parts }, () => 1));
+  }
+
+  negate(): Money {
+    return Money.fromMinor(-this.amount, this.currency);
+  }
+
+  isZero(): boolean {
+    return this.amount === 0;
+  }
+
+  isPositive(): boolean {
+    return this.amount > 0;
+  }
+
+  isNegative(): boolean {
+    return this.amount < 0;
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.amount === other.amount;
+  }
+
+  compare(other: Money): -1 | 0 | 1 {
+    this.assertSameCurrency(other);
+    return this.amount === other.amount ? 0 : this.amount > other.amount ? 1 : -1;
+  }
+
+  greaterThan(other: Money): boolean {
+    return this.compare(other) > 0;
+  }
+
+  lessThan(other: Money): boolean {
+    return this.compare(other) < 0;
+  }
+
+  // Major units as a number; only for display and form inputs
+  toMajor(): number {
+    return this.amount / 10 ** this.exponent;
+  }
+
+  // Exact decimal string in major units, e.g. "1250.50" or "0.00012000"
+  toDecimalString(): string {
+    const digits = Math.abs(this.amount).toString().padStart(this.exponent + 1, '0');
+    const whole = this.exponent > 0 ? digits.slice(0, -this.exponent) : digits;
+    const fraction = this.exponent > 0 ? `.${digits.slice(-this.exponent)}` : '';
+    return `${this.amount < 0 ? '-' : ''}${whole}${fraction}`;
+  }
+
+  format(locale: string = 'en-US'): string {
+    const options = { minimumFractionDigits: this.exponent, maximumFractionDigits: this.exponent };
+    try {
+      return new Intl.NumberFormat(locale, { ...options, style: 'currency', currency: this.currency }).format(this.toMajor());
+    } catch {
+      // Codes Intl does not know as currencies (USDT, USDC)
+      return `${new Intl.NumberFormat(locale, options).format(this.toMajor())} ${this.currency}`;
+    }
+  }
+
+  toJSON(): MoneyJSON {
+    return { amount: this.amount, currency: this.currency };
+  }
+
+  toString(): string {
+    return `${this.toDecimalString()} ${this.currency}`;
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new FrontendError(
+        `Cannot combine ${this.currency} with ${other.currency}; convert first`,
+        undefined,
+        { currencies: [this.currency, other.currency] }
+      );
+    }
+  }
+}
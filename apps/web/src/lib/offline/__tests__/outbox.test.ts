@@ -0,0 +1,142 @@
+import { Outbox, MemoryOutboxStorage, isNetworkError, outbox } from '../outbox';
+import { useProjectStore } from '../../store/projectStore';
+import { useMessagingStore } from '../../store/messagingStore';
+import { projectService } from '../../api/projectService';
+import { messagingService } from '../../api/messagingService';
+import { FrontendError } from '../../utils/errorHandler';
+
+const networkError = { message: 'Network error. Please check your connection.' };
+const conflictError = { message: 'Milestone already approved', status: 409 };
+
+describe('Outbox', () => {
+  it('should replay entries oldest first with their idempotency keys', async () => {
+    const box = new Outbox(new MemoryOutboxStorage());
+    const replay = jest.fn().mockResolvedValue({ ok: true });
+    box.register('message.send', { replay });
+
+    const first = await box.enqueue('message.send', { n: 1 }, { label: 'first' });
+    const second = await box.enqueue('message.send', { n: 2 }, { label: 'second' });
+    await box.flush();
+
+    expect(replay.mock.calls).toEqual([[{ n: 1 }, first.id], [{ n: 2 }, second.id]]);
+    expect(box.getEntries()).toEqual([]);
+  });
+
+  it('should stop at a network failure and keep the remaining entries queued', async () => {
+    const box = new Outbox(new MemoryOutboxStorage());
+    const replay = jest.fn().mockRejectedValueOnce(networkError).mockResolvedValue({});
+    box.register('message.send', { replay });
+
+    await box.enqueue('message.send', { n: 1 }, { label: 'first' });
+    await box.enqueue('message.send', { n: 2 }, { label: 'second' });
+    await box.flush();
+
+    expect(replay).toHaveBeenCalledTimes(1);
+    expect(box.getEntries().map(entry => [entry.status, entry.attempts])).toEqual([['pending', 1], ['pending', 0]]);
+
+    await box.flush();
+    expect(box.getEntries()).toEqual([]);
+  });
+
+  it('should mark 409 responses as conflicts and carry on with the queue', async () => {
+    const box = new Outbox(new MemoryOutboxStorage());
+    const onRejected = jest.fn();
+    const onSynced = jest.fn();
+    box.register('milestone.approve', {
+      replay: jest.fn().mockRejectedValueOnce(conflictError).mockResolvedValue({ id: 'm2' }),
+      onRejected,
+      onSynced,
+    });
+
+    await box.enqueue('milestone.approve', { milestoneId: 'm1' }, { label: 'Approve m1' });
+    await box.enqueue('milestone.approve', { milestoneId: 'm2' }, { label: 'Approve m2' });
+    await box.flush();
+
+    expect(onRejected).toHaveBeenCalledWith({ milestoneId: 'm1' }, conflictError);
+    expect(onSynced).toHaveBeenCalledWith({ milestoneId: 'm2' }, { id: 'm2' });
+    expect(box.getEntries()).toEqual([
+      expect.objectContaining({ status: 'conflict', label: 'Approve m1', error: 'Milestone already approved' }),
+    ]);
+  });
+
+  it('should restore persisted entries on start', async () => {
+    const storage = new MemoryOutboxStorage();
+    await new Outbox(storage).enqueue('message.send', { n: 1 }, { label: 'saved' });
+
+    const restored = new Outbox(storage);
+    const replay = jest.fn().mockResolvedValue({});
+    restored.register('message.send', { replay });
+    await restored.start();
+
+    expect(replay).toHaveBeenCalledWith({ n: 1 }, expect.any(String));
+    expect(await storage.getAll()).toEqual([]);
+  });
+
+  it('should only treat unanswered requests as network errors', () => {
+    expect(isNetworkError(networkError)).toBe(true);
+    expect(isNetworkError(conflictError)).toBe(false);
+    expect(isNetworkError(new FrontendError('Invalid response'))).toBe(false);
+  });
+});
+
+describe('optimistic store mutations', () => {
+  const milestone: any = { id: 'm1', projectId: 'p1', title: 'Design', status: 'SUBMITTED' };
+
+  beforeEach(async () => {
+    await Promise.all(outbox.getEntries().map(entry => outbox.discard(entry.id)));
+    useProjectStore.setState({ milestones: [milestone], error: null });
+    useMessagingStore.setState({ messages: {}, error: null });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should apply an approval immediately and queue it when offline', async () => {
+    const approve = jest.spyOn(projectService, 'approveMilestone').mockRejectedValue(networkError);
+
+    await useProjectStore.getState().approveMilestone('m1', 'Looks good');
+
+    expect(useProjectStore.getState().milestones[0]).toMatchObject({ status: 'APPROVED', approvalNotes: 'Looks good' });
+    const [entry] = outbox.getEntries();
+    expect(entry).toMatchObject({ type: 'milestone.approve', status: 'pending', label: 'Approve "Design"' });
+    expect(approve).toHaveBeenCalledWith('m1', 'Looks good', entry.id);
+  });
+
+  it('should roll back and surface a conflict when the replay loses the race', async () => {
+    jest.spyOn(projectService, 'approveMilestone').mockRejectedValue(networkError);
+    jest.spyOn(projectService, 'getMilestoneById').mockResolvedValue({ ...milestone, status: 'APPROVED', approvalNotes: 'By client B' });
+    await useProjectStore.getState().approveMilestone('m1');
+
+    jest.spyOn(projectService, 'approveMilestone').mockRejectedValue(conflictError);
+    await outbox.flush();
+    await Promise.resolve();
+
+    expect(outbox.getEntries()).toEqual([expect.objectContaining({ status: 'conflict' })]);
+    expect(useProjectStore.getState().milestones[0]).toMatchObject({ status: 'APPROVED', approvalNotes: 'By client B' });
+  });
+
+  it('should roll back and rethrow when the server rejects the change outright', async () => {
+    jest.spyOn(projectService, 'approveMilestone').mockRejectedValue({ message: 'Forbidden', status: 403 });
+
+    await expect(useProjectStore.getState().approveMilestone('m1')).rejects.toMatchObject({ status: 403 });
+
+    expect(useProjectStore.getState().milestones[0].status).toBe('SUBMITTED');
+    expect(outbox.getEntries()).toEqual([]);
+  });
+
+  it('should keep a queued message visible across refetches and swap it for the delivered one', async () => {
+    const delivered: any = { id: 'msg-9', projectId: 'p1', content: 'Hi', readBy: [] };
+    jest.spyOn(messagingService, 'sendMessage').mockRejectedValueOnce(networkError).mockResolvedValue(delivered);
+    jest.spyOn(messagingService, 'getMessagePage').mockResolvedValue({ items: [], hasMore: false });
+
+    await useMessagingStore.getState().sendMessage({ projectId: 'p1', content: 'Hi' });
+    await useMessagingStore.getState().fetchMessages('p1');
+
+    const [queued] = useMessagingStore.getState().messages.p1;
+    expect(queued.id).toMatch(/^local-/);
+
+    await outbox.flush();
+    expect(useMessagingStore.getState().messages.p1).toEqual([delivered]);
+  });
+});
@@ -0,0 +1,272 @@
+// Offline outbox for mutations
+// Mutations that cannot reach the API are recorded here with an idempotency key
+// and replayed in order once connectivity returns. Entries live in IndexedDB so
+// they survive a reload; SSR and tests fall back to an in-memory store.
+
+export type OutboxMutationType = 'milestone.submit' | 'milestone.approve' | 'message.send';
+
+export type OutboxEntryStatus = 'pending' | 'conflict' | 'failed';
+
+export interface OutboxEntry<P = any> {
+  // Doubles as the Idempotency-Key sent with every attempt
+  id: string;
+  type: OutboxMutationType;
+  payload: P;
+  // Short human-readable description shown in the UI
+  label: string;
+  createdAt: number;
+  attempts: number;
+  status: OutboxEntryStatus;
+  error?: string;
+}
+
+export interface OutboxStorage {
+  getAll(): Promise<OutboxEntry[]>;
+  put(entry: OutboxEntry): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface OutboxHandler<P = any> {
+  // Sends the mutation to the API; resolves with the server result
+  replay: (payload: P, idempotencyKey: string) => Promise<any>;
+  // Swap the optimistic state for the server result
+  onSynced?: (payload: P, result: any) => void;
+  // Server rejected the replay (409 conflict or another client error); undo the optimistic state
+  onRejected?: (payload: P, error: any) => void;
+}
+
+const DB_NAME = 'contralock-offline';
+const STORE_NAME = 'outbox';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+export const createIdempotencyKey = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+};
+
+export const idempotencyHeaders = (key?: string): Record<string, string> =>
+  key ? { [IDEMPOTENCY_HEADER]: key } : {};
+
+export const isOffline = (): boolean =>
+  typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// apiClient rejects with a plain `{ message, status? }`; no status means the request never got an answer.
+// Thrown Errors (e.g. response validation) are real failures and must not be retried.
+export const isNetworkError = (error: any): boolean => {
+  if (isOffline()) {
+    return true;
+  }
+  return !!error && !(error instanceof Error) && error.status === undefined;
+};
+
+export class MemoryOutboxStorage implements OutboxStorage {
+  private entries = new Map<string, OutboxEntry>();
+
+  async getAll(): Promise<OutboxEntry[]> {
+    return Array.from(this.entries.values());
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.id, entry);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+}
+
+export class IndexedDbOutboxStorage implements OutboxStorage {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  getAll(): Promise<OutboxEntry[]> {
+    return this.run<OutboxEntry[]>('readonly', store => store.getAll());
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    await this.run('readwrite', store => store.put(entry));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(id));
+  }
+}
+
+export class Outbox {
+  private entries: OutboxEntry[] = [];
+  private handlers = new Map<OutboxMutationType, OutboxHandler>();
+  private listeners = new Set<(entries: OutboxEntry[]) => void>();
+  private loadPromise: Promise<void> | null = null;
+  private flushPromise: Promise<void> | null = null;
+  private started = false;
+
+  constructor(private readonly storage: OutboxStorage) {}
+
+  register<P>(type: OutboxMutationType, handler: OutboxHandler<P>): void {
+    this.handlers.set(type, handler);
+  }
+
+  subscribe(listener: (entries: OutboxEntry[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getEntries(): OutboxEntry[] {
+    return [...this.entries];
+  }
+
+  // Loads persisted entries and replays them now and whenever the browser comes back online
+  start(): Promise<void> {
+    if (!this.started && typeof window !== 'undefined') {
+      this.started = true;
+      window.addEventListener('online', () => {
+        this.flush().catch(error => console.warn('Outbox replay failed:', error));
+      });
+    }
+    return this.load().then(() => (isOffline() ? undefined : this.flush()));
+  }
+
+  async enqueue<P>(
+    type: OutboxMutationType,
+    payload: P,
+    options: { id?: string; label: string }
+  ): Promise<OutboxEntry<P>> {
+    await this.load();
+    const entry: OutboxEntry<P> = {
+      id: options.id || createIdempotencyKey(),
+      type,
+      payload,
+      label: options.label,
+      createdAt: Date.now(),
+      attempts: 0,
+      status: 'pending',
+    };
+    this.entries = [...this.entries.filter(item => item.id !== entry.id), entry];
+    await this.persist(entry);
+    this.notify();
+    return entry;
+  }
+
+  // Drops an entry, typically a conflict the user has acknowledged
+  async discard(id: string): Promise<void> {
+    this.entries = this.entries.filter(entry => entry.id !== id);
+    await this.storage.delete(id).catch(error => console.warn('Could not remove outbox entry:', error));
+    this.notify();
+  }
+
+  // Replays pending entries oldest first; stops at the first network failure so order is kept
+  flush(): Promise<void> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.replay().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    return this.flushPromise;
+  }
+
+  private async replay(): Promise<void> {
+    await this.load();
+    const queue = this.entries
+      .filter(entry => entry.status === 'pending')
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+    for (const entry of queue) {
+      const handler = this.handlers.get(entry.type);
+      if (!handler) {
+        continue;
+      }
+
+      const attempt = { ...entry, attempts: entry.attempts + 1 };
+      try {
+        const result = await handler.replay(entry.payload, entry.id);
+        this.entries = this.entries.filter(item => item.id !== entry.id);
+        await this.storage.delete(entry.id);
+        this.notify();
+        handler.onSynced?.(entry.payload, result);
+      } catch (error: any) {
+        if (isNetworkError(error)) {
+          this.replace(attempt);
+          await this.persist(attempt);
+          return;
+        }
+
+        const rejected: OutboxEntry = {
+          ...attempt,
+          status: error?.status === 409 ? 'conflict' : 'failed',
+          error: error?.message || 'The server rejected this change',
+        };
+        this.replace(rejected);
+        await this.persist(rejected);
+        handler.onRejected?.(entry.payload, error);
+      }
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.storage
+        .getAll()
+        .then((stored) => {
+          const known = new Set(this.entries.map(entry => entry.id));
+          this.entries = [...this.entries, ...stored.filter(entry => !known.has(entry.id))];
+          this.notify();
+        })
+        .catch((error) => {
+          console.warn('Could not read the offline outbox:', error);
+        });
+    }
+    return this.loadPromise;
+  }
+
+  private replace(entry: OutboxEntry): void {
+    this.entries = this.entries.map(item => (item.id === entry.id ? entry : item));
+    this.notify();
+  }
+
+  private async persist(entry: OutboxEntry): Promise<void> {
+    try {
+      await this.storage.put(entry);
+    } catch (error) {
+      console.warn('Could not persist outbox entry:', error);
+    }
+  }
+
+  private notify(): void {
+    const snapshot = this.getEntries();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+const createStorage = (): OutboxStorage =>
+  typeof indexedDB !== 'undefined' ? new IndexedDbOutboxStorage() : new MemoryOutboxStorage();
+
+export const outbox = new Outbox(createStorage());
@@ -0,0 +1,196 @@
+import { Milestone, ProjectActivity } from '@/types';
+import { Money } from './money';
+
+// Reading, filtering, grouping and exporting a project's activity log. The same
+// summaries are used on screen and in exports so an audit trail reads the same
+// in both places.
+
+export type ActivityAction = ProjectActivity['action'];
+export type ActivityActorRole = ProjectActivity['actorRole'];
+
+export const ACTIVITY_ACTION_LABELS: Record<ActivityAction, string> = {
+  PROJECT_CREATED: 'Project created',
+  PROJECT_INVITED: 'Freelancer invited',
+  PROJECT_ACCEPTED: 'Invitation accepted',
+  PROJECT_DECLINED: 'Invitation declined',
+  FUNDS_DEPOSITED: 'Funds deposited',
+  MILESTONE_STARTED: 'Milestone started',
+  MILESTONE_SUBMITTED: 'Milestone submitted',
+  MILESTONE_APPROVED: 'Milestone approved',
+  MILESTONE_REVISION_REQUESTED: 'Revision requested',
+  MILESTONE_DISPUTED: 'Milestone disputed',
+  PAYMENT_RELEASED: 'Payment released',
+  MESSAGE_SENT: 'Message sent',
+  DISPUTE_RAISED: 'Dispute raised',
+  DISPUTE_RESOLVED: 'Dispute resolved',
+  PROJECT_COMPLETED: 'Project completed',
+  PROJECT_CANCELLED: 'Project cancelled',
+};
+
+export const ACTIVITY_ACTIONS = Object.keys(ACTIVITY_ACTION_LABELS) as ActivityAction[];
+
+type ActivityDetails = Record<string, any>;
+
+const milestoneName = (details: ActivityDetails) => details.milestoneTitle || details.milestoneId || 'a milestone';
+
+const amountOf = (details: ActivityDetails) =>
+  typeof details.amount === 'number' ? Money.fromMinor(details.amount, details.currency || 'USD').format() : null;
+
+const withReason = (text: string, reason?: string) => (reason ? `${text}: ${reason}` : text);
+
+// One renderer per action; each gets the activity's details and returns a sentence
+const ACTIVITY_RENDERERS: Record<ActivityAction, (details: ActivityDetails) => string> = {
+  PROJECT_CREATED: details => `Created ${details.projectName || 'the project'}`,
+  PROJECT_INVITED: details => `Invited ${details.email || 'a freelancer'} to the project`,
+  PROJECT_ACCEPTED: details => `Accepted the invitation to ${details.projectName || 'the project'}`,
+  PROJECT_DECLINED: details => withReason('Declined the invitation', details.reason),
+  FUNDS_DEPOSITED: details => `Deposited ${amountOf(details) || 'funds'} into escrow`,
+  MILESTONE_STARTED: details => `Started work on ${milestoneName(details)}`,
+  MILESTONE_SUBMITTED: details => `Submitted ${milestoneName(details)} for review`,
+  MILESTONE_APPROVED: details => withReason(`Approved ${milestoneName(details)}`, details.feedback),
+  MILESTONE_REVISION_REQUESTED: details => withReason(`Asked for changes to ${milestoneName(details)}`, details.revisionNotes),
+  MILESTONE_DISPUTED: details => withReason(`Disputed ${milestoneName(details)}`, details.reason),
+  PAYMENT_RELEASED: details => `Released ${amountOf(details) || 'payment'} for ${milestoneName(details)}`,
+  MESSAGE_SENT: details => (details.preview ? `Sent a message: "${details.preview}"` : 'Sent a message'),
+  DISPUTE_RAISED: details => withReason('Raised a dispute', details.reason),
+  DISPUTE_RESOLVED: details => withReason('Dispute resolved', details.decision),
+  PROJECT_COMPLETED: () => 'Marked the project as completed',
+  PROJECT_CANCELLED: details => withReason('Cancelled the project', details.reason),
+};
+
+export const describeActivity = (activity: ProjectActivity): string => {
+  // Older activity records keep their text in a top-level description
+  const description = (activity as ProjectActivity & { description?: string }).description;
+  const render = ACTIVITY_RENDERERS[activity.action];
+  return render ? render(activity.details || {}) : description || activity.action;
+};
+
+export const activityMilestoneId = (activity: ProjectActivity): string | null =>
+  activity.details?.milestoneId || (activity as ProjectActivity & { relatedId?: string }).relatedId || null;
+
+export const activityLabel = (activity: ProjectActivity) => ACTIVITY_ACTION_LABELS[activity.action] || activity.action;
+
+export interface ActivityFilters {
+  actorRole?: ActivityActorRole | 'all';
+  userId?: string;
+  actions?: ActivityAction[]; // empty or missing: every action
+  from?: Date;
+  to?: Date;
+}
+
+const timeOf = (activity: ProjectActivity) => new Date(activity.createdAt).getTime();
+
+// Newest first, id as a tie-breaker so pages never reorder
+export const sortActivities = (activities: ProjectActivity[]): ProjectActivity[] =>
+  [...activities].sort((a, b) => timeOf(b) - timeOf(a) || b.id.localeCompare(a.id));
+
+export const filterActivities = (activities: ProjectActivity[], filters: ActivityFilters): ProjectActivity[] =>
+  activities.filter(activity => {
+    if (filters.actorRole && filters.actorRole !== 'all' && activity.actorRole !== filters.actorRole) {
+      return false;
+    }
+    if (filters.userId && activity.userId !== filters.userId) {
+      return false;
+    }
+    if (filters.actions?.length && !filters.actions.includes(activity.action)) {
+      return false;
+    }
+    if (filters.from && timeOf(activity) < filters.from.getTime()) {
+      return false;
+    }
+    return !(filters.to && timeOf(activity) > filters.to.getTime());
+  });
+
+export interface ActivityGroup {
+  key: string;
+  milestoneId: string | null;
+  title: string;
+  activities: ProjectActivity[];
+}
+
+// Project-wide activity first, then one group per milestone in milestone order;
+// milestones missing from the list (deleted, or not loaded) come last
+export const groupActivitiesByMilestone = (
+  activities: ProjectActivity[],
+  milestones: Pick<Milestone, 'id' | 'title' | 'order'>[] = []
+): ActivityGroup[] => {
+  const groups = new Map<string, ActivityGroup>();
+  sortActivities(activities).forEach(activity => {
+    const milestoneId = activityMilestoneId(activity);
+    const key = milestoneId || 'project';
+    if (!groups.has(key)) {
+      const milestone = milestones.find(candidate => candidate.id === milestoneId);
+      groups.set(key, {
+        key,
+        milestoneId,
+        title: milestoneId ? milestone?.title || activity.details?.milestoneTitle || milestoneId : 'Project',
+        activities: [],
+      });
+    }
+    groups.get(key)!.activities.push(activity);
+  });
+
+  const rank = (group: ActivityGroup) => {
+    if (!group.milestoneId) {
+      return -1;
+    }
+    const index = milestones.findIndex(milestone => milestone.id === group.milestoneId);
+    return index === -1 ? Number.MAX_SAFE_INTEGER : milestones[index].order ?? index;
+  };
+  return Array.from(groups.values()).sort((a, b) => rank(a) - rank(b));
+};
+
+export const ACTIVITY_EXPORT_COLUMNS = [
+  'id',
+  'createdAt',
+  'action',
+  'label',
+  'actorRole',
+  'userId',
+  'milestoneId',
+  'summary',
+  'details',
+] as const;
+
+export type ActivityExportRow = Record<(typeof ACTIVITY_EXPORT_COLUMNS)[number], string>;
+
+export const toExportRow = (activity: ProjectActivity): ActivityExportRow => ({
+  id: activity.id,
+  createdAt: new Date(activity.createdAt).toISOString(),
+  action: activity.action,
+  label: activityLabel(activity),
+  actorRole: activity.actorRole,
+  userId: activity.userId,
+  milestoneId: activityMilestoneId(activity) || '',
+  summary: describeActivity(activity),
+  details: JSON.stringify(activity.details || {}),
+});
+
+// Spreadsheets run cells that start like a formula, so those are prefixed with a
+// quote to keep user-entered text inert
+const csvCell = (value: string) => {
+  if (/^[=+\-@\t\r]/.test(value)) {
+    return `"'${value.replace(/"/g, '""')}"`;
+  }
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const activitiesToCsv = (activities: ProjectActivity[]): string =>
+  [
+    ACTIVITY_EXPORT_COLUMNS.join(','),
+    ...activities.map(activity => {
+      const row = toExportRow(activity);
+      return ACTIVITY_EXPORT_COLUMNS.map(column => csvCell(row[column])).join(',');
+    }),
+  ].join('\r\n');
+
+export const activitiesToJson = (projectId: string, activities: ProjectActivity[], exportedAt: Date = new Date()): string =>
+  JSON.stringify({
+    projectId,
+    exportedAt: exportedAt.toISOString(),
+    count: activities.length,
+    activities: activities.map(activity => ({ ...toExportRow(activity), details: activity.details || {} })),
+  }, null, 2);
+
+export const activityExportFilename = (projectId: string, format: 'csv' | 'json', exportedAt: Date = new Date()) =>
+  `project-${projectId}-activity-${exportedAt.toISOString().slice(0, 10)}.${format}`;
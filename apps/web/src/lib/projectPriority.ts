@@ -0,0 +1,28 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { Project } from '@/types';
+
+// Projects carry no priority of their own. It follows from how close the deadline
+// is and whether the work is finished.
+
+export type ProjectPriority = 'high' | 'medium' | 'low';
+
+export const PROJECT_PRIORITIES: ProjectPriority[] = ['high', 'medium', 'low'];
+
+type ScheduledProject = Pick<Project, 'deadline' | 'status' | 'progress'>;
+
+const isFinished = (project: ScheduledProject) =>
+  project.status === 'COMPLETED' || (project.progress ?? 0) >= 100;
+
+export const isOverdue = (project: ScheduledProject, now: Date = new Date()): boolean =>
+  !isFinished(project) && new Date(project.deadline) < now;
+
+export const projectPriority = (project: ScheduledProject, now: Date = new Date()): ProjectPriority => {
+  if (isFinished(project)) {
+    return 'low';
+  }
+  const daysLeft = differenceInCalendarDays(new Date(project.deadline), now);
+  if (daysLeft <= 7) {
+    return 'high';
+  }
+  return daysLeft <= 30 ? 'medium' : 'low';
+};
@@ -0,0 +1,1240 @@
+import * as z from 'zod';
+import { FrontendError } from './utils/errorHandler';
+import type {
+  Project,
+  Milestone,
+  MilestoneRevision,
+  Deliverable,
+  ProjectActivity,
+  ChangeProposal,
+  EscrowAccount,
+  Transaction,
+  Balance,
+  Payout,
+  Invoice,
+  UserPaymentMethod,
+  ProjectInvitation,
+  ExchangeRateSnapshot,
+  Message,
+  MessageEdit,
+  MessageReaction,
+  MessagePage,
+  MessageSearchHit,
+  MessageSearchResults,
+  Conversation,
+  ConversationParticipant,
+  ProjectPresence,
+  MissedRealtimeEvent,
+  PaginatedResponse,
+  User,
+  UserAuth,
+  AuthTokens,
+  KYCVerification,
+  Notification,
+  Dispute,
+  DisputeAppeal,
+  DisputeCaseNote,
+  DisputeDecision,
+  DisputeEvidenceBundle,
+  DisputeFeeDetails,
+  DisputeResolution,
+} from '@/types';
+import type {
+  MilestoneSuggestionResponse,
+  DeliverableVerificationResponse,
+  DisputeAnalysisResponse,
+} from './api/aiService';
+import type { FileMetadata, UploadResponse, MultipleUploadResponse } from './api/fileService';
+import { RESOLUTION_DECISION_LABELS } from './arbitratorWorkspace';
+import { isKnownDisputeStatus, normalizeDisputeStatus } from './disputeLifecycle';
+
+// Response schemas for lib/api services. Each schema first normalises the
+// backend shape (`_id`, populated refs, legacy field names, ISO strings)
+// and then validates it into the canonical model from '@/types'.
+
+type ResponseSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// Without strictNullChecks zod infers every object key as optional, so an
+// object schema can never satisfy ResponseSchema<Model> directly. Checking each
+// field schema against the model field instead makes tsc flag drift in either
+// direction (a missing, extra or mistyped field) and lets the parsers drop casts.
+// Optional model fields may be left to passthrough.
+type OptionalKeys<T> = { [K in keyof T]-?: {} extends Pick<T, K> ? K : never }[keyof T];
+type FieldSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+type ModelShape<T> =
+  { [K in Exclude<keyof T, OptionalKeys<T>>]: FieldSchema<T[K]> } &
+  { [K in OptionalKeys<T>]?: FieldSchema<T[K]> };
+
+const modelObject = <T>(shape: ModelShape<T>): ResponseSchema<T> =>
+  z.object(shape as z.ZodRawShape).passthrough() as unknown as ResponseSchema<T>;
+
+type RawRecord = Record<string, any>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+// Populated references (`client: { _id, ... }`) collapse to their id
+const refId = (value: unknown): unknown =>
+  isRecord(value) ? value.id ?? value._id : value;
+
+// Copies `_id` to `id` and fills canonical fields from their legacy aliases
+const normalizeRecord = (aliases: Record<string, string> = {}) => (value: unknown): unknown => {
+  if (!isRecord(value)) {
+    return value;
+  }
+
+  const record: RawRecord = { ...value };
+  if (record.id === undefined && record._id !== undefined) {
+    record.id = record._id;
+  }
+  delete record._id;
+
+  Object.entries(aliases).forEach(([alias, field]) => {
+    if (record[field] === undefined && record[alias] !== undefined) {
+      record[field] = record[alias];
+    }
+  });
+
+  return record;
+};
+
+// Shared field schemas
+const idField = () => z.string().min(1, { message: 'Expected a non-empty id' });
+
+const dateField = () => z.coerce.date({
+  errorMap: () => ({ message: 'Expected a valid date' })
+});
+
+// Backends send `null` for unset timestamps; the domain model uses `undefined`
+const optionalDate = () => dateField().nullish().transform(value => value ?? undefined);
+
+// Amounts are integer minor units (cents) throughout the app
+const centsField = () => z.number({
+  invalid_type_error: 'Expected an amount in cents'
+}).int({ message: 'Expected an integer amount in cents' });
+
+const optionalCents = () => centsField().nullish().transform(value => value ?? undefined);
+
+const optionalString = () => z.string().nullish().transform(value => value ?? undefined);
+
+// The user, notification and invitation models in types/index.ts predate the
+// canonical models and still carry ISO strings (users and notifications also a Mongo `_id`)
+const isoDateField = () => dateField().transform(value => value.toISOString());
+
+const optionalIsoDate = () => optionalDate().transform(value => value?.toISOString());
+
+// Keeps the backend `id` next to the `_id` those models read
+const legacyRecord = (aliases: Record<string, string> = {}) => (value: unknown): unknown => {
+  const record = normalizeRecord(aliases)(value);
+  return isRecord(record) ? { ...record, _id: record.id } : record;
+};
+
+const lowercase = (value: unknown): unknown =>
+  typeof value === 'string' ? value.toLowerCase() : value;
+
+const currencyField = () => z.string().length(3, { message: 'Expected an ISO 4217 currency code' }).default('USD');
+
+const escrowStatus = z.enum(['NOT_DEPOSITED', 'HELD', 'PARTIALLY_RELEASED', 'RELEASED', 'REFUNDED']);
+
+// Older backends report the transaction type used by types/index.ts before it
+// was merged with the payment model
+const LEGACY_TRANSACTION_TYPES: Record<string, Transaction['type']> = {
+  MILESTONE_RELEASE: 'RELEASE',
+  DISPUTE_PAYMENT: 'DISPUTE_SETTLEMENT',
+  DISPUTE_REFUND: 'REFUND',
+  ADMIN_ADJUSTMENT: 'ADJUSTMENT',
+};
+
+const deliverable = (): ResponseSchema<Deliverable> => z.preprocess(
+  (value) => {
+    const record = normalizeRecord({ filename: 'fileName', url: 'fileUrl', type: 'fileType', path: 'fileUrl' })(value);
+    return isRecord(record) && record.id === undefined ? { ...record, id: record.fileUrl || record.fileName } : record;
+  },
+  modelObject<Deliverable>({
+    id: idField(),
+    milestoneId: z.string().default(''),
+    fileName: z.string(),
+    fileType: z.string().default('application/octet-stream'),
+    fileSize: z.number().default(0),
+    fileUrl: z.string().default(''),
+    isPreviewable: z.boolean().default(false),
+    uploadedBy: z.string().default(''),
+    uploadedAt: optionalDate(),
+    createdAt: optionalDate(),
+  })
+);
+
+const milestone = (): ResponseSchema<Milestone> => z.preprocess(
+  (value) => {
+    const record = normalizeRecord({ dueDate: 'deadline', project: 'projectId', feedback: 'approvalNotes' })(value);
+    if (isRecord(record)) {
+      record.projectId = refId(record.projectId);
+    }
+    return record;
+  },
+  modelObject<Milestone>({
+    id: idField(),
+    projectId: idField(),
+    title: z.string(),
+    description: z.string().default(''),
+    amount: centsField(),
+    currency: optionalString(),
+    deadline: dateField(),
+    acceptanceCriteria: z.string().default(''),
+    status: z.enum(['PENDING', 'IN_PROGRESS', 'SUBMITTED', 'REVISION_REQUESTED', 'APPROVED', 'DISPUTED']),
+    order: z.number().int().default(0),
+    deliverables: z.array(deliverable()).optional(),
+    submissionNotes: optionalString(),
+    approvalNotes: optionalString(),
+    revisionNotes: optionalString(),
+    revisionHistory: z.array(modelObject<MilestoneRevision>({
+      notes: optionalString(),
+      requestedAt: dateField(),
+    })).optional(),
+    approvedAt: optionalDate(),
+    submittedAt: optionalDate(),
+    createdAt: dateField(),
+    updatedAt: dateField(),
+  })
+);
+
+const project = (): ResponseSchema<Project> => z.preprocess(
+  (value) => {
+    const record = normalizeRecord({
+      budget: 'totalBudget',
+      client: 'clientId',
+      freelancer: 'freelancerId',
+      autoApproveDays: 'autoApprovalPeriod',
+    })(value);
+    if (!isRecord(record)) {
+      return record;
+    }
+
+    record.clientId = refId(record.clientId);
+    record.freelancerId = refId(record.freelancerId) ?? undefined;
+
+    // Nested escrow/paymentSchedule/progress objects from the legacy project model
+    if (isRecord(record.escrow)) {
+      record.escrowAmount ??= record.escrow.totalHeld;
+      record.escrowStatus ??= record.escrow.status;
+    }
+    if (isRecord(record.paymentSchedule)) {
+      record.autoApprovalPeriod ??= record.paymentSchedule.autoApproveDays;
+    }
+    if (isRecord(record.progress)) {
+      const { completed = 0, total = 0 } = record.progress;
+      record.progress = total > 0 ? Math.round((completed / total) * 100) : 0;
+    }
+    // Populated milestones are validated separately; plain id lists are dropped
+    if (Array.isArray(record.milestones) && !record.milestones.every(isRecord)) {
+      delete record.milestones;
+    }
+    delete record.client;
+    delete record.freelancer;
+    delete record.escrow;
+    delete record.paymentSchedule;
+    return record;
+  },
+  modelObject<Project>({
+    id: idField(),
+    title: z.string(),
+    description: z.string().default(''),
+    category: z.string().default(''),
+    totalBudget: centsField(),
+    timeline: z.string().default(''),
+    deadline: dateField(),
+    status: z.enum(['DRAFT', 'PENDING_ACCEPTANCE', 'AWAITING_DEPOSIT', 'ACTIVE', 'COMPLETED', 'CANCELLED', 'DISPUTED', 'ARCHIVED']),
+    clientId: idField(),
+    freelancerId: z.string().nullish().transform(value => value || undefined),
+    escrowAmount: optionalCents(),
+    escrowStatus: escrowStatus.optional(),
+    platformFee: centsField().default(0),
+    paymentProcessingFee: centsField().default(0),
+    currency: currencyField(),
+    exchangeRate: z.number().optional(),
+    exchangeRateTimestamp: optionalDate(),
+    autoApprovalPeriod: z.number().int().default(7),
+    maxRevisionsPerMilestone: z.number().int().default(3),
+    progress: z.number().optional(),
+    pendingReviews: z.number().optional(),
+    escrowBalance: optionalCents(),
+    milestones: z.array(milestone()).optional(),
+    createdAt: dateField(),
+    updatedAt: dateField(),
+  })
+);
+
+const projectActivity = (): ResponseSchema<ProjectActivity> => z.preprocess(
+  normalizeRecord({ type: 'action', timestamp: 'createdAt' }),
+  modelObject<ProjectActivity>({
+    id: idField(),
+    projectId: idField(),
+    userId: z.string(),
+    actorRole: z.enum(['client', 'freelancer']).default('client'),
+    // Actions the app doesn't know yet still render, labelled with the raw action
+    action: z.custom<ProjectActivity['action']>(value => typeof value === 'string', { message: 'Expected an action' }),
+    details: z.record(z.any()).default({}),
+    createdAt: dateField(),
+  })
+);
+
+const changeValues = () => modelObject<ChangeProposal['originalValues']>({
+  title: optionalString(),
+  description: optionalString(),
+  deadline: optionalDate(),
+  amount: optionalCents(),
+}).default({});
+
+const changeProposal = (): ResponseSchema<ChangeProposal> => z.preprocess(
+  normalizeRecord({ milestone: 'milestoneId', project: 'projectId', parent: 'parentProposalId' }),
+  modelObject<ChangeProposal>({
+    id: idField(),
+    projectId: idField(),
+    milestoneId: idField(),
+    proposer: z.enum(['client', 'freelancer']),
+    // Older backends used PENDING_REVIEW for proposals nobody has answered yet
+    status: z.preprocess(
+      value => (value === 'PENDING_REVIEW' ? 'PENDING' : value),
+      z.enum(['PENDING', 'APPROVED', 'REJECTED', 'CANCELLED', 'COUNTERED'])
+    ),
+    originalValues: changeValues(),
+    proposedValues: changeValues(),
+    reason: z.string().default(''),
+    parentProposalId: optionalString(),
+    createdAt: dateField(),
+    updatedAt: dateField(),
+    resolvedAt: optionalDate(),
+    resolvedBy: optionalString(),
+    resolutionNotes: optionalString(),
+  })
+);
+
+const invitation = (): ResponseSchema<ProjectInvitation> => z.preprocess(
+  (value) => {
+    const record = normalizeRecord({ project: 'projectId' })(value);
+    if (isRecord(record)) {
+      record.projectId = refId(record.projectId);
+    }
+    return record;
+  },
+  modelObject<ProjectInvitation>({
+    id: idField(),
+    projectId: idField(),
+    projectTitle: z.string().default(''),
+    clientName: z.string().default(''),
+    clientEmail: z.string().default(''),
+    status: z.preprocess(
+      value => (typeof value === 'string' ? value.toUpperCase() : value),
+      z.enum(['PENDING', 'ACCEPTED', 'DECLINED', 'EXPIRED'])
+    ),
+    createdAt: isoDateField(),
+    expiresAt: isoDateField(),
+    token: z.string().min(1, { message: 'Expected an invitation token' }),
+    acceptedAt: optionalIsoDate(),
+    declinedAt: optionalIsoDate(),
+  })
+);
+
+const transaction = (): ResponseSchema<Transaction> => z.preprocess(
+  (value) => {
+    const record = normalizeRecord({ from: 'fromUserId', to: 'toUserId', milestone: 'milestoneId' })(value);
+    if (isRecord(record)) {
+      record.milestoneId = refId(record.milestoneId);
+      record.type = LEGACY_TRANSACTION_TYPES[record.type] ?? record.type;
+    }
+    return record;
+  },
+  modelObject<Transaction>({
+    id: idField(),
+    projectId: idField(),
+    milestoneId: optionalString(),
+    fromUserId: z.string().default(''),
+    toUserId: z.string().default(''),
+    type: z.enum(['DEPOSIT', 'RELEASE', 'WITHDRAWAL', 'REFUND', 'FEE', 'DISPUTE_SETTLEMENT', 'DISPUTE_REVERSAL', 'ADJUSTMENT']),
+    amount: centsField(),
+    currency: currencyField(),
+    amountInUsd: optionalCents(),
+    status: z.enum(['PENDING', 'COMPLETED', 'FAILED', 'REFUNDED']),
+    paymentMethodId: optionalString(),
+    paymentMethodType: z.enum(['card', 'crypto', 'bank', 'paypal']).default('card'),
+    cryptoTxHash: optionalString(),
+    cryptoNetwork: optionalString(),
+    exchangeRate: z.number().optional(),
+    exchangeRateTimestamp: optionalDate(),
+    description: optionalString(),
+    referenceId: optionalString(),
+    processedAt: optionalDate(),
+    fees: modelObject<Transaction['fees']>({
+      platform: centsField(),
+      paymentProcessor: centsField(),
+      total: centsField(),
+    }).optional(),
+    createdAt: dateField(),
+    updatedAt: dateField(),
+  })
+);
+
+const escrowAccount = (): ResponseSchema<EscrowAccount> => z.preprocess(
+  normalizeRecord(),
+  modelObject<EscrowAccount>({
+    id: idField(),
+    projectId: idField(),
+    clientId: z.string().default(''),
+    freelancerId: z.string().default(''),
+    totalAmount: centsField(),
+    heldAmount: centsField(),
+    releasedAmount: centsField(),
+    currency: currencyField(),
+    status: escrowStatus,
+    platformFee: centsField().default(0),
+    paymentProcessingFee: centsField().default(0),
+    exchangeRate: z.number().optional(),
+    exchangeRateTimestamp: optionalDate(),
+    createdAt: dateField(),
+    updatedAt: dateField(),
+  })
+);
+
+const balance = (): ResponseSchema<Balance> => z.preprocess(
+  (value) => {
+    const record = normalizeRecord({ lockedBalance: 'pendingBalance' })(value);
+    if (isRecord(record)) {
+      record.id ??= `balance-${record.userId}`;
+      record.createdAt ??= record.lastUpdated;
+      record.updatedAt ??= record.lastUpdated;
+    }
+    return record;
+  },
+  modelObject<Balance>({
+    id: idField(),
+    userId: idField(),
+    availableBalance: centsField(),
+    pendingBalance: centsField().default(0),
+    totalBalance: centsField(),
+    currency: currencyField(),
+    lastUpdated: dateField(),
+    createdAt: dateField(),
+    updatedAt: dateField(),
+  })
+);
+
+const payout = (): ResponseSchema<Payout> => z.preprocess(
+  (value) => {
+    const record = normalizeRecord({ method: 'payoutMethod', scheduledAt: 'requestedAt' })(value);
+    if (isRecord(record)) {
+      record.requestedAt ??= record.createdAt;
+    }
+    return record;
+  },
+  modelObject<Payout>({
+    id: idField(),
+    userId: idField(),
+    amount: centsField(),
+    status: z.enum(['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'CANCELLED']),
+    payoutMethod: z.enum(['BANK_TRANSFER', 'INSTANT_DEPOSIT', 'PAYPAL']),
+    paymentMethodId: optionalString(),
+    fees: centsField().default(0),
+    netAmount: centsField().optional(),
+    requestedAt: dateField(),
+    processedAt: optionalDate(),
+    completedAt: optionalDate(),
+    failureReason: optionalString(),
+    createdAt: dateField(),
+    updatedAt: dateField(),
+  }).transform(value => ({
+    ...value,
+    netAmount: value.netAmount ?? value.amount - value.fees,
+  }))
+);
+
+const invoice = (): ResponseSchema<Invoice> => z.preprocess(
+  (value) => {
+    const record = normalizeRecord({ project: 'projectId', milestone: 'milestoneId', issuedAt: 'issuedDate' })(value);
+    if (isRecord(record)) {
+      record.projectId = refId(record.projectId);
+      record.milestoneId = refId(record.milestoneId);
+      record.issuedDate ??= record.createdAt;
+    }
+    return record;
+  },
+  modelObject<Invoice>({
+    id: idField(),
+    projectId: idField(),
+    milestoneId: z.string().default(''),
+    clientId: z.string().default(''),
+    freelancerId: z.string().default(''),
+    grossAmount: centsField(),
+    platformFee: centsField().default(0),
+    netAmount: centsField(),
+    status: z.enum(['DRAFT', 'ISSUED', 'PAID', 'OVERDUE']),
+    dueDate: dateField(),
+    issuedDate: dateField(),
+    invoiceNumber: z.string().min(1, { message: 'Expected an invoice number' }),
+    paymentMethod: z.enum(['CREDIT_CARD', 'BANK_TRANSFER', 'CRYPTO', 'PAYPAL']),
+    pdfUrl: z.string().default(''),
+    currency: currencyField(),
+    exchangeRate: z.number().optional(),
+    client: modelObject<Invoice['client']>({
+      name: z.string().default(''),
+      email: z.string().default(''),
+      address: optionalString(),
+    }),
+    freelancer: modelObject<Invoice['freelancer']>({
+      name: z.string().default(''),
+      email: z.string().default(''),
+      taxId: optionalString(),
+    }),
+    items: z.array(modelObject<Invoice['items'][number]>({
+      description: z.string().default(''),
+      quantity: z.number().positive(),
+      unitPrice: centsField(),
+      total: centsField(),
+    })).default([]),
+    createdAt: dateField(),
+    updatedAt: dateField(),
+  })
+);
+
+const paymentMethod = (): ResponseSchema<UserPaymentMethod> => z.preprocess(
+  normalizeRecord({ default: 'isDefault' }),
+  modelObject<UserPaymentMethod>({
+    id: idField(),
+    userId: idField(),
+    type: z.preprocess(lowercase, z.enum(['card', 'crypto', 'bank'])),
+    last4: optionalString(),
+    brand: optionalString(),
+    expMonth: z.number().int().optional(),
+    expYear: z.number().int().optional(),
+    bankName: optionalString(),
+    cryptoType: z.preprocess(lowercase, z.enum(['bitcoin', 'ethereum', 'litecoin', 'usdc', 'usdt'])).optional(),
+    address: optionalString(),
+    isDefault: z.boolean().default(false),
+    createdAt: dateField(),
+    updatedAt: dateField(),
+  })
+);
+
+const payoutEstimate = (): ResponseSchema<{ fees: number; netAmount: number }> => modelObject<{ fees: number; netAmount: number }>({
+  fees: centsField(),
+  netAmount: centsField(),
+});
+
+const message = (): ResponseSchema<Message> => z.preprocess(
+  (value) => {
+    const record = normalizeRecord({ sender: 'senderId', timestamp: 'sentAt' })(value);
+    if (isRecord(record)) {
+      record.senderId = refId(record.senderId);
+      record.sentAt ??= record.createdAt;
+      record.createdAt ??= record.sentAt;
+      record.updatedAt ??= record.createdAt;
+    }
+    return record;
+  },
+  modelObject<Message>({
+    id: idField(),
+    projectId: idField(),
+    senderId: idField(),
+    senderRole: z.enum(['client', 'freelancer']).default('client'),
+    content: z.string(),
+    type: z.enum(['TEXT', 'FILE', 'NOTIFICATION']).default('TEXT'),
+    status: z.enum(['SENT', 'DELIVERED', 'READ']).default('SENT'),
+    isSystemMessage: z.boolean().optional(),
+    parentId: optionalString(),
+    attachments: z.array(z.any()).optional(),
+    readBy: z.array(z.string()).default([]),
+    sentAt: dateField(),
+    readAt: optionalDate(),
+    editedAt: optionalDate(),
+    editHistory: z.array(modelObject<MessageEdit>({
+      content: z.string(),
+      editedAt: dateField(),
+      editedBy: idField(),
+    })).optional(),
+    deletedAt: optionalDate(),
+    deletedBy: optionalString(),
+    reactions: z.array(modelObject<MessageReaction>({
+      emoji: z.string(),
+      userIds: z.array(z.string()).default([]),
+    })).optional(),
+    createdAt: dateField(),
+    updatedAt: dateField(),
+  })
+);
+
+// Cursor pages of message history. Servers without cursors send the page
+// envelope instead; the oldest message then serves as the `before` cursor.
+const messagePage = (): ResponseSchema<MessagePage> => z.preprocess(
+  (value) => {
+    if (Array.isArray(value)) {
+      return { items: value, hasMore: false };
+    }
+    if (isRecord(value) && value.hasMore === undefined) {
+      const { page = 1, limit, total } = value;
+      return {
+        ...value,
+        hasMore: value.nextCursor !== undefined
+          || (typeof total === 'number' && typeof limit === 'number' && page * limit < total),
+      };
+    }
+    return value;
+  },
+  modelObject<MessagePage>({
+    items: z.array(message()),
+    nextCursor: optionalString(),
+    hasMore: z.boolean(),
+  }).transform(value => {
+    const items = [...value.items].sort((a, b) => a.sentAt.getTime() - b.sentAt.getTime());
+    return {
+      items,
+      hasMore: value.hasMore && items.length > 0,
+      nextCursor: value.hasMore ? value.nextCursor ?? items[0]?.id : undefined,
+    };
+  })
+);
+
+// A bare array of hits is a single page with nothing past the limit
+const messageSearchResults = (): ResponseSchema<MessageSearchResults> => z.preprocess(
+  (value) => (Array.isArray(value) ? { hits: value, total: value.length } : value),
+  modelObject<MessageSearchResults>({
+    hits: z.array(modelObject<MessageSearchHit>({
+      message: message(),
+      projectName: z.string().default(''),
+      matchedIn: z.array(z.enum(['content', 'attachment', 'project'])).default([]),
+      score: z.number().default(0),
+    })),
+    total: z.number().int(),
+  })
+);
+
+const conversationParticipant = modelObject<ConversationParticipant>({
+  id: z.string(),
+  name: z.string().optional(),
+  role: z.string().optional(),
+});
+
+const conversation = (): ResponseSchema<Conversation> => z.preprocess(
+  (value) => {
+    const record = normalizeRecord()(value);
+    // Some endpoints embed participant details instead of plain user ids
+    if (isRecord(record) && Array.isArray(record.participants) && record.participants.some(isRecord)) {
+      record.participantDetails ??= record.participants.map(participant =>
+        isRecord(participant) ? normalizeRecord()(participant) : { id: participant }
+      );
+      record.participants = record.participants.map(refId);
+    }
+    return record;
+  },
+  modelObject<Conversation>({
+    id: idField(),
+    projectId: idField(),
+    projectName: optionalString(),
+    participants: z.array(z.string()),
+    participantDetails: z.array(conversationParticipant).optional(),
+    unreadCount: z.number().int().default(0),
+    lastMessageId: optionalString(),
+    lastMessage: optionalString(),
+    lastMessageAt: optionalDate(),
+    isArchived: z.boolean().default(false),
+    createdAt: dateField(),
+    updatedAt: dateField(),
+  })
+);
+
+const presence = (): ResponseSchema<ProjectPresence> => z.preprocess(
+  (value) => {
+    const record = normalizeRecord({ isOnline: 'online', lastSeen: 'lastSeenAt' })(value);
+    if (isRecord(record)) {
+      record.userId = refId(record.userId ?? record.user);
+    }
+    return record;
+  },
+  modelObject<ProjectPresence>({
+    projectId: idField(),
+    userId: idField(),
+    online: z.boolean().default(false),
+    lastSeenAt: optionalDate(),
+  })
+);
+
+const missedRealtimeEvent = (): ResponseSchema<MissedRealtimeEvent> => z.preprocess(
+  normalizeRecord({ name: 'event', payload: 'data', seq: 'sequence', createdAt: 'timestamp' }),
+  modelObject<MissedRealtimeEvent>({
+    event: z.string().min(1),
+    data: z.any(),
+    sequence: z.number().int().optional(),
+    timestamp: dateField(),
+  })
+);
+
+const userRole = z.enum(['client', 'freelancer', 'admin', 'arbitrator']);
+
+const userProfile = modelObject<User['profile']>({
+  bio: optionalString(),
+  location: optionalString(),
+  skills: z.array(z.string()).optional(),
+  completed: z.boolean().optional(),
+  avatar: optionalString(),
+});
+
+const user = (): ResponseSchema<User> => z.preprocess(
+  (value) => {
+    const record = legacyRecord()(value);
+    if (isRecord(record) && record.emailVerified === undefined) {
+      record.emailVerified = record.status === 'verified';
+    }
+    return record;
+  },
+  modelObject<User>({
+    _id: idField(),
+    email: z.string().min(1, { message: 'Expected an email address' }),
+    firstName: z.string().default(''),
+    lastName: z.string().default(''),
+    role: userRole,
+    status: z.string().default('unverified'),
+    profile: userProfile.default({}),
+    emailVerified: z.boolean(),
+    createdAt: isoDateField(),
+    updatedAt: isoDateField(),
+    preferredCurrency: optionalString(),
+  })
+);
+
+// Sign-in responses wrap the account with its tokens: `{ user, accessToken, refreshToken }`
+const authSession = (): ResponseSchema<UserAuth> => z.preprocess(
+  (value) => {
+    if (!isRecord(value) || !isRecord(value.user)) {
+      return value;
+    }
+    const account = normalizeRecord()(value.user) as RawRecord;
+    return {
+      ...account,
+      verified: account.emailVerified ?? account.status === 'verified',
+      token: value.accessToken ?? value.token,
+      refreshToken: value.refreshToken,
+    };
+  },
+  modelObject<UserAuth>({
+    id: idField(),
+    email: z.string().min(1, { message: 'Expected an email address' }),
+    firstName: z.string().default(''),
+    lastName: z.string().default(''),
+    role: userRole,
+    verified: z.boolean(),
+    token: z.string().min(1, { message: 'Expected an access token' }),
+    refreshToken: optionalString(),
+  })
+);
+
+const authTokens = (): ResponseSchema<AuthTokens> => modelObject<AuthTokens>({
+  accessToken: z.string().min(1, { message: 'Expected an access token' }),
+  refreshToken: z.string().min(1, { message: 'Expected a refresh token' }),
+});
+
+const acknowledgement = (): ResponseSchema<{ success: boolean }> => modelObject<{ success: boolean }>({
+  success: z.boolean(),
+});
+
+// Verification providers report upper-case statuses and document types
+const kycVerification = (): ResponseSchema<KYCVerification> => z.preprocess(
+  normalizeRecord({ verificationStatus: 'status' }),
+  modelObject<KYCVerification>({
+    id: idField(),
+    userId: idField(),
+    status: z.preprocess(lowercase, z.enum(['unverified', 'pending', 'verified', 'rejected'])),
+    documentType: z.preprocess(lowercase, z.enum(['passport', 'drivers_license', 'id_card', 'other'])),
+    documentFrontUrl: z.string().default(''),
+    documentBackUrl: optionalString(),
+    selfieUrl: z.string().default(''),
+    addressProofUrl: optionalString(),
+    verificationExpiry: optionalDate(),
+    verifiedAt: optionalDate(),
+    verifiedBy: optionalString(),
+    reason: optionalString(),
+    createdAt: dateField(),
+    updatedAt: dateField(),
+  })
+);
+
+const notification = (): ResponseSchema<Notification> => z.preprocess(
+  legacyRecord({ isRead: 'read', createdAt: 'updatedAt' }),
+  modelObject<Notification>({
+    _id: idField(),
+    userId: idField(),
+    type: z.string().min(1),
+    title: z.string(),
+    message: z.string().default(''),
+    read: z.boolean().default(false),
+    readAt: optionalIsoDate(),
+    priority: z.enum(['LOW', 'NORMAL', 'HIGH', 'URGENT']).default('NORMAL'),
+    sentVia: z.array(z.string()).default([]),
+    createdAt: isoDateField(),
+    updatedAt: isoDateField(),
+  })
+);
+
+const unreadCount = (): ResponseSchema<{ count: number }> => modelObject<{ count: number }>({
+  count: z.number().int().nonnegative({ message: 'Expected a non-negative count' }),
+});
+
+// Dispute records store the decision label; older backends used payment terms
+const LEGACY_RESOLUTION_DECISIONS: Record<string, DisputeResolution['decision']> = {
+  ...Object.fromEntries(
+    Object.entries(RESOLUTION_DECISION_LABELS).map(([decision, label]) => [label, decision as DisputeResolution['decision']])
+  ),
+  FULL_PAYMENT: 'FREELANCER_FAVOR',
+  PARTIAL_PAYMENT: 'PARTIAL_SPLIT',
+  REFUND: 'CLIENT_FAVOR',
+  REVISION_NEEDED: 'REVISION_REQUIRED',
+};
+
+// Parties and neutrals arrive either as ids or populated user records
+const userRef = () => z.union([user(), idField()]);
+
+const optionalUserRef = () => userRef().nullish().transform(value => value ?? undefined);
+
+const disputeDecision = (): ResponseSchema<DisputeDecision> => modelObject<DisputeDecision>({
+  decision: z.string().min(1),
+  amountToFreelancer: centsField(),
+  amountToClient: centsField(),
+  decisionReason: z.string().default(''),
+  decidedBy: z.string().default(''),
+  decidedAt: dateField(),
+  aiRecommended: z.boolean().optional(),
+});
+
+// The resolution endpoint also answers with the decision as the dispute record stores it
+const disputeResolution = (): ResponseSchema<DisputeResolution> => z.preprocess(
+  (value) => {
+    const record = normalizeRecord({
+      dispute: 'disputeId',
+      decidedBy: 'resolvedBy',
+      amountToClient: 'clientAmount',
+      amountToFreelancer: 'freelancerAmount',
+      decisionReason: 'rationale',
+      decidedAt: 'decisionDate',
+    })(value);
+    if (isRecord(record)) {
+      record.disputeId = refId(record.disputeId);
+      record.id ??= `res-${record.disputeId}`;
+      record.decision = LEGACY_RESOLUTION_DECISIONS[record.decision] ?? record.decision;
+      record.createdAt ??= record.decisionDate;
+    }
+    return record;
+  },
+  modelObject<DisputeResolution>({
+    id: idField(),
+    disputeId: idField(),
+    resolvedBy: idField(),
+    resolverRole: z.enum(['mediator', 'arbitrator']).default('arbitrator'),
+    decision: z.enum(['CLIENT_FAVOR', 'FREELANCER_FAVOR', 'PARTIAL_SPLIT', 'REVISION_REQUIRED', 'CASE_CLOSED']),
+    clientAmount: centsField(),
+    freelancerAmount: centsField(),
+    decisionNotes: z.string().default(''),
+    rationale: z.string().default(''),
+    decisionDate: dateField(),
+    createdAt: dateField(),
+  })
+);
+
+const disputeAppeal = (): ResponseSchema<DisputeAppeal> => z.preprocess(
+  normalizeRecord({ createdAt: 'submittedAt' }),
+  modelObject<DisputeAppeal>({
+    id: idField(),
+    appellant: z.enum(['client', 'freelancer']),
+    appellantId: idField(),
+    reason: z.string(),
+    evidence: z.array(modelObject<NonNullable<DisputeAppeal['evidence']>[number]>({
+      filename: optionalString(),
+      url: optionalString(),
+      type: optionalString(),
+    })).optional(),
+    fee: modelObject<DisputeAppeal['fee']>({
+      amount: centsField(),
+      currency: currencyField(),
+      paid: z.boolean().default(false),
+    }),
+    feeTransactionId: optionalString(),
+    reviewerId: idField(),
+    status: z.enum(['PENDING_REVIEW', 'APPROVED', 'REJECTED']),
+    outcome: z.enum(['UPHELD', 'REOPENED', 'REVISED']).optional(),
+    submittedAt: dateField(),
+    reviewedAt: optionalDate(),
+    decisionReason: optionalString(),
+    originalResolution: disputeDecision(),
+    revisedResolution: disputeDecision().optional(),
+    compensatingTransactionIds: z.array(z.string()).optional(),
+  })
+);
+
+const disputeCaseNote = (): ResponseSchema<DisputeCaseNote> => z.preprocess(
+  (value) => {
+    const record = normalizeRecord({ dispute: 'disputeId', author: 'authorId', content: 'body' })(value);
+    if (isRecord(record)) {
+      record.disputeId = refId(record.disputeId);
+      record.authorId = refId(record.authorId);
+    }
+    return record;
+  },
+  modelObject<DisputeCaseNote>({
+    id: idField(),
+    disputeId: idField(),
+    authorId: idField(),
+    body: z.string(),
+    createdAt: dateField(),
+  })
+);
+
+const dispute = (): ResponseSchema<Dispute> => z.preprocess(
+  normalizeRecord({ projectId: 'project', milestoneId: 'milestone' }),
+  modelObject<Dispute>({
+    id: idField(),
+    // Populated projects and milestones are validated like any other; plain ids pass through
+    project: z.union([project(), idField()]),
+    milestone: z.union([milestone(), idField()]),
+    raisedBy: userRef(),
+    reason: z.string().default(''),
+    title: optionalString(),
+    description: optionalString(),
+    type: optionalString(),
+    evidence: z.array(modelObject<NonNullable<Dispute['evidence']>[number]>({
+      filename: optionalString(),
+      url: optionalString(),
+      type: optionalString(),
+      uploadedBy: optionalString(),
+    })).optional(),
+    // Bundles are hashed over their serialised form, so they are kept as sent
+    evidenceBundles: z.array(z.custom<DisputeEvidenceBundle>(isRecord, { message: 'Expected an evidence bundle' })).optional(),
+    // Legacy short names are mapped onto the lifecycle statuses
+    status: z.string()
+      .refine(isKnownDisputeStatus, value => ({ message: `Unknown dispute status "${value}"` }))
+      .transform(normalizeDisputeStatus),
+    resolutionPhase: optionalString(),
+    phaseStartedAt: optionalDate(),
+    aiAnalysis: z.any().optional(),
+    mediator: optionalUserRef(),
+    arbitrator: optionalUserRef(),
+    resolution: disputeDecision().nullish().transform(value => value ?? undefined),
+    messages: z.array(modelObject<NonNullable<Dispute['messages']>[number]>({
+      sender: userRef(),
+      content: z.string(),
+      sentAt: dateField(),
+    })).optional(),
+    disputeFeePaid: z.any().optional(),
+    disputeFee: modelObject<DisputeFeeDetails>({
+      clientFee: centsField(),
+      freelancerFee: centsField(),
+      totalAmount: centsField(),
+      status: z.enum(['PENDING', 'PAID', 'FAILED']),
+      disputeAmount: centsField(),
+      clientFeePaid: z.boolean().optional(),
+      freelancerFeePaid: z.boolean().optional(),
+    }).optional(),
+    appeals: z.array(disputeAppeal()).optional(),
+    createdAt: dateField(),
+    updatedAt: dateField(),
+  })
+);
+
+const milestoneSuggestions = (): ResponseSchema<MilestoneSuggestionResponse> => modelObject<MilestoneSuggestionResponse>({
+  suggestedMilestones: z.array(modelObject<MilestoneSuggestionResponse['suggestedMilestones'][number]>({
+    title: z.string().min(1),
+    description: z.string().default(''),
+    amount: z.number().nonnegative(),
+    deadlineDays: z.number().int().positive(),
+  })),
+  confidenceScore: z.number(),
+  recommendations: z.array(z.string()).default([]),
+});
+
+const deliverableVerification = (): ResponseSchema<DeliverableVerificationResponse> => modelObject<DeliverableVerificationResponse>({
+  confidenceScore: z.number(),
+  feedback: z.array(z.string()).default([]),
+  recommendation: z.enum(['approve', 'request_revision', 'dispute']),
+  specificFeedback: z.array(z.string()).default([]),
+});
+
+const disputeAnalysis = (): ResponseSchema<DisputeAnalysisResponse> => modelObject<DisputeAnalysisResponse>({
+  confidenceLevel: z.number(),
+  keyIssues: z.array(z.string()).default([]),
+  recommendedResolution: modelObject<DisputeAnalysisResponse['recommendedResolution']>({
+    decision: z.enum(['full_payment', 'partial_payment', 'refund', 'revision_needed']),
+    amountToFreelancer: centsField(),
+    amountToClient: centsField(),
+  }),
+  reasoning: z.string().default(''),
+  suggestions: z.array(z.string()).default([]),
+});
+
+const fileMetadata = modelObject<FileMetadata>({
+  filename: z.string().min(1),
+  originalName: z.string(),
+  path: z.string(),
+  size: z.number().int().nonnegative(),
+  mimetype: z.string(),
+  integrity: modelObject<FileMetadata['integrity']>({
+    isValid: z.boolean(),
+    hash: z.string(),
+    size: z.number().int().nonnegative(),
+    originalName: z.string(),
+    path: z.string(),
+  }),
+  uploadedAt: z.string(),
+  url: z.string().min(1, { message: 'Expected a file url' }),
+});
+
+const upload = (): ResponseSchema<UploadResponse> => modelObject<UploadResponse>({
+  message: z.string().default(''),
+  file: fileMetadata,
+});
+
+const multipleUpload = (): ResponseSchema<MultipleUploadResponse> => modelObject<MultipleUploadResponse>({
+  message: z.string().default(''),
+  uploaded: z.array(fileMetadata),
+  errors: z.array(modelObject<MultipleUploadResponse['errors'][number]>({
+    filename: z.string(),
+    error: z.string(),
+  })).default([]),
+});
+
+// Accepts either a bare array or a `{ items, total, page, limit }` envelope
+const list = <T>(item: ResponseSchema<T>): ResponseSchema<T[]> => z.preprocess(
+  (value) => (isRecord(value) && Array.isArray(value.items) ? value.items : value),
+  z.array(item)
+);
+
+const paginated = <T>(item: ResponseSchema<T>): ResponseSchema<PaginatedResponse<T>> => z.preprocess(
+  (value) => (Array.isArray(value) ? { items: value, total: value.length } : value),
+  modelObject<PaginatedResponse<T>>({
+    items: z.array(item),
+    total: z.number().int(),
+    page: z.coerce.number().int().default(1),
+    limit: z.coerce.number().int().optional(),
+  }).transform(value => ({ ...value, limit: value.limit ?? value.items.length }))
+);
+
+// Rate tables quote units of each currency per one unit of `base`
+const exchangeRates = (): ResponseSchema<ExchangeRateSnapshot> => z.preprocess(
+  normalizeRecord({ asOf: 'timestamp', updatedAt: 'timestamp', provider: 'source' }),
+  modelObject<ExchangeRateSnapshot>({
+    base: z.string().default('USD'),
+    rates: z.record(
+      z.string().regex(/^[A-Z]{3,5}$/, { message: 'Expected a currency code' }),
+      z.number().positive({ message: 'Expected a positive exchange rate' })
+    ),
+    timestamp: dateField(),
+    source: z.string().default('api'),
+  })
+);
+
+export const responseSchemas = {
+  project,
+  milestone,
+  deliverable,
+  projectActivity,
+  transaction,
+  escrowAccount,
+  balance,
+  payout,
+  invoice,
+  paymentMethod,
+  payoutEstimate,
+  invitation,
+  message,
+  messagePage,
+  messageSearchResults,
+  conversation,
+  presence,
+  missedRealtimeEvent,
+  exchangeRates,
+  user,
+  authSession,
+  authTokens,
+  kycVerification,
+  notification,
+  dispute,
+  disputeDecision,
+  disputeResolution,
+  disputeAppeal,
+  disputeCaseNote,
+  milestoneSuggestions,
+  deliverableVerification,
+  disputeAnalysis,
+  upload,
+  multipleUpload,
+  list,
+  paginated,
+};
+
+export interface ResponseIssue {
+  path: string;
+  message: string;
+}
+
+// Renders zod paths the way they read in code: `items[2].deadline`
+const formatPath = (path: (string | number)[]): string =>
+  path.reduce<string>((result, segment) =>
+    typeof segment === 'number' ? `${result}[${segment}]` : result ? `${result}.${segment}` : segment,
+  '') || '(root)';
+
+// Validates a response body and returns the normalised model. Contract drift
+// surfaces here as a FrontendError listing every offending field path.
+export const parseResponse = <T>(
+  schema: ResponseSchema<T>,
+  data: unknown,
+  context: string
+): T => {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return result.data;
+  }
+
+  const issues: ResponseIssue[] = result.error.errors.map(issue => ({
+    path: formatPath(issue.path),
+    message: issue.message,
+  }));
+
+  throw new FrontendError(
+    `Unexpected response from ${context}: ${issues.map(issue => `${issue.path} (${issue.message})`).join(', ')}`,
+    undefined,
+    { context, issues }
+  );
+};
+
+// Typed shortcuts used by the services
+export const parseProject = (data: unknown, context: string): Project =>
+  parseResponse(project(), data, context);
+
+export const parseProjects = (data: unknown, context: string): PaginatedResponse<Project> =>
+  parseResponse(paginated(project()), data, context);
+
+export const parseMilestone = (data: unknown, context: string): Milestone =>
+  parseResponse(milestone(), data, context);
+
+export const parseMilestones = (data: unknown, context: string): Milestone[] =>
+  parseResponse(list(milestone()), data, context);
+
+export const parseActivities = (data: unknown, context: string): PaginatedResponse<ProjectActivity> =>
+  parseResponse(paginated(projectActivity()), data, context);
+
+export const parseChangeProposal = (data: unknown, context: string): ChangeProposal =>
+  parseResponse(changeProposal(), data, context);
+
+export const parseChangeProposals = (data: unknown, context: string): ChangeProposal[] =>
+  parseResponse(list(changeProposal()), data, context);
+
+export const parseInvitation = (data: unknown, context: string): ProjectInvitation =>
+  parseResponse(invitation(), data, context);
+
+export const parseInvitations = (data: unknown, context: string): ProjectInvitation[] =>
+  parseResponse(list(invitation()), data, context);
+
+export const parseTransaction = (data: unknown, context: string): Transaction =>
+  parseResponse(transaction(), data, context);
+
+export const parseTransactions = (data: unknown, context: string): PaginatedResponse<Transaction> =>
+  parseResponse(paginated(transaction()), data, context);
+
+export const parseInvoice = (data: unknown, context: string): Invoice =>
+  parseResponse(invoice(), data, context);
+
+export const parsePaymentMethod = (data: unknown, context: string): UserPaymentMethod =>
+  parseResponse(paymentMethod(), data, context);
+
+export const parsePaymentMethods = (data: unknown, context: string): UserPaymentMethod[] =>
+  parseResponse(list(paymentMethod()), data, context);
+
+export const parsePayoutEstimate = (data: unknown, context: string): { fees: number; netAmount: number } =>
+  parseResponse(payoutEstimate(), data, context);
+
+export const parseEscrowAccount = (data: unknown, context: string): EscrowAccount =>
+  parseResponse(escrowAccount(), data, context);
+
+export const parseBalance = (data: unknown, context: string): Balance =>
+  parseResponse(balance(), data, context);
+
+export const parsePayout = (data: unknown, context: string): Payout =>
+  parseResponse(payout(), data, context);
+
+export const parsePayouts = (data: unknown, context: string): Payout[] =>
+  parseResponse(list(payout()), data, context);
+
+export const parseMessage = (data: unknown, context: string): Message =>
+  parseResponse(message(), data, context);
+
+export const parseMessages = (data: unknown, context: string): Message[] =>
+  parseResponse(list(message()), data, context);
+
+export const parseMessagePage = (data: unknown, context: string): MessagePage =>
+  parseResponse(messagePage(), data, context);
+
+export const parseMessageSearchResults = (data: unknown, context: string): MessageSearchResults =>
+  parseResponse(messageSearchResults(), data, context);
+
+export const parseConversations = (data: unknown, context: string): Conversation[] =>
+  parseResponse(list(conversation()), data, context);
+
+export const parsePresence = (data: unknown, context: string): ProjectPresence[] =>
+  parseResponse(list(presence()), data, context);
+
+export const parseMissedRealtimeEvents = (data: unknown, context: string): MissedRealtimeEvent[] =>
+  parseResponse(list(missedRealtimeEvent()), data, context);
+
+export const parseExchangeRates = (data: unknown, context: string): ExchangeRateSnapshot =>
+  parseResponse(exchangeRates(), data, context);
+
+export const parseUser = (data: unknown, context: string): User =>
+  parseResponse(user(), data, context);
+
+export const parseUsers = (data: unknown, context: string): PaginatedResponse<User> =>
+  parseResponse(paginated(user()), data, context);
+
+export const parseAuthSession = (data: unknown, context: string): UserAuth =>
+  parseResponse(authSession(), data, context);
+
+export const parseAuthTokens = (data: unknown, context: string): AuthTokens =>
+  parseResponse(authTokens(), data, context);
+
+export const parseAcknowledgement = (data: unknown, context: string): { success: boolean } =>
+  parseResponse(acknowledgement(), data, context);
+
+export const parseKYCVerification = (data: unknown, context: string): KYCVerification =>
+  parseResponse(kycVerification(), data, context);
+
+export const parseNotification = (data: unknown, context: string): Notification =>
+  parseResponse(notification(), data, context);
+
+export const parseNotifications = (data: unknown, context: string): Notification[] =>
+  parseResponse(list(notification()), data, context);
+
+export const parseUnreadCount = (data: unknown, context: string): number =>
+  parseResponse(unreadCount(), data, context).count;
+
+export const parseDispute = (data: unknown, context: string): Dispute =>
+  parseResponse(dispute(), data, context);
+
+export const parseDisputes = (data: unknown, context: string): Dispute[] =>
+  parseResponse(list(dispute()), data, context);
+
+export const parseDisputeResolution = (data: unknown, context: string): DisputeResolution =>
+  parseResponse(disputeResolution(), data, context);
+
+export const parseDisputeNote = (data: unknown, context: string): DisputeCaseNote =>
+  parseResponse(disputeCaseNote(), data, context);
+
+export const parseDisputeNotes = (data: unknown, context: string): DisputeCaseNote[] =>
+  parseResponse(list(disputeCaseNote()), data, context);
+
+export const parseMilestoneSuggestions = (data: unknown, context: string): MilestoneSuggestionResponse =>
+  parseResponse(milestoneSuggestions(), data, context);
+
+export const parseDeliverableVerification = (data: unknown, context: string): DeliverableVerificationResponse =>
+  parseResponse(deliverableVerification(), data, context);
+
+export const parseDisputeAnalysis = (data: unknown, context: string): DisputeAnalysisResponse =>
+  parseResponse(disputeAnalysis(), data, context);
+
+export const parseUpload = (data: unknown, context: string): UploadResponse =>
+  parseResponse(upload(), data, context);
+
+export const parseMultipleUpload = (data: unknown, context: string): MultipleUploadResponse =>
+  parseResponse(multipleUpload(), data, context);
@@ -0,0 +1,182 @@
+import { currencyService } from '../currencyService';
+import {
+  ApiRateProvider,
+  FixtureRateProvider,
+  StaticRateProvider,
+  STATIC_RATES_CAPTURED_AT,
+  rebaseToUsd,
+} from '../exchangeRateProviders';
+import { ExchangeRateHistory } from '../exchangeRateHistory';
+import { mockRouter } from '../../api/mock-routes';
+
+const snapshot = (timestamp: string, rates: Record<string, number>, source = 'test') => ({
+  base: 'USD',
+  rates: { USD: 1, ...rates },
+  timestamp: new Date(timestamp),
+  source,
+});
+
+describe('CurrencyService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    currencyService.getRateHistory().clear();
+    currencyService.setProvider(new StaticRateProvider());
+    return currencyService.refreshRates();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should throw for unknown currencies instead of converting at 1:1', () => {
+    expect(() => currencyService.convertCurrency({ fromCurrency: 'XYZ', toCurrency: 'USD', amount: 100 }))
+      .toThrow('Unsupported currency: XYZ');
+    expect(() => currencyService.getExchangeRate('USD', 'XYZ')).toThrow('Unsupported currency: XYZ');
+    expect(currencyService.isCurrencySupported('XYZ')).toBe(false);
+  });
+
+  it('should convert through USD at the current rates', () => {
+    expect(currencyService.convertCurrency({ fromCurrency: 'EUR', toCurrency: 'GBP', amount: 85 })).toBeCloseTo(73);
+    expect(currencyService.getExchangeRate('USD', 'JPY')).toBe(110);
+  });
+
+  it('should report stale rates and refresh them from the provider', async () => {
+    expect(currencyService.getRatesTimestamp()).toEqual(STATIC_RATES_CAPTURED_AT);
+    expect(currencyService.isStale()).toBe(true);
+
+    const fresh = snapshot(new Date().toISOString(), { EUR: 0.9 }, 'fresh');
+    currencyService.setProvider({ name: 'fresh', fetchRates: jest.fn().mockResolvedValue(fresh) });
+    await currencyService.ensureFreshRates();
+
+    expect(currencyService.isStale()).toBe(false);
+    expect(currencyService.getRatesSource()).toBe('fresh');
+    expect(currencyService.convertCurrency({ fromCurrency: 'USD', toCurrency: 'EUR', amount: 100 })).toBeCloseTo(90);
+  });
+
+  it('should re-price amounts at the rate recorded for their timestamp', async () => {
+    currencyService.setProvider({ name: 'feed', fetchRates: jest.fn().mockResolvedValue(snapshot('2024-03-01T00:00:00Z', { EUR: 0.8 })) });
+    await currencyService.refreshRates();
+    currencyService.setProvider({ name: 'feed', fetchRates: jest.fn().mockResolvedValue(snapshot('2024-06-01T00:00:00Z', { EUR: 0.5 })) });
+    await currencyService.refreshRates();
+
+    const repriced = currencyService.repriceInUsd({
+      amount: 8000,
+      currency: 'EUR',
+      exchangeRateTimestamp: new Date('2024-04-15T00:00:00Z'),
+    });
+
+    expect(repriced).toEqual({
+      amountInUsd: 10000,
+      exchangeRate: 1.25,
+      exchangeRateTimestamp: new Date('2024-03-01T00:00:00Z'),
+    });
+    expect(currencyService.convertAtHistoricalRate(
+      { fromCurrency: 'EUR', toCurrency: 'USD', amount: 50 },
+      new Date('2024-07-01T00:00:00Z')
+    )).toBeCloseTo(100);
+  });
+
+  it('should fall back to the recorded rate for amounts older than the history', () => {
+    expect(currencyService.repriceInUsd({
+      amount: 200_000_000, // 2 BTC in satoshis
+      currency: 'BTC',
+      exchangeRate: 45000,
+      exchangeRateTimestamp: new Date('2023-06-01T00:00:00Z'),
+    }).amountInUsd).toBe(9_000_000);
+
+    expect(() => currencyService.repriceInUsd({
+      amount: 2,
+      currency: 'BTC',
+      exchangeRateTimestamp: new Date('2023-06-01T00:00:00Z'),
+    })).toThrow('No exchange rate for BTC');
+  });
+
+  it('should scale by the minor-unit exponent of the source currency', () => {
+    const at = new Date('2024-02-01T00:00:00Z');
+    expect(currencyService.repriceInUsd({ amount: 11000, currency: 'JPY', exchangeRateTimestamp: at }).amountInUsd).toBe(10000);
+    expect(currencyService.repriceInUsd({ amount: 2300, currency: 'BTC', exchangeRateTimestamp: at }).amountInUsd).toBe(100);
+  });
+
+  it('should keep amounts in their own currency when a display rate is missing', () => {
+    expect(currencyService.convertForDisplay({ fromCurrency: 'USD', toCurrency: 'XYZ', amount: 12 }))
+      .toEqual({ amount: 12, currency: 'USD', fallback: true });
+    expect(currencyService.convertForDisplay({ fromCurrency: 'USD', toCurrency: 'JPY', amount: 2 }))
+      .toEqual({ amount: 220, currency: 'JPY', fallback: false });
+  });
+
+  it('should total escrow deposits using booked USD amounts first', () => {
+    expect(currencyService.sumInUsd([
+      { amount: 5000, currency: 'USD' },
+      { amount: 1, currency: 'BTC', amountInUsd: 45000 },
+      { amount: 85, currency: 'EUR', exchangeRateTimestamp: new Date('2024-02-01T00:00:00Z') },
+    ])).toBe(5000 + 45000 + 100);
+  });
+});
+
+describe('exchange-rate providers', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should validate and timestamp rates from the backend', async () => {
+    const fetcher = jest.fn().mockResolvedValue({ base: 'USD', rates: { USD: 1, EUR: 0.9 }, asOf: '2024-05-01T12:00:00Z' });
+
+    await expect(new ApiRateProvider(fetcher).fetchRates()).resolves.toMatchObject({
+      base: 'USD',
+      rates: { USD: 1, EUR: 0.9 },
+      timestamp: new Date('2024-05-01T12:00:00Z'),
+      source: 'api',
+    });
+    expect(fetcher).toHaveBeenCalledWith('/rates');
+  });
+
+  it('should reject malformed rate tables', async () => {
+    const fetcher = jest.fn().mockResolvedValue({ rates: { EUR: -1 }, timestamp: 'soon' });
+
+    await expect(new ApiRateProvider(fetcher).fetchRates()).rejects.toThrow(/rates\.EUR.*timestamp/);
+  });
+
+  it('should load fixtures and rebase them to USD', async () => {
+    const provider = new FixtureRateProvider(async () => ({
+      base: 'EUR',
+      rates: { USD: 1.25, GBP: 0.8 },
+      timestamp: '2024-02-01T00:00:00Z',
+    }));
+
+    const result = await provider.fetchRates();
+    expect(result.base).toBe('USD');
+    expect(result.source).toBe('fixture');
+    expect(result.rates.EUR).toBeCloseTo(0.8);
+    expect(result.rates.GBP).toBeCloseTo(0.64);
+  });
+
+  it('should refuse to rebase a table without a USD rate', () => {
+    expect(() => rebaseToUsd({ base: 'EUR', rates: { GBP: 0.8 }, timestamp: new Date(), source: 'fx' }))
+      .toThrow('without a USD rate');
+  });
+
+  it('should serve rates from the mock backend', async () => {
+    const response = await mockRouter.handle<any>('GET', '/rates');
+    expect(response?.data.rates.EUR).toBe(0.85);
+  });
+});
+
+describe('ExchangeRateHistory', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should persist snapshots and pick the latest one before a date', () => {
+    const history = new ExchangeRateHistory('testRates');
+    history.record(snapshot('2024-01-01T00:00:00Z', { EUR: 0.8 }));
+    history.record(snapshot('2024-03-01T00:00:00Z', { GBP: 0.7 }));
+    history.record(snapshot('2024-03-01T00:00:00Z', { GBP: 0.7 }));
+
+    const restored = new ExchangeRateHistory('testRates');
+    expect(restored.all()).toHaveLength(2);
+    expect(restored.snapshotAt(new Date('2024-04-01'))?.rates.GBP).toBe(0.7);
+    // Skips snapshots that do not quote the currency
+    expect(restored.snapshotAt(new Date('2024-04-01'), ['EUR'])?.rates.EUR).toBe(0.8);
+    expect(restored.snapshotAt(new Date('2023-12-01'))).toBeUndefined();
+  });
+});
@@ -1,19 +1,16 @@
-// Mock exchange rates for development - in production, these would come from a real API
-const MOCK_EXCHANGE_RATES = {
-  USD: 1,
-  EUR: 0.85,
-  GBP: 0.73,
-  JPY: 110,
-  CAD: 1.25,
-  AUD: 1.35,
-  CHF: 0.92,
-  CNY: 6.45,
-  BTC: 0.000023, // Approximate value (0.000023 BTC per USD)
-  ETH: 0.00038,  // Approximate value
-  USDT: 1.00,
-  USDC: 1.00,
-  // Add more currencies as needed
-};
+import { ExchangeRateSnapshot } from '@/types';
+import { FrontendError } from '../utils/errorHandler';
+import { Money } from '../money';
+import { ExchangeRateHistory } from './exchangeRateHistory';
+import {
+  ExchangeRateProvider,
+  StaticRateProvider,
+  STATIC_EXCHANGE_RATES,
+  STATIC_RATES_CAPTURED_AT,
+} from './exchangeRateProviders';
+
+// Rates older than this are reported as stale and refreshed on demand
+export const DEFAULT_MAX_RATE_AGE_MS = 60 * 60 * 1000;
 
 export interface CurrencyConversionOptions {
   fromCurrency: string;
@@ -21,11 +18,47 @@ export interface CurrencyConversionOptions {
   amount: number;
 }
 
+// Anything that carries an amount (in minor units of `currency`) and the moment
+// its exchange rate applied
+export interface PricedAmount {
+  amount: number;
+  currency: string;
+  amountInUsd?: number;
+  exchangeRate?: number; // USD per unit of `currency`, as recorded at the time
+  exchangeRateTimestamp?: Date;
+  createdAt?: Date;
+}
+
+export interface RepricedAmount {
+  amountInUsd: number; // USD cents
+  exchangeRate: number; // USD per unit of the original currency
+  exchangeRateTimestamp: Date;
+}
+
+// Result of a render-safe conversion; `fallback` is set when a rate was missing
+// and the amount is still in its source currency
+export interface DisplayAmount {
+  amount: number;
+  currency: string;
+  fallback: boolean;
+}
+
 export class CurrencyService {
   private static instance: CurrencyService;
-  private exchangeRates: Record<string, number> = MOCK_EXCHANGE_RATES;
+  private snapshot: ExchangeRateSnapshot = {
+    base: 'USD',
+    rates: { ...STATIC_EXCHANGE_RATES },
+    timestamp: STATIC_RATES_CAPTURED_AT,
+    source: 'static',
+  };
+  // lib/api/paymentService switches this to the backend provider on load
+  private provider: ExchangeRateProvider = new StaticRateProvider();
+  private refreshPromise: Promise<ExchangeRateSnapshot> | null = null;
+  private readonly history = new ExchangeRateHistory();
 
-  private constructor() {}
+  private constructor() {
+    this.history.record(this.snapshot);
+  }
 
   public static getInstance(): CurrencyService {
     if (!CurrencyService.instance) {
@@ -35,26 +68,118 @@ export class CurrencyService {
   }
 
   /**
-   * Convert amount from one currency to another
+   * Swap the source of exchange rates (static table, backend, fixture)
+   */
+  public setProvider(provider: ExchangeRateProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Fetch the latest rates from the provider and record them in the history
+   */
+  public refreshRates(): Promise<ExchangeRateSnapshot> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.provider
+        .fetchRates()
+        .then((snapshot) => {
+          this.applySnapshot(snapshot);
+          return snapshot;
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Refresh only when the current rates are older than `maxAgeMs`
+   */
+  public async ensureFreshRates(maxAgeMs: number = DEFAULT_MAX_RATE_AGE_MS): Promise<ExchangeRateSnapshot> {
+    return this.isStale(maxAgeMs) ? this.refreshRates() : this.snapshot;
+  }
+
+  public isStale(maxAgeMs: number = DEFAULT_MAX_RATE_AGE_MS, now: Date = new Date()): boolean {
+    return now.getTime() - this.snapshot.timestamp.getTime() > maxAgeMs;
+  }
+
+  /**
+   * When the current rates were captured, and by which provider
+   */
+  public getRatesTimestamp(): Date {
+    return this.snapshot.timestamp;
+  }
+
+  public getRatesSource(): string {
+    return this.snapshot.source;
+  }
+
+  public getRateHistory(): ExchangeRateHistory {
+    return this.history;
+  }
+
+  /**
+   * Convert amount from one currency to another at the current rates.
+   * Throws for currencies without a known rate instead of guessing.
    */
   public convertCurrency(options: CurrencyConversionOptions): number {
+    return this.convertWith(this.snapshot, options);
+  }
+
+  /**
+   * Render-safe variant of convertCurrency: without a rate for either currency
+   * the amount is returned unconverted in `fromCurrency` instead of throwing.
+   */
+  public convertForDisplay(options: CurrencyConversionOptions): DisplayAmount {
     const { fromCurrency, toCurrency, amount } = options;
+    if (fromCurrency !== toCurrency && (!this.isCurrencySupported(fromCurrency) || !this.isCurrencySupported(toCurrency))) {
+      return { amount, currency: fromCurrency, fallback: true };
+    }
+    return { amount: this.convertCurrency(options), currency: toCurrency, fallback: false };
+  }
 
-    // If both currencies are the same, return the original amount
-    if (fromCurrency === toCurrency) {
-      return amount;
+  /**
+   * Convert at the rates that applied at `at`, using the local rate history
+   */
+  public convertAtHistoricalRate(options: CurrencyConversionOptions, at: Date): number {
+    return this.convertWith(this.historicalSnapshot(at, [options.fromCurrency, options.toCurrency]), options);
+  }
+
+  /**
+   * Re-price an amount in USD at the rate of its `exchangeRateTimestamp` (or creation date)
+   */
+  public repriceInUsd(record: PricedAmount): RepricedAmount {
+    const at = record.exchangeRateTimestamp || record.createdAt || this.snapshot.timestamp;
+    if (record.currency === 'USD') {
+      return { amountInUsd: record.amount, exchangeRate: 1, exchangeRateTimestamp: at };
     }
 
-    // Get exchange rates (relative to USD)
-    const fromRate = this.exchangeRates[fromCurrency] || 1;
-    const toRate = this.exchangeRates[toCurrency] || 1;
+    const snapshot = this.history.snapshotAt(at, [record.currency]);
+    // Records older than our history carry the rate that was applied to them
+    const exchangeRate = snapshot ? 1 / snapshot.rates[record.currency] : record.exchangeRate;
+    if (!exchangeRate) {
+      throw this.missingRate(record.currency, at);
+    }
 
-    // Convert via USD as base currency
-    // First convert to USD, then to target currency
-    const amountInUSD = amount / fromRate;
-    const convertedAmount = amountInUSD * toRate;
+    // Rates are per major unit, so go through major units: 1 JPY minor unit is a
+    // whole yen, 1 BTC minor unit is a satoshi
+    const major = Money.fromMinor(record.amount, record.currency).toMajor();
+    return {
+      amountInUsd: Money.fromMajor(major * exchangeRate, 'USD').amount,
+      exchangeRate,
+      exchangeRateTimestamp: snapshot ? snapshot.timestamp : at,
+    };
+  }
 
-    return convertedAmount;
+  /**
+   * Total of several amounts in USD. Recorded `amountInUsd` values win, since
+   * they are what was actually booked; everything else is re-priced historically.
+   */
+  public sumInUsd(records: PricedAmount[]): number {
+    return records.reduce(
+      (total, record) => total + (record.amountInUsd ?? this.repriceInUsd(record).amountInUsd),
+      0
+    );
   }
 
   /**
@@ -102,14 +227,23 @@ export class CurrencyService {
    * Get all supported currencies
    */
   public getSupportedCurrencies(): string[] {
-    return Object.keys(this.exchangeRates);
+    return Object.keys(this.snapshot.rates);
+  }
+
+  public isCurrencySupported(currency: string): boolean {
+    return !!this.snapshot.rates[currency];
   }
 
   /**
-   * Update exchange rates (in a real app, this would fetch from an API)
+   * Manually override some rates; recorded as a new snapshot taken now
    */
   public updateExchangeRates(rates: Record<string, number>): void {
-    this.exchangeRates = { ...this.exchangeRates, ...rates };
+    this.applySnapshot({
+      base: 'USD',
+      rates: { ...this.snapshot.rates, ...rates },
+      timestamp: new Date(),
+      source: 'manual',
+    });
   }
 
   /**
@@ -120,11 +254,51 @@ export class CurrencyService {
       return 1;
     }
 
-    const fromRate = this.exchangeRates[fromCurrency] || 1;
-    const toRate = this.exchangeRates[toCurrency] || 1;
-
     // Calculate rate from fromCurrency to toCurrency
-    return (toRate / fromRate);
+    return this.rateOf(this.snapshot, toCurrency) / this.rateOf(this.snapshot, fromCurrency);
+  }
+
+  private applySnapshot(snapshot: ExchangeRateSnapshot): void {
+    this.snapshot = snapshot;
+    this.history.record(snapshot);
+  }
+
+  private convertWith(snapshot: ExchangeRateSnapshot, options: CurrencyConversionOptions): number {
+    const { fromCurrency, toCurrency, amount } = options;
+
+    // If both currencies are the same, return the original amount
+    if (fromCurrency === toCurrency) {
+      return amount;
+    }
+
+    // Convert via USD as base currency
+    const amountInUSD = amount / this.rateOf(snapshot, fromCurrency);
+    return amountInUSD * this.rateOf(snapshot, toCurrency);
+  }
+
+  private historicalSnapshot(at: Date, currencies: string[]): ExchangeRateSnapshot {
+    const snapshot = this.history.snapshotAt(at, currencies);
+    if (!snapshot) {
+      throw this.missingRate(currencies.join('/'), at);
+    }
+    return snapshot;
+  }
+
+  // Units of `currency` per USD in the given snapshot
+  private rateOf(snapshot: ExchangeRateSnapshot, currency: string): number {
+    const rate = snapshot.rates[currency];
+    if (!rate) {
+      throw new FrontendError(`Unsupported currency: ${currency}`, undefined, {
+        currency,
+        ratesTimestamp: snapshot.timestamp,
+        source: snapshot.source,
+      });
+    }
+    return rate;
+  }
+
+  private missingRate(currency: string, at: Date): FrontendError {
+    return new FrontendError(`No exchange rate for ${currency} on ${at.toISOString()}`, undefined, { currency, at });
   }
 }
 
@@ -0,0 +1,81 @@
+import { ExchangeRateSnapshot } from '@/types';
+
+// Local history of exchange-rate snapshots, persisted to localStorage so amounts
+// recorded with an `exchangeRateTimestamp` can be re-priced at the rate of that moment.
+
+const STORAGE_KEY = 'exchangeRateHistory';
+const MAX_SNAPSHOTS = 200;
+
+const hasStorage = () => typeof window !== 'undefined' && typeof localStorage !== 'undefined';
+
+export class ExchangeRateHistory {
+  private snapshots: ExchangeRateSnapshot[] = [];
+
+  constructor(private readonly storageKey: string = STORAGE_KEY) {
+    this.snapshots = this.load();
+  }
+
+  record(snapshot: ExchangeRateSnapshot): void {
+    const time = snapshot.timestamp.getTime();
+    if (this.snapshots.some(existing => existing.timestamp.getTime() === time && existing.source === snapshot.source)) {
+      return;
+    }
+
+    this.snapshots = [...this.snapshots, snapshot]
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .slice(-MAX_SNAPSHOTS);
+    this.save();
+  }
+
+  all(): ExchangeRateSnapshot[] {
+    return [...this.snapshots];
+  }
+
+  latest(): ExchangeRateSnapshot | undefined {
+    return this.snapshots[this.snapshots.length - 1];
+  }
+
+  // Most recent snapshot captured at or before `at` that quotes every requested currency
+  snapshotAt(at: Date, currencies: string[] = []): ExchangeRateSnapshot | undefined {
+    for (let index = this.snapshots.length - 1; index >= 0; index--) {
+      const snapshot = this.snapshots[index];
+      if (snapshot.timestamp.getTime() <= at.getTime() && currencies.every(currency => snapshot.rates[currency])) {
+        return snapshot;
+      }
+    }
+    return undefined;
+  }
+
+  clear(): void {
+    this.snapshots = [];
+    if (hasStorage()) {
+      localStorage.removeItem(this.storageKey);
+    }
+  }
+
+  private load(): ExchangeRateSnapshot[] {
+    if (!hasStorage()) {
+      return [];
+    }
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.storageKey) || '[]') as any[];
+      return stored.map(snapshot => ({ ...snapshot, timestamp: new Date(snapshot.timestamp) }));
+    } catch (error) {
+      console.warn('Could not restore exchange-rate history:', error);
+      return [];
+    }
+  }
+
+  private save(): void {
+    if (!hasStorage()) {
+      return;
+    }
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.snapshots));
+    } catch (error) {
+      console.warn('Could not persist exchange-rate history:', error);
+    }
+  }
+}
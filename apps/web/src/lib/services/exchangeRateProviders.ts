@@ -0,0 +1,108 @@
+import { ExchangeRateSnapshot } from '@/types';
+import { parseExchangeRates } from '../response-schemas';
+import { FrontendError } from '../utils/errorHandler';
+
+// Sources of exchange-rate tables for CurrencyService. Every provider returns a
+// timestamped snapshot quoted as units of each currency per 1 USD.
+
+export interface ExchangeRateProvider {
+  readonly name: string;
+  fetchRates(): Promise<ExchangeRateSnapshot>;
+}
+
+// Development table, captured on STATIC_RATES_CAPTURED_AT
+export const STATIC_EXCHANGE_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.85,
+  GBP: 0.73,
+  JPY: 110,
+  CAD: 1.25,
+  AUD: 1.35,
+  CHF: 0.92,
+  CNY: 6.45,
+  BTC: 0.000023, // Approximate value (0.000023 BTC per USD)
+  ETH: 0.00038,  // Approximate value
+  USDT: 1.00,
+  USDC: 1.00,
+};
+
+export const STATIC_RATES_CAPTURED_AT = new Date('2024-01-01T00:00:00Z');
+
+// Re-quotes a snapshot against USD so the rest of the app can assume a USD base
+export const rebaseToUsd = (snapshot: ExchangeRateSnapshot): ExchangeRateSnapshot => {
+  if (snapshot.base === 'USD') {
+    return snapshot;
+  }
+
+  const usdRate = snapshot.rates.USD;
+  if (!usdRate) {
+    throw new FrontendError(
+      `Exchange rates from ${snapshot.source} are quoted in ${snapshot.base} without a USD rate`,
+      undefined,
+      { source: snapshot.source, base: snapshot.base }
+    );
+  }
+
+  const rates: Record<string, number> = { [snapshot.base]: 1 / usdRate };
+  Object.entries(snapshot.rates).forEach(([currency, rate]) => {
+    rates[currency] = rate / usdRate;
+  });
+  return { ...snapshot, base: 'USD', rates: { ...rates, USD: 1 } };
+};
+
+export class StaticRateProvider implements ExchangeRateProvider {
+  readonly name = 'static';
+
+  constructor(
+    private readonly rates: Record<string, number> = STATIC_EXCHANGE_RATES,
+    private readonly capturedAt: Date = STATIC_RATES_CAPTURED_AT
+  ) {}
+
+  async fetchRates(): Promise<ExchangeRateSnapshot> {
+    return { base: 'USD', rates: { ...this.rates }, timestamp: this.capturedAt, source: this.name };
+  }
+}
+
+// Resolves an endpoint to its response body
+export type RateFetcher = (endpoint: string) => Promise<unknown>;
+
+// Backend `/rates` endpoint (answered by the mock route table in mock mode). The
+// fetcher is injected by lib/api, since the mock routes price deposits through
+// CurrencyService and importing the API client here would close an import cycle.
+export class ApiRateProvider implements ExchangeRateProvider {
+  readonly name = 'api';
+
+  constructor(
+    private readonly fetchRatesResponse: RateFetcher,
+    private readonly endpoint: string = '/rates'
+  ) {}
+
+  async fetchRates(): Promise<ExchangeRateSnapshot> {
+    const data = await this.fetchRatesResponse(this.endpoint);
+    return rebaseToUsd(parseExchangeRates(data, `GET ${this.endpoint}`));
+  }
+}
+
+// JSON fixture, either a URL to fetch or a loader (handy for tests and offline demos)
+export class FixtureRateProvider implements ExchangeRateProvider {
+  readonly name = 'fixture';
+
+  constructor(private readonly source: string | (() => Promise<unknown>)) {}
+
+  async fetchRates(): Promise<ExchangeRateSnapshot> {
+    const data = typeof this.source === 'string'
+      ? await fetch(this.source).then((response) => {
+        if (!response.ok) {
+          throw new FrontendError(`Could not load exchange-rate fixture ${this.source}`, response.status);
+        }
+        return response.json();
+      })
+      : await this.source();
+
+    return rebaseToUsd(parseExchangeRates({ source: this.name, ...(data as object) }, `fixture ${this.describe()}`));
+  }
+
+  private describe(): string {
+    return typeof this.source === 'string' ? this.source : '(loader)';
+  }
+}
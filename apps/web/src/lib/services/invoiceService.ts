@@ -1,10 +1,14 @@
 import { apiClient } from '@/lib/api/client';
+import { Money } from '@/lib/money';
+
+// All invoice amounts are integer minor units (cents) of the invoice currency
+export const INVOICE_TAX_PERCENT = 10;
 
 export interface InvoiceItem {
   id: string;
   description: string;
   quantity: number;
-  rate: number; // per unit
+  rate: number; // per unit, in minor units
 }
 
 export interface InvoiceData {
@@ -38,16 +42,35 @@ export interface CreateInvoiceData {
     rate: number;
   }[];
   notes?: string;
+  currency?: string;
+}
+
+export interface InvoiceTotals {
+  subtotal: Money;
+  tax: Money;
+  total: Money;
 }
 
+// Line totals are rounded per line, then tax is taken on the subtotal
+export const calculateInvoiceTotals = (
+  items: { quantity: number; rate: number }[],
+  currency: string = 'USD',
+  taxPercent: number = INVOICE_TAX_PERCENT
+): InvoiceTotals => {
+  const subtotal = Money.sum(
+    items.map(item => Money.fromMinor(item.rate, currency).multiply(item.quantity)),
+    currency
+  );
+  const tax = subtotal.percentage(taxPercent);
+  return { subtotal, tax, total: subtotal.add(tax) };
+};
+
 class InvoiceService {
   async createInvoice(invoiceData: CreateInvoiceData): Promise<InvoiceData> {
     // In a real app, this would make an API call
     // For mock implementation, we'll return a mock invoice
-    
-    const subtotal = invoiceData.items.reduce((sum, item) => sum + (item.quantity * item.rate), 0);
-    const tax = subtotal * 0.1; // 10% tax
-    const total = subtotal + tax;
+    const currency = invoiceData.currency || 'USD';
+    const { subtotal, tax, total } = calculateInvoiceTotals(invoiceData.items, currency);
 
     const mockInvoice: InvoiceData = {
       id: `inv-${Date.now()}`,
@@ -67,10 +90,10 @@ class InvoiceService {
         rate: item.rate
       })),
       notes: invoiceData.notes,
-      subtotal,
-      tax,
-      total,
-      currency: 'USD',
+      subtotal: subtotal.amount,
+      tax: tax.amount,
+      total: total.amount,
+      currency,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
@@ -97,18 +120,18 @@ class InvoiceService {
           id: 'item-1',
           description: 'Web Development Services',
           quantity: 40,
-          rate: 50
+          rate: 5000
         },
         {
           id: 'item-2',
           description: 'Design Consultation',
           quantity: 10,
-          rate: 75
+          rate: 7500
         }
       ],
-      subtotal: 2750,
-      tax: 275, // 10% tax
-      total: 3025,
+      subtotal: 275000,
+      tax: 27500, // 10% tax
+      total: 302500,
       currency: 'USD',
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
@@ -135,12 +158,12 @@ class InvoiceService {
             id: 'item-1',
             description: 'Initial Setup',
             quantity: 10,
-            rate: 50
+            rate: 5000
           }
         ],
-        subtotal: 500,
-        tax: 50,
-        total: 550,
+        subtotal: 50000,
+        tax: 5000,
+        total: 55000,
         currency: 'USD',
         createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
         updatedAt: new Date(Date.now() - 15 * 24 * 60 * 60 * 1000).toISOString(),
@@ -161,12 +184,12 @@ class InvoiceService {
             id: 'item-1',
             description: 'Development Phase',
             quantity: 30,
-            rate: 60
+            rate: 6000
           }
         ],
-        subtotal: 1800,
-        tax: 180,
-        total: 1980,
+        subtotal: 180000,
+        tax: 18000,
+        total: 198000,
         currency: 'USD',
         createdAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
         updatedAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
@@ -194,12 +217,12 @@ class InvoiceService {
             id: 'item-1',
             description: 'Initial Setup',
             quantity: 10,
-            rate: 50
+            rate: 5000
           }
         ],
-        subtotal: 500,
-        tax: 50,
-        total: 550,
+        subtotal: 50000,
+        tax: 5000,
+        total: 55000,
         currency: 'USD',
         createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
         updatedAt: new Date(Date.now() - 15 * 24 * 60 * 60 * 1000).toISOString(),
@@ -220,12 +243,12 @@ class InvoiceService {
             id: 'item-1',
             description: 'Development Phase',
             quantity: 30,
-            rate: 60
+            rate: 6000
           }
         ],
-        subtotal: 1800,
-        tax: 180,
-        total: 1980,
+        subtotal: 180000,
+        tax: 18000,
+        total: 198000,
         currency: 'USD',
         createdAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
         updatedAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
@@ -252,12 +275,12 @@ class InvoiceService {
           id: 'item-1',
           description: 'Web Development Services',
           quantity: 40,
-          rate: 50
+          rate: 5000
         }
       ],
-      subtotal: data.subtotal || 2000,
-      tax: data.tax || 200,
-      total: data.total || 2200,
+      subtotal: data.subtotal || 200000,
+      tax: data.tax || 20000,
+      total: data.total || 220000,
       currency: data.currency || 'USD',
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
@@ -289,12 +312,12 @@ class InvoiceService {
           id: 'item-1',
           description: 'Web Development Services',
           quantity: 40,
-          rate: 50
+          rate: 5000
         }
       ],
-      subtotal: 2000,
-      tax: 200,
-      total: 2200,
+      subtotal: 200000,
+      tax: 20000,
+      total: 220000,
       currency: 'USD',
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
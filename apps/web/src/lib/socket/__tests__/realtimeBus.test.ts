@@ -0,0 +1,106 @@
+import { Balance, Milestone, Project } from '@/types';
+import { RealtimeBus, fromSocketEvent } from '../realtimeBus';
+import { MockRealtimeEmitter } from '../mockRealtimeEmitter';
+import { connectRealtimeStores } from '../../store/realtime';
+import { useProjectStore } from '../../store/projectStore';
+import { useNotificationStore } from '../../store/notificationStore';
+import { usePaymentStore } from '../../store/paymentStore';
+import { mockDb, resetMockData } from '../../mock-data';
+
+describe('realtime bus', () => {
+  it('delivers each event to every subscriber of its type', () => {
+    const bus = new RealtimeBus();
+    const first = jest.fn();
+    const second = jest.fn();
+    const everything = jest.fn();
+    const failing = jest.fn(() => {
+      throw new Error('boom');
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    bus.on('notification.created', failing);
+    const unsubscribe = bus.on('notification.created', first);
+    bus.on('notification.created', second);
+    bus.on('balance.updated', first);
+    bus.onAny(everything);
+
+    const event = fromSocketEvent('live-notification', { _id: 'n-1', title: 'Hi', createdAt: '2024-03-01T00:00:00Z' })!;
+    bus.publish(event);
+    unsubscribe();
+    bus.publish(event);
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(2);
+    expect(everything).toHaveBeenCalledTimes(2);
+    expect(bus.listenerCount('notification.created')).toBe(2);
+  });
+
+  it('parses socket payloads and rejects unusable ones', () => {
+    expect(fromSocketEvent('milestone-status-change', {
+      projectId: 'proj-1',
+      milestoneId: 'ms-2',
+      oldStatus: 'IN_PROGRESS',
+      newStatus: 'SUBMITTED',
+      timestamp: '2024-03-16T10:00:00Z',
+    })).toMatchObject({ type: 'milestone.status_changed', milestoneId: 'ms-2', timestamp: new Date('2024-03-16T10:00:00Z') });
+    expect(fromSocketEvent('balance-update', { userId: 'user-2', availableBalance: 1000, currency: 'USD' }))
+      .toMatchObject({ type: 'balance.updated', balance: { availableBalance: 1000, currency: 'USD' } });
+    expect(fromSocketEvent('project-status-change', { newStatus: 'ACTIVE' })).toBeNull();
+    expect(fromSocketEvent('unknown-event', { projectId: 'proj-1' })).toBeNull();
+  });
+});
+
+describe('store fan-out', () => {
+  const bus = new RealtimeBus();
+  const emitter = new MockRealtimeEmitter(bus);
+  let disconnect: () => void;
+
+  beforeEach(() => {
+    resetMockData();
+    const project = mockDb.collections.projects.find('proj-1') as Project;
+    useProjectStore.setState({
+      projects: [{ ...project, updatedAt: new Date('2024-01-01') }],
+      currentProject: null,
+      milestones: mockDb.collections.milestones.where((milestone: Milestone) => milestone.projectId === 'proj-1')
+        .map(milestone => ({ ...milestone, updatedAt: new Date('2024-01-01') })),
+    });
+    useNotificationStore.setState({ notifications: [] });
+    usePaymentStore.setState({
+      balance: { userId: 'user-2', availableBalance: 500000, pendingBalance: 0, totalBalance: 500000, currency: 'USD', lastUpdated: new Date('2024-01-01') } as Balance,
+    });
+    disconnect = connectRealtimeStores(bus);
+  });
+
+  afterEach(() => disconnect());
+
+  it('patches projects, milestones, notifications and the balance in place', () => {
+    const milestoneEvent = emitter.simulateNext();
+    emitter.projectStatusChanged('proj-1', 'DISPUTED');
+    emitter.balanceUpdated('user-2', { availableBalance: 650000, totalBalance: 650000 });
+    emitter.balanceUpdated('user-9', { availableBalance: 1 });
+
+    expect(milestoneEvent?.type).toBe('milestone.status_changed');
+    const { milestoneId, newStatus } = milestoneEvent as Extract<typeof milestoneEvent, { type: 'milestone.status_changed' }>;
+    expect(useProjectStore.getState().milestones.find(milestone => milestone.id === milestoneId)?.status).toBe(newStatus);
+    expect(useProjectStore.getState().projects[0].status).toBe('DISPUTED');
+    expect(useNotificationStore.getState().notifications).toHaveLength(1);
+    expect(usePaymentStore.getState().balance).toMatchObject({ userId: 'user-2', availableBalance: 650000, totalBalance: 650000 });
+    expect(mockDb.collections.projects.find('proj-1')?.status).toBe('DISPUTED');
+  });
+
+  it('ignores events older than the local copy and stops after disconnecting', () => {
+    bus.publish({
+      type: 'project.status_changed',
+      projectId: 'proj-1',
+      oldStatus: 'DRAFT',
+      newStatus: 'PENDING_ACCEPTANCE',
+      updatedBy: 'user-1',
+      timestamp: new Date('2023-12-01'),
+    });
+    expect(useProjectStore.getState().projects[0].status).toBe('ACTIVE');
+
+    disconnect();
+    emitter.projectStatusChanged('proj-1', 'COMPLETED');
+    expect(useProjectStore.getState().projects[0].status).toBe('ACTIVE');
+  });
+});
@@ -0,0 +1,138 @@
+import { realtimeService } from '../../api/realtimeService';
+import { realtimeBus } from '../realtimeBus';
+import { socketService, ConnectionState } from '../socketService';
+import { useMessagingStore } from '../../store/messagingStore';
+
+const mockSocket = {
+  connected: false,
+  auth: {},
+  listeners: {} as Record<string, (data?: any) => void>,
+  managerListeners: {} as Record<string, () => void>,
+  on(name: string, handler: (data?: any) => void) {
+    this.listeners[name] = handler;
+  },
+  emit: jest.fn(),
+  connect: jest.fn(),
+  disconnect: jest.fn(),
+  io: {
+    on: (name: string, handler: () => void) => {
+      mockSocket.managerListeners[name] = handler;
+    },
+  },
+};
+
+jest.mock('socket.io-client', () => ({ io: jest.fn(() => mockSocket) }));
+
+jest.mock('../../api/realtimeService', () => ({
+  realtimeService: {
+    getMissedEvents: jest.fn(),
+    getPresence: jest.fn(),
+  },
+}));
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const serverSends = (name: string, data?: any) => mockSocket.listeners[name](data);
+
+describe('socket reconnection', () => {
+  const states: ConnectionState[] = [];
+  const onNewMessage = jest.fn();
+  const busEvents: string[] = [];
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    (realtimeService.getPresence as jest.Mock).mockResolvedValue([
+      { projectId: 'proj-1', userId: 'user-2', online: false, lastSeenAt: new Date('2024-03-16T11:20:00Z') },
+    ]);
+    socketService.onConnectionStateChange(state => states.push(state));
+    realtimeBus.onAny(event => busEvents.push(event.type));
+    await socketService.initialize('session-token', { onNewMessage });
+  });
+
+  it('joins rooms on connect, rejoins them after a drop and replays what was missed', async () => {
+    socketService.joinProjectRoom('proj-1');
+    expect(mockSocket.emit).not.toHaveBeenCalled();
+
+    mockSocket.connected = true;
+    serverSends('connect');
+    expect(mockSocket.emit).toHaveBeenCalledWith('join-project-room', 'proj-1');
+    serverSends('milestone-status-change', {
+      projectId: 'proj-1',
+      milestoneId: 'ms-2',
+      oldStatus: 'IN_PROGRESS',
+      newStatus: 'SUBMITTED',
+      sequence: 7,
+      timestamp: '2024-03-16T12:00:00Z',
+    });
+
+    mockSocket.connected = false;
+    serverSends('disconnect', 'transport close');
+    expect(socketService.getConnectionState()).toBe('reconnecting');
+
+    (realtimeService.getMissedEvents as jest.Mock).mockResolvedValue([
+      // Already handled before the drop
+      { event: 'milestone-status-change', data: { projectId: 'proj-1', milestoneId: 'ms-2', newStatus: 'SUBMITTED' }, sequence: 7, timestamp: new Date('2024-03-16T12:00:00Z') },
+      { event: 'new-message', data: { message: { id: 'msg-9', projectId: 'proj-1' } }, sequence: 8, timestamp: new Date('2024-03-16T12:01:00Z') },
+    ]);
+    mockSocket.emit.mockClear();
+    mockSocket.connected = true;
+    serverSends('connect');
+    await flush();
+
+    expect(mockSocket.emit).toHaveBeenCalledWith('join-project-room', 'proj-1');
+    expect(realtimeService.getMissedEvents).toHaveBeenCalledWith(
+      { afterSequence: 7, since: new Date('2024-03-16T12:00:00Z') },
+      ['proj-1']
+    );
+    expect(onNewMessage).toHaveBeenCalledWith({ id: 'msg-9', projectId: 'proj-1' });
+    expect(busEvents.filter(type => type === 'milestone.status_changed')).toHaveLength(1);
+    expect(states).toEqual(['connected', 'reconnecting', 'connected']);
+  });
+
+  it('reports offline once socket.io gives up', () => {
+    mockSocket.managerListeners.reconnect_failed();
+    expect(socketService.getConnectionState()).toBe('offline');
+  });
+});
+
+describe('socket catch-up before any event', () => {
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    (realtimeService.getPresence as jest.Mock).mockResolvedValue([]);
+    socketService.disconnect();
+    await socketService.initialize('session-token', {});
+  });
+
+  it('replays everything since the first connect when the drop came first', async () => {
+    (realtimeService.getMissedEvents as jest.Mock).mockClear().mockResolvedValue([]);
+    socketService.joinProjectRoom('proj-3');
+
+    const connectedAt = Date.now();
+    serverSends('connect');
+    serverSends('disconnect', 'transport close');
+    serverSends('connect');
+    await flush();
+
+    expect(realtimeService.getMissedEvents).toHaveBeenCalledTimes(1);
+    const [cursor, rooms] = (realtimeService.getMissedEvents as jest.Mock).mock.calls[0];
+    expect(cursor.afterSequence).toBeUndefined();
+    expect(cursor.since.getTime()).toBeGreaterThanOrEqual(connectedAt);
+    expect(rooms).toEqual(['proj-3']);
+  });
+});
+
+describe('presence', () => {
+  it('keeps the newest state for each participant', () => {
+    const { applyRealtimeEvent } = useMessagingStore.getState();
+    applyRealtimeEvent({ type: 'presence.changed', projectId: 'proj-1', userId: 'user-2', online: true, timestamp: new Date('2024-03-16T12:00:00Z') });
+    applyRealtimeEvent({ type: 'presence.changed', projectId: 'proj-1', userId: 'user-2', online: false, timestamp: new Date('2024-03-16T12:30:00Z') });
+    applyRealtimeEvent({ type: 'presence.changed', projectId: 'proj-1', userId: 'user-2', online: true, timestamp: new Date('2024-03-16T12:10:00Z') });
+
+    expect(useMessagingStore.getState().presence['proj-1']['user-2']).toEqual({
+      online: false,
+      lastSeenAt: new Date('2024-03-16T12:30:00Z'),
+      updatedAt: new Date('2024-03-16T12:30:00Z'),
+    });
+  });
+});
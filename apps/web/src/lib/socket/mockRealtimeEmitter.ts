@@ -0,0 +1,146 @@
+import { Milestone, Notification, Project } from '@/types';
+import { mockDb } from '../mock-data';
+import { canPerformMilestoneAction, assertMilestoneTransition, MilestoneAction } from '../milestoneWorkflow';
+import { RealtimeBus, RealtimeEvent, realtimeBus } from './realtimeBus';
+
+// Stands in for the socket server in mock mode. Events are written to the mock
+// database first, so a refetch agrees with what was pushed, then published on the bus.
+
+const SIMULATED_ACTIONS: MilestoneAction[] = ['START', 'SUBMIT'];
+
+export class MockRealtimeEmitter {
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private bus: RealtimeBus = realtimeBus) {}
+
+  emit(event: RealtimeEvent) {
+    const { projects, milestones, notifications, presence } = mockDb.collections;
+    if (event.type === 'project.status_changed') {
+      projects.update(event.projectId, { status: event.newStatus, updatedAt: event.timestamp });
+    } else if (event.type === 'milestone.status_changed') {
+      milestones.update(event.milestoneId, { status: event.newStatus, updatedAt: event.timestamp });
+    } else if (event.type === 'notification.created') {
+      notifications.insert(event.notification);
+    } else if (event.type === 'presence.changed') {
+      presence.update(`${event.projectId}:${event.userId}`, { online: event.online, lastSeenAt: event.lastSeenAt });
+    }
+    // Mock balances are computed per request, so balance events are push-only
+    this.bus.publish(event);
+  }
+
+  projectStatusChanged(projectId: string, newStatus: Project['status'], updatedBy: string = 'system') {
+    const project = mockDb.collections.projects.find(projectId);
+    if (!project) {
+      return null;
+    }
+    const event: RealtimeEvent = {
+      type: 'project.status_changed',
+      projectId,
+      oldStatus: project.status,
+      newStatus,
+      updatedBy,
+      timestamp: new Date(),
+    };
+    this.emit(event);
+    return event;
+  }
+
+  milestoneStatusChanged(milestoneId: string, newStatus: Milestone['status'], updatedBy: string = 'system') {
+    const milestone = mockDb.collections.milestones.find(milestoneId);
+    if (!milestone) {
+      return null;
+    }
+    const event: RealtimeEvent = {
+      type: 'milestone.status_changed',
+      projectId: milestone.projectId,
+      milestoneId,
+      oldStatus: milestone.status,
+      newStatus,
+      updatedBy,
+      timestamp: new Date(),
+    };
+    this.emit(event);
+    return event;
+  }
+
+  notify(userId: string, title: string, message: string, type: string = 'SYSTEM') {
+    const timestamp = new Date();
+    const id = `notif-live-${timestamp.getTime()}`;
+    const notification = {
+      // The mock notification routes look records up by `id`
+      _id: id,
+      id,
+      userId,
+      type,
+      title,
+      message,
+      read: false,
+      priority: 'NORMAL',
+      sentVia: ['IN_APP'],
+      createdAt: timestamp.toISOString(),
+      updatedAt: timestamp.toISOString(),
+    } as Notification;
+    const event: RealtimeEvent = { type: 'notification.created', notification, timestamp };
+    this.emit(event);
+    return event;
+  }
+
+  presenceChanged(projectId: string, userId: string, online: boolean) {
+    const timestamp = new Date();
+    const event: RealtimeEvent = { type: 'presence.changed', projectId, userId, online, lastSeenAt: timestamp, timestamp };
+    this.emit(event);
+    return event;
+  }
+
+  balanceUpdated(userId: string, balance: Extract<RealtimeEvent, { type: 'balance.updated' }>['balance']) {
+    const event: RealtimeEvent = { type: 'balance.updated', userId, balance, timestamp: new Date() };
+    this.emit(event);
+    return event;
+  }
+
+  // Moves the first milestone the freelancer can act on one step along the
+  // workflow and tells the client about it
+  simulateNext(): RealtimeEvent | null {
+    for (const milestone of mockDb.collections.milestones.all()) {
+      const action = SIMULATED_ACTIONS.find(candidate => canPerformMilestoneAction(milestone, candidate, 'freelancer'));
+      if (!action) {
+        continue;
+      }
+      const project = mockDb.collections.projects.find(milestone.projectId);
+      const event = this.milestoneStatusChanged(
+        milestone.id,
+        assertMilestoneTransition(milestone, action, 'freelancer'),
+        project?.freelancerId || 'system'
+      );
+      if (project?.clientId) {
+        this.notify(
+          project.clientId,
+          action === 'SUBMIT' ? 'Milestone Submitted for Review' : 'Milestone Started',
+          `"${milestone.title}" is now ${action === 'SUBMIT' ? 'waiting for your review' : 'in progress'}.`,
+          action === 'SUBMIT' ? 'MILESTONE_SUBMITTED' : 'MILESTONE_STARTED'
+        );
+      }
+      return event;
+    }
+    return null;
+  }
+
+  start(intervalMs: number = 45000) {
+    if (!this.timer) {
+      this.timer = setInterval(() => this.simulateNext(), intervalMs);
+    }
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning() {
+    return this.timer !== null;
+  }
+}
+
+export const mockRealtimeEmitter = new MockRealtimeEmitter();
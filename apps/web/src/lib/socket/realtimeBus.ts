@@ -0,0 +1,176 @@
+import { Balance, Milestone, Notification, Project } from '@/types';
+
+// Typed fan-out for server-pushed events. The socket (or the mock emitter) publishes
+// here and every store that cares subscribes, instead of one store owning the socket
+// callbacks. Handlers run in subscription order; one failing handler never stops the rest.
+
+export type RealtimeEvent =
+  | {
+      type: 'project.status_changed';
+      projectId: string;
+      oldStatus: Project['status'];
+      newStatus: Project['status'];
+      updatedBy: string;
+      timestamp: Date;
+      message?: string;
+    }
+  | {
+      type: 'milestone.status_changed';
+      projectId: string;
+      milestoneId: string;
+      oldStatus: Milestone['status'];
+      newStatus: Milestone['status'];
+      updatedBy: string;
+      timestamp: Date;
+      message?: string;
+    }
+  | {
+      type: 'notification.created';
+      notification: Notification;
+      timestamp: Date;
+    }
+  | {
+      type: 'presence.changed';
+      projectId: string;
+      userId: string;
+      online: boolean;
+      lastSeenAt?: Date;
+      timestamp: Date;
+    }
+  | {
+      type: 'balance.updated';
+      userId: string;
+      balance: Partial<Pick<Balance, 'availableBalance' | 'pendingBalance' | 'totalBalance' | 'currency'>>;
+      timestamp: Date;
+    };
+
+export type RealtimeEventType = RealtimeEvent['type'];
+
+export type RealtimeEventOf<T extends RealtimeEventType> = Extract<RealtimeEvent, { type: T }>;
+
+export type RealtimeHandler<T extends RealtimeEventType = RealtimeEventType> = (event: RealtimeEventOf<T>) => void;
+
+// Socket.io event names and the bus events they become
+export const SOCKET_EVENT_TYPES: Record<string, RealtimeEventType> = {
+  'project-status-change': 'project.status_changed',
+  'milestone-status-change': 'milestone.status_changed',
+  'live-notification': 'notification.created',
+  'balance-update': 'balance.updated',
+  'presence-update': 'presence.changed',
+};
+
+const toDate = (value: unknown) => {
+  const date = value ? new Date(value as string) : new Date();
+  return Number.isNaN(date.getTime()) ? new Date() : date;
+};
+
+// Turns a raw socket payload into a bus event; null when the payload is not usable
+export const fromSocketEvent = (name: string, data: any): RealtimeEvent | null => {
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+  switch (SOCKET_EVENT_TYPES[name]) {
+    case 'project.status_changed':
+      return data.projectId && data.newStatus
+        ? {
+            type: 'project.status_changed',
+            projectId: data.projectId,
+            oldStatus: data.oldStatus,
+            newStatus: data.newStatus,
+            updatedBy: data.updatedBy,
+            timestamp: toDate(data.timestamp),
+            message: data.message,
+          }
+        : null;
+    case 'milestone.status_changed':
+      return data.projectId && data.milestoneId && data.newStatus
+        ? {
+            type: 'milestone.status_changed',
+            projectId: data.projectId,
+            milestoneId: data.milestoneId,
+            oldStatus: data.oldStatus,
+            newStatus: data.newStatus,
+            updatedBy: data.updatedBy,
+            timestamp: toDate(data.timestamp),
+            message: data.message,
+          }
+        : null;
+    case 'notification.created': {
+      // Sent either bare or wrapped as { notification }
+      const notification = data.notification || data;
+      return notification._id || notification.id
+        ? { type: 'notification.created', notification, timestamp: toDate(notification.createdAt) }
+        : null;
+    }
+    case 'presence.changed':
+      return data.projectId && data.userId
+        ? {
+            type: 'presence.changed',
+            projectId: data.projectId,
+            userId: data.userId,
+            online: !!data.online,
+            lastSeenAt: data.lastSeenAt ? toDate(data.lastSeenAt) : undefined,
+            timestamp: toDate(data.timestamp),
+          }
+        : null;
+    case 'balance.updated':
+      return data.userId
+        ? {
+            type: 'balance.updated',
+            userId: data.userId,
+            balance: {
+              ...(typeof data.availableBalance === 'number' && { availableBalance: data.availableBalance }),
+              ...(typeof data.pendingBalance === 'number' && { pendingBalance: data.pendingBalance }),
+              ...(typeof data.totalBalance === 'number' && { totalBalance: data.totalBalance }),
+              ...(data.currency && { currency: data.currency }),
+            },
+            timestamp: toDate(data.timestamp),
+          }
+        : null;
+    default:
+      return null;
+  }
+};
+
+export class RealtimeBus {
+  private handlers = new Map<RealtimeEventType | '*', Set<(event: RealtimeEvent) => void>>();
+
+  // Returns the unsubscribe function
+  on<T extends RealtimeEventType>(type: T, handler: RealtimeHandler<T>): () => void {
+    return this.add(type, handler as (event: RealtimeEvent) => void);
+  }
+
+  onAny(handler: (event: RealtimeEvent) => void): () => void {
+    return this.add('*', handler);
+  }
+
+  publish(event: RealtimeEvent) {
+    const handlers = [...(this.handlers.get(event.type) || []), ...(this.handlers.get('*') || [])];
+    handlers.forEach(handler => {
+      try {
+        handler(event);
+      } catch (error) {
+        console.error(`Realtime handler for ${event.type} failed:`, error);
+      }
+    });
+  }
+
+  listenerCount(type?: RealtimeEventType) {
+    return type ? this.handlers.get(type)?.size || 0 : [...this.handlers.values()].reduce((sum, set) => sum + set.size, 0);
+  }
+
+  clear() {
+    this.handlers.clear();
+  }
+
+  private add(type: RealtimeEventType | '*', handler: (event: RealtimeEvent) => void) {
+    const handlers = this.handlers.get(type) || new Set();
+    handlers.add(handler);
+    this.handlers.set(type, handlers);
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+}
+
+export const realtimeBus = new RealtimeBus();
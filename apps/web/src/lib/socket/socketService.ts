@@ -1,15 +1,35 @@
 import { Message, Conversation } from '@/types';
 import { mockConfig } from '@/config/mock-config';
+import { realtimeService } from '../api/realtimeService';
+import { fromSocketEvent, realtimeBus } from './realtimeBus';
 
 // Dynamically import socket.io-client to avoid build issues
 let io: any = null;
 let Socket: any = null;
 
+// Give up after this many attempts (~10 minutes with the 30s backoff cap) and report offline
+const RECONNECTION_ATTEMPTS = 25;
+
+// Server-to-client events that carry data (as opposed to connection lifecycle events)
+const SERVER_EVENTS = [
+  'new-message',
+  'message-updated',
+  'message-read',
+  'conversation-read',
+  'project-status-change',
+  'milestone-status-change',
+  'live-notification',
+  'balance-update',
+  'presence-update',
+];
+
 // We'll load socket.io-client when we initialize the connection
 interface SocketEventHandlers {
   onConnect?: () => void;
   onDisconnect?: () => void;
   onNewMessage?: (message: Message) => void;
+  // Edits, deletions (tombstones) and reaction changes all arrive as the full message
+  onMessageUpdated?: (message: Message) => void;
   onMessageRead?: (data: { messageId: string; readBy: string; timestamp: Date }) => void;
   onConversationRead?: (data: { conversationId: string; readBy: string; timestamp: Date }) => void;
   onProjectStatusChange?: (data: { 
@@ -32,9 +52,23 @@ interface SocketEventHandlers {
   onError?: (error: any) => void;
 }
 
+// What the UI shows about the live connection. `reconnecting` covers the gap
+// between an unexpected drop and socket.io's next successful attempt.
+export type ConnectionState = 'connected' | 'reconnecting' | 'offline';
+
 class SocketService {
   private socket: Socket | null = null;
   private eventHandlers: SocketEventHandlers = {};
+  private connectionState: ConnectionState = 'offline';
+  private connectionListeners = new Set<(state: ConnectionState) => void>();
+  // Rooms to be in; re-joined on every (re)connect because the server forgets them
+  private joinedRooms = new Set<string>();
+  private hasConnected = false;
+  // Catch-up cursor: the newest server event this client has handled
+  private lastSequence?: number;
+  private lastEventAt?: Date;
+  // Lower bound for catch-up when the connection dropped before any event arrived
+  private firstConnectedAt?: Date;
 
   async initialize(token: string, eventHandlers: SocketEventHandlers) {
     this.eventHandlers = eventHandlers;
@@ -45,6 +79,7 @@ class SocketService {
       // Still call onConnect handler to maintain compatibility
       // but don't actually connect
       setTimeout(() => {
+        this.setConnectionState('connected');
         this.eventHandlers.onConnect?.();
       }, 100);
       return;
@@ -62,84 +97,196 @@ class SocketService {
         token
       },
       transports: ['websocket', 'polling'],
+      reconnection: true,
+      reconnectionAttempts: RECONNECTION_ATTEMPTS,
+      reconnectionDelay: 1000,
+      reconnectionDelayMax: 30000,
     });
 
     this.setupEventListeners();
   }
 
+  getConnectionState(): ConnectionState {
+    return this.connectionState;
+  }
+
+  // Returns the unsubscribe function
+  onConnectionStateChange(listener: (state: ConnectionState) => void): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
+  private setConnectionState(state: ConnectionState) {
+    if (state === this.connectionState) {
+      return;
+    }
+    this.connectionState = state;
+    this.connectionListeners.forEach(listener => listener(state));
+  }
+
+  // Server events every store may care about go onto the realtime bus
+  private publish(name: string, data: any) {
+    const event = fromSocketEvent(name, data);
+    if (event) {
+      realtimeBus.publish(event);
+    } else {
+      console.warn(`Ignoring malformed ${name} event:`, data);
+    }
+  }
+
+  // Moves the catch-up cursor past an event the server sent
+  private track(data: any) {
+    const sequence = data?.sequence ?? data?.seq;
+    if (typeof sequence === 'number' && (this.lastSequence === undefined || sequence > this.lastSequence)) {
+      this.lastSequence = sequence;
+    }
+    const sentAt = data?.timestamp ? new Date(data.timestamp) : new Date();
+    const at = Number.isNaN(sentAt.getTime()) ? new Date() : sentAt;
+    if (!this.lastEventAt || at > this.lastEventAt) {
+      this.lastEventAt = at;
+    }
+  }
+
+  // Hands a server event, live or replayed, to its handler
+  private dispatch(name: string, data: any) {
+    switch (name) {
+      case 'new-message':
+        if (data?.message) {
+          this.eventHandlers.onNewMessage?.(data.message);
+        }
+        return;
+      case 'message-updated':
+        if (data?.message) {
+          this.eventHandlers.onMessageUpdated?.(data.message);
+        }
+        return;
+      case 'message-read':
+        this.eventHandlers.onMessageRead?.({
+          messageId: data.messageId,
+          readBy: data.readBy,
+          timestamp: new Date(data.timestamp)
+        });
+        return;
+      case 'conversation-read':
+        this.eventHandlers.onConversationRead?.({
+          conversationId: data.conversationId,
+          readBy: data.readBy,
+          timestamp: new Date(data.timestamp)
+        });
+        return;
+      case 'project-status-change':
+        this.eventHandlers.onProjectStatusChange?.({
+          projectId: data.projectId,
+          oldStatus: data.oldStatus,
+          newStatus: data.newStatus,
+          updatedBy: data.updatedBy,
+          timestamp: new Date(data.timestamp),
+          message: data.message
+        });
+        break;
+      case 'milestone-status-change':
+        this.eventHandlers.onMilestoneStatusChange?.({
+          projectId: data.projectId,
+          milestoneId: data.milestoneId,
+          oldStatus: data.oldStatus,
+          newStatus: data.newStatus,
+          updatedBy: data.updatedBy,
+          timestamp: new Date(data.timestamp),
+          message: data.message
+        });
+        break;
+    }
+    this.publish(name, data);
+  }
+
+  // After a reconnect: fetch whatever was sent while we were away and refresh
+  // presence, since both went unseen during the gap
+  private async catchUp() {
+    const rooms = [...this.joinedRooms];
+    rooms.forEach(projectId => this.loadPresence(projectId));
+    const since = this.lastEventAt ?? this.firstConnectedAt;
+    if (this.lastSequence === undefined && !since) {
+      return;
+    }
+    try {
+      const missed = await realtimeService.getMissedEvents(
+        { afterSequence: this.lastSequence, since },
+        rooms
+      );
+      missed
+        .filter(envelope => envelope.sequence === undefined || this.lastSequence === undefined || envelope.sequence > this.lastSequence)
+        .sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0) || a.timestamp.getTime() - b.timestamp.getTime())
+        .forEach(envelope => {
+          this.track({ sequence: envelope.sequence, timestamp: envelope.timestamp });
+          this.dispatch(envelope.event, envelope.data);
+        });
+    } catch (error) {
+      console.error('Failed to fetch events missed while disconnected:', error);
+    }
+  }
+
+  private async loadPresence(projectId: string) {
+    try {
+      const entries = await realtimeService.getPresence(projectId);
+      entries.forEach(entry => realtimeBus.publish({
+        type: 'presence.changed',
+        projectId,
+        userId: entry.userId,
+        online: entry.online,
+        lastSeenAt: entry.lastSeenAt,
+        timestamp: new Date(),
+      }));
+    } catch (error) {
+      console.warn(`Could not load presence for project ${projectId}:`, error);
+    }
+  }
+
   private setupEventListeners() {
     if (!this.socket) return;
 
     // Connection events
     this.socket.on('connect', () => {
       console.log('Connected to socket server');
+      const reconnected = this.hasConnected;
+      this.hasConnected = true;
+      this.firstConnectedAt ??= new Date();
+      this.joinedRooms.forEach(projectId => this.socket?.emit('join-project-room', projectId));
+      this.setConnectionState('connected');
       this.eventHandlers.onConnect?.();
+      if (reconnected) {
+        this.catchUp();
+      }
     });
 
     this.socket.on('disconnect', (reason) => {
       console.log('Disconnected from socket server:', reason);
-      this.eventHandlers.onDisconnect?.();
-    });
-
-    // Messaging events
-    this.socket.on('new-message', (data) => {
-      console.log('Received new message:', data);
-      if (data.message) {
-        this.eventHandlers.onNewMessage?.(data.message);
+      if (reason === 'io client disconnect') {
+        this.setConnectionState('offline');
+      } else {
+        // socket.io retries transport drops itself, but not a server-side kick
+        if (reason === 'io server disconnect') {
+          this.socket?.connect();
+        }
+        this.setConnectionState('reconnecting');
       }
+      this.eventHandlers.onDisconnect?.();
     });
 
-    this.socket.on('message-read', (data) => {
-      console.log('Message marked as read:', data);
-      this.eventHandlers.onMessageRead?.({
-        messageId: data.messageId,
-        readBy: data.readBy,
-        timestamp: new Date(data.timestamp)
-      });
-    });
-
-    this.socket.on('conversation-read', (data) => {
-      console.log('Conversation marked as read:', data);
-      this.eventHandlers.onConversationRead?.({
-        conversationId: data.conversationId,
-        readBy: data.readBy,
-        timestamp: new Date(data.timestamp)
-      });
-    });
-
-    // Project events
-    this.socket.on('project-status-change', (data) => {
-      console.log('Project status change:', data);
-      this.eventHandlers.onProjectStatusChange?.({
-        projectId: data.projectId,
-        oldStatus: data.oldStatus,
-        newStatus: data.newStatus,
-        updatedBy: data.updatedBy,
-        timestamp: new Date(data.timestamp),
-        message: data.message
-      });
+    this.socket.io.on('reconnect_failed', () => {
+      console.warn('Giving up on reconnecting to the socket server');
+      this.setConnectionState('offline');
     });
 
-    // Milestone events
-    this.socket.on('milestone-status-change', (data) => {
-      console.log('Milestone status change:', data);
-      this.eventHandlers.onMilestoneStatusChange?.({
-        projectId: data.projectId,
-        milestoneId: data.milestoneId,
-        oldStatus: data.oldStatus,
-        newStatus: data.newStatus,
-        updatedBy: data.updatedBy,
-        timestamp: new Date(data.timestamp),
-        message: data.message
+    SERVER_EVENTS.forEach(name => {
+      this.socket?.on(name, (data: any) => {
+        console.log(`Socket event ${name}:`, data);
+        this.track(data);
+        this.dispatch(name, data);
       });
     });
 
-    // Notification events
-    this.socket.on('live-notification', (notification) => {
-      console.log('Live notification:', notification);
-      // We'll handle this separately if needed
-    });
-
     // Error handling
     this.socket.on('connect_error', (error) => {
       // Check if it's an authentication error
@@ -185,18 +332,26 @@ class SocketService {
 
   // Join project room to receive project-specific updates
   joinProjectRoom(projectId: string) {
-    if (this.socket) {
+    const alreadyJoined = this.joinedRooms.has(projectId);
+    this.joinedRooms.add(projectId);
+    if (this.socket?.connected && !alreadyJoined) {
       this.socket.emit('join-project-room', projectId);
     }
+    this.loadPresence(projectId);
   }
 
   // Leave project room
   leaveProjectRoom(projectId: string) {
-    if (this.socket) {
+    this.joinedRooms.delete(projectId);
+    if (this.socket?.connected) {
       this.socket.emit('leave-project-room', projectId);
     }
   }
 
+  getJoinedRooms(): string[] {
+    return [...this.joinedRooms];
+  }
+
   // Subscribe to live notifications
   subscribeToNotifications() {
     if (this.socket) {
@@ -216,6 +371,16 @@ class SocketService {
     }
   }
 
+  // Tell the project room about an edit, deletion or reaction change
+  sendMessageUpdate(message: Message) {
+    if (this.socket) {
+      this.socket.emit('message-update', {
+        projectId: message.projectId,
+        message
+      });
+    }
+  }
+
   // Send project update
   sendProjectUpdate(projectId: string, updateData: any) {
     if (this.socket) {
@@ -232,6 +397,12 @@ class SocketService {
       this.socket.disconnect();
       this.socket = null;
     }
+    this.joinedRooms.clear();
+    this.hasConnected = false;
+    this.lastSequence = undefined;
+    this.lastEventAt = undefined;
+    this.firstConnectedAt = undefined;
+    this.setConnectionState('offline');
   }
 
   // Check if connected
@@ -3,6 +3,10 @@
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { PropsWithChildren, useEffect, useState } from 'react';
 import { useAuthStore } from '@/lib/store/authStore';
+import { OutboxStatus } from '@/components/common/OutboxStatus';
+import { connectRealtimeStores } from '@/lib/store/realtime';
+import { mockRealtimeEmitter } from '@/lib/socket/mockRealtimeEmitter';
+import { mockConfig } from '@/config/mock-config';
 
 // Create a single instance of QueryClient for the entire app
 const queryClient = new QueryClient({
@@ -29,6 +33,18 @@ export default function StoreProvider({ children }: PropsWithChildren) {
     init();
   }, [initializeAuth]);
 
+  // Server-pushed events patch the stores in place for as long as the app is mounted
+  useEffect(() => {
+    const disconnect = connectRealtimeStores();
+    if (mockConfig.useMockData && mockConfig.features.realtime) {
+      mockRealtimeEmitter.start();
+    }
+    return () => {
+      mockRealtimeEmitter.stop();
+      disconnect();
+    };
+  }, []);
+
   // Don't render children until we're on the client to avoid hydration issues
   if (!isClient) {
     return null;
@@ -37,6 +53,7 @@ export default function StoreProvider({ children }: PropsWithChildren) {
   return (
     <QueryClientProvider client={queryClient}>
       {children}
+      <OutboxStatus />
     </QueryClientProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,142 @@
+import { Message } from '@/types';
+import { messagingService } from '../../api';
+import { useMessagingStore } from '../messagingStore';
+import { useAuthStore } from '../authStore';
+
+jest.mock('../../api', () => ({
+  messagingService: {
+    getMessagePage: jest.fn(),
+    toggleReaction: jest.fn(),
+    searchMessages: jest.fn(),
+  },
+}));
+
+const getMessagePage = messagingService.getMessagePage as jest.Mock;
+
+const message = (id: number): Message => ({
+  id: `msg-${id}`,
+  projectId: 'proj-1',
+  senderId: 'user-1',
+  senderRole: 'client',
+  content: `Message ${id}`,
+  type: 'TEXT',
+  status: 'SENT',
+  readBy: [],
+  sentAt: new Date(Date.UTC(2024, 2, 16, 12, id)),
+  createdAt: new Date(Date.UTC(2024, 2, 16, 12, id)),
+  updatedAt: new Date(Date.UTC(2024, 2, 16, 12, id)),
+});
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => message(from + i));
+
+const held = () => (useMessagingStore.getState().messages['proj-1'] || []).map(m => m.id);
+
+describe('message history paging', () => {
+  beforeEach(() => {
+    getMessagePage.mockReset();
+    useMessagingStore.setState({ messages: {}, messagePaging: {}, error: null, loading: false });
+  });
+
+  it('prepends older pages from the cursor until the start of the thread', async () => {
+    getMessagePage
+      .mockResolvedValueOnce({ items: range(5, 8), nextCursor: 'msg-5', hasMore: true })
+      .mockResolvedValueOnce({ items: range(1, 4), nextCursor: 'msg-1', hasMore: false });
+    const { fetchMessages, fetchOlderMessages } = useMessagingStore.getState();
+
+    await fetchMessages('proj-1');
+    await fetchOlderMessages('proj-1');
+    await fetchOlderMessages('proj-1');
+
+    expect(getMessagePage).toHaveBeenNthCalledWith(2, 'proj-1', { before: 'msg-5' });
+    expect(getMessagePage).toHaveBeenCalledTimes(2);
+    expect(held()).toEqual(range(1, 8).map(m => m.id));
+    expect(useMessagingStore.getState().messagePaging['proj-1']).toEqual({ nextCursor: 'msg-1', hasMore: false, loadingOlder: false });
+  });
+
+  it('keeps older history and its cursor when a refresh overlaps it', async () => {
+    getMessagePage
+      .mockResolvedValueOnce({ items: range(5, 8), nextCursor: 'msg-5', hasMore: true })
+      .mockResolvedValueOnce({ items: range(3, 4), nextCursor: 'msg-3', hasMore: true })
+      .mockResolvedValueOnce({ items: range(6, 9), nextCursor: 'msg-6', hasMore: true });
+    const { fetchMessages, fetchOlderMessages } = useMessagingStore.getState();
+
+    await fetchMessages('proj-1');
+    await fetchOlderMessages('proj-1');
+    await fetchMessages('proj-1');
+
+    expect(held()).toEqual(range(3, 9).map(m => m.id));
+    expect(useMessagingStore.getState().messagePaging['proj-1'].nextCursor).toBe('msg-3');
+  });
+
+  it('loads back to a linked message in one request', async () => {
+    getMessagePage
+      .mockResolvedValueOnce({ items: range(50, 60), nextCursor: 'msg-50', hasMore: true })
+      .mockResolvedValueOnce({ items: range(12, 49), nextCursor: 'msg-12', hasMore: true });
+
+    const found = await useMessagingStore.getState().loadMessagesThrough('proj-1', 'msg-12');
+
+    expect(found).toBe(true);
+    expect(getMessagePage).toHaveBeenLastCalledWith('proj-1', { before: 'msg-50', through: 'msg-12' });
+    expect(held()[0]).toBe('msg-12');
+  });
+
+  it('reports a linked message that is not in the project', async () => {
+    getMessagePage.mockResolvedValueOnce({ items: range(1, 3), nextCursor: 'msg-1', hasMore: false });
+
+    await expect(useMessagingStore.getState().loadMessagesThrough('proj-1', 'msg-99')).resolves.toBe(false);
+    expect(getMessagePage).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('message reactions', () => {
+  beforeEach(() => {
+    useAuthStore.setState({ user: { _id: 'user-2' } as any });
+    useMessagingStore.setState({ messages: { 'proj-1': [message(1)] }, error: null });
+  });
+
+  it('shows a reaction at once and takes the server copy when it arrives', async () => {
+    let respond: (value: Message) => void = () => undefined;
+    (messagingService.toggleReaction as jest.Mock).mockReturnValue(new Promise(resolve => { respond = resolve; }));
+
+    const pending = useMessagingStore.getState().toggleReaction('proj-1', 'msg-1', '🎉');
+    expect(useMessagingStore.getState().messages['proj-1'][0].reactions).toEqual([{ emoji: '🎉', userIds: ['user-2'] }]);
+
+    respond({
+      ...message(1),
+      reactions: [{ emoji: '🎉', userIds: ['user-3', 'user-2'] }],
+      updatedAt: new Date(Date.UTC(2024, 2, 16, 13)),
+    });
+    await pending;
+    expect(useMessagingStore.getState().messages['proj-1'][0].reactions).toEqual([{ emoji: '🎉', userIds: ['user-3', 'user-2'] }]);
+  });
+
+  it('puts the reactions back when the server refuses', async () => {
+    (messagingService.toggleReaction as jest.Mock).mockRejectedValue(new Error('Deleted messages cannot be reacted to'));
+
+    await expect(useMessagingStore.getState().toggleReaction('proj-1', 'msg-1', '🎉')).rejects.toThrow();
+    expect(useMessagingStore.getState().messages['proj-1'][0].reactions).toBeUndefined();
+    expect(useMessagingStore.getState().error).toBe('Deleted messages cannot be reacted to');
+  });
+});
+
+describe('message search', () => {
+  it('keeps the results of the newest search when an older one resolves later', async () => {
+    const hit = (id: number) => ({ message: message(id), projectName: 'Project', matchedIn: ['content'], score: 3 });
+    let slow: (value: unknown) => void = () => undefined;
+    (messagingService.searchMessages as jest.Mock)
+      .mockReturnValueOnce(new Promise(resolve => { slow = resolve; }))
+      .mockResolvedValueOnce({ hits: [hit(2)], total: 1 });
+    const { searchMessages } = useMessagingStore.getState();
+
+    const first = searchMessages('user-1', { text: 'chec' });
+    await searchMessages('user-1', { text: 'checkout' });
+    slow({ hits: [hit(1)], total: 1 });
+    await first;
+
+    expect(useMessagingStore.getState().messageSearch).toMatchObject({
+      query: { text: 'checkout' },
+      hits: [{ message: { id: 'msg-2' } }],
+      loading: false,
+    });
+  });
+});
@@ -1,9 +1,10 @@
 import { create } from 'zustand';
-import { Dispute } from '@/types';
+import { Dispute, DisputeEvidenceBundle } from '@/types';
 import { messagingService } from '../api/messagingService';
 import { projectService } from '../api/projectService';
 import { mockDisputeService } from '../mock-dispute-service';
 import { isMockMode } from '@/config/app-config';
+import { applyTransition, DisputeAction, DisputeActor, DisputeTransitionPayload } from '../disputeLifecycle';
 
 interface DisputeState {
   disputes: Dispute[];
@@ -12,13 +13,21 @@ interface DisputeState {
 
   getDisputes: (userId?: string, status?: string) => Promise<void>;
   fetchDisputes: (userId: string, status?: string) => Promise<void>;
+  fetchAssignedDisputes: (arbitratorId: string) => Promise<void>;
   createDispute: (milestoneId: string, disputeData: any) => Promise<Dispute>;
   updateDispute: (disputeId: string, updateData: any) => Promise<Dispute>;
   resolveDispute: (disputeId: string, resolutionData: any) => Promise<Dispute>;
+  transitionDispute: (
+    disputeId: string,
+    action: DisputeAction,
+    actor: DisputeActor,
+    payload?: DisputeTransitionPayload
+  ) => Promise<Dispute>;
+  submitEvidenceBundle: (disputeId: string, bundle: DisputeEvidenceBundle, actor: DisputeActor) => Promise<Dispute>;
   clearError: () => void;
 }
 
-export const useDisputeStore = create<DisputeState>((set) => ({
+export const useDisputeStore = create<DisputeState>((set, get) => ({
   disputes: [],
   loading: false,
   error: null,
@@ -54,6 +63,17 @@ export const useDisputeStore = create<DisputeState>((set) => ({
     }
   },
 
+  fetchAssignedDisputes: async (arbitratorId) => {
+    set({ loading: true, error: null });
+    try {
+      const disputes = await messagingService.getAssignedDisputes(arbitratorId);
+      set({ disputes, loading: false });
+    } catch (error: any) {
+      set({ error: error.message || 'Failed to fetch assigned disputes', loading: false });
+      throw error;
+    }
+  },
+
   createDispute: async (milestoneId, disputeData) => {
     set({ loading: true, error: null });
     try {
@@ -82,7 +102,7 @@ export const useDisputeStore = create<DisputeState>((set) => ({
         // For mock mode, we'll update the dispute in the mock service
         // In a real implementation, we'd have a method to update disputes
         const allDisputes = await mockDisputeService.getUserDisputes('');
-        const dispute = allDisputes.find(d => d._id === disputeId);
+        const dispute = allDisputes.find(d => d.id === disputeId);
         if (!dispute) {
           throw new Error('Dispute not found');
         }
@@ -91,7 +111,7 @@ export const useDisputeStore = create<DisputeState>((set) => ({
         // Implementation would go here for real API
         set((state) => ({
           disputes: state.disputes.map(dispute =>
-            dispute._id === disputeId ? { ...dispute, ...updateData } : dispute
+            dispute.id === disputeId ? { ...dispute, ...updateData } : dispute
           ),
           loading: false,
         }));
@@ -99,7 +119,7 @@ export const useDisputeStore = create<DisputeState>((set) => ({
       }
       set((state) => ({
         disputes: state.disputes.map(dispute =>
-          dispute._id === disputeId ? updatedDispute : dispute
+          dispute.id === disputeId ? updatedDispute : dispute
         ),
         loading: false,
       }));
@@ -117,20 +137,21 @@ export const useDisputeStore = create<DisputeState>((set) => ({
       if (isMockMode) {
         // In mock mode, we'll simulate the resolution
         const allDisputes = await mockDisputeService.getUserDisputes('');
-        const dispute = allDisputes.find(d => d._id === disputeId);
+        const dispute = allDisputes.find(d => d.id === disputeId);
         if (!dispute) {
           throw new Error('Dispute not found');
         }
         resolvedDispute = {
           ...dispute,
           status: 'RESOLVED',
+          phaseStartedAt: new Date(),
           resolution: resolutionData
         } as Dispute;
       } else {
         // Implementation would go here for real API
         set((state) => ({
           disputes: state.disputes.map(dispute =>
-            dispute._id === disputeId ? { ...dispute, status: 'RESOLVED', resolution: resolutionData } : dispute
+            dispute.id === disputeId ? { ...dispute, status: 'RESOLVED', phaseStartedAt: new Date(), resolution: resolutionData } : dispute
           ),
           loading: false,
         }));
@@ -138,7 +159,7 @@ export const useDisputeStore = create<DisputeState>((set) => ({
       }
       set((state) => ({
         disputes: state.disputes.map(dispute =>
-          dispute._id === disputeId ? resolvedDispute : dispute
+          dispute.id === disputeId ? resolvedDispute : dispute
         ),
         loading: false,
       }));
@@ -149,5 +170,56 @@ export const useDisputeStore = create<DisputeState>((set) => ({
     }
   },
 
+  transitionDispute: async (disputeId, action, actor, payload = {}) => {
+    set({ loading: true, error: null });
+    try {
+      // Reject illegal transitions before they reach the server
+      const current = get().disputes.find(dispute => dispute.id === disputeId);
+      if (current) {
+        applyTransition(current, action, actor, payload);
+      }
+
+      let updatedDispute: Dispute;
+      if (isMockMode) {
+        updatedDispute = await mockDisputeService.transitionDispute(disputeId, action, actor, payload);
+      } else {
+        updatedDispute = await messagingService.transitionDispute(disputeId, action, actor, payload);
+      }
+      set((state) => ({
+        disputes: state.disputes.map(dispute =>
+          dispute.id === disputeId ? updatedDispute : dispute
+        ),
+        loading: false,
+      }));
+      return updatedDispute;
+    } catch (error: any) {
+      set({ error: error.message || 'Failed to update dispute', loading: false });
+      throw error;
+    }
+  },
+
+  submitEvidenceBundle: async (disputeId, bundle, actor) => {
+    set({ loading: true, error: null });
+    try {
+      // Evidence is only accepted while the current phase is still open
+      const current = get().disputes.find(dispute => dispute.id === disputeId);
+      if (current) {
+        applyTransition(current, 'SUBMIT_EVIDENCE', actor);
+      }
+
+      const updatedDispute = await messagingService.submitDisputeEvidenceBundle(disputeId, bundle);
+      set((state) => ({
+        disputes: state.disputes.map(dispute =>
+          dispute.id === disputeId ? updatedDispute : dispute
+        ),
+        loading: false,
+      }));
+      return updatedDispute;
+    } catch (error: any) {
+      set({ error: error.message || 'Failed to submit evidence bundle', loading: false });
+      throw error;
+    }
+  },
+
   clearError: () => set({ error: null }),
 }));
\ No newline at end of file
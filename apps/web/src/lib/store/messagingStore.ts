@@ -1,25 +1,152 @@
 import { create } from 'zustand';
-import { Message, Conversation, Dispute } from '@/types';
+import { Message, MessageSearchHit, Conversation, Dispute } from '@/types';
 import { messagingService } from '../api';
-import { socketService } from '../socket/socketService';
+import type { SendMessageData } from '../api/messagingService';
+import { socketService, ConnectionState } from '../socket/socketService';
+import type { RealtimeEvent } from '../socket/realtimeBus';
+import { useAuthStore } from './authStore';
+import { mergeLatestMessages, mergeMessages } from '../messageHistory';
+import { applyMessageUpdate, toggleReaction } from '../messageThreads';
+import type { MessageSearchQuery } from '../messageSearch';
+import {
+  outbox,
+  createIdempotencyKey,
+  isNetworkError,
+  OutboxHandler,
+} from '../offline/outbox';
 
 // Track the last time conversations were fetched to prevent rapid calls
 const lastFetchTime = new Map<string, number>();
 
+// initializeSocket may run more than once; only one connection listener is kept
+let stopConnectionUpdates: (() => void) | null = null;
+
+// Only the newest search may write results; earlier ones can resolve after it
+let latestSearch = 0;
+
+// Where backward pagination of a project's history has got to
+export interface MessagePaging {
+  nextCursor?: string;
+  hasMore: boolean;
+  loadingOlder: boolean;
+}
+
+export interface MessageSearchState {
+  query: MessageSearchQuery | null;
+  hits: MessageSearchHit[];
+  total: number;
+  loading: boolean;
+}
+
+const EMPTY_SEARCH: MessageSearchState = { query: null, hits: [], total: 0, loading: false };
+
+export interface PresenceEntry {
+  online: boolean;
+  lastSeenAt?: Date;
+  // When this entry was last updated, so an older push cannot overwrite a newer one
+  updatedAt: Date;
+}
+
+interface MessageMutation {
+  messageData: SendMessageData;
+  // Locally rendered copy shown until the server confirms the message
+  message: Message;
+}
+
+const buildOptimisticMessage = (messageData: SendMessageData, idempotencyKey: string): Message => {
+  const user = useAuthStore.getState().user;
+  const now = new Date();
+  return {
+    id: `local-${idempotencyKey}`,
+    projectId: messageData.projectId,
+    senderId: user?._id || '',
+    senderRole: user?.role === 'freelancer' ? 'freelancer' : 'client',
+    content: messageData.content,
+    type: messageData.type || 'TEXT',
+    status: 'SENT',
+    parentId: messageData.parentId,
+    readBy: [],
+    sentAt: now,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Swaps (or drops, when `next` is null) the optimistic copy of a message
+const replaceLocalMessage = (local: Message, next: Message | null) =>
+  useMessagingStore.setState((state) => {
+    const existing = state.messages[local.projectId] || [];
+    const withoutLocal = existing.filter((m) => m.id !== local.id);
+    return {
+      messages: {
+        ...state.messages,
+        [local.projectId]: next && !withoutLocal.some((m) => m.id === next.id)
+          ? existing.map((m) => (m.id === local.id ? next : m))
+          : withoutLocal,
+      },
+    };
+  });
+
+// Puts the server's copy of an edited, deleted or reacted-to message in place
+const storeMessageUpdate = (message: Message) =>
+  useMessagingStore.setState((state) => ({
+    messages: {
+      ...state.messages,
+      [message.projectId]: applyMessageUpdate(state.messages[message.projectId] || [], message),
+    },
+  }));
+
+// Queued messages stay visible after a refetch until they are delivered
+const withPendingMessages = (projectId: string, messages: Message[]): Message[] => [
+  ...messages,
+  ...outbox
+    .getEntries()
+    .filter((entry) =>
+      entry.type === 'message.send' && entry.status === 'pending' && entry.payload.message.projectId === projectId
+    )
+    .map((entry) => entry.payload.message as Message)
+    .filter((local) => !messages.some((m) => m.id === local.id)),
+];
+
+const sendMessageHandler: OutboxHandler<MessageMutation> = {
+  replay: ({ messageData }, idempotencyKey) => messagingService.sendMessage(messageData, idempotencyKey),
+  onSynced: ({ messageData, message }, sent: Message) => {
+    replaceLocalMessage(message, sent);
+    socketService.sendRealTimeMessage(messageData.projectId, messageData);
+  },
+  onRejected: ({ message }) => replaceLocalMessage(message, null),
+};
+
+outbox.register('message.send', sendMessageHandler);
+
 interface MessagingState {
   conversations: Conversation[];
-  messages: Record<string, Message[]>; // projectId -> messages
+  messages: Record<string, Message[]>; // projectId -> messages, oldest first
+  messagePaging: Record<string, MessagePaging>; // projectId -> cursor for older history
   disputes: Dispute[];
   loading: boolean;
   error: string | null;
   currentConversation: Conversation | null;
   typingUsers: Record<string, string[]>; // projectId -> array of user names/IDs who are typing
   unreadMessages: Record<string, number>; // projectId -> count of unread messages
+  connectionState: ConnectionState;
+  presence: Record<string, Record<string, PresenceEntry>>; // projectId -> userId -> presence
+  messageSearch: MessageSearchState;
 
   // Conversation actions
   fetchConversations: (userId: string) => Promise<void>;
   fetchMessages: (projectId: string) => Promise<void>;
+  fetchOlderMessages: (projectId: string) => Promise<void>;
+  // Loads history back to the message; resolves false when it is not in the project
+  loadMessagesThrough: (projectId: string, messageId: string) => Promise<boolean>;
   sendMessage: (messageData: any) => Promise<void>;
+  editMessage: (messageId: string, content: string) => Promise<void>;
+  deleteMessage: (messageId: string) => Promise<void>;
+  toggleReaction: (projectId: string, messageId: string, emoji: string) => Promise<void>;
+
+  // Search
+  searchMessages: (userId: string, query: MessageSearchQuery) => Promise<void>;
+  clearMessageSearch: () => void;
 
   // Dispute actions
   fetchDisputes: (userId: string, status?: string) => Promise<void>;
@@ -33,6 +160,7 @@ interface MessagingState {
   initializeSocket: (token: string, userId: string) => void;
   joinProjectRoom: (projectId: string) => void;
   leaveProjectRoom: (projectId: string) => void;
+  applyRealtimeEvent: (event: RealtimeEvent) => void;
 
   clearError: () => void;
 }
@@ -40,12 +168,16 @@ interface MessagingState {
 export const useMessagingStore = create<MessagingState>((set, get) => ({
   conversations: [],
   messages: {},
+  messagePaging: {},
   disputes: [],
   loading: false,
   error: null,
   currentConversation: null,
   typingUsers: {},
   unreadMessages: {},
+  connectionState: socketService.getConnectionState(),
+  presence: {},
+  messageSearch: EMPTY_SEARCH,
 
   fetchConversations: async (userId) => {
     const now = Date.now();
@@ -72,40 +204,197 @@ export const useMessagingStore = create<MessagingState>((set, get) => ({
   fetchMessages: async (projectId) => {
     set({ loading: true });
     try {
-      const messages = await messagingService.getMessages(projectId);
+      const page = await messagingService.getMessagePage(projectId);
+      set((state) => {
+        const { messages, connected } = mergeLatestMessages(state.messages[projectId] || [], page.items);
+        return {
+          messages: { ...state.messages, [projectId]: withPendingMessages(projectId, messages) },
+          // Older pages already loaded stay reachable from the cursor they left off at
+          messagePaging: connected && state.messagePaging[projectId]
+            ? state.messagePaging
+            : { ...state.messagePaging, [projectId]: { nextCursor: page.nextCursor, hasMore: page.hasMore, loadingOlder: false } },
+          loading: false,
+        };
+      });
+    } catch (error: any) {
+      set({ error: error.message || 'Failed to fetch messages', loading: false });
+      throw error;
+    }
+  },
+
+  fetchOlderMessages: async (projectId) => {
+    const paging = get().messagePaging[projectId];
+    if (!paging?.hasMore || paging.loadingOlder) {
+      return;
+    }
+
+    const setPaging = (next: Partial<MessagePaging>) => set((state) => ({
+      messagePaging: { ...state.messagePaging, [projectId]: { ...state.messagePaging[projectId], ...next } },
+    }));
+
+    setPaging({ loadingOlder: true });
+    try {
+      const page = await messagingService.getMessagePage(projectId, { before: paging.nextCursor });
       set((state) => ({
-        messages: { ...state.messages, [projectId]: messages },
-        loading: false,
+        messages: { ...state.messages, [projectId]: mergeMessages(state.messages[projectId] || [], page.items) },
       }));
+      setPaging({ nextCursor: page.nextCursor, hasMore: page.hasMore, loadingOlder: false });
     } catch (error: any) {
-      set({ error: error.message || 'Failed to fetch messages', loading: false });
+      setPaging({ loadingOlder: false });
+      set({ error: error.message || 'Failed to load older messages' });
       throw error;
     }
   },
 
-  sendMessage: async (messageData) => {
+  loadMessagesThrough: async (projectId, messageId) => {
+    const isLoaded = () => (get().messages[projectId] || []).some((m) => m.id === messageId);
+    if (!get().messagePaging[projectId]) {
+      await get().fetchMessages(projectId);
+    }
+    if (isLoaded()) {
+      return true;
+    }
+
+    const paging = get().messagePaging[projectId];
+    if (!paging?.hasMore) {
+      return false;
+    }
     try {
-      const { projectId } = messageData;
-      const newMessage = await messagingService.sendMessage(messageData);
+      // One request back to the target instead of paging there a screen at a time
+      const page = await messagingService.getMessagePage(projectId, { before: paging.nextCursor, through: messageId });
+      set((state) => ({
+        messages: { ...state.messages, [projectId]: mergeMessages(state.messages[projectId] || [], page.items) },
+        messagePaging: {
+          ...state.messagePaging,
+          [projectId]: { nextCursor: page.nextCursor, hasMore: page.hasMore, loadingOlder: false },
+        },
+      }));
+    } catch (error: any) {
+      set({ error: error.message || 'Failed to load the linked message' });
+      throw error;
+    }
+    return isLoaded();
+  },
 
-      set((state) => {
-        const existingMessages = state.messages[projectId] || [];
-        return {
-          messages: {
-            ...state.messages,
-            [projectId]: [...existingMessages, newMessage],
-          },
-        };
-      });
+  sendMessage: async (messageData) => {
+    const { projectId } = messageData;
+    const idempotencyKey = createIdempotencyKey();
+    const optimisticMessage = buildOptimisticMessage(messageData, idempotencyKey);
+
+    set((state) => ({
+      messages: {
+        ...state.messages,
+        [projectId]: [...(state.messages[projectId] || []), optimisticMessage],
+      },
+    }));
+
+    try {
+      const newMessage = await messagingService.sendMessage(messageData, idempotencyKey);
+      replaceLocalMessage(optimisticMessage, newMessage);
 
       // Emit real-time message update if socket is connected
       socketService.sendRealTimeMessage(projectId, messageData);
     } catch (error: any) {
+      if (isNetworkError(error)) {
+        // Keep the optimistic copy; the outbox delivers it when we are back online
+        await outbox.enqueue(
+          'message.send',
+          { messageData, message: optimisticMessage },
+          { id: idempotencyKey, label: `Message: "${messageData.content.slice(0, 40)}"` }
+        );
+        return;
+      }
+      replaceLocalMessage(optimisticMessage, null);
       set({ error: error.message || 'Failed to send message' });
       throw error;
     }
   },
 
+  editMessage: async (messageId, content) => {
+    try {
+      const edited = await messagingService.editMessage(messageId, content);
+      storeMessageUpdate(edited);
+      socketService.sendMessageUpdate(edited);
+    } catch (error: any) {
+      set({ error: error.message || 'Failed to edit message' });
+      throw error;
+    }
+  },
+
+  deleteMessage: async (messageId) => {
+    try {
+      const tombstone = await messagingService.deleteMessage(messageId);
+      storeMessageUpdate(tombstone);
+      socketService.sendMessageUpdate(tombstone);
+    } catch (error: any) {
+      set({ error: error.message || 'Failed to delete message' });
+      throw error;
+    }
+  },
+
+  toggleReaction: async (projectId, messageId, emoji) => {
+    const userId = useAuthStore.getState().user?._id;
+    const previous = (get().messages[projectId] || []).find((m) => m.id === messageId);
+    if (!userId || !previous) {
+      return;
+    }
+
+    // Reactions show at once and are put back if the server refuses them
+    set((state) => ({
+      messages: {
+        ...state.messages,
+        [projectId]: (state.messages[projectId] || []).map((m) =>
+          m.id === messageId ? { ...m, reactions: toggleReaction(m.reactions, emoji, userId) } : m
+        ),
+      },
+    }));
+    try {
+      const updated = await messagingService.toggleReaction(messageId, emoji);
+      storeMessageUpdate(updated);
+      socketService.sendMessageUpdate(updated);
+    } catch (error: any) {
+      set((state) => ({
+        messages: {
+          ...state.messages,
+          [projectId]: (state.messages[projectId] || []).map((m) =>
+            m.id === messageId ? { ...m, reactions: previous.reactions } : m
+          ),
+        },
+        error: error.message || 'Failed to update reaction',
+      }));
+      throw error;
+    }
+  },
+
+  searchMessages: async (userId, query) => {
+    const search = ++latestSearch;
+    if (!query.text.trim()) {
+      set({ messageSearch: { ...EMPTY_SEARCH, query } });
+      return;
+    }
+
+    set((state) => ({ messageSearch: { ...state.messageSearch, query, loading: true } }));
+    try {
+      const { hits, total } = await messagingService.searchMessages(userId, query);
+      if (search === latestSearch) {
+        set({ messageSearch: { query, hits, total, loading: false } });
+      }
+    } catch (error: any) {
+      if (search === latestSearch) {
+        set((state) => ({
+          messageSearch: { ...state.messageSearch, loading: false },
+          error: error.message || 'Failed to search messages',
+        }));
+      }
+      throw error;
+    }
+  },
+
+  clearMessageSearch: () => {
+    latestSearch += 1;
+    set({ messageSearch: EMPTY_SEARCH });
+  },
+
   fetchDisputes: async (userId, status) => {
     set({ loading: true });
     try {
@@ -131,6 +420,8 @@ export const useMessagingStore = create<MessagingState>((set, get) => ({
   },
 
   initializeSocket: (token: string, userId: string) => {
+    stopConnectionUpdates?.();
+    stopConnectionUpdates = socketService.onConnectionStateChange((connectionState) => set({ connectionState }));
     socketService.initialize(token, {
       onConnect: () => {
         console.log('Chat socket connected');
@@ -144,6 +435,10 @@ export const useMessagingStore = create<MessagingState>((set, get) => ({
         // Add the new message to the store
         set((state) => {
           const existingMessages = state.messages[message.projectId] || [];
+          // Catch-up after a reconnect can replay a message we already have
+          if (existingMessages.some(m => m.id === message.id)) {
+            return state;
+          }
           const updatedMessages = [...existingMessages, message];
 
           return {
@@ -154,6 +449,7 @@ export const useMessagingStore = create<MessagingState>((set, get) => ({
           };
         });
       },
+      onMessageUpdated: (message) => storeMessageUpdate(message),
       onMessageRead: (data) => {
         // Update message read status in store
         set((state) => {
@@ -172,14 +468,7 @@ export const useMessagingStore = create<MessagingState>((set, get) => ({
         // Handle conversation read status update
         console.log('Conversation marked as read:', data);
       },
-      onProjectStatusChange: (data) => {
-        // Handle project status change updates
-        console.log('Project status changed:', data);
-      },
-      onMilestoneStatusChange: (data) => {
-        // Handle milestone status change updates
-        console.log('Milestone status changed:', data);
-      },
+      // Project and milestone status changes reach the stores through the realtime bus
       onError: (error) => {
         console.error('Socket error:', error);
       }
@@ -194,6 +483,33 @@ export const useMessagingStore = create<MessagingState>((set, get) => ({
     socketService.leaveProjectRoom(projectId);
   },
 
+  applyRealtimeEvent: (event) => {
+    if (event.type !== 'presence.changed') {
+      return;
+    }
+    set((state) => {
+      const projectPresence = state.presence[event.projectId] || {};
+      const current = projectPresence[event.userId];
+      if (current && current.updatedAt > event.timestamp) {
+        return state;
+      }
+      return {
+        presence: {
+          ...state.presence,
+          [event.projectId]: {
+            ...projectPresence,
+            [event.userId]: {
+              online: event.online,
+              // Going offline is when the user was last seen, unless the server says otherwise
+              lastSeenAt: event.lastSeenAt ?? (event.online ? current?.lastSeenAt : event.timestamp),
+              updatedAt: event.timestamp,
+            },
+          },
+        },
+      };
+    });
+  },
+
   startTyping: (projectId: string, userId: string) => {
     // This would typically be called via socket to notify other users
     // For now, we'll just track it locally
@@ -1,6 +1,10 @@
 import { create } from 'zustand';
 import { Notification } from '@/types';
 import { notificationService } from '../api/notificationService';
+import type { RealtimeEvent } from '../socket/realtimeBus';
+
+// Pushed notifications may carry the Mongo `_id` or a plain `id`
+const notificationKey = (notification: Notification) => notification._id || (notification as { id?: string }).id;
 
 interface NotificationState {
   notifications: Notification[];
@@ -11,6 +15,7 @@ interface NotificationState {
   markAsRead: (notificationId: string) => void;
   markAllAsRead: () => void;
   deleteNotification: (notificationId: string) => void;
+  applyRealtimeEvent: (event: RealtimeEvent) => void;
   clearError: () => void;
 }
 
@@ -35,7 +40,7 @@ export const useNotificationStore = create<NotificationState>((set, get) => ({
       await notificationService.markAsRead(notificationId);
       set((state) => ({
         notifications: state.notifications.map(notif =>
-          notif.id === notificationId ? { ...notif, isRead: true } : notif
+          notificationKey(notif) === notificationId ? { ...notif, read: true } : notif
         ),
       }));
     } catch (error: any) {
@@ -51,7 +56,7 @@ export const useNotificationStore = create<NotificationState>((set, get) => ({
         const userId = currentState.notifications[0].userId; // Assuming all notifications belong to same user
         await notificationService.markAllAsRead(userId);
         set((state) => ({
-          notifications: state.notifications.map(notif => ({ ...notif, isRead: true })),
+          notifications: state.notifications.map(notif => ({ ...notif, read: true })),
         }));
       }
     } catch (error: any) {
@@ -64,7 +69,7 @@ export const useNotificationStore = create<NotificationState>((set, get) => ({
     try {
       await notificationService.deleteNotification(notificationId);
       set((state) => ({
-        notifications: state.notifications.filter(notif => notif.id !== notificationId),
+        notifications: state.notifications.filter(notif => notificationKey(notif) !== notificationId),
       }));
     } catch (error: any) {
       set({ error: error.message || 'Failed to delete notification' });
@@ -72,5 +77,16 @@ export const useNotificationStore = create<NotificationState>((set, get) => ({
     }
   },
 
+  applyRealtimeEvent: (event) => {
+    if (event.type !== 'notification.created') {
+      return;
+    }
+    const key = notificationKey(event.notification);
+    set((state) => ({
+      // Newest first, and a notification delivered twice is only shown once
+      notifications: [event.notification, ...state.notifications.filter(notif => notificationKey(notif) !== key)],
+    }));
+  },
+
   clearError: () => set({ error: null }),
 }));
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { create } from 'zustand';
+import { outbox, OutboxEntry, isOffline } from '../offline/outbox';
+// Importing the stores registers their replay handlers before the first flush
+import './projectStore';
+import './messagingStore';
+
+interface OutboxState {
+  entries: OutboxEntry[];
+  isOnline: boolean;
+  syncing: boolean;
+  initialized: boolean;
+
+  initialize: () => Promise<void>;
+  sync: () => Promise<void>;
+  dismiss: (entryId: string) => Promise<void>;
+}
+
+export const useOutboxStore = create<OutboxState>((set, get) => ({
+  entries: [],
+  isOnline: true,
+  syncing: false,
+  initialized: false,
+
+  initialize: async () => {
+    if (get().initialized) {
+      return;
+    }
+    set({ initialized: true, isOnline: !isOffline() });
+
+    outbox.subscribe((entries) => set({ entries }));
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => set({ isOnline: true }));
+      window.addEventListener('offline', () => set({ isOnline: false }));
+    }
+
+    set({ syncing: true });
+    try {
+      await outbox.start();
+    } finally {
+      set({ syncing: false });
+    }
+  },
+
+  sync: async () => {
+    set({ syncing: true });
+    try {
+      await outbox.flush();
+    } finally {
+      set({ syncing: false });
+    }
+  },
+
+  dismiss: async (entryId) => {
+    await outbox.discard(entryId);
+  },
+}));
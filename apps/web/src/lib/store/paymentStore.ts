@@ -1,6 +1,20 @@
 import { create } from 'zustand';
 import { EscrowAccount, Transaction, Balance, Payout } from '@/types';
 import { paymentService } from '../api';
+import { DepositFundsData } from '../api/paymentService';
+import { Money } from '../money';
+import { currencyService } from '../services/currencyService';
+import type { RealtimeEvent } from '../socket/realtimeBus';
+
+// Conversions shown next to payments should not use rates older than an hour;
+// if the refresh fails the previous rates stay in use and report as stale
+const refreshStaleRates = () =>
+  currencyService.ensureFreshRates().catch((error) => {
+    console.warn('Could not refresh exchange rates:', error);
+  });
+
+// Deposits carry a Money value; the API receives it as minor units plus currency
+export type DepositRequest = Omit<DepositFundsData, 'amount' | 'currency'> & { amount: Money };
 
 interface PaymentState {
   escrowAccounts: Record<string, EscrowAccount>; // projectId -> EscrowAccount
@@ -12,7 +26,7 @@ interface PaymentState {
 
   // Escrow actions
   fetchEscrowAccount: (projectId: string) => Promise<void>;
-  depositFunds: (depositData: any) => Promise<EscrowAccount>;
+  depositFunds: (depositData: DepositRequest) => Promise<EscrowAccount>;
 
   // Transaction actions
   fetchTransactions: (userId: string, filters?: any) => Promise<void>;
@@ -29,6 +43,9 @@ interface PaymentState {
   getPaymentMethods: (userId: string) => Promise<any[]>;
   removePaymentMethod: (userId: string, methodId: string) => Promise<void>;
 
+  // Realtime updates
+  applyRealtimeEvent: (event: RealtimeEvent) => void;
+
   clearError: () => void;
 }
 
@@ -43,7 +60,10 @@ export const usePaymentStore = create<PaymentState>((set, get) => ({
   fetchEscrowAccount: async (projectId) => {
     set({ loading: true });
     try {
-      const escrowAccount = await paymentService.getEscrowAccount(projectId);
+      const [escrowAccount] = await Promise.all([
+        paymentService.getEscrowAccount(projectId),
+        refreshStaleRates(),
+      ]);
       set((state) => ({
         escrowAccounts: { ...state.escrowAccounts, [projectId]: escrowAccount },
         loading: false,
@@ -54,10 +74,14 @@ export const usePaymentStore = create<PaymentState>((set, get) => ({
     }
   },
 
-  depositFunds: async (depositData) => {
+  depositFunds: async ({ amount, ...depositData }) => {
     set({ loading: true });
     try {
-      const updatedEscrowAccount = await paymentService.depositFunds(depositData);
+      const updatedEscrowAccount = await paymentService.depositFunds({
+        ...depositData,
+        amount: amount.amount,
+        currency: amount.currency,
+      });
       const { projectId } = depositData;
       set((state) => ({
         escrowAccounts: { ...state.escrowAccounts, [projectId]: updatedEscrowAccount },
@@ -73,7 +97,10 @@ export const usePaymentStore = create<PaymentState>((set, get) => ({
   fetchTransactions: async (userId, filters = {}) => {
     set({ loading: true });
     try {
-      const transactions = await paymentService.getTransactions(userId, filters);
+      const [transactions] = await Promise.all([
+        paymentService.getTransactions(userId, filters),
+        refreshStaleRates(),
+      ]);
       set({ transactions, loading: false });
     } catch (error: any) {
       set({ error: error.message || 'Failed to fetch transactions', loading: false });
@@ -159,5 +186,21 @@ export const usePaymentStore = create<PaymentState>((set, get) => ({
     // No-op implementation to maintain existing interface if called
   },
 
+  applyRealtimeEvent: (event) => {
+    if (event.type !== 'balance.updated') {
+      return;
+    }
+    set((state) => {
+      // Only the signed-in user's balance is held here, once it has been fetched
+      if (!state.balance || state.balance.userId !== event.userId) {
+        return state;
+      }
+      if (new Date(state.balance.lastUpdated).getTime() > event.timestamp.getTime()) {
+        return state;
+      }
+      return { balance: { ...state.balance, ...event.balance, lastUpdated: event.timestamp } };
+    });
+  },
+
   clearError: () => set({ error: null }),
 }));
\ No newline at end of file
@@ -1,6 +1,25 @@
 import { create } from 'zustand';
 import { Project, Milestone, ProjectActivity, ChangeProposal } from '@/types';
 import { projectService } from '../api';
+import {
+  outbox,
+  createIdempotencyKey,
+  isNetworkError,
+  OutboxHandler,
+} from '../offline/outbox';
+import { Money } from '../money';
+import { assertValidAllocation } from '../milestoneAllocation';
+import { assertMilestoneTransition, milestoneRules, MilestoneAction, MilestoneActor } from '../milestoneWorkflow';
+import {
+  CounterProposalInput,
+  ProposalParty,
+  approvalPatch,
+  counterPropose,
+  resolveProposal,
+  revertPatch,
+} from '../changeProposal';
+import { FrontendError } from '../utils/errorHandler';
+import type { RealtimeEvent } from '../socket/realtimeBus';
 
 // Define ProjectInvitation type if not defined elsewhere
 interface ProjectInvitation {
@@ -17,11 +36,48 @@ interface ProjectInvitation {
   declinedAt?: string;
 }
 
+const ACTIVITY_PAGE_SIZE = 20;
+
+// A pushed status is dropped when the local copy was updated after the event was sent
+const isNewer = (entity: { updatedAt?: Date | string }, timestamp: Date) =>
+  !entity.updatedAt || new Date(entity.updatedAt).getTime() <= timestamp.getTime();
+
+const withStatus = <T extends { id: string; status: string; updatedAt?: Date | string }>(
+  items: T[],
+  id: string,
+  status: T['status'],
+  timestamp: Date
+): T[] => items.map(item => (item.id === id && isNewer(item, timestamp) ? { ...item, status, updatedAt: timestamp } : item));
+
+const findChangeProposal = (proposals: ChangeProposal[], proposalId: string) => {
+  const proposal = proposals.find(cp => cp.id === proposalId);
+  if (!proposal) {
+    throw new FrontendError('Change proposal not found', 404, { proposalId });
+  }
+  return proposal;
+};
+
+// Milestones must split the budget exactly before a project is sent to the API
+const assertMilestonesMatchBudget = (projectData: any) => {
+  const milestones: { amount: number }[] = projectData.milestones || [];
+  if (milestones.length === 0) {
+    return;
+  }
+
+  const currency = projectData.currency || 'USD';
+  assertValidAllocation(
+    Money.fromMinor(projectData.totalBudget ?? projectData.budget ?? 0, currency),
+    milestones.map(milestone => Money.fromMinor(milestone.amount, currency))
+  );
+};
+
 interface ProjectState {
   projects: Project[];
   currentProject: Project | null;
   milestones: Milestone[];
   activities: ProjectActivity[];
+  activitiesPage: number;
+  activitiesHasMore: boolean;
   invitations: ProjectInvitation[];
   changeProposals: ChangeProposal[];
   loading: boolean;
@@ -34,6 +90,8 @@ interface ProjectState {
   updateProject: (projectId: string, data: any) => Promise<void>;
   deleteProject: (projectId: string) => Promise<void>;
   inviteFreelancer: (projectId: string, email: string) => Promise<void>;
+  toggleProjectSharing: (projectId: string, enabled: boolean) => void;
+  updateProjectStatus: (projectId: string, status: Project['status']) => void;
 
   // Project Invitation actions
   fetchInvitations: (freelancerId: string) => Promise<void>;
@@ -45,23 +103,28 @@ interface ProjectState {
   createMilestone: (milestoneData: any) => Promise<void>;
   updateMilestone: (milestoneId: string, data: any) => Promise<void>;
   startMilestone: (milestoneId: string) => Promise<void>;
-  submitMilestone: (milestoneId: string, submissionData: any) => Promise<void>;
+  submitMilestone: (milestoneId: string, submissionData: any) => Promise<Milestone>;
   approveMilestone: (milestoneId: string, feedback?: string) => Promise<void>;
   requestRevision: (milestoneId: string, revisionNotes: string) => Promise<void>;
   disputeMilestone: (milestoneId: string, disputeData: any) => Promise<void>;
 
   // Activity actions
   fetchActivities: (projectId: string) => Promise<void>;
+  fetchMoreActivities: (projectId: string) => Promise<void>;
 
   // Payment actions
-  releasePayment: (milestoneId: string) => Promise<void>;
+  releasePayment: (milestoneId: string) => Promise<Milestone>;
 
   // Change proposal actions
   fetchChangeProposals: (projectId: string) => Promise<void>;
   createChangeProposal: (proposalData: any) => Promise<ChangeProposal>;
   updateChangeProposal: (proposalId: string, data: any) => Promise<ChangeProposal>;
-  approveChangeProposal: (proposalId: string) => Promise<ChangeProposal>;
-  rejectChangeProposal: (proposalId: string) => Promise<ChangeProposal>;
+  counterChangeProposal: (proposalId: string, counter: CounterProposalInput) => Promise<ChangeProposal>;
+  approveChangeProposal: (proposalId: string, party: ProposalParty, userId: string, notes?: string) => Promise<ChangeProposal>;
+  rejectChangeProposal: (proposalId: string, party: ProposalParty, userId: string, notes?: string) => Promise<ChangeProposal>;
+
+  // Realtime updates
+  applyRealtimeEvent: (event: RealtimeEvent) => void;
 
   // Demo data initialization
   initializeDemoData: () => void;
@@ -69,6 +132,116 @@ interface ProjectState {
   clearError: () => void;
 }
 
+type MilestoneMutationType = 'milestone.submit' | 'milestone.approve';
+
+interface MilestoneMutation {
+  milestoneId: string;
+  submissionData?: { deliverables: File[]; submissionNotes?: string };
+  feedback?: string;
+  // Fields the optimistic update overwrote, restored if the server rejects the change
+  previous?: Partial<Milestone>;
+}
+
+const optimisticMilestonePatch = (
+  type: MilestoneMutationType,
+  payload: MilestoneMutation,
+  at: Date
+): Partial<Milestone> =>
+  type === 'milestone.submit'
+    ? { status: 'SUBMITTED', submissionNotes: payload.submissionData?.submissionNotes, submittedAt: at }
+    : { status: 'APPROVED', approvalNotes: payload.feedback, approvedAt: at };
+
+const patchMilestone = (milestoneId: string, patch: Partial<Milestone>) =>
+  useProjectStore.setState((state) => ({
+    milestones: state.milestones.map((m) => (m.id === milestoneId ? { ...m, ...patch } : m)),
+  }));
+
+const replaceMilestone = (milestone: Milestone) =>
+  useProjectStore.setState((state) => ({
+    milestones: state.milestones.map((m) => (m.id === milestone.id ? milestone : m)),
+  }));
+
+// Re-applies queued milestone changes on top of freshly fetched data
+const withPendingMilestoneChanges = (milestones: Milestone[]): Milestone[] =>
+  outbox
+    .getEntries()
+    .filter((entry) => entry.status === 'pending' && entry.type.startsWith('milestone.'))
+    .reduce((list, entry) => list.map((m) =>
+      m.id === entry.payload.milestoneId
+        ? { ...m, ...optimisticMilestonePatch(entry.type as MilestoneMutationType, entry.payload, new Date(entry.createdAt)) }
+        : m
+    ), milestones);
+
+const milestoneOutboxHandler = (
+  send: (payload: MilestoneMutation, idempotencyKey: string) => Promise<Milestone>
+): OutboxHandler<MilestoneMutation> => ({
+  replay: send,
+  onSynced: (_payload, milestone: Milestone) => replaceMilestone(milestone),
+  onRejected: (payload) => {
+    // Roll back, then pick up whatever the other party changed (e.g. an approval that won the race)
+    patchMilestone(payload.milestoneId, payload.previous || {});
+    projectService.getMilestoneById(payload.milestoneId)
+      .then(replaceMilestone)
+      .catch(() => undefined);
+  },
+});
+
+const milestoneHandlers: Record<MilestoneMutationType, OutboxHandler<MilestoneMutation>> = {
+  'milestone.submit': milestoneOutboxHandler(({ milestoneId, submissionData }, key) =>
+    projectService.submitMilestone(milestoneId, submissionData || { deliverables: [] }, key)
+  ),
+  'milestone.approve': milestoneOutboxHandler(({ milestoneId, feedback }, key) =>
+    projectService.approveMilestone(milestoneId, feedback, key)
+  ),
+};
+
+outbox.register('milestone.submit', milestoneHandlers['milestone.submit']);
+outbox.register('milestone.approve', milestoneHandlers['milestone.approve']);
+
+// Applies the change optimistically and sends it; network failures are queued in the outbox
+// and replayed later, anything else rolls the optimistic change back and rethrows.
+const runMilestoneMutation = async (
+  type: MilestoneMutationType,
+  payload: MilestoneMutation,
+  label: string
+): Promise<Milestone | undefined> => {
+  const idempotencyKey = createIdempotencyKey();
+  const current = useProjectStore.getState().milestones.find((m) => m.id === payload.milestoneId);
+  const patch = optimisticMilestonePatch(type, payload, new Date());
+  const previous: Partial<Milestone> = {};
+  (Object.keys(patch) as (keyof Milestone)[]).forEach((key) => {
+    (previous as any)[key] = current?.[key];
+  });
+
+  patchMilestone(payload.milestoneId, patch);
+  try {
+    const updated = await milestoneHandlers[type].replay(payload, idempotencyKey);
+    replaceMilestone(updated);
+    return updated;
+  } catch (error: any) {
+    if (isNetworkError(error)) {
+      await outbox.enqueue(type, { ...payload, previous }, { id: idempotencyKey, label });
+      return current ? { ...current, ...patch } : undefined;
+    }
+    patchMilestone(payload.milestoneId, previous);
+    throw error;
+  }
+};
+
+// Checks an action against the workflow rules of the milestone's project. Milestones
+// that are not loaded yet are left to the API to check.
+const assertMilestoneAction = (milestoneId: string, action: MilestoneAction, actor: MilestoneActor) => {
+  const { milestones, projects, currentProject } = useProjectStore.getState();
+  const milestone = milestones.find((m) => m.id === milestoneId);
+  if (!milestone) {
+    return;
+  }
+  const project = currentProject?.id === milestone.projectId
+    ? currentProject
+    : projects.find((p) => p.id === milestone.projectId);
+  assertMilestoneTransition(milestone, action, actor, milestoneRules(project));
+};
+
 // Additional milestone-specific functionality if needed
 export const useMilestoneStore = () => {
   const { milestones, fetchMilestones, createMilestone, updateMilestone, startMilestone, submitMilestone, approveMilestone, requestRevision, disputeMilestone } = useProjectStore();
@@ -90,6 +263,8 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   currentProject: null,
   milestones: [],
   activities: [],
+  activitiesPage: 0,
+  activitiesHasMore: false,
   invitations: [],
   changeProposals: [],
   loading: false,
@@ -99,7 +274,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     set({ loading: true });
     try {
       const response = await projectService.getProjects(userId, {}, { page: 1, limit: 20 });
-      set({ projects: response.data, loading: false });
+      set({ projects: response.items, loading: false });
     } catch (error: any) {
       set({ error: error.message || 'Failed to fetch projects', loading: false });
       throw error;
@@ -120,6 +295,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   createProject: async (projectData) => {
     set({ loading: true });
     try {
+      assertMilestonesMatchBudget(projectData);
       const newProject = await projectService.createProject(projectData);
 
       set((state) => ({
@@ -146,7 +322,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   },
 
   // Function to update project status and disable sharing on acceptance
-  updateProjectStatus: (projectId: string, status: string) => {
+  updateProjectStatus: (projectId: string, status: Project['status']) => {
     set((state) => ({
       projects: state.projects.map((project) =>
         project.id === projectId
@@ -210,7 +386,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     try {
       const milestones = await projectService.getMilestones(projectId);
       set({
-        milestones,
+        milestones: withPendingMilestoneChanges(milestones),
         loading: false
       });
     } catch (error: any) {
@@ -249,6 +425,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
 
   startMilestone: async (milestoneId) => {
     try {
+      assertMilestoneAction(milestoneId, 'START', 'freelancer');
       const updatedMilestone = await projectService.startMilestone(milestoneId);
       set((state) => ({
         milestones: state.milestones.map((m) => (m.id === milestoneId ? updatedMilestone : m)),
@@ -262,13 +439,14 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   submitMilestone: async (milestoneId, submissionData) => {
     set({ loading: true });
     try {
-      const updatedMilestone = await projectService.submitMilestone(milestoneId, submissionData);
-      set((state) => ({
-        milestones: state.milestones.map(m =>
-          m.id === milestoneId ? updatedMilestone : m
-        ),
-        loading: false,
-      }));
+      assertMilestoneAction(milestoneId, 'SUBMIT', 'freelancer');
+      const title = get().milestones.find((m) => m.id === milestoneId)?.title || 'milestone';
+      const updatedMilestone = await runMilestoneMutation(
+        'milestone.submit',
+        { milestoneId, submissionData },
+        `Submit "${title}"`
+      );
+      set({ loading: false });
       return updatedMilestone;
     } catch (error: any) {
       set({ error: error.message || 'Failed to submit milestone', loading: false });
@@ -278,10 +456,9 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
 
   approveMilestone: async (milestoneId, feedback) => {
     try {
-      const updatedMilestone = await projectService.approveMilestone(milestoneId, feedback);
-      set((state) => ({
-        milestones: state.milestones.map((m) => (m.id === milestoneId ? updatedMilestone : m)),
-      }));
+      assertMilestoneAction(milestoneId, 'APPROVE', 'client');
+      const title = get().milestones.find((m) => m.id === milestoneId)?.title || 'milestone';
+      await runMilestoneMutation('milestone.approve', { milestoneId, feedback }, `Approve "${title}"`);
     } catch (error: any) {
       set({ error: error.message || 'Failed to approve milestone' });
       throw error;
@@ -290,6 +467,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
 
   requestRevision: async (milestoneId, revisionNotes) => {
     try {
+      assertMilestoneAction(milestoneId, 'REQUEST_REVISION', 'client');
       const updatedMilestone = await projectService.requestRevision(milestoneId, revisionNotes);
       set((state) => ({
         milestones: state.milestones.map((m) => (m.id === milestoneId ? updatedMilestone : m)),
@@ -302,6 +480,8 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
 
   disputeMilestone: async (milestoneId, disputeData) => {
     try {
+      // Either party may dispute; only the status matters
+      assertMilestoneAction(milestoneId, 'DISPUTE', 'client');
       const updatedMilestone = await projectService.disputeMilestone(milestoneId, disputeData);
       set((state) => ({
         milestones: state.milestones.map((m) => (m.id === milestoneId ? updatedMilestone : m)),
@@ -314,8 +494,35 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
 
   fetchActivities: async (projectId) => {
     try {
-      const response = await projectService.getProjectActivities(projectId, { page: 1, limit: 50 });
-      set({ activities: response.data });
+      const response = await projectService.getProjectActivities(projectId, { page: 1, limit: ACTIVITY_PAGE_SIZE });
+      set({
+        activities: response.items,
+        activitiesPage: 1,
+        activitiesHasMore: response.items.length < response.total,
+      });
+    } catch (error: any) {
+      set({ error: error.message || 'Failed to fetch activities' });
+      throw error;
+    }
+  },
+
+  // Appends the next page; entries already loaded are skipped so a page that
+  // shifted because of new activity does not show duplicates
+  fetchMoreActivities: async (projectId) => {
+    const { activities, activitiesPage, activitiesHasMore } = get();
+    if (!activitiesHasMore) {
+      return;
+    }
+    try {
+      const page = activitiesPage + 1;
+      const response = await projectService.getProjectActivities(projectId, { page, limit: ACTIVITY_PAGE_SIZE });
+      const known = new Set(activities.map(activity => activity.id));
+      const merged = [...activities, ...response.items.filter(activity => !known.has(activity.id))];
+      set({
+        activities: merged,
+        activitiesPage: page,
+        activitiesHasMore: response.items.length > 0 && page * ACTIVITY_PAGE_SIZE < response.total,
+      });
     } catch (error: any) {
       set({ error: error.message || 'Failed to fetch activities' });
       throw error;
@@ -382,10 +589,8 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   releasePayment: async (milestoneId) => {
     set({ loading: true });
     try {
-      // This would require a payment service call - let's see if it exists
-      // For now, I'll call a payment service method that might need to be created
-      // We assume there's a payment service that handles releasing payments
-      const updatedMilestone = await projectService.updateMilestone(milestoneId, { status: 'PAID' });
+      // Approval is what releases a milestone's escrow to the freelancer
+      const updatedMilestone = await projectService.updateMilestone(milestoneId, { status: 'APPROVED' });
 
       set((state) => ({
         milestones: state.milestones.map(m =>
@@ -404,12 +609,11 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   fetchChangeProposals: async (projectId) => {
     set({ loading: true });
     try {
-      // Assuming there's an API endpoint for change proposals
-      // This might need to be implemented in the service if it doesn't exist
-      // For now, I'll just return empty array as this endpoint may not be implemented yet
-      // We'll need to implement this properly based on actual API implementation
-      set({ changeProposals: [], loading: false });
-      return [];
+      const proposals = await projectService.getChangeProposals(projectId);
+      set((state) => ({
+        changeProposals: [...state.changeProposals.filter(cp => cp.projectId !== projectId), ...proposals],
+        loading: false,
+      }));
     } catch (error: any) {
       set({ error: error.message || 'Failed to fetch change proposals', loading: false });
       throw error;
@@ -419,20 +623,10 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   createChangeProposal: async (proposalData) => {
     set({ loading: true });
     try {
-      // Mock implementation: create a new change proposal
-      const newProposal: ChangeProposal = {
-        id: `proposal-${Date.now()}`,
-        projectId: proposalData.projectId,
-        milestoneId: proposalData.milestoneId,
+      const newProposal = await projectService.createChangeProposal({
+        ...proposalData,
         proposer: proposalData.proposer || 'freelancer',
-        status: 'PENDING',
-        originalValues: proposalData.originalValues || {},
-        proposedValues: proposalData.proposedValues || {},
-        reason: proposalData.reason || '',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
+      });
       set((state) => ({
         changeProposals: [...state.changeProposals, newProposal],
         loading: false,
@@ -447,97 +641,102 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   updateChangeProposal: async (proposalId, data) => {
     set({ loading: true });
     try {
-      set((state) => {
-        const updatedProposals = state.changeProposals.map(cp =>
-          cp.id === proposalId
-            ? {
-                ...cp,
-                ...data,
-                updatedAt: new Date(),
-              }
-            : cp
-        );
-        return {
-          changeProposals: updatedProposals,
-          loading: false,
-        };
-      });
+      const updated = await projectService.updateChangeProposal(proposalId, data);
+      set((state) => ({
+        changeProposals: state.changeProposals.map(cp => (cp.id === proposalId ? updated : cp)),
+        loading: false,
+      }));
+      return updated;
     } catch (error: any) {
       set({ error: error.message || 'Failed to update change proposal', loading: false });
       throw error;
     }
   },
 
-  approveChangeProposal: async (proposalId) => {
+  // The original is marked countered first; if the counter cannot be created it is reopened
+  counterChangeProposal: async (proposalId, counter) => {
     set({ loading: true });
     try {
-      set((state) => {
-        // Find the proposal to approve
-        const proposalToApprove = state.changeProposals.find(cp => cp.id === proposalId);
-        if (!proposalToApprove) {
-          throw new Error('Change proposal not found');
-        }
-
-        // Update the proposal status
-        const updatedProposals = state.changeProposals.map(cp =>
-          cp.id === proposalId
-            ? {
-                ...cp,
-                status: 'APPROVED',
-                resolvedAt: new Date(),
-                updatedAt: new Date(),
-              }
-            : cp
-        );
-
-        // Update the corresponding milestone with the proposed values
-        let updatedMilestones = state.milestones;
-        if (proposalToApprove.milestoneId) {
-          updatedMilestones = state.milestones.map(m =>
-            m.id === proposalToApprove.milestoneId
-              ? {
-                  ...m,
-                  ...(proposalToApprove.proposedValues.title && { title: proposalToApprove.proposedValues.title }),
-                  ...(proposalToApprove.proposedValues.description && { description: proposalToApprove.proposedValues.description }),
-                  ...(proposalToApprove.proposedValues.deadline && { deadline: proposalToApprove.proposedValues.deadline }),
-                  ...(proposalToApprove.proposedValues.amount && { amount: proposalToApprove.proposedValues.amount }),
-                  updatedAt: new Date(),
-                }
-              : m
-          );
-        }
-
-        return {
-          changeProposals: updatedProposals,
-          milestones: updatedMilestones,
-          loading: false,
-        };
+      const proposal = findChangeProposal(get().changeProposals, proposalId);
+      const { countered, counter: draft } = counterPropose(proposal, counter);
+      const answered = await projectService.updateChangeProposal(proposalId, {
+        status: countered.status,
+        resolvedAt: countered.resolvedAt,
+        resolutionNotes: countered.resolutionNotes,
       });
+
+      let created: ChangeProposal;
+      try {
+        created = await projectService.createChangeProposal(draft);
+      } catch (error) {
+        await projectService.updateChangeProposal(proposalId, { status: proposal.status, resolvedAt: null, resolutionNotes: null })
+          .catch(revertError => console.error('Failed to reopen proposal after counter error:', revertError));
+        throw error;
+      }
+
+      set((state) => ({
+        changeProposals: [...state.changeProposals.map(cp => (cp.id === proposalId ? answered : cp)), created],
+        loading: false,
+      }));
+      return created;
+    } catch (error: any) {
+      set({ error: error.message || 'Failed to counter change proposal', loading: false });
+      throw error;
+    }
+  },
+
+  // The milestone update and the proposal status change go together: if the
+  // proposal cannot be marked approved, the milestone is put back
+  approveChangeProposal: async (proposalId, party, userId, notes) => {
+    set({ loading: true });
+    try {
+      const proposal = findChangeProposal(get().changeProposals, proposalId);
+      const approved = resolveProposal(proposal, 'APPROVED', party, userId, notes);
+      const milestone = get().milestones.find(m => m.id === proposal.milestoneId)
+        || await projectService.getMilestoneById(proposal.milestoneId);
+      const updatedMilestone = await projectService.updateMilestone(proposal.milestoneId, approvalPatch(proposal, milestone));
+
+      let saved: ChangeProposal;
+      try {
+        saved = await projectService.updateChangeProposal(proposalId, {
+          status: approved.status,
+          resolvedAt: approved.resolvedAt,
+          resolvedBy: approved.resolvedBy,
+          resolutionNotes: approved.resolutionNotes,
+        });
+      } catch (error) {
+        await projectService.updateMilestone(proposal.milestoneId, revertPatch(proposal))
+          .catch(revertError => console.error('Failed to revert milestone after approval error:', revertError));
+        throw error;
+      }
+
+      set((state) => ({
+        changeProposals: state.changeProposals.map(cp => (cp.id === proposalId ? saved : cp)),
+        milestones: state.milestones.map(m => (m.id === updatedMilestone.id ? updatedMilestone : m)),
+        loading: false,
+      }));
+      return saved;
     } catch (error: any) {
       set({ error: error.message || 'Failed to approve change proposal', loading: false });
       throw error;
     }
   },
 
-  rejectChangeProposal: async (proposalId) => {
+  rejectChangeProposal: async (proposalId, party, userId, notes) => {
     set({ loading: true });
     try {
-      set((state) => {
-        const updatedProposals = state.changeProposals.map(cp =>
-          cp.id === proposalId
-            ? {
-                ...cp,
-                status: 'REJECTED',
-                resolvedAt: new Date(),
-                updatedAt: new Date(),
-              }
-            : cp
-        );
-        return {
-          changeProposals: updatedProposals,
-          loading: false,
-        };
+      const rejected = resolveProposal(findChangeProposal(get().changeProposals, proposalId), 'REJECTED', party, userId, notes);
+      const saved = await projectService.updateChangeProposal(proposalId, {
+        status: rejected.status,
+        resolvedAt: rejected.resolvedAt,
+        resolvedBy: rejected.resolvedBy,
+        resolutionNotes: rejected.resolutionNotes,
       });
+      set((state) => ({
+        changeProposals: state.changeProposals.map(cp => (cp.id === proposalId ? saved : cp)),
+        loading: false,
+      }));
+      return saved;
     } catch (error: any) {
       set({ error: error.message || 'Failed to reject change proposal', loading: false });
       throw error;
@@ -871,5 +1070,24 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     });
   },
 
+  applyRealtimeEvent: (event) => {
+    if (event.type === 'project.status_changed') {
+      set((state) => ({
+        projects: withStatus(state.projects, event.projectId, event.newStatus, event.timestamp),
+        currentProject: state.currentProject && withStatus([state.currentProject], event.projectId, event.newStatus, event.timestamp)[0],
+      }));
+    } else if (event.type === 'milestone.status_changed') {
+      set((state) => ({
+        milestones: withStatus(state.milestones, event.milestoneId, event.newStatus, event.timestamp),
+        currentProject: state.currentProject?.id === event.projectId && state.currentProject.milestones
+          ? {
+              ...state.currentProject,
+              milestones: withStatus(state.currentProject.milestones, event.milestoneId, event.newStatus, event.timestamp),
+            }
+          : state.currentProject,
+      }));
+    }
+  },
+
   clearError: () => set({ error: null }),
 }));
\ No newline at end of file
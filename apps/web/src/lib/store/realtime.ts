@@ -0,0 +1,17 @@
+import { RealtimeBus, realtimeBus } from '../socket/realtimeBus';
+import { useProjectStore } from './projectStore';
+import { useNotificationStore } from './notificationStore';
+import { usePaymentStore } from './paymentStore';
+import { useMessagingStore } from './messagingStore';
+
+// Subscribes every store to the events it patches; returns the disconnect function
+export const connectRealtimeStores = (bus: RealtimeBus = realtimeBus) => {
+  const unsubscribers = [
+    bus.on('project.status_changed', (event) => useProjectStore.getState().applyRealtimeEvent(event)),
+    bus.on('milestone.status_changed', (event) => useProjectStore.getState().applyRealtimeEvent(event)),
+    bus.on('notification.created', (event) => useNotificationStore.getState().applyRealtimeEvent(event)),
+    bus.on('balance.updated', (event) => usePaymentStore.getState().applyRealtimeEvent(event)),
+    bus.on('presence.changed', (event) => useMessagingStore.getState().applyRealtimeEvent(event)),
+  ];
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+};
@@ -37,8 +37,13 @@ export const useUserStore = create<UserState>((set) => ({
     try {
       const data = await adminService.getUsers(params);
       set({
-        users: data.items || [],
-        pagination: data.pagination || { total: 0, page: 1, limit: 20, totalPages: 0 },
+        users: data.items,
+        pagination: {
+          total: data.total,
+          page: data.page,
+          limit: data.limit,
+          totalPages: data.limit ? Math.ceil(data.total / data.limit) : 0
+        },
         loading: false
       });
     } catch (error: any) {
@@ -1,20 +1,19 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { Money } from "./money";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-export function formatCurrency(amount: number): string {
-  // Amount is in cents, so convert to dollars
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-  }).format(amount / 100);
+// Amount is in minor units (cents for USD), formatted with the currency's exponent;
+// a missing amount renders as a dash. lib/utils/index.ts formats major units.
+export function formatMinor(amount: number | null | undefined, currency: string = 'USD'): string {
+  return Number.isFinite(amount) ? Money.fromMinor(Math.round(amount as number), currency).format() : '—';
 }
 
-export function formatDate(dateString: string): string {
-  const date = new Date(dateString);
+export function formatDate(value: Date | string): string {
+  const date = new Date(value);
   return date.toLocaleDateString('en-US', {
     year: 'numeric',
     month: 'short',
@@ -24,8 +23,8 @@ export function formatDate(dateString: string): string {
   });
 }
 
-export function formatTimeAgo(dateString: string): string {
-  const date = new Date(dateString);
+export function formatTimeAgo(value: Date | string): string {
+  const date = new Date(value);
   const now = new Date();
   const seconds = Math.floor((now.getTime() - date.getTime()) / 1000);
 
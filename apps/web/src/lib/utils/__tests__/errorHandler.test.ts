@@ -74,8 +74,9 @@ describe('Frontend Error Handler', () => {
 
       expect(result.message).toBe('Session expired. Please log in again.');
       expect(result.status).toBe(401);
-      expect(localStorageMock.removeItem).toHaveBeenCalledWith('access_token');
-      expect(localStorageMock.removeItem).toHaveBeenCalledWith('refresh_token');
+      // Only a failed token refresh in the API client ends the session
+      expect(localStorageMock.removeItem).not.toHaveBeenCalled();
+      expect(window.location.href).toBe('');
     });
 
     test('should handle 404 Not Found', () => {
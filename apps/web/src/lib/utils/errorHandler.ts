@@ -39,10 +39,7 @@ export const handleApiError = (error: any): ErrorData => {
       };
     
     case 401:
-      // Handle unauthorized access
-      localStorage.removeItem('access_token');
-      localStorage.removeItem('refresh_token');
-      window.location.href = '/auth/login';
+      // Signing out is the API client's call, once a token refresh has failed
       return {
         message: 'Session expired. Please log in again.',
         status
@@ -1,15 +1,11 @@
 // Common utility functions for the Delivault application
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { Money } from '../money';
 
-// Format currency with proper locale and options
+// Format an amount given in major units (e.g. dollars typed into a form)
 export const formatCurrency = (amount: number, currency: string = 'USD'): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: currency,
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(amount);
+  return Money.fromMajor(amount, currency).format();
 };
 
 // Utility function for merging class names
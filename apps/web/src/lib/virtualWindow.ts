@@ -0,0 +1,65 @@
+// Windowing for long lists with rows of varying height. Rows that have been
+// rendered report their measured height; the rest use an estimate. Only the rows
+// overlapping the viewport (plus `overscan` on either side) are rendered, placed
+// at their offset inside a spacer as tall as the whole list.
+
+export interface VirtualWindowInput {
+  count: number;
+  heightOf: (index: number) => number;
+  scrollTop: number;
+  viewportHeight: number;
+  overscan?: number;
+}
+
+export interface VirtualWindow {
+  // Rendered rows are [start, end)
+  start: number;
+  end: number;
+  // Top of the first rendered row
+  offsetTop: number;
+  totalHeight: number;
+}
+
+// offsets[i] is the top of row i; offsets[count] is the total height
+export const rowOffsets = (count: number, heightOf: (index: number) => number): number[] => {
+  const offsets = new Array<number>(count + 1);
+  offsets[0] = 0;
+  for (let index = 0; index < count; index++) {
+    offsets[index + 1] = offsets[index] + heightOf(index);
+  }
+  return offsets;
+};
+
+// Last row whose top is at or above `position`
+const rowAt = (offsets: number[], position: number) => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= position) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return Math.max(0, low);
+};
+
+export const computeVirtualWindow = ({
+  count,
+  heightOf,
+  scrollTop,
+  viewportHeight,
+  overscan = 5,
+}: VirtualWindowInput, offsets: number[] = rowOffsets(count, heightOf)): VirtualWindow => {
+  const totalHeight = offsets[count];
+  if (count === 0) {
+    return { start: 0, end: 0, offsetTop: 0, totalHeight };
+  }
+  const top = Math.min(Math.max(0, scrollTop), totalHeight);
+  const first = rowAt(offsets, top);
+  const last = rowAt(offsets, top + Math.max(viewportHeight, 1));
+  const start = Math.max(0, first - overscan);
+  const end = Math.min(count, last + 1 + overscan);
+  return { start, end, offsetTop: offsets[start], totalHeight };
+};
@@ -12,10 +12,49 @@ export interface Message {
   readBy: string[]; // Array of user IDs who read the message
   sentAt: Date;
   readAt?: Date;
+  editedAt?: Date;
+  editHistory?: MessageEdit[]; // previous versions, oldest first
+  deletedAt?: Date; // tombstone: content and attachments are cleared
+  deletedBy?: string;
+  reactions?: MessageReaction[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type MessageSearchField = 'content' | 'attachment' | 'project';
+
+export interface MessageSearchHit {
+  message: Message;
+  projectName: string;
+  matchedIn: MessageSearchField[];
+  score: number;
+}
+
+export interface MessageSearchResults {
+  hits: MessageSearchHit[]; // best first
+  total: number; // all matches, including any past the limit
+}
+
+// A version of a message before it was edited
+export interface MessageEdit {
+  content: string;
+  editedAt: Date;
+  editedBy: string; // user ID
+}
+
+export interface MessageReaction {
+  emoji: string;
+  userIds: string[];
+}
+
+// One page of a project's message history, oldest first. `nextCursor` fetches
+// the page before it.
+export interface MessagePage {
+  items: Message[];
+  nextCursor?: string;
+  hasMore: boolean;
+}
+
 export interface MessageAttachment {
   id: string;
   messageId: string;
@@ -29,10 +68,34 @@ export interface MessageAttachment {
   createdAt: Date;
 }
 
+export interface ConversationParticipant {
+  id: string;
+  name?: string;
+  role?: string;
+}
+
+// Whether a project participant is connected right now, and when they last were
+export interface ProjectPresence {
+  projectId: string;
+  userId: string;
+  online: boolean;
+  lastSeenAt?: Date;
+}
+
+// A server event replayed after a reconnect; `event` is the socket event name
+export interface MissedRealtimeEvent {
+  event: string;
+  data: any;
+  sequence?: number;
+  timestamp: Date;
+}
+
 export interface Conversation {
   id: string;
   projectId: string;
+  projectName?: string;
   participants: string[]; // User IDs
+  participantDetails?: ConversationParticipant[];
   unreadCount: number;
   lastMessageId?: string;
   lastMessage?: string;
@@ -77,6 +140,20 @@ export interface DisputeEvidence {
   createdAt: Date;
 }
 
+// Evidence items packaged together with an index and SHA-256 hashes so a
+// mediator can read them in order and check nothing changed after submission
+export interface DisputeEvidenceBundle {
+  id: string;
+  disputeId: string;
+  submittedBy: string; // user ID
+  description: string;
+  createdAt: string;
+  algorithm: 'SHA-256';
+  hash: string; // over the bundle header and every item hash, in index order
+  index: string; // readable table of contents
+  items: DisputeEvidence[];
+}
+
 export interface DisputeCommunication {
   id: string;
   disputeId: string;
@@ -19,7 +19,7 @@ export interface User {
   email: string;
   firstName: string;
   lastName: string;
-  role: 'client' | 'freelancer' | 'admin';
+  role: 'client' | 'freelancer' | 'admin' | 'arbitrator';
   status: string;
   profile: {
     bio?: string;
@@ -50,117 +50,73 @@ export interface PaymentMethod {
   bankName?: string; // For bank accounts
 }
 
-export interface Project {
-  _id: string;
-  title: string;
-  description: string;
-  category: string;
-  budget: number; // in cents
-  deadline: string;
-  status: string;
-  client: User | string;
-  freelancer: User | string;
-  milestones: Milestone[];
-  progress: {
-    completed: number;
-    total: number;
-  };
-  escrow: {
-    status: string;
-    totalHeld: number;
-    totalReleased: number;
-    remaining: number;
-  };
-  paymentSchedule: {
-    autoApproveDays: number;
-    platformFeePercent: number;
-  };
-  activityLog: any[];
-  createdAt: string;
-  updatedAt: string;
-  files?: ProjectFile[];
-}
+// Canonical domain models. API responses are validated and normalised into
+// these shapes by lib/response-schemas.ts, whatever the backend sends.
+export type {
+  Project,
+  Milestone,
+  MilestoneRevision,
+  Deliverable,
+  ProjectActivity,
+  ChangeProposal,
+} from './project';
+export type {
+  EscrowAccount,
+  Transaction,
+  Balance,
+  Payout,
+  ExchangeRateSnapshot,
+} from './payment';
+export type {
+  Message,
+  MessagePage,
+  MessageEdit,
+  MessageReaction,
+  MessageSearchField,
+  MessageSearchHit,
+  MessageSearchResults,
+  MessageAttachment,
+  Conversation,
+  ConversationParticipant,
+  ProjectPresence,
+  MissedRealtimeEvent,
+  DisputeEvidence,
+  DisputeEvidenceBundle,
+  DisputeResolution,
+} from './communication';
+export type { UserAuth, AuthTokens, KYCVerification } from './user';
 
-export interface Milestone {
-  _id: string;
-  title: string;
-  description: string;
-  amount: number; // in cents
-  deadline: string;
-  acceptanceCriteria: string;
-  status: string;
-  submittedAt?: string;
-  approvedAt?: string;
-  startedAt?: string;
-  revisionHistory?: any[];
-  deliverables?: Deliverable[];
-  submissionNotes?: string;
-  revisionNotes?: string;
-  createdAt: string;
-  updatedAt: string;
-  project?: string;
-}
+import type { Project, Milestone } from './project';
+import type { DisputeEvidenceBundle } from './communication';
 
-export interface Deliverable {
-  filename: string;
-  url?: string;
-  path?: string;
-  type?: string;
-  uploadedBy?: string;
-  uploadedAt?: string;
+export interface PaginatedResponse<T> {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
 }
 
-export interface Transaction {
-  _id: string;
-  projectId: string;
-  milestoneId?: string;
-  disputeId?: string;
-  type: 'DEPOSIT' | 'MILESTONE_RELEASE' | 'DISPUTE_PAYMENT' | 'DISPUTE_REFUND' | 'ADMIN_ADJUSTMENT' | 'REFUND' | 'WITHDRAWAL' | 'FEE';
-  amount: number; // in cents
-  currency: string;
-  amountInUsd?: number;
-  from?: string; // user ID
-  to?: string; // user ID
-  status: 'PENDING' | 'COMPLETED' | 'FAILED' | 'REFUNDED';
-  provider: string;
-  paymentMethodId?: string;
-  paymentMethodType?: 'card' | 'crypto' | 'bank' | 'paypal';
-  providerTransactionId?: string;
-  stripeIntentId?: string;
-  stripeTransferId?: string;
-  stripeRefundId?: string;
-  cryptoTxHash?: string;
-  cryptoNetwork?: string;
-  exchangeRate?: number;
-  exchangeRateTimestamp?: Date;
-  description?: string;
-  referenceId?: string;
-  fees?: {
-    platform: number;
-    paymentProcessor: number;
-    total: number;
-  };
-  processedAt?: string;
-  failureReason?: string;
-  metadata?: any;
-  createdAt: string;
-  updatedAt: string;
-}
+export type FilterParams = Record<string, string>;
 
 export interface Dispute {
-  _id: string;
+  id: string;
   project: Project | string;
   milestone: Milestone | string;
   raisedBy: User | string;
   reason: string;
+  title?: string;
+  description?: string;
+  type?: string; // MILESTONE, CONTRACT, PAYMENT, QUALITY or TIMELINE
   evidence?: {
     filename?: string;
     url?: string;
     type?: string;
     uploadedBy?: string;
   }[];
+  evidenceBundles?: DisputeEvidenceBundle[];
   status: string;
   resolutionPhase?: string;
+  phaseStartedAt?: Date; // when the current status was entered; drives the phase SLA
   aiAnalysis?: any;
   mediator?: User | string;
   arbitrator?: User | string;
@@ -170,17 +126,63 @@ export interface Dispute {
     amountToClient: number;
     decisionReason: string;
     decidedBy: string;
-    decidedAt: string;
+    decidedAt: Date;
     aiRecommended?: boolean;
   };
   messages?: {
     sender: User | string;
     content: string;
-    sentAt: string;
+    sentAt: Date;
   }[];
   disputeFeePaid?: any;
-  createdAt: string;
-  updatedAt: string;
+  disputeFee?: DisputeFeeDetails;
+  appeals?: DisputeAppeal[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Both parties' share of the dispute fee, in minor units
+export interface DisputeFeeDetails {
+  clientFee: number;
+  freelancerFee: number;
+  totalAmount: number;
+  status: 'PENDING' | 'PAID' | 'FAILED';
+  disputeAmount: number;
+  clientFeePaid?: boolean;
+  freelancerFeePaid?: boolean;
+}
+
+export type DisputeDecision = NonNullable<Dispute['resolution']>;
+
+// An appeal against a resolved dispute. The original decision is kept so the
+// history can show it next to the appealed outcome.
+export interface DisputeAppeal {
+  id: string;
+  appellant: 'client' | 'freelancer';
+  appellantId: string;
+  reason: string;
+  evidence?: { filename?: string; url?: string; type?: string }[];
+  fee: { amount: number; currency: string; paid: boolean }; // minor units
+  feeTransactionId?: string;
+  reviewerId: string; // never the arbitrator who decided the original case
+  status: 'PENDING_REVIEW' | 'APPROVED' | 'REJECTED';
+  // REOPENED: back to arbitration; REVISED: a new resolution replaced the original
+  outcome?: 'UPHELD' | 'REOPENED' | 'REVISED';
+  submittedAt: Date;
+  reviewedAt?: Date;
+  decisionReason?: string;
+  originalResolution: DisputeDecision;
+  revisedResolution?: DisputeDecision;
+  compensatingTransactionIds?: string[];
+}
+
+// A mediator's or arbitrator's working note on a case; never shown to the parties
+export interface DisputeCaseNote {
+  id: string;
+  disputeId: string;
+  authorId: string;
+  body: string;
+  createdAt: Date;
 }
 
 // Helper type to extract the actual object if it's stored as an object
@@ -234,21 +236,6 @@ export interface ProjectFile {
   uploadedAt: string;
 }
 
-export interface ChangeProposal {
-  id: string;
-  projectId: string;
-  milestoneId: string;
-  proposer: 'client' | 'freelancer';
-  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
-  originalValues: any;
-  proposedValues: any;
-  reason: string;
-  createdAt: Date;
-  updatedAt: Date;
-  resolvedAt?: Date;
-  resolver?: string; // User ID who resolved it
-}
-
 export interface ProjectInvitation {
   id: string;
   projectId: string;
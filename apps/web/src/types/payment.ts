@@ -23,7 +23,7 @@ export interface Transaction {
   milestoneId?: string;
   fromUserId: string;
   toUserId: string;
-  type: 'DEPOSIT' | 'RELEASE' | 'WITHDRAWAL' | 'REFUND' | 'FEE' | 'DISPUTE_SETTLEMENT';
+  type: 'DEPOSIT' | 'RELEASE' | 'WITHDRAWAL' | 'REFUND' | 'FEE' | 'DISPUTE_SETTLEMENT' | 'DISPUTE_REVERSAL' | 'ADJUSTMENT';
   amount: number;
   currency: string; // The currency of the transaction
   amountInUsd?: number; // Amount converted to USD for standardization
@@ -119,4 +119,10 @@ export interface Payout {
   failureReason?: string;
   createdAt: Date;
   updatedAt: Date;
-}
\ No newline at end of file
+}
+export interface ExchangeRateSnapshot {
+  base: string; // Currency the rates are quoted against (always USD once normalised)
+  rates: Record<string, number>; // Units of each currency per one unit of `base`
+  timestamp: Date; // When the provider captured the rates
+  source: string; // Provider that produced the snapshot
+}
@@ -7,7 +7,7 @@ export interface Project {
   totalBudgetInUsd?: number; // Amount converted to USD for standardization
   timeline: string;
   deadline: Date;
-  status: 'DRAFT' | 'PENDING_ACCEPTANCE' | 'AWAITING_DEPOSIT' | 'ACTIVE' | 'COMPLETED' | 'CANCELLED' | 'DISPUTED';
+  status: 'DRAFT' | 'PENDING_ACCEPTANCE' | 'AWAITING_DEPOSIT' | 'ACTIVE' | 'COMPLETED' | 'CANCELLED' | 'DISPUTED' | 'ARCHIVED';
   clientId: string;
   freelancerId?: string;
   escrowAmount?: number;
@@ -24,6 +24,12 @@ export interface Project {
   sharingEnabled?: boolean;
   autoApprovalPeriod: number; // in days
   maxRevisionsPerMilestone: number;
+  // Derived by the backend from milestones and escrow transactions
+  progress?: number; // percent of milestones approved
+  pendingReviews?: number;
+  escrowBalance?: number;
+  escrowBalanceInUsd?: number; // Amount converted to USD for standardization
+  milestones?: Milestone[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -43,12 +49,18 @@ export interface Milestone {
   submissionNotes?: string;
   approvalNotes?: string;
   revisionNotes?: string;
+  revisionHistory?: MilestoneRevision[];
   approvedAt?: Date;
   submittedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface MilestoneRevision {
+  notes?: string;
+  requestedAt: Date;
+}
+
 export interface Deliverable {
   id: string;
   milestoneId: string;
@@ -117,7 +129,8 @@ export interface ChangeProposal {
   projectId: string;
   milestoneId: string;
   proposer: 'client' | 'freelancer';
-  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+  // COUNTERED: answered by a counter-proposal (the proposal whose parentProposalId is this one)
+  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED' | 'COUNTERED';
   originalValues: {
     title?: string;
     description?: string;
@@ -131,6 +144,7 @@ export interface ChangeProposal {
     amount?: number;
   };
   reason: string;
+  parentProposalId?: string; // the proposal this one counters
   createdAt: Date;
   updatedAt: Date;
   resolvedAt?: Date;
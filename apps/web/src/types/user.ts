@@ -29,6 +29,11 @@ export interface UserAuth {
   refreshToken?: string;
 }
 
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
 export interface KYCVerification {
   id: string;
   userId: string;